@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useCallback, useState } from "react";
 import {
   View,
   Text,
@@ -8,23 +8,68 @@ import {
   Alert,
   ScrollView,
   TextInput,
+  Platform,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useRouter } from "expo-router";
-import { createRoom } from "../../lib/roomApi";
+import { useFocusEffect } from "@react-navigation/native";
+import {
+  createRoom,
+  importGameRecord,
+  fetchMyGroups,
+} from "../../lib/roomApi";
 import { saveRecentRoom } from "../../lib/recentRooms";
+import { pickTextFile } from "../../lib/shareFile";
+import { parseGameRecord } from "../../utils/importUtils";
 import {
   TEMPLATE_PRESETS,
   TEMPLATE_LABELS,
   PERMISSION_LABELS,
 } from "../../utils/roomUtils";
-import { GameTemplate } from "../../types";
+import {
+  DEFAULT_SEAT_COUNT,
+  MIN_SEAT_COUNT,
+  MAX_SEAT_COUNT,
+} from "../../utils/seatUtils";
+import { GameTemplate, Group } from "../../types";
+
+/** グループの既定テンプレートを選択したときの selectedTemplate キー */
+const GROUP_TEMPLATE_KEY = "__group__";
 
 export default function CreateRoomScreen() {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
   const [selectedTemplate, setSelectedTemplate] = useState<string>("mahjong");
   const [roomName, setRoomName] = useState<string>("");
+  // リストモードの座席数（麻雀モードは4席固定）
+  const [seatCount, setSeatCount] = useState<number>(DEFAULT_SEAT_COUNT);
+  // 所属グループ（任意）
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  // ゲーム記録からの復元
+  const [showImport, setShowImport] = useState(false);
+  const [importText, setImportText] = useState<string>("");
+
+  useFocusEffect(
+    useCallback(() => {
+      (async () => {
+        const { groups: result } = await fetchMyGroups();
+        setGroups(result);
+      })();
+    }, [])
+  );
+
+  const selectedGroup = groups.find((g) => g.id === selectedGroupId) ?? null;
+
+  const handleSelectGroup = (group: Group | null) => {
+    setSelectedGroupId(group?.id ?? null);
+    // 既定テンプレートがあるグループを選んだら、それを初期選択にする
+    if (group?.default_template) {
+      setSelectedTemplate(GROUP_TEMPLATE_KEY);
+    } else if (selectedTemplate === GROUP_TEMPLATE_KEY) {
+      setSelectedTemplate("mahjong");
+    }
+  };
 
   const handleCreateRoom = async () => {
     if (!roomName.trim()) {
@@ -36,16 +81,27 @@ export default function CreateRoomScreen() {
       setLoading(true);
 
       // 選択されたテンプレートを取得
-      const template: GameTemplate =
-        TEMPLATE_PRESETS[selectedTemplate as keyof typeof TEMPLATE_PRESETS];
+      const preset: GameTemplate | undefined =
+        selectedTemplate === GROUP_TEMPLATE_KEY
+          ? selectedGroup?.default_template ?? undefined
+          : TEMPLATE_PRESETS[selectedTemplate as keyof typeof TEMPLATE_PRESETS];
 
-      if (!template) {
+      if (!preset) {
         Alert.alert("エラー", "テンプレートが選択されていません");
         return;
       }
 
+      const template: GameTemplate =
+        preset.layoutMode === "list"
+          ? { ...preset, maxPlayers: seatCount }
+          : preset;
+
       // ルームを作成
-      const { room, error } = await createRoom(template, roomName.trim());
+      const { room, error } = await createRoom(
+        template,
+        roomName.trim(),
+        selectedGroupId
+      );
 
       if (error) {
         Alert.alert("エラー", error.message);
@@ -61,8 +117,12 @@ export default function CreateRoomScreen() {
         roomId: room.id,
         roomCode: room.room_code,
         joinedAt: Date.now(),
-        templateName: TEMPLATE_LABELS[selectedTemplate] || selectedTemplate,
+        templateName:
+          selectedTemplate === GROUP_TEMPLATE_KEY
+            ? "グループの既定"
+            : TEMPLATE_LABELS[selectedTemplate] || selectedTemplate,
         roomName: roomName.trim(),
+        groupName: selectedGroup?.name,
       });
 
       // ゲーム画面に遷移
@@ -75,6 +135,48 @@ export default function CreateRoomScreen() {
     }
   };
 
+  const handlePickImportFile = async () => {
+    const text = await pickTextFile(".json,application/json");
+    if (text !== null) setImportText(text);
+  };
+
+  const handleImportRoom = async () => {
+    const { record, error: parseError } = parseGameRecord(importText);
+    if (!record) {
+      Alert.alert("エラー", parseError ?? "ゲーム記録を読み込めませんでした");
+      return;
+    }
+
+    // ルーム名が未入力なら元のルーム名を引き継ぐ
+    const name = roomName.trim() || record.room.room_name || record.room.room_code;
+
+    try {
+      setLoading(true);
+
+      const { room, error } = await importGameRecord(record, name);
+
+      if (error || !room) {
+        Alert.alert("エラー", error?.message ?? "ルームの作成に失敗しました");
+        return;
+      }
+
+      await saveRecentRoom({
+        roomId: room.id,
+        roomCode: room.room_code,
+        joinedAt: Date.now(),
+        templateName: "記録から復元",
+        roomName: name,
+      });
+
+      router.push(`/game/${room.id}`);
+    } catch (error) {
+      console.error("Error importing room:", error);
+      Alert.alert("エラー", "ルームの復元中に問題が発生しました");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView contentContainerStyle={styles.scrollContent}>
@@ -97,10 +199,76 @@ export default function CreateRoomScreen() {
             />
           </View>
 
+          {/* グループ選択（所属グループがある場合のみ） */}
+          {groups.length > 0 && (
+            <View style={styles.groupSection}>
+              <Text style={styles.sectionTitle}>グループ</Text>
+              <View style={styles.groupRow}>
+                {[null, ...groups].map((g) => {
+                  const selected = (g?.id ?? null) === selectedGroupId;
+                  return (
+                    <TouchableOpacity
+                      key={g?.id ?? "none"}
+                      style={[styles.groupChip, selected && styles.groupChipSelected]}
+                      onPress={() => handleSelectGroup(g)}
+                      disabled={loading}
+                    >
+                      <Text
+                        style={[styles.groupChipText, selected && styles.groupChipTextSelected]}
+                      >
+                        {g?.name ?? "なし"}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+
           {/* テンプレート選択 */}
           <View style={styles.templateSection}>
             <Text style={styles.sectionTitle}>ゲームテンプレート</Text>
 
+            {selectedGroup?.default_template && (
+              <TouchableOpacity
+                style={[
+                  styles.templateCard,
+                  selectedTemplate === GROUP_TEMPLATE_KEY && styles.templateCardSelected,
+                ]}
+                onPress={() => setSelectedTemplate(GROUP_TEMPLATE_KEY)}
+                disabled={loading}
+              >
+                <View style={styles.templateCardHeader}>
+                  <View
+                    style={[
+                      styles.radio,
+                      selectedTemplate === GROUP_TEMPLATE_KEY && styles.radioSelected,
+                    ]}
+                  >
+                    {selectedTemplate === GROUP_TEMPLATE_KEY && (
+                      <View style={styles.radioInner} />
+                    )}
+                  </View>
+                  <Text
+                    style={[
+                      styles.templateTitle,
+                      selectedTemplate === GROUP_TEMPLATE_KEY && styles.templateTitleSelected,
+                    ]}
+                  >
+                    {selectedGroup.name} の既定
+                  </Text>
+                </View>
+                <View style={styles.templateDetails}>
+                  <Text style={styles.templateDetailLabel}>変数:</Text>
+                  {selectedGroup.default_template.variables.map((variable, index) => (
+                    <Text key={index} style={styles.templateDetailText}>
+                      • {variable.label} (初期値: {variable.initial})
+                    </Text>
+                  ))}
+                </View>
+              </TouchableOpacity>
+            )}
+
             {Object.entries(TEMPLATE_PRESETS).map(([key, template]) => (
               <TouchableOpacity
                 key={key}
@@ -153,6 +321,39 @@ export default function CreateRoomScreen() {
             ))}
           </View>
 
+          {/* 座席数（リストモードのみ） */}
+          {(selectedTemplate === GROUP_TEMPLATE_KEY
+            ? selectedGroup?.default_template
+            : TEMPLATE_PRESETS[selectedTemplate as keyof typeof TEMPLATE_PRESETS]
+          )?.layoutMode === "list" && (
+            <View style={styles.seatCountSection}>
+              <Text style={styles.sectionTitle}>座席数</Text>
+              <View style={styles.seatCountRow}>
+                <TouchableOpacity
+                  style={[
+                    styles.seatCountButton,
+                    seatCount <= MIN_SEAT_COUNT && styles.seatCountButtonDisabled,
+                  ]}
+                  onPress={() => setSeatCount((n) => Math.max(MIN_SEAT_COUNT, n - 1))}
+                  disabled={loading || seatCount <= MIN_SEAT_COUNT}
+                >
+                  <Text style={styles.seatCountButtonText}>−</Text>
+                </TouchableOpacity>
+                <Text style={styles.seatCountValue}>{seatCount}席</Text>
+                <TouchableOpacity
+                  style={[
+                    styles.seatCountButton,
+                    seatCount >= MAX_SEAT_COUNT && styles.seatCountButtonDisabled,
+                  ]}
+                  onPress={() => setSeatCount((n) => Math.min(MAX_SEAT_COUNT, n + 1))}
+                  disabled={loading || seatCount >= MAX_SEAT_COUNT}
+                >
+                  <Text style={styles.seatCountButtonText}>＋</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
           {/* 作成ボタン */}
           <TouchableOpacity
             style={[
@@ -169,6 +370,59 @@ export default function CreateRoomScreen() {
             )}
           </TouchableOpacity>
 
+          {/* ゲーム記録から復元 */}
+          <TouchableOpacity
+            style={styles.importToggle}
+            onPress={() => setShowImport((v) => !v)}
+            disabled={loading}
+          >
+            <Text style={styles.importToggleText}>
+              {showImport ? "▼" : "▶"} エクスポートした記録から復元
+            </Text>
+          </TouchableOpacity>
+
+          {showImport && (
+            <View style={styles.importSection}>
+              <Text style={styles.importHint}>
+                精算画面で書き出した JSON を選択するか、内容を貼り付けてください。
+                元の参加者はゲストとして復元されます。
+              </Text>
+              {Platform.OS === "web" && (
+                <TouchableOpacity
+                  style={styles.importFileButton}
+                  onPress={handlePickImportFile}
+                  disabled={loading}
+                >
+                  <Text style={styles.importFileButtonText}>ファイルを選択</Text>
+                </TouchableOpacity>
+              )}
+              <TextInput
+                style={styles.importInput}
+                value={importText}
+                onChangeText={setImportText}
+                placeholder='{"format": "local-sync-board/game-record", ...}'
+                multiline
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!loading}
+              />
+              <TouchableOpacity
+                style={[
+                  styles.createButton,
+                  (loading || !importText.trim()) && styles.createButtonDisabled,
+                ]}
+                onPress={handleImportRoom}
+                disabled={loading || !importText.trim()}
+              >
+                {loading ? (
+                  <ActivityIndicator color="#ffffff" />
+                ) : (
+                  <Text style={styles.createButtonText}>記録から復元</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+
           {/* 説明テキスト */}
           <View style={styles.infoBox}>
             <Text style={styles.infoText}>
@@ -221,6 +475,34 @@ const styles = StyleSheet.create({
     backgroundColor: "#ffffff",
     marginTop: 8,
   },
+  groupSection: {
+    marginBottom: 24,
+  },
+  groupRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  groupChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    backgroundColor: "#ffffff",
+  },
+  groupChipSelected: {
+    borderColor: "#3b82f6",
+    backgroundColor: "#eff6ff",
+  },
+  groupChipText: {
+    fontSize: 14,
+    color: "#374151",
+  },
+  groupChipTextSelected: {
+    color: "#1e40af",
+    fontWeight: "600",
+  },
   templateSection: {
     marginBottom: 24,
   },
@@ -288,6 +570,38 @@ const styles = StyleSheet.create({
     color: "#6b7280",
     marginBottom: 2,
   },
+  seatCountSection: {
+    marginBottom: 24,
+  },
+  seatCountRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 24,
+  },
+  seatCountButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: "#3b82f6",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  seatCountButtonDisabled: {
+    backgroundColor: "#d1d5db",
+  },
+  seatCountButtonText: {
+    color: "#ffffff",
+    fontSize: 22,
+    fontWeight: "600",
+  },
+  seatCountValue: {
+    fontSize: 20,
+    fontWeight: "600",
+    color: "#1f2937",
+    minWidth: 60,
+    textAlign: "center",
+  },
   createButton: {
     backgroundColor: "#3b82f6",
     borderRadius: 12,
@@ -303,6 +617,49 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: "600",
   },
+  importToggle: {
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  importToggleText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#3b82f6",
+  },
+  importSection: {
+    marginBottom: 16,
+  },
+  importHint: {
+    fontSize: 13,
+    color: "#6b7280",
+    marginBottom: 8,
+  },
+  importFileButton: {
+    borderWidth: 1,
+    borderColor: "#3b82f6",
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  importFileButtonText: {
+    color: "#3b82f6",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  importInput: {
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 13,
+    color: "#1f2937",
+    backgroundColor: "#ffffff",
+    minHeight: 120,
+    maxHeight: 240,
+    textAlignVertical: "top",
+    marginBottom: 12,
+  },
   infoBox: {
     backgroundColor: "#fef3c7",
     borderRadius: 12,
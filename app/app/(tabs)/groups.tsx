@@ -0,0 +1,422 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { useFocusEffect } from "@react-navigation/native";
+import {
+  fetchMyGroups,
+  createGroup,
+  joinGroup,
+  leaveGroup,
+  fetchGroupLeaderboard,
+} from "../../lib/roomApi";
+import {
+  StatsPeriod,
+  STATS_PERIOD_LABELS,
+  getStatsDateRange,
+} from "../../utils/statsUtils";
+import PlayerStatsList from "../../components/stats/PlayerStatsList";
+import { useAuth } from "../../hooks/useAuth";
+import { Group, PlayerStats } from "../../types";
+
+/**
+ * グループ画面
+ * 所属グループの一覧・作成・参加と、グループのシーズン成績を表示する
+ */
+export default function GroupsScreen() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [groupsLoading, setGroupsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newGroupName, setNewGroupName] = useState("");
+  const [joinCode, setJoinCode] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const [period, setPeriod] = useState<StatsPeriod>("all");
+  const [stats, setStats] = useState<PlayerStats[]>([]);
+  const [statsLoading, setStatsLoading] = useState(false);
+  const [statsError, setStatsError] = useState<string | null>(null);
+
+  const loadGroups = useCallback(async () => {
+    setGroupsLoading(true);
+    const { groups: result, error } = await fetchMyGroups();
+    if (error) {
+      Alert.alert("エラー", error.message);
+    }
+    setGroups(result);
+    setSelectedId((prev) =>
+      prev && result.some((g) => g.id === prev) ? prev : result[0]?.id ?? null
+    );
+    setGroupsLoading(false);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadGroups();
+    }, [loadGroups])
+  );
+
+  // 選択中グループの成績
+  useEffect(() => {
+    if (!selectedId) {
+      setStats([]);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      setStatsLoading(true);
+      const { stats: result, error } = await fetchGroupLeaderboard(
+        selectedId,
+        getStatsDateRange(period)
+      );
+      if (cancelled) return;
+      setStats(result);
+      setStatsError(error ? error.message : null);
+      setStatsLoading(false);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, period]);
+
+  const handleCreate = async () => {
+    if (!newGroupName.trim()) return;
+    setSubmitting(true);
+    try {
+      const { group, error } = await createGroup(newGroupName.trim());
+      if (error || !group) {
+        Alert.alert("エラー", error?.message ?? "グループの作成に失敗しました");
+        return;
+      }
+      setNewGroupName("");
+      setSelectedId(group.id);
+      await loadGroups();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleJoin = async () => {
+    if (!joinCode.trim()) return;
+    setSubmitting(true);
+    try {
+      const { group, error } = await joinGroup(joinCode.trim());
+      if (error || !group) {
+        Alert.alert("参加失敗", error?.message ?? "グループに参加できませんでした");
+        return;
+      }
+      setJoinCode("");
+      setSelectedId(group.id);
+      await loadGroups();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleLeave = (group: Group) => {
+    Alert.alert("退出の確認", `「${group.name}」から退出しますか？`, [
+      { text: "キャンセル", style: "cancel" },
+      {
+        text: "退出",
+        style: "destructive",
+        onPress: async () => {
+          const { error } = await leaveGroup(group.id);
+          if (error) {
+            Alert.alert("エラー", error.message);
+            return;
+          }
+          await loadGroups();
+        },
+      },
+    ]);
+  };
+
+  const selectedGroup = groups.find((g) => g.id === selectedId) ?? null;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* ヘッダー */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => (router.canGoBack() ? router.back() : router.replace("/"))}
+        >
+          <Text style={styles.backButton}>← 戻る</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>グループ</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <ScrollView style={styles.top} contentContainerStyle={styles.content}>
+        {/* 作成・参加 */}
+        <View style={styles.formRow}>
+          <TextInput
+            style={styles.input}
+            value={newGroupName}
+            onChangeText={setNewGroupName}
+            placeholder="新しいグループ名"
+            maxLength={30}
+            editable={!submitting}
+          />
+          <TouchableOpacity
+            style={[styles.formButton, (!newGroupName.trim() || submitting) && styles.formButtonDisabled]}
+            onPress={handleCreate}
+            disabled={!newGroupName.trim() || submitting}
+          >
+            <Text style={styles.formButtonText}>作成</Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.formRow}>
+          <TextInput
+            style={styles.input}
+            value={joinCode}
+            onChangeText={(text) => setJoinCode(text.toUpperCase())}
+            placeholder="参加コード（6文字）"
+            maxLength={6}
+            autoCapitalize="characters"
+            editable={!submitting}
+          />
+          <TouchableOpacity
+            style={[styles.formButton, (!joinCode.trim() || submitting) && styles.formButtonDisabled]}
+            onPress={handleJoin}
+            disabled={!joinCode.trim() || submitting}
+          >
+            <Text style={styles.formButtonText}>参加</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* グループ一覧 */}
+        {groupsLoading ? (
+          <ActivityIndicator size="small" color="#3b82f6" style={styles.loader} />
+        ) : groups.length === 0 ? (
+          <Text style={styles.emptyText}>所属しているグループはありません</Text>
+        ) : (
+          <View style={styles.groupList}>
+            {groups.map((g) => (
+              <TouchableOpacity
+                key={g.id}
+                style={[styles.groupChip, g.id === selectedId && styles.groupChipSelected]}
+                onPress={() => setSelectedId(g.id)}
+              >
+                <Text
+                  style={[styles.groupChipText, g.id === selectedId && styles.groupChipTextSelected]}
+                >
+                  {g.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {/* 選択中グループ */}
+        {selectedGroup && (
+          <View style={styles.groupDetail}>
+            <View style={styles.groupInfoRow}>
+              <Text style={styles.groupCode}>コード: {selectedGroup.group_code}</Text>
+              {selectedGroup.owner_user_id === user?.id ? (
+                <Text style={styles.ownerBadge}>オーナー</Text>
+              ) : (
+                <TouchableOpacity onPress={() => handleLeave(selectedGroup)}>
+                  <Text style={styles.leaveText}>退出</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            <Text style={styles.groupTemplate}>
+              既定テンプレート:{" "}
+              {selectedGroup.default_template
+                ? selectedGroup.default_template.variables.map((v) => v.label).join("・")
+                : "未設定"}
+            </Text>
+
+            <View style={styles.filterRow}>
+              {(Object.keys(STATS_PERIOD_LABELS) as StatsPeriod[]).map((p) => (
+                <TouchableOpacity
+                  key={p}
+                  style={[styles.filterChip, period === p && styles.filterChipSelected]}
+                  onPress={() => setPeriod(p)}
+                >
+                  <Text style={[styles.filterText, period === p && styles.filterTextSelected]}>
+                    {STATS_PERIOD_LABELS[p]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+      </ScrollView>
+
+      {selectedGroup && (
+        <View style={styles.leaderboard}>
+          <PlayerStatsList stats={stats} loading={statsLoading} error={statsError} />
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 16,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    fontSize: 16,
+    color: "#3b82f6",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#1f2937",
+  },
+  headerRight: {
+    width: 60,
+  },
+  top: {
+    flexGrow: 0,
+  },
+  content: {
+    padding: 16,
+    gap: 8,
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: "#1f2937",
+    backgroundColor: "#ffffff",
+  },
+  formButton: {
+    backgroundColor: "#3b82f6",
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    justifyContent: "center",
+  },
+  formButtonDisabled: {
+    backgroundColor: "#9ca3af",
+  },
+  formButtonText: {
+    color: "#ffffff",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  loader: {
+    marginTop: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#9ca3af",
+    textAlign: "center",
+    marginTop: 16,
+  },
+  groupList: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 8,
+  },
+  groupChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    backgroundColor: "#ffffff",
+  },
+  groupChipSelected: {
+    borderColor: "#3b82f6",
+    backgroundColor: "#eff6ff",
+  },
+  groupChipText: {
+    fontSize: 14,
+    color: "#374151",
+  },
+  groupChipTextSelected: {
+    color: "#1e40af",
+    fontWeight: "600",
+  },
+  groupDetail: {
+    marginTop: 8,
+    gap: 8,
+  },
+  groupInfoRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  groupCode: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1f2937",
+    letterSpacing: 1,
+  },
+  ownerBadge: {
+    fontSize: 12,
+    color: "#1e40af",
+    backgroundColor: "#dbeafe",
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+  },
+  leaveText: {
+    fontSize: 14,
+    color: "#dc2626",
+  },
+  groupTemplate: {
+    fontSize: 13,
+    color: "#6b7280",
+  },
+  filterRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  filterChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    backgroundColor: "#ffffff",
+  },
+  filterChipSelected: {
+    borderColor: "#3b82f6",
+    backgroundColor: "#eff6ff",
+  },
+  filterText: {
+    fontSize: 13,
+    color: "#4b5563",
+  },
+  filterTextSelected: {
+    color: "#1e40af",
+    fontWeight: "600",
+  },
+  leaderboard: {
+    flex: 1,
+  },
+});
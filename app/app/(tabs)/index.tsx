@@ -109,6 +109,24 @@ export default function HomeScreen() {
             <Text style={styles.secondaryButtonText}>部屋に入る</Text>
             <Text style={styles.secondaryButtonSubtext}>Join Room</Text>
           </TouchableOpacity>
+
+          {/* 通算成績・グループ */}
+          <View style={styles.linkRow}>
+            <TouchableOpacity
+              style={styles.statsButton}
+              onPress={() => router.push("/stats")}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.statsButtonText}>📊 通算成績</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.statsButton}
+              onPress={() => router.push("/groups")}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.statsButtonText}>👥 グループ</Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
         {/* 最近の部屋 */}
@@ -242,6 +260,21 @@ const styles = StyleSheet.create({
     color: "#2563eb",
     fontSize: 14,
   },
+  linkRow: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 24,
+    marginTop: 16,
+  },
+  statsButton: {
+    alignItems: "center",
+    paddingVertical: 12,
+  },
+  statsButtonText: {
+    color: "#2563eb",
+    fontSize: 16,
+    fontWeight: "600",
+  },
   footer: {
     position: "absolute",
     bottom: 32,
@@ -12,7 +12,7 @@ import {
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useRouter } from "expo-router";
-import { joinRoom } from "../../lib/roomApi";
+import { joinRoom, fetchGroup } from "../../lib/roomApi";
 import { saveRecentRoom } from "../../lib/recentRooms";
 
 export default function JoinRoomScreen() {
@@ -49,6 +49,11 @@ export default function JoinRoomScreen() {
         return;
       }
 
+      // 所属グループ名（最近の部屋に表示）
+      const groupName = room.group_id
+        ? (await fetchGroup(room.group_id)).group?.name
+        : undefined;
+
       await saveRecentRoom({
         roomId: room.id,
         roomCode: room.room_code,
@@ -57,6 +62,7 @@ export default function JoinRoomScreen() {
           room.template?.layoutMode === "mahjong"
             ? "麻雀"
             : "シンプルスコア",
+        groupName,
       });
 
       // ゲーム画面に遷移
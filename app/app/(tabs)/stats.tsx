@@ -0,0 +1,164 @@
+import React, { useCallback, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { useFocusEffect } from "@react-navigation/native";
+import { fetchPlayerStats } from "../../lib/roomApi";
+import {
+  StatsPeriod,
+  STATS_PERIOD_LABELS,
+  getStatsDateRange,
+} from "../../utils/statsUtils";
+import PlayerStatsList from "../../components/stats/PlayerStatsList";
+import { LayoutMode, PlayerStats } from "../../types";
+
+const LAYOUT_OPTIONS: { value: LayoutMode | "all"; label: string }[] = [
+  { value: "all", label: "すべて" },
+  { value: "mahjong", label: "麻雀" },
+  { value: "list", label: "シンプルスコア" },
+];
+
+/**
+ * 通算成績画面
+ * 参加したルームの精算結果をプレイヤーごとに集計し、合計順に表示する
+ */
+export default function StatsScreen() {
+  const router = useRouter();
+  const [period, setPeriod] = useState<StatsPeriod>("all");
+  const [layout, setLayout] = useState<LayoutMode | "all">("all");
+  const [stats, setStats] = useState<PlayerStats[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      let cancelled = false;
+      (async () => {
+        setLoading(true);
+        const { stats: result, error: fetchError } = await fetchPlayerStats({
+          ...getStatsDateRange(period),
+          layoutMode: layout === "all" ? undefined : layout,
+        });
+        if (cancelled) return;
+        setStats(result);
+        setError(fetchError ? fetchError.message : null);
+        setLoading(false);
+      })();
+      return () => {
+        cancelled = true;
+      };
+    }, [period, layout])
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* ヘッダー */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => (router.canGoBack() ? router.back() : router.replace("/"))}
+        >
+          <Text style={styles.backButton}>← 戻る</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>通算成績</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      {/* 絞り込み */}
+      <View style={styles.filterSection}>
+        <View style={styles.filterRow}>
+          {(Object.keys(STATS_PERIOD_LABELS) as StatsPeriod[]).map((p) => (
+            <TouchableOpacity
+              key={p}
+              style={[styles.filterChip, period === p && styles.filterChipSelected]}
+              onPress={() => setPeriod(p)}
+            >
+              <Text style={[styles.filterText, period === p && styles.filterTextSelected]}>
+                {STATS_PERIOD_LABELS[p]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.filterRow}>
+          {LAYOUT_OPTIONS.map((opt) => (
+            <TouchableOpacity
+              key={opt.value}
+              style={[styles.filterChip, layout === opt.value && styles.filterChipSelected]}
+              onPress={() => setLayout(opt.value)}
+            >
+              <Text
+                style={[styles.filterText, layout === opt.value && styles.filterTextSelected]}
+              >
+                {opt.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <PlayerStatsList stats={stats} loading={loading} error={error} />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f9fafb",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 16,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  backButton: {
+    fontSize: 16,
+    color: "#3b82f6",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#1f2937",
+  },
+  headerRight: {
+    width: 60,
+  },
+  filterSection: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    gap: 8,
+  },
+  filterRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  filterChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    backgroundColor: "#ffffff",
+  },
+  filterChipSelected: {
+    borderColor: "#3b82f6",
+    backgroundColor: "#eff6ff",
+  },
+  filterText: {
+    fontSize: 13,
+    color: "#4b5563",
+  },
+  filterTextSelected: {
+    color: "#1e40af",
+    fontWeight: "600",
+  },
+});
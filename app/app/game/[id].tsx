@@ -20,15 +20,21 @@ import { useRoomRealtime } from "../../hooks/useRoomRealtime";
 import { useConnectionMonitor } from "../../hooks/useConnectionMonitor";
 import { useAuth } from "../../hooks/useAuth";
 import { useGameActions } from "../../hooks/useGameActions";
+import { useOperationQueue } from "../../hooks/useOperationQueue";
 import { Gesture, GestureDetector } from "react-native-gesture-handler";
 import PlayerList from "../../components/game/PlayerList";
 import MahjongTable from "../../components/game/MahjongTable";
 import HistoryLog from "../../components/game/HistoryLog";
+import CustomActionPanel from "../../components/game/CustomActionPanel";
 import Toast from "../../components/common/Toast";
 import { useToast } from "../../hooks/useToast";
 import { leaveSeat, updateCounter } from "../../lib/roomApi";
 import { RecentLogEntry } from "../../types";
 import { isHostUser } from "../../utils/roomUtils";
+import { createEmptySeats } from "../../utils/seatUtils";
+import { getHistoryActors } from "../../utils/historyUtils";
+import { getRoundState } from "../../utils/roundUtils";
+import { applyQueuedOperations } from "../../utils/offlineQueueUtils";
 
 export default function GameScreen() {
   const router = useRouter();
@@ -38,31 +44,54 @@ export default function GameScreen() {
   const { connectionStatuses } = useConnectionMonitor(
     id ?? null,
     user?.id ?? null,
-    room?.seats ?? [null, null, null, null],
-    room?.template?.forceLeaveTimeoutSec,
+    room?.seats ?? createEmptySeats(room?.template?.maxPlayers),
   );
 
   const isHost = isHostUser(user?.id, room);
   const { toasts, show: showToast, dismiss: dismissToast } = useToast();
 
+  // 切断中のスコア移動は送信待ちに積み、再接続時に送り直す
+  const { pendingOperations, enqueueTransfer } = useOperationQueue({
+    room,
+    isOffline: isRealtimeDisconnected,
+    showToast,
+  });
+
   const {
     isProcessing,
     isJoining,
     joiningGuestSeats,
     settlementCount,
+    optimisticOperations,
     handleJoinSeat,
     handleJoinFakeSeat,
     handleLeaveSeat,
     handleForceLeave,
     handleRenameGuest,
     handleTransfer,
+    handleTransferMulti,
     handleRollback,
     handleUndo,
+    handleRedo,
+    handleAdvanceRound,
+    handleApplyWin,
+    handleApplyDraw,
+    handleRunCustomAction,
+    handleResetRound,
     handleSettlement,
     handleJoinGame,
     handleLeaveGame,
     handleSettlementComplete,
-  } = useGameActions({ room, user, isHost, showToast, applyRoom });
+  } = useGameActions({
+    room,
+    user,
+    isHost,
+    showToast,
+    applyRoom,
+    refetch,
+    isOffline: isRealtimeDisconnected,
+    enqueueTransfer,
+  });
 
   // エラーハンドリング: 永続的エラーと一時的エラーを分類
   useEffect(() => {
@@ -188,6 +217,17 @@ export default function GameScreen() {
     : undefined;
   const canEditCounter = isHost && room.template.hostPermissions.includes("edit_counter");
 
+  // 局（麻雀モードのみ、進行はカウンターと同じ edit_counter 権限）
+  const round = layoutMode === "mahjong"
+    ? getRoundState(room.current_state || {})
+    : undefined;
+
+  // 表示用の状態（確定待ち・送信待ちのスコア移動を楽観的に反映）
+  const displayState = applyQueuedOperations(room.current_state || {}, [
+    ...optimisticOperations,
+    ...pendingOperations,
+  ]);
+
   // 直近の操作ログを取得（プレビュー用）
   const recentLog: RecentLogEntry[] = room?.current_state?.__recent_log__ || [];
 
@@ -245,6 +285,14 @@ export default function GameScreen() {
           </Text>
         </View>
       )}
+      {/* 送信待ちバナー */}
+      {pendingOperations.length > 0 && (
+        <View style={styles.connectionBanner}>
+          <Text style={styles.connectionBannerText}>
+            送信待ち {pendingOperations.length}件（再接続後に送信します）
+          </Text>
+        </View>
+      )}
       {/* 着席中バナー */}
       {(isJoining || joiningGuestSeats.size > 0) && (
         <View style={styles.reconnectedBanner}>
@@ -276,13 +324,15 @@ export default function GameScreen() {
           {/* 麻雀テーブル（固定サイズ） */}
           <View style={styles.mahjongTableWrapper}>
             <MahjongTable
-              gameState={room.current_state || {}}
+              gameState={displayState}
               variables={room.template.variables}
+              computedVariables={room.template.computedVariables}
               currentUserId={user?.id || ""}
               hostUserId={room.host_user_id}
               coHostIds={room.co_host_ids}
-              seats={room.seats || [null, null, null, null]}
+              seats={room.seats || createEmptySeats(room.template.maxPlayers)}
               onTransfer={handleTransfer}
+              onTransferMulti={handleTransferMulti}
               onJoinSeat={handleJoinSeat}
               onJoinFakeSeat={isHost ? handleJoinFakeSeat : undefined}
               onForceLeave={isHost ? handleForceLeave : undefined}
@@ -296,9 +346,26 @@ export default function GameScreen() {
               counterValue={counterValue}
               canEditCounter={canEditCounter}
               onCounterCommit={handleCounterCommit}
+              round={round}
+              canEditRound={canEditCounter}
+              onAdvanceRound={handleAdvanceRound}
+              onResetRound={handleResetRound}
+              onApplyWin={handleApplyWin}
+              onApplyDraw={handleApplyDraw}
             />
           </View>
 
+          {/* カスタム操作 */}
+          <CustomActionPanel
+            actions={room.template.customActions || []}
+            variables={room.template.variables}
+            gameState={displayState}
+            currentUserId={user?.id || ""}
+            isHost={isHost}
+            isProcessing={isProcessing}
+            onRun={handleRunCustomAction}
+          />
+
           {/* ホスト専用コントロール（麻雀モード） */}
           {isHost && room.template.settlementConfig && (
             <View style={styles.mahjongHostControls}>
@@ -318,7 +385,14 @@ export default function GameScreen() {
           {/* ゲーム参加/退出ボタン */}
           {user && (
             <View style={styles.participationSection}>
-              {!isUserInGame ? (
+              {isUserSeated ? (
+                <TouchableOpacity
+                  style={styles.leaveButton}
+                  onPress={handleLeaveSeat}
+                >
+                  <Text style={styles.leaveButtonText}>🚪 座席から離席</Text>
+                </TouchableOpacity>
+              ) : !isUserInGame ? (
                 <TouchableOpacity
                   style={styles.joinButton}
                   onPress={handleJoinGame}
@@ -337,10 +411,28 @@ export default function GameScreen() {
           )}
 
           <PlayerList
-            gameState={room.current_state || {}}
+            gameState={displayState}
             variables={room.template.variables}
+            computedVariables={room.template.computedVariables}
             currentUserId={user?.id}
             hostUserId={room.host_user_id}
+            seats={room.seats || createEmptySeats(room.template.maxPlayers)}
+            connectionStatuses={connectionStatuses}
+            onJoinSeat={handleJoinSeat}
+            onJoinFakeSeat={isHost ? handleJoinFakeSeat : undefined}
+            isJoining={isJoining}
+            joiningGuestSeats={joiningGuestSeats}
+          />
+
+          {/* カスタム操作 */}
+          <CustomActionPanel
+            actions={room.template.customActions || []}
+            variables={room.template.variables}
+            gameState={displayState}
+            currentUserId={user?.id || ""}
+            isHost={isHost}
+            isProcessing={isProcessing}
+            onRun={handleRunCustomAction}
           />
 
           {/* ホスト専用コントロール */}
@@ -362,8 +454,11 @@ export default function GameScreen() {
       <HistoryLog
         recentLog={recentLog}
         roomId={room.id}
+        variables={room.template.variables}
+        actors={getHistoryActors(room.current_state || {})}
         onRollback={handleRollback}
         onUndo={handleUndo}
+        onRedo={handleRedo}
         isHost={isHost}
         settlementCount={settlementCount}
       />
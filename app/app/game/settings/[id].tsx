@@ -20,16 +20,31 @@ import { useRoomRealtime } from "../../../hooks/useRoomRealtime";
 import { useAuth } from "../../../hooks/useAuth";
 import { updateTemplate, updateRoomName } from "../../../lib/roomApi";
 import { updateRecentRoomName } from "../../../lib/recentRooms";
-import { Variable, PotAction, SettlementConfig } from "../../../types";
-import { isHostUser } from "../../../utils/roomUtils";
+import {
+  Variable,
+  ComputedVariable,
+  PotAction,
+  CustomAction,
+  SettlementConfig,
+} from "../../../types";
+import {
+  isHostUser,
+  DEFAULT_LIST_SETTLEMENT_CONFIG,
+} from "../../../utils/roomUtils";
+import { createEmptySeats } from "../../../utils/seatUtils";
+import { validateExpression } from "../../../utils/expressionUtils";
+import { validateVariableValue } from "../../../utils/variableConstraintUtils";
 import { DEFAULT_FORCE_LEAVE_TIMEOUT_SEC } from "../../../constants/connection";
 import VariableEditor from "../../../components/settings/VariableEditor";
+import ComputedVariableEditor from "../../../components/settings/ComputedVariableEditor";
 import PotActionEditor from "../../../components/settings/PotActionEditor";
+import CustomActionEditor from "../../../components/settings/CustomActionEditor";
 import SettlementConfigEditor from "../../../components/settings/SettlementConfigEditor";
 import PlayerScoreEditor from "../../../components/settings/PlayerScoreEditor";
 import ResetSection from "../../../components/settings/ResetSection";
 import CoHostEditor from "../../../components/settings/CoHostEditor";
 import CopyTemplateSection from "../../../components/settings/CopyTemplateSection";
+import GroupTemplateSection from "../../../components/settings/GroupTemplateSection";
 
 export default function RoomSettingsScreen() {
   const router = useRouter();
@@ -108,9 +123,15 @@ function SettingsContent({
   const [editVariables, setEditVariables] = useState<Variable[]>(
     room.template.variables,
   );
+  const [editComputedVariables, setEditComputedVariables] = useState<
+    ComputedVariable[]
+  >(room.template.computedVariables || []);
   const [editPotActions, setEditPotActions] = useState<PotAction[]>(
     room.template.potActions || [],
   );
+  const [editCustomActions, setEditCustomActions] = useState<CustomAction[]>(
+    room.template.customActions || [],
+  );
   const [editSettlementConfig, setEditSettlementConfig] = useState<
     SettlementConfig | undefined
   >(room.template.settlementConfig);
@@ -119,6 +140,9 @@ function SettingsContent({
       room.template.forceLeaveTimeoutSec ?? DEFAULT_FORCE_LEAVE_TIMEOUT_SEC,
     ),
   );
+  const [editEndOnBust, setEditEndOnBust] = useState<boolean>(
+    room.template.endOnBust ?? false,
+  );
   const [saving, setSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
 
@@ -126,8 +150,11 @@ function SettingsContent({
   useEffect(() => {
     setEditRoomName(room.room_name ?? "");
     setEditVariables(room.template.variables);
+    setEditComputedVariables(room.template.computedVariables || []);
     setEditPotActions(room.template.potActions || []);
+    setEditCustomActions(room.template.customActions || []);
     setEditSettlementConfig(room.template.settlementConfig);
+    setEditEndOnBust(room.template.endOnBust ?? false);
     setEditForceLeaveTimeout(
       String(
         room.template.forceLeaveTimeoutSec ?? DEFAULT_FORCE_LEAVE_TIMEOUT_SEC,
@@ -141,11 +168,27 @@ function SettingsContent({
     setHasChanges(true);
   }, []);
 
+  const handleComputedVariablesUpdate = useCallback(
+    (computedVariables: ComputedVariable[]) => {
+      setEditComputedVariables(computedVariables);
+      setHasChanges(true);
+    },
+    [],
+  );
+
   const handlePotActionsUpdate = useCallback((potActions: PotAction[]) => {
     setEditPotActions(potActions);
     setHasChanges(true);
   }, []);
 
+  const handleCustomActionsUpdate = useCallback(
+    (customActions: CustomAction[]) => {
+      setEditCustomActions(customActions);
+      setHasChanges(true);
+    },
+    [],
+  );
+
   const handleSettlementConfigUpdate = useCallback(
     (config: SettlementConfig) => {
       setEditSettlementConfig(config);
@@ -160,6 +203,31 @@ function SettingsContent({
       Alert.alert("エラー", "強制離席時間は60秒以上の値を入力してください");
       return;
     }
+    for (const variable of editVariables) {
+      if (
+        variable.min !== undefined &&
+        variable.max !== undefined &&
+        variable.min > variable.max
+      ) {
+        Alert.alert("エラー", `変数「${variable.label}」: 下限が上限を超えています`);
+        return;
+      }
+      const initialError = validateVariableValue(variable, variable.initial);
+      if (initialError) {
+        Alert.alert("エラー", `変数「${variable.label}」の初期値: ${initialError}`);
+        return;
+      }
+    }
+    for (const computed of editComputedVariables) {
+      const expressionError = validateExpression(
+        computed.expression,
+        editVariables.map((v) => v.key),
+      );
+      if (expressionError) {
+        Alert.alert("エラー", `計算変数「${computed.label}」: ${expressionError}`);
+        return;
+      }
+    }
     setSaving(true);
     try {
       const trimmedRoomName = editRoomName.trim();
@@ -177,11 +245,14 @@ function SettingsContent({
       }
       const { error } = await updateTemplate(room.id, {
         variables: editVariables,
+        computedVariables: editComputedVariables,
         potActions: editPotActions,
+        customActions: editCustomActions,
         ...(editSettlementConfig
           ? { settlementConfig: editSettlementConfig }
           : {}),
         forceLeaveTimeoutSec: parsedTimeout,
+        endOnBust: editEndOnBust,
       });
       if (error) {
         Alert.alert("エラー", error.message);
@@ -271,8 +342,37 @@ function SettingsContent({
           <VariableEditor
             variables={editVariables}
             potActions={editPotActions}
+            customActions={editCustomActions}
+            computedVariables={editComputedVariables}
             onUpdate={handleVariablesUpdate}
           />
+          {editVariables.some((v) => v.allowNegative === "warn") && (
+            <TouchableOpacity
+              style={styles.timeoutRow}
+              onPress={() => {
+                setEditEndOnBust((prev) => !prev);
+                setHasChanges(true);
+              }}
+            >
+              <Text style={styles.timeoutLabel}>飛びで精算を促す</Text>
+              <Text style={styles.toggleText}>
+                {editEndOnBust ? "オン" : "オフ"}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* 計算変数セクション */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>計算変数</Text>
+          <Text style={styles.sectionDescription}>
+            他の変数から計算して表示する読み取り専用の変数です
+          </Text>
+          <ComputedVariableEditor
+            computedVariables={editComputedVariables}
+            variables={editVariables}
+            onUpdate={handleComputedVariablesUpdate}
+          />
         </View>
 
         {/* 供託操作セクション */}
@@ -290,22 +390,49 @@ function SettingsContent({
           </View>
         )}
 
+        {/* カスタム操作セクション */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>カスタム操作</Text>
+          <Text style={styles.sectionDescription}>
+            実行者・他の全員・供託の間でまとめて移動する操作を定義します
+          </Text>
+          <CustomActionEditor
+            customActions={editCustomActions}
+            variables={editVariables}
+            onUpdate={handleCustomActionsUpdate}
+          />
+        </View>
+
         {/* 精算設定セクション */}
-        {editSettlementConfig && (
-          <View style={styles.section}>
-            <Text style={styles.sectionTitle}>精算設定</Text>
-            <Text style={styles.sectionDescription}>
-              精算時の割る数・順位点を設定します
-            </Text>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>精算設定</Text>
+          <Text style={styles.sectionDescription}>
+            精算時の対象変数・割る数・順位点などを設定します
+          </Text>
+          {editSettlementConfig ? (
             <SettlementConfigEditor
               config={editSettlementConfig}
               onUpdate={handleSettlementConfigUpdate}
-              scoreInitial={
-                editVariables.find((v) => v.key === "score")?.initial ?? 0
-              }
+              variables={editVariables}
+              computedVariables={editComputedVariables}
             />
-          </View>
-        )}
+          ) : (
+            // 精算設定のない旧テンプレート向け: リストモード用の設定で有効化
+            <TouchableOpacity
+              style={styles.enableSettlementBtn}
+              onPress={() =>
+                handleSettlementConfigUpdate({
+                  ...DEFAULT_LIST_SETTLEMENT_CONFIG,
+                  variable:
+                    editVariables[0]?.key ??
+                    DEFAULT_LIST_SETTLEMENT_CONFIG.variable,
+                })
+              }
+            >
+              <Text style={styles.enableSettlementBtnText}>精算を有効にする</Text>
+            </TouchableOpacity>
+          )}
+        </View>
 
         {/* プレイヤー管理セクション */}
         <View style={styles.section}>
@@ -319,7 +446,8 @@ function SettingsContent({
             currentState={room.current_state}
             variables={room.template.variables}
             currentUserId={user?.id}
-            seats={room.seats || [null, null, null, null]}
+            seats={room.seats || createEmptySeats(room.template.maxPlayers)}
+            stateVersion={room.state_version}
           />
         </View>
 
@@ -338,7 +466,7 @@ function SettingsContent({
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>接続設定</Text>
           <Text style={styles.sectionDescription}>
-            切断検知後、指定時間経過で自動的に座席から離席されます
+            応答が途絶えてから指定時間が経過すると、サーバーが自動的に座席から離席させます（1分ごとに判定）
           </Text>
           <View style={styles.timeoutRow}>
             <Text style={styles.timeoutLabel}>強制離席時間</Text>
@@ -391,6 +519,17 @@ function SettingsContent({
             <CopyTemplateSection room={room} />
           </View>
         )}
+
+        {/* グループ既定テンプレート - グループ所属ルームの作成者のみ表示 */}
+        {room.group_id && user?.id === room.host_user_id && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>グループの既定テンプレート</Text>
+            <Text style={styles.sectionDescription}>
+              このルームの設定を、グループで次にルームを作るときの既定にします（グループのオーナーのみ）
+            </Text>
+            <GroupTemplateSection room={room} groupId={room.group_id} />
+          </View>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -490,6 +629,18 @@ const styles = StyleSheet.create({
     color: "#6b7280",
     marginBottom: 12,
   },
+  enableSettlementBtn: {
+    borderWidth: 1,
+    borderColor: "#3b82f6",
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: "center",
+  },
+  enableSettlementBtnText: {
+    color: "#3b82f6",
+    fontSize: 15,
+    fontWeight: "600",
+  },
   listItem: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -526,6 +677,11 @@ const styles = StyleSheet.create({
     fontWeight: "500",
     color: "#374151",
   },
+  toggleText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#3b82f6",
+  },
   timeoutInputRow: {
     flexDirection: "row",
     alignItems: "center",
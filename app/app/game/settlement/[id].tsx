@@ -1,6 +1,7 @@
 /**
  * ゲーム結果ページ（全画面表示・SNS共有用）
  * ゲーム画面から右スワイプで遷移
+ * ゲーム記録の書き出し（JSON: 全記録 / CSV: 精算表）もここから行う
  */
 
 import React, { useMemo, useState, useEffect, useCallback } from "react";
@@ -13,13 +14,24 @@ import {
   BackHandler,
   useWindowDimensions,
   ActivityIndicator,
+  Alert,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { useRoomRealtime } from "../../../hooks/useRoomRealtime";
 import { useAuth } from "../../../hooks/useAuth";
 import { useToast } from "../../../hooks/useToast";
-import { saveAdjustment, fetchSettlements } from "../../../lib/roomApi";
+import {
+  saveAdjustment,
+  fetchSettlements,
+  fetchAllHistory,
+} from "../../../lib/roomApi";
+import { shareTextFile } from "../../../lib/shareFile";
+import {
+  buildGameRecord,
+  settlementsToCsv,
+  exportFileName,
+} from "../../../utils/exportUtils";
 import { Settlement } from "../../../types";
 import AdjustmentModal from "../../../components/game/AdjustmentModal";
 import Toast from "../../../components/common/Toast";
@@ -47,6 +59,7 @@ export default function SettlementScreen() {
   const [adjustmentModalVisible, setAdjustmentModalVisible] = useState(false);
   const [settlements, setSettlements] = useState<Settlement[]>([]);
   const [settlementsLoading, setSettlementsLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
 
   const isHost = user?.id === room?.host_user_id;
 
@@ -157,6 +170,54 @@ export default function SettlementScreen() {
     }
   }
 
+  // JSON 書き出し: テンプレート・最終状態・全履歴（スナップショット付き）・全精算
+  const handleExportJson = async () => {
+    if (!room) return;
+    setExporting(true);
+    try {
+      const { entries, error: historyError } = await fetchAllHistory(room.id);
+      if (historyError) {
+        showToast("error", historyError.message);
+        return;
+      }
+      const { settlements: allSettlements, error: settlementsError } =
+        await fetchSettlements(room.id);
+      if (settlementsError) {
+        showToast("error", settlementsError.message);
+        return;
+      }
+
+      const record = buildGameRecord(room, entries, allSettlements);
+      const { error } = await shareTextFile(
+        exportFileName(room, "json"),
+        JSON.stringify(record, null, 2),
+        "application/json"
+      );
+      if (error) showToast("error", error.message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // CSV 書き出し: 表示中の精算表をそのまま平坦化
+  const handleExportCsv = async () => {
+    if (!room) return;
+    const { error } = await shareTextFile(
+      exportFileName(room, "csv"),
+      settlementsToCsv(settlements, playerColumns),
+      "text/csv"
+    );
+    if (error) showToast("error", error.message);
+  };
+
+  const handleExport = () => {
+    Alert.alert("書き出し", "形式を選択してください", [
+      { text: "キャンセル", style: "cancel" },
+      { text: "CSV（精算表）", onPress: handleExportCsv },
+      { text: "JSON（全記録）", onPress: handleExportJson },
+    ]);
+  };
+
   // 行ラベル生成（番号のみ、調整行はラベルなし）
   let hanchanIndex = 0;
   const rows = settlements.map((s) => {
@@ -194,7 +255,17 @@ export default function SettlementScreen() {
           <Text style={styles.backButton}>← 戻る</Text>
         </TouchableOpacity>
         <Text style={styles.title}>{room?.room_name ?? "ゲーム結果"}</Text>
-        <View style={styles.headerRight} />
+        <TouchableOpacity
+          style={styles.headerRight}
+          onPress={handleExport}
+          disabled={!room || exporting}
+        >
+          {exporting ? (
+            <ActivityIndicator size="small" color="#3b82f6" />
+          ) : (
+            <Text style={styles.exportButton}>書き出し</Text>
+          )}
+        </TouchableOpacity>
       </View>
 
       {settlementsLoading ? (
@@ -336,6 +407,12 @@ const styles = StyleSheet.create({
   },
   headerRight: {
     width: 60,
+    alignItems: "flex-end",
+  },
+  exportButton: {
+    fontSize: 14,
+    color: "#3b82f6",
+    fontWeight: "600",
   },
   emptyState: {
     flex: 1,
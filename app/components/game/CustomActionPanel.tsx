@@ -0,0 +1,207 @@
+/**
+ * カスタム操作パネル
+ * テンプレートのカスタム操作をボタンで実行する。
+ * ホストは実行者を選んで実行でき、プレイヤーは他の参加者から支払わせない操作のみ自分を実行者として実行できる。
+ */
+
+import React, { useState } from "react";
+import {
+  Modal,
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+} from "react-native";
+import { CustomAction, GameState, Variable } from "../../types";
+import {
+  canPlayerRunCustomAction,
+  formatCustomActionLeg,
+} from "../../utils/customActionUtils";
+
+interface CustomActionPanelProps {
+  actions: CustomAction[];
+  variables: Variable[];
+  gameState: GameState;
+  currentUserId: string;
+  isHost: boolean;
+  isProcessing?: boolean;
+  onRun: (actionId: string, actorId: string) => Promise<void>;
+}
+
+export default function CustomActionPanel({
+  actions,
+  variables,
+  gameState,
+  currentUserId,
+  isHost,
+  isProcessing = false,
+  onRun,
+}: CustomActionPanelProps) {
+  const [selectedAction, setSelectedAction] = useState<CustomAction | null>(null);
+
+  const players = Object.keys(gameState)
+    .filter((key) => !key.startsWith("__"))
+    .map((id) => {
+      const name = gameState[id]?.__displayName__;
+      return { id, name: typeof name === "string" ? name : id.slice(0, 8) };
+    });
+
+  const isPlayer = players.some((p) => p.id === currentUserId);
+  const visibleActions = isHost
+    ? actions
+    : isPlayer
+      ? actions.filter(canPlayerRunCustomAction)
+      : [];
+
+  if (visibleActions.length === 0) return null;
+
+  const handlePress = (action: CustomAction) => {
+    if (isProcessing) return;
+    if (isHost) {
+      setSelectedAction(action);
+    } else {
+      onRun(action.id, currentUserId);
+    }
+  };
+
+  const handleSelectActor = async (actorId: string) => {
+    if (!selectedAction) return;
+    const actionId = selectedAction.id;
+    setSelectedAction(null);
+    await onRun(actionId, actorId);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>カスタム操作</Text>
+      {visibleActions.map((action) => (
+        <TouchableOpacity
+          key={action.id}
+          style={[styles.actionButton, isProcessing && styles.actionButtonDisabled]}
+          onPress={() => handlePress(action)}
+          disabled={isProcessing}
+        >
+          <Text style={styles.actionLabel}>{action.label}</Text>
+          {action.legs.map((leg, i) => (
+            <Text key={i} style={styles.actionLeg}>
+              {formatCustomActionLeg(leg, variables)}
+            </Text>
+          ))}
+        </TouchableOpacity>
+      ))}
+
+      {/* 実行者の選択（ホスト） */}
+      <Modal
+        visible={selectedAction !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setSelectedAction(null)}
+      >
+        <View style={styles.overlay}>
+          <View style={styles.modal}>
+            <Text style={styles.modalTitle}>
+              「{selectedAction?.label}」の実行者を選択
+            </Text>
+            {players.map((player) => (
+              <TouchableOpacity
+                key={player.id}
+                style={styles.playerButton}
+                onPress={() => handleSelectActor(player.id)}
+              >
+                <Text style={styles.playerName}>{player.name}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={() => setSelectedAction(null)}
+            >
+              <Text style={styles.cancelButtonText}>キャンセル</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#ffffff",
+    borderRadius: 12,
+    padding: 16,
+    marginHorizontal: 16,
+    marginTop: 16,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#1f2937",
+    marginBottom: 12,
+  },
+  actionButton: {
+    backgroundColor: "#f0f9ff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#bfdbfe",
+    padding: 12,
+    marginBottom: 8,
+  },
+  actionButtonDisabled: {
+    opacity: 0.5,
+  },
+  actionLabel: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1e40af",
+    marginBottom: 2,
+  },
+  actionLeg: {
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  modal: {
+    backgroundColor: "#ffffff",
+    borderRadius: 16,
+    padding: 24,
+    width: "80%",
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#1f2937",
+    marginBottom: 16,
+    textAlign: "center",
+  },
+  playerButton: {
+    backgroundColor: "#f9fafb",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    padding: 12,
+    marginBottom: 8,
+  },
+  playerName: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: "#1f2937",
+    textAlign: "center",
+  },
+  cancelButton: {
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: "#f3f4f6",
+  },
+  cancelButtonText: {
+    color: "#1f2937",
+    textAlign: "center",
+    fontWeight: "600",
+  },
+});
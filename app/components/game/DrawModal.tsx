@@ -0,0 +1,282 @@
+/**
+ * 流局モーダル
+ * テンパイ者を選ぶとノーテン罰符（3000 点）の収支を計算し、1操作で記録する。
+ * 局表示がある場合は流局として局も進められる（親のテンパイ / ノーテンで連荘か親流れ）。
+ */
+
+import React, { useState, useEffect, useMemo } from "react";
+import {
+  Modal,
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+} from "react-native";
+import { calculateDrawPayments } from "../../utils/mahjongScoreUtils";
+
+/** 流局の対象（着席中のプレイヤー） */
+export interface DrawPlayer {
+  playerId: string;
+  name: string;
+  isDealer: boolean;
+}
+
+interface DrawModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onConfirm: (tenpaiIds: string[], advanceRound: boolean, dealerTenpai: boolean) => void;
+  players: DrawPlayer[];
+  canAdvanceRound: boolean; // 局も進められるか
+  isProcessing?: boolean;
+}
+
+export default function DrawModal({
+  visible,
+  onClose,
+  onConfirm,
+  players,
+  canAdvanceRound,
+  isProcessing = false,
+}: DrawModalProps) {
+  const [tenpaiIds, setTenpaiIds] = useState<string[]>([]);
+  const [advanceRound, setAdvanceRound] = useState(true);
+
+  // モーダルが開いた瞬間だけ初期化
+  const prevVisibleRef = React.useRef(false);
+  useEffect(() => {
+    if (visible && !prevVisibleRef.current) {
+      setTenpaiIds([]);
+      setAdvanceRound(true);
+    }
+    prevVisibleRef.current = visible;
+  }, [visible]);
+
+  const results = useMemo(
+    () => calculateDrawPayments(players.map((p) => p.playerId), tenpaiIds),
+    [players, tenpaiIds]
+  );
+
+  const toggleTenpai = (playerId: string) => {
+    setTenpaiIds((prev) =>
+      prev.includes(playerId) ? prev.filter((id) => id !== playerId) : [...prev, playerId]
+    );
+  };
+
+  const dealerTenpai = players.some((p) => p.isDealer && tenpaiIds.includes(p.playerId));
+  const willAdvance = canAdvanceRound && advanceRound;
+  const canConfirm = (results.length > 0 || willAdvance) && !isProcessing;
+
+  const handleConfirm = () => {
+    if (!canConfirm) return;
+    onConfirm(tenpaiIds, willAdvance, dealerTenpai);
+  };
+
+  const amountOf = (playerId: string): number =>
+    results.find((r) => r.playerId === playerId)?.amount ?? 0;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>流局</Text>
+          <Text style={styles.hint}>テンパイのプレイヤーを選択してください</Text>
+
+          {players.map((player) => {
+            const isTenpai = tenpaiIds.includes(player.playerId);
+            const amount = amountOf(player.playerId);
+            return (
+              <TouchableOpacity
+                key={player.playerId}
+                style={[styles.playerRow, isTenpai && styles.playerRowActive]}
+                onPress={() => toggleTenpai(player.playerId)}
+              >
+                <Text style={styles.playerCheck}>{isTenpai ? "☑" : "☐"}</Text>
+                <Text style={styles.playerName} numberOfLines={1}>
+                  {player.name}
+                  {player.isDealer ? "（親）" : ""}
+                </Text>
+                <Text style={styles.playerStatus}>{isTenpai ? "テンパイ" : "ノーテン"}</Text>
+                <Text
+                  style={[
+                    styles.playerAmount,
+                    amount > 0 && styles.amountPositive,
+                    amount < 0 && styles.amountNegative,
+                  ]}
+                >
+                  {amount > 0 ? "+" : ""}
+                  {amount.toLocaleString()}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          {results.length === 0 && (
+            <Text style={styles.noPayment}>全員テンパイ・全員ノーテンは支払いなし</Text>
+          )}
+
+          {/* 局進行 */}
+          {canAdvanceRound && (
+            <TouchableOpacity
+              style={styles.advanceRow}
+              onPress={() => setAdvanceRound((prev) => !prev)}
+            >
+              <Text style={styles.advanceCheck}>{advanceRound ? "☑" : "☐"}</Text>
+              <Text style={styles.advanceText}>
+                局も進める（{dealerTenpai ? "親テンパイ・連荘" : "親ノーテン・親流れ"}）
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {/* アクションボタン */}
+          <View style={styles.actions}>
+            <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>キャンセル</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.button,
+                styles.confirmButton,
+                !canConfirm && styles.confirmButtonDisabled,
+              ]}
+              onPress={handleConfirm}
+              disabled={!canConfirm}
+            >
+              <Text style={styles.confirmButtonText}>
+                {isProcessing ? "処理中..." : "記録する"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  modal: {
+    backgroundColor: "#ffffff",
+    borderRadius: 16,
+    padding: 24,
+    width: "90%",
+    maxWidth: 420,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#1f2937",
+    marginBottom: 4,
+    textAlign: "center",
+  },
+  hint: {
+    fontSize: 13,
+    color: "#6b7280",
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  playerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#f9fafb",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    paddingHorizontal: 10,
+    paddingVertical: 10,
+    marginBottom: 6,
+  },
+  playerRowActive: {
+    backgroundColor: "#eff6ff",
+    borderColor: "#3b82f6",
+  },
+  playerCheck: {
+    fontSize: 18,
+    marginRight: 6,
+    color: "#2563eb",
+  },
+  playerName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "500",
+    color: "#1f2937",
+  },
+  playerStatus: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginRight: 10,
+  },
+  playerAmount: {
+    minWidth: 60,
+    textAlign: "right",
+    fontSize: 15,
+    fontWeight: "bold",
+    color: "#9ca3af",
+  },
+  amountPositive: {
+    color: "#2563eb",
+  },
+  amountNegative: {
+    color: "#dc2626",
+  },
+  noPayment: {
+    fontSize: 13,
+    color: "#9ca3af",
+    textAlign: "center",
+    marginTop: 4,
+  },
+  advanceRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 12,
+  },
+  advanceCheck: {
+    fontSize: 18,
+    marginRight: 6,
+    color: "#2563eb",
+  },
+  advanceText: {
+    fontSize: 14,
+    color: "#374151",
+    fontWeight: "500",
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 16,
+  },
+  button: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    marginHorizontal: 4,
+  },
+  cancelButton: {
+    backgroundColor: "#f3f4f6",
+  },
+  cancelButtonText: {
+    color: "#1f2937",
+    textAlign: "center",
+    fontWeight: "600",
+  },
+  confirmButton: {
+    backgroundColor: "#3b82f6",
+  },
+  confirmButtonDisabled: {
+    backgroundColor: "#9ca3af",
+  },
+  confirmButtonText: {
+    color: "#ffffff",
+    textAlign: "center",
+    fontWeight: "600",
+  },
+});
@@ -2,6 +2,9 @@
  * 履歴ログコンポーネント（二層構造）
  * - プレビュー: current_state.__recent_log__ の最新エントリを表示
  * - モーダル: room_history テーブルからページネーション取得して全履歴を閲覧
+ *   （構造化イベントから文言を組み立てる。操作者での絞り込みに対応）
+ * どちらも操作者を「by X」で表示する
+ * 取り消し済みの操作はグレーで表示し、ホストは取り消し・やり直しができる
  */
 
 import React, { useState, useEffect, useRef, useCallback } from "react";
@@ -21,22 +24,39 @@ import {
   NativeScrollEvent,
 } from "react-native";
 import { useRouter } from "expo-router";
-import { fetchHistory, RoomHistoryEntry } from "../../lib/roomApi";
+import {
+  fetchHistory,
+  fetchRedoCount,
+  HistoryCursor,
+  RoomHistoryEntry,
+} from "../../lib/roomApi";
+import {
+  formatHistoryEvent,
+  formatActor,
+  HistoryActorOption,
+} from "../../utils/historyUtils";
+import { Variable } from "../../types";
 
 const ONE_MINUTE = 60_000;
+const PAGE_SIZE = 10;
 
 /** __recent_log__ のエントリ型（roomApi の RecentLogEntry と同一構造） */
 export interface RecentLogEntry {
   id: string;
   timestamp: number;
   message: string;
+  actorId?: string;
+  actorName?: string;
 }
 
 interface HistoryLogProps {
   recentLog: RecentLogEntry[];
   roomId: string;
+  variables: Variable[];
+  actors: HistoryActorOption[];
   onRollback: (historyId: string) => Promise<void>;
   onUndo: () => Promise<void>;
+  onRedo: () => Promise<void>;
   isHost: boolean;
   settlementCount?: number;
 }
@@ -44,8 +64,11 @@ interface HistoryLogProps {
 export default function HistoryLog({
   recentLog,
   roomId,
+  variables,
+  actors,
   onRollback,
   onUndo,
+  onRedo,
   isHost,
   settlementCount,
 }: HistoryLogProps) {
@@ -53,13 +76,15 @@ export default function HistoryLog({
   const [isExpanded, setIsExpanded] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [now, setNow] = useState(Date.now());
+  const [canRedo, setCanRedo] = useState(false);
   const translateY = useRef(new RNAnimated.Value(0)).current;
 
   // モーダル用の履歴データ
   const [modalEntries, setModalEntries] = useState<RoomHistoryEntry[]>([]);
   const [modalLoading, setModalLoading] = useState(false);
   const [hasMore, setHasMore] = useState(true);
-  const [cursor, setCursor] = useState<string | undefined>(undefined);
+  const [cursor, setCursor] = useState<HistoryCursor | undefined>(undefined);
+  const [actorFilter, setActorFilter] = useState<string | null>(null);
 
   const panResponder = useRef(
     PanResponder.create({
@@ -94,40 +119,63 @@ export default function HistoryLog({
     });
   };
 
-  // モーダルを開いたとき、初回の履歴を取得
-  const openModal = useCallback(async () => {
-    setIsExpanded(true);
+  // __recent_log__ が変わるたび（操作・取り消し・やり直し）Redo スタックの有無を確認
+  const recentLogKey = recentLog.map((e) => e.id).join(",");
+  useEffect(() => {
+    if (!isHost) return;
+    let cancelled = false;
+    fetchRedoCount(roomId).then(({ count }) => {
+      if (!cancelled) setCanRedo(count > 0);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, isHost, recentLogKey]);
+
+  // 1ページ目を取得（モーダルを開いたとき・操作者フィルタ変更時）
+  const loadFirstPage = useCallback(async (actorId: string | null) => {
     setModalEntries([]);
     setCursor(undefined);
     setHasMore(true);
     setModalLoading(true);
     try {
-      const result = await fetchHistory(roomId);
+      const result = await fetchHistory(roomId, undefined, PAGE_SIZE, actorId ?? undefined);
       setModalEntries(result.entries);
       setHasMore(result.hasMore);
       if (result.entries.length > 0) {
-        setCursor(result.entries[result.entries.length - 1].created_at);
+        setCursor(result.entries[result.entries.length - 1]);
       }
     } finally {
       setModalLoading(false);
     }
   }, [roomId]);
 
+  const openModal = useCallback(() => {
+    setIsExpanded(true);
+    setActorFilter(null);
+    loadFirstPage(null);
+  }, [loadFirstPage]);
+
+  const handleActorFilter = (actorId: string | null) => {
+    setActorFilter(actorId);
+    loadFirstPage(actorId);
+  };
+
   // スクロール末端で次ページを取得
   const loadMore = useCallback(async () => {
     if (modalLoading || !hasMore || !cursor) return;
     setModalLoading(true);
     try {
-      const result = await fetchHistory(roomId, cursor);
+      const result = await fetchHistory(roomId, cursor, PAGE_SIZE, actorFilter ?? undefined);
       setModalEntries((prev) => [...prev, ...result.entries]);
       setHasMore(result.hasMore);
       if (result.entries.length > 0) {
-        setCursor(result.entries[result.entries.length - 1].created_at);
+        setCursor(result.entries[result.entries.length - 1]);
       }
     } finally {
       setModalLoading(false);
     }
-  }, [roomId, cursor, hasMore, modalLoading]);
+  }, [roomId, cursor, hasMore, modalLoading, actorFilter]);
 
   const handleScroll = useCallback(
     (event: NativeSyntheticEvent<NativeScrollEvent>) => {
@@ -163,6 +211,15 @@ export default function HistoryLog({
     ]);
   };
 
+  const handleRedo = async () => {
+    setIsLoading(true);
+    try {
+      await onRedo();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleRollback = (entry: RoomHistoryEntry) => {
     Alert.alert(
       "タイムトラベル",
@@ -217,6 +274,17 @@ export default function HistoryLog({
           </TouchableOpacity>
         )}
 
+        {/* Redoボタン */}
+        {isHost && canRedo && (
+          <TouchableOpacity
+            style={[styles.redoButton, isLoading && styles.buttonDisabled]}
+            onPress={handleRedo}
+            disabled={isLoading}
+          >
+            <Text style={styles.undoButtonText}>↪ やり直し</Text>
+          </TouchableOpacity>
+        )}
+
         {/* Undoボタン */}
         {isHost && recentLog.length > 0 && (
           <TouchableOpacity
@@ -238,6 +306,11 @@ export default function HistoryLog({
           <Text style={styles.previewMessage} numberOfLines={1}>
             {entry.message}
           </Text>
+          {formatActor(entry.actorName) && (
+            <Text style={styles.previewActor} numberOfLines={1}>
+              {formatActor(entry.actorName)}
+            </Text>
+          )}
         </View>
       ))}
 
@@ -269,6 +342,31 @@ export default function HistoryLog({
               </TouchableOpacity>
             </View>
 
+            {/* 操作者フィルタ */}
+            {actors.length > 0 && (
+              <ScrollView
+                horizontal
+                style={styles.actorFilterBar}
+                contentContainerStyle={styles.actorFilterContent}
+                showsHorizontalScrollIndicator={false}
+              >
+                {[{ userId: null, displayName: "すべて" }, ...actors].map((actor) => {
+                  const selected = actorFilter === actor.userId;
+                  return (
+                    <TouchableOpacity
+                      key={actor.userId ?? "all"}
+                      style={[styles.actorChip, selected && styles.actorChipSelected]}
+                      onPress={() => handleActorFilter(actor.userId)}
+                    >
+                      <Text style={[styles.actorChipText, selected && styles.actorChipTextSelected]}>
+                        {actor.displayName}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            )}
+
             {modalEntries.length === 0 && !modalLoading ? (
               <View style={styles.emptyState}>
                 <Text style={styles.emptyText}>履歴がありません</Text>
@@ -280,20 +378,31 @@ export default function HistoryLog({
                 scrollEventThrottle={200}
               >
                 {modalEntries.map((entry, index) => (
-                  <View key={entry.id} style={styles.historyItem}>
+                  <View
+                    key={entry.id}
+                    style={[styles.historyItem, !!entry.reverted_at && styles.historyItemReverted]}
+                  >
                     <View style={styles.historyItemContent}>
                       <View style={styles.historyItemHeader}>
                         <Text style={styles.historyTime}>
                           {formatTime(entry.created_at)}
                         </Text>
+                        {formatActor(entry.actor_name) && (
+                          <Text style={styles.historyActor}>
+                            {formatActor(entry.actor_name)}
+                          </Text>
+                        )}
+                        {!!entry.reverted_at && (
+                          <Text style={styles.revertedBadge}>取消済</Text>
+                        )}
                       </View>
                       <Text style={styles.historyMessage}>
-                        {entry.message}
+                        {formatHistoryEvent(entry, variables)}
                       </Text>
                     </View>
 
-                    {/* ロールバックボタン（ホストのみ、最新以外） */}
-                    {isHost && index > 0 && (
+                    {/* ロールバックボタン（ホストのみ、最新・取り消し済み以外） */}
+                    {isHost && index > 0 && !entry.reverted_at && (
                       <TouchableOpacity
                         style={[
                           styles.rollbackButton,
@@ -392,6 +501,13 @@ const styles = StyleSheet.create({
     paddingVertical: 6,
     borderRadius: 6,
   },
+  redoButton: {
+    backgroundColor: "#10b981",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    marginRight: 8,
+  },
   undoButtonText: {
     color: "#ffffff",
     fontSize: 14,
@@ -417,6 +533,11 @@ const styles = StyleSheet.create({
     color: "#374151",
     flex: 1,
   },
+  previewActor: {
+    fontSize: 12,
+    color: "#9ca3af",
+    maxWidth: 100,
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: "rgba(0, 0, 0, 0.5)",
@@ -478,6 +599,17 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: "#f3f4f6",
   },
+  historyItemReverted: {
+    opacity: 0.4,
+  },
+  revertedBadge: {
+    fontSize: 11,
+    color: "#6b7280",
+    backgroundColor: "#e5e7eb",
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    borderRadius: 4,
+  },
   historyItemContent: {
     flex: 1,
   },
@@ -492,6 +624,40 @@ const styles = StyleSheet.create({
     color: "#6b7280",
     fontFamily: "monospace",
   },
+  historyActor: {
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  actorFilterBar: {
+    flexGrow: 0,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  actorFilterContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  actorChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    backgroundColor: "#ffffff",
+  },
+  actorChipSelected: {
+    borderColor: "#3b82f6",
+    backgroundColor: "#eff6ff",
+  },
+  actorChipText: {
+    fontSize: 13,
+    color: "#4b5563",
+  },
+  actorChipTextSelected: {
+    color: "#1e40af",
+    fontWeight: "600",
+  },
   historyMessage: {
     fontSize: 15,
     color: "#1f2937",
@@ -7,8 +7,9 @@ import Animated, {
   withSpring,
   runOnJS,
 } from "react-native-reanimated";
-import { PlayerState, Variable, SeatPosition } from "../../types";
+import { PlayerState, Variable, ComputedVariable, SeatPosition } from "../../types";
 import { getSeatStyle } from "../../utils/seatUtils";
+import { computeVariableValue } from "../../utils/expressionUtils";
 import RippleEffect from "./RippleEffect";
 import * as Haptics from "expo-haptics";
 
@@ -16,8 +17,10 @@ interface MahjongPlayerCardProps {
   playerId: string;
   playerState: PlayerState;
   variables: Variable[];
+  computedVariables?: ComputedVariable[]; // 計算変数（読み取り専用）
   isCurrentUser: boolean;
   isHost: boolean;
+  isDealer?: boolean; // 現在の局の親
   position: SeatPosition;
   displayName?: string;
   disconnectedAt?: number | null;
@@ -25,7 +28,9 @@ interface MahjongPlayerCardProps {
   isFakePlayer?: boolean;
   isHighlighted?: boolean;
   isDragging?: boolean;
+  isSelected?: boolean; // 一括移動の支払い者として選択中
   onTap?: (playerId: string) => void;
+  onLongPress?: (playerId: string) => void; // 支払い者の選択切り替え
   onDragStart: (playerId: string, x: number, y: number) => void;
   onDragUpdate: (x: number, y: number) => void;
   onDragEnd: (x: number, y: number) => void;
@@ -44,8 +49,10 @@ export default function MahjongPlayerCard({
   playerId,
   playerState,
   variables,
+  computedVariables = [],
   isCurrentUser,
   isHost,
+  isDealer = false,
   position,
   displayName,
   disconnectedAt,
@@ -53,7 +60,9 @@ export default function MahjongPlayerCard({
   isFakePlayer,
   isHighlighted = false,
   isDragging = false,
+  isSelected = false,
   onTap,
+  onLongPress,
   onDragStart,
   onDragUpdate,
   onDragEnd,
@@ -77,7 +86,11 @@ export default function MahjongPlayerCard({
     return {
       transform: [{ scale }],
       borderColor:
-        highlightProgress.value > 0.5 ? "#3b82f6" : "#e5e7eb",
+        highlightProgress.value > 0.5
+          ? "#3b82f6"
+          : isSelected
+            ? "#f59e0b"
+            : "#e5e7eb",
       shadowRadius: 4 + highlightProgress.value * 8,
       shadowOpacity: 0.1 + highlightProgress.value * 0.2,
     };
@@ -147,7 +160,18 @@ export default function MahjongPlayerCard({
     }
   });
 
-  const gesture = Gesture.Exclusive(panGesture, tapGesture);
+  const longPressGesture = Gesture.LongPress()
+    .enabled(onLongPress !== undefined)
+    .minDuration(400)
+    .onStart(() => {
+      "worklet";
+      runOnJS(doTapHaptic)();
+      if (onLongPress) {
+        runOnJS(onLongPress)(playerId);
+      }
+    });
+
+  const gesture = Gesture.Exclusive(panGesture, longPressGesture, tapGesture);
 
   const positionStyle = getSeatStyle(position);
 
@@ -156,6 +180,12 @@ export default function MahjongPlayerCard({
       {/* 自席の波紋エフェクト */}
       {isCurrentUser && <RippleEffect isDragging={isDragging} />}
 
+      {isSelected && (
+        <View style={styles.selectedBadge}>
+          <Text style={styles.selectedBadgeText}>✓</Text>
+        </View>
+      )}
+
       {disconnectedAt != null && (
         <View style={styles.disconnectBadge}>
           <Text style={styles.disconnectBadgeText}>
@@ -168,6 +198,11 @@ export default function MahjongPlayerCard({
         <Animated.View style={[styles.card, highlightStyle]}>
           <View style={styles.header}>
             {isHost && <Text style={styles.crown}>👑</Text>}
+            {isDealer && (
+              <View style={styles.dealerBadge}>
+                <Text style={styles.dealerBadgeText}>親</Text>
+              </View>
+            )}
             <Text style={styles.name} numberOfLines={1}>
               {isCurrentUser
                 ? "あなた"
@@ -185,6 +220,17 @@ export default function MahjongPlayerCard({
               </View>
             );
           })}
+          {computedVariables.map((computed) => {
+            const value = computeVariableValue(computed, playerState);
+            if (value === null) return null;
+
+            return (
+              <View key={computed.key} style={styles.stat}>
+                <Text style={[styles.label, styles.computedLabel]}>{computed.label}</Text>
+                <Text style={styles.value}>{value.toLocaleString()}</Text>
+              </View>
+            );
+          })}
         </Animated.View>
       </GestureDetector>
     </View>
@@ -213,6 +259,23 @@ const styles = StyleSheet.create({
     fontSize: 10,
     fontWeight: "bold",
   },
+  selectedBadge: {
+    position: "absolute",
+    top: -6,
+    left: -6,
+    backgroundColor: "#f59e0b",
+    borderRadius: 10,
+    width: 20,
+    height: 20,
+    zIndex: 10,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  selectedBadgeText: {
+    color: "#ffffff",
+    fontSize: 12,
+    fontWeight: "bold",
+  },
   card: {
     backgroundColor: "#ffffff",
     borderRadius: 10,
@@ -235,6 +298,18 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginRight: 4,
   },
+  dealerBadge: {
+    backgroundColor: "#dc2626",
+    borderRadius: 4,
+    paddingHorizontal: 4,
+    paddingVertical: 1,
+    marginRight: 4,
+  },
+  dealerBadgeText: {
+    color: "#ffffff",
+    fontSize: 11,
+    fontWeight: "bold",
+  },
   name: {
     fontSize: 14,
     fontWeight: "600",
@@ -250,6 +325,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: "#6b7280",
   },
+  computedLabel: {
+    fontStyle: "italic",
+  },
   value: {
     fontSize: 14,
     fontWeight: "bold",
@@ -1,17 +1,23 @@
 import React, { useState, useCallback, useRef } from "react";
-import { View, StyleSheet } from "react-native";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import {
   GameState,
   Variable,
+  ComputedVariable,
   PotAction,
   SeatInfo,
   SeatPosition,
   ConnectionStatus,
+  RoundResult,
+  RoundState,
+  TransferLeg,
+  WinDetail,
 } from "../../types";
 import {
   getSeatPositionFromIndex,
 } from "../../utils/seatUtils";
+import { calculateDrawPayments } from "../../utils/mahjongScoreUtils";
 import { useDragInteraction } from "../../hooks/useDragInteraction";
 import MahjongPlayerCard from "./MahjongPlayerCard";
 import PotArea from "./PotArea";
@@ -21,16 +27,22 @@ import PlayerInfoModal from "./PlayerInfoModal";
 import EmptySeat from "./EmptySeat";
 import FluidArrow from "./FluidArrow";
 import CounterCard from "./CounterCard";
+import RoundCard from "./RoundCard";
+import RoundResultModal from "./RoundResultModal";
+import WinCalculatorModal, { WinCalculatorPayer } from "./WinCalculatorModal";
+import DrawModal, { DrawPlayer } from "./DrawModal";
 import EditNameModal from "../home/EditNameModal";
 
 interface MahjongTableProps {
   gameState: GameState;
   variables: Variable[];
+  computedVariables?: ComputedVariable[]; // 計算変数（読み取り専用）
   currentUserId: string;
   hostUserId: string;
   coHostIds?: string[];
   seats: (SeatInfo | null)[]; // 座席配列
   onTransfer: (fromId: string, toId: string, transfers: { variable: string; amount: number }[]) => Promise<void>;
+  onTransferMulti?: (legs: TransferLeg[]) => Promise<void>; // 複数人からの一括移動（ホストの長押し選択）
   onJoinSeat: (seatIndex: number) => Promise<void>; // 座席に着席
   onJoinFakeSeat?: (seatIndex: number) => Promise<void>; // 架空ユーザー着席（ホスト長押し）
   onForceLeave?: (targetUserId: string) => Promise<void>; // ユーザー強制離席（ゲスト含む）
@@ -43,17 +55,31 @@ interface MahjongTableProps {
   counterValue?: number; // undefined = カウンター非表示
   canEditCounter?: boolean;
   onCounterCommit?: (expected: number, newVal: number) => Promise<{ conflictValue?: number }>;
+  round?: RoundState; // undefined = 局表示なし
+  canEditRound?: boolean;
+  onAdvanceRound?: (result: RoundResult, dealerTenpai?: boolean) => Promise<void>;
+  onResetRound?: (startSeat: number) => Promise<void>;
+  onApplyWin?: (
+    winnerId: string,
+    payments: { from: string; amount: number }[],
+    detail: WinDetail,
+    collectPot: boolean,
+    advanceRound: boolean
+  ) => Promise<boolean>; // 点数計算からの和了記録と局進行（局表示時のみ、成功で true）
+  onApplyDraw?: (tenpaiIds: string[], advanceRound: boolean) => Promise<boolean>; // 流局のノーテン罰符と局進行（ホストのみ、成功で true）
   onRenameGuest?: (fakeUserId: string, newName: string) => Promise<void>;
 }
 
 export default function MahjongTable({
   gameState,
   variables,
+  computedVariables,
   currentUserId,
   hostUserId,
   coHostIds,
   seats,
   onTransfer,
+  onTransferMulti,
   onJoinSeat,
   onJoinFakeSeat,
   onForceLeave,
@@ -66,19 +92,25 @@ export default function MahjongTable({
   counterValue,
   canEditCounter,
   onCounterCommit,
+  round,
+  canEditRound = false,
+  onAdvanceRound,
+  onResetRound,
+  onApplyWin,
+  onApplyDraw,
   onRenameGuest,
 }: MahjongTableProps) {
   const containerRef = useRef<View>(null);
 
   const [paymentModal, setPaymentModal] = useState<{
     visible: boolean;
-    fromId: string;
+    fromIds: string[]; // 2人以上なら一括移動（各自が同じ量を支払う）
     toId: string;
   } | null>(null);
 
   const [potActionModal, setPotActionModal] = useState<{
     visible: boolean;
-    fromId: string;
+    fromIds: string[];
   } | null>(null);
 
   const [playerInfoModal, setPlayerInfoModal] = useState<{
@@ -87,6 +119,15 @@ export default function MahjongTable({
     seatIndex: number;
   } | null>(null);
 
+  const [roundModalVisible, setRoundModalVisible] = useState(false);
+  const [drawModalVisible, setDrawModalVisible] = useState(false);
+
+  const [winCalculator, setWinCalculator] = useState<{
+    winnerId: string;
+    loserId: string | null;
+    winType: "ron" | "tsumo";
+  } | null>(null);
+
   const [renameGuestTarget, setRenameGuestTarget] = useState<{
     playerId: string;
     currentName: string;
@@ -100,19 +141,44 @@ export default function MahjongTable({
   );
   const isHost = currentUserId === hostUserId || (coHostIds ?? []).includes(currentUserId);
 
+  // 複数人の支払いを選択できるのはホストのみ（他人のスコアを動かすため）
+  const canMultiSelect = isHost && onTransferMulti !== undefined;
+
+  // 同じ移動を複数人分まとめて反映（1人なら通常の移動）
+  const transferFrom = useCallback(
+    (fromIds: string[], toId: string, transfers: { variable: string; amount: number }[]) => {
+      if (fromIds.length === 1 || !onTransferMulti) {
+        return onTransfer(fromIds[0], toId, transfers);
+      }
+      return onTransferMulti(fromIds.map((from) => ({ from, to: toId, transfers })));
+    },
+    [onTransfer, onTransferMulti]
+  );
+
   // --- ドロップ処理 ---
-  const handleDrop = useCallback(
-    (fromId: string, toId: string) => {
-      if (fromId === toId) return;
+  const handleMultiDrop = useCallback(
+    (fromIds: string[], toId: string) => {
+      const payers = fromIds.filter((id) => id !== toId);
+      if (payers.length === 0) return;
       if (toId === "__pot__") {
         if (potActions.length === 0) {
           return;
         } else if (potActions.length === 1) {
-          onTransfer(fromId, "__pot__", potActions[0].transfers);
+          transferFrom(payers, "__pot__", potActions[0].transfers);
         } else {
-          setPotActionModal({ visible: true, fromId });
+          setPotActionModal({ visible: true, fromIds: payers });
         }
-      } else if (fromId === "__pot__") {
+      } else {
+        setPaymentModal({ visible: true, fromIds: payers, toId });
+      }
+    },
+    [potActions, transferFrom]
+  );
+
+  const handleDrop = useCallback(
+    (fromId: string, toId: string) => {
+      if (fromId === toId) return;
+      if (fromId === "__pot__") {
         const transfers = Object.entries(pot)
           .filter(([, value]) => (value || 0) > 0)
           .map(([variableKey, value]) => ({ variable: variableKey, amount: value as number }));
@@ -120,10 +186,10 @@ export default function MahjongTable({
           onTransfer("__pot__", toId, transfers);
         }
       } else {
-        setPaymentModal({ visible: true, fromId, toId });
+        handleMultiDrop([fromId], toId);
       }
     },
-    [potActions, pot, onTransfer]
+    [pot, onTransfer, handleMultiDrop]
   );
 
   // --- ドラッグインタラクション ---
@@ -131,6 +197,7 @@ export default function MahjongTable({
     isPotEnabled,
     isProcessing,
     onDrop: handleDrop,
+    onMultiDrop: canMultiSelect ? handleMultiDrop : undefined,
   });
 
   // --- コンテナの絶対位置を測定 ---
@@ -170,11 +237,11 @@ export default function MahjongTable({
   const handlePaymentConfirm = useCallback(
     async (transfers: { variable: string; amount: number }[]) => {
       if (paymentModal) {
-        await onTransfer(paymentModal.fromId, paymentModal.toId, transfers);
+        await transferFrom(paymentModal.fromIds, paymentModal.toId, transfers);
         setPaymentModal(null);
       }
     },
-    [paymentModal, onTransfer]
+    [paymentModal, transferFrom]
   );
 
   const resolvePlayerName = (id: string): string => {
@@ -182,6 +249,32 @@ export default function MahjongTable({
     return seats.find((s) => s?.userId === id)?.displayName ?? id;
   };
 
+  // 点数計算は局（親・本場）が分かる場合のみ
+  const canUseWinCalculator = round !== undefined && onApplyWin !== undefined;
+
+  // 和了者以外の着席プレイヤー（点数計算の支払い者候補）
+  const getWinPayers = (winnerId: string): WinCalculatorPayer[] =>
+    seats.flatMap((s, index) =>
+      s?.userId && s.userId !== winnerId
+        ? [{
+            playerId: s.userId,
+            name: s.displayName || s.userId.slice(0, 8),
+            isDealer: round?.dealerSeat === index,
+          }]
+        : []
+    );
+
+  // 流局の対象（着席中のプレイヤー）
+  const drawPlayers: DrawPlayer[] = seats.flatMap((s, index) =>
+    s?.userId && gameState[s.userId]
+      ? [{
+          playerId: s.userId,
+          name: s.displayName || s.userId.slice(0, 8),
+          isDealer: round?.dealerSeat === index,
+        }]
+      : []
+  );
+
   // モーダル表示中のプレイヤー情報を取得
   const infoModalSeat = playerInfoModal
     ? seats[playerInfoModal.seatIndex]
@@ -210,7 +303,7 @@ export default function MahjongTable({
           let displayPosition: SeatPosition;
           if (currentUserSeatIndex !== -1) {
             const rotation = currentUserSeatIndex;
-            const rotatedIndex = (index - rotation + 4) % 4;
+            const rotatedIndex = (index - rotation + seats.length) % seats.length;
             displayPosition = getSeatPositionFromIndex(rotatedIndex);
           } else {
             displayPosition = getSeatPositionFromIndex(index);
@@ -250,8 +343,10 @@ export default function MahjongTable({
               playerId={playerId}
               playerState={playerState}
               variables={variables}
+              computedVariables={computedVariables}
               isCurrentUser={playerId === currentUserId}
               isHost={playerId === hostUserId}
+              isDealer={round !== undefined && round.dealerSeat === index}
               position={displayPosition}
               displayName={seat.displayName}
               disconnectedAt={connectionStatuses?.get(playerId)?.disconnectedAt ?? null}
@@ -259,7 +354,9 @@ export default function MahjongTable({
               isFakePlayer={seat.isFake === true}
               isHighlighted={drag.snapTargetIdState === playerId}
               isDragging={drag.visual.phase !== "idle"}
+              isSelected={drag.selectedPayerIds.includes(playerId)}
               onTap={handleCardTap}
+              onLongPress={canMultiSelect ? drag.togglePayerSelection : undefined}
               onDragStart={handleDragStart}
               onDragUpdate={drag.handleDragUpdate}
               onDragEnd={drag.handleDragEnd}
@@ -295,6 +392,41 @@ export default function MahjongTable({
           );
         })()}
 
+        {/* 局表示・流局 */}
+        {(round !== undefined || (isHost && onApplyDraw)) && (
+          <View style={styles.roundContainer}>
+            {round !== undefined && (
+              <RoundCard
+                round={round}
+                canEdit={canEditRound}
+                onPress={() => setRoundModalVisible(true)}
+              />
+            )}
+            {isHost && onApplyDraw && (
+              <TouchableOpacity
+                style={styles.drawButton}
+                onPress={() => setDrawModalVisible(true)}
+                disabled={isProcessing}
+              >
+                <Text style={styles.drawButtonText}>流局</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {/* 一括移動の選択状況 */}
+        {drag.selectedPayerIds.length > 0 && (
+          <View style={styles.selectionBanner}>
+            <Text style={styles.selectionText}>
+              {drag.selectedPayerIds.length}人選択中
+              {drag.selectedPayerIds.length >= 2 ? "・ドラッグでまとめて支払い" : ""}
+            </Text>
+            <TouchableOpacity onPress={drag.clearPayerSelection}>
+              <Text style={styles.selectionClear}>解除</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* カウンター */}
         {counterValue !== undefined && (
           <View style={styles.counterContainer}>
@@ -326,9 +458,95 @@ export default function MahjongTable({
           onClose={() => setPaymentModal(null)}
           onConfirm={handlePaymentConfirm}
           variables={variables}
-          fromName={resolvePlayerName(paymentModal.fromId)}
+          fromName={paymentModal.fromIds.map(resolvePlayerName).join("、")}
           toName={resolvePlayerName(paymentModal.toId)}
           isProcessing={isProcessing}
+          honba={round?.honba ?? 0}
+          gameState={gameState}
+          fromIds={paymentModal.fromIds}
+          toId={paymentModal.toId}
+          onOpenCalculator={
+            canUseWinCalculator
+              ? () => {
+                  const isTsumo = paymentModal.fromIds.length > 1;
+                  setWinCalculator({
+                    winnerId: paymentModal.toId,
+                    loserId: isTsumo ? null : paymentModal.fromIds[0],
+                    winType: isTsumo ? "tsumo" : "ron",
+                  });
+                  setPaymentModal(null);
+                }
+              : undefined
+          }
+        />
+      )}
+
+      {/* 点数計算モーダル */}
+      {winCalculator && round !== undefined && (
+        <WinCalculatorModal
+          visible
+          onClose={() => setWinCalculator(null)}
+          onConfirm={async (payments, detail, collectPot, advanceRound) => {
+            // 支払いと局進行は1操作で記録する（失敗したらモーダルを閉じない）
+            const ok = await onApplyWin?.(
+              winCalculator.winnerId,
+              payments,
+              detail,
+              collectPot,
+              advanceRound
+            );
+            if (!ok) return;
+            setWinCalculator(null);
+          }}
+          winnerName={resolvePlayerName(winCalculator.winnerId)}
+          isDealer={seats[round.dealerSeat]?.userId === winCalculator.winnerId}
+          payers={getWinPayers(winCalculator.winnerId)}
+          honba={round.honba}
+          potAmount={pot.score || 0}
+          initialWinType={winCalculator.winType}
+          initialLoserId={winCalculator.loserId}
+          canAdvanceRound={canEditRound}
+          isProcessing={isProcessing}
+        />
+      )}
+
+      {/* 流局モーダル */}
+      {isHost && onApplyDraw && (
+        <DrawModal
+          visible={drawModalVisible}
+          onClose={() => setDrawModalVisible(false)}
+          onConfirm={async (tenpaiIds, advanceRound, dealerTenpai) => {
+            // 支払いと局進行は1操作で記録する（支払いが失敗したら局も進まない）
+            // 全員テンパイ・全員ノーテンは支払いなし（局進行のみ）
+            const playerIds = drawPlayers.map((p) => p.playerId);
+            if (calculateDrawPayments(playerIds, tenpaiIds).length > 0) {
+              if (!(await onApplyDraw(tenpaiIds, advanceRound))) return;
+            } else if (advanceRound) {
+              await onAdvanceRound?.("draw", dealerTenpai);
+            }
+            setDrawModalVisible(false);
+          }}
+          players={drawPlayers}
+          canAdvanceRound={round !== undefined && canEditRound && onAdvanceRound !== undefined}
+          isProcessing={isProcessing}
+        />
+      )}
+
+      {/* 局結果選択モーダル */}
+      {round !== undefined && (
+        <RoundResultModal
+          visible={roundModalVisible}
+          round={round}
+          seats={seats}
+          onAdvance={(result, dealerTenpai) => {
+            onAdvanceRound?.(result, dealerTenpai);
+            setRoundModalVisible(false);
+          }}
+          onReset={(startSeat) => {
+            onResetRound?.(startSeat);
+            setRoundModalVisible(false);
+          }}
+          onClose={() => setRoundModalVisible(false)}
         />
       )}
 
@@ -338,7 +556,7 @@ export default function MahjongTable({
           visible={potActionModal.visible}
           actions={potActions}
           onSelect={(action) => {
-            onTransfer(potActionModal.fromId, "__pot__", action.transfers);
+            transferFrom(potActionModal.fromIds, "__pot__", action.transfers);
             setPotActionModal(null);
           }}
           onClose={() => setPotActionModal(null)}
@@ -356,6 +574,18 @@ export default function MahjongTable({
           variables={variables}
           isFakePlayer={infoModalSeat.isFake === true}
           isHost={isHost}
+          onWinCalculator={
+            isHost && canUseWinCalculator
+              ? () => {
+                  setWinCalculator({
+                    winnerId: playerInfoModal.playerId,
+                    loserId: null,
+                    winType: "tsumo",
+                  });
+                  setPlayerInfoModal(null);
+                }
+              : undefined
+          }
           onForceLeave={
             isHost
               ? () => {
@@ -401,6 +631,50 @@ const styles = StyleSheet.create({
     position: "relative",
     paddingVertical: 20,
   },
+  roundContainer: {
+    position: "absolute",
+    top: 15,
+    left: 12,
+  },
+  drawButton: {
+    marginTop: 6,
+    backgroundColor: "#ffffff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#3b82f6",
+    paddingVertical: 4,
+    alignItems: "center",
+  },
+  drawButtonText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1e40af",
+  },
+  selectionBanner: {
+    position: "absolute",
+    top: 15,
+    alignSelf: "center",
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#fffbeb",
+    borderColor: "#f59e0b",
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    zIndex: 20,
+  },
+  selectionText: {
+    fontSize: 12,
+    color: "#92400e",
+    fontWeight: "500",
+  },
+  selectionClear: {
+    fontSize: 12,
+    color: "#b45309",
+    fontWeight: "bold",
+    marginLeft: 10,
+  },
   counterContainer: {
     position: "absolute",
     bottom: 15,
@@ -8,8 +8,20 @@ import {
   StyleSheet,
   ScrollView,
 } from "react-native";
-import { Variable } from "../../types";
+import { GameState, Variable } from "../../types";
 import { getSteps } from "../../utils/paymentUtils";
+import {
+  applyTransfers,
+  detectBusts,
+  formatBust,
+  validateStateChange,
+} from "../../utils/variableConstraintUtils";
+import {
+  applyHonbaBonus,
+  getHonbaBonus,
+  HonbaBonusKind,
+  HONBA_VARIABLE,
+} from "../../utils/roundUtils";
 
 interface PaymentModalProps {
   visible: boolean;
@@ -19,8 +31,18 @@ interface PaymentModalProps {
   fromName: string;
   toName: string;
   isProcessing?: boolean;
+  honba?: number; // 現在の本場（1以上で積み棒の加算を選べる）
+  onOpenCalculator?: () => void; // 翻・符からの点数計算に切り替え（麻雀モード）
+  gameState?: GameState; // 変数の制約・飛びを事前に判定するための現在の状態
+  fromIds?: string[];
+  toId?: string;
 }
 
+const HONBA_OPTIONS: { kind: HonbaBonusKind | null; label: string }[] = [
+  { kind: "ron", label: "ロン" },
+  { kind: "tsumo", label: "ツモ" },
+  { kind: null, label: "なし" },
+];
 
 export default function PaymentModal({
   visible,
@@ -30,8 +52,18 @@ export default function PaymentModal({
   fromName,
   toName,
   isProcessing = false,
+  honba = 0,
+  onOpenCalculator,
+  gameState,
+  fromIds = [],
+  toId,
 }: PaymentModalProps) {
   const [amounts, setAmounts] = useState<{ [key: string]: string }>({});
+  const [honbaKind, setHonbaKind] = useState<HonbaBonusKind | null>("ron");
+
+  // 本場の加算は点数の変数がある場合のみ
+  const showHonba = honba > 0 && variables.some((v) => v.key === HONBA_VARIABLE);
+  const honbaBonus = showHonba && honbaKind ? getHonbaBonus(honba, honbaKind) : 0;
 
   // モーダルが開いた瞬間だけ全変数を空欄で初期化
   // variables を依存に含めると、リアルタイム更新で参照が変わるたびにリセットされるため除外
@@ -43,6 +75,7 @@ export default function PaymentModal({
         initial[v.key] = "";
       });
       setAmounts(initial);
+      setHonbaKind("ron");
     }
     prevVisibleRef.current = visible;
   }, [visible]); // eslint-disable-line react-hooks/exhaustive-deps
@@ -58,22 +91,31 @@ export default function PaymentModal({
     setAmounts((prev) => ({ ...prev, [key]: next.toString() }));
   };
 
-  const handleConfirm = () => {
-    const transfers = variables
+  const transfers = applyHonbaBonus(
+    variables
       .map((v) => ({
         variable: v.key,
         amount: parseInt(amounts[v.key] || "0", 10),
       }))
-      .filter((t) => t.amount !== 0);
+      .filter((t) => t.amount !== 0),
+    honbaBonus
+  );
+
+  // 支払い後の状態で制約（サーバーと同じ判定）と飛びを確認
+  const afterState =
+    gameState && toId && transfers.length > 0
+      ? applyTransfers(gameState, fromIds, toId, transfers)
+      : null;
+  const constraintError =
+    gameState && afterState ? validateStateChange(variables, gameState, afterState) : null;
+  const busts = gameState && afterState ? detectBusts(gameState, afterState, variables) : [];
 
-    if (transfers.length === 0) return;
+  const handleConfirm = () => {
+    if (transfers.length === 0 || constraintError) return;
     onConfirm(transfers);
   };
 
-  const hasValidAmount = variables.some((v) => {
-    const amount = parseInt(amounts[v.key] || "0", 10);
-    return amount !== 0;
-  });
+  const hasValidAmount = transfers.length > 0 && !constraintError;
 
   return (
     <Modal
@@ -86,6 +128,12 @@ export default function PaymentModal({
         <View style={styles.modal}>
           <Text style={styles.title}>{fromName} → {toName}</Text>
 
+          {onOpenCalculator && (
+            <TouchableOpacity style={styles.calculatorButton} onPress={onOpenCalculator}>
+              <Text style={styles.calculatorButtonText}>🀄 翻・符から計算</Text>
+            </TouchableOpacity>
+          )}
+
           <ScrollView style={styles.variableList}>
             {variables.map((variable) => (
               <View key={variable.key} style={styles.variableRow}>
@@ -140,6 +188,46 @@ export default function PaymentModal({
             ))}
           </ScrollView>
 
+          {/* 本場の加算 */}
+          {showHonba && (
+            <View style={styles.honbaSection}>
+              <Text style={styles.honbaTitle}>{honba}本場</Text>
+              <View style={styles.honbaRow}>
+                {HONBA_OPTIONS.map((option) => {
+                  const selected = honbaKind === option.kind;
+                  return (
+                    <TouchableOpacity
+                      key={option.label}
+                      style={[styles.honbaChip, selected && styles.honbaChipActive]}
+                      onPress={() => setHonbaKind(option.kind)}
+                    >
+                      <Text
+                        style={[
+                          styles.honbaChipText,
+                          selected && styles.honbaChipTextActive,
+                        ]}
+                      >
+                        {option.kind
+                          ? `${option.label} +${getHonbaBonus(honba, option.kind).toLocaleString()}`
+                          : option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+
+          {constraintError ? (
+            <Text style={styles.constraintError}>{constraintError}</Text>
+          ) : (
+            busts.length > 0 && (
+              <Text style={styles.bustWarning}>
+                飛び: {busts.map(formatBust).join("、")}
+              </Text>
+            )
+          )}
+
           {/* アクションボタン */}
           <View style={styles.actions}>
             <TouchableOpacity
@@ -195,6 +283,32 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     textAlign: "center",
   },
+  calculatorButton: {
+    alignSelf: "center",
+    backgroundColor: "#eff6ff",
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  calculatorButtonText: {
+    color: "#1e40af",
+    fontWeight: "600",
+    fontSize: 14,
+  },
+  constraintError: {
+    color: "#ef4444",
+    fontSize: 13,
+    textAlign: "center",
+    marginBottom: 8,
+  },
+  bustWarning: {
+    color: "#b45309",
+    fontSize: 13,
+    textAlign: "center",
+    marginBottom: 8,
+  },
   variableList: {
     maxHeight: 300,
   },
@@ -277,6 +391,41 @@ const styles = StyleSheet.create({
     fontWeight: "700",
     color: "#1f2937",
   },
+  // 本場の加算
+  honbaSection: {
+    marginTop: 8,
+  },
+  honbaTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 6,
+  },
+  honbaRow: {
+    flexDirection: "row",
+    gap: 6,
+  },
+  honbaChip: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    backgroundColor: "#f9fafb",
+    alignItems: "center",
+  },
+  honbaChipActive: {
+    backgroundColor: "#1f2937",
+    borderColor: "#1f2937",
+  },
+  honbaChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  honbaChipTextActive: {
+    color: "#ffffff",
+  },
   // アクションボタン
   actions: {
     flexDirection: "row",
@@ -5,30 +5,45 @@
 
 import React from "react";
 import { View, Text, StyleSheet } from "react-native";
-import { Variable, PlayerState } from "../../types";
+import { Variable, ComputedVariable, PlayerState } from "../../types";
+import { computeVariableValue } from "../../utils/expressionUtils";
 
 interface PlayerCardProps {
   playerId: string;
   playerState: PlayerState;
   variables: Variable[];
+  computedVariables?: ComputedVariable[]; // 計算変数（読み取り専用）
   isCurrentUser: boolean;
   isHost: boolean;
+  displayName?: string; // 座席・current_state の表示名
+  seatLabel?: string; // 座席番号ラベル（例: "座席3"）
+  isDisconnected?: boolean; // 切断中フラグ（座席のプレイヤーのみ）
 }
 
 export default function PlayerCard({
   playerId,
   playerState,
   variables,
+  computedVariables = [],
   isCurrentUser,
   isHost,
+  displayName,
+  seatLabel,
+  isDisconnected = false,
 }: PlayerCardProps) {
+  const name = isCurrentUser
+    ? "あなた"
+    : displayName ?? `プレイヤー ${playerId.slice(0, 8)}`;
+
   return (
-    <View style={styles.card}>
+    <View style={[styles.card, isDisconnected && styles.cardDisconnected]}>
       {/* プレイヤーヘッダー */}
       <View style={styles.header}>
         <Text style={styles.playerName}>
-          {isCurrentUser ? "あなた" : `プレイヤー ${playerId.slice(0, 8)}`}
+          {seatLabel && <Text style={styles.seatLabel}>{seatLabel} </Text>}
+          {name}
           {isHost && " 👑"}
+          {isDisconnected && " 📡"}
         </Text>
         {playerState._status && (
           <View style={styles.statusBadge}>
@@ -47,6 +62,19 @@ export default function PlayerCard({
             </Text>
           </View>
         ))}
+        {computedVariables.map((computed) => {
+          const value = computeVariableValue(computed, playerState);
+          return (
+            <View key={computed.key} style={styles.statItem}>
+              <Text style={[styles.statLabel, styles.computedLabel]}>
+                {computed.label}
+              </Text>
+              <Text style={styles.statValue}>
+                {value === null ? "-" : value.toLocaleString()}
+              </Text>
+            </View>
+          );
+        })}
       </View>
     </View>
   );
@@ -69,6 +97,14 @@ const styles = StyleSheet.create({
     shadowRadius: 3,
     elevation: 2,
   },
+  cardDisconnected: {
+    opacity: 0.6,
+  },
+  seatLabel: {
+    fontSize: 13,
+    fontWeight: "500",
+    color: "#6b7280",
+  },
   header: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -105,6 +141,9 @@ const styles = StyleSheet.create({
     color: "#6b7280",
     marginBottom: 4,
   },
+  computedLabel: {
+    fontStyle: "italic",
+  },
   statValue: {
     fontSize: 24,
     fontWeight: "bold",
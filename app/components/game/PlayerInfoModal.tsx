@@ -26,6 +26,7 @@ interface PlayerInfoModalProps {
   isHost: boolean;
   onForceLeave?: () => void;
   onRenameGuest?: () => void;
+  onWinCalculator?: () => void; // 点数計算でアガリを記録（麻雀モード）
 }
 
 export default function PlayerInfoModal({
@@ -39,6 +40,7 @@ export default function PlayerInfoModal({
   isHost,
   onForceLeave,
   onRenameGuest,
+  onWinCalculator,
 }: PlayerInfoModalProps) {
   if (!visible) return null;
 
@@ -97,8 +99,16 @@ export default function PlayerInfoModal({
             })}
 
             {/* ホスト操作ボタン */}
-            {isHost && (onForceLeave || (isFakePlayer && onRenameGuest)) && (
+            {isHost && (onWinCalculator || onForceLeave || (isFakePlayer && onRenameGuest)) && (
               <View style={styles.actionSection}>
+                {onWinCalculator && (
+                  <TouchableOpacity
+                    style={styles.winButton}
+                    onPress={onWinCalculator}
+                  >
+                    <Text style={styles.winButtonText}>🀄 アガリを記録する</Text>
+                  </TouchableOpacity>
+                )}
                 {isFakePlayer && onRenameGuest && (
                   <TouchableOpacity
                     style={styles.renameButton}
@@ -198,6 +208,18 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: "#e5e7eb",
   },
+  winButton: {
+    backgroundColor: "#16a34a",
+    padding: 14,
+    borderRadius: 8,
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  winButtonText: {
+    color: "#ffffff",
+    fontSize: 15,
+    fontWeight: "600",
+  },
   renameButton: {
     backgroundColor: "#2563eb",
     padding: 14,
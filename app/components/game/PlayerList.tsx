@@ -1,29 +1,57 @@
 /**
  * PlayerList コンポーネント
  * プレイヤー一覧を表示
+ * seats が渡された場合は座席順（maxPlayers 分）に表示し、空席からの着席も受け付ける
  */
 
 import React from "react";
-import { View, Text, StyleSheet } from "react-native";
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from "react-native";
 import PlayerCard from "./PlayerCard";
-import { GameState, Variable } from "../../types";
+import {
+  ComputedVariable,
+  ConnectionStatus,
+  GameState,
+  SeatInfo,
+  Variable,
+} from "../../types";
 
 interface PlayerListProps {
   gameState: GameState;
   variables: Variable[];
+  computedVariables?: ComputedVariable[];
   currentUserId: string | undefined;
   hostUserId: string;
+  seats?: (SeatInfo | null)[]; // 座席配列（長さ = 座席数）
+  connectionStatuses?: Map<string, ConnectionStatus>;
+  onJoinSeat?: (seatIndex: number) => void; // 空席に着席
+  onJoinFakeSeat?: (seatIndex: number) => void; // ゲスト作成（ホストのみ）
+  isJoining?: boolean;
+  joiningGuestSeats?: Set<number>;
 }
 
 export default function PlayerList({
   gameState,
   variables,
+  computedVariables,
   currentUserId,
   hostUserId,
+  seats = [],
+  connectionStatuses,
+  onJoinSeat,
+  onJoinFakeSeat,
+  isJoining = false,
+  joiningGuestSeats,
 }: PlayerListProps) {
-  const players = Object.keys(gameState);
+  // 予約キー（__pot__ 等）を除いたプレイヤー
+  const players = Object.keys(gameState).filter((key) => !key.startsWith("__"));
+  const seatedIds = new Set(
+    seats.filter((s): s is SeatInfo => !!s?.userId).map((s) => s.userId!)
+  );
+  const unseatedPlayers = players.filter((id) => !seatedIds.has(id));
+  const isUserSeated = !!currentUserId && seatedIds.has(currentUserId);
+  const participantCount = new Set([...players, ...seatedIds]).size;
 
-  if (players.length === 0) {
+  if (participantCount === 0 && seats.length === 0) {
     return (
       <View style={styles.emptyState}>
         <Text style={styles.emptyIcon}>👥</Text>
@@ -35,24 +63,98 @@ export default function PlayerList({
     );
   }
 
+  const getDisplayName = (playerId: string, seat?: SeatInfo | null) => {
+    if (seat?.displayName) return seat.displayName;
+    const stateName = gameState[playerId]?.__displayName__;
+    return typeof stateName === "string" ? stateName : undefined;
+  };
+
+  // 空席の表示（着席・ゲスト作成ボタン）
+  const renderEmptySeat = (index: number) => {
+    const label = `座席${index + 1}`;
+
+    if (joiningGuestSeats?.has(index)) {
+      return (
+        <View key={`seat-${index}`} style={styles.emptySeat}>
+          <ActivityIndicator size="small" color="#6b7280" />
+          <Text style={styles.emptySeatText}>{label} 着席中...</Text>
+        </View>
+      );
+    }
+
+    let action: (() => void) | undefined;
+    let actionLabel = "空席";
+    if (!isUserSeated && onJoinSeat && !isJoining) {
+      action = () => onJoinSeat(index);
+      actionLabel = "着席する";
+    } else if (isUserSeated && onJoinFakeSeat) {
+      action = () => onJoinFakeSeat(index);
+      actionLabel = "ゲスト作成";
+    }
+
+    return (
+      <TouchableOpacity
+        key={`seat-${index}`}
+        style={styles.emptySeat}
+        onPress={action}
+        onLongPress={!isUserSeated && onJoinFakeSeat ? () => onJoinFakeSeat(index) : undefined}
+        disabled={!action}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.emptySeatText}>
+          {label}: {actionLabel}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>プレイヤー</Text>
         <View style={styles.badge}>
-          <Text style={styles.badgeText}>{players.length}人</Text>
+          <Text style={styles.badgeText}>
+            {seats.length > 0
+              ? `${seatedIds.size}/${seats.length}席`
+              : `${participantCount}人`}
+          </Text>
         </View>
       </View>
 
       <View style={styles.playerList}>
-        {players.map((playerId) => (
+        {/* 座席順の表示 */}
+        {seats.map((seat, index) => {
+          if (!seat || !seat.userId) return renderEmptySeat(index);
+          const playerId = seat.userId;
+          return (
+            <PlayerCard
+              key={`seat-${index}`}
+              playerId={playerId}
+              playerState={gameState[playerId] ?? {}}
+              variables={variables}
+              computedVariables={computedVariables}
+              isCurrentUser={playerId === currentUserId}
+              isHost={playerId === hostUserId}
+              displayName={getDisplayName(playerId, seat)}
+              seatLabel={`座席${index + 1}`}
+              isDisconnected={
+                connectionStatuses?.get(playerId)?.isConnected === false
+              }
+            />
+          );
+        })}
+
+        {/* 座席に着いていない参加者 */}
+        {unseatedPlayers.map((playerId) => (
           <PlayerCard
             key={playerId}
             playerId={playerId}
             playerState={gameState[playerId]}
             variables={variables}
+            computedVariables={computedVariables}
             isCurrentUser={playerId === currentUserId}
             isHost={playerId === hostUserId}
+            displayName={getDisplayName(playerId)}
           />
         ))}
       </View>
@@ -89,6 +191,22 @@ const styles = StyleSheet.create({
   playerList: {
     gap: 12,
   },
+  emptySeat: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    borderStyle: "dashed",
+    backgroundColor: "#ffffff",
+  },
+  emptySeatText: {
+    fontSize: 14,
+    color: "#6b7280",
+    fontWeight: "500",
+  },
   emptyState: {
     padding: 48,
     alignItems: "center",
@@ -0,0 +1,60 @@
+import React from "react";
+import { View, StyleSheet, TouchableOpacity, Text } from "react-native";
+import { RoundState } from "../../types";
+import { formatRound } from "../../utils/roundUtils";
+
+interface RoundCardProps {
+  round: RoundState;
+  canEdit: boolean;
+  onPress: () => void; // 局結果の選択を開く
+}
+
+/**
+ * 局表示カード（東1局 / 0本場）
+ * 編集権限がある場合はタップで局結果を選択できる
+ */
+export default function RoundCard({ round, canEdit, onPress }: RoundCardProps) {
+  return (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={onPress}
+      disabled={!canEdit}
+      activeOpacity={0.7}
+    >
+      <Text style={styles.roundText}>{formatRound(round)}</Text>
+      <View style={styles.honbaRow}>
+        <Text style={styles.honbaText}>{round.honba}本場</Text>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: "#ffffff",
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: "#e5e7eb",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    width: 90,
+    paddingVertical: 4,
+    alignItems: "center",
+  },
+  roundText: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#374151",
+  },
+  honbaRow: {
+    marginTop: 2,
+  },
+  honbaText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#6b7280",
+  },
+});
@@ -0,0 +1,177 @@
+import React from "react";
+import {
+  Modal,
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+} from "react-native";
+
+import { RoundResult, RoundState, SeatInfo } from "../../types";
+import { formatRound } from "../../utils/roundUtils";
+
+interface RoundResultModalProps {
+  visible: boolean;
+  round: RoundState;
+  seats: (SeatInfo | null)[];
+  onAdvance: (result: RoundResult, dealerTenpai?: boolean) => void;
+  onReset: (startSeat: number) => void;
+  onClose: () => void;
+}
+
+const RESULT_OPTIONS: { label: string; result: RoundResult; dealerTenpai?: boolean }[] = [
+  { label: "親のアガリ", result: "dealer_win" },
+  { label: "子のアガリ", result: "non_dealer_win" },
+  { label: "流局（親テンパイ）", result: "draw", dealerTenpai: true },
+  { label: "流局（親ノーテン）", result: "draw", dealerTenpai: false },
+];
+
+/**
+ * 局結果の選択モーダル
+ * 局結果を選ぶと局が進む。起家を選ぶと東1局 0本場からやり直す
+ */
+export default function RoundResultModal({
+  visible,
+  round,
+  seats,
+  onAdvance,
+  onReset,
+  onClose,
+}: RoundResultModalProps) {
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>
+            {formatRound(round)} {round.honba}本場の結果
+          </Text>
+
+          {RESULT_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.label}
+              style={styles.resultButton}
+              onPress={() => onAdvance(option.result, option.dealerTenpai)}
+            >
+              <Text style={styles.resultLabel}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+
+          {/* 起家を指定して東1局に戻す */}
+          <Text style={styles.sectionTitle}>起家を選んで東1局から</Text>
+          <View style={styles.seatRow}>
+            {seats.map((seat, index) =>
+              seat?.userId ? (
+                <TouchableOpacity
+                  key={index}
+                  style={[
+                    styles.seatChip,
+                    round.startSeat === index && styles.seatChipActive,
+                  ]}
+                  onPress={() => onReset(index)}
+                >
+                  <Text
+                    style={[
+                      styles.seatChipText,
+                      round.startSeat === index && styles.seatChipTextActive,
+                    ]}
+                    numberOfLines={1}
+                  >
+                    {seat.displayName || seat.userId.slice(0, 8)}
+                  </Text>
+                </TouchableOpacity>
+              ) : null
+            )}
+          </View>
+
+          <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+            <Text style={styles.cancelButtonText}>キャンセル</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  modal: {
+    backgroundColor: "#ffffff",
+    borderRadius: 16,
+    padding: 24,
+    width: "80%",
+    maxWidth: 400,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#1f2937",
+    marginBottom: 16,
+    textAlign: "center",
+  },
+  resultButton: {
+    backgroundColor: "#eff6ff",
+    borderRadius: 10,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: "#3b82f6",
+  },
+  resultLabel: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1e40af",
+    textAlign: "center",
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#6b7280",
+    marginTop: 6,
+    marginBottom: 8,
+  },
+  seatRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginBottom: 10,
+  },
+  seatChip: {
+    backgroundColor: "#f3f4f6",
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    maxWidth: 120,
+  },
+  seatChipActive: {
+    backgroundColor: "#1f2937",
+  },
+  seatChipText: {
+    fontSize: 13,
+    color: "#374151",
+  },
+  seatChipTextActive: {
+    color: "#ffffff",
+  },
+  cancelButton: {
+    backgroundColor: "#f3f4f6",
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 4,
+  },
+  cancelButtonText: {
+    color: "#1f2937",
+    textAlign: "center",
+    fontWeight: "600",
+    fontSize: 16,
+  },
+});
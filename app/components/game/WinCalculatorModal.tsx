@@ -0,0 +1,474 @@
+/**
+ * 和了の点数計算モーダル
+ * 翻・符・ロン/ツモから各支払い者の支払いを計算し、供託と合わせて1操作で記録する。
+ * 親・本場は現在の局（__round__）から決まる。局も進められる（親のアガリで連荘、子のアガリで親流れ）。
+ */
+
+import React, { useState, useEffect, useMemo } from "react";
+import {
+  Modal,
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+} from "react-native";
+import { WinDetail, WinType } from "../../types";
+import {
+  FU_OPTIONS,
+  HAN_OPTIONS,
+  calculateWinPayments,
+  formatHand,
+  sumWinPayments,
+} from "../../utils/mahjongScoreUtils";
+
+/** 支払い者の候補（和了者以外の着席プレイヤー） */
+export interface WinCalculatorPayer {
+  playerId: string;
+  name: string;
+  isDealer: boolean;
+}
+
+interface WinCalculatorModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onConfirm: (
+    payments: { from: string; amount: number }[],
+    detail: WinDetail,
+    collectPot: boolean,
+    advanceRound: boolean
+  ) => void;
+  winnerName: string;
+  isDealer: boolean; // 和了者が親か
+  payers: WinCalculatorPayer[];
+  honba: number;
+  potAmount: number; // 受け取れる供託（点数）
+  initialWinType: WinType;
+  initialLoserId?: string | null;
+  canAdvanceRound?: boolean; // 局も進められるか
+  isProcessing?: boolean;
+}
+
+export default function WinCalculatorModal({
+  visible,
+  onClose,
+  onConfirm,
+  winnerName,
+  isDealer,
+  payers,
+  honba,
+  potAmount,
+  initialWinType,
+  initialLoserId = null,
+  canAdvanceRound = false,
+  isProcessing = false,
+}: WinCalculatorModalProps) {
+  const [han, setHan] = useState(1);
+  const [fu, setFu] = useState(30);
+  const [winType, setWinType] = useState<WinType>(initialWinType);
+  const [loserId, setLoserId] = useState<string | null>(initialLoserId);
+  const [collectPot, setCollectPot] = useState(true);
+  const [advanceRound, setAdvanceRound] = useState(true);
+
+  // モーダルが開いた瞬間だけ初期化
+  const prevVisibleRef = React.useRef(false);
+  useEffect(() => {
+    if (visible && !prevVisibleRef.current) {
+      setHan(1);
+      setFu(30);
+      setWinType(initialWinType);
+      setLoserId(initialLoserId);
+      setCollectPot(true);
+      setAdvanceRound(true);
+    }
+    prevVisibleRef.current = visible;
+  }, [visible]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const payments = useMemo(
+    () =>
+      calculateWinPayments({
+        han,
+        fu,
+        isDealer,
+        winType,
+        honba,
+        payers: payers.map((p) => ({ playerId: p.playerId, isDealer: p.isDealer })),
+        loserId,
+      }),
+    [han, fu, isDealer, winType, honba, payers, loserId]
+  );
+
+  const nameOf = (playerId: string) =>
+    payers.find((p) => p.playerId === playerId)?.name ?? playerId.slice(0, 8);
+
+  const isFuFixed = han >= 5; // 満貫以上は符に依らない
+  const canConfirm = payments.length > 0 && !isProcessing;
+
+  const handleConfirm = () => {
+    if (!canConfirm) return;
+    onConfirm(
+      payments,
+      { winType, han, fu, honba, isDealer },
+      collectPot && potAmount > 0,
+      canAdvanceRound && advanceRound
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>
+            {winnerName}のアガリ{isDealer ? "（親）" : ""}
+          </Text>
+
+          <ScrollView style={styles.body}>
+            {/* ロン / ツモ */}
+            <View style={styles.segment}>
+              {(["ron", "tsumo"] as const).map((type) => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.segmentButton, winType === type && styles.segmentButtonActive]}
+                  onPress={() => setWinType(type)}
+                >
+                  <Text
+                    style={[styles.segmentText, winType === type && styles.segmentTextActive]}
+                  >
+                    {type === "ron" ? "ロン" : "ツモ"}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {/* 放銃者（ロンのみ） */}
+            {winType === "ron" && (
+              <>
+                <Text style={styles.sectionTitle}>放銃者</Text>
+                <View style={styles.chipRow}>
+                  {payers.map((p) => (
+                    <TouchableOpacity
+                      key={p.playerId}
+                      style={[styles.chip, loserId === p.playerId && styles.chipActive]}
+                      onPress={() => setLoserId(p.playerId)}
+                    >
+                      <Text
+                        style={[styles.chipText, loserId === p.playerId && styles.chipTextActive]}
+                        numberOfLines={1}
+                      >
+                        {p.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+
+            {/* 翻 */}
+            <Text style={styles.sectionTitle}>翻</Text>
+            <View style={styles.chipRow}>
+              {HAN_OPTIONS.map((value) => (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.numberChip, han === value && styles.chipActive]}
+                  onPress={() => setHan(value)}
+                >
+                  <Text style={[styles.chipText, han === value && styles.chipTextActive]}>
+                    {value === 13 ? "役満" : value}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {/* 符 */}
+            <Text style={styles.sectionTitle}>符</Text>
+            <View style={[styles.chipRow, isFuFixed && styles.disabled]}>
+              {FU_OPTIONS.map((value) => (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.numberChip, fu === value && styles.chipActive]}
+                  onPress={() => setFu(value)}
+                  disabled={isFuFixed}
+                >
+                  <Text style={[styles.chipText, fu === value && styles.chipTextActive]}>
+                    {value}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {/* 供託 */}
+            {potAmount > 0 && (
+              <TouchableOpacity
+                style={styles.potRow}
+                onPress={() => setCollectPot((prev) => !prev)}
+              >
+                <Text style={styles.potCheck}>{collectPot ? "☑" : "☐"}</Text>
+                <Text style={styles.potText}>
+                  供託 {potAmount.toLocaleString()} を受け取る
+                </Text>
+              </TouchableOpacity>
+            )}
+
+            {/* 局進行 */}
+            {canAdvanceRound && (
+              <TouchableOpacity
+                style={styles.advanceRow}
+                onPress={() => setAdvanceRound((prev) => !prev)}
+              >
+                <Text style={styles.advanceCheck}>{advanceRound ? "☑" : "☐"}</Text>
+                <Text style={styles.advanceText}>
+                  局も進める（{isDealer ? "親のアガリ・連荘" : "子のアガリ・親流れ"}）
+                </Text>
+              </TouchableOpacity>
+            )}
+
+            {/* 計算結果 */}
+            <View style={styles.result}>
+              <Text style={styles.resultHand}>
+                {formatHand(han, fu)}
+                {honba > 0 ? ` ${honba}本場` : ""}
+              </Text>
+              {payments.length === 0 ? (
+                <Text style={styles.resultHint}>放銃者を選択してください</Text>
+              ) : (
+                <>
+                  {payments.map((leg) => (
+                    <View key={leg.from} style={styles.resultRow}>
+                      <Text style={styles.resultName}>{nameOf(leg.from)}</Text>
+                      <Text style={styles.resultAmount}>
+                        -{leg.amount.toLocaleString()}
+                      </Text>
+                    </View>
+                  ))}
+                  <View style={[styles.resultRow, styles.resultTotalRow]}>
+                    <Text style={styles.resultName}>合計</Text>
+                    <Text style={styles.resultTotal}>
+                      +{(sumWinPayments(payments) + (collectPot ? potAmount : 0)).toLocaleString()}
+                    </Text>
+                  </View>
+                </>
+              )}
+            </View>
+          </ScrollView>
+
+          {/* アクションボタン */}
+          <View style={styles.actions}>
+            <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>キャンセル</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.button,
+                styles.confirmButton,
+                !canConfirm && styles.confirmButtonDisabled,
+              ]}
+              onPress={handleConfirm}
+              disabled={!canConfirm}
+            >
+              <Text style={styles.confirmButtonText}>
+                {isProcessing ? "処理中..." : "記録する"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  modal: {
+    backgroundColor: "#ffffff",
+    borderRadius: 16,
+    padding: 24,
+    width: "90%",
+    maxWidth: 420,
+    maxHeight: "85%",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#1f2937",
+    marginBottom: 12,
+    textAlign: "center",
+  },
+  body: {
+    flexGrow: 0,
+  },
+  segment: {
+    flexDirection: "row",
+    backgroundColor: "#f3f4f6",
+    borderRadius: 8,
+    padding: 2,
+  },
+  segmentButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: "center",
+  },
+  segmentButtonActive: {
+    backgroundColor: "#ffffff",
+  },
+  segmentText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#6b7280",
+  },
+  segmentTextActive: {
+    color: "#1f2937",
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#6b7280",
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  chip: {
+    backgroundColor: "#f3f4f6",
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    maxWidth: 120,
+  },
+  numberChip: {
+    backgroundColor: "#f3f4f6",
+    borderRadius: 8,
+    minWidth: 40,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    alignItems: "center",
+  },
+  chipActive: {
+    backgroundColor: "#1f2937",
+  },
+  chipText: {
+    fontSize: 14,
+    color: "#374151",
+  },
+  chipTextActive: {
+    color: "#ffffff",
+    fontWeight: "600",
+  },
+  potRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 12,
+  },
+  potCheck: {
+    fontSize: 18,
+    marginRight: 6,
+    color: "#b45309",
+  },
+  potText: {
+    fontSize: 14,
+    color: "#92400e",
+    fontWeight: "500",
+  },
+  advanceRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 12,
+  },
+  advanceCheck: {
+    fontSize: 18,
+    marginRight: 6,
+    color: "#2563eb",
+  },
+  advanceText: {
+    fontSize: 14,
+    color: "#374151",
+    fontWeight: "500",
+  },
+  result: {
+    marginTop: 14,
+    backgroundColor: "#f9fafb",
+    borderRadius: 8,
+    padding: 12,
+  },
+  resultHand: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#1f2937",
+    marginBottom: 6,
+  },
+  resultHint: {
+    fontSize: 13,
+    color: "#9ca3af",
+  },
+  resultRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 2,
+  },
+  resultTotalRow: {
+    borderTopWidth: 1,
+    borderTopColor: "#e5e7eb",
+    marginTop: 6,
+    paddingTop: 6,
+  },
+  resultName: {
+    fontSize: 14,
+    color: "#374151",
+  },
+  resultAmount: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#2563eb",
+  },
+  resultTotal: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#dc2626",
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 16,
+  },
+  button: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    marginHorizontal: 4,
+  },
+  cancelButton: {
+    backgroundColor: "#f3f4f6",
+  },
+  cancelButtonText: {
+    color: "#1f2937",
+    textAlign: "center",
+    fontWeight: "600",
+  },
+  confirmButton: {
+    backgroundColor: "#3b82f6",
+  },
+  confirmButtonDisabled: {
+    backgroundColor: "#9ca3af",
+  },
+  confirmButtonText: {
+    color: "#ffffff",
+    textAlign: "center",
+    fontWeight: "600",
+  },
+});
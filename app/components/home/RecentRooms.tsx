@@ -54,7 +54,11 @@ export default function RecentRooms({
               {room.roomName ? (
                 <Text style={styles.roomNameText}>{room.roomName}</Text>
               ) : null}
-              <Text style={styles.templateName}>{room.templateName}</Text>
+              <Text style={styles.templateName}>
+                {room.groupName
+                  ? `${room.groupName} ・ ${room.templateName}`
+                  : room.templateName}
+              </Text>
               <Text style={styles.time}>
                 {formatRelativeTime(room.joinedAt)}
               </Text>
@@ -0,0 +1,325 @@
+/**
+ * 計算変数エディタ
+ * 他の変数から計算する読み取り専用の変数（例: total = score + bonus * 10）の追加・編集・削除を行う
+ */
+
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+} from "react-native";
+import { ComputedVariable, Variable } from "../../types";
+import { validateExpression } from "../../utils/expressionUtils";
+
+interface ComputedVariableEditorProps {
+  computedVariables: ComputedVariable[];
+  variables: Variable[];
+  onUpdate: (computedVariables: ComputedVariable[]) => void;
+}
+
+export default function ComputedVariableEditor({
+  computedVariables,
+  variables,
+  onUpdate,
+}: ComputedVariableEditorProps) {
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [newKey, setNewKey] = useState("");
+  const [newLabel, setNewLabel] = useState("");
+  const [newExpression, setNewExpression] = useState("");
+
+  const variableKeys = variables.map((v) => v.key);
+
+  const resetAddForm = () => {
+    setShowAddForm(false);
+    setNewKey("");
+    setNewLabel("");
+    setNewExpression("");
+  };
+
+  const handleLabelChange = (index: number, label: string) => {
+    const updated = [...computedVariables];
+    updated[index] = { ...updated[index], label };
+    onUpdate(updated);
+  };
+
+  const handleExpressionChange = (index: number, expression: string) => {
+    const updated = [...computedVariables];
+    updated[index] = { ...updated[index], expression };
+    onUpdate(updated);
+  };
+
+  const handleDelete = (index: number) => {
+    const computed = computedVariables[index];
+    Alert.alert("計算変数を削除", `「${computed.label}」を削除しますか？`, [
+      { text: "キャンセル", style: "cancel" },
+      {
+        text: "削除",
+        style: "destructive",
+        onPress: () => {
+          const updated = computedVariables.filter((_, i) => i !== index);
+          onUpdate(updated);
+        },
+      },
+    ]);
+  };
+
+  const handleAdd = () => {
+    const key = newKey.trim();
+    const label = newLabel.trim();
+    const expression = newExpression.trim();
+
+    if (!key) {
+      Alert.alert("エラー", "キーを入力してください。");
+      return;
+    }
+
+    // 計算式から参照できないキーは使わない
+    if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(key)) {
+      Alert.alert("エラー", "キーは英字で始まる英数字と「_」で入力してください。");
+      return;
+    }
+
+    if (!label) {
+      Alert.alert("エラー", "表示名を入力してください。");
+      return;
+    }
+
+    // キーの重複チェック（通常の変数とも重複させない）
+    if (
+      variableKeys.includes(key) ||
+      computedVariables.some((v) => v.key === key)
+    ) {
+      Alert.alert("エラー", "同じキーの変数が既に存在します。");
+      return;
+    }
+
+    const error = validateExpression(expression, variableKeys);
+    if (error) {
+      Alert.alert("エラー", error);
+      return;
+    }
+
+    onUpdate([...computedVariables, { key, label, expression }]);
+    resetAddForm();
+  };
+
+  return (
+    <View>
+      {computedVariables.map((computed, index) => {
+        const error = validateExpression(computed.expression, variableKeys);
+        return (
+          <View key={computed.key} style={styles.row}>
+            <View style={styles.rowHeader}>
+              <Text style={styles.keyLabel}>key: {computed.key}</Text>
+              <TouchableOpacity
+                onPress={() => handleDelete(index)}
+                style={styles.deleteBtn}
+              >
+                <Text style={styles.deleteBtnText}>削除</Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.inputLabel}>表示名</Text>
+            <TextInput
+              style={styles.textInput}
+              value={computed.label}
+              onChangeText={(text) => handleLabelChange(index, text)}
+              placeholder="表示名"
+            />
+            <Text style={[styles.inputLabel, styles.expressionLabel]}>計算式</Text>
+            <TextInput
+              style={[styles.textInput, styles.expressionInput]}
+              value={computed.expression}
+              onChangeText={(text) => handleExpressionChange(index, text)}
+              placeholder="score + bonus * 10"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            {error && <Text style={styles.errorText}>{error}</Text>}
+          </View>
+        );
+      })}
+
+      {showAddForm ? (
+        <View style={styles.addForm}>
+          <Text style={styles.addFormTitle}>新しい計算変数</Text>
+          <View style={styles.inputRow}>
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>キー</Text>
+              <TextInput
+                style={styles.textInput}
+                value={newKey}
+                onChangeText={setNewKey}
+                placeholder="例: total"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>表示名</Text>
+              <TextInput
+                style={styles.textInput}
+                value={newLabel}
+                onChangeText={setNewLabel}
+                placeholder="例: 合計"
+              />
+            </View>
+          </View>
+          <Text style={[styles.inputLabel, styles.expressionLabel]}>計算式</Text>
+          <TextInput
+            style={[styles.textInput, styles.expressionInput]}
+            value={newExpression}
+            onChangeText={setNewExpression}
+            placeholder="例: score + bonus * 10"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <Text style={styles.hintText}>
+            使える変数: {variableKeys.join(", ")}（+ - * / ( ) と min, max, abs, floor, ceil, round）
+          </Text>
+          <View style={styles.addFormActions}>
+            <TouchableOpacity style={styles.cancelBtn} onPress={resetAddForm}>
+              <Text style={styles.cancelBtnText}>キャンセル</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.confirmBtn} onPress={handleAdd}>
+              <Text style={styles.confirmBtnText}>追加</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity
+          style={styles.addBtn}
+          onPress={() => setShowAddForm(true)}
+        >
+          <Text style={styles.addBtnText}>+ 計算変数を追加</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    borderBottomWidth: 1,
+    borderBottomColor: "#f3f4f6",
+    paddingVertical: 12,
+  },
+  rowHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  keyLabel: {
+    fontSize: 12,
+    color: "#9ca3af",
+    fontFamily: "monospace",
+  },
+  deleteBtn: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 4,
+    backgroundColor: "#fef2f2",
+  },
+  deleteBtnText: {
+    fontSize: 12,
+    color: "#ef4444",
+    fontWeight: "500",
+  },
+  inputRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  inputGroup: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginBottom: 4,
+  },
+  expressionLabel: {
+    marginTop: 8,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: "#1f2937",
+    backgroundColor: "#f9fafb",
+  },
+  expressionInput: {
+    fontFamily: "monospace",
+  },
+  errorText: {
+    fontSize: 12,
+    color: "#ef4444",
+    marginTop: 4,
+  },
+  hintText: {
+    fontSize: 11,
+    color: "#9ca3af",
+    marginTop: 4,
+  },
+  addForm: {
+    marginTop: 12,
+    padding: 12,
+    backgroundColor: "#f0f9ff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#bfdbfe",
+  },
+  addFormTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1e40af",
+    marginBottom: 10,
+  },
+  addFormActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 12,
+  },
+  cancelBtn: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: "#e5e7eb",
+  },
+  cancelBtnText: {
+    fontSize: 14,
+    color: "#374151",
+  },
+  confirmBtn: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: "#3b82f6",
+  },
+  confirmBtnText: {
+    fontSize: 14,
+    color: "#ffffff",
+    fontWeight: "600",
+  },
+  addBtn: {
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#3b82f6",
+    borderStyle: "dashed",
+    alignItems: "center",
+  },
+  addBtnText: {
+    fontSize: 14,
+    color: "#3b82f6",
+    fontWeight: "500",
+  },
+});
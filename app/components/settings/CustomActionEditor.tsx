@@ -0,0 +1,472 @@
+/**
+ * カスタム操作エディタ
+ * 実行者・他の全員・供託・場の間の移動を組み合わせた操作の追加・編集・削除を行う
+ */
+
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+} from "react-native";
+import {
+  CustomAction,
+  CustomActionLeg,
+  CustomActionParty,
+  Variable,
+} from "../../types";
+import {
+  CUSTOM_ACTION_PARTY_LABELS,
+  formatCustomActionLeg,
+  validateCustomActionLeg,
+} from "../../utils/customActionUtils";
+
+interface CustomActionEditorProps {
+  customActions: CustomAction[];
+  variables: Variable[];
+  onUpdate: (customActions: CustomAction[]) => void;
+}
+
+const PARTIES: CustomActionParty[] = ["actor", "others", "pot", "bank"];
+
+/**
+ * 簡易UUID生成
+ */
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 10);
+}
+
+export default function CustomActionEditor({
+  customActions,
+  variables,
+  onUpdate,
+}: CustomActionEditorProps) {
+  const defaultLeg = (): CustomActionLeg => ({
+    from: "others",
+    to: "actor",
+    variable: variables[0]?.key || "score",
+    amount: 0,
+  });
+
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [newLabel, setNewLabel] = useState("");
+  const [newLegs, setNewLegs] = useState<CustomActionLeg[]>([defaultLeg()]);
+
+  const resetAddForm = () => {
+    setShowAddForm(false);
+    setNewLabel("");
+    setNewLegs([defaultLeg()]);
+  };
+
+  const handleLabelChange = (index: number, label: string) => {
+    const updated = [...customActions];
+    updated[index] = { ...updated[index], label };
+    onUpdate(updated);
+  };
+
+  const handleDeleteLeg = (actionIndex: number, legIndex: number) => {
+    const updated = [...customActions];
+    if (updated[actionIndex].legs.length <= 1) {
+      Alert.alert("エラー", "最低1つの移動が必要です。");
+      return;
+    }
+    const legs = updated[actionIndex].legs.filter((_, i) => i !== legIndex);
+    updated[actionIndex] = { ...updated[actionIndex], legs };
+    onUpdate(updated);
+  };
+
+  const handleDelete = (index: number) => {
+    const action = customActions[index];
+    Alert.alert("操作を削除", `「${action.label}」を削除しますか？`, [
+      { text: "キャンセル", style: "cancel" },
+      {
+        text: "削除",
+        style: "destructive",
+        onPress: () => {
+          const updated = customActions.filter((_, i) => i !== index);
+          onUpdate(updated);
+        },
+      },
+    ]);
+  };
+
+  const handleAdd = () => {
+    const label = newLabel.trim();
+
+    if (!label) {
+      Alert.alert("エラー", "表示名を入力してください。");
+      return;
+    }
+
+    for (const leg of newLegs) {
+      const error = validateCustomActionLeg(leg, variables);
+      if (error) {
+        Alert.alert("エラー", error);
+        return;
+      }
+    }
+
+    onUpdate([...customActions, { id: generateId(), label, legs: newLegs }]);
+    resetAddForm();
+  };
+
+  const handleNewLegChange = (index: number, patch: Partial<CustomActionLeg>) => {
+    const updated = [...newLegs];
+    updated[index] = { ...updated[index], ...patch };
+    setNewLegs(updated);
+  };
+
+  const handleNewLegAmountChange = (index: number, text: string) => {
+    const num = Number(text);
+    if (text !== "" && (isNaN(num) || num < 0)) return;
+    handleNewLegChange(index, { amount: num || 0 });
+  };
+
+  const renderChips = <T extends string>(
+    options: { key: T; label: string }[],
+    selected: T,
+    onSelect: (key: T) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map((option) => (
+        <TouchableOpacity
+          key={option.key}
+          style={[styles.chip, selected === option.key && styles.chipActive]}
+          onPress={() => onSelect(option.key)}
+        >
+          <Text
+            style={[
+              styles.chipText,
+              selected === option.key && styles.chipTextActive,
+            ]}
+          >
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const partyOptions = PARTIES.map((p) => ({
+    key: p,
+    label: CUSTOM_ACTION_PARTY_LABELS[p],
+  }));
+
+  const renderNewLeg = (leg: CustomActionLeg, legIndex: number) => (
+    <View key={legIndex} style={styles.legForm}>
+      <View style={styles.legFormHeader}>
+        <Text style={styles.inputLabel}>移動 {legIndex + 1}</Text>
+        {newLegs.length > 1 && (
+          <TouchableOpacity
+            onPress={() => setNewLegs(newLegs.filter((_, i) => i !== legIndex))}
+            style={styles.legDeleteBtn}
+          >
+            <Text style={styles.legDeleteBtnText}>x</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <Text style={styles.subLabel}>移動元</Text>
+      {renderChips(partyOptions, leg.from, (from) =>
+        handleNewLegChange(legIndex, { from })
+      )}
+      <Text style={styles.subLabel}>移動先</Text>
+      {renderChips(partyOptions, leg.to, (to) =>
+        handleNewLegChange(legIndex, { to })
+      )}
+      <Text style={styles.subLabel}>変数と量（1人あたり）</Text>
+      <View style={styles.amountRow}>
+        {renderChips(
+          variables.map((v) => ({ key: v.key, label: v.label })),
+          leg.variable,
+          (variable) => handleNewLegChange(legIndex, { variable })
+        )}
+        <TextInput
+          style={styles.amountInput}
+          value={leg.amount > 0 ? String(leg.amount) : ""}
+          onChangeText={(text) => handleNewLegAmountChange(legIndex, text)}
+          keyboardType="numeric"
+          placeholder="500"
+        />
+      </View>
+    </View>
+  );
+
+  return (
+    <View>
+      {customActions.map((action, index) => (
+        <View key={action.id} style={styles.row}>
+          <View style={styles.rowHeader}>
+            <Text style={styles.idLabel}>id: {action.id}</Text>
+            <TouchableOpacity
+              onPress={() => handleDelete(index)}
+              style={styles.deleteBtn}
+            >
+              <Text style={styles.deleteBtnText}>削除</Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.inputLabel}>表示名</Text>
+          <TextInput
+            style={styles.textInput}
+            value={action.label}
+            onChangeText={(text) => handleLabelChange(index, text)}
+            placeholder="表示名"
+          />
+          <View style={styles.legsSection}>
+            <Text style={styles.inputLabel}>移動</Text>
+            {action.legs.map((leg, legIndex) => (
+              <View key={legIndex} style={styles.legRow}>
+                <Text style={styles.legText}>
+                  {formatCustomActionLeg(leg, variables)}
+                </Text>
+                {action.legs.length > 1 && (
+                  <TouchableOpacity
+                    onPress={() => handleDeleteLeg(index, legIndex)}
+                    style={styles.legDeleteBtn}
+                  >
+                    <Text style={styles.legDeleteBtnText}>x</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+          </View>
+        </View>
+      ))}
+
+      {showAddForm ? (
+        <View style={styles.addForm}>
+          <Text style={styles.addFormTitle}>新しい操作</Text>
+          <Text style={styles.inputLabel}>表示名</Text>
+          <TextInput
+            style={styles.textInput}
+            value={newLabel}
+            onChangeText={setNewLabel}
+            placeholder="例: ボーナス"
+          />
+          <View style={styles.legsSection}>
+            {newLegs.map(renderNewLeg)}
+            <TouchableOpacity
+              style={styles.addLegBtn}
+              onPress={() => setNewLegs([...newLegs, defaultLeg()])}
+            >
+              <Text style={styles.addLegBtnText}>+ 移動を追加</Text>
+            </TouchableOpacity>
+          </View>
+          <View style={styles.addFormActions}>
+            <TouchableOpacity style={styles.cancelBtn} onPress={resetAddForm}>
+              <Text style={styles.cancelBtnText}>キャンセル</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.confirmBtn} onPress={handleAdd}>
+              <Text style={styles.confirmBtnText}>追加</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity
+          style={styles.addBtn}
+          onPress={() => setShowAddForm(true)}
+        >
+          <Text style={styles.addBtnText}>+ 操作を追加</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    borderBottomWidth: 1,
+    borderBottomColor: "#f3f4f6",
+    paddingVertical: 12,
+  },
+  rowHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  idLabel: {
+    fontSize: 12,
+    color: "#9ca3af",
+    fontFamily: "monospace",
+  },
+  deleteBtn: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 4,
+    backgroundColor: "#fef2f2",
+  },
+  deleteBtnText: {
+    fontSize: 12,
+    color: "#ef4444",
+    fontWeight: "500",
+  },
+  inputLabel: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginBottom: 4,
+  },
+  subLabel: {
+    fontSize: 11,
+    color: "#9ca3af",
+    marginTop: 6,
+    marginBottom: 4,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: "#1f2937",
+    backgroundColor: "#f9fafb",
+  },
+  legsSection: {
+    marginTop: 8,
+  },
+  legRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 4,
+  },
+  legText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#374151",
+  },
+  legForm: {
+    marginBottom: 8,
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: "#ffffff",
+  },
+  legFormHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  legDeleteBtn: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: "#fef2f2",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  legDeleteBtnText: {
+    fontSize: 12,
+    color: "#ef4444",
+    fontWeight: "bold",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 4,
+    flex: 1,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    backgroundColor: "#f9fafb",
+  },
+  chipActive: {
+    borderColor: "#3b82f6",
+    backgroundColor: "#eff6ff",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  chipTextActive: {
+    color: "#3b82f6",
+    fontWeight: "600",
+  },
+  amountRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  amountInput: {
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: "#1f2937",
+    backgroundColor: "#f9fafb",
+    width: 80,
+    textAlign: "right",
+  },
+  addLegBtn: {
+    marginTop: 4,
+    paddingVertical: 6,
+    alignItems: "center",
+  },
+  addLegBtnText: {
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  addForm: {
+    marginTop: 12,
+    padding: 12,
+    backgroundColor: "#f0f9ff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#bfdbfe",
+  },
+  addFormTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1e40af",
+    marginBottom: 10,
+  },
+  addFormActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 12,
+  },
+  cancelBtn: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: "#e5e7eb",
+  },
+  cancelBtnText: {
+    fontSize: 14,
+    color: "#374151",
+  },
+  confirmBtn: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: "#3b82f6",
+  },
+  confirmBtnText: {
+    fontSize: 14,
+    color: "#ffffff",
+    fontWeight: "600",
+  },
+  addBtn: {
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#3b82f6",
+    borderStyle: "dashed",
+    alignItems: "center",
+  },
+  addBtnText: {
+    fontSize: 14,
+    color: "#3b82f6",
+    fontWeight: "500",
+  },
+});
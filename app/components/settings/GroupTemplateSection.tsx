@@ -0,0 +1,83 @@
+/**
+ * グループ既定テンプレートセクション
+ * 現在のルームのテンプレートを所属グループの既定テンプレートとして保存する（グループのオーナーのみ）
+ */
+
+import React, { useState } from "react";
+import {
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { Room } from "../../types";
+import { setGroupDefaultTemplate } from "../../lib/roomApi";
+
+interface GroupTemplateSectionProps {
+  room: Room;
+  groupId: string;
+}
+
+export default function GroupTemplateSection({
+  room,
+  groupId,
+}: GroupTemplateSectionProps) {
+  const [saving, setSaving] = useState(false);
+
+  const executeSave = async () => {
+    setSaving(true);
+    try {
+      const { error } = await setGroupDefaultTemplate(groupId, room.template);
+      if (error) {
+        Alert.alert("エラー", error.message);
+      } else {
+        Alert.alert("完了", "グループの既定テンプレートを更新しました");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    Alert.alert(
+      "既定テンプレートの更新",
+      "現在の設定をグループの既定テンプレートにします。よろしいですか？",
+      [
+        { text: "キャンセル", style: "cancel" },
+        { text: "更新", onPress: executeSave },
+      ]
+    );
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.openBtn, saving && styles.openBtnDisabled]}
+      onPress={handleSave}
+      disabled={saving}
+    >
+      {saving ? (
+        <ActivityIndicator size="small" color="#ffffff" />
+      ) : (
+        <Text style={styles.openBtnText}>グループの既定テンプレートにする</Text>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  openBtn: {
+    backgroundColor: "#3b82f6",
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  openBtnDisabled: {
+    backgroundColor: "#93c5fd",
+  },
+  openBtnText: {
+    color: "#ffffff",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
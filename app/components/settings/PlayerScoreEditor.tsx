@@ -14,6 +14,7 @@ import {
 } from "react-native";
 import { Variable, GameState, SeatInfo } from "../../types";
 import { forceEditScore } from "../../lib/roomApi";
+import { validateVariableValue } from "../../utils/variableConstraintUtils";
 
 interface PlayerScoreEditorProps {
   roomId: string;
@@ -22,6 +23,8 @@ interface PlayerScoreEditorProps {
   variables: Variable[];
   currentUserId?: string;
   seats: (SeatInfo | null)[];
+  /** 表示中の状態のバージョン（保存時に他の操作で更新されていれば競合にする） */
+  stateVersion?: number;
 }
 
 export default function PlayerScoreEditor({
@@ -31,6 +34,7 @@ export default function PlayerScoreEditor({
   variables,
   currentUserId,
   seats,
+  stateVersion,
 }: PlayerScoreEditorProps) {
   // playerId → variableKey → 入力文字列
   const [editValues, setEditValues] = useState<
@@ -101,6 +105,12 @@ export default function PlayerScoreEditor({
         return;
       }
       if (edited !== current) {
+        // 変数の制約（サーバーと同じ判定）
+        const constraintError = validateVariableValue(v, edited);
+        if (constraintError) {
+          Alert.alert("エラー", constraintError);
+          return;
+        }
         updates[v.key] = edited;
       }
     }
@@ -109,7 +119,13 @@ export default function PlayerScoreEditor({
 
     setSavingPlayer(playerId);
     try {
-      const { error } = await forceEditScore(roomId, playerId, updates, playerDisplayName);
+      const { error } = await forceEditScore(
+        roomId,
+        playerId,
+        updates,
+        playerDisplayName,
+        stateVersion
+      );
       if (error) {
         Alert.alert("エラー", error.message);
       } else {
@@ -1,33 +1,134 @@
 /**
  * 精算設定エディタ
- * 割る数・順位点の設定を行う
+ * 精算対象の変数・割る数・返し・レート・順位点（2〜8人）・
+ * 合計点チェック・同点時の扱い・端数処理の設定を行う
  */
 
 import React, { useState, useEffect, useRef, useCallback } from "react";
-import { View, Text, TextInput, StyleSheet } from "react-native";
-import { SettlementConfig } from "../../types";
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from "react-native";
+import {
+  ComputedVariable,
+  RankBonusTable,
+  SettlementConfig,
+  SettlementRounding,
+  SettlementTieBreak,
+  Variable,
+} from "../../types";
+import { computeInitialValue } from "../../utils/expressionUtils";
+
+const TIE_BREAK_OPTIONS: { value: SettlementTieBreak; label: string }[] = [
+  { value: "reject", label: "精算不可" },
+  { value: "seat_order", label: "起家順" },
+];
+
+const ROUNDING_OPTIONS: { value: SettlementRounding; label: string }[] = [
+  { value: "gosha_rokunyu", label: "五捨六入" },
+  { value: "shisha_gonyu", label: "四捨五入" },
+  { value: "floor", label: "切り捨て" },
+  { value: "none", label: "なし" },
+];
+
+/** 順位点テーブルを設定できる人数 */
+const PLAYER_COUNTS = [2, 3, 4, 5, 6, 7, 8];
+
+/** 人数ごとの編集中の順位点（文字列） */
+type RankInputs = { [playerCount: number]: string[] };
 
 interface SettlementConfigEditorProps {
   config: SettlementConfig;
   onUpdate: (config: SettlementConfig) => void;
-  scoreInitial: number;
+  variables: Variable[];
+  computedVariables?: ComputedVariable[]; // 計算変数も精算対象に選べる
+}
+
+/**
+ * 編集可能な順位点の数
+ * ゼロサム時は最下位を自動計算するため上位のみ、それ以外は全順位
+ */
+function editableCount(playerCount: number, zeroSum: boolean): number {
+  return zeroSum ? playerCount - 1 : playerCount;
+}
+
+/**
+ * 入力値から順位点テーブルを組み立てる（不正な入力があれば null）
+ * ゼロサム時の最下位: -(初期値 × 人数) - (上位の合計)、返し指定時は -(上位の合計)
+ */
+function buildRankBonuses(
+  inputs: RankInputs,
+  zeroSum: boolean,
+  initial: number,
+  hasReturnScore: boolean
+): RankBonusTable | null {
+  const table: RankBonusTable = {};
+  for (const [key, values] of Object.entries(inputs)) {
+    const playerCount = Number(key);
+    const parsed = values.map((s) => parseInt(s, 10));
+    if (parsed.some(isNaN)) return null;
+    if (zeroSum) {
+      const base = hasReturnScore ? 0 : -(initial * playerCount);
+      parsed.push(base - parsed.reduce((a, b) => a + b, 0));
+    }
+    table[playerCount] = parsed;
+  }
+  return table;
+}
+
+/** 設定値から入力用の文字列配列を生成 */
+function toRankInputs(
+  rankBonuses: RankBonusTable,
+  zeroSum: boolean,
+  prev: RankInputs,
+  focused: string | null
+): RankInputs {
+  const inputs: RankInputs = {};
+  for (const playerCount of PLAYER_COUNTS) {
+    const values = rankBonuses[playerCount];
+    if (!values) continue;
+    const count = editableCount(playerCount, zeroSum);
+    inputs[playerCount] = Array.from({ length: count }, (_, i) =>
+      focused === `rank:${playerCount}:${i}` && prev[playerCount]
+        ? prev[playerCount][i]
+        : String(values[i] ?? 0)
+    );
+  }
+  return inputs;
 }
 
 export default function SettlementConfigEditor({
   config,
   onUpdate,
-  scoreInitial,
+  variables,
+  computedVariables = [],
 }: SettlementConfigEditorProps) {
+  const zeroSum = config.zeroSumCheck ?? true;
+  const variableKey = config.variable ?? "score";
+
+  // 対象変数の初期値（計算変数は各変数の初期値から計算）
+  const initialOf = (key: string): number => {
+    const variable = variables.find((v) => v.key === key);
+    if (variable) return variable.initial;
+    const computed = computedVariables.find((v) => v.key === key);
+    return (computed && computeInitialValue(computed, variables)) ?? 0;
+  };
+  const initial = initialOf(variableKey);
+
   const [divider, setDivider] = useState(String(config.divider));
-  // 最下位は自動計算のため、編集可能なのは上位のみ
-  const [rank3, setRank3] = useState(config.rankBonuses[3].slice(0, 2).map(String));
-  const [rank4, setRank4] = useState(config.rankBonuses[4].slice(0, 3).map(String));
+  // 返し・レートは任意項目（空欄 = 未指定）
+  const [returnScore, setReturnScore] = useState(
+    config.returnScore !== undefined ? String(config.returnScore) : ""
+  );
+  const [rate, setRate] = useState(
+    config.rate !== undefined ? String(config.rate) : ""
+  );
+  const [ranks, setRanks] = useState<RankInputs>(() =>
+    toRankInputs(config.rankBonuses, zeroSum, {}, null)
+  );
 
   const focusedField = useRef<string | null>(null);
 
-  // 最下位の順位点を自動計算: -(scoreInitial * 人数) - (上位の合計)
+  // 最下位の順位点を自動計算（表示用）
   const calcLastRankBonus = (upperBonuses: string[], playerCount: number): number => {
-    const total = -(scoreInitial * playerCount);
+    const total = returnScore === "" ? -(initial * playerCount) : 0;
     const upperSum = upperBonuses.reduce((sum, s) => {
       const n = parseInt(s, 10);
       return sum + (isNaN(n) ? 0 : n);
@@ -40,69 +141,192 @@ export default function SettlementConfigEditor({
     if (focusedField.current !== "divider") {
       setDivider(String(config.divider));
     }
-    setRank3((prev) =>
-      config.rankBonuses[3].slice(0, 2).map((v, i) =>
-        focusedField.current === `rank3:${i}` ? prev[i] : String(v)
-      )
-    );
-    setRank4((prev) =>
-      config.rankBonuses[4].slice(0, 3).map((v, i) =>
-        focusedField.current === `rank4:${i}` ? prev[i] : String(v)
+    if (focusedField.current !== "returnScore") {
+      setReturnScore(
+        config.returnScore !== undefined ? String(config.returnScore) : ""
+      );
+    }
+    if (focusedField.current !== "rate") {
+      setRate(config.rate !== undefined ? String(config.rate) : "");
+    }
+    setRanks((prev) =>
+      toRankInputs(
+        config.rankBonuses,
+        config.zeroSumCheck ?? true,
+        prev,
+        focusedField.current
       )
     );
   }, [config]);
 
   const emitUpdate = useCallback(
-    (newDivider: string, newRank3: string[], newRank4: string[]) => {
-      const d = parseInt(newDivider, 10);
+    (next: {
+      divider: string;
+      returnScore: string;
+      rate: string;
+      ranks: RankInputs;
+    }) => {
+      const d = parseInt(next.divider, 10);
       if (isNaN(d) || d < 1) return;
 
-      const r3 = newRank3.map((s) => parseInt(s, 10));
-      const r4 = newRank4.map((s) => parseInt(s, 10));
-      if (r3.some(isNaN) || r4.some(isNaN)) return;
+      const ret = next.returnScore === "" ? undefined : parseInt(next.returnScore, 10);
+      if (ret !== undefined && isNaN(ret)) return;
+
+      const r = next.rate === "" ? undefined : parseFloat(next.rate);
+      if (r !== undefined && (isNaN(r) || r <= 0)) return;
 
-      // 最下位を自動計算して付加
-      const last3 = -(scoreInitial * 3) - r3.reduce((a, b) => a + b, 0);
-      const last4 = -(scoreInitial * 4) - r4.reduce((a, b) => a + b, 0);
+      const rankBonuses = buildRankBonuses(
+        next.ranks,
+        zeroSum,
+        initial,
+        ret !== undefined
+      );
+      if (!rankBonuses) return;
 
+      // 同点時の扱い・端数処理など他の設定は保持する
+      const { returnScore: _omitReturn, rate: _omitRate, ...rest } = config;
       onUpdate({
+        ...rest,
         divider: d,
-        rankBonuses: { 3: [...r3, last3], 4: [...r4, last4] },
+        rankBonuses,
+        ...(ret !== undefined ? { returnScore: ret } : {}),
+        ...(r !== undefined ? { rate: r } : {}),
       });
     },
-    [onUpdate, scoreInitial]
+    [config, onUpdate, zeroSum, initial]
   );
 
+  const current = { divider, returnScore, rate, ranks };
+
   const handleDividerChange = (text: string) => {
     const cleaned = text.replace(/[^0-9]/g, "");
     setDivider(cleaned);
-    emitUpdate(cleaned, rank3, rank4);
+    emitUpdate({ ...current, divider: cleaned });
   };
 
-  const handleRankChange = (
-    group: "rank3" | "rank4",
-    index: number,
-    text: string
-  ) => {
+  const handleReturnScoreChange = (text: string) => {
+    const cleaned = text.replace(/[^0-9]/g, "");
+    setReturnScore(cleaned);
+    emitUpdate({ ...current, returnScore: cleaned });
+  };
+
+  const handleRateChange = (text: string) => {
+    const cleaned = text.replace(/[^0-9.]/g, "");
+    setRate(cleaned);
+    emitUpdate({ ...current, rate: cleaned });
+  };
+
+  const handleRankChange = (playerCount: number, index: number, text: string) => {
     // 負値・空文字・マイナス記号のみ許可
     const cleaned = text.replace(/[^0-9\-]/g, "");
-    if (group === "rank3") {
-      const updated = [...rank3];
-      updated[index] = cleaned;
-      setRank3(updated);
-      emitUpdate(divider, updated, rank4);
-    } else {
-      const updated = [...rank4];
-      updated[index] = cleaned;
-      setRank4(updated);
-      emitUpdate(divider, rank3, updated);
+    const updated = { ...ranks, [playerCount]: [...ranks[playerCount]] };
+    updated[playerCount][index] = cleaned;
+    setRanks(updated);
+    emitUpdate({ ...current, ranks: updated });
+  };
+
+  // 対象変数・合計点チェック・人数テーブルの変更時は順位点テーブルを再構築する
+  const rebuild = (
+    nextVariable: string,
+    nextZeroSum: boolean,
+    nextCounts: number[]
+  ) => {
+    const nextInitial = initialOf(nextVariable);
+    const inputs: RankInputs = {};
+    for (const playerCount of nextCounts) {
+      const existing = config.rankBonuses[playerCount] ?? [];
+      inputs[playerCount] = Array.from(
+        { length: editableCount(playerCount, nextZeroSum) },
+        (_, i) => String(existing[i] ?? 0)
+      );
     }
+    const rankBonuses = buildRankBonuses(
+      inputs,
+      nextZeroSum,
+      nextInitial,
+      config.returnScore !== undefined
+    );
+    if (!rankBonuses) return;
+    onUpdate({
+      ...config,
+      variable: nextVariable,
+      zeroSumCheck: nextZeroSum,
+      rankBonuses,
+    });
   };
 
-  const rankLabels = ["1位", "2位", "3位", "4位"];
+  const enabledCounts = PLAYER_COUNTS.filter((n) => ranks[n] !== undefined);
+
+  const handleVariableChange = (key: string) => {
+    rebuild(key, zeroSum, enabledCounts);
+  };
+
+  const handleZeroSumChange = (value: boolean) => {
+    rebuild(variableKey, value, enabledCounts);
+  };
+
+  const handleTogglePlayerCount = (playerCount: number) => {
+    const nextCounts = enabledCounts.includes(playerCount)
+      ? enabledCounts.filter((n) => n !== playerCount)
+      : [...enabledCounts, playerCount].sort((a, b) => a - b);
+    rebuild(variableKey, zeroSum, nextCounts);
+  };
+
+  const handleTieBreakChange = (value: SettlementTieBreak) => {
+    onUpdate({ ...config, tieBreak: value });
+  };
+
+  const handleRoundingChange = (value: SettlementRounding) => {
+    onUpdate({ ...config, rounding: value });
+  };
+
+  const currentTieBreak = config.tieBreak ?? "reject";
+  const currentRounding = config.rounding ?? "floor";
+
+  /** 選択肢ボタン群の描画 */
+  const renderOptions = <T extends string | number | boolean>(
+    options: { value: T; label: string }[],
+    isSelected: (value: T) => boolean,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.optionRow}>
+      {options.map((opt) => (
+        <TouchableOpacity
+          key={String(opt.value)}
+          style={[
+            styles.optionButton,
+            isSelected(opt.value) && styles.optionButtonSelected,
+          ]}
+          onPress={() => onSelect(opt.value)}
+        >
+          <Text
+            style={[
+              styles.optionText,
+              isSelected(opt.value) && styles.optionTextSelected,
+            ]}
+          >
+            {opt.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
 
   return (
     <View>
+      {/* 精算対象の変数 */}
+      <View style={styles.rankSection}>
+        <Text style={styles.rankTitle}>精算対象の変数</Text>
+        {renderOptions(
+          [
+            ...variables.map((v) => ({ value: v.key, label: v.label })),
+            ...computedVariables.map((v) => ({ value: v.key, label: `${v.label}（計算）` })),
+          ],
+          (value) => value === variableKey,
+          handleVariableChange
+        )}
+      </View>
+
       {/* 割る数 */}
       <View style={styles.row}>
         <Text style={styles.label}>割る数</Text>
@@ -117,54 +341,115 @@ export default function SettlementConfigEditor({
         />
       </View>
 
-      {/* 3人時の順位点 */}
+      {/* 返し（空欄なら順位点に返し・オカを織り込む） */}
+      <View style={styles.row}>
+        <Text style={styles.label}>返し</Text>
+        <TextInput
+          style={styles.numberInput}
+          value={returnScore}
+          onChangeText={handleReturnScoreChange}
+          onFocus={() => { focusedField.current = "returnScore"; }}
+          onBlur={() => { focusedField.current = null; }}
+          keyboardType="number-pad"
+          placeholder="なし"
+          maxLength={7}
+        />
+      </View>
+      {returnScore !== "" && (
+        <Text style={styles.hint}>
+          順位点はウマのみ。オカはトップに加算されます
+        </Text>
+      )}
+
+      {/* レート（割った値 × レートが最終結果） */}
+      <View style={styles.row}>
+        <Text style={styles.label}>レート</Text>
+        <TextInput
+          style={styles.numberInput}
+          value={rate}
+          onChangeText={handleRateChange}
+          onFocus={() => { focusedField.current = "rate"; }}
+          onBlur={() => { focusedField.current = null; }}
+          keyboardType="decimal-pad"
+          placeholder="1"
+          maxLength={8}
+        />
+      </View>
+
+      {/* 合計点チェック */}
       <View style={styles.rankSection}>
-        <Text style={styles.rankTitle}>3人時の順位点</Text>
-        {rank3.map((val, i) => (
-          <View key={`rank3-${i}`} style={styles.rankRow}>
-            <Text style={styles.rankLabel}>{rankLabels[i]}</Text>
-            <TextInput
-              style={styles.numberInput}
-              value={val}
-              onChangeText={(text) => handleRankChange("rank3", i, text)}
-              onFocus={() => { focusedField.current = `rank3:${i}`; }}
-              onBlur={() => { focusedField.current = null; }}
-              keyboardType="numbers-and-punctuation"
-            />
-          </View>
-        ))}
-        {/* 最下位（自動計算・編集不可） */}
-        <View style={styles.rankRow}>
-          <Text style={styles.rankLabel}>{rankLabels[2]}</Text>
-          <Text style={styles.computedValue}>
-            {calcLastRankBonus(rank3, 3)}
-          </Text>
-        </View>
+        <Text style={styles.rankTitle}>合計点チェック（ゼロサム）</Text>
+        {renderOptions(
+          [
+            { value: true, label: "する" },
+            { value: false, label: "しない" },
+          ],
+          (value) => value === zeroSum,
+          handleZeroSumChange
+        )}
       </View>
 
-      {/* 4人時の順位点 */}
+      {/* 順位点テーブルを設定する人数 */}
       <View style={styles.rankSection}>
-        <Text style={styles.rankTitle}>4人時の順位点</Text>
-        {rank4.map((val, i) => (
-          <View key={`rank4-${i}`} style={styles.rankRow}>
-            <Text style={styles.rankLabel}>{rankLabels[i]}</Text>
-            <TextInput
-              style={styles.numberInput}
-              value={val}
-              onChangeText={(text) => handleRankChange("rank4", i, text)}
-              onFocus={() => { focusedField.current = `rank4:${i}`; }}
-              onBlur={() => { focusedField.current = null; }}
-              keyboardType="numbers-and-punctuation"
-            />
-          </View>
-        ))}
-        {/* 最下位（自動計算・編集不可） */}
-        <View style={styles.rankRow}>
-          <Text style={styles.rankLabel}>{rankLabels[3]}</Text>
-          <Text style={styles.computedValue}>
-            {calcLastRankBonus(rank4, 4)}
+        <Text style={styles.rankTitle}>順位点を設定する人数</Text>
+        {renderOptions(
+          PLAYER_COUNTS.map((n) => ({ value: n, label: `${n}人` })),
+          (value) => enabledCounts.includes(value),
+          handleTogglePlayerCount
+        )}
+      </View>
+
+      {/* 人数ごとの順位点 */}
+      {enabledCounts.map((playerCount) => (
+        <View key={playerCount} style={styles.rankSection}>
+          <Text style={styles.rankTitle}>
+            {returnScore === ""
+              ? `${playerCount}人時の順位点`
+              : `${playerCount}人時のウマ`}
           </Text>
+          {ranks[playerCount].map((val, i) => (
+            <View key={`rank-${playerCount}-${i}`} style={styles.rankRow}>
+              <Text style={styles.rankLabel}>{i + 1}位</Text>
+              <TextInput
+                style={styles.numberInput}
+                value={val}
+                onChangeText={(text) => handleRankChange(playerCount, i, text)}
+                onFocus={() => { focusedField.current = `rank:${playerCount}:${i}`; }}
+                onBlur={() => { focusedField.current = null; }}
+                keyboardType="numbers-and-punctuation"
+              />
+            </View>
+          ))}
+          {/* 最下位（ゼロサム時は自動計算・編集不可） */}
+          {zeroSum && (
+            <View style={styles.rankRow}>
+              <Text style={styles.rankLabel}>{playerCount}位</Text>
+              <Text style={styles.computedValue}>
+                {calcLastRankBonus(ranks[playerCount], playerCount)}
+              </Text>
+            </View>
+          )}
         </View>
+      ))}
+
+      {/* 同点時の扱い */}
+      <View style={styles.rankSection}>
+        <Text style={styles.rankTitle}>同点時の扱い</Text>
+        {renderOptions(
+          TIE_BREAK_OPTIONS,
+          (value) => value === currentTieBreak,
+          handleTieBreakChange
+        )}
+      </View>
+
+      {/* 端数処理 */}
+      <View style={styles.rankSection}>
+        <Text style={styles.rankTitle}>端数処理</Text>
+        {renderOptions(
+          ROUNDING_OPTIONS,
+          (value) => value === currentRounding,
+          handleRoundingChange
+        )}
       </View>
     </View>
   );
@@ -217,6 +502,37 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: "#374151",
   },
+  hint: {
+    fontSize: 12,
+    color: "#9ca3af",
+    textAlign: "right",
+  },
+  optionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    paddingLeft: 12,
+  },
+  optionButton: {
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    borderRadius: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: "#f9fafb",
+  },
+  optionButtonSelected: {
+    borderColor: "#3b82f6",
+    backgroundColor: "#eff6ff",
+  },
+  optionText: {
+    fontSize: 14,
+    color: "#374151",
+  },
+  optionTextSelected: {
+    color: "#3b82f6",
+    fontWeight: "600",
+  },
   computedValue: {
     width: 100,
     textAlign: "right",
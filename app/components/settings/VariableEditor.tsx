@@ -1,6 +1,6 @@
 /**
  * 変数設定エディタ
- * 変数の追加・表示名編集・初期値変更・削除を行う
+ * 変数の追加・表示名編集・初期値変更・制約（下限・上限・刻み・負の値）の設定・削除を行う
  */
 
 import React, { useState } from "react";
@@ -12,18 +12,37 @@ import {
   StyleSheet,
   Alert,
 } from "react-native";
-import { Variable, PotAction } from "../../types";
+import {
+  Variable,
+  PotAction,
+  CustomAction,
+  ComputedVariable,
+  NegativePolicy,
+} from "../../types";
 import { parseQuickAmounts } from "../../utils/paymentUtils";
+import { getExpressionVariables, parseExpression } from "../../utils/expressionUtils";
+
+type ConstraintField = "min" | "max" | "step";
+
+const NEGATIVE_POLICY_OPTIONS: { policy: NegativePolicy; label: string }[] = [
+  { policy: "allow", label: "許可" },
+  { policy: "warn", label: "警告（飛び）" },
+  { policy: "forbid", label: "禁止" },
+];
 
 interface VariableEditorProps {
   variables: Variable[];
   potActions?: PotAction[];
+  customActions?: CustomAction[];
+  computedVariables?: ComputedVariable[];
   onUpdate: (variables: Variable[]) => void;
 }
 
 export default function VariableEditor({
   variables,
   potActions = [],
+  customActions = [],
+  computedVariables = [],
   onUpdate,
 }: VariableEditorProps) {
   const [newKey, setNewKey] = useState("");
@@ -85,6 +104,46 @@ export default function VariableEditor({
     return variable.quickAmounts ? variable.quickAmounts.join(", ") : "";
   };
 
+  // 下限・上限・刻みの入力中テキスト（"{key}:{field}" → テキスト、空欄は未設定）
+  const [constraintTexts, setConstraintTexts] = useState<{ [key: string]: string }>({});
+
+  const handleConstraintChange = (index: number, field: ConstraintField, text: string) => {
+    const key = variables[index].key;
+    // 刻みは正の数のみ、下限・上限は先頭のマイナスを許可
+    const sanitized = text.replace(/[^0-9-]/g, "");
+    const cleaned =
+      field === "step"
+        ? sanitized.replace(/-/g, "")
+        : sanitized.charAt(0) + sanitized.slice(1).replace(/-/g, "");
+    setConstraintTexts((prev) => ({ ...prev, [`${key}:${field}`]: cleaned }));
+
+    if (cleaned === "-") return;
+    const num = Number(cleaned);
+    if (isNaN(num)) return;
+    const updated = [...variables];
+    updated[index] = {
+      ...updated[index],
+      [field]: cleaned === "" || (field === "step" && num === 0) ? undefined : num,
+    };
+    onUpdate(updated);
+  };
+
+  const getConstraintText = (variable: Variable, field: ConstraintField): string => {
+    const text = constraintTexts[`${variable.key}:${field}`];
+    if (text !== undefined) return text;
+    const value = variable[field];
+    return value === undefined ? "" : String(value);
+  };
+
+  const handleNegativePolicyChange = (index: number, policy: NegativePolicy) => {
+    const updated = [...variables];
+    updated[index] = {
+      ...updated[index],
+      allowNegative: policy === "allow" ? undefined : policy,
+    };
+    onUpdate(updated);
+  };
+
   const handleDelete = (index: number) => {
     const variable = variables[index];
 
@@ -101,6 +160,36 @@ export default function VariableEditor({
       return;
     }
 
+    // customActionsで使用中かチェック
+    const usedByCustomActions = customActions.filter(
+      (a) => a.legs.some((leg) => leg.variable === variable.key)
+    );
+    if (usedByCustomActions.length > 0) {
+      const actionNames = usedByCustomActions.map((a) => a.label).join(", ");
+      Alert.alert(
+        "削除できません",
+        `この変数はカスタム操作「${actionNames}」で使用されています。先にカスタム操作を削除してください。`
+      );
+      return;
+    }
+
+    // computedVariablesで参照中かチェック（構文エラーの計算式は参照なしとみなす）
+    const usedByComputed = computedVariables.filter((c) => {
+      try {
+        return getExpressionVariables(parseExpression(c.expression)).includes(variable.key);
+      } catch {
+        return false;
+      }
+    });
+    if (usedByComputed.length > 0) {
+      const names = usedByComputed.map((c) => c.label).join(", ");
+      Alert.alert(
+        "削除できません",
+        `この変数は計算変数「${names}」で使用されています。先に計算変数を削除してください。`
+      );
+      return;
+    }
+
     if (variables.length <= 1) {
       Alert.alert("削除できません", "変数は最低1つ必要です。");
       return;
@@ -135,7 +224,10 @@ export default function VariableEditor({
     }
 
     // キーの重複チェック
-    if (variables.some((v) => v.key === key)) {
+    if (
+      variables.some((v) => v.key === key) ||
+      computedVariables.some((c) => c.key === key)
+    ) {
       Alert.alert("エラー", "同じキーの変数が既に存在します。");
       return;
     }
@@ -200,6 +292,46 @@ export default function VariableEditor({
               />
             </View>
           </View>
+          <View style={styles.inputRow}>
+            {(
+              [
+                { field: "min", label: "下限" },
+                { field: "max", label: "上限" },
+                { field: "step", label: "刻み" },
+              ] as { field: ConstraintField; label: string }[]
+            ).map(({ field, label }) => (
+              <View key={field} style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>{label}</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={getConstraintText(variable, field)}
+                  onChangeText={(text) => handleConstraintChange(index, field, text)}
+                  keyboardType="numbers-and-punctuation"
+                  placeholder="なし"
+                  placeholderTextColor="#9ca3af"
+                />
+              </View>
+            ))}
+          </View>
+          <Text style={styles.inputLabel}>負の値</Text>
+          <View style={styles.policyRow}>
+            {NEGATIVE_POLICY_OPTIONS.map(({ policy, label }) => {
+              const selected = (variable.allowNegative ?? "allow") === policy;
+              return (
+                <TouchableOpacity
+                  key={policy}
+                  style={[styles.policyChip, selected && styles.policyChipActive]}
+                  onPress={() => handleNegativePolicyChange(index, policy)}
+                >
+                  <Text
+                    style={[styles.policyChipText, selected && styles.policyChipTextActive]}
+                  >
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
         </View>
       ))}
 
@@ -281,6 +413,30 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginBottom: 8,
   },
+  policyRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  policyChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    backgroundColor: "#ffffff",
+  },
+  policyChipActive: {
+    borderColor: "#3b82f6",
+    backgroundColor: "#eff6ff",
+  },
+  policyChipText: {
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  policyChipTextActive: {
+    color: "#1e40af",
+    fontWeight: "600",
+  },
   keyLabel: {
     fontSize: 12,
     color: "#9ca3af",
@@ -0,0 +1,165 @@
+/**
+ * 通算成績リスト
+ * プレイヤー別の通算成績を順位順にカード表示する（通算成績画面・グループ画面で共通）
+ */
+
+import React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  ScrollView,
+} from "react-native";
+import { formatRankDistribution, getTopRate } from "../../utils/statsUtils";
+import { PlayerStats } from "../../types";
+
+interface PlayerStatsListProps {
+  stats: PlayerStats[];
+  loading: boolean;
+  error: string | null;
+}
+
+function formatSigned(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+export default function PlayerStatsList({
+  stats,
+  loading,
+  error,
+}: PlayerStatsListProps) {
+  if (loading) {
+    return (
+      <View style={styles.emptyState}>
+        <ActivityIndicator size="large" color="#3b82f6" />
+      </View>
+    );
+  }
+
+  if (error || stats.length === 0) {
+    return (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyText}>{error ?? "精算履歴がありません"}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.list}>
+      {stats.map((s, index) => {
+        const topRate = getTopRate(s);
+        return (
+          <View
+            key={s.playerKey}
+            style={[styles.card, s.isMe && styles.cardMe]}
+          >
+            <View style={styles.cardHeader}>
+              <Text style={styles.position}>{index + 1}</Text>
+              <Text style={styles.playerName} numberOfLines={1}>
+                {s.displayName}
+                {s.isGuest ? "（ゲスト）" : ""}
+              </Text>
+              <Text
+                style={[
+                  styles.total,
+                  s.totalResult > 0 && styles.valuePositive,
+                  s.totalResult < 0 && styles.valueNegative,
+                ]}
+              >
+                {formatSigned(s.totalResult)}
+              </Text>
+            </View>
+
+            <View style={styles.detailRow}>
+              <Text style={styles.detailText}>{s.games}戦</Text>
+              <Text style={styles.detailText}>
+                平均順位 {s.averageRank !== null ? s.averageRank.toFixed(2) : "-"}
+              </Text>
+              <Text style={styles.detailText}>
+                1位率 {topRate !== null ? `${topRate}%` : "-"}
+              </Text>
+            </View>
+            {s.games > 0 && (
+              <>
+                <Text style={styles.detailText}>
+                  {formatRankDistribution(s.rankCounts)}
+                </Text>
+                <Text style={styles.detailText}>
+                  最高 {formatSigned(s.bestResult ?? 0)} / 最低{" "}
+                  {formatSigned(s.worstResult ?? 0)}
+                </Text>
+              </>
+            )}
+          </View>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyState: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  emptyText: {
+    fontSize: 16,
+    color: "#9ca3af",
+  },
+  list: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    backgroundColor: "#ffffff",
+    borderRadius: 12,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+  },
+  cardMe: {
+    borderColor: "#3b82f6",
+    borderWidth: 2,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  position: {
+    width: 28,
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#6b7280",
+  },
+  playerName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  total: {
+    fontSize: 18,
+    fontWeight: "bold",
+    fontFamily: "monospace",
+    color: "#1f2937",
+  },
+  valuePositive: {
+    color: "#2563eb",
+  },
+  valueNegative: {
+    color: "#dc2626",
+  },
+  detailRow: {
+    flexDirection: "row",
+    gap: 16,
+    marginBottom: 4,
+  },
+  detailText: {
+    fontSize: 13,
+    color: "#6b7280",
+    marginBottom: 2,
+  },
+});
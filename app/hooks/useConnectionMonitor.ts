@@ -1,18 +1,15 @@
 /**
- * Presence管理・切断検知・タイムアウト処理の中核フック
- * Supabase Presence APIを使用し、DBへの定期書き込みは行わない
+ * Presence管理・切断検知の中核フック
+ * 接続状態の表示は Supabase Presence API で行う。
+ * 強制離席の判定はサーバー側（release_stale_seats）に任せ、ここでは rpc_heartbeat で応答時刻を送るのみ
  */
 
 import { useEffect, useRef, useState, useCallback, useMemo } from "react";
 import { AppState } from "react-native";
 import { supabase } from "../lib/supabase";
-import { forceLeaveSeat } from "../lib/roomApi";
+import { sendHeartbeat } from "../lib/roomApi";
 import { ConnectionStatus, SeatInfo } from "../types";
-import {
-  HEARTBEAT_INTERVAL_MS,
-  GRACE_PERIOD_MS,
-  DEFAULT_FORCE_LEAVE_TIMEOUT_SEC,
-} from "../constants/connection";
+import { HEARTBEAT_INTERVAL_MS, GRACE_PERIOD_MS } from "../constants/connection";
 
 interface UseConnectionMonitorResult {
   connectionStatuses: Map<string, ConnectionStatus>;
@@ -22,10 +19,7 @@ export function useConnectionMonitor(
   roomId: string | null,
   userId: string | null,
   seats: (SeatInfo | null)[],
-  forceLeaveTimeoutSec?: number,
 ): UseConnectionMonitorResult {
-  const forceLeaveMs =
-    (forceLeaveTimeoutSec ?? DEFAULT_FORCE_LEAVE_TIMEOUT_SEC) * 1000;
   const [connectionStatuses, setConnectionStatuses] = useState<
     Map<string, ConnectionStatus>
   >(new Map());
@@ -36,9 +30,6 @@ export function useConnectionMonitor(
   const graceTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(
     new Map()
   );
-  const forceLeaveTimersRef = useRef<
-    Map<string, ReturnType<typeof setTimeout>>
-  >(new Map());
   const heartbeatRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
   const statusesRef = useRef<Map<string, ConnectionStatus>>(new Map());
@@ -63,26 +54,10 @@ export function useConnectionMonitor(
     }
   }, []);
 
-  const clearForceLeaveTimer = useCallback((targetUserId: string) => {
-    const timer = forceLeaveTimersRef.current.get(targetUserId);
-    if (timer) {
-      clearTimeout(timer);
-      forceLeaveTimersRef.current.delete(targetUserId);
-    }
-  }, []);
-
-  const clearAllTimersForUser = useCallback(
-    (targetUserId: string) => {
-      clearGraceTimer(targetUserId);
-      clearForceLeaveTimer(targetUserId);
-    },
-    [clearGraceTimer, clearForceLeaveTimer]
-  );
-
   // ユーザーを「接続中」に設定
   const markConnected = useCallback(
     (targetUserId: string) => {
-      clearAllTimersForUser(targetUserId);
+      clearGraceTimer(targetUserId);
       const status: ConnectionStatus = {
         userId: targetUserId,
         isConnected: true,
@@ -91,12 +66,12 @@ export function useConnectionMonitor(
       statusesRef.current.set(targetUserId, status);
       setConnectionStatuses(new Map(statusesRef.current));
     },
-    [clearAllTimersForUser]
+    [clearGraceTimer]
   );
 
-  // ユーザーを「切断中」に設定し、10分タイマー開始
+  // ユーザーを「切断中」に設定（離席はサーバー側のタイムアウトで行われる）
   const markDisconnected = useCallback(
-    (targetUserId: string, currentRoomId: string) => {
+    (targetUserId: string) => {
       const now = Date.now();
       const status: ConnectionStatus = {
         userId: targetUserId,
@@ -105,26 +80,18 @@ export function useConnectionMonitor(
       };
       statusesRef.current.set(targetUserId, status);
       setConnectionStatuses(new Map(statusesRef.current));
-
-      // 10分強制離席タイマー開始
-      clearForceLeaveTimer(targetUserId);
-      const timer = setTimeout(() => {
-        forceLeaveTimersRef.current.delete(targetUserId);
-        forceLeaveSeat(currentRoomId, targetUserId);
-      }, forceLeaveMs);
-      forceLeaveTimersRef.current.set(targetUserId, timer);
     },
-    [clearForceLeaveTimer, forceLeaveMs]
+    []
   );
 
   // 60秒猶予タイマー開始
   const startGraceTimer = useCallback(
-    (targetUserId: string, currentRoomId: string) => {
+    (targetUserId: string) => {
       clearGraceTimer(targetUserId);
       const timer = setTimeout(() => {
         graceTimersRef.current.delete(targetUserId);
         // 猶予切れ → 切断中に設定
-        markDisconnected(targetUserId, currentRoomId);
+        markDisconnected(targetUserId);
       }, GRACE_PERIOD_MS);
       graceTimersRef.current.set(targetUserId, timer);
     },
@@ -154,7 +121,7 @@ export function useConnectionMonitor(
         // 着席中のユーザーのみ猶予タイマー開始
         const seatedIds = getSeatedUserIds();
         if (seatedIds.has(key)) {
-          startGraceTimer(key, currentRoomId);
+          startGraceTimer(key);
         }
       })
       .on("presence", { event: "sync" }, () => {
@@ -172,7 +139,7 @@ export function useConnectionMonitor(
               !graceTimersRef.current.has(seatedUserId) &&
               (!existing || existing.isConnected)
             ) {
-              startGraceTimer(seatedUserId, currentRoomId);
+              startGraceTimer(seatedUserId);
             }
           } else {
             markConnected(seatedUserId);
@@ -180,6 +147,12 @@ export function useConnectionMonitor(
         }
       });
 
+    // サーバーへの応答時刻の送信（失敗しても次の周期で再送される）
+    const heartbeat = () => {
+      sendHeartbeat(currentRoomId);
+    };
+    heartbeat();
+
     // チャンネル購読 → 自身をtrack
     channel.subscribe(async (status) => {
       if (status === "SUBSCRIBED") {
@@ -192,6 +165,7 @@ export function useConnectionMonitor(
 
     // 30秒ハートビート
     heartbeatRef.current = setInterval(() => {
+      heartbeat();
       channel.track({
         user_id: currentUserId,
         online_at: new Date().toISOString(),
@@ -205,6 +179,7 @@ export function useConnectionMonitor(
       "change",
       (nextAppState) => {
         if (nextAppState === "active" && channelRef.current) {
+          heartbeat();
           channelRef.current.track({
             user_id: currentUserId,
             online_at: new Date().toISOString(),
@@ -221,11 +196,6 @@ export function useConnectionMonitor(
       }
       graceTimersRef.current.clear();
 
-      for (const timer of forceLeaveTimersRef.current.values()) {
-        clearTimeout(timer);
-      }
-      forceLeaveTimersRef.current.clear();
-
       if (heartbeatRef.current) {
         clearInterval(heartbeatRef.current);
         heartbeatRef.current = null;
@@ -240,7 +210,7 @@ export function useConnectionMonitor(
       statusesRef.current.clear();
       setConnectionStatuses(new Map());
     };
-  }, [roomId, userId, forceLeaveMs]);
+  }, [roomId, userId]);
 
   // seats配列を安定したキーにシリアライズ（参照変更による無限ループ防止）
   const seatsKey = useMemo(
@@ -248,7 +218,7 @@ export function useConnectionMonitor(
     [seats]
   );
 
-  // seats変更への追従: 座席から外れたユーザーのタイマーをクリア、statusesから削除
+  // seats変更への追従: 座席から外れたユーザーの猶予タイマーをクリア、statusesから削除
   useEffect(() => {
     const seatedIds = getSeatedUserIds();
     let changed = false;
@@ -256,7 +226,7 @@ export function useConnectionMonitor(
     // statusesに存在するが着席していないユーザーを削除
     for (const uid of statusesRef.current.keys()) {
       if (!seatedIds.has(uid)) {
-        clearAllTimersForUser(uid);
+        clearGraceTimer(uid);
         statusesRef.current.delete(uid);
         changed = true;
       }
@@ -269,16 +239,10 @@ export function useConnectionMonitor(
       }
     }
 
-    for (const uid of forceLeaveTimersRef.current.keys()) {
-      if (!seatedIds.has(uid)) {
-        clearForceLeaveTimer(uid);
-      }
-    }
-
     if (changed) {
       setConnectionStatuses(new Map(statusesRef.current));
     }
-  }, [seatsKey, getSeatedUserIds, clearAllTimersForUser, clearGraceTimer, clearForceLeaveTimer]);
+  }, [seatsKey, getSeatedUserIds, clearGraceTimer]);
 
   return { connectionStatuses };
 }
@@ -53,6 +53,12 @@ export interface DragInteraction {
   containerSize: { width: number; height: number };
   /** 現在のスナップ対象ID（React state、カードのハイライトに使用） */
   snapTargetIdState: string | null;
+  /** 複数選択中の支払い者ID（2人以上選択中にその1人をドラッグすると一括移動） */
+  selectedPayerIds: string[];
+  /** 支払い者の選択を切り替え */
+  togglePayerSelection: (playerId: string) => void;
+  /** 支払い者の選択を解除 */
+  clearPayerSelection: () => void;
 }
 
 /** スナップ判定の閾値 */
@@ -89,11 +95,19 @@ export function useDragInteraction(options: {
   isPotEnabled: boolean;
   isProcessing: boolean;
   onDrop: (fromId: string, toId: string) => void;
+  /** 複数選択した支払い者からのドロップ（未指定なら複数選択は無効） */
+  onMultiDrop?: (fromIds: string[], toId: string) => void;
   onSnapEnter?: (targetId: string) => void;
   onSnapExit?: () => void;
 }): DragInteraction {
-  const { isPotEnabled, isProcessing, onDrop, onSnapEnter, onSnapExit } =
-    options;
+  const {
+    isPotEnabled,
+    isProcessing,
+    onDrop,
+    onMultiDrop,
+    onSnapEnter,
+    onSnapExit,
+  } = options;
 
   // --- Shared values (worklet で操作可能、60fps) ---
   const startX = useSharedValue(0);
@@ -109,6 +123,7 @@ export function useDragInteraction(options: {
     null
   );
   const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+  const [selectedPayerIds, setSelectedPayerIds] = useState<string[]>([]);
 
   // --- Ref (高速アクセス) ---
   const containerOffsetRef = useRef({ x: 0, y: 0 });
@@ -116,6 +131,9 @@ export function useDragInteraction(options: {
   const potPositionRef = useRef<TargetPosition>({ x: 0, y: 0 });
   const fromPlayerIdRef = useRef<string | null>(null);
   const currentSnapRef = useRef<string | null>(null);
+  const selectedPayerIdsRef = useRef<string[]>([]);
+  /** 一括移動のドラッグ中は選択中の支払い者全員（通常のドラッグでは null） */
+  const dragGroupRef = useRef<string[] | null>(null);
 
   // --- コンテナレイアウト ---
   const onContainerLayout = useCallback((layout: LayoutRectangle) => {
@@ -142,6 +160,25 @@ export function useDragInteraction(options: {
     potPositionRef.current = { x: absX, y: absY };
   }, []);
 
+  // --- 支払い者の複数選択 ---
+  const togglePayerSelection = useCallback(
+    (playerId: string) => {
+      if (!onMultiDrop || playerId === "__pot__") return;
+      const prev = selectedPayerIdsRef.current;
+      const next = prev.includes(playerId)
+        ? prev.filter((id) => id !== playerId)
+        : [...prev, playerId];
+      selectedPayerIdsRef.current = next;
+      setSelectedPayerIds(next);
+    },
+    [onMultiDrop]
+  );
+
+  const clearPayerSelection = useCallback(() => {
+    selectedPayerIdsRef.current = [];
+    setSelectedPayerIds([]);
+  }, []);
+
   // --- 絶対座標 → コンテナ相対座標 ---
   const toRelative = useCallback(
     (absX: number, absY: number) => ({
@@ -156,7 +193,7 @@ export function useDragInteraction(options: {
     (
       relX: number,
       relY: number,
-      excludeId: string | null
+      excludeIds: string[]
     ): { id: string; distance: number; relPos: TargetPosition } | null => {
       let nearest: {
         id: string;
@@ -166,7 +203,7 @@ export function useDragInteraction(options: {
 
       // プレイヤーカード
       for (const [id, absPos] of Object.entries(cardPositionsRef.current)) {
-        if (id === excludeId) continue;
+        if (excludeIds.includes(id)) continue;
         const rel = toRelative(absPos.x, absPos.y);
         const dist = Math.sqrt(
           Math.pow(relX - rel.x, 2) + Math.pow(relY - rel.y, 2)
@@ -177,7 +214,7 @@ export function useDragInteraction(options: {
       }
 
       // Pot
-      if (isPotEnabled && excludeId !== "__pot__") {
+      if (isPotEnabled && !excludeIds.includes("__pot__")) {
         const potRel = toRelative(
           potPositionRef.current.x,
           potPositionRef.current.y
@@ -209,6 +246,10 @@ export function useDragInteraction(options: {
       snapTargetId.value = "";
 
       fromPlayerIdRef.current = playerId;
+      // 選択中の2人以上のうち1人をドラッグした場合は一括移動
+      const selected = selectedPayerIdsRef.current;
+      dragGroupRef.current =
+        selected.length >= 2 && selected.includes(playerId) ? selected : null;
       currentSnapRef.current = null;
       setFromPlayerId(playerId);
       setSnapTargetIdState(null);
@@ -217,17 +258,19 @@ export function useDragInteraction(options: {
     [isProcessing, toRelative, startX, startY, currentX, currentY, snapTargetId]
   );
 
+  // --- ドロップ先から除外するID（ドラッグ元、一括移動中は選択中の全員） ---
+  const getExcludeIds = useCallback((): string[] => {
+    if (dragGroupRef.current) return dragGroupRef.current;
+    return fromPlayerIdRef.current ? [fromPlayerIdRef.current] : [];
+  }, []);
+
   // --- ドラッグ更新 ---
   const handleDragUpdate = useCallback(
     (absX: number, absY: number) => {
       const rel = toRelative(absX, absY);
 
       // 最近接ターゲット判定
-      const nearest = findNearestTarget(
-        rel.x,
-        rel.y,
-        fromPlayerIdRef.current
-      );
+      const nearest = findNearestTarget(rel.x, rel.y, getExcludeIds());
       const prevSnap = currentSnapRef.current;
 
       if (nearest) {
@@ -272,6 +315,7 @@ export function useDragInteraction(options: {
     [
       toRelative,
       findNearestTarget,
+      getExcludeIds,
       currentX,
       currentY,
       snapTargetId,
@@ -297,7 +341,7 @@ export function useDragInteraction(options: {
 
       if (!dropTarget) {
         // スナップなしの場合も従来の距離判定
-        const nearest = findNearestTarget(rel.x, rel.y, fromId);
+        const nearest = findNearestTarget(rel.x, rel.y, getExcludeIds());
         if (nearest && nearest.distance < DROP_RADIUS) {
           dropTarget = nearest.id;
         }
@@ -306,14 +350,23 @@ export function useDragInteraction(options: {
       if (dropTarget) {
         // ドロップ成功
         hapticDropSuccess();
-        onDrop(fromId, dropTarget);
+        const group = dragGroupRef.current;
+        if (group && onMultiDrop) {
+          onMultiDrop(group, dropTarget);
+          selectedPayerIdsRef.current = [];
+          setSelectedPayerIds([]);
+        } else {
+          onDrop(fromId, dropTarget);
+        }
+        dragGroupRef.current = null;
         setPhase("idle");
         setFromPlayerId(null);
         setSnapTargetIdState(null);
         currentSnapRef.current = null;
         snapTargetId.value = "";
       } else {
-        // キャンセル: ゴムバンド収縮アニメーション
+        // キャンセル: ゴムバンド収縮アニメーション（選択は維持）
+        dragGroupRef.current = null;
         setSnapTargetIdState(null);
         currentSnapRef.current = null;
         snapTargetId.value = "";
@@ -335,7 +388,9 @@ export function useDragInteraction(options: {
     [
       toRelative,
       findNearestTarget,
+      getExcludeIds,
       onDrop,
+      onMultiDrop,
       startX,
       startY,
       currentX,
@@ -364,5 +419,8 @@ export function useDragInteraction(options: {
     setContainerOffset: setContainerOffsetFn,
     containerSize,
     snapTargetIdState,
+    selectedPayerIds,
+    togglePayerSelection,
+    clearPayerSelection,
   };
 }
@@ -8,7 +8,10 @@ import { Alert, Platform } from "react-native";
 import * as Haptics from "expo-haptics";
 import {
   joinGame,
+  leaveGame,
   transferScore,
+  transferMulti,
+  NETWORK_ERROR_CODE,
   joinSeat,
   joinFakeSeat,
   reseatFakePlayer,
@@ -16,16 +19,37 @@ import {
   leaveSeat,
   rollbackTo,
   undoLast,
+  redoLast,
   saveSettlement,
   fetchSettlements,
   renameFakePlayer,
+  advanceRound,
+  resetRound,
+  applyWin,
+  applyDraw,
+  runCustomAction,
 } from "../lib/roomApi";
-import { supabase } from "../lib/supabase";
 import {
   canExecuteSettlement,
+  getSettlementSeats,
   executeSettlement,
 } from "../utils/settlementUtils";
-import { Room, User } from "../types";
+import { createEmptySeats } from "../utils/seatUtils";
+import { getRoundState } from "../utils/roundUtils";
+import { detectBusts, formatBust } from "../utils/variableConstraintUtils";
+import { createOperationId, hashGameState } from "../utils/offlineQueueUtils";
+import {
+  GameState,
+  QueuedOperation,
+  Room,
+  RoundResult,
+  TransferLeg,
+  User,
+  WinDetail,
+} from "../types";
+
+// 送信に成功した楽観的な移動が Realtime で確定しないとき、ルームを取得し直すまでの時間（ms）
+const OPTIMISTIC_RECONCILE_TIMEOUT_MS = 5_000;
 
 // ── インターフェース ──
 
@@ -35,6 +59,19 @@ export interface UseGameActionsParams {
   isHost: boolean;
   showToast: (type: "success" | "error", msg: string) => void;
   applyRoom: (room: Room) => void;
+  /** ルームを取得し直す（楽観的な移動が Realtime で確定しないときに使う） */
+  refetch?: () => Promise<void>;
+  /** Realtime 切断中か（true ならスコア移動を送信待ちに追加する） */
+  isOffline?: boolean;
+  /** スコア移動を送信待ちに追加（useOperationQueue） */
+  enqueueTransfer?: (
+    fromId: string,
+    toId: string,
+    transfers: { variable: string; amount: number }[],
+    fromName?: string,
+    toName?: string,
+    operationId?: string
+  ) => Promise<void>;
 }
 
 export interface UseGameActionsResult {
@@ -42,6 +79,8 @@ export interface UseGameActionsResult {
   isJoining: boolean;
   joiningGuestSeats: Set<number>;
   settlementCount: number;
+  /** 送信済みでサーバーの確定（Realtime の更新）を待っているスコア移動 */
+  optimisticOperations: QueuedOperation[];
   handleJoinSeat: (seatIndex: number) => Promise<void>;
   handleJoinFakeSeat: (seatIndex: number) => Promise<void>;
   handleLeaveSeat: () => void;
@@ -52,8 +91,23 @@ export interface UseGameActionsResult {
     toId: string,
     transfers: { variable: string; amount: number }[]
   ) => Promise<void>;
+  handleTransferMulti: (legs: TransferLeg[]) => Promise<void>;
+  /** 記録できたら true（失敗時はトースト表示済み） */
+  handleApplyWin: (
+    winnerId: string,
+    payments: { from: string; amount: number }[],
+    detail: WinDetail,
+    collectPot: boolean,
+    advanceRound?: boolean
+  ) => Promise<boolean>;
+  /** 記録できたら true（失敗時はトースト表示済み） */
+  handleApplyDraw: (tenpaiIds: string[], advanceRound?: boolean) => Promise<boolean>;
+  handleRunCustomAction: (actionId: string, actorId: string) => Promise<void>;
   handleRollback: (historyId: string) => Promise<void>;
   handleUndo: () => Promise<void>;
+  handleRedo: () => Promise<void>;
+  handleAdvanceRound: (result: RoundResult, dealerTenpai?: boolean) => Promise<void>;
+  handleResetRound: (startSeat: number) => Promise<void>;
   handleSettlement: () => void;
   handleJoinGame: () => Promise<void>;
   handleLeaveGame: () => void;
@@ -68,12 +122,23 @@ export function useGameActions({
   isHost,
   showToast,
   applyRoom,
+  refetch,
+  isOffline = false,
+  enqueueTransfer,
 }: UseGameActionsParams): UseGameActionsResult {
   const [isProcessing, setIsProcessing] = useState(false);
   const [isJoining, setIsJoining] = useState(false);
   const [joiningGuestSeats, setJoiningGuestSeats] = useState<Set<number>>(new Set());
   const guestSeatQueueRef = useRef<Promise<void>>(Promise.resolve());
   const [settlementCount, setSettlementCount] = useState(0);
+  const [optimisticOperations, setOptimisticOperations] = useState<QueuedOperation[]>([]);
+  const reconcileTimersRef = useRef<Set<ReturnType<typeof setTimeout>>>(new Set());
+  // 送信に成功した楽観的な移動の操作ID → サーバーで反映された state_version
+  const confirmedVersionsRef = useRef<Map<string, number>>(new Map());
+  const stateVersionRef = useRef(room?.state_version);
+  stateVersionRef.current = room?.state_version;
+  const optimisticOperationsRef = useRef(optimisticOperations);
+  optimisticOperationsRef.current = optimisticOperations;
 
   // 精算件数を取得（room更新時に再取得）
   const latestLogId = room?.current_state?.__recent_log__?.slice(-1)?.[0]?.id;
@@ -84,6 +149,60 @@ export function useGameActions({
     });
   }, [room?.id, latestLogId]);
 
+  // 楽観的な移動の確定: 直近ログに自分の操作IDが現れるか、手元のルームが
+  // 移動を反映したバージョンに達したら、サーバーの状態に反映済みとして取り除く
+  const recentLog = room?.current_state?.__recent_log__;
+  const stateVersion = room?.state_version;
+  useEffect(() => {
+    const confirmed = new Set(recentLog?.map((entry) => entry.clientOpId));
+    for (const [id, version] of confirmedVersionsRef.current) {
+      if (stateVersion != null && stateVersion >= version) {
+        confirmed.add(id);
+        confirmedVersionsRef.current.delete(id);
+      }
+    }
+    setOptimisticOperations((prev) => {
+      const next = prev.filter((op) => !confirmed.has(op.id));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [recentLog, stateVersion]);
+
+  useEffect(() => {
+    const timers = reconcileTimersRef.current;
+    return () => {
+      timers.forEach(clearTimeout);
+      timers.clear();
+    };
+  }, []);
+
+  const removeOptimisticOperation = useCallback((id: string) => {
+    confirmedVersionsRef.current.delete(id);
+    setOptimisticOperations((prev) => prev.filter((op) => op.id !== id));
+  }, []);
+
+  // 送信に成功した楽観的な移動の確定を待つ（Realtime の更新が届かなければ取得し直す）
+  const awaitOptimisticConfirmation = useCallback(
+    (id: string, version: number | null) => {
+      if (version != null) {
+        if (stateVersionRef.current != null && stateVersionRef.current >= version) {
+          removeOptimisticOperation(id);
+          return;
+        }
+        confirmedVersionsRef.current.set(id, version);
+      }
+
+      const timer = setTimeout(async () => {
+        reconcileTimersRef.current.delete(timer);
+        if (!refetch || !optimisticOperationsRef.current.some((op) => op.id === id)) return;
+        await refetch();
+        // 反映後のバージョンが分からない場合は、応答後に取得した状態に含まれているとみなす
+        if (version == null) removeOptimisticOperation(id);
+      }, OPTIMISTIC_RECONCILE_TIMEOUT_MS);
+      reconcileTimersRef.current.add(timer);
+    },
+    [refetch, removeOptimisticOperation]
+  );
+
   // 精算完了時にカウントを更新
   const handleSettlementComplete = useCallback(async () => {
     if (!room?.id) return;
@@ -273,16 +392,93 @@ export function useGameActions({
       const fromName = getDisplayName(fromId);
       const toName = getDisplayName(toId);
 
+      // 送信待ちにも同じ操作IDで積み、最初の送信が届いていた場合の二重適用をサーバー側で防ぐ
+      const clientOpId = createOperationId();
+      const enqueue = async () => {
+        await enqueueTransfer!(fromId, toId, transfers, fromName, toName, clientOpId);
+        showToast("success", "オフラインのため送信待ちに追加しました");
+      };
+
+      if (isOffline && enqueueTransfer) {
+        try {
+          await enqueue();
+        } finally {
+          setIsProcessing(false);
+        }
+        return;
+      }
+
+      // 応答を待たずに画面へ反映し、操作IDを含む Realtime の更新で確定する
+      setOptimisticOperations((prev) => [
+        ...prev,
+        {
+          id: clientOpId,
+          type: "transfer",
+          fromId,
+          toId,
+          transfers,
+          fromName,
+          toName,
+          baseHash: hashGameState(room.current_state),
+          createdAt: Date.now(),
+        },
+      ]);
+
       try {
-        const { error } = await transferScore(
+        const { version, error } = await transferScore(
           room.id,
           fromId,
           toId,
           transfers,
           fromName,
-          toName
+          toName,
+          clientOpId
         );
 
+        if (error) {
+          // 失敗した移動は取り消す（通信エラーなら送信待ちとして積み直す）
+          removeOptimisticOperation(clientOpId);
+          if (error.code === NETWORK_ERROR_CODE && enqueueTransfer) {
+            await enqueue();
+          } else {
+            showToast("error", error.message);
+          }
+          return;
+        }
+
+        awaitOptimisticConfirmation(clientOpId, version);
+
+        showToast("success", "支払いが完了しました");
+      } catch (error) {
+        console.error("Error transferring score:", error);
+        removeOptimisticOperation(clientOpId);
+        showToast("error", "スコアの移動に失敗しました");
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [
+      room,
+      isProcessing,
+      showToast,
+      isOffline,
+      enqueueTransfer,
+      removeOptimisticOperation,
+      awaitOptimisticConfirmation,
+    ]
+  );
+
+  // 一括移動ハンドラー（複数人の支払いを1操作で記録）
+  const handleTransferMulti = useCallback(
+    async (legs: TransferLeg[]) => {
+      if (!room || isProcessing) return;
+      const validLegs = legs.filter((leg) => leg.from !== leg.to);
+      if (validLegs.length === 0) return;
+      setIsProcessing(true);
+
+      try {
+        const { error } = await transferMulti(room.id, validLegs);
+
         if (error) {
           showToast("error", error.message);
           return;
@@ -299,6 +495,100 @@ export function useGameActions({
     [room, isProcessing, showToast]
   );
 
+  // 和了の支払いハンドラー（全員分の支払い + 供託回収を1操作で記録）
+  const handleApplyWin = useCallback(
+    async (
+      winnerId: string,
+      payments: { from: string; amount: number }[],
+      detail: WinDetail,
+      collectPot: boolean,
+      advanceRound: boolean = false
+    ) => {
+      if (!room || isProcessing) return false;
+      if (payments.length === 0) return false;
+      setIsProcessing(true);
+
+      try {
+        const { error } = await applyWin(
+          room.id,
+          winnerId,
+          payments,
+          detail,
+          collectPot,
+          advanceRound
+        );
+
+        if (error) {
+          showToast("error", error.message);
+          return false;
+        }
+
+        showToast("success", "アガリを記録しました");
+        return true;
+      } catch (error) {
+        console.error("Error applying win:", error);
+        showToast("error", "アガリの記録に失敗しました");
+        return false;
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [room, isProcessing, showToast]
+  );
+
+  // 流局ハンドラー（ノーテン罰符と局進行を1操作で記録）
+  const handleApplyDraw = useCallback(
+    async (tenpaiIds: string[], advanceRound: boolean = false) => {
+      if (!room || isProcessing) return false;
+      setIsProcessing(true);
+
+      try {
+        const { error } = await applyDraw(room.id, tenpaiIds, advanceRound);
+
+        if (error) {
+          showToast("error", error.message);
+          return false;
+        }
+
+        showToast("success", "流局を記録しました");
+        return true;
+      } catch (error) {
+        console.error("Error applying draw:", error);
+        showToast("error", "流局の記録に失敗しました");
+        return false;
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [room, isProcessing, showToast]
+  );
+
+  // カスタム操作ハンドラー（テンプレートの定義をサーバー側で評価）
+  const handleRunCustomAction = useCallback(
+    async (actionId: string, actorId: string) => {
+      if (!room || isProcessing) return;
+      setIsProcessing(true);
+
+      try {
+        const { error } = await runCustomAction(room.id, actionId, actorId);
+
+        if (error) {
+          showToast("error", error.message);
+          return;
+        }
+
+        const label = room.template.customActions?.find((a) => a.id === actionId)?.label;
+        showToast("success", label ? `${label}を実行しました` : "操作を実行しました");
+      } catch (error) {
+        console.error("Error running custom action:", error);
+        showToast("error", "操作の実行に失敗しました");
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [room, isProcessing, showToast]
+  );
+
   // ロールバックハンドラー
   const handleRollback = useCallback(
     async (historyId: string) => {
@@ -332,14 +622,74 @@ export function useGameActions({
     }
   }, [room, showToast]);
 
+  // Redoハンドラー
+  const handleRedo = useCallback(async () => {
+    if (!room) return;
+
+    try {
+      const { error } = await redoLast(room.id);
+      if (error) {
+        showToast("error", error.message);
+      }
+    } catch (error) {
+      console.error("Error redoing:", error);
+      showToast("error", "やり直しに失敗しました");
+    }
+  }, [room, showToast]);
+
+  // 局進行ハンドラー
+  const handleAdvanceRound = useCallback(
+    async (result: RoundResult, dealerTenpai: boolean = true) => {
+      if (!room) return;
+
+      try {
+        const { error } = await advanceRound(room.id, result, dealerTenpai);
+        if (error) {
+          showToast("error", error.message);
+        }
+      } catch (error) {
+        console.error("Error advancing round:", error);
+        showToast("error", "局の進行に失敗しました");
+      }
+    },
+    [room, showToast]
+  );
+
+  // 局リセットハンドラー（起家を指定して東1局へ）
+  const handleResetRound = useCallback(
+    async (startSeat: number) => {
+      if (!room) return;
+
+      try {
+        const { error } = await resetRound(room.id, startSeat);
+        if (error) {
+          showToast("error", error.message);
+        }
+      } catch (error) {
+        console.error("Error resetting round:", error);
+        showToast("error", "局のリセットに失敗しました");
+      }
+    },
+    [room, showToast]
+  );
+
   // 精算ハンドラー
   const handleSettlement = useCallback(() => {
     if (!room) return;
 
+    // リストモードは座席を使わないため、参加中の全プレイヤーを精算対象とする
+    const settlementSeats = getSettlementSeats(
+      room.current_state,
+      room.seats || createEmptySeats(room.template.maxPlayers),
+      room.template.layoutMode
+    );
+
     const { canExecute, reason } = canExecuteSettlement(
       room.current_state,
-      room.seats || [null, null, null, null],
-      room.template.variables
+      settlementSeats,
+      room.template.variables,
+      room.template.settlementConfig,
+      room.template.computedVariables
     );
 
     if (!canExecute) {
@@ -362,11 +712,18 @@ export function useGameActions({
                 return;
               }
 
+              // 麻雀モードは同点時の座席順を起家から数える
+              const startingSeatIndex =
+                room.template.layoutMode === "mahjong"
+                  ? getRoundState(room.current_state).startSeat
+                  : 0;
               const settlement = executeSettlement(
                 room.current_state,
-                room.seats || [null, null, null, null],
+                settlementSeats,
                 config,
-                room.template.variables
+                room.template.variables,
+                startingSeatIndex,
+                room.template.computedVariables
               );
 
               const { error } = await saveSettlement(room.id, settlement);
@@ -388,6 +745,24 @@ export function useGameActions({
     );
   }, [room, showToast, handleSettlementComplete]);
 
+  // 飛び検出: 状態の更新で allowNegative: "warn" の変数が負になったら通知
+  // endOnBust が有効ならホストに精算を促す
+  const prevStateRef = useRef<{ roomId: string; state: GameState } | null>(null);
+  useEffect(() => {
+    if (!room?.current_state) return;
+    const prev = prevStateRef.current;
+    prevStateRef.current = { roomId: room.id, state: room.current_state };
+    if (!prev || prev.roomId !== room.id) return;
+
+    const busts = detectBusts(prev.state, room.current_state, room.template.variables);
+    if (busts.length === 0) return;
+
+    showToast("error", `飛び: ${busts.map(formatBust).join("、")}`);
+    if (room.template.endOnBust && isHost) {
+      handleSettlement();
+    }
+  }, [room?.id, room?.current_state]); // eslint-disable-line react-hooks/exhaustive-deps
+
   // ゲーム参加ハンドラー（リストモード用）
   const handleJoinGame = useCallback(async () => {
     if (!room || !user) return;
@@ -414,13 +789,7 @@ export function useGameActions({
         style: "destructive",
         onPress: async () => {
           try {
-            const currentState = { ...room.current_state };
-            delete currentState[user.id];
-
-            const { error } = await supabase
-              .from("rooms")
-              .update({ current_state: currentState })
-              .eq("id", room.id);
+            const { error } = await leaveGame(room.id);
 
             if (error) {
               throw error;
@@ -439,14 +808,22 @@ export function useGameActions({
     isJoining,
     joiningGuestSeats,
     settlementCount,
+    optimisticOperations,
     handleJoinSeat,
     handleJoinFakeSeat,
     handleLeaveSeat,
     handleForceLeave,
     handleRenameGuest,
     handleTransfer,
+    handleTransferMulti,
+    handleApplyWin,
+    handleApplyDraw,
+    handleRunCustomAction,
     handleRollback,
     handleUndo,
+    handleRedo,
+    handleAdvanceRound,
+    handleResetRound,
     handleSettlement,
     handleJoinGame,
     handleLeaveGame,
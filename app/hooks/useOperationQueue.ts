@@ -0,0 +1,174 @@
+/**
+ * オフライン操作キューフック
+ * Realtime 切断中のスコア移動を AsyncStorage に保存し、再接続時に古い順に送信し直す
+ */
+
+import { useEffect, useCallback, useState, useRef } from "react";
+import { transferScore, NETWORK_ERROR_CODE } from "../lib/roomApi";
+import { loadQueuedOperations, saveQueuedOperations } from "../lib/operationQueue";
+import {
+  applyQueuedOperation,
+  applyQueuedOperations,
+  createOperationId,
+  hashGameState,
+  validateQueuedOperation,
+} from "../utils/offlineQueueUtils";
+import { QueuedOperation, Room } from "../types";
+
+// ── インターフェース ──
+
+interface UseOperationQueueParams {
+  room: Room | null;
+  isOffline: boolean;
+  showToast: (type: "success" | "error", msg: string) => void;
+}
+
+interface UseOperationQueueResult {
+  /** 送信待ちの操作（古い順） */
+  pendingOperations: QueuedOperation[];
+  /**
+   * スコア移動を送信待ちに追加
+   * 送信を試みた操作は同じ操作IDで積む（サーバーに届いていても再送で二重に適用されない）
+   */
+  enqueueTransfer: (
+    fromId: string,
+    toId: string,
+    transfers: { variable: string; amount: number }[],
+    fromName?: string,
+    toName?: string,
+    operationId?: string
+  ) => Promise<void>;
+}
+
+// ── フック本体 ──
+
+export function useOperationQueue({
+  room,
+  isOffline,
+  showToast,
+}: UseOperationQueueParams): UseOperationQueueResult {
+  const roomId = room?.id ?? null;
+  const [pendingOperations, setPendingOperations] = useState<QueuedOperation[]>([]);
+  // 非同期処理から最新の値を参照するための ref
+  const queueRef = useRef<QueuedOperation[]>([]);
+  const roomRef = useRef(room);
+  roomRef.current = room;
+  const replayingRef = useRef(false);
+
+  const updateQueue = useCallback(
+    (operations: QueuedOperation[]) => {
+      queueRef.current = operations;
+      setPendingOperations(operations);
+      if (!roomId) return;
+      saveQueuedOperations(roomId, operations).then(({ error }) => {
+        if (error) showToast("error", "送信待ちの操作を端末に保存できませんでした");
+      });
+    },
+    [roomId, showToast]
+  );
+
+  // ルームごとに保存済みの送信待ち操作を復元（アプリ再起動後も残す）
+  useEffect(() => {
+    if (!roomId) return;
+    let cancelled = false;
+    loadQueuedOperations(roomId).then((operations) => {
+      if (cancelled) return;
+      queueRef.current = operations;
+      setPendingOperations(operations);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId]);
+
+  const enqueueTransfer = useCallback(
+    async (
+      fromId: string,
+      toId: string,
+      transfers: { variable: string; amount: number }[],
+      fromName?: string,
+      toName?: string,
+      operationId: string = createOperationId()
+    ) => {
+      const current = roomRef.current;
+      if (!current) return;
+      // 先に送信待ちの操作を反映した状態（画面に表示している状態）を基準にする
+      const baseState = applyQueuedOperations(current.current_state, queueRef.current);
+      updateQueue([
+        ...queueRef.current,
+        {
+          id: operationId,
+          type: "transfer",
+          fromId,
+          toId,
+          transfers,
+          fromName,
+          toName,
+          baseHash: hashGameState(baseState),
+          createdAt: Date.now(),
+        },
+      ]);
+    },
+    [updateQueue]
+  );
+
+  // 再送: 古い順に1件ずつ送り、通信エラーなら残りを次の再接続まで保持する
+  // 通信エラーでは届いたかどうか分からないが、操作IDでサーバー側が重複を除くため同じ操作を送り直してよい
+  // 送信中にも操作が積まれることがあるため、送り終えた操作だけを最新の送信待ちから取り除く
+  const replay = useCallback(async () => {
+    if (replayingRef.current || !roomRef.current) return;
+    replayingRef.current = true;
+    try {
+      let state = roomRef.current.current_state;
+      while (queueRef.current.length > 0) {
+        const current = roomRef.current;
+        if (!current) break;
+        const op = queueRef.current[0];
+        const removeSent = () =>
+          updateQueue(queueRef.current.filter((o) => o.id !== op.id));
+
+        const conflict = validateQueuedOperation(op, { ...current, current_state: state });
+        if (conflict) {
+          showToast("error", `送信待ちの操作を取り消しました: ${conflict}`);
+          removeSent();
+          continue;
+        }
+
+        const { error } = await transferScore(
+          current.id,
+          op.fromId,
+          op.toId,
+          op.transfers,
+          op.fromName,
+          op.toName,
+          op.id
+        );
+        if (error?.code === NETWORK_ERROR_CODE) break;
+        if (error) {
+          showToast("error", `送信待ちの操作を取り消しました: ${error.message}`);
+        } else {
+          state = applyQueuedOperation(state, op);
+        }
+        removeSent();
+      }
+    } finally {
+      replayingRef.current = false;
+    }
+  }, [showToast, updateQueue]);
+
+  // 切断中に見ていたルーム（再接続後の再取得で置き換わるまでは古い状態）
+  const offlineRoomRef = useRef<Room | null>(null);
+  useEffect(() => {
+    if (isOffline) offlineRoomRef.current = room;
+  }, [isOffline, room]);
+
+  // 再接続したら送信待ちの操作を送る
+  // 切断中の変更（退出など）を取り込む前に競合判定しないよう、最新の状態を受け取るまで待つ
+  useEffect(() => {
+    if (isOffline || pendingOperations.length === 0) return;
+    if (room === offlineRoomRef.current) return;
+    replay();
+  }, [isOffline, pendingOperations.length, room, replay]);
+
+  return { pendingOperations, enqueueTransfer };
+}
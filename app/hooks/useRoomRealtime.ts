@@ -6,12 +6,50 @@
 import { useEffect, useState, useCallback, useRef } from "react";
 import { AppState } from "react-native";
 import { supabase } from "../lib/supabase";
-import { Room } from "../types";
+import {
+  RoomDiffChannelStatus,
+  resubscribeRoomDiff,
+  subscribeRoomDiff,
+} from "../lib/roomDiffChannel";
+import { Room, RoomDiff } from "../types";
 import { migrateTemplate } from "../utils/roomUtils";
+import { applyRoomDiff, getRoomDiffStatus } from "../utils/roomDiffUtils";
 
 // roomId が解決しないまま放置された場合のタイムアウト（ms）
 const ROOM_ID_RESOLVE_TIMEOUT_MS = 5_000;
 
+/**
+ * 受け取ったルームが手元より古いか（state_version で判定）
+ * Realtime の更新や API の応答は前後して届くことがあるため、古いものは適用しない。
+ * state_version の無いルーム（033 以前）は常に新しいものとして扱う
+ */
+function isOlderRoom(next: Room, current: Room | null): boolean {
+  if (!current || current.id !== next.id) return false;
+  if (next.state_version == null || current.state_version == null) return false;
+  return next.state_version < current.state_version;
+}
+
+/**
+ * 差分をバージョン順に適用する（古いものは捨て、バージョンが飛んだところで止める）
+ * @returns 適用後のルームと、取りこぼしがあったかどうか
+ */
+function applyRoomDiffs(room: Room, diffs: RoomDiff[]): { room: Room; gap: boolean } {
+  let next = room;
+  for (const diff of [...diffs].sort((a, b) => a.version - b.version)) {
+    const status = getRoomDiffStatus(next, diff);
+    if (status === "stale") continue;
+    if (status === "gap") return { room: next, gap: true };
+    next = applyRoomDiff(next, diff);
+    if (diff.columns?.template) next.template = migrateTemplate(next.template);
+  }
+  return { room: next, gap: false };
+}
+
+// 古いルームで上書きしない setRoom 用の更新関数
+function keepNewerRoom(next: Room) {
+  return (current: Room | null) => (isOlderRoom(next, current) ? current : next);
+}
+
 interface UseRoomRealtimeResult {
   room: Room | null;
   loading: boolean;
@@ -47,6 +85,11 @@ export function useRoomRealtime(roomId: string | null): UseRoomRealtimeResult {
   roomIdRef.current = stableRoomId;
 
   const [room, setRoom] = useState<Room | null>(null);
+  // 差分の適用元（描画を待たずに連続して届く差分にも対応するため ref でも持つ）
+  const roomRef = useRef<Room | null>(null);
+  roomRef.current = room;
+  // 初回取得が終わる前に届いた差分（取得後、取得したバージョンより新しいものを適用する）
+  const pendingDiffsRef = useRef<RoomDiff[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const [isRealtimeDisconnected, setIsRealtimeDisconnected] = useState(false);
@@ -55,10 +98,6 @@ export function useRoomRealtime(roomId: string | null): UseRoomRealtimeResult {
   // 切断を経験したかどうか（初回接続では再接続バナーを出さない）
   const hasBeenDisconnectedRef = useRef(false);
 
-  // 操作元の二重 refetch 防止用クールダウン
-  const lastManualRefetchTime = useRef<number>(0);
-  const REFETCH_COOLDOWN_MS = 500;
-
   // デバウンス用 ref
   const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   // 前回の Promise の resolve を保持（リーク防止）
@@ -73,12 +112,14 @@ export function useRoomRealtime(roomId: string | null): UseRoomRealtimeResult {
   const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
   // 初回接続かどうか（fetchInitialData と SUBSCRIBED refetch の競合防止）
   const isInitialSubscribeRef = useRef(true);
+  // 差分チャンネルが切断を経験したか（再接続時に取りこぼしを取り直す）
+  const isDiffDisconnectedRef = useRef(false);
 
   // API レスポンスの Room を即座にローカル state に適用する
   const applyRoom = useCallback((r: Room) => {
     const roomData = { ...r };
     roomData.template = migrateTemplate(roomData.template);
-    setRoom(roomData);
+    setRoom(keepNewerRoom(roomData));
   }, []);
 
   // 切断→復帰時にバナーを5秒間表示するヘルパー
@@ -142,10 +183,9 @@ export function useRoomRealtime(roomId: string | null): UseRoomRealtimeResult {
           if (data) {
             const roomData = data as Room;
             roomData.template = migrateTemplate(roomData.template);
-            setRoom(roomData);
+            setRoom(keepNewerRoom(roomData));
             // 成功したらエラーと失敗カウントをリセット
             consecutiveFailuresRef.current = 0;
-            lastManualRefetchTime.current = Date.now();
             if (error) setError(null);
             // REST で取得できているなら接続警告バナーも解除
             markReconnected();
@@ -176,6 +216,40 @@ export function useRoomRealtime(roomId: string | null): UseRoomRealtimeResult {
   const refetchRef = useRef(refetch);
   refetchRef.current = refetch;
 
+  // 差分（room_diff）の適用: 次のバージョンなら手元に反映し、古ければ捨て、
+  // 飛んでいれば取りこぼしがあるため全体を取得し直す
+  const handleRoomDiff = useCallback((diff: RoomDiff) => {
+    const current = roomRef.current;
+    // 初回取得前に届いた差分は取っておき、取得後に適用する
+    if (!current) {
+      pendingDiffsRef.current.push(diff);
+      return;
+    }
+
+    const { room: next, gap } = applyRoomDiffs(current, [diff]);
+    if (gap) {
+      refetchRef.current();
+      return;
+    }
+    if (next === current) return;
+
+    roomRef.current = next;
+    setRoom(keepNewerRoom(next));
+    markReconnected();
+  }, [markReconnected]);
+
+  // 差分チャンネルの接続状態: 切断後に再購読できたら、その間の差分を取りこぼしているため取得し直す
+  const handleRoomDiffStatus = useCallback((status: RoomDiffChannelStatus) => {
+    if (status !== "SUBSCRIBED") {
+      isDiffDisconnectedRef.current = true;
+      return;
+    }
+    if (isDiffDisconnectedRef.current) {
+      isDiffDisconnectedRef.current = false;
+      refetchRef.current();
+    }
+  }, []);
+
   // チャンネルを破棄して新しく作り直す（useEffect 再実行なし）
   const rebuildChannel = useCallback(() => {
     const id = roomIdRef.current;
@@ -187,8 +261,9 @@ export function useRoomRealtime(roomId: string | null): UseRoomRealtimeResult {
       channelRef.current = null;
     }
 
-    // 新しいチャンネルを構築
+    // 新しいチャンネルを構築（差分チャンネルも張り直す）
     setupRealtimeSubscriptionFn(id);
+    resubscribeRoomDiff(id);
 
     // 再構築後はデータを最新化
     refetchRef.current();
@@ -200,35 +275,9 @@ export function useRoomRealtime(roomId: string | null): UseRoomRealtimeResult {
   const setupRealtimeSubscriptionFn = useCallback((targetRoomId: string) => {
     const channelId = `room-${targetRoomId}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
 
+    // 更新は差分チャンネル（subscribeRoomDiff）で受け取り、ここでは削除と接続状態を監視する
     const ch = supabase
       .channel(channelId)
-      .on(
-        "postgres_changes",
-        {
-          event: "UPDATE",
-          schema: "public",
-          table: "rooms",
-          filter: `id=eq.${targetRoomId}`,
-        },
-        (payload) => {
-          // 直近の手動 refetch でデータ取得済みならスキップ（二重取得防止）
-          const elapsed = Date.now() - lastManualRefetchTime.current;
-          if (elapsed < REFETCH_COOLDOWN_MS) {
-            return;
-          }
-
-          const newRoom = payload.new;
-          // ペイロードが完全な Room データを含むか検証（REPLICA IDENTITY FULL が必要）
-          if (newRoom && newRoom.id && newRoom.current_state && newRoom.template) {
-            const roomData = newRoom as Room;
-            roomData.template = migrateTemplate(roomData.template);
-            setRoom(roomData);
-            markReconnected();
-          } else {
-            refetchRef.current();
-          }
-        }
-      )
       .on(
         "postgres_changes",
         {
@@ -342,7 +391,17 @@ export function useRoomRealtime(roomId: string | null): UseRoomRealtimeResult {
 
         const roomData = data as Room;
         roomData.template = migrateTemplate(roomData.template);
-        setRoom(roomData);
+
+        // 取得中に届いた差分のうち、取得したバージョンより新しいものを適用する
+        const pendingDiffs = pendingDiffsRef.current;
+        pendingDiffsRef.current = [];
+        const { room: next, gap } =
+          roomData.state_version == null
+            ? { room: roomData, gap: false }
+            : applyRoomDiffs(roomData, pendingDiffs);
+        roomRef.current = next;
+        setRoom(next);
+        if (gap) refetchRef.current();
       } catch (err) {
         if (aborted) return;
         console.error("Error fetching room:", err);
@@ -357,12 +416,21 @@ export function useRoomRealtime(roomId: string | null): UseRoomRealtimeResult {
     };
 
     // 初期化
+    pendingDiffsRef.current = [];
+    isDiffDisconnectedRef.current = false;
     fetchInitialData();
     setupRealtimeSubscriptionFn(stableRoomId);
+    const unsubscribeDiff = subscribeRoomDiff(
+      stableRoomId,
+      handleRoomDiff,
+      handleRoomDiffStatus
+    );
 
     // クリーンアップ
     return () => {
       aborted = true;
+      unsubscribeDiff();
+      pendingDiffsRef.current = [];
       if (resubscribeTimerRef.current) clearTimeout(resubscribeTimerRef.current);
       if (reconnectedTimerRef.current) clearTimeout(reconnectedTimerRef.current);
       if (channelRef.current) {
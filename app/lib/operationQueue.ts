@@ -0,0 +1,44 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { QueuedOperation } from "../types";
+
+const STORAGE_KEY_PREFIX = "operation_queue:";
+
+/**
+ * ルームの送信待ち操作を読み込む（古い順）
+ */
+export async function loadQueuedOperations(
+  roomId: string
+): Promise<QueuedOperation[]> {
+  try {
+    const json = await AsyncStorage.getItem(STORAGE_KEY_PREFIX + roomId);
+    return json ? JSON.parse(json) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * ルームの送信待ち操作を保存する（空なら削除）
+ */
+export async function saveQueuedOperations(
+  roomId: string,
+  operations: QueuedOperation[]
+): Promise<{ error: Error | null }> {
+  try {
+    if (operations.length === 0) {
+      await AsyncStorage.removeItem(STORAGE_KEY_PREFIX + roomId);
+    } else {
+      await AsyncStorage.setItem(
+        STORAGE_KEY_PREFIX + roomId,
+        JSON.stringify(operations)
+      );
+    }
+    return { error: null };
+  } catch (error) {
+    console.error("Error saving queued operations:", error);
+    return {
+      error:
+        error instanceof Error ? error : new Error("送信待ちの操作を保存できませんでした"),
+    };
+  }
+}
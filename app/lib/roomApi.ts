@@ -10,8 +10,20 @@ import {
   GameStateSnapshot,
   SeatInfo,
   Settlement,
+  GameRecordExport,
+  PlayerStats,
+  PlayerStatsFilter,
+  Group,
+  HistoryEventType,
+  HistoryTransfer,
+  HistoryEventPayload,
+  RoundResult,
+  TransferLeg,
+  WinDetail,
 } from "../types";
-import { generateRoomCode, isHostUser } from "../utils/roomUtils";
+import { generateRoomCode, migrateTemplate } from "../utils/roomUtils";
+import { createEmptySeats } from "../utils/seatUtils";
+import { buildImportData } from "../utils/importUtils";
 
 /** API呼び出しログ（roomApi経由の全操作を追跡） */
 const apiLog = (fn: string, params?: Record<string, unknown>) => {
@@ -23,36 +35,74 @@ const apiLog = (fn: string, params?: Record<string, unknown>) => {
   console.log(`[API] ${fn}${summary ? " " + summary : ""}`);
 };
 
+/**
+ * RPC が返す構造化エラー
+ * code は "seat_taken" などの機械判定用コード（RPC が返した場合のみ）
+ */
+export interface RpcError extends Error {
+  code?: string;
+}
+
+/**
+ * 通信自体の失敗（オフラインなど）を表す RpcError.code
+ * PostgREST のエラーにはコードが付くため、コードが無いものを通信エラーとみなす
+ */
+export const NETWORK_ERROR_CODE = "network_error";
+
+/**
+ * p_expected_version を渡した RPC で、ルームが他の操作により更新されていた場合の RpcError.code
+ */
+export const STATE_VERSION_CONFLICT_CODE = "state_version_conflict";
+
 /**
  * RPC呼び出しの共通ラッパー
- * 戻り値 JSONB {success: true} or {error: "メッセージ"} をパース
+ * 戻り値 JSONB {success: true} or {error: "メッセージ", code?: "..."} をパース
  */
 async function callRpc(
   fnName: string,
   params: Record<string, unknown>
-): Promise<{ error: Error | null }> {
+): Promise<{ data: any; error: RpcError | null }> {
   const { data, error: rpcError } = await supabase.rpc(fnName, params);
   if (rpcError) {
     console.error(`RPC ${fnName} failed:`, rpcError);
-    return { error: new Error(rpcError.message) };
+    const error: RpcError = new Error(rpcError.message);
+    if (!rpcError.code) error.code = NETWORK_ERROR_CODE;
+    return { data: null, error };
   }
   if (data?.error) {
-    return { error: new Error(data.error) };
+    const error: RpcError = new Error(data.error);
+    if (data.code) error.code = data.code;
+    return { data, error };
   }
-  return { error: null };
+  return { data, error: null };
+}
+
+/**
+ * 座席系RPCの共通ラッパー
+ * 戻り値 JSONB {success: true, room: {...}} から更新後のルームを取り出す
+ */
+async function callRoomRpc(
+  fnName: string,
+  params: Record<string, unknown>
+): Promise<{ room: Room | null; error: RpcError | null }> {
+  const { data, error } = await callRpc(fnName, params);
+  if (error) return { room: null, error };
+  return { room: (data?.room as Room) ?? null, error: null };
 }
 
 /**
  * 新しいルームを作成
  * @param template - ゲームテンプレート
  * @param roomName - ルーム名
+ * @param groupId - 所属グループ（メンバーのみ指定可能）
  * @returns 作成されたルーム情報
  */
 export async function createRoom(
   template: GameTemplate,
-  roomName: string
+  roomName: string,
+  groupId: string | null = null
 ): Promise<{ room: Room; error: Error | null }> {
-  apiLog("createRoom", { layout: template.layoutMode, roomName });
+  apiLog("createRoom", { layout: template.layoutMode, roomName, groupId });
   try {
     // 現在のユーザーを取得
     const {
@@ -101,7 +151,8 @@ export async function createRoom(
         status: "waiting",
         template: template,
         current_state: {}, // 空の状態で作成
-        seats: [null, null, null, null], // 4つの空席で初期化
+        seats: createEmptySeats(template.maxPlayers), // maxPlayers 分の空席で初期化
+        group_id: groupId,
       })
       .select()
       .single();
@@ -133,6 +184,47 @@ export async function createRoom(
   }
 }
 
+/**
+ * エクスポートしたゲーム記録から新しいルームを作成
+ * createRoom でルームを作成した後、座席・スコア・精算行を RPC でまとめて書き込む。
+ * 元の実ユーザーは架空ユーザーに付け替える（buildImportData）
+ * @param record - parseGameRecord で検証済みのゲーム記録
+ * @param roomName - ルーム名
+ * @returns 作成されたルーム情報
+ */
+export async function importGameRecord(
+  record: GameRecordExport,
+  roomName: string
+): Promise<{ room: Room | null; error: Error | null }> {
+  apiLog("importGameRecord", { roomName, settlements: record.settlements.length });
+  const template = migrateTemplate(record.template);
+  const { room, error } = await createRoom(
+    { ...template, maxPlayers: record.seats.length },
+    roomName
+  );
+  if (error || !room) {
+    return { room: null, error: error ?? new Error("ルームの作成に失敗しました") };
+  }
+
+  const data = buildImportData(record, room.host_user_id);
+  const { room: imported, error: importError } = await callRoomRpc(
+    "rpc_import_game_record",
+    {
+      p_room_id: room.id,
+      p_seats: data.seats,
+      p_current_state: data.currentState,
+      p_settlements: data.settlements,
+    }
+  );
+  if (importError) {
+    // 中途半端なルームを残さない
+    await deleteRoom(room.id);
+    return { room: null, error: importError };
+  }
+
+  return { room: imported ?? room, error: null };
+}
+
 /**
  * ルームコードでルームを検索
  * @param roomCode - 検索するルームコード
@@ -205,17 +297,9 @@ export async function joinRoom(
       return { room: null, error: new Error("このルームは既に終了しています") };
     }
 
-    // 座席配列を初期化（存在しない場合）
+    // 座席配列を初期化（存在しない場合、DB側は座席系RPCが補完する）
     if (!room.seats) {
-      const { error: updateError } = await supabase
-        .from("rooms")
-        .update({ seats: [null, null, null, null] })
-        .eq("id", room.id);
-
-      if (updateError) {
-        console.error("Error initializing seats:", updateError);
-      }
-      room.seats = [null, null, null, null];
+      room.seats = createEmptySeats(room.template?.maxPlayers);
     }
 
     // プロファイルのcurrent_room_idを更新
@@ -264,24 +348,12 @@ export async function leaveRoom(
       .eq("id", user.id);
 
     // ルームの状態からプレイヤーを削除
-    const { data: room, error: fetchError } = await supabase
-      .from("rooms")
-      .select("*")
-      .eq("id", roomId)
-      .single();
+    const { error: leaveError } = await leaveGame(roomId);
 
-    if (fetchError) {
-      throw fetchError;
+    if (leaveError) {
+      throw leaveError;
     }
 
-    const currentState = room.current_state || {};
-    delete currentState[user.id];
-
-    await supabase
-      .from("rooms")
-      .update({ current_state: currentState })
-      .eq("id", roomId);
-
     return { error: null };
   } catch (error) {
     console.error("Error leaving room:", error);
@@ -322,7 +394,7 @@ export async function deleteRoom(
 }
 
 /**
- * ルームのステータスを更新
+ * ルームのステータスを更新（ホスト・コホストのみ、DB側RPCで処理）
  * @param roomId - ルームID
  * @param status - 新しいステータス
  */
@@ -331,26 +403,11 @@ export async function updateRoomStatus(
   status: "waiting" | "playing" | "finished"
 ): Promise<{ error: Error | null }> {
   apiLog("updateRoomStatus", { roomId, status });
-  try {
-    const { error } = await supabase
-      .from("rooms")
-      .update({ status })
-      .eq("id", roomId);
-
-    if (error) {
-      throw error;
-    }
-
-    return { error: null };
-  } catch (error) {
-    console.error("Error updating room status:", error);
-    return {
-      error:
-        error instanceof Error
-          ? error
-          : new Error("ルームステータスの更新に失敗しました"),
-    };
-  }
+  const { error } = await callRpc("rpc_update_room_status", {
+    p_room_id: roomId,
+    p_status: status,
+  });
+  return { error };
 }
 
 /**
@@ -361,6 +418,9 @@ export async function updateRoomStatus(
  * @param transfers - 移動する変数と金額の配列
  * @param fromName - 送信元の表示名（履歴用、省略時はID）
  * @param toName - 送信先の表示名（履歴用、省略時はID）
+ * @param clientOpId - クライアントの操作ID（__recent_log__ に記録され、楽観的更新の照合に使う）
+ *   同じ操作IDの再送はサーバー側で二重に適用されない
+ * @returns version - 移動を反映した後の state_version（操作ID指定時のみ）
  */
 export async function transferScore(
   roomId: string,
@@ -368,21 +428,41 @@ export async function transferScore(
   toId: string,
   transfers: { variable: string; amount: number }[],
   fromName?: string,
-  toName?: string
-): Promise<{ error: Error | null }> {
+  toName?: string,
+  clientOpId?: string
+): Promise<{ version: number | null; error: RpcError | null }> {
   apiLog("transferScore", { from: fromName ?? fromId, to: toName ?? toId, transfers });
-  return callRpc("rpc_transfer_score", {
+  const { data, error } = await callRpc("rpc_transfer_score", {
     p_room_id: roomId,
     p_from_id: fromId,
     p_to_id: toId,
     p_transfers: transfers,
     p_from_name: fromName ?? null,
     p_to_name: toName ?? null,
+    p_client_op_id: clientOpId ?? null,
+  });
+  return { version: error ? null : (data?.version ?? null), error };
+}
+
+/**
+ * 複数のスコア移動を一括で反映（DB側RPCで原子的に処理）
+ * 履歴は1行にまとまり、undo 1回で全移動が戻る。1件でも不正なら何も反映しない
+ * @param roomId - ルームID
+ * @param legs - 移動の配列（移動元・移動先・変数と金額）
+ */
+export async function transferMulti(
+  roomId: string,
+  legs: TransferLeg[]
+): Promise<{ error: Error | null }> {
+  apiLog("transferMulti", { roomId, legs: legs.length });
+  return callRpc("rpc_transfer_multi", {
+    p_room_id: roomId,
+    p_legs: legs,
   });
 }
 
 /**
- * ゲームに参加（リストモード用）
+ * ゲームに参加（リストモード用、DB側RPCで原子的に処理）
  * current_stateにプレイヤーを追加
  * @param roomId - ルームID
  * @returns 更新されたルーム情報
@@ -391,273 +471,56 @@ export async function joinGame(
   roomId: string
 ): Promise<{ room: Room | null; error: Error | null }> {
   apiLog("joinGame", { roomId });
-  try {
-    // 現在のユーザーを取得
-    const {
-      data: { user },
-      error: userError,
-    } = await supabase.auth.getUser();
-
-    if (userError || !user) {
-      throw new Error("ユーザーが認証されていません");
-    }
-
-    // 最新のルーム情報を取得
-    const { data: room, error: fetchError } = await supabase
-      .from("rooms")
-      .select("*")
-      .eq("id", roomId)
-      .single();
-
-    if (fetchError) {
-      throw fetchError;
-    }
-
-    if (!room) {
-      throw new Error("ルームが見つかりません");
-    }
-
-    // ルームが終了していないかチェック
-    if (room.status === "finished") {
-      throw new Error("このルームは既に終了しています");
-    }
-
-    // 既にゲームに参加しているかチェック
-    const currentState = room.current_state || {};
-    if (currentState[user.id]) {
-      throw new Error("既にゲームに参加しています");
-    }
-
-    // テンプレートから初期値を設定してプレイヤーを追加
-    const initialState: Record<string, number> = {};
-    room.template.variables.forEach((variable: any) => {
-      initialState[variable.key] = variable.initial;
-    });
-    currentState[user.id] = initialState;
-
-    // ルームの状態を更新
-    const { data: updateData, error: updateError } = await supabase
-      .from("rooms")
-      .update({ current_state: currentState })
-      .eq("id", roomId)
-      .select()
-      .single();
-
-    if (updateError) {
-      throw updateError;
-    }
-
-    // プロファイルのcurrent_room_idを更新
-    await supabase
-      .from("profiles")
-      .update({ current_room_id: roomId })
-      .eq("id", user.id);
+  return callRoomRpc("rpc_join_game", {
+    p_room_id: roomId,
+  });
+}
 
-    return { room: updateData as Room, error: null };
-  } catch (error) {
-    console.error("Error joining game:", error);
-    return {
-      room: null,
-      error:
-        error instanceof Error
-          ? error
-          : new Error("ゲームへの参加に失敗しました"),
-    };
-  }
+/**
+ * ゲームから退出（ルームには残る）
+ * current_stateから自分のプレイヤーデータを削除する。座席は変更しない
+ * @param roomId - ルームID
+ */
+export async function leaveGame(
+  roomId: string
+): Promise<{ error: Error | null }> {
+  apiLog("leaveGame", { roomId });
+  const { error } = await callRpc("rpc_leave_game", {
+    p_room_id: roomId,
+  });
+  return { error };
 }
 
 /**
- * 座席に着席
+ * 座席に着席（DB側RPCで原子的に処理）
+ * 同じ座席への同時着席は後着側が code: "seat_taken" のエラーになる
  * @param roomId - ルームID
- * @param seatIndex - 座席インデックス (0: Bottom, 1: Right, 2: Top, 3: Left)
+ * @param seatIndex - 座席インデックス (0〜座席数-1、麻雀モードは 0: Bottom, 1: Right, 2: Top, 3: Left)
  * @returns 更新されたルーム情報
  */
 export async function joinSeat(
   roomId: string,
   seatIndex: number
-): Promise<{ room: Room | null; error: Error | null }> {
+): Promise<{ room: Room | null; error: RpcError | null }> {
   apiLog("joinSeat", { roomId, seatIndex });
-  try {
-    // 現在のユーザーを取得
-    const {
-      data: { user },
-      error: userError,
-    } = await supabase.auth.getUser();
-
-    if (userError || !user) {
-      throw new Error("ユーザーが認証されていません");
-    }
-
-    // プロファイルからdisplay_nameを取得
-    const { data: profile } = await supabase
-      .from("profiles")
-      .select("display_name")
-      .eq("id", user.id)
-      .single();
-    const displayName = profile?.display_name || undefined;
-
-    // 座席インデックスの検証
-    if (seatIndex < 0 || seatIndex > 3) {
-      throw new Error("無効な座席インデックスです");
-    }
-
-    // 最新のルーム情報を取得
-    const { data: room, error: fetchError } = await supabase
-      .from("rooms")
-      .select("*")
-      .eq("id", roomId)
-      .single();
-
-    if (fetchError) {
-      throw fetchError;
-    }
-
-    if (!room) {
-      throw new Error("ルームが見つかりません");
-    }
-
-    // 座席配列を取得（存在しない場合は初期化）
-    const seats = room.seats || [null, null, null, null];
-
-    // 既に座席に座っているかチェック
-    const currentSeatIndex = seats.findIndex(
-      (seat: any) => seat && seat.userId === user.id
-    );
-    if (currentSeatIndex !== -1) {
-      throw new Error("既に座席に着席しています");
-    }
-
-    // 指定された座席が空いているかチェック
-    if (seats[seatIndex] !== null) {
-      throw new Error("この座席は既に使用されています");
-    }
-
-    // 座席に着席
-    seats[seatIndex] = {
-      userId: user.id,
-      status: "active",
-      displayName,
-    };
-
-    // テンプレートから初期値を設定
-    const currentState = room.current_state || {};
-    if (!currentState[user.id]) {
-      const initialState: Record<string, number> = {};
-      room.template.variables.forEach((variable: any) => {
-        initialState[variable.key] = variable.initial;
-      });
-      currentState[user.id] = initialState;
-    }
-    // displayNameを保存（離席後も名前を表示するため）
-    currentState[user.id].__displayName__ = displayName;
-
-    // ルームの状態を更新
-    const { data: updateData, error: updateError } = await supabase
-      .from("rooms")
-      .update({
-        seats: seats,
-        current_state: currentState,
-      })
-      .eq("id", roomId)
-      .select()
-      .single();
-
-    if (updateError) {
-      throw updateError;
-    }
-
-    // プロファイルのcurrent_room_idを更新
-    await supabase
-      .from("profiles")
-      .update({ current_room_id: roomId })
-      .eq("id", user.id);
-
-    return { room: updateData as Room, error: null };
-  } catch (error) {
-    console.error("Error joining seat:", error);
-    return {
-      room: null,
-      error:
-        error instanceof Error
-          ? error
-          : new Error("座席への着席に失敗しました"),
-    };
-  }
+  return callRoomRpc("rpc_join_seat", {
+    p_room_id: roomId,
+    p_seat_index: seatIndex,
+  });
 }
 
 /**
- * 座席から退席
+ * 座席から退席（DB側RPCで原子的に処理）
  * @param roomId - ルームID
  * @returns 更新されたルーム情報
  */
 export async function leaveSeat(
   roomId: string
-): Promise<{ room: Room | null; error: Error | null }> {
+): Promise<{ room: Room | null; error: RpcError | null }> {
   apiLog("leaveSeat", { roomId });
-  try {
-    // 現在のユーザーを取得
-    const {
-      data: { user },
-      error: userError,
-    } = await supabase.auth.getUser();
-
-    if (userError || !user) {
-      throw new Error("ユーザーが認証されていません");
-    }
-
-    // 最新のルーム情報を取得
-    const { data: room, error: fetchError } = await supabase
-      .from("rooms")
-      .select("*")
-      .eq("id", roomId)
-      .single();
-
-    if (fetchError) {
-      throw fetchError;
-    }
-
-    if (!room) {
-      throw new Error("ルームが見つかりません");
-    }
-
-    // 座席配列を取得
-    const seats = room.seats || [null, null, null, null];
-
-    // 現在の座席を見つける
-    const currentSeatIndex = seats.findIndex(
-      (seat: any) => seat && seat.userId === user.id
-    );
-
-    if (currentSeatIndex === -1) {
-      throw new Error("座席に着席していません");
-    }
-
-    // 座席から退席
-    seats[currentSeatIndex] = null;
-
-    // ルームの状態を更新
-    const { data: updateData, error: updateError } = await supabase
-      .from("rooms")
-      .update({ seats: seats })
-      .eq("id", roomId)
-      .select()
-      .single();
-
-    if (updateError) {
-      throw updateError;
-    }
-
-    return { room: updateData as Room, error: null };
-  } catch (error) {
-    console.error("Error leaving seat:", error);
-    return {
-      room: null,
-      error:
-        error instanceof Error
-          ? error
-          : new Error("座席からの退席に失敗しました"),
-    };
-  }
+  return callRoomRpc("rpc_leave_seat", {
+    p_room_id: roomId,
+  });
 }
 
 /**
@@ -679,6 +542,7 @@ export async function rollbackTo(
 /**
  * テンプレートを更新（変数追加、初期値変更、Pot操作編集）
  * 新しい変数が追加された場合、既存プレイヤーにもその変数を初期値で追加する
+ * ホスト・コホストのみ（DB側RPCで原子的に処理）
  * @param roomId - ルームID
  * @param templateUpdate - 更新するテンプレートの部分データ
  */
@@ -687,79 +551,11 @@ export async function updateTemplate(
   templateUpdate: Partial<GameTemplate>
 ): Promise<{ error: Error | null }> {
   apiLog("updateTemplate", { roomId });
-  try {
-    // 1. 最新のルーム情報を取得
-    const { data: room, error: fetchError } = await supabase
-      .from("rooms")
-      .select("*")
-      .eq("id", roomId)
-      .single();
-
-    if (fetchError) {
-      throw fetchError;
-    }
-
-    if (!room) {
-      throw new Error("ルームが見つかりません");
-    }
-
-    // 2. テンプレートをマージ
-    const newTemplate = { ...room.template, ...templateUpdate };
-
-    // 3. 新しい変数が追加された場合、既存プレイヤーにその変数を初期値で追加
-    const currentState = { ...room.current_state };
-    if (templateUpdate.variables) {
-      const playerIds = Object.keys(currentState).filter(
-        (key) => !key.startsWith("__")
-      );
-      for (const playerId of playerIds) {
-        for (const variable of templateUpdate.variables) {
-          if (currentState[playerId][variable.key] === undefined) {
-            currentState[playerId][variable.key] = variable.initial;
-          }
-        }
-      }
-
-      // 既存変数の initial 差分スライド（現在のプレイヤーのみ。履歴スナップショットは別テーブルなので不変）
-      const oldVariables = room.template.variables || [];
-      for (const newVar of templateUpdate.variables) {
-        const oldVar = oldVariables.find((v: any) => v.key === newVar.key);
-        if (!oldVar) continue;
-
-        const diff = newVar.initial - oldVar.initial;
-        if (diff === 0) continue;
-
-        for (const playerId of playerIds) {
-          if (currentState[playerId][newVar.key] !== undefined) {
-            currentState[playerId][newVar.key] += diff;
-          }
-        }
-      }
-    }
-
-    // 4. Supabaseに保存
-    const { error: updateError } = await supabase
-      .from("rooms")
-      .update({
-        template: newTemplate,
-        current_state: currentState,
-      })
-      .eq("id", roomId);
-
-    if (updateError) {
-      throw updateError;
-    }
-
-    return { error: null };
-  } catch (error) {
-    console.error("Error updating template:", error);
-    return {
-      error:
-        error instanceof Error
-          ? error
-          : new Error("テンプレートの更新に失敗しました"),
-    };
-  }
+  const { error } = await callRpc("rpc_update_template", {
+    p_room_id: roomId,
+    p_template_update: templateUpdate,
+  });
+  return { error };
 }
 
 /**
@@ -768,19 +564,22 @@ export async function updateTemplate(
  * @param playerId - 対象プレイヤーのID
  * @param updates - 上書きする変数と値のマップ
  * @param displayName - 履歴に表示するプレイヤー名
+ * @param expectedVersion - 編集画面が表示していた state_version（異なれば競合として何も変更しない）
  */
 export async function forceEditScore(
   roomId: string,
   playerId: string,
   updates: Record<string, number>,
-  displayName?: string
-): Promise<{ error: Error | null }> {
+  displayName?: string,
+  expectedVersion?: number
+): Promise<{ error: RpcError | null }> {
   apiLog("forceEditScore", { roomId, player: displayName ?? playerId, updates });
   return callRpc("rpc_force_edit_score", {
     p_room_id: roomId,
     p_player_id: playerId,
     p_updates: updates,
     p_display_name: displayName ?? null,
+    p_expected_version: expectedVersion ?? null,
   });
 }
 
@@ -802,6 +601,7 @@ export async function resetScores(
 
 /**
  * 直前の操作を取り消す（DB側RPCで原子的に処理）
+ * 履歴は削除されず取り消し済みとして残り、redoLast でやり直せる
  * @param roomId - ルームID
  */
 export async function undoLast(
@@ -814,329 +614,104 @@ export async function undoLast(
 }
 
 /**
- * 指定ユーザーを座席から強制離席（タイムアウト用）
- * 冪等: 既に離席済みならno-op
+ * 取り消した操作をやり直す（DB側RPCで原子的に処理）
+ * 取り消した後に新しい操作をした場合はやり直せない
+ * @param roomId - ルームID
+ */
+export async function redoLast(
+  roomId: string
+): Promise<{ error: Error | null }> {
+  apiLog("redoLast", { roomId });
+  return callRpc("rpc_redo", {
+    p_room_id: roomId,
+  });
+}
+
+/**
+ * 指定ユーザーを座席から強制離席（ホスト操作用、DB側RPCで原子的に処理）
+ * 冪等: 既に離席済みならno-op
  * @param roomId - ルームID
  * @param targetUserId - 強制離席させるユーザーID
  */
 export async function forceLeaveSeat(
   roomId: string,
   targetUserId: string
-): Promise<{ error: Error | null }> {
+): Promise<{ error: RpcError | null }> {
   apiLog("forceLeaveSeat", { roomId, targetUserId });
-  try {
-    const { data: room, error: fetchError } = await supabase
-      .from("rooms")
-      .select("seats")
-      .eq("id", roomId)
-      .single();
-
-    if (fetchError) {
-      throw fetchError;
-    }
-
-    if (!room) {
-      throw new Error("ルームが見つかりません");
-    }
-
-    const seats: (SeatInfo | null)[] = room.seats || [null, null, null, null];
-    const seatIndex = seats.findIndex(
-      (seat) => seat && seat.userId === targetUserId
-    );
-
-    // 既に離席済みなら正常終了（冪等）
-    if (seatIndex === -1) {
-      return { error: null };
-    }
-
-    seats[seatIndex] = null;
-
-    const { error: updateError } = await supabase
-      .from("rooms")
-      .update({ seats })
-      .eq("id", roomId);
-
-    if (updateError) {
-      throw updateError;
-    }
+  const { error } = await callRpc("rpc_force_leave_seat", {
+    p_room_id: roomId,
+    p_target_user_id: targetUserId,
+  });
+  return { error };
+}
 
-    return { error: null };
-  } catch (error) {
-    console.error("Error force leaving seat:", error);
-    return {
-      error:
-        error instanceof Error
-          ? error
-          : new Error("強制離席に失敗しました"),
-    };
-  }
+/**
+ * 自分の最終応答時刻を更新（切断タイムアウトの判定はサーバー側の定期処理で行う）
+ * @param roomId - ルームID
+ */
+export async function sendHeartbeat(
+  roomId: string
+): Promise<{ error: RpcError | null }> {
+  const { error } = await callRpc("rpc_heartbeat", {
+    p_room_id: roomId,
+  });
+  return { error };
 }
 
 /**
- * 架空ユーザーを座席に着席させる（ホスト専用）
+ * 架空ユーザーを座席に着席させる（ホスト専用、DB側RPCで原子的に処理）
  * @param roomId - ルームID
- * @param seatIndex - 座席インデックス (0-3)
+ * @param seatIndex - 座席インデックス (0〜座席数-1)
  */
 export async function joinFakeSeat(
   roomId: string,
   seatIndex: number
-): Promise<{ room: Room | null; error: Error | null }> {
+): Promise<{ room: Room | null; error: RpcError | null }> {
   apiLog("joinFakeSeat", { roomId, seatIndex });
-  try {
-    // 1. 現在のユーザーを取得（ホスト確認用）
-    const {
-      data: { user },
-      error: userError,
-    } = await supabase.auth.getUser();
-
-    if (userError || !user) {
-      throw new Error("ユーザーが認証されていません");
-    }
-
-    // 2. 最新のルーム情報を取得
-    const { data: room, error: fetchError } = await supabase
-      .from("rooms")
-      .select("*")
-      .eq("id", roomId)
-      .single();
-
-    if (fetchError) {
-      throw fetchError;
-    }
-
-    if (!room) {
-      throw new Error("ルームが見つかりません");
-    }
-
-    // 3. ホスト確認（作成者またはコホスト）
-    if (!isHostUser(user.id, room as Room)) {
-      throw new Error("ホストのみが架空ユーザーを作成できます");
-    }
-
-    // 4. 座席インデックスの検証
-    if (seatIndex < 0 || seatIndex > 3) {
-      throw new Error("無効な座席インデックスです");
-    }
-
-    // 5. 対象座席が空であることを確認
-    const seats = room.seats || [null, null, null, null];
-    if (seats[seatIndex] !== null) {
-      throw new Error("この座席は既に使用されています");
-    }
-
-    // 6. 架空ユーザーIDと表示名を生成（IDは一意にする）
-    const fakeUserId = `fake_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
-
-    // 使用中の名前を収集（seats + current_stateに残っているゲストの__displayName__）
-    const usedNames = new Set<string>();
-    for (const s of seats) {
-      if (s && s.displayName) usedNames.add(s.displayName);
-    }
-    const existingState = room.current_state || {};
-    for (const key of Object.keys(existingState)) {
-      if (key.startsWith("fake_") && existingState[key]?.__displayName__) {
-        usedNames.add(existingState[key].__displayName__);
-      }
-    }
-
-    const nameLetters = ["A", "B", "C", "D", "E", "F", "G", "H"];
-    let displayName = "プレイヤーA";
-    for (const letter of nameLetters) {
-      const candidate = `プレイヤー${letter}`;
-      if (!usedNames.has(candidate)) {
-        displayName = candidate;
-        break;
-      }
-    }
-
-    // 7. 座席に着席
-    seats[seatIndex] = {
-      userId: fakeUserId,
-      status: "active",
-      displayName,
-      isFake: true,
-    };
-
-    // 8. current_stateに初期値を追加
-    const currentState = room.current_state || {};
-    if (!currentState[fakeUserId]) {
-      const initialState: Record<string, any> = {};
-      room.template.variables.forEach((variable: any) => {
-        initialState[variable.key] = variable.initial;
-      });
-      initialState.__displayName__ = displayName;
-      currentState[fakeUserId] = initialState;
-    } else {
-      // 既存エントリがある場合もdisplayNameを更新
-      currentState[fakeUserId].__displayName__ = displayName;
-    }
-
-    // 9. 一括DB更新
-    const { data: updateData, error: updateError } = await supabase
-      .from("rooms")
-      .update({
-        seats,
-        current_state: currentState,
-      })
-      .eq("id", roomId)
-      .select()
-      .single();
-
-    if (updateError) {
-      throw updateError;
-    }
-
-    return { room: updateData as Room, error: null };
-  } catch (error) {
-    console.error("Error joining fake seat:", error);
-    return {
-      room: null,
-      error:
-        error instanceof Error
-          ? error
-          : new Error("架空ユーザーの作成に失敗しました"),
-    };
-  }
+  return callRoomRpc("rpc_join_fake_seat", {
+    p_room_id: roomId,
+    p_seat_index: seatIndex,
+  });
 }
 
 /**
- * 架空ユーザーを座席から離席させ、current_stateからも削除（ホスト専用）
+ * 架空ユーザーを座席から離席させ、current_stateからも削除（ホスト専用、DB側RPCで原子的に処理）
  * @param roomId - ルームID
  * @param fakeUserId - 架空ユーザーID（例: "fake_0"）
  */
 export async function removeFakePlayer(
   roomId: string,
   fakeUserId: string
-): Promise<{ error: Error | null }> {
+): Promise<{ error: RpcError | null }> {
   apiLog("removeFakePlayer", { roomId, fakeUserId });
-  try {
-    // 1. 最新のルーム情報を取得
-    const { data: room, error: fetchError } = await supabase
-      .from("rooms")
-      .select("seats, current_state")
-      .eq("id", roomId)
-      .single();
-
-    if (fetchError) {
-      throw fetchError;
-    }
-
-    if (!room) {
-      throw new Error("ルームが見つかりません");
-    }
-
-    // 2. 座席からfakeUserIdを除去
-    const seats: (SeatInfo | null)[] = room.seats || [null, null, null, null];
-    const seatIndex = seats.findIndex(
-      (seat) => seat && seat.userId === fakeUserId
-    );
-    if (seatIndex !== -1) {
-      seats[seatIndex] = null;
-    }
-
-    // 3. current_stateからエントリを削除
-    const currentState = { ...room.current_state };
-    delete currentState[fakeUserId];
-
-    // 4. 一括DB更新
-    const { error: updateError } = await supabase
-      .from("rooms")
-      .update({ seats, current_state: currentState })
-      .eq("id", roomId);
-
-    if (updateError) {
-      throw updateError;
-    }
-
-    return { error: null };
-  } catch (error) {
-    console.error("Error removing fake player:", error);
-    return {
-      error:
-        error instanceof Error
-          ? error
-          : new Error("架空ユーザーの削除に失敗しました"),
-    };
-  }
+  const { error } = await callRpc("rpc_remove_fake_player", {
+    p_room_id: roomId,
+    p_fake_user_id: fakeUserId,
+  });
+  return { error };
 }
 
 /**
- * 離席済みゲストを指定座席に再着席させる（ホスト専用）
+ * 離席済みゲストを指定座席に再着席させる（ホスト専用、DB側RPCで原子的に処理）
  * @param roomId - ルームID
  * @param fakeUserId - 再着席させるゲストのID（例: "fake_0"）
- * @param seatIndex - 座席インデックス (0-3)
+ * @param seatIndex - 座席インデックス (0〜座席数-1)
  */
 export async function reseatFakePlayer(
   roomId: string,
   fakeUserId: string,
   seatIndex: number
-): Promise<{ room: Room | null; error: Error | null }> {
+): Promise<{ room: Room | null; error: RpcError | null }> {
   apiLog("reseatFakePlayer", { roomId, fakeUserId, seatIndex });
-  try {
-    // 1. 最新のルーム情報を取得
-    const { data: room, error: fetchError } = await supabase
-      .from("rooms")
-      .select("seats, current_state")
-      .eq("id", roomId)
-      .single();
-
-    if (fetchError) {
-      throw fetchError;
-    }
-
-    if (!room) {
-      throw new Error("ルームが見つかりません");
-    }
-
-    // 2. 座席が空であることを確認
-    const seats: (SeatInfo | null)[] = room.seats || [null, null, null, null];
-    if (seats[seatIndex] !== null) {
-      throw new Error("この座席は既に使用されています");
-    }
-
-    // 3. current_stateにゲストが存在することを確認
-    if (!room.current_state[fakeUserId]) {
-      throw new Error("指定されたゲストが見つかりません");
-    }
-
-    // 4. current_stateから保存済みのdisplayNameを取得
-    const displayName = room.current_state[fakeUserId].__displayName__ || fakeUserId;
-
-    // 5. 座席に着席
-    seats[seatIndex] = {
-      userId: fakeUserId,
-      status: "active",
-      displayName,
-      isFake: true,
-    };
-
-    // 6. 一括DB更新（current_stateは変更なし）
-    const { data: updateData, error: updateError } = await supabase
-      .from("rooms")
-      .update({ seats })
-      .eq("id", roomId)
-      .select()
-      .single();
-
-    if (updateError) {
-      throw updateError;
-    }
-
-    return { room: updateData as Room, error: null };
-  } catch (error) {
-    console.error("Error reseating fake player:", error);
-    return {
-      room: null,
-      error:
-        error instanceof Error
-          ? error
-          : new Error("ゲストの再着席に失敗しました"),
-    };
-  }
+  return callRoomRpc("rpc_reseat_fake_player", {
+    p_room_id: roomId,
+    p_fake_user_id: fakeUserId,
+    p_seat_index: seatIndex,
+  });
 }
 
 /**
- * 架空ユーザーの表示名を変更（ホスト専用）
+ * 架空ユーザーの表示名を変更（ホスト専用、DB側RPCで原子的に処理）
  * seats[i].displayName と current_state[fakeUserId].__displayName__ を両方更新する
  * @param roomId - ルームID
  * @param fakeUserId - 架空ユーザーID（例: "fake_xxxxx"）
@@ -1148,53 +723,12 @@ export async function renameFakePlayer(
   newName: string
 ): Promise<{ error: Error | null }> {
   apiLog("renameFakePlayer", { roomId, fakeUserId, newName });
-  try {
-    const { data: room, error: fetchError } = await supabase
-      .from("rooms")
-      .select("seats, current_state")
-      .eq("id", roomId)
-      .single();
-
-    if (fetchError) {
-      throw fetchError;
-    }
-
-    if (!room) {
-      throw new Error("ルームが見つかりません");
-    }
-
-    // seats の displayName を更新
-    const seats: (SeatInfo | null)[] = room.seats || [null, null, null, null];
-    const seatIndex = seats.findIndex((seat) => seat && seat.userId === fakeUserId);
-    if (seatIndex !== -1) {
-      seats[seatIndex] = { ...seats[seatIndex]!, displayName: newName };
-    }
-
-    // current_state の __displayName__ を更新
-    const currentState = { ...room.current_state };
-    if (currentState[fakeUserId]) {
-      currentState[fakeUserId] = { ...currentState[fakeUserId], __displayName__: newName };
-    }
-
-    const { error: updateError } = await supabase
-      .from("rooms")
-      .update({ seats, current_state: currentState })
-      .eq("id", roomId);
-
-    if (updateError) {
-      throw updateError;
-    }
-
-    return { error: null };
-  } catch (error) {
-    console.error("Error renaming fake player:", error);
-    return {
-      error:
-        error instanceof Error
-          ? error
-          : new Error("名前の変更に失敗しました"),
-    };
-  }
+  const { error } = await callRpc("rpc_rename_fake_player", {
+    p_room_id: roomId,
+    p_fake_user_id: fakeUserId,
+    p_new_name: newName,
+  });
+  return { error };
 }
 
 /**
@@ -1222,6 +756,114 @@ export async function updateCounter(
   return { error: null };
 }
 
+/**
+ * 和了の支払いを反映する（全員分の支払いと供託の回収を DB側RPCで原子的に処理）
+ * @param roomId - ルームID
+ * @param winnerId - 和了者のプレイヤーID
+ * @param payments - 支払い者ごとの支払い（mahjongScoreUtils.calculateWinPayments）
+ * @param detail - 履歴表示用の翻・符など
+ * @param collectPot - 供託（リーチ棒）を和了者が受け取るか
+ * @param advanceRound - 同じ操作で局も進めるか（親のアガリなら連荘、子のアガリなら親流れ）
+ * @param variable - 支払う変数（デフォルト: score）
+ */
+export async function applyWin(
+  roomId: string,
+  winnerId: string,
+  payments: { from: string; amount: number }[],
+  detail: WinDetail,
+  collectPot: boolean = true,
+  advanceRound: boolean = false,
+  variable: string = "score"
+): Promise<{ error: Error | null }> {
+  apiLog("applyWin", { roomId, winnerId, payments: payments.length, advanceRound, ...detail });
+  return callRpc("rpc_apply_win", {
+    p_room_id: roomId,
+    p_winner_id: winnerId,
+    p_payments: payments,
+    p_variable: variable,
+    p_collect_pot: collectPot,
+    p_detail: detail,
+    p_advance_round: advanceRound,
+  });
+}
+
+/**
+ * 流局のノーテン罰符を反映（DB側RPCで原子的に処理、ホストのみ）
+ * 着席者全員のうちテンパイ者が受け取り、ノーテン者が支払う
+ * @param roomId - ルームID
+ * @param tenpaiIds - テンパイ者のユーザーID
+ * @param advanceRound - 同じ操作で局も進めるか（親テンパイなら連荘、ノーテンなら親流れ）
+ * @param variable - 支払う変数（デフォルト: score）
+ */
+export async function applyDraw(
+  roomId: string,
+  tenpaiIds: string[],
+  advanceRound: boolean = false,
+  variable: string = "score"
+): Promise<{ error: Error | null }> {
+  apiLog("applyDraw", { roomId, tenpai: tenpaiIds.length, advanceRound });
+  return callRpc("rpc_apply_draw", {
+    p_room_id: roomId,
+    p_tenpai_ids: tenpaiIds,
+    p_variable: variable,
+    p_advance_round: advanceRound,
+  });
+}
+
+/**
+ * テンプレートのカスタム操作を実行（DB側RPCで定義を評価し原子的に処理）
+ * @param roomId - ルームID
+ * @param actionId - customActions[].id
+ * @param actorId - 実行者のユーザーID
+ */
+export async function runCustomAction(
+  roomId: string,
+  actionId: string,
+  actorId: string
+): Promise<{ error: Error | null }> {
+  apiLog("runCustomAction", { roomId, actionId, actorId });
+  return callRpc("rpc_run_custom_action", {
+    p_room_id: roomId,
+    p_action_id: actionId,
+    p_actor_id: actorId,
+  });
+}
+
+/**
+ * 局結果から局を進める（DB側RPCで原子的に処理）
+ * @param roomId - ルームID
+ * @param result - 局結果（親のアガリ / 流局 / 子のアガリ）
+ * @param dealerTenpai - 流局時に親がテンパイか（false なら親流れ）
+ */
+export async function advanceRound(
+  roomId: string,
+  result: RoundResult,
+  dealerTenpai: boolean = true
+): Promise<{ error: Error | null }> {
+  apiLog("advanceRound", { roomId, result, dealerTenpai });
+  return callRpc("rpc_advance_round", {
+    p_room_id: roomId,
+    p_result: result,
+    p_dealer_tenpai: dealerTenpai,
+  });
+}
+
+/**
+ * 起家を指定して東1局 0本場に戻す（DB側RPCで原子的に処理）
+ * @param roomId - ルームID
+ * @param startSeat - 起家の座席インデックス
+ */
+export async function resetRound(
+  roomId: string,
+  startSeat: number
+): Promise<{ error: Error | null }> {
+  apiLog("resetRound", { roomId, startSeat });
+  return callRpc("rpc_reset_round", {
+    p_room_id: roomId,
+    p_start_seat: startSeat,
+  });
+}
+
 /**
  * コホスト（追加ホスト）リストを更新する（ルーム作成者のみ呼び出し可）
  * @param roomId - ルームID
@@ -1232,16 +874,15 @@ export async function updateCoHosts(
   coHostIds: string[]
 ): Promise<{ error: Error | null }> {
   apiLog("updateCoHosts", { roomId, count: coHostIds.length });
-  const { error } = await supabase
-    .from("rooms")
-    .update({ co_host_ids: coHostIds })
-    .eq("id", roomId);
-  if (error) return { error: new Error(error.message) };
-  return { error: null };
+  const { error } = await callRpc("rpc_update_co_hosts", {
+    p_room_id: roomId,
+    p_co_host_ids: coHostIds,
+  });
+  return { error };
 }
 
 /**
- * ルーム名を更新
+ * ルーム名を更新（ホスト・コホストのみ）
  * @param roomId - ルームID
  * @param roomName - 新しいルーム名
  */
@@ -1250,12 +891,11 @@ export async function updateRoomName(
   roomName: string
 ): Promise<{ error: Error | null }> {
   apiLog("updateRoomName", { roomId, roomName });
-  const { error } = await supabase
-    .from("rooms")
-    .update({ room_name: roomName })
-    .eq("id", roomId);
-  if (error) return { error: new Error(error.message) };
-  return { error: null };
+  const { error } = await callRpc("rpc_update_room_name", {
+    p_room_id: roomId,
+    p_room_name: roomName,
+  });
+  return { error };
 }
 
 /**
@@ -1309,6 +949,40 @@ export async function fetchMyPastRooms(
   }
 }
 
+/**
+ * 参加したルーム全体のプレイヤー別通算成績を取得（合計の降順）
+ * @param filter - 期間・レイアウトの絞り込み
+ */
+export async function fetchPlayerStats(
+  filter: PlayerStatsFilter = {}
+): Promise<{ stats: PlayerStats[]; error: Error | null }> {
+  apiLog("fetchPlayerStats", { ...filter });
+  const { data, error } = await callRpc("rpc_get_player_stats", {
+    p_from: filter.from ?? null,
+    p_to: filter.to ?? null,
+    p_layout_mode: filter.layoutMode ?? null,
+  });
+  if (error) return { stats: [], error };
+  return { stats: toPlayerStats(data?.players), error: null };
+}
+
+/** 成績 RPC の戻り値（snake_case の JSONB 配列）を PlayerStats に変換 */
+function toPlayerStats(rows: any[] | undefined): PlayerStats[] {
+  const toNumber = (v: unknown) => (v === null || v === undefined ? null : Number(v));
+  return (rows || []).map((row: any) => ({
+    playerKey: row.player_key,
+    displayName: row.display_name ?? "",
+    isGuest: row.is_guest,
+    isMe: row.is_me,
+    games: Number(row.games),
+    totalResult: Number(row.total_result),
+    averageRank: toNumber(row.average_rank),
+    rankCounts: row.rank_counts ?? {},
+    bestResult: toNumber(row.best_result),
+    worstResult: toNumber(row.worst_result),
+  }));
+}
+
 /**
  * 精算結果を保存し、スコアを初期値にリセット（DB側RPCで原子的に処理）
  * @param roomId - ルームID
@@ -1347,38 +1021,66 @@ export async function saveAdjustment(
 // 履歴・精算の読み取り API（ページネーション対応）
 // ============================================
 
-/** room_history テーブルのエントリ型 */
+/**
+ * room_history テーブルのエントリ型
+ * 構造化カラム（event_type 以降）は 021 以前の行では null
+ */
 export interface RoomHistoryEntry {
   id: string;
   room_id: string;
   message: string;
   snapshot: GameStateSnapshot;
   created_at: string;
+  event_type: HistoryEventType | null;
+  actor_id: string | null;
+  actor_name: string | null; // 操作時点の操作者の表示名
+  from_id: string | null;
+  to_id: string | null;
+  transfers: HistoryTransfer[] | null;
+  payload: HistoryEventPayload | null;
+  reverted_at: string | null; // 取り消された日時（null は有効な操作）
+  reverted_by: string | null; // ロールバックで取り消された場合、そのロールバック履歴のID
 }
 
 /**
- * 操作履歴をページネーション取得（新しい順）
+ * 履歴ページネーションのカーソル（前回取得した最後のエントリ）
+ * created_at が同じエントリがページ境界をまたいでも取りこぼさないよう id も使う
+ */
+export type HistoryCursor = Pick<RoomHistoryEntry, "created_at" | "id">;
+
+/**
+ * 操作履歴をページネーション取得（新しい順、created_at が同じなら id の降順）
  * @param roomId - ルームID
- * @param cursor - 前回取得した最後のエントリの created_at（ISO文字列）。初回は省略
+ * @param cursor - 前回取得した最後のエントリ。初回は省略
  * @param limit - 取得件数（デフォルト10）
+ * @param actorId - 指定時はこのユーザーが操作したエントリのみ取得
  * @returns エントリ配列と次ページ有無
  */
 export async function fetchHistory(
   roomId: string,
-  cursor?: string,
-  limit: number = 10
+  cursor?: HistoryCursor,
+  limit: number = 10,
+  actorId?: string
 ): Promise<{ entries: RoomHistoryEntry[]; hasMore: boolean; error: Error | null }> {
-  apiLog("fetchHistory", { roomId, cursor, limit });
+  apiLog("fetchHistory", { roomId, cursor, limit, actorId });
   try {
     let query = supabase
       .from("room_history")
       .select("*")
       .eq("room_id", roomId)
       .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
       .limit(limit + 1); // 次ページ存在判定用に+1
 
     if (cursor) {
-      query = query.lt("created_at", cursor);
+      // (created_at, id) がカーソルより前のエントリ
+      query = query.or(
+        `created_at.lt."${cursor.created_at}",` +
+          `and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`
+      );
+    }
+    if (actorId) {
+      query = query.eq("actor_id", actorId);
     }
 
     const { data, error } = await query;
@@ -1404,6 +1106,62 @@ export async function fetchHistory(
   }
 }
 
+/**
+ * 操作履歴を全件取得（古い順）
+ * fetchHistory のページネーションを最後まで辿る（エクスポート用）
+ * @param roomId - ルームID
+ * @param pageSize - 1ページあたりの取得件数（デフォルト100）
+ * @returns 全エントリ（古い順）
+ */
+export async function fetchAllHistory(
+  roomId: string,
+  pageSize: number = 100
+): Promise<{ entries: RoomHistoryEntry[]; error: Error | null }> {
+  const all: RoomHistoryEntry[] = [];
+  let cursor: HistoryCursor | undefined;
+
+  while (true) {
+    const { entries, hasMore, error } = await fetchHistory(roomId, cursor, pageSize);
+    if (error) {
+      return { entries: [], error };
+    }
+    all.push(...entries);
+    if (!hasMore || entries.length === 0) break;
+    cursor = entries[entries.length - 1];
+  }
+
+  return { entries: all.reverse(), error: null };
+}
+
+/**
+ * やり直せる操作（Redo スタック）の件数を取得
+ * @param roomId - ルームID
+ */
+export async function fetchRedoCount(
+  roomId: string
+): Promise<{ count: number; error: Error | null }> {
+  apiLog("fetchRedoCount", { roomId });
+  try {
+    const { count, error } = await supabase
+      .from("room_history")
+      .select("id", { count: "exact", head: true })
+      .eq("room_id", roomId)
+      .not("redo_state", "is", null);
+
+    if (error) {
+      throw error;
+    }
+
+    return { count: count ?? 0, error: null };
+  } catch (error) {
+    console.error("Error fetching redo count:", error);
+    return {
+      count: 0,
+      error: error instanceof Error ? error : new Error("やり直し件数の取得に失敗しました"),
+    };
+  }
+}
+
 /**
  * 精算履歴を全件取得（作成日時の昇順）
  * @param roomId - ルームID
@@ -1440,3 +1198,156 @@ export async function fetchSettlements(
     };
   }
 }
+
+// ============================================
+// グループ API
+// ============================================
+
+/**
+ * 自分が所属するグループ一覧を取得（作成日時の新しい順）
+ */
+export async function fetchMyGroups(): Promise<{
+  groups: Group[];
+  error: Error | null;
+}> {
+  apiLog("fetchMyGroups");
+  try {
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      throw new Error("ユーザーが認証されていません");
+    }
+
+    const { data, error } = await supabase
+      .from("groups")
+      .select("*, group_members!inner(user_id)")
+      .eq("group_members.user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    const groups: Group[] = (data || []).map(
+      ({ group_members: _members, ...group }: any) => group as Group
+    );
+    return { groups, error: null };
+  } catch (error) {
+    console.error("Error fetching groups:", error);
+    return {
+      groups: [],
+      error: error instanceof Error ? error : new Error("グループの取得に失敗しました"),
+    };
+  }
+}
+
+/**
+ * グループを1件取得
+ * @param groupId - グループID
+ */
+export async function fetchGroup(
+  groupId: string
+): Promise<{ group: Group | null; error: Error | null }> {
+  apiLog("fetchGroup", { groupId });
+  try {
+    const { data, error } = await supabase
+      .from("groups")
+      .select("*")
+      .eq("id", groupId)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return { group: data as Group, error: null };
+  } catch (error) {
+    console.error("Error fetching group:", error);
+    return {
+      group: null,
+      error: error instanceof Error ? error : new Error("グループの取得に失敗しました"),
+    };
+  }
+}
+
+/**
+ * グループを作成（作成者はオーナー兼メンバー、DB側RPCで処理）
+ * @param name - グループ名
+ * @param defaultTemplate - 既定テンプレート（任意）
+ */
+export async function createGroup(
+  name: string,
+  defaultTemplate: GameTemplate | null = null
+): Promise<{ group: Group | null; error: Error | null }> {
+  apiLog("createGroup", { name });
+  const { data, error } = await callRpc("rpc_create_group", {
+    p_name: name,
+    p_default_template: defaultTemplate,
+  });
+  return { group: error ? null : (data?.group as Group), error };
+}
+
+/**
+ * 参加コードでグループに参加（DB側RPCで処理）
+ * @param groupCode - グループの参加コード
+ */
+export async function joinGroup(
+  groupCode: string
+): Promise<{ group: Group | null; error: Error | null }> {
+  apiLog("joinGroup", { groupCode });
+  const { data, error } = await callRpc("rpc_join_group", {
+    p_group_code: groupCode,
+  });
+  return { group: error ? null : (data?.group as Group), error };
+}
+
+/**
+ * グループから退出（オーナーは退出不可、DB側RPCで処理）
+ * @param groupId - グループID
+ */
+export async function leaveGroup(
+  groupId: string
+): Promise<{ error: Error | null }> {
+  apiLog("leaveGroup", { groupId });
+  const { error } = await callRpc("rpc_leave_group", { p_group_id: groupId });
+  return { error };
+}
+
+/**
+ * グループの既定テンプレートを設定（オーナー専用、DB側RPCで処理）
+ * @param groupId - グループID
+ * @param template - 既定テンプレート（null で解除）
+ */
+export async function setGroupDefaultTemplate(
+  groupId: string,
+  template: GameTemplate | null
+): Promise<{ error: Error | null }> {
+  apiLog("setGroupDefaultTemplate", { groupId });
+  const { error } = await callRpc("rpc_set_group_default_template", {
+    p_group_id: groupId,
+    p_template: template,
+  });
+  return { error };
+}
+
+/**
+ * グループ内ルームのプレイヤー別通算成績を取得（メンバー専用、合計の降順）
+ * @param groupId - グループID
+ * @param filter - シーズン（期間）の絞り込み
+ */
+export async function fetchGroupLeaderboard(
+  groupId: string,
+  filter: Pick<PlayerStatsFilter, "from" | "to"> = {}
+): Promise<{ stats: PlayerStats[]; error: Error | null }> {
+  apiLog("fetchGroupLeaderboard", { groupId, ...filter });
+  const { data, error } = await callRpc("rpc_get_group_leaderboard", {
+    p_group_id: groupId,
+    p_from: filter.from ?? null,
+    p_to: filter.to ?? null,
+  });
+  if (error) return { stats: [], error };
+  return { stats: toPlayerStats(data?.players), error: null };
+}
@@ -0,0 +1,90 @@
+import type { REALTIME_SUBSCRIBE_STATES } from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+import { RoomDiff } from "../types";
+
+type RoomDiffListener = (diff: RoomDiff) => void;
+
+/** 差分チャンネルの接続状態（supabase の subscribe コールバックと同じ値） */
+export type RoomDiffChannelStatus = `${REALTIME_SUBSCRIBE_STATES}`;
+type RoomDiffStatusListener = (status: RoomDiffChannelStatus) => void;
+
+interface RoomDiffSubscriber {
+  onDiff: RoomDiffListener;
+  onStatus?: RoomDiffStatusListener;
+}
+
+interface RoomDiffEntry {
+  channel: ReturnType<typeof supabase.channel>;
+  subscribers: Set<RoomDiffSubscriber>;
+  // 張り直し中（二重に作り直さない）
+  resubscribing: boolean;
+}
+
+/**
+ * ルームごとの差分チャンネル
+ * supabase.channel() は同じトピックのチャンネルを使い回すため、
+ * ゲーム画面と設定画面のように同じルームを複数箇所で購読してもチャンネルは1つにし、
+ * 購読者がいなくなった時点で破棄する
+ */
+const subscriptions = new Map<string, RoomDiffEntry>();
+
+// 差分は非公開トピックで届く（購読できるのはルームを閲覧できるユーザーのみ、040）
+function openChannel(roomId: string, subscribers: Set<RoomDiffSubscriber>) {
+  return supabase
+    .channel(`room:${roomId}`, { config: { private: true } })
+    .on("broadcast", { event: "room_diff" }, ({ payload }) => {
+      subscribers.forEach((s) => s.onDiff(payload as RoomDiff));
+    })
+    .subscribe((status) => {
+      subscribers.forEach((s) => s.onStatus?.(status));
+    });
+}
+
+/**
+ * ルームの差分（room_diff）を購読する
+ * @param onStatus - チャンネルの接続状態が変わったときに呼ばれる
+ * @returns 購読を解除する関数
+ */
+export function subscribeRoomDiff(
+  roomId: string,
+  onDiff: RoomDiffListener,
+  onStatus?: RoomDiffStatusListener
+): () => void {
+  let entry = subscriptions.get(roomId);
+  if (!entry) {
+    const subscribers = new Set<RoomDiffSubscriber>();
+    entry = { channel: openChannel(roomId, subscribers), subscribers, resubscribing: false };
+    subscriptions.set(roomId, entry);
+  }
+  const subscriber: RoomDiffSubscriber = { onDiff, onStatus };
+  entry.subscribers.add(subscriber);
+
+  return () => {
+    const current = subscriptions.get(roomId);
+    if (!current) return;
+    current.subscribers.delete(subscriber);
+    if (current.subscribers.size === 0) {
+      supabase.removeChannel(current.channel);
+      subscriptions.delete(roomId);
+    }
+  };
+}
+
+/**
+ * 差分チャンネルを作り直す（購読者はそのまま引き継ぐ）
+ * 同じトピックのチャンネルは閉じ終わるまで使い回されるため、破棄を待ってから作る
+ */
+export async function resubscribeRoomDiff(roomId: string): Promise<void> {
+  const entry = subscriptions.get(roomId);
+  if (!entry || entry.resubscribing) return;
+
+  entry.resubscribing = true;
+  try {
+    await supabase.removeChannel(entry.channel);
+  } finally {
+    entry.resubscribing = false;
+  }
+  // 待っている間に購読者がいなくなった場合は作らない
+  if (subscriptions.get(roomId) !== entry) return;
+  entry.channel = openChannel(roomId, entry.subscribers);
+}
@@ -0,0 +1,100 @@
+/**
+ * テキストファイルの書き出し・読み込み
+ * Web: ファイルとしてダウンロード / ネイティブ: キャッシュに書き出したファイルを共有シートで送信
+ * 読み込みは Web のみ（ネイティブは内容を貼り付けてもらう）
+ */
+
+import { Platform } from "react-native";
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+
+/**
+ * テキストをファイルとして書き出す
+ * @param fileName - ファイル名（Web のダウンロード名・共有タイトル）
+ * @param content - ファイル内容
+ * @param mimeType - MIME タイプ（例: "application/json"）
+ */
+export async function shareTextFile(
+  fileName: string,
+  content: string,
+  mimeType: string
+): Promise<{ error: Error | null }> {
+  try {
+    // CSV は Excel で文字化けしないよう BOM を付与
+    const body = mimeType === "text/csv" ? "\uFEFF" + content : content;
+
+    if (Platform.OS === "web") {
+      const blob = new Blob([body], { type: `${mimeType};charset=utf-8` });
+      const url = URL.createObjectURL(blob);
+      const anchor = document.createElement("a");
+      anchor.href = url;
+      anchor.download = fileName;
+      anchor.click();
+      URL.revokeObjectURL(url);
+      return { error: null };
+    }
+
+    if (!(await Sharing.isAvailableAsync())) {
+      return { error: new Error("この端末ではファイルを共有できません") };
+    }
+    const file = new File(Paths.cache, fileName);
+    file.create({ overwrite: true });
+    file.write(body);
+    await Sharing.shareAsync(file.uri, { mimeType, dialogTitle: fileName });
+    return { error: null };
+  } catch (error) {
+    console.error("Error sharing file:", error);
+    return {
+      error:
+        error instanceof Error ? error : new Error("ファイルの書き出しに失敗しました"),
+    };
+  }
+}
+
+/**
+ * テキストファイルを選択して内容を読み込む（Web のみ）
+ * @param accept - 受け付けるファイル種別（例: ".json,application/json"）
+ * @returns ファイル内容。キャンセル時・ネイティブでは null
+ */
+export function pickTextFile(accept: string): Promise<string | null> {
+  if (Platform.OS !== "web") return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = accept;
+
+    let settled = false;
+    const settle = (content: string | null) => {
+      if (settled) return;
+      settled = true;
+      window.removeEventListener("focus", handleFocus);
+      resolve(content);
+    };
+    // ダイアログを閉じると cancel が届く（未対応のブラウザは画面へのフォーカス復帰で判定）
+    // フォーカスは change より先に戻ることがあるため、少し待ってからファイルの有無を見る
+    const handleFocus = () => {
+      setTimeout(() => {
+        if (!input.files?.length) settle(null);
+      }, 500);
+    };
+
+    input.addEventListener("cancel", () => settle(null));
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) {
+        settle(null);
+        return;
+      }
+      file
+        .text()
+        .then(settle)
+        .catch((error) => {
+          console.error("Error reading file:", error);
+          settle(null);
+        });
+    };
+    window.addEventListener("focus", handleFocus);
+    input.click();
+  });
+}
@@ -76,6 +76,21 @@ export interface Room {
   template: GameTemplate;
   current_state: GameState;
   seats: (SeatInfo | null)[]; // 座席配列 [Bottom, Right, Top, Left]
+  group_id?: string | null; // 所属グループ（任意）
+  state_version?: number; // 更新ごとに増えるバージョン（033 で追加、楽観的排他・Realtime の順序判定用）
+  created_at: string;
+}
+
+/**
+ * グループ (groups テーブル)
+ * 定期開催のメンバーでルームをまとめ、通算成績を集計する単位
+ */
+export interface Group {
+  id: string;
+  name: string;
+  group_code: string; // メンバー参加用のコード（6文字）
+  owner_user_id: string;
+  default_template: GameTemplate | null; // ルーム作成時の既定テンプレート
   created_at: string;
 }
 
@@ -119,15 +134,78 @@ export interface PotAction {
   transfers: PotTransfer[]; // 転送リスト（複数変数対応）
 }
 
+/**
+ * カスタム操作の移動元・移動先
+ * - actor: 実行者（操作の対象に選んだプレイヤー）
+ * - others: 実行者以外の参加者それぞれ
+ * - pot: 供託
+ * - bank: 場（ゲーム外から得る / ゲーム外へ失う）
+ */
+export type CustomActionParty = "actor" | "others" | "pot" | "bank";
+
+/**
+ * カスタム操作の1行（例: others → actor に score 500 = 他の全員が実行者に 500 ずつ支払う）
+ */
+export interface CustomActionLeg {
+  from: CustomActionParty;
+  to: CustomActionParty;
+  variable: string; // 対象の変数キー
+  amount: number; // 1人あたりの移動量
+}
+
+/**
+ * カスタム操作定義（テンプレートのマクロ、rpc_run_custom_action で評価）
+ */
+export interface CustomAction {
+  id: string; // 一意のID
+  label: string; // 表示名（例: "ボーナス"）
+  legs: CustomActionLeg[];
+}
+
+/**
+ * 精算時の端数処理
+ * - gosha_rokunyu: 五捨六入（素点を割る数単位で丸め、.5 は切り捨て・.6 以上は切り上げ）
+ * - shisha_gonyu: 四捨五入（素点を割る数単位で丸め、.5 以上は切り上げ）
+ * - floor: 小数点第一位まで切り捨て（従来の動作）
+ * - none: 丸めなし
+ */
+export type SettlementRounding =
+  | "gosha_rokunyu"
+  | "shisha_gonyu"
+  | "floor"
+  | "none";
+
+/**
+ * 同点時の扱い
+ * - reject: 精算不可（先に順位を確定させる、従来の動作）
+ * - seat_order: 起家から近い座席順で上位とする
+ */
+export type SettlementTieBreak = "reject" | "seat_order";
+
+/**
+ * 人数別の順位点テーブル（2〜8人）
+ * 例: { 3: [1位, 2位, 3位], 4: [1位, 2位, 3位, 4位] }
+ * 該当人数のテーブルがない場合、順位点は 0 として扱う
+ */
+export type RankBonusTable = { [playerCount: number]: number[] };
+
 /**
  * 精算設定
  */
 export interface SettlementConfig {
+  variable?: string; // 精算対象の変数キー（デフォルト: "score"）
   divider: number; // 割る数（デフォルト: 1000）
-  rankBonuses: {
-    3: number[]; // 3人時の順位点 [1位, 2位, 3位]
-    4: number[]; // 4人時の順位点 [1位, 2位, 3位, 4位]
-  };
+  rankBonuses: RankBonusTable; // 人数別の順位点
+  // 合計点チェック（初期値 × 人数と一致すること、デフォルト: true）。
+  // 有効時は最下位が端数を吸収してゼロサムに揃える
+  zeroSumCheck?: boolean;
+  rate?: number; // 換算レート（割った値 × rate が最終結果、デフォルト: 1）
+  // 返し（例: 30000）。指定時は rankBonuses をウマのみとして扱い、
+  // (素点 - 返し) にウマを加算し、オカ ((返し - 持ち点) × 人数) をトップに加算する。
+  // 未指定時は rankBonuses に返し・オカが織り込み済みとみなす（従来の動作）
+  returnScore?: number;
+  tieBreak?: SettlementTieBreak; // 同点時の扱い（デフォルト: "reject"）
+  rounding?: SettlementRounding; // 端数処理（デフォルト: "floor"）
 }
 
 /**
@@ -142,7 +220,10 @@ export interface GameTemplate {
   maxPlayers?: number; // 最大プレイヤー数（麻雀モードでは4）
   potEnabled?: boolean; // 供託金機能の有効化
   potActions?: PotAction[]; // Pot操作の定義リスト
+  customActions?: CustomAction[]; // カスタム操作の定義リスト
+  computedVariables?: ComputedVariable[]; // 計算変数の定義リスト（読み取り専用）
   forceLeaveTimeoutSec?: number; // 切断後の強制離席までの秒数
+  endOnBust?: boolean; // 飛び（allowNegative: "warn" の変数が負）で精算を促すか
   settlementConfig?: SettlementConfig; // 精算設定
 }
 
@@ -155,6 +236,26 @@ export interface Variable {
   label: string;
   initial: number;
   quickAmounts?: number[]; // クイック選択ボタンの金額リスト（将来的に部屋ごとにカスタマイズ可能）
+  min?: number; // 下限（未設定は制限なし）
+  max?: number; // 上限（未設定は制限なし）
+  step?: number; // 値の刻み（例: 100 → 100点単位）
+  allowNegative?: NegativePolicy; // 負の値の扱い（デフォルトは "allow"）
+}
+
+/**
+ * 負の値の扱い
+ * forbid: 負になる操作を拒否 / warn: 許可して通知（麻雀の飛び） / allow: 制限なし
+ */
+export type NegativePolicy = "forbid" | "warn" | "allow";
+
+/**
+ * 計算変数定義（他の変数から計算する読み取り専用の値、current_state には保存しない）
+ * 例: { key: "total", label: "合計", expression: "score + bonus * 10" }
+ */
+export interface ComputedVariable {
+  key: string;
+  label: string;
+  expression: string; // 計算式（utils/expressionUtils で評価）
 }
 
 /**
@@ -180,11 +281,11 @@ export interface PotState {
 export interface SettlementPlayerResult {
   displayName: string;
   finalScore: number; // 精算前の最終スコア
-  rank: number; // 順位（1〜4）
-  rankBonus: number; // 順位点（+10000, -20000等）
+  rank: number; // 順位（1〜人数）
+  rankBonus: number; // 順位点（+10000, -20000等、返し指定時は返し・オカ込み）
   adjustedScore: number; // 順位点適用後のスコア
-  divided: number; // 1000で割った値（端数調整前、小数点第一位まで）
-  result: number; // 最終結果（端数調整後、表に表示される値、小数点第一位まで）
+  divided: number; // 割る数で割った値（端数調整前、rounding に従って丸め済み）
+  result: number; // 最終結果（レート換算・端数調整後、表に表示される値）
 }
 
 /**
@@ -199,6 +300,67 @@ export interface Settlement {
   };
 }
 
+/**
+ * ゲーム記録エクスポート（JSON ファイル形式）
+ * 取り込み側の互換性判定のため format / version を必ず含める
+ */
+export interface GameRecordExport {
+  format: "local-sync-board/game-record";
+  version: number; // エクスポート形式のバージョン（EXPORT_FORMAT_VERSION）
+  exportedAt: string; // ISO 8601
+  room: {
+    id: string;
+    room_code: string;
+    room_name: string | null;
+    status: Room["status"];
+    host_user_id: string;
+    created_at: string;
+  };
+  template: GameTemplate;
+  seats: (SeatInfo | null)[];
+  currentState: GameState; // エクスポート時点の current_state
+  history: {
+    id: string;
+    message: string;
+    snapshot: GameStateSnapshot;
+    created_at: string;
+    // 構造化イベント（version 2 から。version 1 の記録は取り込み時に null で補う）
+    event_type?: HistoryEventType | null;
+    actor_id?: string | null;
+    actor_name?: string | null;
+    from_id?: string | null;
+    to_id?: string | null;
+    transfers?: HistoryTransfer[] | null;
+    payload?: HistoryEventPayload | null;
+    reverted_at?: string | null; // 取り消し済みの場合はその日時
+  }[]; // room_history 全件（古い順、取り消し済みを含む）
+  settlements: Settlement[]; // room_settlements 全件（古い順）
+}
+
+/**
+ * ルーム横断のプレイヤー通算成績（rpc_get_player_stats）
+ * ゲストはルームごとに別のプレイヤーとして集計される（表示名では名寄せしない）
+ */
+export interface PlayerStats {
+  playerKey: string; // 実ユーザーはユーザーID、ゲストは "guest:<ルームID>:<ゲストID>"
+  displayName: string; // 最新の精算行の表示名
+  isGuest: boolean;
+  isMe: boolean;
+  games: number; // 精算（半荘）数、調整行は含めない
+  totalResult: number; // 精算行 + 調整行の合計
+  averageRank: number | null; // 平均順位（精算なしの場合 null）
+  rankCounts: { [rank: number]: number }; // 順位ごとの回数
+  bestResult: number | null; // 1回の精算での最高結果
+  worstResult: number | null; // 1回の精算での最低結果
+}
+
+/** 成績の絞り込み条件 */
+export interface PlayerStatsFilter {
+  from?: string; // ISO 8601（以上）
+  to?: string; // ISO 8601（未満）
+  layoutMode?: LayoutMode;
+}
+
 /**
  * プレイヤー状態
  * 各プレイヤーの変数値とステータス
@@ -228,6 +390,87 @@ export interface HistoryEntry {
   snapshot: GameStateSnapshot; // その時点のステート（操作前の状態）
 }
 
+/**
+ * room_history の操作の種類（event_type）
+ * 021 以前の行は null
+ */
+export type HistoryEventType =
+  | "transfer"
+  | "force_edit"
+  | "reset"
+  | "rollback"
+  | "settlement"
+  | "adjustment"
+  | "join_seat"
+  | "leave_seat"
+  | "force_leave_seat"
+  | "join_fake_seat"
+  | "reseat_fake_player"
+  | "remove_fake_player"
+  | "import"
+  | "round"
+  | "win"
+  | "multi_transfer"
+  | "draw"
+  | "custom_action";
+
+/** room_history.transfers の1要素（移動した変数と量） */
+export interface HistoryTransfer {
+  variable: string;
+  amount: number;
+}
+
+/**
+ * room_history.payload（操作ごとの付加情報）
+ * event_type によって含まれるキーが異なる
+ */
+export interface HistoryEventPayload {
+  fromName?: string; // transfer: 移動元の表示名
+  toName?: string; // transfer: 移動先の表示名
+  name?: string; // force_edit / 座席操作: 対象プレイヤーの表示名
+  reason?: "timeout"; // force_leave_seat: サーバーの切断タイムアウトによる離席
+  values?: { [variable: string]: number }; // force_edit: 上書き後の値
+  variables?: string[]; // reset: リセットした変数キー
+  targetCreatedAt?: string; // rollback: 戻した先の履歴の日時
+  settlementId?: string; // settlement / adjustment
+  results?: {
+    [userId: string]: { displayName: string; rank?: number; result: number };
+  }; // settlement / adjustment: 結果（調整行は 0 以外のみ）
+  settlementCount?: number; // import: 取り込んだ精算回数
+  roundResult?: RoundResult; // round / win: 局結果（局リセット・局を進めなかった和了では無し）
+  dealerTenpai?: boolean; // round / draw: 流局時に親がテンパイか
+  round?: RoundState; // round / draw / win: 進行後の局（draw・win は局も進めた場合のみ）
+  payments?: { fromId: string; fromName: string; amount: number }[]; // win: 支払い者ごとの支払い
+  pot?: PotState; // win: 和了者が受け取った供託
+  winType?: WinType; // win: ロン / ツモ
+  han?: number; // win
+  fu?: number; // win
+  honba?: number; // win: 和了時の本場
+  isDealer?: boolean; // win: 和了者が親か
+  legs?: {
+    fromId: string;
+    fromName: string;
+    toId: string;
+    toName: string;
+    transfers: HistoryTransfer[];
+  }[]; // multi_transfer: 移動ごとの内訳
+  variable?: string; // draw: 支払った変数
+  drawResults?: {
+    playerId: string;
+    name: string;
+    tenpai: boolean;
+    amount: number;
+  }[]; // draw: 着席者ごとの収支（テンパイ +、ノーテン -）
+  actionId?: string; // custom_action: 実行した操作のID
+  label?: string; // custom_action: 操作の表示名
+  deltas?: {
+    id: string; // プレイヤーID or "__pot__"
+    name: string;
+    variable: string;
+    amount: number;
+  }[]; // custom_action: 参加者・変数ごとの増減（場との増減も含む）
+}
+
 /**
  * __recent_log__ のエントリ型（プレビュー表示用、最新5件をリングバッファで保持）
  */
@@ -235,18 +478,71 @@ export interface RecentLogEntry {
   id: string;
   timestamp: number;
   message: string;
+  actorId?: string; // 操作したユーザー（022 以前のエントリには無い）
+  actorName?: string; // 操作時点の操作者の表示名
+  clientOpId?: string; // 操作したクライアントが付けた操作ID（楽観的更新の照合用）
+}
+
+/**
+ * 場風
+ */
+export type RoundWind = "east" | "south" | "west" | "north";
+
+/**
+ * 局結果
+ * - dealer_win: 親のアガリ（連荘）
+ * - draw: 流局（親テンパイなら連荘、ノーテンなら親流れ）
+ * - non_dealer_win: 子のアガリ（親流れ）
+ */
+export type RoundResult = "dealer_win" | "draw" | "non_dealer_win";
+
+/**
+ * 一括移動の1件（rpc_transfer_multi の入力）
+ */
+export interface TransferLeg {
+  from: string; // プレイヤーID or "__pot__"
+  to: string; // プレイヤーID or "__pot__"
+  transfers: { variable: string; amount: number }[];
+}
+
+/**
+ * 和了の種類
+ */
+export type WinType = "ron" | "tsumo";
+
+/**
+ * 和了の内容（rpc_apply_win の履歴表示用）
+ */
+export interface WinDetail {
+  winType: WinType;
+  han: number;
+  fu: number;
+  honba: number;
+  isDealer: boolean; // 和了者が親か
+}
+
+/**
+ * 麻雀の局の状態（__round__、rpc_advance_round で進行）
+ */
+export interface RoundState {
+  wind: RoundWind; // 場風
+  hand: number; // 局（1〜座席数）
+  honba: number; // 本場
+  dealerSeat: number; // 親の座席インデックス
+  startSeat: number; // 起家の座席インデックス
 }
 
 /**
  * ゲーム状態（拡張版）
  * 全プレイヤーの現在の値を保持
- * 注意: "__pot__", "__recent_log__"は予約キーとして使用
+ * 注意: "__pot__", "__recent_log__", "__count__", "__round__"は予約キーとして使用
  * 履歴は room_history テーブル、精算は room_settlements テーブルに分離済み
  */
 export type GameState = {
   __pot__?: PotState; // 供託金エリア（予約キー）
   __recent_log__?: RecentLogEntry[]; // 直近の操作ログ（プレビュー用、最新5件）
   __count__?: number; // カウンター同期値（予約キー）
+  __round__?: RoundState; // 麻雀の局（予約キー、未設定は東1局 0本場）
 } & {
   [userId: string]: PlayerState; // プレイヤー
 };
@@ -261,6 +557,35 @@ export interface RecentRoom {
   joinedAt: number; // Date.now()
   templateName: string; // "麻雀" etc.
   roomName?: string;
+  groupName?: string; // 所属グループ名
+}
+
+/**
+ * サーバーの確定を待っているスコア移動
+ * オフライン中の送信待ち（AsyncStorage保存、再接続時に古い順に送信）と、
+ * 送信済みで Realtime の更新待ちの楽観的な反映の両方で使う
+ */
+export interface QueuedOperation {
+  id: string; // クライアントで生成したID
+  type: "transfer";
+  fromId: string;
+  toId: string;
+  transfers: { variable: string; amount: number }[];
+  fromName?: string;
+  toName?: string;
+  baseHash: string; // 操作した時点の状態のハッシュ（競合判定用）
+  createdAt: number; // Date.now()
+}
+
+/**
+ * Broadcast で届くルームの差分（034_room_diff_broadcast.sql）
+ * version が手元の state_version + 1 のときだけ適用でき、飛んでいれば全体を取得し直す
+ */
+export interface RoomDiff {
+  version: number; // 更新後の state_version
+  state?: Record<string, unknown>; // current_state の変更（オブジェクトは変わったキーのみ、null は削除）
+  log?: RecentLogEntry[]; // 追加された直近ログ
+  columns?: Partial<Omit<Room, "id" | "current_state" | "state_version">>; // その他の変更されたカラム
 }
 
 export interface ConnectionStatus {
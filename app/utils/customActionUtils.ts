@@ -0,0 +1,112 @@
+/**
+ * カスタム操作（テンプレートのマクロ）の純粋関数
+ * 定義の検証・表示と、実行時の増減の計算（rpc_run_custom_action と同じ評価）を行う
+ */
+
+import {
+  CustomAction,
+  CustomActionLeg,
+  CustomActionParty,
+  Variable,
+} from "../types";
+
+/** 移動元・移動先の表示名 */
+export const CUSTOM_ACTION_PARTY_LABELS: Record<CustomActionParty, string> = {
+  actor: "実行者",
+  others: "他の全員",
+  pot: "供託",
+  bank: "場",
+};
+
+/** 参加者・変数ごとの増減 */
+export interface CustomActionDelta {
+  id: string; // プレイヤーID or "__pot__"
+  variable: string;
+  amount: number;
+}
+
+/**
+ * 1行の定義を検証（問題なければ null、あればエラーメッセージ）
+ */
+export function validateCustomActionLeg(
+  leg: CustomActionLeg,
+  variables: Variable[]
+): string | null {
+  if (leg.from === leg.to) return "移動元と移動先が同じです。";
+  if (!(leg.amount > 0)) return "量は1以上を入力してください。";
+  if (!variables.some((v) => v.key === leg.variable)) {
+    return "無効な変数が選択されています。";
+  }
+  return null;
+}
+
+/**
+ * 1行の表示（例: "他の全員 → 実行者: 点数 500"）
+ */
+export function formatCustomActionLeg(
+  leg: CustomActionLeg,
+  variables: Variable[]
+): string {
+  const label = variables.find((v) => v.key === leg.variable)?.label || leg.variable;
+  return `${CUSTOM_ACTION_PARTY_LABELS[leg.from]} → ${CUSTOM_ACTION_PARTY_LABELS[leg.to]}: ${label} ${leg.amount}`;
+}
+
+/**
+ * プレイヤー権限で実行できるか
+ * 他の参加者から支払わせる操作はホストのみ（他人のスコアを動かすため）
+ */
+export function canPlayerRunCustomAction(action: CustomAction): boolean {
+  return !action.legs.some((leg) => leg.from === "others");
+}
+
+/**
+ * 実行したときの増減を計算（場との増減は含めない）
+ * @param action - 操作定義
+ * @param actorId - 実行者のプレイヤーID
+ * @param playerIds - 参加者全員のプレイヤーID（実行者を含む）
+ * @returns 最初に現れた順の参加者・変数ごとの増減（0 は除く）
+ */
+export function calculateCustomActionDeltas(
+  action: CustomAction,
+  actorId: string,
+  playerIds: string[]
+): CustomActionDelta[] {
+  const others = playerIds.filter((id) => id !== actorId);
+  const deltas: CustomActionDelta[] = [];
+
+  const resolve = (party: CustomActionParty): string[] => {
+    switch (party) {
+      case "actor":
+        return [actorId];
+      case "others":
+        return others;
+      case "pot":
+        return ["__pot__"];
+      case "bank":
+        return [];
+    }
+  };
+
+  const add = (id: string, variable: string, amount: number) => {
+    const existing = deltas.find((d) => d.id === id && d.variable === variable);
+    if (existing) {
+      existing.amount += amount;
+    } else {
+      deltas.push({ id, variable, amount });
+    }
+  };
+
+  for (const leg of action.legs) {
+    const froms = resolve(leg.from);
+    const tos = resolve(leg.to);
+    // 「他の全員」は1人ずつ移動する（他の全員 → 実行者 なら実行者は人数分受け取る）
+    for (const id of froms) {
+      add(id, leg.variable, -leg.amount * (leg.to === "others" ? tos.length : 1));
+    }
+    for (const id of tos) {
+      add(id, leg.variable, leg.amount * (leg.from === "others" ? froms.length : 1));
+    }
+  }
+
+  return deltas.filter((d) => d.amount !== 0);
+}
@@ -0,0 +1,141 @@
+/**
+ * ゲーム記録エクスポート（純粋関数）
+ * JSON（全記録）と CSV（精算表）の生成を行う
+ */
+
+import { GameRecordExport, Room, Settlement } from "../types";
+import type { RoomHistoryEntry } from "../lib/roomApi";
+
+/** エクスポート形式の識別子 */
+export const EXPORT_FORMAT = "local-sync-board/game-record";
+
+/**
+ * エクスポート形式のバージョン
+ * フィールドの追加・変更時にインクリメントし、取り込み側で判定する
+ * （古いバージョンは importUtils の upgradeGameRecord で現在の形式に変換する）
+ *   1: 初版
+ *   2: 履歴に構造化イベント（event_type 〜 payload）・actor_name・reverted_at を追加
+ */
+export const EXPORT_FORMAT_VERSION = 2;
+
+/** 精算表の列（プレイヤー） */
+export interface ExportPlayerColumn {
+  userId: string;
+  displayName: string;
+}
+
+/**
+ * ゲーム記録を生成
+ * @param room - ルーム（テンプレート・最終 current_state を含む）
+ * @param history - room_history 全件（古い順）
+ * @param settlements - room_settlements 全件（古い順）
+ * @param now - エクスポート日時（テスト用）
+ */
+export function buildGameRecord(
+  room: Room,
+  history: RoomHistoryEntry[],
+  settlements: Settlement[],
+  now: Date = new Date()
+): GameRecordExport {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: now.toISOString(),
+    room: {
+      id: room.id,
+      room_code: room.room_code,
+      room_name: room.room_name,
+      status: room.status,
+      host_user_id: room.host_user_id,
+      created_at: room.created_at,
+    },
+    template: room.template,
+    seats: room.seats ?? [],
+    currentState: room.current_state ?? {},
+    history: history.map((h) => ({
+      id: h.id,
+      message: h.message,
+      snapshot: h.snapshot,
+      created_at: h.created_at,
+      event_type: h.event_type,
+      actor_id: h.actor_id,
+      actor_name: h.actor_name,
+      from_id: h.from_id,
+      to_id: h.to_id,
+      transfers: h.transfers,
+      payload: h.payload,
+      reverted_at: h.reverted_at,
+    })),
+    settlements,
+  };
+}
+
+/**
+ * CSV フィールドのエスケープ（カンマ・改行・ダブルクォートを含む場合はクォート）
+ * 表計算ソフトで数式として評価されないよう、= + - @ で始まる文字列は先頭に ' を付ける
+ * （負の数などの数値はそのまま）
+ */
+function escapeCsvField(value: string): string {
+  if (/^[=+\-@]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value)) {
+    value = `'${value}`;
+  }
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * 精算表を CSV に変換
+ * 列: 回, 種別, 日時, プレイヤー... / 最終行に合計
+ * 調整行の「回」は空欄、結果のないプレイヤーは空欄
+ */
+export function settlementsToCsv(
+  settlements: Settlement[],
+  columns: ExportPlayerColumn[]
+): string {
+  const lines: string[][] = [];
+  lines.push(["回", "種別", "日時", ...columns.map((c) => c.displayName)]);
+
+  const totals: { [userId: string]: number } = {};
+  let hanchanIndex = 0;
+
+  for (const s of settlements) {
+    const isAdjustment = s.type === "adjustment";
+    if (!isAdjustment) hanchanIndex++;
+    lines.push([
+      isAdjustment ? "" : String(hanchanIndex),
+      isAdjustment ? "調整" : "精算",
+      new Date(s.timestamp).toISOString(),
+      ...columns.map((c) => {
+        const pr = s.playerResults[c.userId];
+        if (!pr) return "";
+        totals[c.userId] = (totals[c.userId] || 0) + pr.result;
+        return String(pr.result);
+      }),
+    ]);
+  }
+
+  lines.push([
+    "合計",
+    "",
+    "",
+    ...columns.map((c) => String(Math.round((totals[c.userId] || 0) * 1e6) / 1e6)),
+  ]);
+
+  return lines.map((row) => row.map(escapeCsvField).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * エクスポートファイル名を生成（例: "room-1234-20260101.json"）
+ */
+export function exportFileName(
+  room: Pick<Room, "room_code">,
+  extension: "json" | "csv",
+  now: Date = new Date()
+): string {
+  const y = now.getFullYear();
+  const m = String(now.getMonth() + 1).padStart(2, "0");
+  const d = String(now.getDate()).padStart(2, "0");
+  return `room-${room.room_code}-${y}${m}${d}.${extension}`;
+}
@@ -0,0 +1,340 @@
+/**
+ * 計算式の純粋関数（計算変数用）
+ * 四則演算・括弧・単項マイナスと min / max / abs / floor / ceil / round のみを解釈する。
+ * eval や Function は使わず、字句解析 → 構文木 → 評価を自前で行う。
+ * 例: "score + bonus * 10", "max(score, 0) / 1000"
+ */
+
+import { ComputedVariable, PlayerState, Variable } from "../types";
+
+/** 計算式の構文・評価エラー */
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExpressionError";
+  }
+}
+
+/** 構文木 */
+export type ExpressionNode =
+  | { type: "number"; value: number }
+  | { type: "variable"; key: string }
+  | { type: "unary"; operand: ExpressionNode }
+  | { type: "binary"; op: "+" | "-" | "*" | "/"; left: ExpressionNode; right: ExpressionNode }
+  | { type: "call"; name: ExpressionFunction; args: ExpressionNode[] };
+
+type ExpressionFunction = "min" | "max" | "abs" | "floor" | "ceil" | "round";
+
+type Operator = "+" | "-" | "*" | "/" | "(" | ")" | ",";
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "identifier"; name: string }
+  | { type: "op"; op: Operator };
+
+/** 使用可能な関数と引数の数（null は1個以上） */
+const FUNCTIONS: Record<ExpressionFunction, number | null> = {
+  min: null,
+  max: null,
+  abs: 1,
+  floor: 1,
+  ceil: 1,
+  round: 1,
+};
+
+/** 式の長さ・ネストの上限（悪意のある入力で固まらないように） */
+const MAX_EXPRESSION_LENGTH = 200;
+const MAX_DEPTH = 32;
+
+function tokenize(expression: string): Token[] {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`計算式は${MAX_EXPRESSION_LENGTH}文字以内で入力してください`);
+  }
+
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const ch = expression[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)/.exec(expression.slice(i));
+      if (!match) throw new ExpressionError(`数値が不正です: ${ch}`);
+      tokens.push({ type: "number", value: Number(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expression.slice(i))!;
+      tokens.push({ type: "identifier", name: match[0] });
+      i += match[0].length;
+      continue;
+    }
+
+    if ("+-*/(),".includes(ch)) {
+      tokens.push({ type: "op", op: ch as Operator });
+      i++;
+      continue;
+    }
+
+    throw new ExpressionError(`使用できない文字です: ${ch}`);
+  }
+  return tokens;
+}
+
+/**
+ * 計算式を構文木に変換
+ * 文法: expr = term (("+" | "-") term)*
+ *       term = unary (("*" | "/") unary)*
+ *       unary = "-" unary | primary
+ *       primary = number | identifier | identifier "(" expr ("," expr)* ")" | "(" expr ")"
+ * @throws ExpressionError 構文が不正な場合
+ */
+export function parseExpression(expression: string): ExpressionNode {
+  const tokens = tokenize(expression);
+  let pos = 0;
+  let depth = 0;
+
+  const peekOp = (): string | null => {
+    const token = tokens[pos];
+    return token?.type === "op" ? token.op : null;
+  };
+
+  const expectOp = (op: string) => {
+    if (peekOp() !== op) {
+      throw new ExpressionError(`「${op}」が必要です`);
+    }
+    pos++;
+  };
+
+  const enter = () => {
+    if (++depth > MAX_DEPTH) throw new ExpressionError("計算式が複雑すぎます");
+  };
+
+  const parseExpr = (): ExpressionNode => {
+    enter();
+    let node = parseTerm();
+    while (peekOp() === "+" || peekOp() === "-") {
+      const op = peekOp() as "+" | "-";
+      pos++;
+      node = { type: "binary", op, left: node, right: parseTerm() };
+    }
+    depth--;
+    return node;
+  };
+
+  const parseTerm = (): ExpressionNode => {
+    let node = parseUnary();
+    while (peekOp() === "*" || peekOp() === "/") {
+      const op = peekOp() as "*" | "/";
+      pos++;
+      node = { type: "binary", op, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (peekOp() === "-") {
+      pos++;
+      enter();
+      const operand = parseUnary();
+      depth--;
+      return { type: "unary", operand };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = tokens[pos];
+    if (!token) throw new ExpressionError("計算式が途中で終わっています");
+
+    if (token.type === "number") {
+      pos++;
+      return { type: "number", value: token.value };
+    }
+
+    if (token.type === "identifier") {
+      pos++;
+      if (peekOp() !== "(") {
+        return { type: "variable", key: token.name };
+      }
+      if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, token.name)) {
+        throw new ExpressionError(`使用できない関数です: ${token.name}`);
+      }
+      const name = token.name as ExpressionFunction;
+      pos++;
+      const args = [parseExpr()];
+      while (peekOp() === ",") {
+        pos++;
+        args.push(parseExpr());
+      }
+      expectOp(")");
+      const arity = FUNCTIONS[name];
+      if (arity !== null && args.length !== arity) {
+        throw new ExpressionError(`${name} の引数は${arity}個です`);
+      }
+      return { type: "call", name, args };
+    }
+
+    if (token.op === "(") {
+      pos++;
+      const node = parseExpr();
+      expectOp(")");
+      return node;
+    }
+
+    throw new ExpressionError(`「${token.op}」の位置が不正です`);
+  };
+
+  if (tokens.length === 0) throw new ExpressionError("計算式を入力してください");
+  const ast = parseExpr();
+  if (pos < tokens.length) {
+    throw new ExpressionError("計算式の末尾が不正です");
+  }
+  return ast;
+}
+
+function applyBinary(op: "+" | "-" | "*" | "/", left: number, right: number): number {
+  switch (op) {
+    case "+":
+      return left + right;
+    case "-":
+      return left - right;
+    case "*":
+      return left * right;
+    case "/":
+      if (right === 0) throw new ExpressionError("0 で割ることはできません");
+      return left / right;
+  }
+}
+
+function applyFunction(name: ExpressionFunction, args: number[]): number {
+  switch (name) {
+    case "min":
+      return Math.min(...args);
+    case "max":
+      return Math.max(...args);
+    case "abs":
+      return Math.abs(args[0]);
+    case "floor":
+      return Math.floor(args[0]);
+    case "ceil":
+      return Math.ceil(args[0]);
+    case "round":
+      return Math.round(args[0]);
+  }
+}
+
+/**
+ * 構文木を評価
+ * 値の無い変数は 0 として扱う
+ * @throws ExpressionError 0 で割った場合
+ */
+export function evaluateExpression(
+  node: ExpressionNode,
+  values: Record<string, unknown>
+): number {
+  switch (node.type) {
+    case "number":
+      return node.value;
+    case "variable": {
+      const value = Object.prototype.hasOwnProperty.call(values, node.key)
+        ? values[node.key]
+        : undefined;
+      return typeof value === "number" ? value : 0;
+    }
+    case "unary":
+      return -evaluateExpression(node.operand, values);
+    case "binary":
+      return applyBinary(
+        node.op,
+        evaluateExpression(node.left, values),
+        evaluateExpression(node.right, values)
+      );
+    case "call":
+      return applyFunction(
+        node.name,
+        node.args.map((arg) => evaluateExpression(arg, values))
+      );
+  }
+}
+
+/**
+ * 計算式が参照する変数キー（出現順・重複なし）
+ */
+export function getExpressionVariables(node: ExpressionNode): string[] {
+  const keys: string[] = [];
+  const visit = (n: ExpressionNode) => {
+    switch (n.type) {
+      case "variable":
+        if (!keys.includes(n.key)) keys.push(n.key);
+        break;
+      case "unary":
+        visit(n.operand);
+        break;
+      case "binary":
+        visit(n.left);
+        visit(n.right);
+        break;
+      case "call":
+        n.args.forEach(visit);
+        break;
+    }
+  };
+  visit(node);
+  return keys;
+}
+
+/**
+ * 計算式を検証（問題なければ null、あればエラーメッセージ）
+ * @param allowedKeys - 参照できる変数キー
+ */
+export function validateExpression(
+  expression: string,
+  allowedKeys: string[]
+): string | null {
+  try {
+    const ast = parseExpression(expression);
+    const unknown = getExpressionVariables(ast).filter((key) => !allowedKeys.includes(key));
+    if (unknown.length > 0) {
+      return `定義されていない変数です: ${unknown.join(", ")}`;
+    }
+    return null;
+  } catch (error) {
+    if (error instanceof ExpressionError) return error.message;
+    throw error;
+  }
+}
+
+/**
+ * 計算変数の値を求める（計算できない場合は null）
+ * @param playerState - プレイヤー（または初期値）の変数の値
+ */
+export function computeVariableValue(
+  computed: ComputedVariable,
+  playerState: PlayerState | Record<string, unknown>
+): number | null {
+  try {
+    return evaluateExpression(parseExpression(computed.expression), playerState);
+  } catch (error) {
+    if (error instanceof ExpressionError) return null;
+    throw error;
+  }
+}
+
+/**
+ * 初期値から計算変数の初期値を求める
+ */
+export function computeInitialValue(
+  computed: ComputedVariable,
+  variables: Variable[]
+): number | null {
+  const initials: Record<string, number> = {};
+  for (const v of variables) initials[v.key] = v.initial;
+  return computeVariableValue(computed, initials);
+}
@@ -0,0 +1,209 @@
+/**
+ * 操作履歴の表示用ユーティリティ（純粋関数）
+ * room_history の構造化カラム（event_type / from_id / to_id / transfers / payload）から
+ * 表示文言を組み立てる。event_type の無い古い行は message をそのまま使う
+ */
+
+import { GameState, Variable } from "../types";
+import type { RoomHistoryEntry } from "../lib/roomApi";
+import { formatRound, ROUND_RESULT_LABELS } from "./roundUtils";
+import { formatHand } from "./mahjongScoreUtils";
+
+/** 文言の組み立てに使う構造化カラム */
+export type HistoryEventFields = Pick<
+  RoomHistoryEntry,
+  "message" | "event_type" | "from_id" | "to_id" | "transfers" | "payload"
+>;
+
+/** 変数キーから表示ラベルを取得（テンプレートに無ければキーのまま） */
+function variableLabel(variables: Variable[], key: string): string {
+  return variables.find((v) => v.key === key)?.label || key;
+}
+
+/** 結果値の符号付き表示（+10 / -5.5） */
+function formatSigned(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value}`;
+}
+
+/**
+ * 移動元・移動先の表示名
+ * 名前が記録されていなければ Pot は「供託」、プレイヤーはID先頭8文字
+ */
+function participantName(
+  id: string | null,
+  name: string | undefined,
+  side: "from" | "to"
+): string {
+  if (name) return name;
+  if (id === "__pot__") return side === "from" ? "供託回収" : "供託";
+  return (id ?? "").slice(0, 8);
+}
+
+/**
+ * 履歴エントリの表示文言を生成
+ * @param entry - room_history の行
+ * @param variables - テンプレートの変数定義（ラベル解決用）
+ */
+export function formatHistoryEvent(
+  entry: HistoryEventFields,
+  variables: Variable[]
+): string {
+  const payload = entry.payload ?? {};
+  const targetName = payload.name ?? (entry.to_id ?? "").slice(0, 8);
+
+  switch (entry.event_type) {
+    case "transfer": {
+      const from = participantName(entry.from_id, payload.fromName, "from");
+      const to = participantName(entry.to_id, payload.toName, "to");
+      const details = (entry.transfers ?? [])
+        .map((t) => `${variableLabel(variables, t.variable)} ${t.amount.toLocaleString("ja-JP")}`)
+        .join(", ");
+      return `${from} → ${to}: ${details}`;
+    }
+    case "multi_transfer": {
+      if (!payload.legs) return entry.message;
+      return payload.legs
+        .map((leg) => {
+          const details = leg.transfers
+            .map((t) => `${variableLabel(variables, t.variable)} ${t.amount.toLocaleString("ja-JP")}`)
+            .join(", ");
+          return `${leg.fromName} → ${leg.toName}: ${details}`;
+        })
+        .join(" / ");
+    }
+    case "force_edit": {
+      const details = Object.entries(payload.values ?? {})
+        .map(([key, value]) => `${variableLabel(variables, key)}: ${value.toLocaleString("ja-JP")}`)
+        .join(", ");
+      return `強制編集: ${targetName} - ${details}`;
+    }
+    case "reset": {
+      const labels = (payload.variables ?? []).map((key) => variableLabel(variables, key));
+      return `リセット: ${labels.join(", ")}`;
+    }
+    case "rollback": {
+      if (!payload.targetCreatedAt) return "ロールバック";
+      const time = new Date(payload.targetCreatedAt).toLocaleTimeString("ja-JP", {
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+      });
+      return `ロールバック (${time})`;
+    }
+    case "settlement":
+    case "adjustment": {
+      const results = Object.values(payload.results ?? {});
+      if (entry.event_type === "settlement") {
+        results.sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0));
+      }
+      const summary = results
+        .map((r) => `${r.displayName}: ${formatSigned(Math.round(r.result * 10) / 10)}`)
+        .join(", ");
+      return `${entry.event_type === "settlement" ? "精算" : "調整"}: ${summary}`;
+    }
+    case "join_seat":
+      return `着席: ${targetName}`;
+    case "leave_seat":
+      return `離席: ${targetName}`;
+    case "force_leave_seat":
+      return payload.reason === "timeout"
+        ? `切断により離席: ${targetName}`
+        : `強制離席: ${targetName}`;
+    case "join_fake_seat":
+    case "reseat_fake_player":
+      return `ゲスト着席: ${targetName}`;
+    case "remove_fake_player":
+      return `ゲスト削除: ${targetName}`;
+    case "import":
+      return `ゲーム記録をインポート（精算 ${payload.settlementCount ?? 0} 回）`;
+    case "win": {
+      const winner = participantName(entry.to_id, payload.toName, "to");
+      const parts = (payload.payments ?? []).map(
+        (p) => `${p.fromName} ${p.amount.toLocaleString("ja-JP")}`
+      );
+      for (const [key, value] of Object.entries(payload.pot ?? {})) {
+        parts.push(`供託 ${variableLabel(variables, key)} ${value.toLocaleString("ja-JP")}`);
+      }
+      let hand = payload.winType === "tsumo" ? "ツモ" : "ロン";
+      if (payload.han !== undefined) {
+        hand += ` ${formatHand(payload.han, payload.fu ?? 0)}`;
+      }
+      const win = `アガリ: ${winner} ← ${parts.join(", ")}（${hand}）`;
+      // 局も進めた場合（044 以降）
+      if (!payload.round) return win;
+      return `${win}（局進行: ${formatRound(payload.round)} ${payload.round.honba}本場）`;
+    }
+    case "draw": {
+      const results = payload.drawResults ?? [];
+      const tenpai = results.filter((r) => r.tenpai);
+      const noten = results.filter((r) => !r.tenpai);
+      if (tenpai.length === 0 || noten.length === 0) return entry.message;
+      const side = (label: string, rs: typeof results) =>
+        `${label} ${rs.map((r) => r.name).join(", ")} ${rs[0].amount >= 0 ? "+" : ""}${rs[0].amount.toLocaleString("ja-JP")}`;
+      const draw = `流局: ${side("テンパイ", tenpai)} / ${side("ノーテン", noten)}`;
+      // 局も進めた場合（041 以降）
+      if (!payload.round) return draw;
+      return `${draw}（局進行: ${formatRound(payload.round)} ${payload.round.honba}本場）`;
+    }
+    case "custom_action": {
+      const actor = participantName(entry.to_id, payload.name, "to");
+      // 参加者ごとにまとめる（deltas は参加者順に並んでいる）
+      const groups: { id: string; name: string; amounts: string[] }[] = [];
+      for (const d of payload.deltas ?? []) {
+        const amount = `${variableLabel(variables, d.variable)} ${d.amount >= 0 ? "+" : ""}${d.amount.toLocaleString("ja-JP")}`;
+        const last = groups[groups.length - 1];
+        if (last && last.id === d.id) {
+          last.amounts.push(amount);
+        } else {
+          groups.push({ id: d.id, name: d.name, amounts: [amount] });
+        }
+      }
+      const details = groups.map((g) => `${g.name} ${g.amounts.join(", ")}`).join(" / ");
+      return details ? `${payload.label}（${actor}）: ${details}` : `${payload.label}（${actor}）`;
+    }
+    case "round": {
+      if (!payload.round) return entry.message;
+      const round = `${formatRound(payload.round)} ${payload.round.honba}本場`;
+      if (!payload.roundResult) {
+        return payload.name ? `局リセット: ${round}（起家: ${payload.name}）` : `局リセット: ${round}`;
+      }
+      let result = ROUND_RESULT_LABELS[payload.roundResult];
+      if (payload.roundResult === "draw") {
+        result += payload.dealerTenpai === false ? "・親ノーテン" : "・親テンパイ";
+      }
+      return `局進行: ${round}（${result}）`;
+    }
+    default:
+      return entry.message;
+  }
+}
+
+/** 操作者での絞り込み候補 */
+export interface HistoryActorOption {
+  userId: string;
+  displayName: string;
+}
+
+/**
+ * 操作者の表示（「by X」）
+ * 022 以前の行など操作者が不明な場合は null
+ */
+export function formatActor(actorName: string | null | undefined): string | null {
+  return actorName ? `by ${actorName}` : null;
+}
+
+/**
+ * 操作者での絞り込み候補を current_state から列挙
+ * ゲスト（fake_）は操作できないため除外する
+ */
+export function getHistoryActors(state: GameState): HistoryActorOption[] {
+  return Object.keys(state)
+    .filter((key) => !key.startsWith("__") && !key.startsWith("fake_"))
+    .map((userId) => {
+      const name = state[userId]?.__displayName__;
+      return {
+        userId,
+        displayName: typeof name === "string" ? name : userId.slice(0, 8),
+      };
+    });
+}
@@ -0,0 +1,281 @@
+/**
+ * ゲーム記録インポート（純粋関数）
+ * エクスポートした JSON の検証と、新しいルーム向けのユーザーID付け替えを行う
+ */
+
+import {
+  GameRecordExport,
+  GameState,
+  SeatInfo,
+  Settlement,
+  SettlementPlayerResult,
+} from "../types";
+import { EXPORT_FORMAT, EXPORT_FORMAT_VERSION } from "./exportUtils";
+import { MIN_SEAT_COUNT, MAX_SEAT_COUNT } from "./seatUtils";
+
+/** インポートする精算行（ID は取り込み先で新規採番する） */
+export interface ImportedSettlement {
+  type: Settlement["type"];
+  timestamp: number;
+  playerResults: { [userId: string]: SettlementPlayerResult };
+}
+
+/** 新しいルームに書き込むデータ */
+export interface ImportedGameData {
+  seats: (SeatInfo | null)[];
+  currentState: GameState;
+  settlements: ImportedSettlement[];
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/**
+ * テンプレートの検証（旧形式の permissions も migrateTemplate で変換できるため許可）
+ */
+function validateTemplate(template: unknown): string | null {
+  if (!isObject(template)) return "テンプレートがありません";
+  if (!Array.isArray(template.variables) || template.variables.length === 0) {
+    return "テンプレートの変数定義が不正です";
+  }
+  for (const v of template.variables) {
+    if (
+      !isObject(v) ||
+      typeof v.key !== "string" ||
+      v.key === "" ||
+      v.key.startsWith("__") ||
+      typeof v.label !== "string" ||
+      !isFiniteNumber(v.initial)
+    ) {
+      return "テンプレートの変数定義が不正です";
+    }
+  }
+  const hasPermissions =
+    (Array.isArray(template.hostPermissions) &&
+      Array.isArray(template.playerPermissions)) ||
+    Array.isArray(template.permissions);
+  if (!hasPermissions) return "テンプレートの権限設定が不正です";
+  return null;
+}
+
+function validateSeats(seats: unknown): string | null {
+  if (
+    !Array.isArray(seats) ||
+    seats.length < MIN_SEAT_COUNT ||
+    seats.length > MAX_SEAT_COUNT
+  ) {
+    return "座席情報が不正です";
+  }
+  for (const seat of seats) {
+    if (seat === null) continue;
+    if (
+      !isObject(seat) ||
+      (seat.userId !== null && typeof seat.userId !== "string") ||
+      (seat.status !== "active" && seat.status !== "inactive") ||
+      (seat.displayName !== undefined && typeof seat.displayName !== "string") ||
+      (seat.isFake !== undefined && typeof seat.isFake !== "boolean")
+    ) {
+      return "座席情報が不正です";
+    }
+  }
+  return null;
+}
+
+/**
+ * current_state の検証
+ * プレイヤーの値は数値（__displayName__ 等の "__" キーと _status は文字列も可）
+ */
+function validateCurrentState(state: unknown): string | null {
+  if (!isObject(state)) return "スコア情報が不正です";
+  for (const [key, value] of Object.entries(state)) {
+    if (key === "__pot__") {
+      if (!isObject(value) || !Object.values(value).every(isFiniteNumber)) {
+        return "供託金の情報が不正です";
+      }
+      continue;
+    }
+    if (key.startsWith("__")) continue;
+    if (!isObject(value)) return "スコア情報が不正です";
+    for (const [varKey, v] of Object.entries(value)) {
+      const isLabel = varKey.startsWith("_") && typeof v === "string";
+      if (!isLabel && !isFiniteNumber(v)) return "スコア情報が不正です";
+    }
+  }
+  return null;
+}
+
+function validateSettlements(settlements: unknown): string | null {
+  if (!Array.isArray(settlements)) return "精算履歴が不正です";
+  for (const s of settlements) {
+    if (
+      !isObject(s) ||
+      (s.type !== "settlement" && s.type !== "adjustment") ||
+      !isFiniteNumber(s.timestamp) ||
+      !isObject(s.playerResults)
+    ) {
+      return "精算履歴が不正です";
+    }
+    for (const pr of Object.values(s.playerResults)) {
+      if (
+        !isObject(pr) ||
+        typeof pr.displayName !== "string" ||
+        !isFiniteNumber(pr.rank) ||
+        !isFiniteNumber(pr.result)
+      ) {
+        return "精算履歴が不正です";
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * エクスポートした JSON 文字列を検証してゲーム記録に変換
+ * format / version が一致しない、または必須フィールドが欠けている場合はエラー
+ * 古いバージョンの記録は現在の形式に変換して返す
+ */
+export function parseGameRecord(
+  text: string
+): { record: GameRecordExport | null; error: string | null } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { record: null, error: "JSON として読み込めません" };
+  }
+
+  if (!isObject(data) || data.format !== EXPORT_FORMAT) {
+    return { record: null, error: "ゲーム記録のファイルではありません" };
+  }
+  if (
+    !Number.isInteger(data.version) ||
+    data.version < 1 ||
+    data.version > EXPORT_FORMAT_VERSION
+  ) {
+    return {
+      record: null,
+      error: `対応していないバージョンです（version: ${data.version}）`,
+    };
+  }
+
+  const error =
+    validateTemplate(data.template) ??
+    validateSeats(data.seats) ??
+    validateCurrentState(data.currentState) ??
+    validateSettlements(data.settlements);
+  if (error) return { record: null, error };
+
+  return { record: upgradeGameRecord(data), error: null };
+}
+
+/**
+ * 古いバージョンのゲーム記録を現在の形式に変換
+ * - version 1: 履歴に構造化イベント・actor_name・reverted_at が無いため null で補う
+ */
+function upgradeGameRecord(data: Record<string, unknown>): GameRecordExport {
+  const record = data as unknown as GameRecordExport;
+  if (record.version >= EXPORT_FORMAT_VERSION) return record;
+
+  return {
+    ...record,
+    version: EXPORT_FORMAT_VERSION,
+    history: (Array.isArray(record.history) ? record.history : []).map((h) => ({
+      event_type: null,
+      actor_id: null,
+      actor_name: null,
+      from_id: null,
+      to_id: null,
+      transfers: null,
+      payload: null,
+      reverted_at: null,
+      ...h,
+    })),
+  };
+}
+
+/** 架空ユーザーIDを生成（rpc_join_fake_seat と同じ形式） */
+function defaultFakeId(): string {
+  return `fake_${Date.now()}_${Math.random().toString(16).slice(2, 6)}`;
+}
+
+/**
+ * ゲーム記録を新しいルーム向けのデータに変換
+ * 元のユーザーは新しいルームにいないため、取り込むユーザー本人以外の実ユーザーは
+ * 架空ユーザー（ゲスト）に付け替える。架空ユーザーはIDをそのまま引き継ぐ
+ * @param record - 検証済みのゲーム記録
+ * @param currentUserId - 取り込むユーザー（新しいルームのホスト）のID
+ * @param createFakeId - 架空ユーザーIDの生成関数（テスト用）
+ */
+export function buildImportData(
+  record: GameRecordExport,
+  currentUserId: string,
+  createFakeId: () => string = defaultFakeId
+): ImportedGameData {
+  // 表示名: 座席 → current_state → 最新の精算行 の順で探す
+  const displayNames: { [userId: string]: string } = {};
+  for (let i = record.settlements.length - 1; i >= 0; i--) {
+    for (const [userId, pr] of Object.entries(record.settlements[i].playerResults)) {
+      displayNames[userId] ??= pr.displayName;
+    }
+  }
+  for (const userId of Object.keys(record.currentState)) {
+    if (userId.startsWith("__")) continue;
+    const name = record.currentState[userId]?.__displayName__;
+    if (typeof name === "string") {
+      displayNames[userId] = name;
+    }
+  }
+  for (const seat of record.seats) {
+    if (seat?.userId && seat.displayName) {
+      displayNames[seat.userId] = seat.displayName;
+    }
+  }
+
+  const idMap: { [oldId: string]: string } = {};
+  const mapId = (userId: string): string => {
+    if (userId === currentUserId || userId.startsWith("fake_")) return userId;
+    idMap[userId] ??= createFakeId();
+    return idMap[userId];
+  };
+  const isMapped = (userId: string) => mapId(userId) !== userId;
+
+  const seats = record.seats.map((seat): SeatInfo | null => {
+    if (!seat?.userId) return null;
+    if (!isMapped(seat.userId)) return { ...seat };
+    return {
+      userId: mapId(seat.userId),
+      status: "active",
+      displayName: displayNames[seat.userId] ?? "ゲスト",
+      isFake: true,
+    };
+  });
+
+  const currentState: { [key: string]: unknown } = {};
+  for (const [key, value] of Object.entries(record.currentState)) {
+    if (key.startsWith("__")) {
+      currentState[key] = value;
+    } else if (isMapped(key)) {
+      currentState[mapId(key)] = {
+        ...(value as object),
+        __displayName__: displayNames[key] ?? "ゲスト",
+      };
+    } else {
+      currentState[key] = value;
+    }
+  }
+
+  const settlements = record.settlements.map((s) => ({
+    type: s.type,
+    timestamp: s.timestamp,
+    playerResults: Object.fromEntries(
+      Object.entries(s.playerResults).map(([userId, pr]) => [mapId(userId), pr])
+    ),
+  }));
+
+  return { seats, currentState: currentState as GameState, settlements };
+}
@@ -0,0 +1,154 @@
+/**
+ * 麻雀の点数計算（翻・符 → 支払い、流局時のノーテン罰符）の純粋関数
+ * 基本点 = 符 × 2^(翻 + 2)。満貫以上は翻数で固定し、支払いは 100 点単位に切り上げる
+ * 切り上げ満貫は採用しない。13翻以上は数え役満として扱う
+ */
+
+import { WinType } from "../types";
+import { getHonbaBonus } from "./roundUtils";
+
+/** 選択できる符（25符は七対子） */
+export const FU_OPTIONS = [20, 25, 30, 40, 50, 60, 70, 80, 90, 100, 110];
+
+/** 選択できる翻（13 は役満） */
+export const HAN_OPTIONS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13];
+
+/** 満貫以上の基本点 */
+const LIMIT_BASE_POINTS = {
+  mangan: 2000,
+  haneman: 3000,
+  baiman: 4000,
+  sanbaiman: 6000,
+  yakuman: 8000,
+} as const;
+
+/** 100 点単位に切り上げ */
+export function ceilTo100(value: number): number {
+  return Math.ceil(value / 100) * 100;
+}
+
+/**
+ * 基本点を計算
+ * 5翻未満でも基本点が 2000 を超える場合は満貫
+ */
+export function getBasePoints(han: number, fu: number): number {
+  if (han >= 13) return LIMIT_BASE_POINTS.yakuman;
+  if (han >= 11) return LIMIT_BASE_POINTS.sanbaiman;
+  if (han >= 8) return LIMIT_BASE_POINTS.baiman;
+  if (han >= 6) return LIMIT_BASE_POINTS.haneman;
+  if (han >= 5) return LIMIT_BASE_POINTS.mangan;
+  return Math.min(fu * 2 ** (han + 2), LIMIT_BASE_POINTS.mangan);
+}
+
+/**
+ * 満貫以上の名称（満貫未満は null）
+ */
+export function getLimitName(han: number, fu: number): string | null {
+  if (han >= 13) return "役満";
+  if (han >= 11) return "三倍満";
+  if (han >= 8) return "倍満";
+  if (han >= 6) return "跳満";
+  if (getBasePoints(han, fu) >= LIMIT_BASE_POINTS.mangan) return "満貫";
+  return null;
+}
+
+/**
+ * 手の表示（例: "3翻40符"、満貫以上は "満貫" 等）
+ */
+export function formatHand(han: number, fu: number): string {
+  if (han >= 13) return "役満";
+  return getLimitName(han, fu) ?? `${han}翻${fu}符`;
+}
+
+/** 支払い者（和了者以外の着席プレイヤー） */
+export interface WinPayer {
+  playerId: string;
+  isDealer: boolean;
+}
+
+/** 1人分の支払い */
+export interface WinPaymentLeg {
+  from: string;
+  amount: number;
+}
+
+export interface WinPaymentInput {
+  han: number;
+  fu: number;
+  isDealer: boolean; // 和了者が親か
+  winType: WinType;
+  honba: number;
+  payers: WinPayer[]; // 和了者以外の着席プレイヤー
+  loserId?: string | null; // ロン時の放銃者
+}
+
+/**
+ * 各支払い者の支払いを計算
+ * - ロン: 放銃者が 基本点 × (親6 / 子4) + 300 × 本場
+ * - 親のツモ: 全員が 基本点 × 2 + 100 × 本場
+ * - 子のツモ: 親が 基本点 × 2、子が 基本点 × 1（それぞれ + 100 × 本場）
+ * ロンで放銃者が支払い者に含まれない場合は空配列
+ */
+export function calculateWinPayments(input: WinPaymentInput): WinPaymentLeg[] {
+  const base = getBasePoints(input.han, input.fu);
+
+  if (input.winType === "ron") {
+    const loser = input.payers.find((p) => p.playerId === input.loserId);
+    if (!loser) return [];
+    return [
+      {
+        from: loser.playerId,
+        amount:
+          ceilTo100(base * (input.isDealer ? 6 : 4)) +
+          getHonbaBonus(input.honba, "ron"),
+      },
+    ];
+  }
+
+  return input.payers.map((p) => ({
+    from: p.playerId,
+    amount:
+      ceilTo100(base * (input.isDealer || p.isDealer ? 2 : 1)) +
+      getHonbaBonus(input.honba, "tsumo"),
+  }));
+}
+
+/** 支払いの合計 */
+export function sumWinPayments(legs: WinPaymentLeg[]): number {
+  return legs.reduce((sum, leg) => sum + leg.amount, 0);
+}
+
+/** 流局時のノーテン罰符の総額 */
+export const NOTEN_BAPPU_TOTAL = 3000;
+
+/** 流局時の1人分の収支 */
+export interface DrawResult {
+  playerId: string;
+  tenpai: boolean;
+  amount: number; // テンパイは受け取り（+）、ノーテンは支払い（-）
+}
+
+/**
+ * 流局時のノーテン罰符を計算
+ * ノーテン者が総額を等分して支払い、テンパイ者が等分して受け取る
+ * （4人なら 1人テンパイ: +3000 / -1000、2人: ±1500、3人: +1000 / -3000）
+ * 全員テンパイ・全員ノーテンは収支なし（空配列）
+ */
+export function calculateDrawPayments(
+  playerIds: string[],
+  tenpaiIds: string[],
+  total: number = NOTEN_BAPPU_TOTAL
+): DrawResult[] {
+  const tenpaiCount = playerIds.filter((id) => tenpaiIds.includes(id)).length;
+  const notenCount = playerIds.length - tenpaiCount;
+  if (tenpaiCount === 0 || notenCount === 0) return [];
+
+  return playerIds.map((playerId) => {
+    const tenpai = tenpaiIds.includes(playerId);
+    return {
+      playerId,
+      tenpai,
+      amount: tenpai ? total / tenpaiCount : -total / notenCount,
+    };
+  });
+}
@@ -0,0 +1,97 @@
+/**
+ * オフライン操作キューの純粋関数
+ * 送信待ちの操作を楽観的に状態へ反映し、再送前に現在の状態と競合しないかを判定する
+ */
+
+import { GameState, PotState, QueuedOperation, Room } from "../types";
+import { validateStateChange } from "./variableConstraintUtils";
+
+/**
+ * スコアに関わる部分（プレイヤーと供託の数値）だけのハッシュ
+ * 直近ログや局などスコア移動に影響しない予約キーは含めない
+ */
+export function hashGameState(state: GameState): string {
+  const entries: string[] = [];
+  for (const id of Object.keys(state).sort()) {
+    if (id.startsWith("__") && id !== "__pot__") continue;
+    const values = state[id] as Record<string, unknown> | undefined;
+    if (!values || typeof values !== "object") continue;
+    for (const key of Object.keys(values).sort()) {
+      const value = values[key];
+      if (typeof value === "number") entries.push(`${id}.${key}=${value}`);
+    }
+  }
+
+  // djb2
+  let hash = 5381;
+  const text = entries.join(";");
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16);
+}
+
+/**
+ * 送信待ちの操作を状態に反映（供託との移動を含む）
+ */
+export function applyQueuedOperation(state: GameState, op: QueuedOperation): GameState {
+  const next: GameState = { ...state };
+  const add = (id: string, key: string, delta: number) => {
+    const current = (next[id] ?? {}) as Record<string, unknown>;
+    const value = typeof current[key] === "number" ? (current[key] as number) : 0;
+    next[id] = { ...current, [key]: value + delta } as GameState[string];
+  };
+
+  for (const { variable, amount } of op.transfers) {
+    add(op.fromId, variable, -amount);
+    add(op.toId, variable, amount);
+  }
+  return next;
+}
+
+export function applyQueuedOperations(state: GameState, ops: QueuedOperation[]): GameState {
+  return ops.reduce(applyQueuedOperation, state);
+}
+
+/**
+ * 送信待ちの操作を現在のルームに送ってよいか（問題なければ null、あればエラーメッセージ）
+ * - 参加者が退出・離席していれば取り消す
+ * - 操作時点から状態が変わっていれば、供託の残高と変数の制約を現在の状態で確認し直す
+ */
+export function validateQueuedOperation(op: QueuedOperation, room: Room): string | null {
+  const state = room.current_state || {};
+  const isMahjong = room.template.layoutMode === "mahjong";
+
+  for (const [id, name] of [
+    [op.fromId, op.fromName],
+    [op.toId, op.toName],
+  ] as const) {
+    if (id === "__pot__") continue;
+    const seated = room.seats?.some((s) => s?.userId === id) ?? false;
+    if (!state[id] || (isMahjong && !seated)) {
+      return `${name ?? id.slice(0, 8)}が退出しています`;
+    }
+  }
+
+  if (hashGameState(state) === op.baseHash) return null;
+
+  if (op.fromId === "__pot__") {
+    const pot: PotState = state.__pot__ ?? {};
+    for (const { variable, amount } of op.transfers) {
+      if ((pot[variable] ?? 0) < amount) return "供託金が不足しています";
+    }
+  }
+
+  return validateStateChange(
+    room.template.variables,
+    state,
+    applyQueuedOperation(state, op)
+  );
+}
+
+/**
+ * 送信待ち操作のIDを生成
+ */
+export function createOperationId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
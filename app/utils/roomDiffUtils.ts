@@ -0,0 +1,67 @@
+/**
+ * ルーム差分（room_diff）の純粋関数
+ * Broadcast で届いた差分を手元のルームに適用する
+ */
+
+import { GameState, RecentLogEntry, Room, RoomDiff } from "../types";
+
+// __recent_log__ の最大件数（_push_recent_log と同じ）
+const RECENT_LOG_LIMIT = 5;
+
+/**
+ * 差分を手元のルームに適用できるか
+ * - "apply": 手元の次のバージョン
+ * - "stale": 手元と同じか古い（既に反映済み）
+ * - "gap":   間の更新を取りこぼしている（全体を取得し直す）
+ */
+export function getRoomDiffStatus(room: Room | null, diff: RoomDiff): "apply" | "stale" | "gap" {
+  if (!room || room.state_version == null) return "gap";
+  if (diff.version <= room.state_version) return "stale";
+  return diff.version === room.state_version + 1 ? "apply" : "gap";
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// 変わったキーだけのオブジェクトを重ねる（null は削除）
+function mergeObject(
+  current: Record<string, unknown>,
+  changes: Record<string, unknown>
+): Record<string, unknown> {
+  const next = { ...current };
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null) delete next[key];
+    else next[key] = value;
+  }
+  return next;
+}
+
+/**
+ * 差分を適用した新しいルームを返す（元のルームは変更しない）
+ */
+export function applyRoomDiff(room: Room, diff: RoomDiff): Room {
+  const state: Record<string, unknown> = { ...room.current_state };
+  for (const [key, value] of Object.entries(diff.state ?? {})) {
+    const current = state[key];
+    if (value === null) {
+      delete state[key];
+    } else if (isPlainObject(value) && isPlainObject(current)) {
+      state[key] = mergeObject(current, value);
+    } else {
+      state[key] = value;
+    }
+  }
+
+  if (diff.log && diff.log.length > 0) {
+    const log = (state.__recent_log__ as RecentLogEntry[] | undefined) ?? [];
+    state.__recent_log__ = [...log, ...diff.log].slice(-RECENT_LOG_LIMIT);
+  }
+
+  return {
+    ...room,
+    ...diff.columns,
+    current_state: state as GameState,
+    state_version: diff.version,
+  };
+}
@@ -2,7 +2,7 @@
  * ルーム関連のユーティリティ関数
  */
 
-import { GameTemplate, PotAction, Room } from "../types";
+import { GameTemplate, PotAction, Room, SettlementConfig } from "../types";
 
 /**
  * 4文字のランダムなルームコードを生成（英数字大文字）
@@ -53,7 +53,11 @@ export const DEFAULT_MAHJONG_TEMPLATE: GameTemplate = {
   layoutMode: "mahjong",
   maxPlayers: 4,
   potEnabled: true,
-  variables: [{ key: "score", label: "点数", initial: 25000 }],
+  // 100点単位、負になったら飛びとして通知する
+  variables: [
+    { key: "score", label: "点数", initial: 25000, step: 100, allowNegative: "warn" },
+  ],
+  endOnBust: true,
   potActions: [
     {
       id: "riichi",
@@ -80,6 +84,17 @@ export const DEFAULT_MAHJONG_TEMPLATE: GameTemplate = {
   },
 };
 
+/**
+ * リストモード用の精算設定（ゼロサムでないスコアをそのまま記録）
+ */
+export const DEFAULT_LIST_SETTLEMENT_CONFIG: SettlementConfig = {
+  variable: "score",
+  divider: 1,
+  rankBonuses: {},
+  zeroSumCheck: false,
+  rounding: "none",
+};
+
 /**
  * シンプルなスコアテンプレート
  */
@@ -96,6 +111,7 @@ export const SIMPLE_SCORE_TEMPLATE: GameTemplate = {
     "edit_template",
   ],
   playerPermissions: ["transfer_score"],
+  settlementConfig: DEFAULT_LIST_SETTLEMENT_CONFIG,
 };
 
 /**
@@ -0,0 +1,79 @@
+/**
+ * 麻雀の局（__round__）関連のユーティリティ（純粋関数）
+ * 局の進行自体は rpc_advance_round で行い、ここでは表示と本場の加算のみ扱う
+ */
+
+import { GameState, RoundResult, RoundState, RoundWind } from "../types";
+
+/** 場風の表示 */
+export const WIND_LABELS: Record<RoundWind, string> = {
+  east: "東",
+  south: "南",
+  west: "西",
+  north: "北",
+};
+
+/** 局結果の表示 */
+export const ROUND_RESULT_LABELS: Record<RoundResult, string> = {
+  dealer_win: "親のアガリ",
+  draw: "流局",
+  non_dealer_win: "子のアガリ",
+};
+
+/** 本場の加算対象の変数キー */
+export const HONBA_VARIABLE = "score";
+
+/**
+ * 1本場あたりの加算
+ * - ron: 放銃者が 300 点
+ * - tsumo: 各自 100 点
+ */
+export const HONBA_BONUS_PER_PAYER = { ron: 300, tsumo: 100 } as const;
+
+export type HonbaBonusKind = keyof typeof HONBA_BONUS_PER_PAYER;
+
+/**
+ * 現在の局を取得（未設定は東1局 0本場、起家は座席0）
+ */
+export function getRoundState(state: GameState): RoundState {
+  return (
+    state.__round__ ?? {
+      wind: "east",
+      hand: 1,
+      honba: 0,
+      dealerSeat: 0,
+      startSeat: 0,
+    }
+  );
+}
+
+/**
+ * 局の表示（例: "東1局"）
+ */
+export function formatRound(round: RoundState): string {
+  return `${WIND_LABELS[round.wind] ?? WIND_LABELS.east}${round.hand}局`;
+}
+
+/**
+ * 本場の加算額（1人の支払いあたり）
+ */
+export function getHonbaBonus(honba: number, kind: HonbaBonusKind): number {
+  return Math.max(0, honba) * HONBA_BONUS_PER_PAYER[kind];
+}
+
+/**
+ * 支払いに本場の加算を上乗せする
+ * 対象変数の支払いが無い場合は何もしない（本場だけの支払いは作らない）
+ */
+export function applyHonbaBonus(
+  transfers: { variable: string; amount: number }[],
+  bonus: number,
+  variableKey: string = HONBA_VARIABLE
+): { variable: string; amount: number }[] {
+  if (bonus <= 0) return transfers;
+  return transfers.map((t) =>
+    t.variable === variableKey && t.amount > 0
+      ? { ...t, amount: t.amount + bonus }
+      : t
+  );
+}
@@ -1,5 +1,31 @@
 import { SeatPosition, SeatMap, SeatInfo } from "../types";
 
+/** 座席数のデフォルト（maxPlayers 未指定時） */
+export const DEFAULT_SEAT_COUNT = 4;
+/** 座席数の下限 */
+export const MIN_SEAT_COUNT = 2;
+/** 座席数の上限（パーティゲーム向け） */
+export const MAX_SEAT_COUNT = 12;
+
+/**
+ * テンプレートの maxPlayers から座席数を決定
+ * @param maxPlayers - GameTemplate.maxPlayers（未指定時は4）
+ * @returns MIN_SEAT_COUNT〜MAX_SEAT_COUNT に収めた座席数
+ */
+export function getSeatCount(maxPlayers?: number): number {
+  if (!maxPlayers || !Number.isFinite(maxPlayers)) return DEFAULT_SEAT_COUNT;
+  return Math.min(MAX_SEAT_COUNT, Math.max(MIN_SEAT_COUNT, Math.floor(maxPlayers)));
+}
+
+/**
+ * maxPlayers に応じた空席配列を生成
+ * @param maxPlayers - GameTemplate.maxPlayers
+ * @returns 全て null の座席配列
+ */
+export function createEmptySeats(maxPlayers?: number): (SeatInfo | null)[] {
+  return Array.from({ length: getSeatCount(maxPlayers) }, () => null);
+}
+
 /**
  * 座席インデックスから座席位置を取得
  * @param seatIndex - 座席インデックス (0: Bottom, 1: Right, 2: Top, 3: Left)
@@ -46,11 +72,12 @@ export function createSeatMapFromSeats(
   // 回転量を計算（現在のユーザーをBottomに配置するため）
   const rotation = currentUserSeatIndex;
 
-  // 各座席を回転させて配置
+  // 各座席を回転させて配置（位置を持たない5席目以降はマップに含めない）
   seats.forEach((seat, index) => {
     if (seat && seat.userId) {
       // 回転後のインデックスを計算
-      const rotatedIndex = (index - rotation + 4) % 4;
+      const rotatedIndex = (index - rotation + seats.length) % seats.length;
+      if (rotatedIndex >= 4) return;
       const position = getSeatPositionFromIndex(rotatedIndex);
       seatMap[seat.userId] = position;
     }
@@ -3,13 +3,23 @@
  */
 
 import {
+  ComputedVariable,
   GameState,
+  LayoutMode,
+  PlayerState,
   SeatInfo,
   Variable,
   SettlementConfig,
   Settlement,
   SettlementPlayerResult,
+  SettlementRounding,
 } from "../types";
+import {
+  computeInitialValue,
+  computeVariableValue,
+  getExpressionVariables,
+  parseExpression,
+} from "./expressionUtils";
 
 /**
  * UUID生成（簡易版）
@@ -22,13 +32,125 @@ function generateUUID(): string {
   });
 }
 
+/**
+ * 素点を割る数単位の整数に丸める（五捨六入・四捨五入用）
+ * 負の値は絶対値で丸めて符号を戻す。浮動小数点誤差を避けるため事前に 1e-6 で丸める
+ */
+function roundToUnit(value: number, mode: "gosha_rokunyu" | "shisha_gonyu"): number {
+  const abs = Math.round(Math.abs(value) * 1e6) / 1e6;
+  const whole = Math.floor(abs);
+  const fraction = abs - whole;
+  const roundUp = mode === "gosha_rokunyu" ? fraction > 0.5 : fraction >= 0.5;
+  const rounded = roundUp ? whole + 1 : whole;
+  return value < 0 ? -rounded : rounded;
+}
+
+/**
+ * 順位点適用後のスコアを割る数で割り、端数処理を適用する
+ * - floor / none: 順位点適用後のスコア全体に適用
+ * - gosha_rokunyu / shisha_gonyu: 素点のみを丸め、順位点（返し・オカ込み）はそのまま加算
+ */
+function divideScore(
+  score: number,
+  adjustedScore: number,
+  divider: number,
+  rounding: SettlementRounding
+): number {
+  switch (rounding) {
+    case "none":
+      return adjustedScore / divider;
+    case "gosha_rokunyu":
+    case "shisha_gonyu": {
+      const bonus = (adjustedScore - score) / divider;
+      return roundToUnit(score / divider, rounding) + bonus;
+    }
+    case "floor":
+    default:
+      // dividerで割り、小数点第一位まで切り捨て
+      return Math.floor((adjustedScore / divider) * 10) / 10;
+  }
+}
+
+/**
+ * 浮動小数点誤差を取り除く（小数点以下6桁で丸める）
+ */
+function normalize(value: number): number {
+  // + 0 で -0 を 0 に揃える
+  return Math.round(value * 1e6) / 1e6 + 0;
+}
+
+/**
+ * 精算対象のプレイヤーを座席形式で取得
+ * - mahjong: 着席中のプレイヤー
+ * - list: current_state に参加している全プレイヤー（座席を使わないため）
+ */
+export function getSettlementSeats(
+  currentState: GameState,
+  seats: (SeatInfo | null)[],
+  layoutMode: LayoutMode = "mahjong"
+): (SeatInfo | null)[] {
+  if (layoutMode !== "list") return seats;
+
+  return Object.keys(currentState)
+    .filter((key) => !key.startsWith("__"))
+    .map((userId) => {
+      const displayName = currentState[userId]?.__displayName__;
+      return {
+        userId,
+        status: "active" as const,
+        displayName: typeof displayName === "string" ? displayName : undefined,
+      };
+    });
+}
+
+/** 精算対象の変数（通常の変数 or 計算変数） */
+interface SettlementTarget {
+  initial: number;
+  valueOf: (playerState: PlayerState | undefined) => number;
+  potKeys: string[]; // 供託に残っていてはいけない変数キー
+}
+
+/**
+ * 精算対象の変数を解決（見つからない・計算できない場合は null）
+ * 計算変数の初期値は各変数の初期値から計算し、供託チェックは参照する変数すべてで行う
+ */
+function resolveSettlementTarget(
+  variableKey: string,
+  variables: Variable[],
+  computedVariables: ComputedVariable[]
+): SettlementTarget | null {
+  const targetVar = variables.find((v) => v.key === variableKey);
+  if (targetVar) {
+    return {
+      initial: targetVar.initial,
+      valueOf: (playerState) => (playerState?.[variableKey] as number) || 0,
+      potKeys: [variableKey],
+    };
+  }
+
+  const computed = computedVariables.find((v) => v.key === variableKey);
+  if (!computed) return null;
+  const initial = computeInitialValue(computed, variables);
+  if (initial === null) return null;
+  return {
+    initial,
+    valueOf: (playerState) => computeVariableValue(computed, playerState ?? {}) ?? 0,
+    potKeys: getExpressionVariables(parseExpression(computed.expression)),
+  };
+}
+
 /**
  * 精算実行可能かチェック
+ * - config.variable の変数で精算する（未指定時は score、計算変数も可）
+ * - config.zeroSumCheck が false の場合は合計点チェックを行わない
+ * - config.tieBreak が "seat_order" の場合は同点を許可する（起家からの座席順で順位を決定）
  */
 export function canExecuteSettlement(
   currentState: GameState,
   seats: (SeatInfo | null)[],
-  variables: Variable[]
+  variables: Variable[],
+  config?: SettlementConfig,
+  computedVariables: ComputedVariable[] = []
 ): { canExecute: boolean; reason?: string } {
   // 着席中プレイヤーを取得
   const seatedUserIds = seats
@@ -39,41 +161,45 @@ export function canExecuteSettlement(
     return { canExecute: false, reason: "精算には2人以上の着席プレイヤーが必要です" };
   }
 
-  // score変数の初期値を取得
-  const scoreVar = variables.find((v) => v.key === "score");
-  if (!scoreVar) {
-    return { canExecute: false, reason: "score変数が定義されていません" };
+  // 精算対象変数の初期値を取得
+  const variableKey = config?.variable ?? "score";
+  const target = resolveSettlementTarget(variableKey, variables, computedVariables);
+  if (!target) {
+    return { canExecute: false, reason: `${variableKey}変数が定義されていません` };
   }
 
-  // 供託金チェック: Potのscoreが0でなければ精算不可
-  const potScore = currentState.__pot__?.score ?? 0;
-  if (potScore !== 0) {
-    return {
-      canExecute: false,
-      reason: `供託金が残っています（${potScore.toLocaleString()}）。回収してから精算してください`,
-    };
+  // 供託金チェック: Potの対象変数が0でなければ精算不可
+  for (const potKey of target.potKeys) {
+    const potScore = currentState.__pot__?.[potKey] ?? 0;
+    if (potScore !== 0) {
+      return {
+        canExecute: false,
+        reason: `供託金が残っています（${potScore.toLocaleString()}）。回収してから精算してください`,
+      };
+    }
   }
 
   // 合計点チェック: initial × 着席者数（Pot除外）
-  const expectedTotal = scoreVar.initial * seatedUserIds.length;
-  const playerTotal = seatedUserIds.reduce((sum, uid) => {
-    const playerState = currentState[uid];
-    if (!playerState) return sum;
-    return sum + ((playerState.score as number) || 0);
-  }, 0);
-
-  if (playerTotal !== expectedTotal) {
-    return {
-      canExecute: false,
-      reason: `合計点が一致しません（期待: ${expectedTotal.toLocaleString()}, 実際: ${playerTotal.toLocaleString()}）`,
-    };
+  if (config?.zeroSumCheck ?? true) {
+    const expectedTotal = target.initial * seatedUserIds.length;
+    const playerTotal = seatedUserIds.reduce(
+      (sum, uid) => sum + target.valueOf(currentState[uid]),
+      0
+    );
+
+    if (playerTotal !== expectedTotal) {
+      return {
+        canExecute: false,
+        reason: `合計点が一致しません（期待: ${expectedTotal.toLocaleString()}, 実際: ${playerTotal.toLocaleString()}）`,
+      };
+    }
   }
 
-  // 同点チェック
-  const scores = seatedUserIds.map((uid) => {
-    const playerState = currentState[uid];
-    return (playerState?.score as number) || 0;
-  });
+  // 同点チェック（座席順で決着させる設定なら不要）
+  if (config?.tieBreak === "seat_order") {
+    return { canExecute: true };
+  }
+  const scores = seatedUserIds.map((uid) => target.valueOf(currentState[uid]));
   const uniqueScores = new Set(scores);
   if (uniqueScores.size !== scores.length) {
     return { canExecute: false, reason: "同点のプレイヤーがいるため精算できません。先に順位を確定してください" };
@@ -84,31 +210,50 @@ export function canExecuteSettlement(
 
 /**
  * 精算を実行し Settlement オブジェクトを生成
+ * zeroSumCheck 有効時（デフォルト）は最下位が端数を吸収し、結果の合計を 0 に揃える
+ * @param startingSeatIndex 起家の座席インデックス（同点時の座席順判定に使用）
+ * @param computedVariables 計算変数（config.variable が計算変数の場合に使用）
  */
 export function executeSettlement(
   currentState: GameState,
   seats: (SeatInfo | null)[],
   config: SettlementConfig,
-  variables: Variable[]
+  variables: Variable[],
+  startingSeatIndex: number = 0,
+  computedVariables: ComputedVariable[] = []
 ): Settlement {
-  const scoreVar = variables.find((v) => v.key === "score")!;
-  const initialScore = scoreVar.initial;
+  const variableKey = config.variable ?? "score";
+  const target = resolveSettlementTarget(variableKey, variables, computedVariables)!;
+  const initialScore = target.initial;
   const divider = config.divider;
+  const rounding = config.rounding ?? "floor";
+  const rate = config.rate ?? 1;
+  const zeroSum = config.zeroSumCheck ?? true;
+  const seatCount = seats.length;
 
-  // 着席中プレイヤー情報を収集
+  // 着席中プレイヤー情報を収集（起家からの座席距離を保持）
   const seatedPlayers = seats
-    .filter((s): s is SeatInfo => s !== null && s.userId !== null)
-    .map((s) => ({
-      userId: s.userId!,
-      displayName: s.displayName || s.userId!.substring(0, 8),
-      score: ((currentState[s.userId!]?.score as number) || 0),
+    .map((s, seatIndex) => ({ seat: s, seatIndex }))
+    .filter(
+      (e): e is { seat: SeatInfo; seatIndex: number } =>
+        e.seat !== null && e.seat.userId !== null
+    )
+    .map(({ seat, seatIndex }) => ({
+      userId: seat.userId!,
+      displayName: seat.displayName || seat.userId!.substring(0, 8),
+      score: target.valueOf(currentState[seat.userId!]),
+      seatOrder: (seatIndex - startingSeatIndex + seatCount) % seatCount,
     }));
 
-  // score降順でソート
-  seatedPlayers.sort((a, b) => b.score - a.score);
+  // score降順でソート（同点は起家に近い座席を上位とする）
+  seatedPlayers.sort((a, b) => b.score - a.score || a.seatOrder - b.seatOrder);
 
-  const playerCount = seatedPlayers.length as 3 | 4;
-  const rankBonuses = config.rankBonuses[playerCount];
+  const rankBonuses = config.rankBonuses[seatedPlayers.length];
+
+  // 返し指定時: 各自 -返し、トップにオカ ((返し - 持ち点) × 人数) を加算
+  const returnScore = config.returnScore;
+  const oka =
+    returnScore !== undefined ? (returnScore - initialScore) * seatedPlayers.length : 0;
 
   // ランク付け＋順位点適用
   const playerResults: { [userId: string]: SettlementPlayerResult } = {};
@@ -117,11 +262,14 @@ export function executeSettlement(
   for (let i = 0; i < seatedPlayers.length; i++) {
     const player = seatedPlayers[i];
     const rank = i + 1;
-    const rankBonus = rankBonuses?.[i] ?? 0;
+    const uma = rankBonuses?.[i] ?? 0;
+    const rankBonus =
+      returnScore !== undefined
+        ? uma - returnScore + (rank === 1 ? oka : 0)
+        : uma;
     const adjustedScore = player.score + rankBonus;
 
-    // dividerで割り、小数点第一位まで切り捨て
-    const divided = Math.floor((adjustedScore / divider) * 10) / 10;
+    const divided = divideScore(player.score, adjustedScore, divider, rounding);
 
     resultsArray.push({
       userId: player.userId,
@@ -132,17 +280,19 @@ export function executeSettlement(
         rankBonus,
         adjustedScore,
         divided,
-        result: divided, // 暫定値、最下位は後で端数調整
+        result: normalize(divided * rate), // 暫定値、最下位は後で端数調整
       },
     });
   }
 
-  // 最下位のresult = -(上位合計) で端数調整
-  const lastIndex = resultsArray.length - 1;
-  const upperSum = resultsArray
-    .slice(0, lastIndex)
-    .reduce((sum, r) => sum + r.result.divided, 0);
-  resultsArray[lastIndex].result.result = -upperSum;
+  // 最下位のresult = -(上位合計) で端数調整（ゼロサム時のみ）
+  if (zeroSum) {
+    const lastIndex = resultsArray.length - 1;
+    const upperSum = resultsArray
+      .slice(0, lastIndex)
+      .reduce((sum, r) => sum + r.result.result, 0);
+    resultsArray[lastIndex].result.result = normalize(-upperSum);
+  }
 
   // playerResults マップに変換
   for (const { userId, result } of resultsArray) {
@@ -0,0 +1,59 @@
+/**
+ * 通算成績画面のユーティリティ（純粋関数）
+ */
+
+import { PlayerStats, PlayerStatsFilter } from "../types";
+
+/** 期間の絞り込み */
+export type StatsPeriod = "all" | "30d" | "90d" | "year";
+
+export const STATS_PERIOD_LABELS: Record<StatsPeriod, string> = {
+  all: "全期間",
+  "30d": "30日",
+  "90d": "90日",
+  year: "今年",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 期間から精算日時の範囲を求める（to は指定しない＝現在まで）
+ * @param period - 期間
+ * @param now - 基準日時（テスト用）
+ */
+export function getStatsDateRange(
+  period: StatsPeriod,
+  now: Date = new Date()
+): Pick<PlayerStatsFilter, "from" | "to"> {
+  switch (period) {
+    case "30d":
+      return { from: new Date(now.getTime() - 30 * DAY_MS).toISOString() };
+    case "90d":
+      return { from: new Date(now.getTime() - 90 * DAY_MS).toISOString() };
+    case "year":
+      return { from: new Date(now.getFullYear(), 0, 1).toISOString() };
+    default:
+      return {};
+  }
+}
+
+/**
+ * 順位分布を表示用文字列に変換（例: "1位 3 / 2位 1 / 4位 2"）
+ */
+export function formatRankDistribution(rankCounts: PlayerStats["rankCounts"]): string {
+  return Object.entries(rankCounts)
+    .map(([rank, count]) => [Number(rank), count] as const)
+    .filter(([rank]) => rank > 0)
+    .sort((a, b) => a[0] - b[0])
+    .map(([rank, count]) => `${rank}位 ${count}`)
+    .join(" / ");
+}
+
+/**
+ * 1位率（%、小数1桁）。精算がない場合は null
+ */
+export function getTopRate(stats: Pick<PlayerStats, "games" | "rankCounts">): number | null {
+  if (stats.games === 0) return null;
+  const top = stats.rankCounts[1] ?? 0;
+  return Math.round((top / stats.games) * 1000) / 10;
+}
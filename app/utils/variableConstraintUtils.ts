@@ -0,0 +1,127 @@
+/**
+ * 変数の制約（下限・上限・刻み・負の値の扱い）の純粋関数
+ * サーバー側の _check_variable_constraints（030_variable_constraints.sql）と同じ判定を行い、
+ * 送信前にクライアントでエラーを表示するために使う。
+ */
+
+import { GameState, PlayerState, Variable } from "../types";
+
+/** 飛び（allowNegative: "warn" の変数が負になった）の検出結果 */
+export interface BustInfo {
+  playerId: string;
+  displayName: string;
+  variable: Variable;
+  value: number;
+}
+
+function isPlayerKey(key: string): boolean {
+  return !key.startsWith("__");
+}
+
+function getNumber(playerState: PlayerState | undefined, key: string): number | undefined {
+  const value = playerState?.[key];
+  return typeof value === "number" ? value : undefined;
+}
+
+/**
+ * 1つの値が変数の制約を満たすか（問題なければ null、あればエラーメッセージ）
+ */
+export function validateVariableValue(variable: Variable, value: number): string | null {
+  if (variable.min !== undefined && value < variable.min) {
+    return `${variable.label}が下限（${variable.min}）を下回ります`;
+  }
+  if (variable.max !== undefined && value > variable.max) {
+    return `${variable.label}が上限（${variable.max}）を超えます`;
+  }
+  if (variable.allowNegative === "forbid" && value < 0) {
+    return `${variable.label}を負の値にはできません`;
+  }
+  if (variable.step !== undefined && variable.step > 0 && value % variable.step !== 0) {
+    return `${variable.label}は${variable.step}単位で指定してください`;
+  }
+  return null;
+}
+
+/**
+ * 操作前後の状態を比べ、値が変わったプレイヤーの変数が制約を満たすか
+ * 供託などの __ で始まるキーは対象外
+ */
+export function validateStateChange(
+  variables: Variable[],
+  before: GameState,
+  after: GameState
+): string | null {
+  for (const variable of variables) {
+    for (const playerId of Object.keys(after).filter(isPlayerKey)) {
+      const value = getNumber(after[playerId], variable.key);
+      if (value === undefined || value === getNumber(before[playerId], variable.key)) {
+        continue;
+      }
+      const error = validateVariableValue(variable, value);
+      if (error) return error;
+    }
+  }
+  return null;
+}
+
+/**
+ * 支払い（各支払い者が同じ量を受取人へ）を反映した状態を返す
+ * 存在しないプレイヤー・供託への移動は無視する（制約の検査用）
+ */
+export function applyTransfers(
+  state: GameState,
+  fromIds: string[],
+  toId: string,
+  transfers: { variable: string; amount: number }[]
+): GameState {
+  const next: GameState = { ...state };
+  const add = (playerId: string, key: string, delta: number) => {
+    const playerState = next[playerId];
+    if (!isPlayerKey(playerId) || !playerState) return;
+    next[playerId] = { ...playerState, [key]: (getNumber(playerState, key) ?? 0) + delta };
+  };
+
+  for (const fromId of fromIds) {
+    for (const { variable, amount } of transfers) {
+      add(fromId, variable, -amount);
+      add(toId, variable, amount);
+    }
+  }
+  return next;
+}
+
+/**
+ * 飛びを検出: allowNegative が "warn" の変数が 0 以上から負になったプレイヤー
+ */
+export function detectBusts(
+  before: GameState,
+  after: GameState,
+  variables: Variable[]
+): BustInfo[] {
+  const busts: BustInfo[] = [];
+  for (const variable of variables) {
+    if (variable.allowNegative !== "warn") continue;
+    for (const playerId of Object.keys(after).filter(isPlayerKey)) {
+      const value = getNumber(after[playerId], variable.key);
+      const previous = getNumber(before[playerId], variable.key);
+      if (value === undefined || value >= 0 || (previous !== undefined && previous < 0)) {
+        continue;
+      }
+      const name = after[playerId]?.__displayName__;
+      busts.push({
+        playerId,
+        displayName: typeof name === "string" ? name : playerId.slice(0, 8),
+        variable,
+        value,
+      });
+    }
+  }
+  return busts;
+}
+
+/**
+ * 飛びの表示（例: "Alice（点数 -1,200）"）
+ */
+export function formatBust(bust: BustInfo): string {
+  return `${bust.displayName}（${bust.variable.label} ${bust.value.toLocaleString("ja-JP")}）`;
+}
@@ -0,0 +1,742 @@
+-- ============================================
+-- スコア系 RPC にサーバー側の権限チェックを追加
+-- これまでは UI でボタンを隠すだけだったため、ルームIDを知っていれば
+-- 誰でも SECURITY DEFINER の RPC を直接呼び出せた。
+-- 呼び出し元のロール（host / co_host / player / spectator）を解決し、
+-- template.hostPermissions / playerPermissions に無い操作は拒否する。
+-- ============================================
+
+-- ============================================
+-- ヘルパー関数（内部用）
+-- ============================================
+
+-- 1. _caller_role: 呼び出し元ユーザーのルーム内ロールを返す
+--   service   : service_role キー（管理用・テスト用、権限チェックをバイパス）
+--   host      : ルーム作成者
+--   co_host   : co_host_ids に含まれるユーザー
+--   player    : 着席中、または current_state にプレイヤーとして存在するユーザー
+--   spectator : 上記以外（未ログインを含む）
+CREATE OR REPLACE FUNCTION public._caller_role(p_room public.rooms)
+RETURNS TEXT
+LANGUAGE plpgsql STABLE
+AS $$
+DECLARE
+  v_uid UUID;
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN 'service';
+  END IF;
+
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RETURN 'spectator';
+  END IF;
+
+  IF v_uid = p_room.host_user_id THEN
+    RETURN 'host';
+  END IF;
+
+  IF COALESCE(p_room.co_host_ids, '[]'::jsonb) @> jsonb_build_array(v_uid::text) THEN
+    RETURN 'co_host';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(COALESCE(p_room.seats, '[]'::jsonb)) AS seat
+    WHERE seat != 'null'::jsonb AND seat->>'userId' = v_uid::text
+  ) OR p_room.current_state ? v_uid::text THEN
+    RETURN 'player';
+  END IF;
+
+  RETURN 'spectator';
+END;
+$$;
+
+-- 2. _has_permission: ロールに対応する権限リストに permission が含まれるか
+--   host / co_host は hostPermissions、player は playerPermissions を参照する
+--   旧形式テンプレート（permissions のみ）は migrateTemplate と同じ規則で解釈する
+CREATE OR REPLACE FUNCTION public._has_permission(p_room public.rooms, p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql STABLE
+AS $$
+DECLARE
+  v_role TEXT;
+  v_template JSONB;
+  v_legacy JSONB;
+BEGIN
+  v_role := public._caller_role(p_room);
+
+  IF v_role = 'service' THEN
+    RETURN true;
+  END IF;
+
+  v_template := COALESCE(p_room.template, '{}'::jsonb);
+  IF NOT v_template ? 'hostPermissions' AND v_template ? 'permissions' THEN
+    v_legacy := v_template->'permissions';
+    IF v_role IN ('host', 'co_host') THEN
+      RETURN v_legacy ? p_permission
+        OR p_permission IN ('force_edit', 'reset_scores', 'edit_template');
+    ELSIF v_role = 'player' THEN
+      RETURN v_legacy ? p_permission AND p_permission != 'finalize_game';
+    END IF;
+    RETURN false;
+  END IF;
+
+  IF v_role IN ('host', 'co_host') THEN
+    RETURN COALESCE(v_template->'hostPermissions', '[]'::jsonb) ? p_permission;
+  ELSIF v_role = 'player' THEN
+    RETURN COALESCE(v_template->'playerPermissions', '[]'::jsonb) ? p_permission;
+  END IF;
+
+  RETURN false;
+END;
+$$;
+
+-- 3. _is_room_host: ホスト・コホスト（または service_role）か
+CREATE OR REPLACE FUNCTION public._is_room_host(p_room public.rooms)
+RETURNS BOOLEAN
+LANGUAGE plpgsql STABLE
+AS $$
+BEGIN
+  RETURN public._caller_role(p_room) IN ('service', 'host', 'co_host');
+END;
+$$;
+
+
+-- ============================================
+-- RPC 関数の再定義（権限チェック付き）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_transfer_score: スコア移動（Pot対応、残高チェック）
+--   Pot → プレイヤー : retrieve_pot
+--   それ以外         : transfer_score
+--   プレイヤー権限では自分（または Pot）からの移動のみ許可
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_transfer_score(
+  p_room_id UUID,
+  p_from_id TEXT,
+  p_to_id TEXT,
+  p_transfers JSONB,   -- [{variable, amount}, ...]
+  p_from_name TEXT DEFAULT NULL,
+  p_to_name TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_template JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_transfer JSONB;
+  v_var TEXT;
+  v_amount NUMERIC;
+  v_from_val NUMERIC;
+  v_to_val NUMERIC;
+  v_display_from TEXT;
+  v_display_to TEXT;
+  v_details TEXT := '';
+  v_label TEXT;
+  v_msg TEXT;
+BEGIN
+  -- 1. 行ロック取得
+  SELECT * INTO v_room
+  FROM public.rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 2. 権限チェック
+  IF p_from_id = '__pot__' THEN
+    IF NOT public._has_permission(v_room, 'retrieve_pot') THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+  ELSE
+    IF NOT public._has_permission(v_room, 'transfer_score') THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+    -- プレイヤー権限では他人のスコアを動かせない
+    IF NOT public._is_room_host(v_room) AND p_from_id IS DISTINCT FROM auth.uid()::text THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+  END IF;
+
+  v_state := v_room.current_state;
+  v_template := v_room.template;
+  v_tpl_vars := COALESCE(v_template->'variables', '[]'::jsonb);
+
+  -- 3. 操作前スナップショット
+  v_before := public._build_snapshot(v_state);
+
+  -- 4. transfers を順に処理
+  FOR v_transfer IN SELECT * FROM jsonb_array_elements(p_transfers)
+  LOOP
+    v_var := v_transfer->>'variable';
+    v_amount := (v_transfer->>'amount')::numeric;
+
+    IF p_from_id = '__pot__' THEN
+      -- Pot → プレイヤー
+      IF COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) < v_amount THEN
+        RETURN jsonb_build_object('error', '供託金が不足しています');
+      END IF;
+      v_state := jsonb_set(v_state, ARRAY['__pot__', v_var],
+        to_jsonb(COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) - v_amount));
+      IF NOT v_state ? p_to_id THEN
+        RETURN jsonb_build_object('error', '送信先プレイヤーが見つかりません');
+      END IF;
+      v_state := jsonb_set(v_state, ARRAY[p_to_id, v_var],
+        to_jsonb(COALESCE((v_state->p_to_id->>v_var)::numeric, 0) + v_amount));
+
+    ELSIF p_to_id = '__pot__' THEN
+      -- プレイヤー → Pot
+      IF NOT v_state ? p_from_id THEN
+        RETURN jsonb_build_object('error', '送信元プレイヤーが見つかりません');
+      END IF;
+      v_from_val := COALESCE((v_state->p_from_id->>v_var)::numeric, 0);
+      v_state := jsonb_set(v_state, ARRAY[p_from_id, v_var], to_jsonb(v_from_val - v_amount));
+      -- __pot__ が存在しなければ初期化
+      IF NOT v_state ? '__pot__' THEN
+        v_state := jsonb_set(v_state, '{__pot__}', '{}'::jsonb);
+      END IF;
+      v_state := jsonb_set(v_state, ARRAY['__pot__', v_var],
+        to_jsonb(COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) + v_amount));
+
+    ELSE
+      -- プレイヤー間
+      IF NOT v_state ? p_from_id OR NOT v_state ? p_to_id THEN
+        RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+      END IF;
+      v_from_val := COALESCE((v_state->p_from_id->>v_var)::numeric, 0);
+      v_state := jsonb_set(v_state, ARRAY[p_from_id, v_var], to_jsonb(v_from_val - v_amount));
+      v_state := jsonb_set(v_state, ARRAY[p_to_id, v_var],
+        to_jsonb(COALESCE((v_state->p_to_id->>v_var)::numeric, 0) + v_amount));
+    END IF;
+
+    -- ラベル取得
+    v_label := public._get_variable_label(v_tpl_vars, v_var);
+    IF v_details != '' THEN v_details := v_details || ', '; END IF;
+    v_details := v_details || v_label || ' ' || v_amount::text;
+  END LOOP;
+
+  -- 5. 履歴メッセージ
+  v_display_from := COALESCE(p_from_name,
+    CASE WHEN p_from_id = '__pot__' THEN '供託回収' ELSE left(p_from_id, 8) END);
+  v_display_to := COALESCE(p_to_name,
+    CASE WHEN p_to_id = '__pot__' THEN '供託' ELSE left(p_to_id, 8) END);
+  v_msg := v_display_from || ' → ' || v_display_to || ': ' || v_details;
+
+  -- 6. __recent_log__ 更新
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  -- 7. UPDATE rooms
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  -- 8. INSERT room_history
+  INSERT INTO public.room_history (room_id, message, snapshot)
+  VALUES (p_room_id, v_msg, v_before);
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_force_edit_score: 指定変数の上書き（force_edit）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_force_edit_score(
+  p_room_id UUID,
+  p_player_id TEXT,
+  p_updates JSONB,      -- {"score": 30000, ...}
+  p_display_name TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_key TEXT;
+  v_val NUMERIC;
+  v_label TEXT;
+  v_details TEXT := '';
+  v_msg TEXT;
+  v_name TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'force_edit') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+
+  IF NOT v_state ? p_player_id THEN
+    RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+  END IF;
+
+  v_tpl_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+  v_before := public._build_snapshot(v_state);
+
+  -- 値を上書き
+  FOR v_key, v_val IN SELECT * FROM jsonb_each_text(p_updates)
+  LOOP
+    v_state := jsonb_set(v_state, ARRAY[p_player_id, v_key], to_jsonb(v_val::numeric));
+    v_label := public._get_variable_label(v_tpl_vars, v_key);
+    IF v_details != '' THEN v_details := v_details || ', '; END IF;
+    v_details := v_details || v_label || ': ' || v_val;
+  END LOOP;
+
+  v_name := COALESCE(p_display_name, left(p_player_id, 8));
+  v_msg := '強制編集: ' || v_name || ' - ' || v_details;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+  INSERT INTO public.room_history (room_id, message, snapshot)
+  VALUES (p_room_id, v_msg, v_before);
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_reset_scores: 全プレイヤーの変数を初期値にリセット（reset_scores）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_reset_scores(
+  p_room_id UUID,
+  p_variable_keys JSONB   -- ["score", "riichi"]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_var_key TEXT;
+  v_initial NUMERIC;
+  v_player_id TEXT;
+  v_labels TEXT := '';
+  v_label TEXT;
+  v_msg TEXT;
+  v_var JSONB;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'reset_scores') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_tpl_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+  v_before := public._build_snapshot(v_state);
+
+  -- 各変数キーについて処理
+  FOR v_var_key IN SELECT * FROM jsonb_array_elements_text(p_variable_keys)
+  LOOP
+    -- テンプレートから初期値を取得
+    v_initial := NULL;
+    FOR v_var IN SELECT * FROM jsonb_array_elements(v_tpl_vars)
+    LOOP
+      IF v_var->>'key' = v_var_key THEN
+        v_initial := (v_var->>'initial')::numeric;
+        EXIT;
+      END IF;
+    END LOOP;
+
+    IF v_initial IS NULL THEN CONTINUE; END IF;
+
+    -- 全プレイヤーをリセット
+    FOR v_player_id IN SELECT jsonb_object_keys(v_state)
+    LOOP
+      IF LEFT(v_player_id, 2) != '__' THEN
+        IF v_state->v_player_id ? v_var_key THEN
+          v_state := jsonb_set(v_state, ARRAY[v_player_id, v_var_key], to_jsonb(v_initial));
+        END IF;
+      END IF;
+    END LOOP;
+
+    -- Pot リセット
+    IF v_state ? '__pot__' AND v_state->'__pot__' ? v_var_key THEN
+      v_state := jsonb_set(v_state, ARRAY['__pot__', v_var_key], to_jsonb(0));
+    END IF;
+
+    -- ラベル収集
+    v_label := public._get_variable_label(v_tpl_vars, v_var_key);
+    IF v_labels != '' THEN v_labels := v_labels || ', '; END IF;
+    v_labels := v_labels || v_label;
+  END LOOP;
+
+  v_msg := 'リセット: ' || v_labels;
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+  INSERT INTO public.room_history (room_id, message, snapshot)
+  VALUES (p_room_id, v_msg, v_before);
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_undo_last: 最新履歴エントリのsnapshotを復元、エントリ削除
+--   対応する PermissionKey が無いため、UI と同じくホスト・コホストのみ許可
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_undo_last(p_room_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_entry RECORD;
+  v_restored JSONB;
+  v_recent_log JSONB;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+
+  -- 最新エントリ取得
+  SELECT * INTO v_entry
+  FROM public.room_history
+  WHERE room_id = p_room_id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', '取り消せる操作がありません');
+  END IF;
+
+  -- snapshot を復元（着席プレイヤー・離席者の補完）
+  v_restored := public._ensure_seated_players(
+    v_entry.snapshot,
+    COALESCE(v_room.seats, '[]'::jsonb),
+    COALESCE(v_room.template->'variables', '[]'::jsonb),
+    v_state
+  );
+
+  -- エントリ削除
+  DELETE FROM public.room_history WHERE id = v_entry.id;
+
+  -- 対応する精算レコードも削除（精算操作の undo 時）
+  DELETE FROM public.room_settlements
+  WHERE room_id = p_room_id AND created_at = v_entry.created_at;
+
+  -- __recent_log__: undo した操作メッセージを除去
+  v_recent_log := COALESCE(v_state->'__recent_log__', '[]'::jsonb);
+  v_recent_log := (
+    SELECT COALESCE(jsonb_agg(elem), '[]'::jsonb)
+    FROM jsonb_array_elements(v_recent_log) AS elem
+    WHERE elem->>'message' != v_entry.message
+  );
+  v_restored := jsonb_set(v_restored, '{__recent_log__}', v_recent_log);
+
+  UPDATE public.rooms SET current_state = v_restored WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_rollback_to: 指定エントリ以降を全削除、snapshotを復元
+--   rpc_undo_last と同じくホスト・コホストのみ許可
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_rollback_to(
+  p_room_id UUID,
+  p_history_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_entry RECORD;
+  v_restored JSONB;
+  v_before JSONB;
+  v_msg TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+
+  -- 対象エントリ取得
+  SELECT * INTO v_entry
+  FROM public.room_history
+  WHERE id = p_history_id AND room_id = p_room_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', '指定された履歴が見つかりません');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+
+  -- snapshot を復元
+  v_restored := public._ensure_seated_players(
+    v_entry.snapshot,
+    COALESCE(v_room.seats, '[]'::jsonb),
+    COALESCE(v_room.template->'variables', '[]'::jsonb),
+    v_state
+  );
+
+  v_msg := 'ロールバック (' || to_char(v_entry.created_at AT TIME ZONE 'Asia/Tokyo', 'HH24:MI:SS') || ')';
+
+  -- 対象エントリ以降の履歴を削除
+  DELETE FROM public.room_history
+  WHERE room_id = p_room_id AND created_at >= v_entry.created_at;
+
+  -- 対象エントリ以降の精算レコードも削除
+  DELETE FROM public.room_settlements
+  WHERE room_id = p_room_id AND created_at >= v_entry.created_at;
+
+  -- ロールバック操作自体を履歴に追加
+  INSERT INTO public.room_history (room_id, message, snapshot)
+  VALUES (p_room_id, v_msg, v_before);
+
+  -- __recent_log__ 更新
+  v_restored := public._push_recent_log(v_restored, v_msg);
+
+  UPDATE public.rooms SET current_state = v_restored WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_save_settlement: 精算保存 + スコアリセット（finalize_game）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_save_settlement(
+  p_room_id UUID,
+  p_settlement_id UUID,
+  p_player_results JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_score_initial NUMERIC;
+  v_player_id TEXT;
+  v_var JSONB;
+  v_msg TEXT;
+  v_summary TEXT := '';
+  v_pr JSONB;
+  v_uid TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'finalize_game') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_tpl_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+  v_before := public._build_snapshot(v_state);
+
+  -- score変数の初期値を取得
+  v_score_initial := NULL;
+  FOR v_var IN SELECT * FROM jsonb_array_elements(v_tpl_vars)
+  LOOP
+    IF v_var->>'key' = 'score' THEN
+      v_score_initial := (v_var->>'initial')::numeric;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  -- score をリセット
+  IF v_score_initial IS NOT NULL THEN
+    FOR v_player_id IN SELECT jsonb_object_keys(v_state)
+    LOOP
+      IF LEFT(v_player_id, 2) != '__' THEN
+        IF v_state->v_player_id ? 'score' THEN
+          v_state := jsonb_set(v_state, ARRAY[v_player_id, 'score'], to_jsonb(v_score_initial));
+        END IF;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Pot の score もリセット
+  IF v_state ? '__pot__' AND v_state->'__pot__' ? 'score' THEN
+    v_state := jsonb_set(v_state, ARRAY['__pot__', 'score'], to_jsonb(0));
+  END IF;
+
+  -- 精算サマリメッセージ作成（rankでソート）
+  FOR v_uid, v_pr IN SELECT * FROM jsonb_each(p_player_results) ORDER BY (value->>'rank')::int ASC
+  LOOP
+    IF v_summary != '' THEN v_summary := v_summary || ', '; END IF;
+    v_summary := v_summary || (v_pr->>'displayName') || ': ';
+    IF (v_pr->>'result')::numeric >= 0 THEN
+      v_summary := v_summary || '+';
+    END IF;
+    v_summary := v_summary || (v_pr->>'result')::text;
+  END LOOP;
+  v_msg := '精算: ' || v_summary;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  -- settlement レコード
+  INSERT INTO public.room_settlements (id, room_id, type, player_results)
+  VALUES (p_settlement_id, p_room_id, 'settlement', p_player_results);
+
+  -- 履歴レコード
+  INSERT INTO public.room_history (room_id, message, snapshot)
+  VALUES (p_room_id, v_msg, v_before);
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_save_adjustment: 調整行保存（スコア変更なし、finalize_game）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_save_adjustment(
+  p_room_id UUID,
+  p_settlement_id UUID,
+  p_player_results JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_msg TEXT;
+  v_summary TEXT := '';
+  v_pr JSONB;
+  v_uid TEXT;
+  v_result NUMERIC;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'finalize_game') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_before := public._build_snapshot(v_state);
+
+  -- 調整サマリメッセージ（result != 0 のみ）
+  FOR v_uid, v_pr IN SELECT * FROM jsonb_each(p_player_results)
+  LOOP
+    v_result := (v_pr->>'result')::numeric;
+    IF v_result != 0 THEN
+      IF v_summary != '' THEN v_summary := v_summary || ', '; END IF;
+      v_summary := v_summary || (v_pr->>'displayName') || ': ';
+      IF v_result >= 0 THEN
+        v_summary := v_summary || '+';
+      END IF;
+      v_summary := v_summary || round(v_result, 1)::text;
+    END IF;
+  END LOOP;
+  v_msg := '調整: ' || v_summary;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  INSERT INTO public.room_settlements (id, room_id, type, player_results)
+  VALUES (p_settlement_id, p_room_id, 'adjustment', p_player_results);
+
+  INSERT INTO public.room_history (room_id, message, snapshot)
+  VALUES (p_room_id, v_msg, v_before);
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_update_counter: カウンター CAS 更新（edit_counter）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_update_counter(
+  p_room_id UUID,
+  p_expected_value INTEGER,
+  p_new_value INTEGER
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+  v_current INTEGER;
+BEGIN
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'edit_counter') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_current := COALESCE((v_room.current_state->>'__count__')::INTEGER, 0);
+
+  -- CAS チェック: DB の現在値が expected と異なれば競合
+  IF v_current <> p_expected_value THEN
+    RETURN jsonb_build_object('conflict', true, 'current_value', v_current);
+  END IF;
+
+  UPDATE rooms
+  SET current_state = jsonb_set(current_state, '{__count__}', to_jsonb(p_new_value))
+  WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
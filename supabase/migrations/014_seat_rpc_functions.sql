@@ -0,0 +1,535 @@
+-- ============================================
+-- 座席操作の RPC 化
+-- joinSeat / leaveSeat / forceLeaveSeat / joinFakeSeat /
+-- reseatFakePlayer / removeFakePlayer のクライアント側 Read-Modify-Write を
+-- FOR UPDATE 行ロック付きの plpgsql RPC に置き換える。
+-- 同じ空席への同時着席は後着側が seat_taken エラーになる。
+-- 座席の変化は room_history にも記録する。
+-- ============================================
+
+-- ============================================
+-- ヘルパー関数（内部用）
+-- ============================================
+
+-- 1. _seat_error: 構造化エラー {error, code} を返す
+--   code はクライアントでの機械判定用（seat_taken / already_seated など）
+CREATE OR REPLACE FUNCTION public._seat_error(p_code TEXT, p_message TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+BEGIN
+  RETURN jsonb_build_object('error', p_message, 'code', p_code);
+END;
+$$;
+
+-- 2. _initial_player_state: テンプレート変数の初期値からプレイヤー状態を生成
+CREATE OR REPLACE FUNCTION public._initial_player_state(tpl_vars JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+DECLARE
+  result JSONB := '{}'::jsonb;
+  v JSONB;
+BEGIN
+  FOR v IN SELECT * FROM jsonb_array_elements(COALESCE(tpl_vars, '[]'::jsonb))
+  LOOP
+    result := jsonb_set(result, ARRAY[v->>'key'], v->'initial');
+  END LOOP;
+  RETURN result;
+END;
+$$;
+
+-- 3. _find_seat_index: userId が着席している座席インデックス（なければ -1）
+CREATE OR REPLACE FUNCTION public._find_seat_index(seats JSONB, p_user_id TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+DECLARE
+  i INTEGER;
+BEGIN
+  FOR i IN 0 .. COALESCE(jsonb_array_length(seats), 0) - 1
+  LOOP
+    IF seats->i != 'null'::jsonb AND seats->i->>'userId' = p_user_id THEN
+      RETURN i;
+    END IF;
+  END LOOP;
+  RETURN -1;
+END;
+$$;
+
+-- 4. _seat_display_name: 座席 / current_state から表示名を解決
+CREATE OR REPLACE FUNCTION public._seat_display_name(
+  seats JSONB,
+  state JSONB,
+  p_user_id TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+DECLARE
+  v_index INTEGER;
+BEGIN
+  v_index := public._find_seat_index(seats, p_user_id);
+  RETURN COALESCE(
+    CASE WHEN v_index >= 0 THEN seats->v_index->>'displayName' END,
+    state->p_user_id->>'__displayName__',
+    left(p_user_id, 8)
+  );
+END;
+$$;
+
+
+-- ============================================
+-- RPC 関数（6個）
+-- 成功時は {success: true, room: <更新後の rooms 行>} を返す
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_join_seat: 呼び出しユーザーを指定座席に着席させる
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_join_seat(
+  p_room_id UUID,
+  p_seat_index INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_uid TEXT;
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_display_name TEXT;
+  v_msg TEXT;
+BEGIN
+  v_uid := auth.uid()::text;
+  IF v_uid IS NULL THEN
+    RETURN public._seat_error('unauthenticated', 'ユーザーが認証されていません');
+  END IF;
+
+  -- 1. 行ロック取得
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  -- 2. 座席の検証
+  IF p_seat_index < 0 OR p_seat_index >= jsonb_array_length(v_seats) THEN
+    RETURN public._seat_error('invalid_seat', '無効な座席インデックスです');
+  END IF;
+
+  IF public._find_seat_index(v_seats, v_uid) >= 0 THEN
+    RETURN public._seat_error('already_seated', '既に座席に着席しています');
+  END IF;
+
+  IF v_seats->p_seat_index != 'null'::jsonb THEN
+    RETURN public._seat_error('seat_taken', 'この座席は既に使用されています');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+
+  -- 3. 表示名（profiles）を取得して着席
+  SELECT display_name INTO v_display_name
+  FROM public.profiles WHERE id = auth.uid();
+
+  v_seats := jsonb_set(v_seats, ARRAY[p_seat_index::text], jsonb_strip_nulls(
+    jsonb_build_object('userId', v_uid, 'status', 'active', 'displayName', v_display_name)
+  ));
+
+  -- 4. 初回着席ならテンプレート初期値を設定
+  IF NOT v_state ? v_uid THEN
+    v_state := jsonb_set(v_state, ARRAY[v_uid],
+      public._initial_player_state(v_room.template->'variables'));
+  END IF;
+  -- displayName を保存（離席後も名前を表示するため）
+  IF v_display_name IS NOT NULL THEN
+    v_state := jsonb_set(v_state, ARRAY[v_uid, '__displayName__'], to_jsonb(v_display_name));
+  END IF;
+
+  v_msg := '着席: ' || COALESCE(v_display_name, left(v_uid, 8));
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  INSERT INTO public.room_history (room_id, message, snapshot)
+  VALUES (p_room_id, v_msg, v_before);
+
+  -- 5. プロファイルの current_room_id を更新
+  UPDATE public.profiles SET current_room_id = p_room_id WHERE id = auth.uid();
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_leave_seat: 呼び出しユーザーを座席から離席させる
+--   current_state のスコアは保持する
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_leave_seat(p_room_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_uid TEXT;
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_index INTEGER;
+  v_msg TEXT;
+BEGIN
+  v_uid := auth.uid()::text;
+  IF v_uid IS NULL THEN
+    RETURN public._seat_error('unauthenticated', 'ユーザーが認証されていません');
+  END IF;
+
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  v_index := public._find_seat_index(v_seats, v_uid);
+  IF v_index < 0 THEN
+    RETURN public._seat_error('not_seated', '座席に着席していません');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+  v_msg := '離席: ' || public._seat_display_name(v_seats, v_state, v_uid);
+
+  v_seats := jsonb_set(v_seats, ARRAY[v_index::text], 'null'::jsonb);
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  INSERT INTO public.room_history (room_id, message, snapshot)
+  VALUES (p_room_id, v_msg, v_before);
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_force_leave_seat: 指定ユーザーを座席から強制離席（タイムアウト・ホスト操作用）
+--   切断検知は全クライアントで動くため、認証済みユーザーなら誰でも呼び出せる
+--   冪等: 既に離席済みなら履歴を残さず成功を返す
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_force_leave_seat(
+  p_room_id UUID,
+  p_target_user_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_index INTEGER;
+  v_msg TEXT;
+BEGIN
+  IF auth.uid() IS NULL AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RETURN public._seat_error('unauthenticated', 'ユーザーが認証されていません');
+  END IF;
+
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  v_index := public._find_seat_index(v_seats, p_target_user_id);
+  IF v_index < 0 THEN
+    RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+  v_msg := '強制離席: ' || public._seat_display_name(v_seats, v_state, p_target_user_id);
+
+  v_seats := jsonb_set(v_seats, ARRAY[v_index::text], 'null'::jsonb);
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  INSERT INTO public.room_history (room_id, message, snapshot)
+  VALUES (p_room_id, v_msg, v_before);
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_join_fake_seat: 架空ユーザー（ゲスト）を作成して着席させる（ホスト専用）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_join_fake_seat(
+  p_room_id UUID,
+  p_seat_index INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_fake_id TEXT;
+  v_display_name TEXT;
+  v_candidate TEXT;
+  v_letter TEXT;
+  v_used TEXT[];
+  v_msg TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN public._seat_error('not_host', 'ホストのみが架空ユーザーを作成できます');
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  IF p_seat_index < 0 OR p_seat_index >= jsonb_array_length(v_seats) THEN
+    RETURN public._seat_error('invalid_seat', '無効な座席インデックスです');
+  END IF;
+
+  IF v_seats->p_seat_index != 'null'::jsonb THEN
+    RETURN public._seat_error('seat_taken', 'この座席は既に使用されています');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+
+  -- 架空ユーザーIDを生成（一意）
+  v_fake_id := 'fake_' || (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::bigint::text
+    || '_' || substr(md5(random()::text), 1, 4);
+
+  -- 使用中の名前（seats + current_state に残っているゲスト）と衝突しない名前を選ぶ
+  SELECT array_agg(name) INTO v_used
+  FROM (
+    SELECT seat->>'displayName' AS name
+    FROM jsonb_array_elements(v_seats) AS seat
+    WHERE seat != 'null'::jsonb
+    UNION
+    SELECT value->>'__displayName__'
+    FROM jsonb_each(v_state)
+    WHERE key LIKE 'fake\_%'
+  ) names
+  WHERE name IS NOT NULL;
+
+  v_display_name := 'プレイヤーA';
+  FOREACH v_letter IN ARRAY ARRAY['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H']
+  LOOP
+    v_candidate := 'プレイヤー' || v_letter;
+    IF v_used IS NULL OR NOT v_candidate = ANY(v_used) THEN
+      v_display_name := v_candidate;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  v_seats := jsonb_set(v_seats, ARRAY[p_seat_index::text], jsonb_build_object(
+    'userId', v_fake_id,
+    'status', 'active',
+    'displayName', v_display_name,
+    'isFake', true
+  ));
+  v_state := jsonb_set(v_state, ARRAY[v_fake_id],
+    public._initial_player_state(v_room.template->'variables')
+      || jsonb_build_object('__displayName__', v_display_name));
+
+  v_msg := 'ゲスト着席: ' || v_display_name;
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  INSERT INTO public.room_history (room_id, message, snapshot)
+  VALUES (p_room_id, v_msg, v_before);
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_reseat_fake_player: 離席済みゲストを指定座席に再着席（ホスト専用）
+--   current_state は変更しない
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_reseat_fake_player(
+  p_room_id UUID,
+  p_fake_user_id TEXT,
+  p_seat_index INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_display_name TEXT;
+  v_msg TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN public._seat_error('not_host', 'ホストのみがゲストを操作できます');
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  IF p_seat_index < 0 OR p_seat_index >= jsonb_array_length(v_seats) THEN
+    RETURN public._seat_error('invalid_seat', '無効な座席インデックスです');
+  END IF;
+
+  IF v_seats->p_seat_index != 'null'::jsonb THEN
+    RETURN public._seat_error('seat_taken', 'この座席は既に使用されています');
+  END IF;
+
+  IF LEFT(p_fake_user_id, 5) != 'fake_' OR NOT v_state ? p_fake_user_id THEN
+    RETURN public._seat_error('guest_not_found', '指定されたゲストが見つかりません');
+  END IF;
+
+  IF public._find_seat_index(v_seats, p_fake_user_id) >= 0 THEN
+    RETURN public._seat_error('already_seated', 'このゲストは既に着席しています');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+  v_display_name := COALESCE(v_state->p_fake_user_id->>'__displayName__', p_fake_user_id);
+
+  v_seats := jsonb_set(v_seats, ARRAY[p_seat_index::text], jsonb_build_object(
+    'userId', p_fake_user_id,
+    'status', 'active',
+    'displayName', v_display_name,
+    'isFake', true
+  ));
+
+  v_msg := 'ゲスト着席: ' || v_display_name;
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  INSERT INTO public.room_history (room_id, message, snapshot)
+  VALUES (p_room_id, v_msg, v_before);
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_remove_fake_player: ゲストを座席と current_state から削除（ホスト専用）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_remove_fake_player(
+  p_room_id UUID,
+  p_fake_user_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_index INTEGER;
+  v_msg TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN public._seat_error('not_host', 'ホストのみがゲストを操作できます');
+  END IF;
+
+  -- 実ユーザーのスコアを消せないよう fake_ プレフィックスのみ許可
+  IF LEFT(p_fake_user_id, 5) != 'fake_' THEN
+    RETURN public._seat_error('guest_not_found', '指定されたゲストが見つかりません');
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  v_index := public._find_seat_index(v_seats, p_fake_user_id);
+  IF v_index < 0 AND NOT v_state ? p_fake_user_id THEN
+    RETURN public._seat_error('guest_not_found', '指定されたゲストが見つかりません');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+  v_msg := 'ゲスト削除: ' || public._seat_display_name(v_seats, v_state, p_fake_user_id);
+
+  IF v_index >= 0 THEN
+    v_seats := jsonb_set(v_seats, ARRAY[v_index::text], 'null'::jsonb);
+  END IF;
+  v_state := v_state - p_fake_user_id;
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  INSERT INTO public.room_history (room_id, message, snapshot)
+  VALUES (p_room_id, v_msg, v_before);
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_join_seat(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_leave_seat(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_force_leave_seat(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_join_fake_seat(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_reseat_fake_player(UUID, TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_remove_fake_player(UUID, TEXT) TO authenticated;
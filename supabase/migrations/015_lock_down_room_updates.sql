@@ -0,0 +1,345 @@
+-- ============================================
+-- rooms の UPDATE 権限を閉じる
+-- 003 で「認証済みユーザーは誰でも全カラムを更新可能」にしていたため、
+-- template / host_user_id / co_host_ids / seats を外部から書き換えられた。
+-- UPDATE ポリシーを削除し（RLS により直接 UPDATE は 0 件更新になる）、
+-- 残っていたクライアント直接更新をすべて SECURITY DEFINER の RPC に置き換える。
+--   テンプレート・ステータス・ルーム名・ゲスト名 : ホスト・コホスト
+--   コホスト一覧                                  : ルーム作成者のみ
+-- ============================================
+
+DROP POLICY IF EXISTS "Authenticated users can update rooms" ON public.rooms;
+DROP POLICY IF EXISTS "Host can update their own rooms" ON public.rooms;
+
+
+-- ============================================
+-- RPC 関数（7個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_update_template: テンプレートの部分更新（ホスト・コホスト）
+--   新しい変数は既存プレイヤーに初期値で追加し、
+--   既存変数の initial が変わった場合は差分をスライドする
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_update_template(
+  p_room_id UUID,
+  p_template_update JSONB   -- Partial<GameTemplate>
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_old_vars JSONB;
+  v_var JSONB;
+  v_old_var JSONB;
+  v_key TEXT;
+  v_player_id TEXT;
+  v_diff NUMERIC;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'ホストのみがテンプレートを変更できます');
+  END IF;
+
+  IF jsonb_typeof(p_template_update) IS DISTINCT FROM 'object' THEN
+    RETURN jsonb_build_object('error', 'テンプレートの形式が不正です');
+  END IF;
+
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  IF p_template_update ? 'variables' THEN
+    v_old_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+
+    FOR v_player_id IN SELECT jsonb_object_keys(v_state)
+    LOOP
+      IF LEFT(v_player_id, 2) = '__' THEN CONTINUE; END IF;
+
+      FOR v_var IN SELECT * FROM jsonb_array_elements(p_template_update->'variables')
+      LOOP
+        v_key := v_var->>'key';
+
+        IF NOT v_state->v_player_id ? v_key THEN
+          -- 新しい変数: 初期値で追加
+          v_state := jsonb_set(v_state, ARRAY[v_player_id, v_key], v_var->'initial');
+        ELSE
+          -- 既存変数: initial の差分をスライド
+          SELECT elem INTO v_old_var
+          FROM jsonb_array_elements(v_old_vars) AS elem
+          WHERE elem->>'key' = v_key
+          LIMIT 1;
+
+          IF v_old_var IS NOT NULL THEN
+            v_diff := (v_var->>'initial')::numeric - (v_old_var->>'initial')::numeric;
+            IF v_diff != 0 THEN
+              v_state := jsonb_set(v_state, ARRAY[v_player_id, v_key],
+                to_jsonb((v_state->v_player_id->>v_key)::numeric + v_diff));
+            END IF;
+          END IF;
+        END IF;
+      END LOOP;
+    END LOOP;
+  END IF;
+
+  UPDATE public.rooms
+  SET template = COALESCE(v_room.template, '{}'::jsonb) || p_template_update,
+      current_state = v_state
+  WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_update_co_hosts: コホスト一覧を置き換える（ルーム作成者のみ）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_update_co_hosts(
+  p_room_id UUID,
+  p_co_host_ids JSONB   -- ["uuid", ...]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF public._caller_role(v_room) NOT IN ('service', 'host') THEN
+    RETURN jsonb_build_object('error', 'ルーム作成者のみがホスト権限を変更できます');
+  END IF;
+
+  IF jsonb_typeof(p_co_host_ids) IS DISTINCT FROM 'array' THEN
+    RETURN jsonb_build_object('error', 'コホスト一覧の形式が不正です');
+  END IF;
+
+  UPDATE public.rooms SET co_host_ids = p_co_host_ids WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_update_room_status: ルームのステータスを更新（ホスト・コホスト）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_update_room_status(
+  p_room_id UUID,
+  p_status TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'ホストのみがステータスを変更できます');
+  END IF;
+
+  IF p_status NOT IN ('waiting', 'playing', 'finished') THEN
+    RETURN jsonb_build_object('error', '無効なステータスです');
+  END IF;
+
+  UPDATE public.rooms SET status = p_status WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_update_room_name: ルーム名を更新（ホスト・コホスト）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_update_room_name(
+  p_room_id UUID,
+  p_room_name TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'ホストのみがルーム名を変更できます');
+  END IF;
+
+  UPDATE public.rooms SET room_name = p_room_name WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_rename_fake_player: ゲストの表示名を変更（ホスト・コホスト）
+--   seats[i].displayName と current_state[id].__displayName__ を両方更新
+--   存在しないゲストは何もせず成功を返す（冪等）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_rename_fake_player(
+  p_room_id UUID,
+  p_fake_user_id TEXT,
+  p_new_name TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_index INTEGER;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'ホストのみがゲストを操作できます');
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  v_index := public._find_seat_index(v_seats, p_fake_user_id);
+  IF v_index >= 0 THEN
+    v_seats := jsonb_set(v_seats, ARRAY[v_index::text, 'displayName'], to_jsonb(p_new_name));
+  END IF;
+
+  IF v_state ? p_fake_user_id THEN
+    v_state := jsonb_set(v_state, ARRAY[p_fake_user_id, '__displayName__'], to_jsonb(p_new_name));
+  END IF;
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_join_game: 呼び出しユーザーをプレイヤーとして追加（リストモード用）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_join_game(p_room_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_uid TEXT;
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+BEGIN
+  v_uid := auth.uid()::text;
+  IF v_uid IS NULL THEN
+    RETURN jsonb_build_object('error', 'ユーザーが認証されていません');
+  END IF;
+
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF v_room.status = 'finished' THEN
+    RETURN jsonb_build_object('error', 'このルームは既に終了しています');
+  END IF;
+
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+  IF v_state ? v_uid THEN
+    RETURN jsonb_build_object('error', '既にゲームに参加しています');
+  END IF;
+
+  v_state := jsonb_set(v_state, ARRAY[v_uid],
+    public._initial_player_state(v_room.template->'variables'));
+
+  UPDATE public.rooms
+  SET current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  UPDATE public.profiles SET current_room_id = p_room_id WHERE id = auth.uid();
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_leave_game: 呼び出しユーザーのプレイヤーデータを current_state から削除
+--   座席は変更しない。参加していなければ何もせず成功を返す（冪等）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_leave_game(p_room_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_uid TEXT;
+  v_room public.rooms%ROWTYPE;
+BEGIN
+  v_uid := auth.uid()::text;
+  IF v_uid IS NULL THEN
+    RETURN jsonb_build_object('error', 'ユーザーが認証されていません');
+  END IF;
+
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF COALESCE(v_room.current_state, '{}'::jsonb) ? v_uid THEN
+    UPDATE public.rooms
+    SET current_state = current_state - v_uid
+    WHERE id = p_room_id;
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_update_template(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_update_co_hosts(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_update_room_status(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_update_room_name(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_rename_fake_player(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_join_game(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_leave_game(UUID) TO authenticated;
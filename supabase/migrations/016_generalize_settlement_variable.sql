@@ -0,0 +1,114 @@
+-- ============================================
+-- 精算対象変数の汎用化
+-- これまで rpc_save_settlement は常に score 変数をリセットしていたため、
+-- score 以外の変数で精算するテンプレート（ボードゲーム等）では
+-- 精算後も値が残っていた。template.settlementConfig.variable
+-- （未指定時は score）の変数を初期値にリセットするよう変更する。
+-- ============================================
+
+
+-- ============================================
+-- RPC 関数（1個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_save_settlement: 精算保存 + 対象変数リセット（finalize_game）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_save_settlement(
+  p_room_id UUID,
+  p_settlement_id UUID,
+  p_player_results JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_var_key TEXT;
+  v_initial NUMERIC;
+  v_player_id TEXT;
+  v_var JSONB;
+  v_msg TEXT;
+  v_summary TEXT := '';
+  v_pr JSONB;
+  v_uid TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'finalize_game') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_tpl_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+  v_before := public._build_snapshot(v_state);
+
+  -- 精算対象変数とその初期値を取得
+  v_var_key := COALESCE(v_room.template->'settlementConfig'->>'variable', 'score');
+  v_initial := NULL;
+  FOR v_var IN SELECT * FROM jsonb_array_elements(v_tpl_vars)
+  LOOP
+    IF v_var->>'key' = v_var_key THEN
+      v_initial := (v_var->>'initial')::numeric;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  -- 対象変数をリセット
+  IF v_initial IS NOT NULL THEN
+    FOR v_player_id IN SELECT jsonb_object_keys(v_state)
+    LOOP
+      IF LEFT(v_player_id, 2) != '__' THEN
+        IF v_state->v_player_id ? v_var_key THEN
+          v_state := jsonb_set(v_state, ARRAY[v_player_id, v_var_key], to_jsonb(v_initial));
+        END IF;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Pot の対象変数もリセット
+  IF v_state ? '__pot__' AND v_state->'__pot__' ? v_var_key THEN
+    v_state := jsonb_set(v_state, ARRAY['__pot__', v_var_key], to_jsonb(0));
+  END IF;
+
+  -- 精算サマリメッセージ作成（rankでソート）
+  FOR v_uid, v_pr IN SELECT * FROM jsonb_each(p_player_results) ORDER BY (value->>'rank')::int ASC
+  LOOP
+    IF v_summary != '' THEN v_summary := v_summary || ', '; END IF;
+    v_summary := v_summary || (v_pr->>'displayName') || ': ';
+    IF (v_pr->>'result')::numeric >= 0 THEN
+      v_summary := v_summary || '+';
+    END IF;
+    v_summary := v_summary || (v_pr->>'result')::text;
+  END LOOP;
+  v_msg := '精算: ' || v_summary;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  -- settlement レコード
+  INSERT INTO public.room_settlements (id, room_id, type, player_results)
+  VALUES (p_settlement_id, p_room_id, 'settlement', p_player_results);
+
+  -- 履歴レコード
+  INSERT INTO public.room_history (room_id, message, snapshot)
+  VALUES (p_room_id, v_msg, v_before);
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_save_settlement(UUID, UUID, JSONB) TO authenticated;
@@ -0,0 +1,117 @@
+-- ============================================
+-- 5席以上の座席に対応
+-- rooms.seats は template.maxPlayers（2〜12）の長さで作成されるようになった。
+-- 座席系 RPC は jsonb_array_length で範囲チェックしているため変更不要だが、
+-- ゲスト名の候補が A〜H の8個しかなく 9人目以降が重複していたため
+-- A〜P の16個に拡張する。
+-- ============================================
+
+
+-- ============================================
+-- RPC 関数（1個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_join_fake_seat: 架空ユーザー（ゲスト）を作成して着席させる（ホスト専用）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_join_fake_seat(
+  p_room_id UUID,
+  p_seat_index INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_fake_id TEXT;
+  v_display_name TEXT;
+  v_candidate TEXT;
+  v_letter TEXT;
+  v_used TEXT[];
+  v_msg TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN public._seat_error('not_host', 'ホストのみが架空ユーザーを作成できます');
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  IF p_seat_index < 0 OR p_seat_index >= jsonb_array_length(v_seats) THEN
+    RETURN public._seat_error('invalid_seat', '無効な座席インデックスです');
+  END IF;
+
+  IF v_seats->p_seat_index != 'null'::jsonb THEN
+    RETURN public._seat_error('seat_taken', 'この座席は既に使用されています');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+
+  -- 架空ユーザーIDを生成（一意）
+  v_fake_id := 'fake_' || (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::bigint::text
+    || '_' || substr(md5(random()::text), 1, 4);
+
+  -- 使用中の名前（seats + current_state に残っているゲスト）と衝突しない名前を選ぶ
+  SELECT array_agg(name) INTO v_used
+  FROM (
+    SELECT seat->>'displayName' AS name
+    FROM jsonb_array_elements(v_seats) AS seat
+    WHERE seat != 'null'::jsonb
+    UNION
+    SELECT value->>'__displayName__'
+    FROM jsonb_each(v_state)
+    WHERE key LIKE 'fake\_%'
+  ) names
+  WHERE name IS NOT NULL;
+
+  v_display_name := 'プレイヤーA';
+  FOREACH v_letter IN ARRAY ARRAY['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H',
+                                  'I', 'J', 'K', 'L', 'M', 'N', 'O', 'P']
+  LOOP
+    v_candidate := 'プレイヤー' || v_letter;
+    IF v_used IS NULL OR NOT v_candidate = ANY(v_used) THEN
+      v_display_name := v_candidate;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  v_seats := jsonb_set(v_seats, ARRAY[p_seat_index::text], jsonb_build_object(
+    'userId', v_fake_id,
+    'status', 'active',
+    'displayName', v_display_name,
+    'isFake', true
+  ));
+  v_state := jsonb_set(v_state, ARRAY[v_fake_id],
+    public._initial_player_state(v_room.template->'variables')
+      || jsonb_build_object('__displayName__', v_display_name));
+
+  v_msg := 'ゲスト着席: ' || v_display_name;
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  INSERT INTO public.room_history (room_id, message, snapshot)
+  VALUES (p_room_id, v_msg, v_before);
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_join_fake_seat(UUID, INTEGER) TO authenticated;
@@ -0,0 +1,126 @@
+-- ============================================
+-- ゲーム記録のインポート
+-- エクスポートした JSON（テンプレート・座席・current_state・精算行）から
+-- ルームを復元する。ルーム自体はクライアントの createRoom で作成し、
+-- 作成直後の空のルームに座席・スコア・精算行をまとめて書き込む。
+-- 015 で rooms の UPDATE ポリシーを閉じたため RPC として提供する。
+-- ============================================
+
+
+-- ============================================
+-- RPC 関数（1個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_import_game_record: 作成直後のルームにゲーム記録を書き込む（ホスト専用）
+--   元のユーザーIDから架空ユーザーへの付け替えはクライアント側で済ませておく
+--   精算行は新しいIDで作成し、元の日時（timestamp, ms）を引き継ぐ
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_import_game_record(
+  p_room_id UUID,
+  p_seats JSONB,           -- (SeatInfo | null)[]
+  p_current_state JSONB,   -- GameState
+  p_settlements JSONB      -- [{type, timestamp, playerResults}, ...]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_settlement JSONB;
+  v_seat JSONB;
+  v_count INTEGER := 0;
+  v_msg TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'ホストのみがゲーム記録をインポートできます');
+  END IF;
+
+  -- 既存のゲームを上書きしないよう、作成直後のルームに限定
+  IF COALESCE(v_room.current_state, '{}'::jsonb) != '{}'::jsonb
+     OR EXISTS (SELECT 1 FROM public.room_settlements WHERE room_id = p_room_id)
+     OR EXISTS (
+       SELECT 1 FROM jsonb_array_elements(COALESCE(v_room.seats, '[]'::jsonb)) AS seat
+       WHERE seat != 'null'::jsonb
+     ) THEN
+    RETURN jsonb_build_object('error', 'インポートは作成直後のルームにのみ実行できます');
+  END IF;
+
+  IF jsonb_typeof(p_seats) IS DISTINCT FROM 'array'
+     OR jsonb_array_length(p_seats) < 2
+     OR jsonb_array_length(p_seats) > 12 THEN
+    RETURN jsonb_build_object('error', '座席情報が不正です');
+  END IF;
+
+  FOR v_seat IN SELECT * FROM jsonb_array_elements(p_seats)
+  LOOP
+    IF v_seat != 'null'::jsonb
+       AND (jsonb_typeof(v_seat) != 'object'
+            OR jsonb_typeof(v_seat->'userId') IS DISTINCT FROM 'string') THEN
+      RETURN jsonb_build_object('error', '座席情報が不正です');
+    END IF;
+  END LOOP;
+
+  IF jsonb_typeof(p_current_state) IS DISTINCT FROM 'object' THEN
+    RETURN jsonb_build_object('error', 'スコア情報が不正です');
+  END IF;
+
+  IF jsonb_typeof(p_settlements) IS DISTINCT FROM 'array' THEN
+    RETURN jsonb_build_object('error', '精算履歴が不正です');
+  END IF;
+
+  FOR v_settlement IN SELECT * FROM jsonb_array_elements(p_settlements)
+  LOOP
+    IF COALESCE(v_settlement->>'type', '') NOT IN ('settlement', 'adjustment')
+       OR jsonb_typeof(v_settlement->'timestamp') IS DISTINCT FROM 'number'
+       OR jsonb_typeof(v_settlement->'playerResults') IS DISTINCT FROM 'object' THEN
+      RETURN jsonb_build_object('error', '精算履歴が不正です');
+    END IF;
+  END LOOP;
+
+  v_before := public._build_snapshot(COALESCE(v_room.current_state, '{}'::jsonb));
+
+  -- 精算行（元の日時順を維持）
+  FOR v_settlement IN SELECT * FROM jsonb_array_elements(p_settlements)
+  LOOP
+    INSERT INTO public.room_settlements (room_id, type, player_results, created_at)
+    VALUES (
+      p_room_id,
+      v_settlement->>'type',
+      v_settlement->'playerResults',
+      to_timestamp((v_settlement->>'timestamp')::numeric / 1000)
+    );
+    IF v_settlement->>'type' = 'settlement' THEN
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  v_msg := 'ゲーム記録をインポート（精算 ' || v_count || ' 回）';
+  v_state := public._push_recent_log(p_current_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = p_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  INSERT INTO public.room_history (room_id, message, snapshot)
+  VALUES (p_room_id, v_msg, v_before);
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_import_game_record(UUID, JSONB, JSONB, JSONB) TO authenticated;
@@ -0,0 +1,124 @@
+-- ============================================
+-- ルーム横断のプレイヤー成績
+-- 自分が参加したすべてのルーム（ホストとして作成したルーム、または
+-- 精算結果に自分が含まれるルーム）の room_settlements.player_results を
+-- プレイヤーごとに集計して返す。
+--   total_result : 精算行 + 調整行の result 合計
+--   games        : 精算行の数（調整行は含めない）
+--   average_rank / rank_counts / best_result / worst_result : 精算行のみ
+-- ゲスト（fake_ で始まるID）はルームごとにIDが変わるため表示名で名寄せする。
+-- ============================================
+
+
+-- ============================================
+-- インデックス
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_room_settlements_player_results
+  ON public.room_settlements USING GIN (player_results);
+
+
+-- ============================================
+-- RPC 関数（1個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_get_player_stats: プレイヤー別の通算成績（合計の降順）
+--   p_from / p_to    : 精算日時の範囲（p_from 以上 p_to 未満、NULL なら無制限）
+--   p_layout_mode    : テンプレートのレイアウト（'mahjong' / 'list'、NULL なら全て）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_get_player_stats(
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_layout_mode TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_players JSONB;
+BEGIN
+  IF v_uid IS NULL THEN
+    RETURN jsonb_build_object('error', 'ユーザーが認証されていません');
+  END IF;
+
+  IF p_layout_mode IS NOT NULL AND p_layout_mode NOT IN ('mahjong', 'list') THEN
+    RETURN jsonb_build_object('error', '無効なレイアウトです');
+  END IF;
+
+  WITH my_rooms AS (
+    SELECT r.id
+    FROM public.rooms r
+    WHERE (p_layout_mode IS NULL
+           OR COALESCE(r.template->>'layoutMode', 'list') = p_layout_mode)
+      AND (r.host_user_id = v_uid
+           OR EXISTS (
+             SELECT 1 FROM public.room_settlements s
+             WHERE s.room_id = r.id AND s.player_results ? v_uid::text
+           ))
+  ),
+  results AS (
+    SELECT
+      CASE WHEN e.key LIKE 'fake\_%' THEN 'guest:' || (e.value->>'displayName')
+           ELSE e.key END AS player_key,
+      e.key LIKE 'fake\_%' AS is_guest,
+      e.value->>'displayName' AS display_name,
+      s.type,
+      s.created_at,
+      (e.value->>'rank')::int AS rank,
+      (e.value->>'result')::numeric AS result
+    FROM public.room_settlements s
+    JOIN my_rooms m ON m.id = s.room_id
+    CROSS JOIN LATERAL jsonb_each(s.player_results) AS e
+    WHERE (p_from IS NULL OR s.created_at >= p_from)
+      AND (p_to IS NULL OR s.created_at < p_to)
+  ),
+  rank_counts AS (
+    SELECT player_key, jsonb_object_agg(rank::text, cnt) AS counts
+    FROM (
+      SELECT player_key, rank, COUNT(*) AS cnt
+      FROM results
+      WHERE type = 'settlement'
+      GROUP BY player_key, rank
+    ) c
+    GROUP BY player_key
+  ),
+  players AS (
+    SELECT
+      r.player_key,
+      bool_and(r.is_guest) AS is_guest,
+      (array_agg(r.display_name ORDER BY r.created_at DESC))[1] AS display_name,
+      COUNT(*) FILTER (WHERE r.type = 'settlement') AS games,
+      COALESCE(SUM(r.result), 0) AS total_result,
+      AVG(r.rank) FILTER (WHERE r.type = 'settlement') AS average_rank,
+      MAX(r.result) FILTER (WHERE r.type = 'settlement') AS best_result,
+      MIN(r.result) FILTER (WHERE r.type = 'settlement') AS worst_result
+    FROM results r
+    GROUP BY r.player_key
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'player_key', p.player_key,
+    'is_guest', p.is_guest,
+    'is_me', p.player_key = v_uid::text,
+    'display_name', p.display_name,
+    'games', p.games,
+    'total_result', p.total_result,
+    'average_rank', round(p.average_rank, 2),
+    'rank_counts', COALESCE(rc.counts, '{}'::jsonb),
+    'best_result', p.best_result,
+    'worst_result', p.worst_result
+  ) ORDER BY p.total_result DESC, p.average_rank ASC NULLS LAST), '[]'::jsonb)
+  INTO v_players
+  FROM players p
+  LEFT JOIN rank_counts rc ON rc.player_key = p.player_key;
+
+  RETURN jsonb_build_object('success', true, 'players', v_players);
+END;
+$$;
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_get_player_stats(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO authenticated;
@@ -0,0 +1,400 @@
+-- ============================================
+-- グループ（定期開催のリーグ）
+-- 毎週同じメンバーで遊ぶ場合でもルームは毎回独立していたため、
+-- 通算成績の単位となる groups を追加する。
+--   groups        : グループ本体（参加コード・既定テンプレート）
+--   group_members : メンバー
+--   rooms.group_id: ルームが属するグループ（任意）
+-- 書き込みはすべて SECURITY DEFINER の RPC 経由で行う（015 と同じ方針）。
+-- ============================================
+
+
+-- --------------------------------------------
+-- 1. groups テーブル
+-- --------------------------------------------
+CREATE TABLE IF NOT EXISTS public.groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  group_code TEXT NOT NULL UNIQUE,
+  owner_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  default_template JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view groups"
+  ON public.groups FOR SELECT USING (true);
+
+COMMENT ON TABLE public.groups IS 'ルームをまとめるグループ（リーグ）';
+COMMENT ON COLUMN public.groups.group_code IS 'メンバー参加用のコード（6文字）';
+COMMENT ON COLUMN public.groups.default_template IS 'グループでルームを作成するときの既定テンプレート';
+
+
+-- --------------------------------------------
+-- 2. group_members テーブル
+-- --------------------------------------------
+CREATE TABLE IF NOT EXISTS public.group_members (
+  group_id UUID NOT NULL REFERENCES public.groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  joined_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (group_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_members_user_id
+  ON public.group_members(user_id);
+
+ALTER TABLE public.group_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view group members"
+  ON public.group_members FOR SELECT USING (true);
+
+COMMENT ON TABLE public.group_members IS 'グループのメンバー';
+
+
+-- --------------------------------------------
+-- 3. rooms.group_id
+-- --------------------------------------------
+ALTER TABLE public.rooms
+  ADD COLUMN IF NOT EXISTS group_id UUID REFERENCES public.groups(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rooms_group_id ON public.rooms(group_id);
+
+COMMENT ON COLUMN public.rooms.group_id IS 'ルームが属するグループ（任意）';
+
+
+-- ============================================
+-- ヘルパー関数
+-- ============================================
+
+-- _is_group_member: 呼び出しユーザーがグループのメンバーか
+CREATE OR REPLACE FUNCTION public._is_group_member(p_group_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.group_members
+    WHERE group_id = p_group_id AND user_id = auth.uid()
+  );
+$$;
+
+-- _aggregate_player_stats: 指定ルームの精算行をプレイヤー別に集計（019 から切り出し）
+CREATE OR REPLACE FUNCTION public._aggregate_player_stats(
+  p_room_ids UUID[],
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS JSONB
+LANGUAGE sql STABLE
+AS $$
+  WITH results AS (
+    SELECT
+      CASE WHEN e.key LIKE 'fake\_%' THEN 'guest:' || (e.value->>'displayName')
+           ELSE e.key END AS player_key,
+      e.key LIKE 'fake\_%' AS is_guest,
+      e.value->>'displayName' AS display_name,
+      s.type,
+      s.created_at,
+      (e.value->>'rank')::int AS rank,
+      (e.value->>'result')::numeric AS result
+    FROM public.room_settlements s
+    CROSS JOIN LATERAL jsonb_each(s.player_results) AS e
+    WHERE s.room_id = ANY(p_room_ids)
+      AND (p_from IS NULL OR s.created_at >= p_from)
+      AND (p_to IS NULL OR s.created_at < p_to)
+  ),
+  rank_counts AS (
+    SELECT player_key, jsonb_object_agg(rank::text, cnt) AS counts
+    FROM (
+      SELECT player_key, rank, COUNT(*) AS cnt
+      FROM results
+      WHERE type = 'settlement'
+      GROUP BY player_key, rank
+    ) c
+    GROUP BY player_key
+  ),
+  players AS (
+    SELECT
+      r.player_key,
+      bool_and(r.is_guest) AS is_guest,
+      (array_agg(r.display_name ORDER BY r.created_at DESC))[1] AS display_name,
+      COUNT(*) FILTER (WHERE r.type = 'settlement') AS games,
+      COALESCE(SUM(r.result), 0) AS total_result,
+      AVG(r.rank) FILTER (WHERE r.type = 'settlement') AS average_rank,
+      MAX(r.result) FILTER (WHERE r.type = 'settlement') AS best_result,
+      MIN(r.result) FILTER (WHERE r.type = 'settlement') AS worst_result
+    FROM results r
+    GROUP BY r.player_key
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'player_key', p.player_key,
+    'is_guest', p.is_guest,
+    'is_me', p.player_key = auth.uid()::text,
+    'display_name', p.display_name,
+    'games', p.games,
+    'total_result', p.total_result,
+    'average_rank', round(p.average_rank, 2),
+    'rank_counts', COALESCE(rc.counts, '{}'::jsonb),
+    'best_result', p.best_result,
+    'worst_result', p.worst_result
+  ) ORDER BY p.total_result DESC, p.average_rank ASC NULLS LAST), '[]'::jsonb)
+  FROM players p
+  LEFT JOIN rank_counts rc ON rc.player_key = p.player_key;
+$$;
+
+
+-- ============================================
+-- rooms の INSERT ポリシー: グループはメンバーのみ指定可能
+-- ============================================
+DROP POLICY IF EXISTS "Authenticated users can create rooms" ON public.rooms;
+
+CREATE POLICY "Authenticated users can create rooms"
+  ON public.rooms
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = host_user_id
+    AND (group_id IS NULL OR public._is_group_member(group_id))
+  );
+
+
+-- ============================================
+-- RPC 関数（6個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_create_group: グループ作成（作成者はオーナー兼メンバー）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_create_group(
+  p_name TEXT,
+  p_default_template JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_name TEXT := btrim(COALESCE(p_name, ''));
+  v_code TEXT;
+  v_group public.groups%ROWTYPE;
+  v_chars TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  v_attempt INTEGER := 0;
+BEGIN
+  IF v_uid IS NULL THEN
+    RETURN jsonb_build_object('error', 'ユーザーが認証されていません');
+  END IF;
+
+  IF v_name = '' OR char_length(v_name) > 30 THEN
+    RETURN jsonb_build_object('error', 'グループ名は1〜30文字で入力してください');
+  END IF;
+
+  IF p_default_template IS NOT NULL AND jsonb_typeof(p_default_template) != 'object' THEN
+    RETURN jsonb_build_object('error', 'テンプレートの形式が不正です');
+  END IF;
+
+  -- 参加コードを生成（重複時は再生成、最大10回）
+  LOOP
+    v_attempt := v_attempt + 1;
+    SELECT string_agg(substr(v_chars, (floor(random() * length(v_chars)) + 1)::int, 1), '')
+      INTO v_code
+      FROM generate_series(1, 6);
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.groups WHERE group_code = v_code);
+    IF v_attempt >= 10 THEN
+      RETURN jsonb_build_object('error', 'グループコードの生成に失敗しました');
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.groups (name, group_code, owner_user_id, default_template)
+  VALUES (v_name, v_code, v_uid, p_default_template)
+  RETURNING * INTO v_group;
+
+  INSERT INTO public.group_members (group_id, user_id)
+  VALUES (v_group.id, v_uid);
+
+  RETURN jsonb_build_object('success', true, 'group', to_jsonb(v_group));
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_join_group: 参加コードでグループに参加（参加済みなら何もしない）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_join_group(
+  p_group_code TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_group public.groups%ROWTYPE;
+BEGIN
+  IF v_uid IS NULL THEN
+    RETURN jsonb_build_object('error', 'ユーザーが認証されていません');
+  END IF;
+
+  SELECT * INTO v_group
+  FROM public.groups WHERE group_code = upper(btrim(p_group_code));
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'グループが見つかりません');
+  END IF;
+
+  INSERT INTO public.group_members (group_id, user_id)
+  VALUES (v_group.id, v_uid)
+  ON CONFLICT (group_id, user_id) DO NOTHING;
+
+  RETURN jsonb_build_object('success', true, 'group', to_jsonb(v_group));
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_leave_group: グループから退出（オーナーは退出不可）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_leave_group(
+  p_group_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_group public.groups%ROWTYPE;
+BEGIN
+  SELECT * INTO v_group FROM public.groups WHERE id = p_group_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'グループが見つかりません');
+  END IF;
+
+  IF v_group.owner_user_id = auth.uid() THEN
+    RETURN jsonb_build_object('error', 'オーナーはグループから退出できません');
+  END IF;
+
+  DELETE FROM public.group_members
+  WHERE group_id = p_group_id AND user_id = auth.uid();
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_set_group_default_template: 既定テンプレートの設定（オーナー専用、NULL で解除）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_set_group_default_template(
+  p_group_id UUID,
+  p_template JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_group public.groups%ROWTYPE;
+BEGIN
+  SELECT * INTO v_group FROM public.groups WHERE id = p_group_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'グループが見つかりません');
+  END IF;
+
+  IF v_group.owner_user_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('error', 'オーナーのみが既定テンプレートを変更できます');
+  END IF;
+
+  IF p_template IS NOT NULL AND jsonb_typeof(p_template) != 'object' THEN
+    RETURN jsonb_build_object('error', 'テンプレートの形式が不正です');
+  END IF;
+
+  UPDATE public.groups SET default_template = p_template WHERE id = p_group_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_get_group_leaderboard: グループ内ルームの通算成績（メンバー専用）
+--   p_from / p_to : シーズン（精算日時の範囲、NULL なら無制限）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_get_group_leaderboard(
+  p_group_id UUID,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room_ids UUID[];
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.groups WHERE id = p_group_id) THEN
+    RETURN jsonb_build_object('error', 'グループが見つかりません');
+  END IF;
+
+  IF NOT public._is_group_member(p_group_id) THEN
+    RETURN jsonb_build_object('error', 'グループのメンバーのみが閲覧できます');
+  END IF;
+
+  SELECT COALESCE(array_agg(id), '{}') INTO v_room_ids
+  FROM public.rooms WHERE group_id = p_group_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'players', public._aggregate_player_stats(v_room_ids, p_from, p_to)
+  );
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_get_player_stats: 019 の集計を _aggregate_player_stats に置き換え
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_get_player_stats(
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_layout_mode TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_room_ids UUID[];
+BEGIN
+  IF v_uid IS NULL THEN
+    RETURN jsonb_build_object('error', 'ユーザーが認証されていません');
+  END IF;
+
+  IF p_layout_mode IS NOT NULL AND p_layout_mode NOT IN ('mahjong', 'list') THEN
+    RETURN jsonb_build_object('error', '無効なレイアウトです');
+  END IF;
+
+  SELECT COALESCE(array_agg(r.id), '{}') INTO v_room_ids
+  FROM public.rooms r
+  WHERE (p_layout_mode IS NULL
+         OR COALESCE(r.template->>'layoutMode', 'list') = p_layout_mode)
+    AND (r.host_user_id = v_uid
+         OR EXISTS (
+           SELECT 1 FROM public.room_settlements s
+           WHERE s.room_id = r.id AND s.player_results ? v_uid::text
+         ));
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'players', public._aggregate_player_stats(v_room_ids, p_from, p_to)
+  );
+END;
+$$;
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_create_group(TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_join_group(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_leave_group(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_set_group_default_template(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_get_group_leaderboard(UUID, TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_get_player_stats(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO authenticated;
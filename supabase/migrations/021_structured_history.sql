@@ -0,0 +1,1203 @@
+-- ============================================
+-- 履歴の構造化
+-- room_history は plpgsql で組み立てた日本語の message しか持たず、
+-- 誰が・どの種類の操作で・いくら動かしたかを検索できなかった。
+-- 履歴を書き込むすべての RPC で、以下のカラムも記録する。
+--   event_type : 操作の種類（transfer / force_edit / reset / rollback /
+--                settlement / adjustment / join_seat / leave_seat /
+--                force_leave_seat / join_fake_seat / reseat_fake_player /
+--                remove_fake_player / import）
+--   actor_id   : 操作したユーザー（auth.uid()、service_role 実行時は NULL）
+--   from_id    : 移動元（プレイヤーID または __pot__）
+--   to_id      : 移動先。座席操作・強制編集では対象プレイヤー
+--   transfers  : 移動した量 [{variable, amount}, ...]
+--   payload    : 表示名など操作ごとの付加情報
+-- message は __recent_log__ と既存クライアントのため引き続き保存する。
+-- 既存の行は event_type が NULL のまま（表示時は message を使う）。
+-- ============================================
+
+
+-- --------------------------------------------
+-- 1. room_history に構造化カラムを追加
+-- --------------------------------------------
+ALTER TABLE public.room_history
+  ADD COLUMN IF NOT EXISTS event_type TEXT,
+  ADD COLUMN IF NOT EXISTS actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS from_id TEXT,
+  ADD COLUMN IF NOT EXISTS to_id TEXT,
+  ADD COLUMN IF NOT EXISTS transfers JSONB,
+  ADD COLUMN IF NOT EXISTS payload JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_room_history_room_id_event_type
+  ON public.room_history(room_id, event_type);
+
+COMMENT ON COLUMN public.room_history.event_type IS '操作の種類（NULL は 021 以前の行）';
+COMMENT ON COLUMN public.room_history.actor_id IS '操作したユーザー';
+COMMENT ON COLUMN public.room_history.from_id IS '移動元（プレイヤーID / __pot__）';
+COMMENT ON COLUMN public.room_history.to_id IS '移動先・操作対象（プレイヤーID / __pot__）';
+COMMENT ON COLUMN public.room_history.transfers IS '移動した量 [{variable, amount}, ...]';
+COMMENT ON COLUMN public.room_history.payload IS '操作ごとの付加情報（表示名・精算結果など）';
+
+
+-- ============================================
+-- ヘルパー関数（内部用）
+-- ============================================
+
+-- _insert_history: 構造化イベント付きで room_history に1行追加
+--   actor_id は呼び出し元の auth.uid() を記録する
+CREATE OR REPLACE FUNCTION public._insert_history(
+  p_room_id UUID,
+  p_message TEXT,
+  p_snapshot JSONB,
+  p_event_type TEXT,
+  p_from_id TEXT DEFAULT NULL,
+  p_to_id TEXT DEFAULT NULL,
+  p_transfers JSONB DEFAULT NULL,
+  p_payload JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO public.room_history (
+    room_id, message, snapshot, event_type, actor_id, from_id, to_id, transfers, payload
+  )
+  VALUES (
+    p_room_id, p_message, p_snapshot, p_event_type, auth.uid(),
+    p_from_id, p_to_id, p_transfers, p_payload
+  );
+END;
+$$;
+
+
+-- ============================================
+-- RPC 関数の再定義（13個）
+-- 履歴の INSERT を _insert_history に置き換える以外は最新の定義と同じ
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_transfer_score: スコア移動（Pot対応、残高チェック）
+--   Pot → プレイヤー : retrieve_pot
+--   それ以外         : transfer_score
+--   プレイヤー権限では自分（または Pot）からの移動のみ許可
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_transfer_score(
+  p_room_id UUID,
+  p_from_id TEXT,
+  p_to_id TEXT,
+  p_transfers JSONB,   -- [{variable, amount}, ...]
+  p_from_name TEXT DEFAULT NULL,
+  p_to_name TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_template JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_transfer JSONB;
+  v_var TEXT;
+  v_amount NUMERIC;
+  v_from_val NUMERIC;
+  v_to_val NUMERIC;
+  v_display_from TEXT;
+  v_display_to TEXT;
+  v_details TEXT := '';
+  v_label TEXT;
+  v_msg TEXT;
+  v_transfers JSONB := '[]'::jsonb;
+BEGIN
+  -- 1. 行ロック取得
+  SELECT * INTO v_room
+  FROM public.rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 2. 権限チェック
+  IF p_from_id = '__pot__' THEN
+    IF NOT public._has_permission(v_room, 'retrieve_pot') THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+  ELSE
+    IF NOT public._has_permission(v_room, 'transfer_score') THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+    -- プレイヤー権限では他人のスコアを動かせない
+    IF NOT public._is_room_host(v_room) AND p_from_id IS DISTINCT FROM auth.uid()::text THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+  END IF;
+
+  v_state := v_room.current_state;
+  v_template := v_room.template;
+  v_tpl_vars := COALESCE(v_template->'variables', '[]'::jsonb);
+
+  -- 3. 操作前スナップショット
+  v_before := public._build_snapshot(v_state);
+
+  -- 4. transfers を順に処理
+  FOR v_transfer IN SELECT * FROM jsonb_array_elements(p_transfers)
+  LOOP
+    v_var := v_transfer->>'variable';
+    v_amount := (v_transfer->>'amount')::numeric;
+
+    IF p_from_id = '__pot__' THEN
+      -- Pot → プレイヤー
+      IF COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) < v_amount THEN
+        RETURN jsonb_build_object('error', '供託金が不足しています');
+      END IF;
+      v_state := jsonb_set(v_state, ARRAY['__pot__', v_var],
+        to_jsonb(COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) - v_amount));
+      IF NOT v_state ? p_to_id THEN
+        RETURN jsonb_build_object('error', '送信先プレイヤーが見つかりません');
+      END IF;
+      v_state := jsonb_set(v_state, ARRAY[p_to_id, v_var],
+        to_jsonb(COALESCE((v_state->p_to_id->>v_var)::numeric, 0) + v_amount));
+
+    ELSIF p_to_id = '__pot__' THEN
+      -- プレイヤー → Pot
+      IF NOT v_state ? p_from_id THEN
+        RETURN jsonb_build_object('error', '送信元プレイヤーが見つかりません');
+      END IF;
+      v_from_val := COALESCE((v_state->p_from_id->>v_var)::numeric, 0);
+      v_state := jsonb_set(v_state, ARRAY[p_from_id, v_var], to_jsonb(v_from_val - v_amount));
+      -- __pot__ が存在しなければ初期化
+      IF NOT v_state ? '__pot__' THEN
+        v_state := jsonb_set(v_state, '{__pot__}', '{}'::jsonb);
+      END IF;
+      v_state := jsonb_set(v_state, ARRAY['__pot__', v_var],
+        to_jsonb(COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) + v_amount));
+
+    ELSE
+      -- プレイヤー間
+      IF NOT v_state ? p_from_id OR NOT v_state ? p_to_id THEN
+        RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+      END IF;
+      v_from_val := COALESCE((v_state->p_from_id->>v_var)::numeric, 0);
+      v_state := jsonb_set(v_state, ARRAY[p_from_id, v_var], to_jsonb(v_from_val - v_amount));
+      v_state := jsonb_set(v_state, ARRAY[p_to_id, v_var],
+        to_jsonb(COALESCE((v_state->p_to_id->>v_var)::numeric, 0) + v_amount));
+    END IF;
+
+    -- ラベル取得
+    v_label := public._get_variable_label(v_tpl_vars, v_var);
+    IF v_details != '' THEN v_details := v_details || ', '; END IF;
+    v_details := v_details || v_label || ' ' || v_amount::text;
+    v_transfers := v_transfers || jsonb_build_array(
+      jsonb_build_object('variable', v_var, 'amount', v_amount));
+  END LOOP;
+
+  -- 5. 履歴メッセージ
+  v_display_from := COALESCE(p_from_name,
+    CASE WHEN p_from_id = '__pot__' THEN '供託回収' ELSE left(p_from_id, 8) END);
+  v_display_to := COALESCE(p_to_name,
+    CASE WHEN p_to_id = '__pot__' THEN '供託' ELSE left(p_to_id, 8) END);
+  v_msg := v_display_from || ' → ' || v_display_to || ': ' || v_details;
+
+  -- 6. __recent_log__ 更新
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  -- 7. UPDATE rooms
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  -- 8. INSERT room_history（構造化イベント付き）
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'transfer', p_from_id, p_to_id, v_transfers,
+    jsonb_strip_nulls(jsonb_build_object('fromName', p_from_name, 'toName', p_to_name)));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_force_edit_score: 指定変数の上書き（force_edit）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_force_edit_score(
+  p_room_id UUID,
+  p_player_id TEXT,
+  p_updates JSONB,      -- {"score": 30000, ...}
+  p_display_name TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_key TEXT;
+  v_val NUMERIC;
+  v_label TEXT;
+  v_details TEXT := '';
+  v_msg TEXT;
+  v_name TEXT;
+  v_values JSONB := '{}'::jsonb;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'force_edit') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+
+  IF NOT v_state ? p_player_id THEN
+    RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+  END IF;
+
+  v_tpl_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+  v_before := public._build_snapshot(v_state);
+
+  -- 値を上書き
+  FOR v_key, v_val IN SELECT * FROM jsonb_each_text(p_updates)
+  LOOP
+    v_state := jsonb_set(v_state, ARRAY[p_player_id, v_key], to_jsonb(v_val::numeric));
+    v_label := public._get_variable_label(v_tpl_vars, v_key);
+    IF v_details != '' THEN v_details := v_details || ', '; END IF;
+    v_details := v_details || v_label || ': ' || v_val;
+    v_values := v_values || jsonb_build_object(v_key, v_val);
+  END LOOP;
+
+  v_name := COALESCE(p_display_name, left(p_player_id, 8));
+  v_msg := '強制編集: ' || v_name || ' - ' || v_details;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'force_edit', NULL, p_player_id, NULL,
+    jsonb_build_object('name', v_name, 'values', v_values));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_reset_scores: 全プレイヤーの変数を初期値にリセット（reset_scores）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_reset_scores(
+  p_room_id UUID,
+  p_variable_keys JSONB   -- ["score", "riichi"]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_var_key TEXT;
+  v_initial NUMERIC;
+  v_player_id TEXT;
+  v_labels TEXT := '';
+  v_label TEXT;
+  v_msg TEXT;
+  v_var JSONB;
+  v_reset_keys JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'reset_scores') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_tpl_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+  v_before := public._build_snapshot(v_state);
+
+  -- 各変数キーについて処理
+  FOR v_var_key IN SELECT * FROM jsonb_array_elements_text(p_variable_keys)
+  LOOP
+    -- テンプレートから初期値を取得
+    v_initial := NULL;
+    FOR v_var IN SELECT * FROM jsonb_array_elements(v_tpl_vars)
+    LOOP
+      IF v_var->>'key' = v_var_key THEN
+        v_initial := (v_var->>'initial')::numeric;
+        EXIT;
+      END IF;
+    END LOOP;
+
+    IF v_initial IS NULL THEN CONTINUE; END IF;
+
+    -- 全プレイヤーをリセット
+    FOR v_player_id IN SELECT jsonb_object_keys(v_state)
+    LOOP
+      IF LEFT(v_player_id, 2) != '__' THEN
+        IF v_state->v_player_id ? v_var_key THEN
+          v_state := jsonb_set(v_state, ARRAY[v_player_id, v_var_key], to_jsonb(v_initial));
+        END IF;
+      END IF;
+    END LOOP;
+
+    -- Pot リセット
+    IF v_state ? '__pot__' AND v_state->'__pot__' ? v_var_key THEN
+      v_state := jsonb_set(v_state, ARRAY['__pot__', v_var_key], to_jsonb(0));
+    END IF;
+
+    -- ラベル収集
+    v_label := public._get_variable_label(v_tpl_vars, v_var_key);
+    IF v_labels != '' THEN v_labels := v_labels || ', '; END IF;
+    v_labels := v_labels || v_label;
+    v_reset_keys := v_reset_keys || to_jsonb(v_var_key);
+  END LOOP;
+
+  v_msg := 'リセット: ' || v_labels;
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'reset', NULL, NULL, NULL,
+    jsonb_build_object('variables', v_reset_keys));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_rollback_to: 指定エントリ以降を全削除、snapshotを復元
+--   rpc_undo_last と同じくホスト・コホストのみ許可
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_rollback_to(
+  p_room_id UUID,
+  p_history_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_entry RECORD;
+  v_restored JSONB;
+  v_before JSONB;
+  v_msg TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+
+  -- 対象エントリ取得
+  SELECT * INTO v_entry
+  FROM public.room_history
+  WHERE id = p_history_id AND room_id = p_room_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', '指定された履歴が見つかりません');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+
+  -- snapshot を復元
+  v_restored := public._ensure_seated_players(
+    v_entry.snapshot,
+    COALESCE(v_room.seats, '[]'::jsonb),
+    COALESCE(v_room.template->'variables', '[]'::jsonb),
+    v_state
+  );
+
+  v_msg := 'ロールバック (' || to_char(v_entry.created_at AT TIME ZONE 'Asia/Tokyo', 'HH24:MI:SS') || ')';
+
+  -- 対象エントリ以降の履歴を削除
+  DELETE FROM public.room_history
+  WHERE room_id = p_room_id AND created_at >= v_entry.created_at;
+
+  -- 対象エントリ以降の精算レコードも削除
+  DELETE FROM public.room_settlements
+  WHERE room_id = p_room_id AND created_at >= v_entry.created_at;
+
+  -- ロールバック操作自体を履歴に追加
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'rollback', NULL, NULL, NULL,
+    jsonb_build_object('targetCreatedAt', v_entry.created_at));
+
+  -- __recent_log__ 更新
+  v_restored := public._push_recent_log(v_restored, v_msg);
+
+  UPDATE public.rooms SET current_state = v_restored WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_save_settlement: 精算保存 + 対象変数リセット（finalize_game）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_save_settlement(
+  p_room_id UUID,
+  p_settlement_id UUID,
+  p_player_results JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_var_key TEXT;
+  v_initial NUMERIC;
+  v_player_id TEXT;
+  v_var JSONB;
+  v_msg TEXT;
+  v_summary TEXT := '';
+  v_pr JSONB;
+  v_uid TEXT;
+  v_results JSONB := '{}'::jsonb;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'finalize_game') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_tpl_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+  v_before := public._build_snapshot(v_state);
+
+  -- 精算対象変数とその初期値を取得
+  v_var_key := COALESCE(v_room.template->'settlementConfig'->>'variable', 'score');
+  v_initial := NULL;
+  FOR v_var IN SELECT * FROM jsonb_array_elements(v_tpl_vars)
+  LOOP
+    IF v_var->>'key' = v_var_key THEN
+      v_initial := (v_var->>'initial')::numeric;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  -- 対象変数をリセット
+  IF v_initial IS NOT NULL THEN
+    FOR v_player_id IN SELECT jsonb_object_keys(v_state)
+    LOOP
+      IF LEFT(v_player_id, 2) != '__' THEN
+        IF v_state->v_player_id ? v_var_key THEN
+          v_state := jsonb_set(v_state, ARRAY[v_player_id, v_var_key], to_jsonb(v_initial));
+        END IF;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Pot の対象変数もリセット
+  IF v_state ? '__pot__' AND v_state->'__pot__' ? v_var_key THEN
+    v_state := jsonb_set(v_state, ARRAY['__pot__', v_var_key], to_jsonb(0));
+  END IF;
+
+  -- 精算サマリメッセージ作成（rankでソート）
+  FOR v_uid, v_pr IN SELECT * FROM jsonb_each(p_player_results) ORDER BY (value->>'rank')::int ASC
+  LOOP
+    IF v_summary != '' THEN v_summary := v_summary || ', '; END IF;
+    v_summary := v_summary || (v_pr->>'displayName') || ': ';
+    IF (v_pr->>'result')::numeric >= 0 THEN
+      v_summary := v_summary || '+';
+    END IF;
+    v_summary := v_summary || (v_pr->>'result')::text;
+    v_results := v_results || jsonb_build_object(v_uid, jsonb_build_object(
+      'displayName', v_pr->'displayName', 'rank', v_pr->'rank', 'result', v_pr->'result'));
+  END LOOP;
+  v_msg := '精算: ' || v_summary;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  -- settlement レコード
+  INSERT INTO public.room_settlements (id, room_id, type, player_results)
+  VALUES (p_settlement_id, p_room_id, 'settlement', p_player_results);
+
+  -- 履歴レコード
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'settlement', NULL, NULL, NULL,
+    jsonb_build_object('settlementId', p_settlement_id, 'results', v_results));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_save_adjustment: 調整行保存（スコア変更なし、finalize_game）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_save_adjustment(
+  p_room_id UUID,
+  p_settlement_id UUID,
+  p_player_results JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_msg TEXT;
+  v_summary TEXT := '';
+  v_pr JSONB;
+  v_uid TEXT;
+  v_results JSONB := '{}'::jsonb;
+  v_result NUMERIC;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'finalize_game') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_before := public._build_snapshot(v_state);
+
+  -- 調整サマリメッセージ（result != 0 のみ）
+  FOR v_uid, v_pr IN SELECT * FROM jsonb_each(p_player_results)
+  LOOP
+    v_result := (v_pr->>'result')::numeric;
+    IF v_result != 0 THEN
+      IF v_summary != '' THEN v_summary := v_summary || ', '; END IF;
+      v_summary := v_summary || (v_pr->>'displayName') || ': ';
+      IF v_result >= 0 THEN
+        v_summary := v_summary || '+';
+      END IF;
+      v_summary := v_summary || round(v_result, 1)::text;
+      v_results := v_results || jsonb_build_object(v_uid, jsonb_build_object(
+        'displayName', v_pr->'displayName', 'result', v_result));
+    END IF;
+  END LOOP;
+  v_msg := '調整: ' || v_summary;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  INSERT INTO public.room_settlements (id, room_id, type, player_results)
+  VALUES (p_settlement_id, p_room_id, 'adjustment', p_player_results);
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'adjustment', NULL, NULL, NULL,
+    jsonb_build_object('settlementId', p_settlement_id, 'results', v_results));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_join_seat: 呼び出しユーザーを指定座席に着席させる
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_join_seat(
+  p_room_id UUID,
+  p_seat_index INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_uid TEXT;
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_display_name TEXT;
+  v_msg TEXT;
+BEGIN
+  v_uid := auth.uid()::text;
+  IF v_uid IS NULL THEN
+    RETURN public._seat_error('unauthenticated', 'ユーザーが認証されていません');
+  END IF;
+
+  -- 1. 行ロック取得
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  -- 2. 座席の検証
+  IF p_seat_index < 0 OR p_seat_index >= jsonb_array_length(v_seats) THEN
+    RETURN public._seat_error('invalid_seat', '無効な座席インデックスです');
+  END IF;
+
+  IF public._find_seat_index(v_seats, v_uid) >= 0 THEN
+    RETURN public._seat_error('already_seated', '既に座席に着席しています');
+  END IF;
+
+  IF v_seats->p_seat_index != 'null'::jsonb THEN
+    RETURN public._seat_error('seat_taken', 'この座席は既に使用されています');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+
+  -- 3. 表示名（profiles）を取得して着席
+  SELECT display_name INTO v_display_name
+  FROM public.profiles WHERE id = auth.uid();
+
+  v_seats := jsonb_set(v_seats, ARRAY[p_seat_index::text], jsonb_strip_nulls(
+    jsonb_build_object('userId', v_uid, 'status', 'active', 'displayName', v_display_name)
+  ));
+
+  -- 4. 初回着席ならテンプレート初期値を設定
+  IF NOT v_state ? v_uid THEN
+    v_state := jsonb_set(v_state, ARRAY[v_uid],
+      public._initial_player_state(v_room.template->'variables'));
+  END IF;
+  -- displayName を保存（離席後も名前を表示するため）
+  IF v_display_name IS NOT NULL THEN
+    v_state := jsonb_set(v_state, ARRAY[v_uid, '__displayName__'], to_jsonb(v_display_name));
+  END IF;
+
+  v_msg := '着席: ' || COALESCE(v_display_name, left(v_uid, 8));
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'join_seat', NULL, v_uid, NULL,
+    jsonb_build_object('name', COALESCE(v_display_name, left(v_uid, 8))));
+
+  -- 5. プロファイルの current_room_id を更新
+  UPDATE public.profiles SET current_room_id = p_room_id WHERE id = auth.uid();
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_leave_seat: 呼び出しユーザーを座席から離席させる
+--   current_state のスコアは保持する
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_leave_seat(p_room_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_uid TEXT;
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_index INTEGER;
+  v_display_name TEXT;
+  v_msg TEXT;
+BEGIN
+  v_uid := auth.uid()::text;
+  IF v_uid IS NULL THEN
+    RETURN public._seat_error('unauthenticated', 'ユーザーが認証されていません');
+  END IF;
+
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  v_index := public._find_seat_index(v_seats, v_uid);
+  IF v_index < 0 THEN
+    RETURN public._seat_error('not_seated', '座席に着席していません');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+  v_display_name := public._seat_display_name(v_seats, v_state, v_uid);
+  v_msg := '離席: ' || v_display_name;
+
+  v_seats := jsonb_set(v_seats, ARRAY[v_index::text], 'null'::jsonb);
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'leave_seat', NULL, v_uid, NULL,
+    jsonb_build_object('name', v_display_name));
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_force_leave_seat: 指定ユーザーを座席から強制離席（タイムアウト・ホスト操作用）
+--   切断検知は全クライアントで動くため、認証済みユーザーなら誰でも呼び出せる
+--   冪等: 既に離席済みなら履歴を残さず成功を返す
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_force_leave_seat(
+  p_room_id UUID,
+  p_target_user_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_index INTEGER;
+  v_display_name TEXT;
+  v_msg TEXT;
+BEGIN
+  IF auth.uid() IS NULL AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RETURN public._seat_error('unauthenticated', 'ユーザーが認証されていません');
+  END IF;
+
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  v_index := public._find_seat_index(v_seats, p_target_user_id);
+  IF v_index < 0 THEN
+    RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+  v_display_name := public._seat_display_name(v_seats, v_state, p_target_user_id);
+  v_msg := '強制離席: ' || v_display_name;
+
+  v_seats := jsonb_set(v_seats, ARRAY[v_index::text], 'null'::jsonb);
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'force_leave_seat', NULL, p_target_user_id, NULL,
+    jsonb_build_object('name', v_display_name));
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_join_fake_seat: 架空ユーザー（ゲスト）を作成して着席させる（ホスト専用）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_join_fake_seat(
+  p_room_id UUID,
+  p_seat_index INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_fake_id TEXT;
+  v_display_name TEXT;
+  v_candidate TEXT;
+  v_letter TEXT;
+  v_used TEXT[];
+  v_msg TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN public._seat_error('not_host', 'ホストのみが架空ユーザーを作成できます');
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  IF p_seat_index < 0 OR p_seat_index >= jsonb_array_length(v_seats) THEN
+    RETURN public._seat_error('invalid_seat', '無効な座席インデックスです');
+  END IF;
+
+  IF v_seats->p_seat_index != 'null'::jsonb THEN
+    RETURN public._seat_error('seat_taken', 'この座席は既に使用されています');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+
+  -- 架空ユーザーIDを生成（一意）
+  v_fake_id := 'fake_' || (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::bigint::text
+    || '_' || substr(md5(random()::text), 1, 4);
+
+  -- 使用中の名前（seats + current_state に残っているゲスト）と衝突しない名前を選ぶ
+  SELECT array_agg(name) INTO v_used
+  FROM (
+    SELECT seat->>'displayName' AS name
+    FROM jsonb_array_elements(v_seats) AS seat
+    WHERE seat != 'null'::jsonb
+    UNION
+    SELECT value->>'__displayName__'
+    FROM jsonb_each(v_state)
+    WHERE key LIKE 'fake\_%'
+  ) names
+  WHERE name IS NOT NULL;
+
+  v_display_name := 'プレイヤーA';
+  FOREACH v_letter IN ARRAY ARRAY['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H',
+                                  'I', 'J', 'K', 'L', 'M', 'N', 'O', 'P']
+  LOOP
+    v_candidate := 'プレイヤー' || v_letter;
+    IF v_used IS NULL OR NOT v_candidate = ANY(v_used) THEN
+      v_display_name := v_candidate;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  v_seats := jsonb_set(v_seats, ARRAY[p_seat_index::text], jsonb_build_object(
+    'userId', v_fake_id,
+    'status', 'active',
+    'displayName', v_display_name,
+    'isFake', true
+  ));
+  v_state := jsonb_set(v_state, ARRAY[v_fake_id],
+    public._initial_player_state(v_room.template->'variables')
+      || jsonb_build_object('__displayName__', v_display_name));
+
+  v_msg := 'ゲスト着席: ' || v_display_name;
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'join_fake_seat', NULL, v_fake_id, NULL,
+    jsonb_build_object('name', v_display_name));
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_reseat_fake_player: 離席済みゲストを指定座席に再着席（ホスト専用）
+--   current_state は変更しない
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_reseat_fake_player(
+  p_room_id UUID,
+  p_fake_user_id TEXT,
+  p_seat_index INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_display_name TEXT;
+  v_msg TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN public._seat_error('not_host', 'ホストのみがゲストを操作できます');
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  IF p_seat_index < 0 OR p_seat_index >= jsonb_array_length(v_seats) THEN
+    RETURN public._seat_error('invalid_seat', '無効な座席インデックスです');
+  END IF;
+
+  IF v_seats->p_seat_index != 'null'::jsonb THEN
+    RETURN public._seat_error('seat_taken', 'この座席は既に使用されています');
+  END IF;
+
+  IF LEFT(p_fake_user_id, 5) != 'fake_' OR NOT v_state ? p_fake_user_id THEN
+    RETURN public._seat_error('guest_not_found', '指定されたゲストが見つかりません');
+  END IF;
+
+  IF public._find_seat_index(v_seats, p_fake_user_id) >= 0 THEN
+    RETURN public._seat_error('already_seated', 'このゲストは既に着席しています');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+  v_display_name := COALESCE(v_state->p_fake_user_id->>'__displayName__', p_fake_user_id);
+
+  v_seats := jsonb_set(v_seats, ARRAY[p_seat_index::text], jsonb_build_object(
+    'userId', p_fake_user_id,
+    'status', 'active',
+    'displayName', v_display_name,
+    'isFake', true
+  ));
+
+  v_msg := 'ゲスト着席: ' || v_display_name;
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'reseat_fake_player', NULL, p_fake_user_id, NULL,
+    jsonb_build_object('name', v_display_name));
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_remove_fake_player: ゲストを座席と current_state から削除（ホスト専用）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_remove_fake_player(
+  p_room_id UUID,
+  p_fake_user_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_index INTEGER;
+  v_display_name TEXT;
+  v_msg TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN public._seat_error('not_host', 'ホストのみがゲストを操作できます');
+  END IF;
+
+  -- 実ユーザーのスコアを消せないよう fake_ プレフィックスのみ許可
+  IF LEFT(p_fake_user_id, 5) != 'fake_' THEN
+    RETURN public._seat_error('guest_not_found', '指定されたゲストが見つかりません');
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  v_index := public._find_seat_index(v_seats, p_fake_user_id);
+  IF v_index < 0 AND NOT v_state ? p_fake_user_id THEN
+    RETURN public._seat_error('guest_not_found', '指定されたゲストが見つかりません');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+  v_display_name := public._seat_display_name(v_seats, v_state, p_fake_user_id);
+  v_msg := 'ゲスト削除: ' || v_display_name;
+
+  IF v_index >= 0 THEN
+    v_seats := jsonb_set(v_seats, ARRAY[v_index::text], 'null'::jsonb);
+  END IF;
+  v_state := v_state - p_fake_user_id;
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'remove_fake_player', NULL, p_fake_user_id, NULL,
+    jsonb_build_object('name', v_display_name));
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_import_game_record: 作成直後のルームにゲーム記録を書き込む（ホスト専用）
+--   元のユーザーIDから架空ユーザーへの付け替えはクライアント側で済ませておく
+--   精算行は新しいIDで作成し、元の日時（timestamp, ms）を引き継ぐ
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_import_game_record(
+  p_room_id UUID,
+  p_seats JSONB,           -- (SeatInfo | null)[]
+  p_current_state JSONB,   -- GameState
+  p_settlements JSONB      -- [{type, timestamp, playerResults}, ...]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_settlement JSONB;
+  v_seat JSONB;
+  v_count INTEGER := 0;
+  v_msg TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'ホストのみがゲーム記録をインポートできます');
+  END IF;
+
+  -- 既存のゲームを上書きしないよう、作成直後のルームに限定
+  IF COALESCE(v_room.current_state, '{}'::jsonb) != '{}'::jsonb
+     OR EXISTS (SELECT 1 FROM public.room_settlements WHERE room_id = p_room_id)
+     OR EXISTS (
+       SELECT 1 FROM jsonb_array_elements(COALESCE(v_room.seats, '[]'::jsonb)) AS seat
+       WHERE seat != 'null'::jsonb
+     ) THEN
+    RETURN jsonb_build_object('error', 'インポートは作成直後のルームにのみ実行できます');
+  END IF;
+
+  IF jsonb_typeof(p_seats) IS DISTINCT FROM 'array'
+     OR jsonb_array_length(p_seats) < 2
+     OR jsonb_array_length(p_seats) > 12 THEN
+    RETURN jsonb_build_object('error', '座席情報が不正です');
+  END IF;
+
+  FOR v_seat IN SELECT * FROM jsonb_array_elements(p_seats)
+  LOOP
+    IF v_seat != 'null'::jsonb
+       AND (jsonb_typeof(v_seat) != 'object'
+            OR jsonb_typeof(v_seat->'userId') IS DISTINCT FROM 'string') THEN
+      RETURN jsonb_build_object('error', '座席情報が不正です');
+    END IF;
+  END LOOP;
+
+  IF jsonb_typeof(p_current_state) IS DISTINCT FROM 'object' THEN
+    RETURN jsonb_build_object('error', 'スコア情報が不正です');
+  END IF;
+
+  IF jsonb_typeof(p_settlements) IS DISTINCT FROM 'array' THEN
+    RETURN jsonb_build_object('error', '精算履歴が不正です');
+  END IF;
+
+  FOR v_settlement IN SELECT * FROM jsonb_array_elements(p_settlements)
+  LOOP
+    IF COALESCE(v_settlement->>'type', '') NOT IN ('settlement', 'adjustment')
+       OR jsonb_typeof(v_settlement->'timestamp') IS DISTINCT FROM 'number'
+       OR jsonb_typeof(v_settlement->'playerResults') IS DISTINCT FROM 'object' THEN
+      RETURN jsonb_build_object('error', '精算履歴が不正です');
+    END IF;
+  END LOOP;
+
+  v_before := public._build_snapshot(COALESCE(v_room.current_state, '{}'::jsonb));
+
+  -- 精算行（元の日時順を維持）
+  FOR v_settlement IN SELECT * FROM jsonb_array_elements(p_settlements)
+  LOOP
+    INSERT INTO public.room_settlements (room_id, type, player_results, created_at)
+    VALUES (
+      p_room_id,
+      v_settlement->>'type',
+      v_settlement->'playerResults',
+      to_timestamp((v_settlement->>'timestamp')::numeric / 1000)
+    );
+    IF v_settlement->>'type' = 'settlement' THEN
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  v_msg := 'ゲーム記録をインポート（精算 ' || v_count || ' 回）';
+  v_state := public._push_recent_log(p_current_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = p_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'import', NULL, NULL, NULL,
+    jsonb_build_object('settlementCount', v_count));
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_transfer_score(UUID, TEXT, TEXT, JSONB, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_force_edit_score(UUID, TEXT, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_reset_scores(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_rollback_to(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_save_settlement(UUID, UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_save_adjustment(UUID, UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_join_seat(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_leave_seat(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_force_leave_seat(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_join_fake_seat(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_reseat_fake_player(UUID, TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_remove_fake_player(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_import_game_record(UUID, JSONB, JSONB, JSONB) TO authenticated;
@@ -0,0 +1,121 @@
+-- ============================================
+-- 操作者の表示名を履歴に記録
+-- 021 で actor_id（auth.uid()）は記録するようになったが、表示名が無いため
+-- FluidArrow のドラッグ等で誰がスコアを動かしたかを画面に出せなかった。
+--   room_history.actor_name : 操作時点の操作者の表示名
+--   __recent_log__ の各エントリ : actorId / actorName を追加
+-- どちらもすべての RPC が経由するヘルパー（_insert_history / _push_recent_log）で
+-- 付与するため、各 RPC の再定義は不要。
+-- ============================================
+
+
+-- --------------------------------------------
+-- 1. room_history に actor_name を追加
+-- --------------------------------------------
+ALTER TABLE public.room_history
+  ADD COLUMN IF NOT EXISTS actor_name TEXT;
+
+-- 「このプレイヤーの操作のみ」の絞り込み用
+CREATE INDEX IF NOT EXISTS idx_room_history_room_id_actor_created
+  ON public.room_history(room_id, actor_id, created_at DESC);
+
+COMMENT ON COLUMN public.room_history.actor_name IS '操作時点の操作者の表示名';
+
+
+-- ============================================
+-- ヘルパー関数（内部用）
+-- ============================================
+
+-- 1. _actor_display_name: 呼び出しユーザーの表示名
+--   ルーム内の表示名（current_state の __displayName__）を優先し、
+--   無ければ profiles の表示名。service_role 実行時は NULL
+CREATE OR REPLACE FUNCTION public._actor_display_name(p_state JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql STABLE
+AS $$
+DECLARE
+  v_uid TEXT;
+  v_name TEXT;
+BEGIN
+  v_uid := auth.uid()::text;
+  IF v_uid IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_name := p_state->v_uid->>'__displayName__';
+  IF v_name IS NULL THEN
+    SELECT display_name INTO v_name
+    FROM public.profiles WHERE id = auth.uid();
+  END IF;
+
+  RETURN v_name;
+END;
+$$;
+
+-- 2. _insert_history: actor_name も記録するよう再定義
+--   表示名は同一トランザクション内で更新済みの current_state から解決する
+CREATE OR REPLACE FUNCTION public._insert_history(
+  p_room_id UUID,
+  p_message TEXT,
+  p_snapshot JSONB,
+  p_event_type TEXT,
+  p_from_id TEXT DEFAULT NULL,
+  p_to_id TEXT DEFAULT NULL,
+  p_transfers JSONB DEFAULT NULL,
+  p_payload JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_state JSONB;
+BEGIN
+  SELECT current_state INTO v_state
+  FROM public.rooms WHERE id = p_room_id;
+
+  INSERT INTO public.room_history (
+    room_id, message, snapshot, event_type, actor_id, actor_name,
+    from_id, to_id, transfers, payload
+  )
+  VALUES (
+    p_room_id, p_message, p_snapshot, p_event_type, auth.uid(),
+    public._actor_display_name(COALESCE(v_state, '{}'::jsonb)),
+    p_from_id, p_to_id, p_transfers, p_payload
+  );
+END;
+$$;
+
+-- 3. _push_recent_log: エントリに actorId / actorName を追加して再定義
+--   auth.uid() を参照するため IMMUTABLE ではなくなる
+CREATE OR REPLACE FUNCTION public._push_recent_log(state JSONB, msg TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  log_arr JSONB;
+  new_entry JSONB;
+BEGIN
+  log_arr := COALESCE(state->'__recent_log__', '[]'::jsonb);
+  new_entry := jsonb_strip_nulls(jsonb_build_object(
+    'id', gen_random_uuid()::text,
+    'timestamp', (EXTRACT(EPOCH FROM now()) * 1000)::bigint,
+    'message', msg,
+    'actorId', auth.uid()::text,
+    'actorName', public._actor_display_name(state)
+  ));
+  log_arr := log_arr || jsonb_build_array(new_entry);
+  -- 最大5件を保持
+  IF jsonb_array_length(log_arr) > 5 THEN
+    log_arr := (
+      SELECT jsonb_agg(elem)
+      FROM (
+        SELECT elem
+        FROM jsonb_array_elements(log_arr) AS elem
+        ORDER BY (elem->>'timestamp')::bigint ASC
+        OFFSET (jsonb_array_length(log_arr) - 5)
+      ) sub
+    );
+  END IF;
+  RETURN jsonb_set(state, '{__recent_log__}', log_arr);
+END;
+$$;
@@ -0,0 +1,359 @@
+-- ============================================
+-- 取り消し済み履歴の保持と やり直し（Redo）
+-- rpc_undo_last は履歴行を削除し、rpc_rollback_to は対象以降をすべて削除していたため、
+-- 誤って取り消すとデータが失われていた。履歴は削除せず「取り消し済み」として残す。
+--   reverted_at : 取り消された日時（NULL = 有効な操作）
+--   reverted_by : ロールバックで取り消された場合、そのロールバック履歴のID
+--   redo_state  : Undo で取り消された行の やり直し用データ
+--                 {snapshot: 取り消し直前の状態, settlements: 取り消しで削除した精算行}
+-- redo_state を持つ行が Redo スタック。新しい操作（_insert_history）で破棄する。
+-- ロールバックで削除した精算行はロールバック履歴の payload.removedSettlements に保存し、
+-- そのロールバックを Undo したときに戻す。
+-- ============================================
+
+
+-- --------------------------------------------
+-- 1. room_history に取り消し状態を追加
+-- --------------------------------------------
+ALTER TABLE public.room_history
+  ADD COLUMN IF NOT EXISTS reverted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS reverted_by UUID REFERENCES public.room_history(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS redo_state JSONB;
+
+COMMENT ON COLUMN public.room_history.reverted_at IS '取り消された日時（NULL は有効な操作）';
+COMMENT ON COLUMN public.room_history.reverted_by IS 'この行を取り消したロールバック履歴のID';
+COMMENT ON COLUMN public.room_history.redo_state IS 'やり直し用データ {snapshot, settlements}（Redo スタック）';
+
+
+-- ============================================
+-- ヘルパー関数（内部用）
+-- ============================================
+
+-- 1. _insert_history: 新しい操作で Redo スタックを破棄し、追加した行のIDを返すよう再定義
+--   戻り値の型が変わるため DROP してから作成する（呼び出し側は PERFORM のため影響なし）
+DROP FUNCTION IF EXISTS public._insert_history(UUID, TEXT, JSONB, TEXT, TEXT, TEXT, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION public._insert_history(
+  p_room_id UUID,
+  p_message TEXT,
+  p_snapshot JSONB,
+  p_event_type TEXT,
+  p_from_id TEXT DEFAULT NULL,
+  p_to_id TEXT DEFAULT NULL,
+  p_transfers JSONB DEFAULT NULL,
+  p_payload JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_state JSONB;
+  v_id UUID;
+BEGIN
+  SELECT current_state INTO v_state
+  FROM public.rooms WHERE id = p_room_id;
+
+  -- 新しい操作が入ったら やり直しはできない
+  UPDATE public.room_history
+  SET redo_state = NULL
+  WHERE room_id = p_room_id AND redo_state IS NOT NULL;
+
+  INSERT INTO public.room_history (
+    room_id, message, snapshot, event_type, actor_id, actor_name,
+    from_id, to_id, transfers, payload
+  )
+  VALUES (
+    p_room_id, p_message, p_snapshot, p_event_type, auth.uid(),
+    public._actor_display_name(COALESCE(v_state, '{}'::jsonb)),
+    p_from_id, p_to_id, p_transfers, p_payload
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+
+-- ============================================
+-- RPC 関数（3個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_undo_last: 最新の有効な履歴の snapshot を復元し、取り消し済みにする
+--   削除はせず redo_state に やり直し用データを保存する
+--   ロールバックの取り消しでは、削除した精算行と取り消した履歴を元に戻す
+--   対応する PermissionKey が無いため、UI と同じくホスト・コホストのみ許可
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_undo_last(p_room_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_entry RECORD;
+  v_restored JSONB;
+  v_recent_log JSONB;
+  v_settlements JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+
+  -- 最新の有効なエントリ取得
+  SELECT * INTO v_entry
+  FROM public.room_history
+  WHERE room_id = p_room_id AND reverted_at IS NULL
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', '取り消せる操作がありません');
+  END IF;
+
+  -- snapshot を復元（着席プレイヤー・離席者の補完）
+  v_restored := public._ensure_seated_players(
+    v_entry.snapshot,
+    COALESCE(v_room.seats, '[]'::jsonb),
+    COALESCE(v_room.template->'variables', '[]'::jsonb),
+    v_state
+  );
+
+  IF v_entry.event_type = 'rollback' THEN
+    -- ロールバックで削除した精算行を戻し、取り消した履歴を有効に戻す
+    INSERT INTO public.room_settlements
+    SELECT * FROM jsonb_populate_recordset(
+      NULL::public.room_settlements,
+      COALESCE(v_entry.payload->'removedSettlements', '[]'::jsonb)
+    );
+
+    UPDATE public.room_history
+    SET reverted_at = NULL
+    WHERE reverted_by = v_entry.id;
+  ELSE
+    -- 対応する精算レコードを削除（精算操作の undo 時）。やり直し用に保存する
+    SELECT COALESCE(jsonb_agg(to_jsonb(s)), '[]'::jsonb) INTO v_settlements
+    FROM public.room_settlements s
+    WHERE room_id = p_room_id AND created_at = v_entry.created_at;
+
+    DELETE FROM public.room_settlements
+    WHERE room_id = p_room_id AND created_at = v_entry.created_at;
+  END IF;
+
+  -- エントリを取り消し済みにする
+  UPDATE public.room_history
+  SET reverted_at = now(),
+      redo_state = jsonb_build_object(
+        'snapshot', public._build_snapshot(v_state),
+        'settlements', v_settlements
+      )
+  WHERE id = v_entry.id;
+
+  -- __recent_log__: undo した操作メッセージを除去
+  v_recent_log := COALESCE(v_state->'__recent_log__', '[]'::jsonb);
+  v_recent_log := (
+    SELECT COALESCE(jsonb_agg(elem), '[]'::jsonb)
+    FROM jsonb_array_elements(v_recent_log) AS elem
+    WHERE elem->>'message' != v_entry.message
+  );
+  v_restored := jsonb_set(v_restored, '{__recent_log__}', v_recent_log);
+
+  UPDATE public.rooms SET current_state = v_restored WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_redo: 最も古い取り消し済みエントリ（Redo スタックの先頭）をやり直す
+--   取り消し直前の状態を復元し、削除した精算行を戻す
+--   rpc_undo_last と同じくホスト・コホストのみ許可
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_redo(p_room_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_entry RECORD;
+  v_restored JSONB;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+
+  -- Undo は新しい順に取り消すため、やり直しは古い順
+  SELECT * INTO v_entry
+  FROM public.room_history
+  WHERE room_id = p_room_id AND redo_state IS NOT NULL
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'やり直せる操作がありません');
+  END IF;
+
+  v_restored := public._ensure_seated_players(
+    v_entry.redo_state->'snapshot',
+    COALESCE(v_room.seats, '[]'::jsonb),
+    COALESCE(v_room.template->'variables', '[]'::jsonb),
+    v_state
+  );
+
+  IF v_entry.event_type = 'rollback' THEN
+    -- ロールバックをもう一度適用する
+    DELETE FROM public.room_settlements
+    WHERE id IN (
+      SELECT (elem->>'id')::uuid
+      FROM jsonb_array_elements(
+        COALESCE(v_entry.payload->'removedSettlements', '[]'::jsonb)
+      ) AS elem
+    );
+
+    UPDATE public.room_history
+    SET reverted_at = now()
+    WHERE reverted_by = v_entry.id;
+  ELSE
+    INSERT INTO public.room_settlements
+    SELECT * FROM jsonb_populate_recordset(
+      NULL::public.room_settlements,
+      COALESCE(v_entry.redo_state->'settlements', '[]'::jsonb)
+    );
+  END IF;
+
+  UPDATE public.room_history
+  SET reverted_at = NULL, redo_state = NULL
+  WHERE id = v_entry.id;
+
+  -- __recent_log__: やり直した操作メッセージを再追加
+  v_restored := jsonb_set(v_restored, '{__recent_log__}',
+    COALESCE(v_state->'__recent_log__', '[]'::jsonb));
+  v_restored := public._push_recent_log(v_restored, v_entry.message);
+
+  UPDATE public.rooms SET current_state = v_restored WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_rollback_to: 指定エントリの snapshot を復元し、それ以降を取り消し済みにする
+--   履歴は削除しない。削除した精算行は payload.removedSettlements に保存する
+--   rpc_undo_last と同じくホスト・コホストのみ許可
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_rollback_to(
+  p_room_id UUID,
+  p_history_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_entry RECORD;
+  v_restored JSONB;
+  v_before JSONB;
+  v_msg TEXT;
+  v_removed JSONB;
+  v_rollback_id UUID;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+
+  -- 対象エントリ取得（取り消し済みの行には戻せない）
+  SELECT * INTO v_entry
+  FROM public.room_history
+  WHERE id = p_history_id AND room_id = p_room_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', '指定された履歴が見つかりません');
+  END IF;
+
+  IF v_entry.reverted_at IS NOT NULL THEN
+    RETURN jsonb_build_object('error', '取り消し済みの履歴にはロールバックできません');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+
+  -- snapshot を復元
+  v_restored := public._ensure_seated_players(
+    v_entry.snapshot,
+    COALESCE(v_room.seats, '[]'::jsonb),
+    COALESCE(v_room.template->'variables', '[]'::jsonb),
+    v_state
+  );
+
+  v_msg := 'ロールバック (' || to_char(v_entry.created_at AT TIME ZONE 'Asia/Tokyo', 'HH24:MI:SS') || ')';
+
+  -- 対象エントリ以降の精算レコードを削除（ロールバックの取り消し用に保存）
+  SELECT COALESCE(jsonb_agg(to_jsonb(s)), '[]'::jsonb) INTO v_removed
+  FROM public.room_settlements s
+  WHERE room_id = p_room_id AND created_at >= v_entry.created_at;
+
+  DELETE FROM public.room_settlements
+  WHERE room_id = p_room_id AND created_at >= v_entry.created_at;
+
+  -- ロールバック操作自体を履歴に追加
+  v_rollback_id := public._insert_history(p_room_id, v_msg, v_before,
+    'rollback', NULL, NULL, NULL,
+    jsonb_build_object(
+      'targetCreatedAt', v_entry.created_at,
+      'removedSettlements', v_removed
+    ));
+
+  -- 対象エントリ以降の有効な履歴を取り消し済みにする
+  UPDATE public.room_history
+  SET reverted_at = now(), reverted_by = v_rollback_id
+  WHERE room_id = p_room_id
+    AND created_at >= v_entry.created_at
+    AND reverted_at IS NULL
+    AND id != v_rollback_id;
+
+  -- __recent_log__ 更新
+  v_restored := public._push_recent_log(v_restored, v_msg);
+
+  UPDATE public.rooms SET current_state = v_restored WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_undo_last(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_redo(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_rollback_to(UUID, UUID) TO authenticated;
@@ -0,0 +1,337 @@
+-- ============================================
+-- 麻雀の局進行（場風・局・本場・親）
+-- これまで局の管理は汎用カウンター（__count__）を手で増減するしかなかった。
+-- current_state に予約キー __round__ を追加し、局結果から自動で進行させる。
+--   __round__ : {wind, hand, honba, dealerSeat, startSeat}
+--     wind       : 場風（east / south / west / north）
+--     hand       : 局（1〜座席数）
+--     honba      : 本場
+--     dealerSeat : 親の座席インデックス
+--     startSeat  : 起家の座席インデックス（精算の同点判定にも使う）
+-- 局結果ごとの進行:
+--   dealer_win     : 親のアガリ → 連荘（本場 +1）
+--   draw           : 流局 → 本場 +1、親がノーテンなら親流れ
+--   non_dealer_win : 子のアガリ → 親流れ（本場 0）
+-- 親流れで局が座席数を超えたら次の場風の1局に進む。
+-- 操作権限はカウンターと同じ edit_counter。
+-- 履歴は event_type = 'round' で記録するため undo / rollback で局も戻る。
+-- 精算で半荘が終わったら起家はそのままに東1局 0本場へ戻す。
+-- ============================================
+
+
+-- ============================================
+-- ヘルパー関数（内部用）
+-- ============================================
+
+-- 1. _initial_round: 東1局 0本場（親は起家）
+CREATE OR REPLACE FUNCTION public._initial_round(p_start_seat INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+BEGIN
+  RETURN jsonb_build_object(
+    'wind', 'east',
+    'hand', 1,
+    'honba', 0,
+    'dealerSeat', p_start_seat,
+    'startSeat', p_start_seat
+  );
+END;
+$$;
+
+-- 2. _format_round: 「東1局 0本場」形式の表示文字列
+CREATE OR REPLACE FUNCTION public._format_round(p_round JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+BEGIN
+  RETURN CASE p_round->>'wind'
+      WHEN 'south' THEN '南'
+      WHEN 'west' THEN '西'
+      WHEN 'north' THEN '北'
+      ELSE '東'
+    END
+    || (p_round->>'hand') || '局 '
+    || (p_round->>'honba') || '本場';
+END;
+$$;
+
+
+-- ============================================
+-- RPC 関数（3個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_advance_round: 局結果から局を進める（edit_counter）
+--   p_result        : dealer_win / draw / non_dealer_win
+--   p_dealer_tenpai : 流局時に親がテンパイか（false なら親流れ）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_advance_round(
+  p_room_id UUID,
+  p_result TEXT,
+  p_dealer_tenpai BOOLEAN DEFAULT TRUE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_round JSONB;
+  v_next JSONB;
+  v_seat_count INTEGER;
+  v_winds TEXT[] := ARRAY['east', 'south', 'west', 'north'];
+  v_wind_index INTEGER;
+  v_hand INTEGER;
+  v_honba INTEGER;
+  v_dealer INTEGER;
+  v_result_label TEXT;
+  v_msg TEXT;
+BEGIN
+  IF p_result NOT IN ('dealer_win', 'draw', 'non_dealer_win') THEN
+    RETURN jsonb_build_object('error', '不正な局結果です');
+  END IF;
+
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'edit_counter') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_before := public._build_snapshot(v_state);
+  v_round := COALESCE(v_state->'__round__', public._initial_round(0));
+  v_seat_count := GREATEST(COALESCE(jsonb_array_length(v_room.seats), 4), 1);
+
+  v_wind_index := COALESCE(array_position(v_winds, v_round->>'wind'), 1);
+  v_hand := COALESCE((v_round->>'hand')::int, 1);
+  v_honba := COALESCE((v_round->>'honba')::int, 0);
+  v_dealer := COALESCE((v_round->>'dealerSeat')::int, 0);
+
+  IF p_result = 'dealer_win' OR (p_result = 'draw' AND p_dealer_tenpai) THEN
+    -- 連荘
+    v_honba := v_honba + 1;
+  ELSE
+    -- 親流れ
+    v_honba := CASE WHEN p_result = 'draw' THEN v_honba + 1 ELSE 0 END;
+    v_dealer := (v_dealer + 1) % v_seat_count;
+    v_hand := v_hand + 1;
+    IF v_hand > v_seat_count THEN
+      v_hand := 1;
+      v_wind_index := v_wind_index % 4 + 1;
+    END IF;
+  END IF;
+
+  v_next := jsonb_build_object(
+    'wind', v_winds[v_wind_index],
+    'hand', v_hand,
+    'honba', v_honba,
+    'dealerSeat', v_dealer,
+    'startSeat', COALESCE((v_round->>'startSeat')::int, 0)
+  );
+
+  v_result_label := CASE p_result
+    WHEN 'dealer_win' THEN '親のアガリ'
+    WHEN 'non_dealer_win' THEN '子のアガリ'
+    WHEN 'draw' THEN CASE WHEN p_dealer_tenpai THEN '流局・親テンパイ' ELSE '流局・親ノーテン' END
+  END;
+  v_msg := '局進行: ' || public._format_round(v_next) || '（' || v_result_label || '）';
+
+  v_state := jsonb_set(v_state, '{__round__}', v_next);
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'round', NULL, NULL, NULL,
+    jsonb_strip_nulls(jsonb_build_object(
+      'roundResult', p_result,
+      'dealerTenpai', CASE WHEN p_result = 'draw' THEN to_jsonb(p_dealer_tenpai) END,
+      'round', v_next)));
+
+  RETURN jsonb_build_object('success', true, 'round', v_next);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_reset_round: 起家を指定して東1局 0本場に戻す（edit_counter）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_reset_round(
+  p_room_id UUID,
+  p_start_seat INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_next JSONB;
+  v_start_id TEXT;
+  v_start_name TEXT;
+  v_msg TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'edit_counter') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  IF p_start_seat < 0 OR p_start_seat >= COALESCE(jsonb_array_length(v_room.seats), 0) THEN
+    RETURN jsonb_build_object('error', '無効な座席番号です');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_before := public._build_snapshot(v_state);
+  v_next := public._initial_round(p_start_seat);
+
+  v_start_id := v_room.seats->p_start_seat->>'userId';
+  IF v_start_id IS NOT NULL THEN
+    v_start_name := public._seat_display_name(v_room.seats, v_state, v_start_id);
+  END IF;
+
+  v_msg := '局リセット: ' || public._format_round(v_next)
+    || COALESCE('（起家: ' || v_start_name || '）', '');
+
+  v_state := jsonb_set(v_state, '{__round__}', v_next);
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'round', NULL, v_start_id, NULL,
+    jsonb_strip_nulls(jsonb_build_object('name', v_start_name, 'round', v_next)));
+
+  RETURN jsonb_build_object('success', true, 'round', v_next);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_save_settlement: 精算で半荘が終わるため局も東1局 0本場に戻す
+--   起家は前の半荘と同じ座席のまま
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_save_settlement(
+  p_room_id UUID,
+  p_settlement_id UUID,
+  p_player_results JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_var_key TEXT;
+  v_initial NUMERIC;
+  v_player_id TEXT;
+  v_var JSONB;
+  v_msg TEXT;
+  v_summary TEXT := '';
+  v_pr JSONB;
+  v_uid TEXT;
+  v_results JSONB := '{}'::jsonb;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'finalize_game') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_tpl_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+  v_before := public._build_snapshot(v_state);
+
+  -- 精算対象変数とその初期値を取得
+  v_var_key := COALESCE(v_room.template->'settlementConfig'->>'variable', 'score');
+  v_initial := NULL;
+  FOR v_var IN SELECT * FROM jsonb_array_elements(v_tpl_vars)
+  LOOP
+    IF v_var->>'key' = v_var_key THEN
+      v_initial := (v_var->>'initial')::numeric;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  -- 対象変数をリセット
+  IF v_initial IS NOT NULL THEN
+    FOR v_player_id IN SELECT jsonb_object_keys(v_state)
+    LOOP
+      IF LEFT(v_player_id, 2) != '__' THEN
+        IF v_state->v_player_id ? v_var_key THEN
+          v_state := jsonb_set(v_state, ARRAY[v_player_id, v_var_key], to_jsonb(v_initial));
+        END IF;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Pot の対象変数もリセット
+  IF v_state ? '__pot__' AND v_state->'__pot__' ? v_var_key THEN
+    v_state := jsonb_set(v_state, ARRAY['__pot__', v_var_key], to_jsonb(0));
+  END IF;
+
+  -- 局を東1局 0本場に戻す（起家は維持）
+  IF v_state ? '__round__' THEN
+    v_state := jsonb_set(v_state, '{__round__}', public._initial_round(
+      COALESCE((v_state->'__round__'->>'startSeat')::int, 0)));
+  END IF;
+
+  -- 精算サマリメッセージ作成（rankでソート）
+  FOR v_uid, v_pr IN SELECT * FROM jsonb_each(p_player_results) ORDER BY (value->>'rank')::int ASC
+  LOOP
+    IF v_summary != '' THEN v_summary := v_summary || ', '; END IF;
+    v_summary := v_summary || (v_pr->>'displayName') || ': ';
+    IF (v_pr->>'result')::numeric >= 0 THEN
+      v_summary := v_summary || '+';
+    END IF;
+    v_summary := v_summary || (v_pr->>'result')::text;
+    v_results := v_results || jsonb_build_object(v_uid, jsonb_build_object(
+      'displayName', v_pr->'displayName', 'rank', v_pr->'rank', 'result', v_pr->'result'));
+  END LOOP;
+  v_msg := '精算: ' || v_summary;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  -- settlement レコード
+  INSERT INTO public.room_settlements (id, room_id, type, player_results)
+  VALUES (p_settlement_id, p_room_id, 'settlement', p_player_results);
+
+  -- 履歴レコード
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'settlement', NULL, NULL, NULL,
+    jsonb_build_object('settlementId', p_settlement_id, 'results', v_results));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_advance_round(UUID, TEXT, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_reset_round(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_save_settlement(UUID, UUID, JSONB) TO authenticated;
@@ -0,0 +1,200 @@
+-- ============================================
+-- 和了の支払いを1操作で記録
+-- ツモは3人がそれぞれ支払い、供託（リーチ棒）も和了者が受け取るため、
+-- rpc_transfer_score を複数回呼ぶと履歴・undo が分かれ、途中で失敗すると
+-- 一部だけ反映された状態になっていた。
+-- rpc_apply_win で全員分の支払いと供託の回収を1トランザクションで反映し、
+-- 履歴は event_type = 'win' の1行にまとめる。
+-- 支払い額の計算（翻・符 → 点数）はクライアント側（mahjongScoreUtils）で行う。
+-- ============================================
+
+
+-- ============================================
+-- RPC 関数（1個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_apply_win: 和了の支払いを反映（transfer_score）
+--   p_payments    : [{from, amount}, ...] 支払い者ごとの支払い
+--   p_variable    : 支払う変数（デフォルト: score）
+--   p_collect_pot : 供託を和了者が受け取るか（retrieve_pot）
+--   p_detail      : {winType, han, fu, honba, isDealer} 履歴表示用
+--   プレイヤー権限では自分が放銃したロン（支払い者が自分1人）のみ許可
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_apply_win(
+  p_room_id UUID,
+  p_winner_id TEXT,
+  p_payments JSONB,
+  p_variable TEXT DEFAULT 'score',
+  p_collect_pot BOOLEAN DEFAULT TRUE,
+  p_detail JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_payment JSONB;
+  v_from TEXT;
+  v_amount NUMERIC;
+  v_total NUMERIC := 0;
+  v_from_name TEXT;
+  v_winner_name TEXT;
+  v_details TEXT := '';
+  v_payments JSONB := '[]'::jsonb;
+  v_pot JSONB := '{}'::jsonb;
+  v_pot_details TEXT := '';
+  v_pot_var TEXT;
+  v_pot_val NUMERIC;
+  v_win_type TEXT;
+  v_han INTEGER;
+  v_hand_label TEXT;
+  v_msg TEXT;
+  v_transfers JSONB;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'transfer_score') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  IF jsonb_typeof(p_payments) != 'array' OR jsonb_array_length(p_payments) = 0 THEN
+    RETURN jsonb_build_object('error', '支払いがありません');
+  END IF;
+
+  -- プレイヤー権限では他人のスコアを動かせない
+  IF NOT public._is_room_host(v_room) AND (
+    jsonb_array_length(p_payments) != 1
+    OR p_payments->0->>'from' IS DISTINCT FROM auth.uid()::text
+  ) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_before := public._build_snapshot(v_state);
+
+  IF NOT v_state ? p_winner_id OR LEFT(p_winner_id, 2) = '__' THEN
+    RETURN jsonb_build_object('error', '和了者が見つかりません');
+  END IF;
+
+  -- 支払いを順に反映
+  FOR v_payment IN SELECT * FROM jsonb_array_elements(p_payments)
+  LOOP
+    v_from := v_payment->>'from';
+    v_amount := (v_payment->>'amount')::numeric;
+
+    IF v_from IS NULL OR NOT v_state ? v_from OR LEFT(v_from, 2) = '__'
+      OR v_from = p_winner_id THEN
+      RETURN jsonb_build_object('error', '支払い者が見つかりません');
+    END IF;
+    IF v_amount IS NULL OR v_amount <= 0 THEN
+      RETURN jsonb_build_object('error', '支払い額が不正です');
+    END IF;
+
+    v_state := jsonb_set(v_state, ARRAY[v_from, p_variable],
+      to_jsonb(COALESCE((v_state->v_from->>p_variable)::numeric, 0) - v_amount));
+    v_total := v_total + v_amount;
+
+    v_from_name := public._seat_display_name(v_room.seats, v_state, v_from);
+    IF v_details != '' THEN v_details := v_details || ', '; END IF;
+    v_details := v_details || v_from_name || ' ' || v_amount::text;
+    v_payments := v_payments || jsonb_build_array(jsonb_build_object(
+      'fromId', v_from, 'fromName', v_from_name, 'amount', v_amount));
+  END LOOP;
+
+  v_state := jsonb_set(v_state, ARRAY[p_winner_id, p_variable],
+    to_jsonb(COALESCE((v_state->p_winner_id->>p_variable)::numeric, 0) + v_total));
+
+  -- 供託（リーチ棒）の回収
+  IF p_collect_pot AND v_state ? '__pot__' THEN
+    FOR v_pot_var, v_pot_val IN
+      SELECT key, value::numeric FROM jsonb_each_text(v_state->'__pot__')
+    LOOP
+      IF v_pot_val > 0 THEN
+        v_pot := v_pot || jsonb_build_object(v_pot_var, v_pot_val);
+        IF v_pot_details != '' THEN v_pot_details := v_pot_details || ', '; END IF;
+        v_pot_details := v_pot_details
+          || public._get_variable_label(COALESCE(v_room.template->'variables', '[]'::jsonb), v_pot_var)
+          || ' ' || v_pot_val::text;
+      END IF;
+    END LOOP;
+
+    IF v_pot != '{}'::jsonb THEN
+      IF NOT public._has_permission(v_room, 'retrieve_pot') THEN
+        RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+      END IF;
+      FOR v_pot_var, v_pot_val IN SELECT key, value::numeric FROM jsonb_each_text(v_pot)
+      LOOP
+        v_state := jsonb_set(v_state, ARRAY['__pot__', v_pot_var], to_jsonb(0));
+        v_state := jsonb_set(v_state, ARRAY[p_winner_id, v_pot_var],
+          to_jsonb(COALESCE((v_state->p_winner_id->>v_pot_var)::numeric, 0) + v_pot_val));
+      END LOOP;
+    END IF;
+  END IF;
+
+  -- 履歴メッセージ（例: アガリ: Alice ← Bob 7700, 供託 点数 1000（ロン 4翻30符））
+  v_winner_name := public._seat_display_name(v_room.seats, v_state, p_winner_id);
+  v_win_type := COALESCE(p_detail->>'winType', CASE WHEN jsonb_array_length(p_payments) = 1 THEN 'ron' ELSE 'tsumo' END);
+  v_han := (p_detail->>'han')::int;
+  v_hand_label := CASE WHEN v_win_type = 'tsumo' THEN 'ツモ' ELSE 'ロン' END;
+  IF v_han IS NOT NULL THEN
+    v_hand_label := v_hand_label || ' ' || CASE
+      WHEN v_han >= 13 THEN '役満'
+      WHEN v_han >= 11 THEN '三倍満'
+      WHEN v_han >= 8 THEN '倍満'
+      WHEN v_han >= 6 THEN '跳満'
+      WHEN v_han >= 5 THEN '満貫'
+      ELSE v_han::text || '翻' || COALESCE(p_detail->>'fu', '') || '符'
+    END;
+  END IF;
+
+  v_msg := 'アガリ: ' || v_winner_name || ' ← ' || v_details;
+  IF v_pot_details != '' THEN
+    v_msg := v_msg || ', 供託 ' || v_pot_details;
+  END IF;
+  v_msg := v_msg || '（' || v_hand_label || '）';
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  -- 和了者が受け取った量（支払い + 供託）
+  v_transfers := jsonb_build_array(jsonb_build_object('variable', p_variable,
+    'amount', v_total + COALESCE((v_pot->>p_variable)::numeric, 0)));
+  FOR v_pot_var, v_pot_val IN SELECT key, value::numeric FROM jsonb_each_text(v_pot - p_variable)
+  LOOP
+    v_transfers := v_transfers || jsonb_build_array(jsonb_build_object(
+      'variable', v_pot_var, 'amount', v_pot_val));
+  END LOOP;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'win',
+    CASE WHEN v_win_type = 'ron' THEN p_payments->0->>'from' END,
+    p_winner_id, v_transfers,
+    jsonb_strip_nulls(jsonb_build_object(
+      'toName', v_winner_name,
+      'payments', v_payments,
+      'pot', NULLIF(v_pot, '{}'::jsonb),
+      'winType', v_win_type,
+      'han', p_detail->'han',
+      'fu', p_detail->'fu',
+      'honba', p_detail->'honba',
+      'isDealer', p_detail->'isDealer')));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_apply_win(UUID, TEXT, JSONB, TEXT, BOOLEAN, JSONB) TO authenticated;
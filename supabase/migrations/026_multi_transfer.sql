@@ -0,0 +1,178 @@
+-- ============================================
+-- 複数の移動を1操作で記録
+-- rpc_transfer_score は移動元・移動先が1組だけのため、ツモのように
+-- 3人が1人に支払う操作は3回の呼び出しになり、履歴・undo が分かれ、
+-- 途中で失敗すると一部だけ反映された状態になっていた。
+-- rpc_transfer_multi で [{from, to, transfers}] の各移動を1トランザクションで反映し、
+-- 履歴は event_type = 'multi_transfer' の1行にまとめる。
+-- ============================================
+
+
+-- ============================================
+-- RPC 関数（1個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_transfer_multi: 複数のスコア移動を一括反映
+--   p_legs : [{from, to, transfers: [{variable, amount}, ...]}, ...]
+--   権限は移動ごとに rpc_transfer_score と同じ判定
+--     Pot → プレイヤー : retrieve_pot
+--     それ以外         : transfer_score（プレイヤー権限では自分からの移動のみ）
+--   1つでも不正な移動があれば何も反映しない
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_transfer_multi(
+  p_room_id UUID,
+  p_legs JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_leg JSONB;
+  v_from TEXT;
+  v_to TEXT;
+  v_transfer JSONB;
+  v_var TEXT;
+  v_amount NUMERIC;
+  v_from_name TEXT;
+  v_to_name TEXT;
+  v_details TEXT;
+  v_leg_transfers JSONB;
+  v_legs JSONB := '[]'::jsonb;
+  v_msg TEXT := '';
+  v_common_from TEXT;
+  v_common_to TEXT;
+  v_first BOOLEAN := TRUE;
+BEGIN
+  -- 1. 行ロック取得
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF jsonb_typeof(p_legs) != 'array' OR jsonb_array_length(p_legs) = 0 THEN
+    RETURN jsonb_build_object('error', '移動がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_tpl_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+
+  -- 2. 操作前スナップショット
+  v_before := public._build_snapshot(v_state);
+
+  -- 3. 移動を順に反映
+  FOR v_leg IN SELECT * FROM jsonb_array_elements(p_legs)
+  LOOP
+    v_from := v_leg->>'from';
+    v_to := v_leg->>'to';
+
+    IF v_from IS NULL OR v_to IS NULL OR v_from = v_to THEN
+      RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+    END IF;
+
+    -- 権限チェック（rpc_transfer_score と同じ）
+    IF v_from = '__pot__' THEN
+      IF NOT public._has_permission(v_room, 'retrieve_pot') THEN
+        RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+      END IF;
+    ELSE
+      IF NOT public._has_permission(v_room, 'transfer_score') THEN
+        RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+      END IF;
+      IF NOT public._is_room_host(v_room) AND v_from IS DISTINCT FROM auth.uid()::text THEN
+        RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+      END IF;
+    END IF;
+
+    IF v_from != '__pot__' AND (NOT v_state ? v_from OR LEFT(v_from, 2) = '__') THEN
+      RETURN jsonb_build_object('error', '送信元プレイヤーが見つかりません');
+    END IF;
+    IF v_to != '__pot__' AND (NOT v_state ? v_to OR LEFT(v_to, 2) = '__') THEN
+      RETURN jsonb_build_object('error', '送信先プレイヤーが見つかりません');
+    END IF;
+
+    IF jsonb_typeof(v_leg->'transfers') != 'array' OR jsonb_array_length(v_leg->'transfers') = 0 THEN
+      RETURN jsonb_build_object('error', '移動量が不正です');
+    END IF;
+
+    -- __pot__ が存在しなければ初期化
+    IF v_to = '__pot__' AND NOT v_state ? '__pot__' THEN
+      v_state := jsonb_set(v_state, '{__pot__}', '{}'::jsonb);
+    END IF;
+
+    v_details := '';
+    v_leg_transfers := '[]'::jsonb;
+    FOR v_transfer IN SELECT * FROM jsonb_array_elements(v_leg->'transfers')
+    LOOP
+      v_var := v_transfer->>'variable';
+      v_amount := (v_transfer->>'amount')::numeric;
+
+      IF v_var IS NULL OR v_amount IS NULL OR v_amount <= 0 THEN
+        RETURN jsonb_build_object('error', '移動量が不正です');
+      END IF;
+      IF v_from = '__pot__' AND COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) < v_amount THEN
+        RETURN jsonb_build_object('error', '供託金が不足しています');
+      END IF;
+
+      v_state := jsonb_set(v_state, ARRAY[v_from, v_var],
+        to_jsonb(COALESCE((v_state->v_from->>v_var)::numeric, 0) - v_amount));
+      v_state := jsonb_set(v_state, ARRAY[v_to, v_var],
+        to_jsonb(COALESCE((v_state->v_to->>v_var)::numeric, 0) + v_amount));
+
+      IF v_details != '' THEN v_details := v_details || ', '; END IF;
+      v_details := v_details || public._get_variable_label(v_tpl_vars, v_var) || ' ' || v_amount::text;
+      v_leg_transfers := v_leg_transfers || jsonb_build_array(
+        jsonb_build_object('variable', v_var, 'amount', v_amount));
+    END LOOP;
+
+    v_from_name := CASE WHEN v_from = '__pot__' THEN '供託回収'
+      ELSE public._seat_display_name(v_room.seats, v_state, v_from) END;
+    v_to_name := CASE WHEN v_to = '__pot__' THEN '供託'
+      ELSE public._seat_display_name(v_room.seats, v_state, v_to) END;
+
+    IF v_msg != '' THEN v_msg := v_msg || ' / '; END IF;
+    v_msg := v_msg || v_from_name || ' → ' || v_to_name || ': ' || v_details;
+
+    v_legs := v_legs || jsonb_build_array(jsonb_build_object(
+      'fromId', v_from, 'fromName', v_from_name,
+      'toId', v_to, 'toName', v_to_name,
+      'transfers', v_leg_transfers));
+
+    -- 全移動で共通の移動元・移動先（履歴の from_id / to_id 用）
+    IF v_first THEN
+      v_common_from := v_from;
+      v_common_to := v_to;
+      v_first := FALSE;
+    ELSE
+      IF v_common_from IS DISTINCT FROM v_from THEN v_common_from := NULL; END IF;
+      IF v_common_to IS DISTINCT FROM v_to THEN v_common_to := NULL; END IF;
+    END IF;
+  END LOOP;
+
+  -- 4. __recent_log__ 更新
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  -- 5. UPDATE rooms
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  -- 6. INSERT room_history（移動ごとの内訳は payload.legs）
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'multi_transfer', v_common_from, v_common_to, NULL,
+    jsonb_build_object('legs', v_legs));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_transfer_multi(UUID, JSONB) TO authenticated;
@@ -0,0 +1,141 @@
+-- ============================================
+-- 流局時のノーテン罰符を1操作で記録
+-- 流局ではノーテン者が 3000 点を等分して支払い、テンパイ者が等分して受け取る
+-- （4人なら 1人テンパイ: +3000 / -1000、2人: ±1500、3人: +1000 / -3000）。
+-- これまでは rpc_transfer_score で1人ずつ手入力するしかなかったため、
+-- rpc_apply_draw でテンパイ者を受け取り、収支を計算して1トランザクションで反映する。
+-- 対象は着席中のプレイヤー全員。履歴は event_type = 'draw' の1行にまとめる。
+-- 他人のスコアを動かすためホストのみ実行できる。
+-- ============================================
+
+
+-- ============================================
+-- RPC 関数（1個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_apply_draw: 流局のノーテン罰符を反映（transfer_score、ホストのみ）
+--   p_tenpai_ids : テンパイ者のユーザーID配列（JSONB）
+--   p_variable   : 支払う変数（デフォルト: score）
+--   p_total      : ノーテン罰符の総額（デフォルト: 3000）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_apply_draw(
+  p_room_id UUID,
+  p_tenpai_ids JSONB,
+  p_variable TEXT DEFAULT 'score',
+  p_total NUMERIC DEFAULT 3000
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_seat JSONB;
+  v_player_id TEXT;
+  v_player_ids TEXT[] := ARRAY[]::TEXT[];
+  v_tenpai_id TEXT;
+  v_tenpai_count INTEGER := 0;
+  v_noten_count INTEGER;
+  v_tenpai_amount NUMERIC;
+  v_noten_amount NUMERIC;
+  v_tenpai BOOLEAN;
+  v_amount NUMERIC;
+  v_name TEXT;
+  v_results JSONB := '[]'::jsonb;
+  v_tenpai_names TEXT := '';
+  v_noten_names TEXT := '';
+  v_msg TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'transfer_score')
+    OR NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  IF jsonb_typeof(p_tenpai_ids) != 'array' OR p_total IS NULL OR p_total <= 0 THEN
+    RETURN jsonb_build_object('error', '支払いがありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_before := public._build_snapshot(v_state);
+
+  -- 着席中のプレイヤー（座席順）
+  FOR v_seat IN SELECT * FROM jsonb_array_elements(COALESCE(v_room.seats, '[]'::jsonb))
+  LOOP
+    v_player_id := v_seat->>'userId';
+    IF v_player_id IS NOT NULL AND v_state ? v_player_id THEN
+      v_player_ids := v_player_ids || v_player_id;
+    END IF;
+  END LOOP;
+
+  FOR v_tenpai_id IN SELECT jsonb_array_elements_text(p_tenpai_ids)
+  LOOP
+    IF NOT v_tenpai_id = ANY(v_player_ids) THEN
+      RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+    END IF;
+  END LOOP;
+
+  SELECT count(*) INTO v_tenpai_count
+  FROM unnest(v_player_ids) AS id
+  WHERE p_tenpai_ids ? id;
+  v_noten_count := array_length(v_player_ids, 1) - v_tenpai_count;
+
+  -- 全員テンパイ・全員ノーテンは収支なし
+  IF v_tenpai_count = 0 OR COALESCE(v_noten_count, 0) = 0 THEN
+    RETURN jsonb_build_object('error', '支払いがありません');
+  END IF;
+
+  -- 1人あたりの受け取り・支払い（割り切れる場合は小数部を付けない）
+  v_tenpai_amount := trim_scale(p_total / v_tenpai_count);
+  v_noten_amount := trim_scale(p_total / v_noten_count);
+
+  FOREACH v_player_id IN ARRAY v_player_ids
+  LOOP
+    v_tenpai := p_tenpai_ids ? v_player_id;
+    v_amount := CASE WHEN v_tenpai THEN v_tenpai_amount ELSE -v_noten_amount END;
+
+    v_state := jsonb_set(v_state, ARRAY[v_player_id, p_variable],
+      to_jsonb(COALESCE((v_state->v_player_id->>p_variable)::numeric, 0) + v_amount));
+
+    v_name := public._seat_display_name(v_room.seats, v_state, v_player_id);
+    IF v_tenpai THEN
+      IF v_tenpai_names != '' THEN v_tenpai_names := v_tenpai_names || ', '; END IF;
+      v_tenpai_names := v_tenpai_names || v_name;
+    ELSE
+      IF v_noten_names != '' THEN v_noten_names := v_noten_names || ', '; END IF;
+      v_noten_names := v_noten_names || v_name;
+    END IF;
+    v_results := v_results || jsonb_build_array(jsonb_build_object(
+      'playerId', v_player_id, 'name', v_name, 'tenpai', v_tenpai, 'amount', v_amount));
+  END LOOP;
+
+  -- 履歴メッセージ（例: 流局: テンパイ Alice, Bob +1500 / ノーテン Carol, Dave -1500）
+  v_msg := '流局: テンパイ ' || v_tenpai_names || ' +' || v_tenpai_amount::text
+    || ' / ノーテン ' || v_noten_names || ' -' || v_noten_amount::text;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'draw', NULL, NULL, NULL,
+    jsonb_build_object('variable', p_variable, 'drawResults', v_results));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_apply_draw(UUID, JSONB, TEXT, NUMERIC) TO authenticated;
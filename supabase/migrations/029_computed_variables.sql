@@ -0,0 +1,152 @@
+-- ============================================
+-- 計算変数（テンプレートの computedVariables）
+-- 他の変数から計算する読み取り専用の変数。値は current_state に保存せず、
+-- クライアントが utils/expressionUtils で計算して表示・精算に使う。
+--   computedVariables : [{key, label, expression}, ...]
+--     例: {key: "total", label: "合計", expression: "score + bonus * 10"}
+-- テンプレートは rpc_update_template でそのまま保存されるため、サーバー側の変更は
+-- 精算対象が計算変数の場合のリセットのみ（計算式が参照する変数を初期値に戻す）。
+-- ============================================
+
+
+-- ============================================
+-- RPC 関数（1個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_save_settlement: 精算対象が計算変数なら、計算式が参照する変数をリセット
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_save_settlement(
+  p_room_id UUID,
+  p_settlement_id UUID,
+  p_player_results JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_var_key TEXT;
+  v_initial NUMERIC;
+  v_computed JSONB;
+  v_expression TEXT;
+  v_reset JSONB := '{}'::jsonb;
+  v_reset_key TEXT;
+  v_player_id TEXT;
+  v_var JSONB;
+  v_msg TEXT;
+  v_summary TEXT := '';
+  v_pr JSONB;
+  v_uid TEXT;
+  v_results JSONB := '{}'::jsonb;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'finalize_game') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_tpl_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+  v_before := public._build_snapshot(v_state);
+
+  -- 精算対象変数とその初期値を取得（{変数キー: 初期値}）
+  v_var_key := COALESCE(v_room.template->'settlementConfig'->>'variable', 'score');
+  FOR v_var IN SELECT * FROM jsonb_array_elements(v_tpl_vars)
+  LOOP
+    IF v_var->>'key' = v_var_key THEN
+      v_reset := jsonb_build_object(v_var_key, (v_var->>'initial')::numeric);
+      EXIT;
+    END IF;
+  END LOOP;
+
+  -- 計算変数の場合は計算式が参照する変数をリセット対象にする
+  IF v_reset = '{}'::jsonb THEN
+    SELECT elem INTO v_computed
+    FROM jsonb_array_elements(COALESCE(v_room.template->'computedVariables', '[]'::jsonb)) AS elem
+    WHERE elem->>'key' = v_var_key
+    LIMIT 1;
+
+    v_expression := v_computed->>'expression';
+    IF v_expression IS NOT NULL THEN
+      FOR v_var IN SELECT * FROM jsonb_array_elements(v_tpl_vars)
+      LOOP
+        -- 計算式で参照できるのは英数字と「_」のキーのみ
+        IF v_var->>'key' ~ '^[A-Za-z_][A-Za-z0-9_]*$'
+          AND v_expression ~ ('(^|[^A-Za-z0-9_])' || (v_var->>'key') || '([^A-Za-z0-9_]|$)') THEN
+          v_reset := v_reset || jsonb_build_object(v_var->>'key', (v_var->>'initial')::numeric);
+        END IF;
+      END LOOP;
+    END IF;
+  END IF;
+
+  -- 対象変数をリセット（Pot は 0 に）
+  FOR v_reset_key, v_initial IN SELECT key, value::numeric FROM jsonb_each_text(v_reset)
+  LOOP
+    CONTINUE WHEN v_initial IS NULL;
+
+    FOR v_player_id IN SELECT jsonb_object_keys(v_state)
+    LOOP
+      IF LEFT(v_player_id, 2) != '__' THEN
+        IF v_state->v_player_id ? v_reset_key THEN
+          v_state := jsonb_set(v_state, ARRAY[v_player_id, v_reset_key], to_jsonb(v_initial));
+        END IF;
+      END IF;
+    END LOOP;
+
+    IF v_state ? '__pot__' AND v_state->'__pot__' ? v_reset_key THEN
+      v_state := jsonb_set(v_state, ARRAY['__pot__', v_reset_key], to_jsonb(0));
+    END IF;
+  END LOOP;
+
+  -- 局を東1局 0本場に戻す（起家は維持）
+  IF v_state ? '__round__' THEN
+    v_state := jsonb_set(v_state, '{__round__}', public._initial_round(
+      COALESCE((v_state->'__round__'->>'startSeat')::int, 0)));
+  END IF;
+
+  -- 精算サマリメッセージ作成（rankでソート）
+  FOR v_uid, v_pr IN SELECT * FROM jsonb_each(p_player_results) ORDER BY (value->>'rank')::int ASC
+  LOOP
+    IF v_summary != '' THEN v_summary := v_summary || ', '; END IF;
+    v_summary := v_summary || (v_pr->>'displayName') || ': ';
+    IF (v_pr->>'result')::numeric >= 0 THEN
+      v_summary := v_summary || '+';
+    END IF;
+    v_summary := v_summary || (v_pr->>'result')::text;
+    v_results := v_results || jsonb_build_object(v_uid, jsonb_build_object(
+      'displayName', v_pr->'displayName', 'rank', v_pr->'rank', 'result', v_pr->'result'));
+  END LOOP;
+  v_msg := '精算: ' || v_summary;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  -- settlement レコード
+  INSERT INTO public.room_settlements (id, room_id, type, player_results)
+  VALUES (p_settlement_id, p_room_id, 'settlement', p_player_results);
+
+  -- 履歴レコード
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'settlement', NULL, NULL, NULL,
+    jsonb_build_object('settlementId', p_settlement_id, 'results', v_results));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_save_settlement(UUID, UUID, JSONB) TO authenticated;
@@ -0,0 +1,1005 @@
+-- ============================================
+-- 変数の制約（下限・上限・刻み・負の値の扱い）
+-- これまでのスコア操作は供託の残高しか検査しておらず、プレイヤーの値は際限なく負になれた。
+-- テンプレートの variables[] に制約を宣言できるようにし、全てのスコア操作 RPC で検査する。
+--   min / max     : 値の下限・上限
+--   step          : 値の刻み（例: 100 → 100点単位）
+--   allowNegative : 負の値の扱い（forbid: 拒否 / warn: 許可しクライアントで警告 / allow: 許可）
+-- 検査するのは操作で値が変わったプレイヤーの変数のみ（供託などの __ で始まるキーは対象外）。
+-- 各 RPC は既存の定義に、状態を保存する直前の検査を追加して再定義する。
+-- ============================================
+
+
+-- ============================================
+-- ヘルパー関数（内部用）
+-- ============================================
+
+-- 1. _check_variable_constraints: 変更後の値が制約を満たすか（違反があればエラーメッセージ、なければ NULL）
+CREATE OR REPLACE FUNCTION public._check_variable_constraints(
+  p_template JSONB,
+  p_before JSONB,
+  p_after JSONB
+)
+RETURNS TEXT
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+DECLARE
+  v_var JSONB;
+  v_key TEXT;
+  v_label TEXT;
+  v_player TEXT;
+  v_val NUMERIC;
+  v_min NUMERIC;
+  v_max NUMERIC;
+  v_step NUMERIC;
+BEGIN
+  FOR v_var IN SELECT * FROM jsonb_array_elements(COALESCE(p_template->'variables', '[]'::jsonb))
+  LOOP
+    v_key := v_var->>'key';
+    v_label := COALESCE(v_var->>'label', v_key);
+    v_min := (v_var->>'min')::numeric;
+    v_max := (v_var->>'max')::numeric;
+    v_step := (v_var->>'step')::numeric;
+
+    FOR v_player IN
+      SELECT key FROM jsonb_object_keys(p_after) AS key
+      WHERE LEFT(key, 2) != '__'
+    LOOP
+      v_val := (p_after->v_player->>v_key)::numeric;
+      CONTINUE WHEN v_val IS NULL
+        OR v_val IS NOT DISTINCT FROM (p_before->v_player->>v_key)::numeric;
+
+      IF v_min IS NOT NULL AND v_val < v_min THEN
+        RETURN v_label || 'が下限（' || v_min || '）を下回ります';
+      END IF;
+      IF v_max IS NOT NULL AND v_val > v_max THEN
+        RETURN v_label || 'が上限（' || v_max || '）を超えます';
+      END IF;
+      IF v_var->>'allowNegative' = 'forbid' AND v_val < 0 THEN
+        RETURN v_label || 'を負の値にはできません';
+      END IF;
+      IF v_step IS NOT NULL AND v_step > 0 AND mod(v_val, v_step) != 0 THEN
+        RETURN v_label || 'は' || v_step || '単位で指定してください';
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+
+-- ============================================
+-- RPC 関数（6個）: 既存の定義に制約チェックを追加
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_transfer_score: スコア移動（Pot対応、残高チェック）
+--   Pot → プレイヤー : retrieve_pot
+--   それ以外         : transfer_score
+--   プレイヤー権限では自分（または Pot）からの移動のみ許可
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_transfer_score(
+  p_room_id UUID,
+  p_from_id TEXT,
+  p_to_id TEXT,
+  p_transfers JSONB,   -- [{variable, amount}, ...]
+  p_from_name TEXT DEFAULT NULL,
+  p_to_name TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_template JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_transfer JSONB;
+  v_var TEXT;
+  v_amount NUMERIC;
+  v_from_val NUMERIC;
+  v_to_val NUMERIC;
+  v_display_from TEXT;
+  v_display_to TEXT;
+  v_details TEXT := '';
+  v_label TEXT;
+  v_msg TEXT;
+  v_transfers JSONB := '[]'::jsonb;
+  v_constraint_error TEXT;
+BEGIN
+  -- 1. 行ロック取得
+  SELECT * INTO v_room
+  FROM public.rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 2. 権限チェック
+  IF p_from_id = '__pot__' THEN
+    IF NOT public._has_permission(v_room, 'retrieve_pot') THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+  ELSE
+    IF NOT public._has_permission(v_room, 'transfer_score') THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+    -- プレイヤー権限では他人のスコアを動かせない
+    IF NOT public._is_room_host(v_room) AND p_from_id IS DISTINCT FROM auth.uid()::text THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+  END IF;
+
+  v_state := v_room.current_state;
+  v_template := v_room.template;
+  v_tpl_vars := COALESCE(v_template->'variables', '[]'::jsonb);
+
+  -- 3. 操作前スナップショット
+  v_before := public._build_snapshot(v_state);
+
+  -- 4. transfers を順に処理
+  FOR v_transfer IN SELECT * FROM jsonb_array_elements(p_transfers)
+  LOOP
+    v_var := v_transfer->>'variable';
+    v_amount := (v_transfer->>'amount')::numeric;
+
+    IF p_from_id = '__pot__' THEN
+      -- Pot → プレイヤー
+      IF COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) < v_amount THEN
+        RETURN jsonb_build_object('error', '供託金が不足しています');
+      END IF;
+      v_state := jsonb_set(v_state, ARRAY['__pot__', v_var],
+        to_jsonb(COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) - v_amount));
+      IF NOT v_state ? p_to_id THEN
+        RETURN jsonb_build_object('error', '送信先プレイヤーが見つかりません');
+      END IF;
+      v_state := jsonb_set(v_state, ARRAY[p_to_id, v_var],
+        to_jsonb(COALESCE((v_state->p_to_id->>v_var)::numeric, 0) + v_amount));
+
+    ELSIF p_to_id = '__pot__' THEN
+      -- プレイヤー → Pot
+      IF NOT v_state ? p_from_id THEN
+        RETURN jsonb_build_object('error', '送信元プレイヤーが見つかりません');
+      END IF;
+      v_from_val := COALESCE((v_state->p_from_id->>v_var)::numeric, 0);
+      v_state := jsonb_set(v_state, ARRAY[p_from_id, v_var], to_jsonb(v_from_val - v_amount));
+      -- __pot__ が存在しなければ初期化
+      IF NOT v_state ? '__pot__' THEN
+        v_state := jsonb_set(v_state, '{__pot__}', '{}'::jsonb);
+      END IF;
+      v_state := jsonb_set(v_state, ARRAY['__pot__', v_var],
+        to_jsonb(COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) + v_amount));
+
+    ELSE
+      -- プレイヤー間
+      IF NOT v_state ? p_from_id OR NOT v_state ? p_to_id THEN
+        RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+      END IF;
+      v_from_val := COALESCE((v_state->p_from_id->>v_var)::numeric, 0);
+      v_state := jsonb_set(v_state, ARRAY[p_from_id, v_var], to_jsonb(v_from_val - v_amount));
+      v_state := jsonb_set(v_state, ARRAY[p_to_id, v_var],
+        to_jsonb(COALESCE((v_state->p_to_id->>v_var)::numeric, 0) + v_amount));
+    END IF;
+
+    -- ラベル取得
+    v_label := public._get_variable_label(v_tpl_vars, v_var);
+    IF v_details != '' THEN v_details := v_details || ', '; END IF;
+    v_details := v_details || v_label || ' ' || v_amount::text;
+    v_transfers := v_transfers || jsonb_build_array(
+      jsonb_build_object('variable', v_var, 'amount', v_amount));
+  END LOOP;
+
+  -- 5. 履歴メッセージ
+  v_display_from := COALESCE(p_from_name,
+    CASE WHEN p_from_id = '__pot__' THEN '供託回収' ELSE left(p_from_id, 8) END);
+  v_display_to := COALESCE(p_to_name,
+    CASE WHEN p_to_id = '__pot__' THEN '供託' ELSE left(p_to_id, 8) END);
+  v_msg := v_display_from || ' → ' || v_display_to || ': ' || v_details;
+
+  -- 変数の制約（下限・上限・刻み・負の値）
+  v_constraint_error := public._check_variable_constraints(
+    v_room.template, v_room.current_state, v_state);
+  IF v_constraint_error IS NOT NULL THEN
+    RETURN jsonb_build_object('error', v_constraint_error);
+  END IF;
+
+  -- 6. __recent_log__ 更新
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  -- 7. UPDATE rooms
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  -- 8. INSERT room_history（構造化イベント付き）
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'transfer', p_from_id, p_to_id, v_transfers,
+    jsonb_strip_nulls(jsonb_build_object('fromName', p_from_name, 'toName', p_to_name)));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_force_edit_score: 指定変数の上書き（force_edit）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_force_edit_score(
+  p_room_id UUID,
+  p_player_id TEXT,
+  p_updates JSONB,      -- {"score": 30000, ...}
+  p_display_name TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_key TEXT;
+  v_val NUMERIC;
+  v_label TEXT;
+  v_details TEXT := '';
+  v_msg TEXT;
+  v_name TEXT;
+  v_values JSONB := '{}'::jsonb;
+  v_constraint_error TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'force_edit') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+
+  IF NOT v_state ? p_player_id THEN
+    RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+  END IF;
+
+  v_tpl_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+  v_before := public._build_snapshot(v_state);
+
+  -- 値を上書き
+  FOR v_key, v_val IN SELECT * FROM jsonb_each_text(p_updates)
+  LOOP
+    v_state := jsonb_set(v_state, ARRAY[p_player_id, v_key], to_jsonb(v_val::numeric));
+    v_label := public._get_variable_label(v_tpl_vars, v_key);
+    IF v_details != '' THEN v_details := v_details || ', '; END IF;
+    v_details := v_details || v_label || ': ' || v_val;
+    v_values := v_values || jsonb_build_object(v_key, v_val);
+  END LOOP;
+
+  v_name := COALESCE(p_display_name, left(p_player_id, 8));
+  v_msg := '強制編集: ' || v_name || ' - ' || v_details;
+
+  -- 変数の制約（下限・上限・刻み・負の値）
+  v_constraint_error := public._check_variable_constraints(
+    v_room.template, v_room.current_state, v_state);
+  IF v_constraint_error IS NOT NULL THEN
+    RETURN jsonb_build_object('error', v_constraint_error);
+  END IF;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'force_edit', NULL, p_player_id, NULL,
+    jsonb_build_object('name', v_name, 'values', v_values));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_apply_win: 和了の支払いを反映（transfer_score）
+--   p_payments    : [{from, amount}, ...] 支払い者ごとの支払い
+--   p_variable    : 支払う変数（デフォルト: score）
+--   p_collect_pot : 供託を和了者が受け取るか（retrieve_pot）
+--   p_detail      : {winType, han, fu, honba, isDealer} 履歴表示用
+--   プレイヤー権限では自分が放銃したロン（支払い者が自分1人）のみ許可
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_apply_win(
+  p_room_id UUID,
+  p_winner_id TEXT,
+  p_payments JSONB,
+  p_variable TEXT DEFAULT 'score',
+  p_collect_pot BOOLEAN DEFAULT TRUE,
+  p_detail JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_payment JSONB;
+  v_from TEXT;
+  v_amount NUMERIC;
+  v_total NUMERIC := 0;
+  v_from_name TEXT;
+  v_winner_name TEXT;
+  v_details TEXT := '';
+  v_payments JSONB := '[]'::jsonb;
+  v_pot JSONB := '{}'::jsonb;
+  v_pot_details TEXT := '';
+  v_pot_var TEXT;
+  v_pot_val NUMERIC;
+  v_win_type TEXT;
+  v_han INTEGER;
+  v_hand_label TEXT;
+  v_msg TEXT;
+  v_transfers JSONB;
+  v_constraint_error TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'transfer_score') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  IF jsonb_typeof(p_payments) != 'array' OR jsonb_array_length(p_payments) = 0 THEN
+    RETURN jsonb_build_object('error', '支払いがありません');
+  END IF;
+
+  -- プレイヤー権限では他人のスコアを動かせない
+  IF NOT public._is_room_host(v_room) AND (
+    jsonb_array_length(p_payments) != 1
+    OR p_payments->0->>'from' IS DISTINCT FROM auth.uid()::text
+  ) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_before := public._build_snapshot(v_state);
+
+  IF NOT v_state ? p_winner_id OR LEFT(p_winner_id, 2) = '__' THEN
+    RETURN jsonb_build_object('error', '和了者が見つかりません');
+  END IF;
+
+  -- 支払いを順に反映
+  FOR v_payment IN SELECT * FROM jsonb_array_elements(p_payments)
+  LOOP
+    v_from := v_payment->>'from';
+    v_amount := (v_payment->>'amount')::numeric;
+
+    IF v_from IS NULL OR NOT v_state ? v_from OR LEFT(v_from, 2) = '__'
+      OR v_from = p_winner_id THEN
+      RETURN jsonb_build_object('error', '支払い者が見つかりません');
+    END IF;
+    IF v_amount IS NULL OR v_amount <= 0 THEN
+      RETURN jsonb_build_object('error', '支払い額が不正です');
+    END IF;
+
+    v_state := jsonb_set(v_state, ARRAY[v_from, p_variable],
+      to_jsonb(COALESCE((v_state->v_from->>p_variable)::numeric, 0) - v_amount));
+    v_total := v_total + v_amount;
+
+    v_from_name := public._seat_display_name(v_room.seats, v_state, v_from);
+    IF v_details != '' THEN v_details := v_details || ', '; END IF;
+    v_details := v_details || v_from_name || ' ' || v_amount::text;
+    v_payments := v_payments || jsonb_build_array(jsonb_build_object(
+      'fromId', v_from, 'fromName', v_from_name, 'amount', v_amount));
+  END LOOP;
+
+  v_state := jsonb_set(v_state, ARRAY[p_winner_id, p_variable],
+    to_jsonb(COALESCE((v_state->p_winner_id->>p_variable)::numeric, 0) + v_total));
+
+  -- 供託（リーチ棒）の回収
+  IF p_collect_pot AND v_state ? '__pot__' THEN
+    FOR v_pot_var, v_pot_val IN
+      SELECT key, value::numeric FROM jsonb_each_text(v_state->'__pot__')
+    LOOP
+      IF v_pot_val > 0 THEN
+        v_pot := v_pot || jsonb_build_object(v_pot_var, v_pot_val);
+        IF v_pot_details != '' THEN v_pot_details := v_pot_details || ', '; END IF;
+        v_pot_details := v_pot_details
+          || public._get_variable_label(COALESCE(v_room.template->'variables', '[]'::jsonb), v_pot_var)
+          || ' ' || v_pot_val::text;
+      END IF;
+    END LOOP;
+
+    IF v_pot != '{}'::jsonb THEN
+      IF NOT public._has_permission(v_room, 'retrieve_pot') THEN
+        RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+      END IF;
+      FOR v_pot_var, v_pot_val IN SELECT key, value::numeric FROM jsonb_each_text(v_pot)
+      LOOP
+        v_state := jsonb_set(v_state, ARRAY['__pot__', v_pot_var], to_jsonb(0));
+        v_state := jsonb_set(v_state, ARRAY[p_winner_id, v_pot_var],
+          to_jsonb(COALESCE((v_state->p_winner_id->>v_pot_var)::numeric, 0) + v_pot_val));
+      END LOOP;
+    END IF;
+  END IF;
+
+  -- 履歴メッセージ（例: アガリ: Alice ← Bob 7700, 供託 点数 1000（ロン 4翻30符））
+  v_winner_name := public._seat_display_name(v_room.seats, v_state, p_winner_id);
+  v_win_type := COALESCE(p_detail->>'winType', CASE WHEN jsonb_array_length(p_payments) = 1 THEN 'ron' ELSE 'tsumo' END);
+  v_han := (p_detail->>'han')::int;
+  v_hand_label := CASE WHEN v_win_type = 'tsumo' THEN 'ツモ' ELSE 'ロン' END;
+  IF v_han IS NOT NULL THEN
+    v_hand_label := v_hand_label || ' ' || CASE
+      WHEN v_han >= 13 THEN '役満'
+      WHEN v_han >= 11 THEN '三倍満'
+      WHEN v_han >= 8 THEN '倍満'
+      WHEN v_han >= 6 THEN '跳満'
+      WHEN v_han >= 5 THEN '満貫'
+      ELSE v_han::text || '翻' || COALESCE(p_detail->>'fu', '') || '符'
+    END;
+  END IF;
+
+  v_msg := 'アガリ: ' || v_winner_name || ' ← ' || v_details;
+  IF v_pot_details != '' THEN
+    v_msg := v_msg || ', 供託 ' || v_pot_details;
+  END IF;
+  v_msg := v_msg || '（' || v_hand_label || '）';
+
+  -- 変数の制約（下限・上限・刻み・負の値）
+  v_constraint_error := public._check_variable_constraints(
+    v_room.template, v_room.current_state, v_state);
+  IF v_constraint_error IS NOT NULL THEN
+    RETURN jsonb_build_object('error', v_constraint_error);
+  END IF;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  -- 和了者が受け取った量（支払い + 供託）
+  v_transfers := jsonb_build_array(jsonb_build_object('variable', p_variable,
+    'amount', v_total + COALESCE((v_pot->>p_variable)::numeric, 0)));
+  FOR v_pot_var, v_pot_val IN SELECT key, value::numeric FROM jsonb_each_text(v_pot - p_variable)
+  LOOP
+    v_transfers := v_transfers || jsonb_build_array(jsonb_build_object(
+      'variable', v_pot_var, 'amount', v_pot_val));
+  END LOOP;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'win',
+    CASE WHEN v_win_type = 'ron' THEN p_payments->0->>'from' END,
+    p_winner_id, v_transfers,
+    jsonb_strip_nulls(jsonb_build_object(
+      'toName', v_winner_name,
+      'payments', v_payments,
+      'pot', NULLIF(v_pot, '{}'::jsonb),
+      'winType', v_win_type,
+      'han', p_detail->'han',
+      'fu', p_detail->'fu',
+      'honba', p_detail->'honba',
+      'isDealer', p_detail->'isDealer')));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_apply_draw: 流局のノーテン罰符を反映（transfer_score、ホストのみ）
+--   p_tenpai_ids : テンパイ者のユーザーID配列（JSONB）
+--   p_variable   : 支払う変数（デフォルト: score）
+--   p_total      : ノーテン罰符の総額（デフォルト: 3000）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_apply_draw(
+  p_room_id UUID,
+  p_tenpai_ids JSONB,
+  p_variable TEXT DEFAULT 'score',
+  p_total NUMERIC DEFAULT 3000
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_seat JSONB;
+  v_player_id TEXT;
+  v_player_ids TEXT[] := ARRAY[]::TEXT[];
+  v_tenpai_id TEXT;
+  v_tenpai_count INTEGER := 0;
+  v_noten_count INTEGER;
+  v_tenpai_amount NUMERIC;
+  v_noten_amount NUMERIC;
+  v_tenpai BOOLEAN;
+  v_amount NUMERIC;
+  v_name TEXT;
+  v_results JSONB := '[]'::jsonb;
+  v_tenpai_names TEXT := '';
+  v_noten_names TEXT := '';
+  v_msg TEXT;
+  v_constraint_error TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'transfer_score')
+    OR NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  IF jsonb_typeof(p_tenpai_ids) != 'array' OR p_total IS NULL OR p_total <= 0 THEN
+    RETURN jsonb_build_object('error', '支払いがありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_before := public._build_snapshot(v_state);
+
+  -- 着席中のプレイヤー（座席順）
+  FOR v_seat IN SELECT * FROM jsonb_array_elements(COALESCE(v_room.seats, '[]'::jsonb))
+  LOOP
+    v_player_id := v_seat->>'userId';
+    IF v_player_id IS NOT NULL AND v_state ? v_player_id THEN
+      v_player_ids := v_player_ids || v_player_id;
+    END IF;
+  END LOOP;
+
+  FOR v_tenpai_id IN SELECT jsonb_array_elements_text(p_tenpai_ids)
+  LOOP
+    IF NOT v_tenpai_id = ANY(v_player_ids) THEN
+      RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+    END IF;
+  END LOOP;
+
+  SELECT count(*) INTO v_tenpai_count
+  FROM unnest(v_player_ids) AS id
+  WHERE p_tenpai_ids ? id;
+  v_noten_count := array_length(v_player_ids, 1) - v_tenpai_count;
+
+  -- 全員テンパイ・全員ノーテンは収支なし
+  IF v_tenpai_count = 0 OR COALESCE(v_noten_count, 0) = 0 THEN
+    RETURN jsonb_build_object('error', '支払いがありません');
+  END IF;
+
+  -- 1人あたりの受け取り・支払い（割り切れる場合は小数部を付けない）
+  v_tenpai_amount := trim_scale(p_total / v_tenpai_count);
+  v_noten_amount := trim_scale(p_total / v_noten_count);
+
+  FOREACH v_player_id IN ARRAY v_player_ids
+  LOOP
+    v_tenpai := p_tenpai_ids ? v_player_id;
+    v_amount := CASE WHEN v_tenpai THEN v_tenpai_amount ELSE -v_noten_amount END;
+
+    v_state := jsonb_set(v_state, ARRAY[v_player_id, p_variable],
+      to_jsonb(COALESCE((v_state->v_player_id->>p_variable)::numeric, 0) + v_amount));
+
+    v_name := public._seat_display_name(v_room.seats, v_state, v_player_id);
+    IF v_tenpai THEN
+      IF v_tenpai_names != '' THEN v_tenpai_names := v_tenpai_names || ', '; END IF;
+      v_tenpai_names := v_tenpai_names || v_name;
+    ELSE
+      IF v_noten_names != '' THEN v_noten_names := v_noten_names || ', '; END IF;
+      v_noten_names := v_noten_names || v_name;
+    END IF;
+    v_results := v_results || jsonb_build_array(jsonb_build_object(
+      'playerId', v_player_id, 'name', v_name, 'tenpai', v_tenpai, 'amount', v_amount));
+  END LOOP;
+
+  -- 履歴メッセージ（例: 流局: テンパイ Alice, Bob +1500 / ノーテン Carol, Dave -1500）
+  v_msg := '流局: テンパイ ' || v_tenpai_names || ' +' || v_tenpai_amount::text
+    || ' / ノーテン ' || v_noten_names || ' -' || v_noten_amount::text;
+
+  -- 変数の制約（下限・上限・刻み・負の値）
+  v_constraint_error := public._check_variable_constraints(
+    v_room.template, v_room.current_state, v_state);
+  IF v_constraint_error IS NOT NULL THEN
+    RETURN jsonb_build_object('error', v_constraint_error);
+  END IF;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'draw', NULL, NULL, NULL,
+    jsonb_build_object('variable', p_variable, 'drawResults', v_results));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_transfer_multi: 複数のスコア移動を一括反映
+--   p_legs : [{from, to, transfers: [{variable, amount}, ...]}, ...]
+--   権限は移動ごとに rpc_transfer_score と同じ判定
+--     Pot → プレイヤー : retrieve_pot
+--     それ以外         : transfer_score（プレイヤー権限では自分からの移動のみ）
+--   1つでも不正な移動があれば何も反映しない
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_transfer_multi(
+  p_room_id UUID,
+  p_legs JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_leg JSONB;
+  v_from TEXT;
+  v_to TEXT;
+  v_transfer JSONB;
+  v_var TEXT;
+  v_amount NUMERIC;
+  v_from_name TEXT;
+  v_to_name TEXT;
+  v_details TEXT;
+  v_leg_transfers JSONB;
+  v_legs JSONB := '[]'::jsonb;
+  v_msg TEXT := '';
+  v_common_from TEXT;
+  v_common_to TEXT;
+  v_first BOOLEAN := TRUE;
+  v_constraint_error TEXT;
+BEGIN
+  -- 1. 行ロック取得
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF jsonb_typeof(p_legs) != 'array' OR jsonb_array_length(p_legs) = 0 THEN
+    RETURN jsonb_build_object('error', '移動がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_tpl_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+
+  -- 2. 操作前スナップショット
+  v_before := public._build_snapshot(v_state);
+
+  -- 3. 移動を順に反映
+  FOR v_leg IN SELECT * FROM jsonb_array_elements(p_legs)
+  LOOP
+    v_from := v_leg->>'from';
+    v_to := v_leg->>'to';
+
+    IF v_from IS NULL OR v_to IS NULL OR v_from = v_to THEN
+      RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+    END IF;
+
+    -- 権限チェック（rpc_transfer_score と同じ）
+    IF v_from = '__pot__' THEN
+      IF NOT public._has_permission(v_room, 'retrieve_pot') THEN
+        RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+      END IF;
+    ELSE
+      IF NOT public._has_permission(v_room, 'transfer_score') THEN
+        RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+      END IF;
+      IF NOT public._is_room_host(v_room) AND v_from IS DISTINCT FROM auth.uid()::text THEN
+        RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+      END IF;
+    END IF;
+
+    IF v_from != '__pot__' AND (NOT v_state ? v_from OR LEFT(v_from, 2) = '__') THEN
+      RETURN jsonb_build_object('error', '送信元プレイヤーが見つかりません');
+    END IF;
+    IF v_to != '__pot__' AND (NOT v_state ? v_to OR LEFT(v_to, 2) = '__') THEN
+      RETURN jsonb_build_object('error', '送信先プレイヤーが見つかりません');
+    END IF;
+
+    IF jsonb_typeof(v_leg->'transfers') != 'array' OR jsonb_array_length(v_leg->'transfers') = 0 THEN
+      RETURN jsonb_build_object('error', '移動量が不正です');
+    END IF;
+
+    -- __pot__ が存在しなければ初期化
+    IF v_to = '__pot__' AND NOT v_state ? '__pot__' THEN
+      v_state := jsonb_set(v_state, '{__pot__}', '{}'::jsonb);
+    END IF;
+
+    v_details := '';
+    v_leg_transfers := '[]'::jsonb;
+    FOR v_transfer IN SELECT * FROM jsonb_array_elements(v_leg->'transfers')
+    LOOP
+      v_var := v_transfer->>'variable';
+      v_amount := (v_transfer->>'amount')::numeric;
+
+      IF v_var IS NULL OR v_amount IS NULL OR v_amount <= 0 THEN
+        RETURN jsonb_build_object('error', '移動量が不正です');
+      END IF;
+      IF v_from = '__pot__' AND COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) < v_amount THEN
+        RETURN jsonb_build_object('error', '供託金が不足しています');
+      END IF;
+
+      v_state := jsonb_set(v_state, ARRAY[v_from, v_var],
+        to_jsonb(COALESCE((v_state->v_from->>v_var)::numeric, 0) - v_amount));
+      v_state := jsonb_set(v_state, ARRAY[v_to, v_var],
+        to_jsonb(COALESCE((v_state->v_to->>v_var)::numeric, 0) + v_amount));
+
+      IF v_details != '' THEN v_details := v_details || ', '; END IF;
+      v_details := v_details || public._get_variable_label(v_tpl_vars, v_var) || ' ' || v_amount::text;
+      v_leg_transfers := v_leg_transfers || jsonb_build_array(
+        jsonb_build_object('variable', v_var, 'amount', v_amount));
+    END LOOP;
+
+    v_from_name := CASE WHEN v_from = '__pot__' THEN '供託回収'
+      ELSE public._seat_display_name(v_room.seats, v_state, v_from) END;
+    v_to_name := CASE WHEN v_to = '__pot__' THEN '供託'
+      ELSE public._seat_display_name(v_room.seats, v_state, v_to) END;
+
+    IF v_msg != '' THEN v_msg := v_msg || ' / '; END IF;
+    v_msg := v_msg || v_from_name || ' → ' || v_to_name || ': ' || v_details;
+
+    v_legs := v_legs || jsonb_build_array(jsonb_build_object(
+      'fromId', v_from, 'fromName', v_from_name,
+      'toId', v_to, 'toName', v_to_name,
+      'transfers', v_leg_transfers));
+
+    -- 全移動で共通の移動元・移動先（履歴の from_id / to_id 用）
+    IF v_first THEN
+      v_common_from := v_from;
+      v_common_to := v_to;
+      v_first := FALSE;
+    ELSE
+      IF v_common_from IS DISTINCT FROM v_from THEN v_common_from := NULL; END IF;
+      IF v_common_to IS DISTINCT FROM v_to THEN v_common_to := NULL; END IF;
+    END IF;
+  END LOOP;
+
+  -- 変数の制約（下限・上限・刻み・負の値）
+  v_constraint_error := public._check_variable_constraints(
+    v_room.template, v_room.current_state, v_state);
+  IF v_constraint_error IS NOT NULL THEN
+    RETURN jsonb_build_object('error', v_constraint_error);
+  END IF;
+
+  -- 4. __recent_log__ 更新
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  -- 5. UPDATE rooms
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  -- 6. INSERT room_history（移動ごとの内訳は payload.legs）
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'multi_transfer', v_common_from, v_common_to, NULL,
+    jsonb_build_object('legs', v_legs));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_run_custom_action: テンプレートのカスタム操作を実行（transfer_score）
+--   p_action_id : customActions[].id
+--   p_actor_id  : 実行者のプレイヤーID
+--   プレイヤー権限では自分が実行者で、他の参加者から支払わせない操作のみ許可
+--   供託から受け取る行がある場合は retrieve_pot も必要
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_run_custom_action(
+  p_room_id UUID,
+  p_action_id TEXT,
+  p_actor_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_tpl_vars JSONB;
+  v_action JSONB;
+  v_leg JSONB;
+  v_from TEXT;
+  v_to TEXT;
+  v_var TEXT;
+  v_amount NUMERIC;
+  v_others TEXT[];
+  v_froms TEXT[];
+  v_tos TEXT[];
+  v_id TEXT;
+  v_deltas JSONB := '{}'::jsonb;
+  v_order TEXT[] := ARRAY[]::TEXT[];
+  v_delta_var TEXT;
+  v_delta NUMERIC;
+  v_name TEXT;
+  v_actor_name TEXT;
+  v_part TEXT;
+  v_details TEXT := '';
+  v_payload_deltas JSONB := '[]'::jsonb;
+  v_msg TEXT;
+  v_constraint_error TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'transfer_score') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  SELECT elem INTO v_action
+  FROM jsonb_array_elements(COALESCE(v_room.template->'customActions', '[]'::jsonb)) AS elem
+  WHERE elem->>'id' = p_action_id
+  LIMIT 1;
+
+  IF v_action IS NULL OR jsonb_typeof(v_action->'legs') IS DISTINCT FROM 'array'
+    OR jsonb_array_length(v_action->'legs') = 0 THEN
+    RETURN jsonb_build_object('error', '操作が見つかりません');
+  END IF;
+
+  -- プレイヤー権限では自分が実行者、かつ他の参加者から支払わせない操作のみ
+  IF NOT public._is_room_host(v_room) AND (
+    p_actor_id IS DISTINCT FROM auth.uid()::text
+    OR EXISTS (
+      SELECT 1 FROM jsonb_array_elements(v_action->'legs') AS leg
+      WHERE leg->>'from' = 'others'
+    )
+  ) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_tpl_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+
+  IF p_actor_id IS NULL OR NOT v_state ? p_actor_id OR LEFT(p_actor_id, 2) = '__' THEN
+    RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+
+  -- 実行者以外の参加者
+  v_others := ARRAY(
+    SELECT key FROM jsonb_object_keys(v_state) AS key
+    WHERE LEFT(key, 2) != '__' AND key != p_actor_id
+    ORDER BY key
+  );
+
+  -- 1. 定義を評価して参加者ごとの増減を集計
+  FOR v_leg IN SELECT * FROM jsonb_array_elements(v_action->'legs')
+  LOOP
+    v_from := v_leg->>'from';
+    v_to := v_leg->>'to';
+    v_var := v_leg->>'variable';
+    v_amount := (v_leg->>'amount')::numeric;
+
+    IF v_from NOT IN ('actor', 'others', 'pot', 'bank')
+      OR v_to NOT IN ('actor', 'others', 'pot', 'bank')
+      OR v_from = v_to
+      OR v_var IS NULL OR v_amount IS NULL OR v_amount <= 0 THEN
+      RETURN jsonb_build_object('error', '操作の定義が不正です');
+    END IF;
+
+    IF v_from = 'pot' AND NOT public._has_permission(v_room, 'retrieve_pot') THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+
+    v_froms := CASE v_from
+      WHEN 'actor' THEN ARRAY[p_actor_id]
+      WHEN 'others' THEN v_others
+      WHEN 'pot' THEN ARRAY['__pot__']
+      ELSE ARRAY[]::TEXT[] END;
+    v_tos := CASE v_to
+      WHEN 'actor' THEN ARRAY[p_actor_id]
+      WHEN 'others' THEN v_others
+      WHEN 'pot' THEN ARRAY['__pot__']
+      ELSE ARRAY[]::TEXT[] END;
+
+    -- 「他の全員」は1人ずつ移動する（他の全員 → 実行者 なら実行者は人数分受け取る）
+    FOREACH v_id IN ARRAY v_froms
+    LOOP
+      v_deltas := public._add_delta(v_deltas, v_id, v_var,
+        -v_amount * CASE WHEN v_to = 'others' THEN cardinality(v_tos) ELSE 1 END);
+      IF NOT v_id = ANY(v_order) THEN v_order := v_order || v_id; END IF;
+    END LOOP;
+    FOREACH v_id IN ARRAY v_tos
+    LOOP
+      v_deltas := public._add_delta(v_deltas, v_id, v_var,
+        v_amount * CASE WHEN v_from = 'others' THEN cardinality(v_froms) ELSE 1 END);
+      IF NOT v_id = ANY(v_order) THEN v_order := v_order || v_id; END IF;
+    END LOOP;
+  END LOOP;
+
+  -- 2. 増減を反映し、履歴用の内訳を組み立てる
+  v_actor_name := public._seat_display_name(v_room.seats, v_state, p_actor_id);
+
+  FOREACH v_id IN ARRAY v_order
+  LOOP
+    v_name := CASE WHEN v_id = '__pot__' THEN '供託'
+      ELSE public._seat_display_name(v_room.seats, v_state, v_id) END;
+    v_part := '';
+
+    IF v_id = '__pot__' AND NOT v_state ? '__pot__' THEN
+      v_state := jsonb_set(v_state, '{__pot__}', '{}'::jsonb);
+    END IF;
+
+    FOR v_delta_var, v_delta IN
+      SELECT key, value::numeric FROM jsonb_each_text(v_deltas->v_id)
+    LOOP
+      IF v_delta = 0 THEN CONTINUE; END IF;
+
+      IF v_id = '__pot__' AND COALESCE((v_state->'__pot__'->>v_delta_var)::numeric, 0) + v_delta < 0 THEN
+        RETURN jsonb_build_object('error', '供託金が不足しています');
+      END IF;
+
+      v_state := jsonb_set(v_state, ARRAY[v_id, v_delta_var],
+        to_jsonb(COALESCE((v_state->v_id->>v_delta_var)::numeric, 0) + v_delta));
+
+      IF v_part != '' THEN v_part := v_part || ', '; END IF;
+      v_part := v_part || public._get_variable_label(v_tpl_vars, v_delta_var) || ' '
+        || CASE WHEN v_delta > 0 THEN '+' ELSE '' END || v_delta::text;
+      v_payload_deltas := v_payload_deltas || jsonb_build_array(jsonb_build_object(
+        'id', v_id, 'name', v_name, 'variable', v_delta_var, 'amount', v_delta));
+    END LOOP;
+
+    IF v_part != '' THEN
+      IF v_details != '' THEN v_details := v_details || ' / '; END IF;
+      v_details := v_details || v_name || ' ' || v_part;
+    END IF;
+  END LOOP;
+
+  -- 履歴メッセージ（例: ボーナス（Alice）: Alice 点数 +1000 / Bob 点数 -500 / Carol 点数 -500）
+  v_msg := (v_action->>'label') || '（' || v_actor_name || '）';
+  IF v_details != '' THEN
+    v_msg := v_msg || ': ' || v_details;
+  END IF;
+
+  -- 変数の制約（下限・上限・刻み・負の値）
+  v_constraint_error := public._check_variable_constraints(
+    v_room.template, v_room.current_state, v_state);
+  IF v_constraint_error IS NOT NULL THEN
+    RETURN jsonb_build_object('error', v_constraint_error);
+  END IF;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'custom_action', NULL, p_actor_id, NULL,
+    jsonb_build_object(
+      'actionId', p_action_id,
+      'label', v_action->>'label',
+      'name', v_actor_name,
+      'deltas', v_payload_deltas));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_transfer_score(UUID, TEXT, TEXT, JSONB, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_force_edit_score(UUID, TEXT, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_apply_win(UUID, TEXT, JSONB, TEXT, BOOLEAN, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_apply_draw(UUID, JSONB, TEXT, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_transfer_multi(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_run_custom_action(UUID, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,176 @@
+-- ============================================
+-- サーバー側での切断タイムアウト
+-- これまでは接続中の全クライアントが切断者ごとに強制離席タイマーを持ち、
+-- forceLeaveTimeoutSec 経過後にそれぞれが rpc_force_leave_seat を呼んでいた。
+-- 同じ座席を複数のクライアントが取り合い、誰も接続していなければ座席が解放されなかった。
+--   room_presence         : ユーザーごとの最終応答時刻（rpc_heartbeat で更新）
+--   release_stale_seats() : 応答が途絶えた実ユーザーの座席を解放（pg_cron で1分ごと）
+-- 解放はルーム行をロックして行うため1回だけ行われ、履歴には
+-- event_type = 'force_leave_seat'（payload.reason = 'timeout'）として残る。
+-- ゲスト（isFake）は端末を持たないため対象外。
+-- ============================================
+
+
+-- --------------------------------------------
+-- 1. room_presence テーブル
+-- --------------------------------------------
+CREATE TABLE IF NOT EXISTS public.room_presence (
+  room_id UUID NOT NULL REFERENCES public.rooms(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL, -- 座席の userId と同じ形式
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (room_id, user_id)
+);
+
+-- ポリシーなし: 読み書きは SECURITY DEFINER の関数経由のみ
+ALTER TABLE public.room_presence ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.room_presence IS 'ルームごとのユーザーの最終応答時刻（切断タイムアウト判定用）';
+
+
+-- ============================================
+-- RPC 関数（1個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_heartbeat: 自分の最終応答時刻を更新
+--   ゲーム画面を開いている間、クライアントが定期的に呼ぶ
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_heartbeat(p_room_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_uid TEXT;
+BEGIN
+  v_uid := auth.uid()::text;
+  IF v_uid IS NULL THEN
+    RETURN jsonb_build_object('error', 'ユーザーが認証されていません');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.rooms WHERE id = p_room_id) THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  INSERT INTO public.room_presence (room_id, user_id, last_seen_at)
+  VALUES (p_room_id, v_uid, now())
+  ON CONFLICT (room_id, user_id) DO UPDATE SET last_seen_at = now();
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- ============================================
+-- 定期実行関数
+-- ============================================
+
+-- -----------------------------------------------
+-- release_stale_seats: 応答が forceLeaveTimeoutSec（既定 600 秒）途絶えた実ユーザーを離席
+--   応答記録の無い着席者は、この時点から計測を始める
+--   他の処理がロック中のルームは次回に回す
+--   戻り値: 解放した座席数
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.release_stale_seats()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_seat JSONB;
+  v_index INTEGER;
+  v_uid TEXT;
+  v_timeout INTEGER;
+  v_last_seen TIMESTAMP WITH TIME ZONE;
+  v_display_name TEXT;
+  v_msg TEXT;
+  v_changed BOOLEAN;
+  v_released INTEGER := 0;
+BEGIN
+  FOR v_room IN
+    SELECT * FROM public.rooms r
+    WHERE EXISTS (
+      SELECT 1 FROM jsonb_array_elements(COALESCE(r.seats, '[]'::jsonb)) AS s
+      WHERE jsonb_typeof(s) = 'object' AND NOT COALESCE((s->>'isFake')::boolean, false)
+    )
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_seats := v_room.seats;
+    v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+    v_timeout := COALESCE((v_room.template->>'forceLeaveTimeoutSec')::integer, 600);
+    v_changed := false;
+
+    FOR v_index IN 0 .. jsonb_array_length(v_seats) - 1
+    LOOP
+      v_seat := v_seats->v_index;
+      CONTINUE WHEN jsonb_typeof(v_seat) IS DISTINCT FROM 'object'
+        OR COALESCE((v_seat->>'isFake')::boolean, false);
+      v_uid := v_seat->>'userId';
+
+      SELECT last_seen_at INTO v_last_seen
+      FROM public.room_presence
+      WHERE room_id = v_room.id AND user_id = v_uid;
+
+      IF v_last_seen IS NULL THEN
+        INSERT INTO public.room_presence (room_id, user_id)
+        VALUES (v_room.id, v_uid)
+        ON CONFLICT (room_id, user_id) DO NOTHING;
+        CONTINUE;
+      END IF;
+
+      CONTINUE WHEN v_last_seen >= now() - make_interval(secs => v_timeout);
+
+      v_before := public._build_snapshot(v_state);
+      v_display_name := public._seat_display_name(v_seats, v_state, v_uid);
+      v_msg := '切断により離席: ' || v_display_name;
+
+      v_seats := jsonb_set(v_seats, ARRAY[v_index::text], 'null'::jsonb);
+      v_state := public._push_recent_log(v_state, v_msg);
+      v_changed := true;
+      v_released := v_released + 1;
+
+      -- 再着席時に古い時刻で即座に解放されないよう記録を消す
+      DELETE FROM public.room_presence
+      WHERE room_id = v_room.id AND user_id = v_uid;
+
+      PERFORM public._insert_history(v_room.id, v_msg, v_before,
+        'force_leave_seat', NULL, v_uid, NULL,
+        jsonb_build_object('name', v_display_name, 'reason', 'timeout'));
+    END LOOP;
+
+    IF v_changed THEN
+      UPDATE public.rooms
+      SET seats = v_seats, current_state = v_state
+      WHERE id = v_room.id;
+    END IF;
+  END LOOP;
+
+  RETURN v_released;
+END;
+$$;
+
+
+-- --------------------------------------------
+-- pg_cron: 1分ごとに release_stale_seats を実行
+-- --------------------------------------------
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'release-stale-seats',
+  '* * * * *',
+  'SELECT public.release_stale_seats()'
+);
+
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_heartbeat(UUID) TO authenticated;
+
+-- release_stale_seats はスケジューラ（と service_role）専用
+REVOKE EXECUTE ON FUNCTION public.release_stale_seats() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.release_stale_seats() TO service_role;
@@ -0,0 +1,223 @@
+-- ============================================
+-- クライアントの操作IDを返す（楽観的更新の照合用）
+-- スコア移動はこれまで RPC の応答と Realtime の更新を待ってから画面に反映していた。
+-- クライアントが移動を先に画面へ反映し、どの更新で確定したかを照合できるよう、
+-- rpc_transfer_score がクライアントの操作ID（p_client_op_id）を受け取り、
+--   __recent_log__ のエントリ : clientOpId
+--   戻り値                     : {success: true, clientOpId}
+-- として返す。Realtime の UPDATE には current_state が含まれるため、
+-- クライアントは直近ログに自分の操作IDが現れた時点で楽観的な反映を取り除く。
+-- ============================================
+
+
+-- ============================================
+-- ヘルパー関数（内部用）
+-- ============================================
+
+-- 1. _push_recent_log: エントリに clientOpId を追加して再定義
+--   引数が増えるため DROP してから作成する（既存 RPC の2引数の呼び出しはデフォルト値で動く）
+DROP FUNCTION IF EXISTS public._push_recent_log(JSONB, TEXT);
+
+CREATE OR REPLACE FUNCTION public._push_recent_log(
+  state JSONB,
+  msg TEXT,
+  client_op_id TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  log_arr JSONB;
+  new_entry JSONB;
+BEGIN
+  log_arr := COALESCE(state->'__recent_log__', '[]'::jsonb);
+  new_entry := jsonb_strip_nulls(jsonb_build_object(
+    'id', gen_random_uuid()::text,
+    'timestamp', (EXTRACT(EPOCH FROM now()) * 1000)::bigint,
+    'message', msg,
+    'actorId', auth.uid()::text,
+    'actorName', public._actor_display_name(state),
+    'clientOpId', client_op_id
+  ));
+  log_arr := log_arr || jsonb_build_array(new_entry);
+  -- 最大5件を保持
+  IF jsonb_array_length(log_arr) > 5 THEN
+    log_arr := (
+      SELECT jsonb_agg(elem)
+      FROM (
+        SELECT elem
+        FROM jsonb_array_elements(log_arr) AS elem
+        ORDER BY (elem->>'timestamp')::bigint ASC
+        OFFSET (jsonb_array_length(log_arr) - 5)
+      ) sub
+    );
+  END IF;
+  RETURN jsonb_set(state, '{__recent_log__}', log_arr);
+END;
+$$;
+
+
+-- ============================================
+-- RPC 関数（1個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_transfer_score: スコア移動（Pot対応、残高チェック）
+--   Pot → プレイヤー : retrieve_pot
+--   それ以外         : transfer_score
+--   プレイヤー権限では自分（または Pot）からの移動のみ許可
+--   p_client_op_id: クライアントの操作ID（__recent_log__ のエントリと戻り値に含めて返す）
+-- -----------------------------------------------
+-- 引数が増えるため DROP してから作成する（6引数の呼び出しはデフォルト値で引き続き動く）
+DROP FUNCTION IF EXISTS public.rpc_transfer_score(UUID, TEXT, TEXT, JSONB, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.rpc_transfer_score(
+  p_room_id UUID,
+  p_from_id TEXT,
+  p_to_id TEXT,
+  p_transfers JSONB,   -- [{variable, amount}, ...]
+  p_from_name TEXT DEFAULT NULL,
+  p_to_name TEXT DEFAULT NULL,
+  p_client_op_id TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_template JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_transfer JSONB;
+  v_var TEXT;
+  v_amount NUMERIC;
+  v_from_val NUMERIC;
+  v_to_val NUMERIC;
+  v_display_from TEXT;
+  v_display_to TEXT;
+  v_details TEXT := '';
+  v_label TEXT;
+  v_msg TEXT;
+  v_transfers JSONB := '[]'::jsonb;
+  v_constraint_error TEXT;
+BEGIN
+  -- 1. 行ロック取得
+  SELECT * INTO v_room
+  FROM public.rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 2. 権限チェック
+  IF p_from_id = '__pot__' THEN
+    IF NOT public._has_permission(v_room, 'retrieve_pot') THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+  ELSE
+    IF NOT public._has_permission(v_room, 'transfer_score') THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+    -- プレイヤー権限では他人のスコアを動かせない
+    IF NOT public._is_room_host(v_room) AND p_from_id IS DISTINCT FROM auth.uid()::text THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+  END IF;
+
+  v_state := v_room.current_state;
+  v_template := v_room.template;
+  v_tpl_vars := COALESCE(v_template->'variables', '[]'::jsonb);
+
+  -- 3. 操作前スナップショット
+  v_before := public._build_snapshot(v_state);
+
+  -- 4. transfers を順に処理
+  FOR v_transfer IN SELECT * FROM jsonb_array_elements(p_transfers)
+  LOOP
+    v_var := v_transfer->>'variable';
+    v_amount := (v_transfer->>'amount')::numeric;
+
+    IF p_from_id = '__pot__' THEN
+      -- Pot → プレイヤー
+      IF COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) < v_amount THEN
+        RETURN jsonb_build_object('error', '供託金が不足しています');
+      END IF;
+      v_state := jsonb_set(v_state, ARRAY['__pot__', v_var],
+        to_jsonb(COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) - v_amount));
+      IF NOT v_state ? p_to_id THEN
+        RETURN jsonb_build_object('error', '送信先プレイヤーが見つかりません');
+      END IF;
+      v_state := jsonb_set(v_state, ARRAY[p_to_id, v_var],
+        to_jsonb(COALESCE((v_state->p_to_id->>v_var)::numeric, 0) + v_amount));
+
+    ELSIF p_to_id = '__pot__' THEN
+      -- プレイヤー → Pot
+      IF NOT v_state ? p_from_id THEN
+        RETURN jsonb_build_object('error', '送信元プレイヤーが見つかりません');
+      END IF;
+      v_from_val := COALESCE((v_state->p_from_id->>v_var)::numeric, 0);
+      v_state := jsonb_set(v_state, ARRAY[p_from_id, v_var], to_jsonb(v_from_val - v_amount));
+      -- __pot__ が存在しなければ初期化
+      IF NOT v_state ? '__pot__' THEN
+        v_state := jsonb_set(v_state, '{__pot__}', '{}'::jsonb);
+      END IF;
+      v_state := jsonb_set(v_state, ARRAY['__pot__', v_var],
+        to_jsonb(COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) + v_amount));
+
+    ELSE
+      -- プレイヤー間
+      IF NOT v_state ? p_from_id OR NOT v_state ? p_to_id THEN
+        RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+      END IF;
+      v_from_val := COALESCE((v_state->p_from_id->>v_var)::numeric, 0);
+      v_state := jsonb_set(v_state, ARRAY[p_from_id, v_var], to_jsonb(v_from_val - v_amount));
+      v_state := jsonb_set(v_state, ARRAY[p_to_id, v_var],
+        to_jsonb(COALESCE((v_state->p_to_id->>v_var)::numeric, 0) + v_amount));
+    END IF;
+
+    -- ラベル取得
+    v_label := public._get_variable_label(v_tpl_vars, v_var);
+    IF v_details != '' THEN v_details := v_details || ', '; END IF;
+    v_details := v_details || v_label || ' ' || v_amount::text;
+    v_transfers := v_transfers || jsonb_build_array(
+      jsonb_build_object('variable', v_var, 'amount', v_amount));
+  END LOOP;
+
+  -- 5. 履歴メッセージ
+  v_display_from := COALESCE(p_from_name,
+    CASE WHEN p_from_id = '__pot__' THEN '供託回収' ELSE left(p_from_id, 8) END);
+  v_display_to := COALESCE(p_to_name,
+    CASE WHEN p_to_id = '__pot__' THEN '供託' ELSE left(p_to_id, 8) END);
+  v_msg := v_display_from || ' → ' || v_display_to || ': ' || v_details;
+
+  -- 変数の制約（下限・上限・刻み・負の値）
+  v_constraint_error := public._check_variable_constraints(
+    v_room.template, v_room.current_state, v_state);
+  IF v_constraint_error IS NOT NULL THEN
+    RETURN jsonb_build_object('error', v_constraint_error);
+  END IF;
+
+  -- 6. __recent_log__ 更新
+  v_state := public._push_recent_log(v_state, v_msg, p_client_op_id);
+
+  -- 7. UPDATE rooms
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  -- 8. INSERT room_history（構造化イベント付き）
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'transfer', p_from_id, p_to_id, v_transfers,
+    jsonb_strip_nulls(jsonb_build_object('fromName', p_from_name, 'toName', p_to_name)));
+
+  RETURN jsonb_strip_nulls(jsonb_build_object('success', true, 'clientOpId', p_client_op_id));
+END;
+$$;
+
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_transfer_score(UUID, TEXT, TEXT, JSONB, TEXT, TEXT, TEXT) TO authenticated;
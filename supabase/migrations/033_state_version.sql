@@ -0,0 +1,2921 @@
+-- ============================================
+-- ルーム状態のバージョン管理と楽観的排他（compare-and-swap）
+-- これまで競合を検出できたのは rpc_update_counter（p_expected_value）だけで、
+-- Realtime の更新が前後して届いても、どちらが新しいかをクライアントが判断できなかった。
+--   rooms.state_version : ルーム行が更新されるたびに 1 ずつ増える（トリガーで付与）
+--   p_expected_version  : ルームを更新する全 RPC の省略可能な引数。
+--                         現在のバージョンと異なれば何も変更せず
+--                         {error, code: 'state_version_conflict'} を返す
+-- トリガーで増やすため、今後追加する RPC や定期処理（release_stale_seats）も対象になる。
+-- 各 RPC は既存の定義に、行ロック直後のバージョン確認を追加して再定義する
+-- （引数が増えるため DROP してから作成し、既存の呼び出しはデフォルト値で引き続き動く）。
+-- ============================================
+
+
+-- --------------------------------------------
+-- 1. rooms に state_version を追加
+-- --------------------------------------------
+ALTER TABLE public.rooms
+  ADD COLUMN IF NOT EXISTS state_version BIGINT NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.rooms.state_version IS 'ルーム状態のバージョン（更新ごとに増加、楽観的排他・Realtime の順序判定用）';
+
+
+-- --------------------------------------------
+-- 2. 更新のたびに state_version を増やすトリガー
+--   クライアントや RPC が指定した値は無視し、常に直前の値 + 1 にする
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.bump_room_state_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.state_version := OLD.state_version + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS rooms_bump_state_version ON public.rooms;
+CREATE TRIGGER rooms_bump_state_version
+  BEFORE UPDATE ON public.rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_room_state_version();
+
+
+-- ============================================
+-- ヘルパー関数（内部用）
+-- ============================================
+
+-- 1. _state_version_conflict: バージョン競合時の戻り値
+CREATE OR REPLACE FUNCTION public._state_version_conflict()
+RETURNS JSONB
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+BEGIN
+  RETURN public._seat_error('state_version_conflict',
+    '他の操作で状態が更新されました。最新の状態でやり直してください');
+END;
+$$;
+
+
+-- ============================================
+-- RPC 関数（29個）: 既存の定義にバージョン確認を追加
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_advance_round: 局結果から局を進める（edit_counter）
+--   p_result        : dealer_win / draw / non_dealer_win
+--   p_dealer_tenpai : 流局時に親がテンパイか（false なら親流れ）
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_advance_round(UUID, TEXT, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.rpc_advance_round(
+  p_room_id UUID,
+  p_result TEXT,
+  p_dealer_tenpai BOOLEAN DEFAULT TRUE,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_round JSONB;
+  v_next JSONB;
+  v_seat_count INTEGER;
+  v_winds TEXT[] := ARRAY['east', 'south', 'west', 'north'];
+  v_wind_index INTEGER;
+  v_hand INTEGER;
+  v_honba INTEGER;
+  v_dealer INTEGER;
+  v_result_label TEXT;
+  v_msg TEXT;
+BEGIN
+  IF p_result NOT IN ('dealer_win', 'draw', 'non_dealer_win') THEN
+    RETURN jsonb_build_object('error', '不正な局結果です');
+  END IF;
+
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'edit_counter') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_before := public._build_snapshot(v_state);
+  v_round := COALESCE(v_state->'__round__', public._initial_round(0));
+  v_seat_count := GREATEST(COALESCE(jsonb_array_length(v_room.seats), 4), 1);
+
+  v_wind_index := COALESCE(array_position(v_winds, v_round->>'wind'), 1);
+  v_hand := COALESCE((v_round->>'hand')::int, 1);
+  v_honba := COALESCE((v_round->>'honba')::int, 0);
+  v_dealer := COALESCE((v_round->>'dealerSeat')::int, 0);
+
+  IF p_result = 'dealer_win' OR (p_result = 'draw' AND p_dealer_tenpai) THEN
+    -- 連荘
+    v_honba := v_honba + 1;
+  ELSE
+    -- 親流れ
+    v_honba := CASE WHEN p_result = 'draw' THEN v_honba + 1 ELSE 0 END;
+    v_dealer := (v_dealer + 1) % v_seat_count;
+    v_hand := v_hand + 1;
+    IF v_hand > v_seat_count THEN
+      v_hand := 1;
+      v_wind_index := v_wind_index % 4 + 1;
+    END IF;
+  END IF;
+
+  v_next := jsonb_build_object(
+    'wind', v_winds[v_wind_index],
+    'hand', v_hand,
+    'honba', v_honba,
+    'dealerSeat', v_dealer,
+    'startSeat', COALESCE((v_round->>'startSeat')::int, 0)
+  );
+
+  v_result_label := CASE p_result
+    WHEN 'dealer_win' THEN '親のアガリ'
+    WHEN 'non_dealer_win' THEN '子のアガリ'
+    WHEN 'draw' THEN CASE WHEN p_dealer_tenpai THEN '流局・親テンパイ' ELSE '流局・親ノーテン' END
+  END;
+  v_msg := '局進行: ' || public._format_round(v_next) || '（' || v_result_label || '）';
+
+  v_state := jsonb_set(v_state, '{__round__}', v_next);
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'round', NULL, NULL, NULL,
+    jsonb_strip_nulls(jsonb_build_object(
+      'roundResult', p_result,
+      'dealerTenpai', CASE WHEN p_result = 'draw' THEN to_jsonb(p_dealer_tenpai) END,
+      'round', v_next)));
+
+  RETURN jsonb_build_object('success', true, 'round', v_next);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_apply_draw: 流局のノーテン罰符を反映（transfer_score、ホストのみ）
+--   p_tenpai_ids : テンパイ者のユーザーID配列（JSONB）
+--   p_variable   : 支払う変数（デフォルト: score）
+--   p_total      : ノーテン罰符の総額（デフォルト: 3000）
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_apply_draw(UUID, JSONB, TEXT, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.rpc_apply_draw(
+  p_room_id UUID,
+  p_tenpai_ids JSONB,
+  p_variable TEXT DEFAULT 'score',
+  p_total NUMERIC DEFAULT 3000,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_seat JSONB;
+  v_player_id TEXT;
+  v_player_ids TEXT[] := ARRAY[]::TEXT[];
+  v_tenpai_id TEXT;
+  v_tenpai_count INTEGER := 0;
+  v_noten_count INTEGER;
+  v_tenpai_amount NUMERIC;
+  v_noten_amount NUMERIC;
+  v_tenpai BOOLEAN;
+  v_amount NUMERIC;
+  v_name TEXT;
+  v_results JSONB := '[]'::jsonb;
+  v_tenpai_names TEXT := '';
+  v_noten_names TEXT := '';
+  v_msg TEXT;
+  v_constraint_error TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'transfer_score')
+    OR NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  IF jsonb_typeof(p_tenpai_ids) != 'array' OR p_total IS NULL OR p_total <= 0 THEN
+    RETURN jsonb_build_object('error', '支払いがありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_before := public._build_snapshot(v_state);
+
+  -- 着席中のプレイヤー（座席順）
+  FOR v_seat IN SELECT * FROM jsonb_array_elements(COALESCE(v_room.seats, '[]'::jsonb))
+  LOOP
+    v_player_id := v_seat->>'userId';
+    IF v_player_id IS NOT NULL AND v_state ? v_player_id THEN
+      v_player_ids := v_player_ids || v_player_id;
+    END IF;
+  END LOOP;
+
+  FOR v_tenpai_id IN SELECT jsonb_array_elements_text(p_tenpai_ids)
+  LOOP
+    IF NOT v_tenpai_id = ANY(v_player_ids) THEN
+      RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+    END IF;
+  END LOOP;
+
+  SELECT count(*) INTO v_tenpai_count
+  FROM unnest(v_player_ids) AS id
+  WHERE p_tenpai_ids ? id;
+  v_noten_count := array_length(v_player_ids, 1) - v_tenpai_count;
+
+  -- 全員テンパイ・全員ノーテンは収支なし
+  IF v_tenpai_count = 0 OR COALESCE(v_noten_count, 0) = 0 THEN
+    RETURN jsonb_build_object('error', '支払いがありません');
+  END IF;
+
+  -- 1人あたりの受け取り・支払い（割り切れる場合は小数部を付けない）
+  v_tenpai_amount := trim_scale(p_total / v_tenpai_count);
+  v_noten_amount := trim_scale(p_total / v_noten_count);
+
+  FOREACH v_player_id IN ARRAY v_player_ids
+  LOOP
+    v_tenpai := p_tenpai_ids ? v_player_id;
+    v_amount := CASE WHEN v_tenpai THEN v_tenpai_amount ELSE -v_noten_amount END;
+
+    v_state := jsonb_set(v_state, ARRAY[v_player_id, p_variable],
+      to_jsonb(COALESCE((v_state->v_player_id->>p_variable)::numeric, 0) + v_amount));
+
+    v_name := public._seat_display_name(v_room.seats, v_state, v_player_id);
+    IF v_tenpai THEN
+      IF v_tenpai_names != '' THEN v_tenpai_names := v_tenpai_names || ', '; END IF;
+      v_tenpai_names := v_tenpai_names || v_name;
+    ELSE
+      IF v_noten_names != '' THEN v_noten_names := v_noten_names || ', '; END IF;
+      v_noten_names := v_noten_names || v_name;
+    END IF;
+    v_results := v_results || jsonb_build_array(jsonb_build_object(
+      'playerId', v_player_id, 'name', v_name, 'tenpai', v_tenpai, 'amount', v_amount));
+  END LOOP;
+
+  -- 履歴メッセージ（例: 流局: テンパイ Alice, Bob +1500 / ノーテン Carol, Dave -1500）
+  v_msg := '流局: テンパイ ' || v_tenpai_names || ' +' || v_tenpai_amount::text
+    || ' / ノーテン ' || v_noten_names || ' -' || v_noten_amount::text;
+
+  -- 変数の制約（下限・上限・刻み・負の値）
+  v_constraint_error := public._check_variable_constraints(
+    v_room.template, v_room.current_state, v_state);
+  IF v_constraint_error IS NOT NULL THEN
+    RETURN jsonb_build_object('error', v_constraint_error);
+  END IF;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'draw', NULL, NULL, NULL,
+    jsonb_build_object('variable', p_variable, 'drawResults', v_results));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_apply_win: 和了の支払いを反映（transfer_score）
+--   p_payments    : [{from, amount}, ...] 支払い者ごとの支払い
+--   p_variable    : 支払う変数（デフォルト: score）
+--   p_collect_pot : 供託を和了者が受け取るか（retrieve_pot）
+--   p_detail      : {winType, han, fu, honba, isDealer} 履歴表示用
+--   プレイヤー権限では自分が放銃したロン（支払い者が自分1人）のみ許可
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_apply_win(UUID, TEXT, JSONB, TEXT, BOOLEAN, JSONB);
+
+CREATE OR REPLACE FUNCTION public.rpc_apply_win(
+  p_room_id UUID,
+  p_winner_id TEXT,
+  p_payments JSONB,
+  p_variable TEXT DEFAULT 'score',
+  p_collect_pot BOOLEAN DEFAULT TRUE,
+  p_detail JSONB DEFAULT '{}'::jsonb,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_payment JSONB;
+  v_from TEXT;
+  v_amount NUMERIC;
+  v_total NUMERIC := 0;
+  v_from_name TEXT;
+  v_winner_name TEXT;
+  v_details TEXT := '';
+  v_payments JSONB := '[]'::jsonb;
+  v_pot JSONB := '{}'::jsonb;
+  v_pot_details TEXT := '';
+  v_pot_var TEXT;
+  v_pot_val NUMERIC;
+  v_win_type TEXT;
+  v_han INTEGER;
+  v_hand_label TEXT;
+  v_msg TEXT;
+  v_transfers JSONB;
+  v_constraint_error TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'transfer_score') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  IF jsonb_typeof(p_payments) != 'array' OR jsonb_array_length(p_payments) = 0 THEN
+    RETURN jsonb_build_object('error', '支払いがありません');
+  END IF;
+
+  -- プレイヤー権限では他人のスコアを動かせない
+  IF NOT public._is_room_host(v_room) AND (
+    jsonb_array_length(p_payments) != 1
+    OR p_payments->0->>'from' IS DISTINCT FROM auth.uid()::text
+  ) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_before := public._build_snapshot(v_state);
+
+  IF NOT v_state ? p_winner_id OR LEFT(p_winner_id, 2) = '__' THEN
+    RETURN jsonb_build_object('error', '和了者が見つかりません');
+  END IF;
+
+  -- 支払いを順に反映
+  FOR v_payment IN SELECT * FROM jsonb_array_elements(p_payments)
+  LOOP
+    v_from := v_payment->>'from';
+    v_amount := (v_payment->>'amount')::numeric;
+
+    IF v_from IS NULL OR NOT v_state ? v_from OR LEFT(v_from, 2) = '__'
+      OR v_from = p_winner_id THEN
+      RETURN jsonb_build_object('error', '支払い者が見つかりません');
+    END IF;
+    IF v_amount IS NULL OR v_amount <= 0 THEN
+      RETURN jsonb_build_object('error', '支払い額が不正です');
+    END IF;
+
+    v_state := jsonb_set(v_state, ARRAY[v_from, p_variable],
+      to_jsonb(COALESCE((v_state->v_from->>p_variable)::numeric, 0) - v_amount));
+    v_total := v_total + v_amount;
+
+    v_from_name := public._seat_display_name(v_room.seats, v_state, v_from);
+    IF v_details != '' THEN v_details := v_details || ', '; END IF;
+    v_details := v_details || v_from_name || ' ' || v_amount::text;
+    v_payments := v_payments || jsonb_build_array(jsonb_build_object(
+      'fromId', v_from, 'fromName', v_from_name, 'amount', v_amount));
+  END LOOP;
+
+  v_state := jsonb_set(v_state, ARRAY[p_winner_id, p_variable],
+    to_jsonb(COALESCE((v_state->p_winner_id->>p_variable)::numeric, 0) + v_total));
+
+  -- 供託（リーチ棒）の回収
+  IF p_collect_pot AND v_state ? '__pot__' THEN
+    FOR v_pot_var, v_pot_val IN
+      SELECT key, value::numeric FROM jsonb_each_text(v_state->'__pot__')
+    LOOP
+      IF v_pot_val > 0 THEN
+        v_pot := v_pot || jsonb_build_object(v_pot_var, v_pot_val);
+        IF v_pot_details != '' THEN v_pot_details := v_pot_details || ', '; END IF;
+        v_pot_details := v_pot_details
+          || public._get_variable_label(COALESCE(v_room.template->'variables', '[]'::jsonb), v_pot_var)
+          || ' ' || v_pot_val::text;
+      END IF;
+    END LOOP;
+
+    IF v_pot != '{}'::jsonb THEN
+      IF NOT public._has_permission(v_room, 'retrieve_pot') THEN
+        RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+      END IF;
+      FOR v_pot_var, v_pot_val IN SELECT key, value::numeric FROM jsonb_each_text(v_pot)
+      LOOP
+        v_state := jsonb_set(v_state, ARRAY['__pot__', v_pot_var], to_jsonb(0));
+        v_state := jsonb_set(v_state, ARRAY[p_winner_id, v_pot_var],
+          to_jsonb(COALESCE((v_state->p_winner_id->>v_pot_var)::numeric, 0) + v_pot_val));
+      END LOOP;
+    END IF;
+  END IF;
+
+  -- 履歴メッセージ（例: アガリ: Alice ← Bob 7700, 供託 点数 1000（ロン 4翻30符））
+  v_winner_name := public._seat_display_name(v_room.seats, v_state, p_winner_id);
+  v_win_type := COALESCE(p_detail->>'winType', CASE WHEN jsonb_array_length(p_payments) = 1 THEN 'ron' ELSE 'tsumo' END);
+  v_han := (p_detail->>'han')::int;
+  v_hand_label := CASE WHEN v_win_type = 'tsumo' THEN 'ツモ' ELSE 'ロン' END;
+  IF v_han IS NOT NULL THEN
+    v_hand_label := v_hand_label || ' ' || CASE
+      WHEN v_han >= 13 THEN '役満'
+      WHEN v_han >= 11 THEN '三倍満'
+      WHEN v_han >= 8 THEN '倍満'
+      WHEN v_han >= 6 THEN '跳満'
+      WHEN v_han >= 5 THEN '満貫'
+      ELSE v_han::text || '翻' || COALESCE(p_detail->>'fu', '') || '符'
+    END;
+  END IF;
+
+  v_msg := 'アガリ: ' || v_winner_name || ' ← ' || v_details;
+  IF v_pot_details != '' THEN
+    v_msg := v_msg || ', 供託 ' || v_pot_details;
+  END IF;
+  v_msg := v_msg || '（' || v_hand_label || '）';
+
+  -- 変数の制約（下限・上限・刻み・負の値）
+  v_constraint_error := public._check_variable_constraints(
+    v_room.template, v_room.current_state, v_state);
+  IF v_constraint_error IS NOT NULL THEN
+    RETURN jsonb_build_object('error', v_constraint_error);
+  END IF;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  -- 和了者が受け取った量（支払い + 供託）
+  v_transfers := jsonb_build_array(jsonb_build_object('variable', p_variable,
+    'amount', v_total + COALESCE((v_pot->>p_variable)::numeric, 0)));
+  FOR v_pot_var, v_pot_val IN SELECT key, value::numeric FROM jsonb_each_text(v_pot - p_variable)
+  LOOP
+    v_transfers := v_transfers || jsonb_build_array(jsonb_build_object(
+      'variable', v_pot_var, 'amount', v_pot_val));
+  END LOOP;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'win',
+    CASE WHEN v_win_type = 'ron' THEN p_payments->0->>'from' END,
+    p_winner_id, v_transfers,
+    jsonb_strip_nulls(jsonb_build_object(
+      'toName', v_winner_name,
+      'payments', v_payments,
+      'pot', NULLIF(v_pot, '{}'::jsonb),
+      'winType', v_win_type,
+      'han', p_detail->'han',
+      'fu', p_detail->'fu',
+      'honba', p_detail->'honba',
+      'isDealer', p_detail->'isDealer')));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_force_edit_score: 指定変数の上書き（force_edit）
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_force_edit_score(UUID, TEXT, JSONB, TEXT);
+
+CREATE OR REPLACE FUNCTION public.rpc_force_edit_score(
+  p_room_id UUID,
+  p_player_id TEXT,
+  p_updates JSONB,      -- {"score": 30000, ...}
+  p_display_name TEXT DEFAULT NULL,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_key TEXT;
+  v_val NUMERIC;
+  v_label TEXT;
+  v_details TEXT := '';
+  v_msg TEXT;
+  v_name TEXT;
+  v_values JSONB := '{}'::jsonb;
+  v_constraint_error TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'force_edit') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+
+  IF NOT v_state ? p_player_id THEN
+    RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+  END IF;
+
+  v_tpl_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+  v_before := public._build_snapshot(v_state);
+
+  -- 値を上書き
+  FOR v_key, v_val IN SELECT * FROM jsonb_each_text(p_updates)
+  LOOP
+    v_state := jsonb_set(v_state, ARRAY[p_player_id, v_key], to_jsonb(v_val::numeric));
+    v_label := public._get_variable_label(v_tpl_vars, v_key);
+    IF v_details != '' THEN v_details := v_details || ', '; END IF;
+    v_details := v_details || v_label || ': ' || v_val;
+    v_values := v_values || jsonb_build_object(v_key, v_val);
+  END LOOP;
+
+  v_name := COALESCE(p_display_name, left(p_player_id, 8));
+  v_msg := '強制編集: ' || v_name || ' - ' || v_details;
+
+  -- 変数の制約（下限・上限・刻み・負の値）
+  v_constraint_error := public._check_variable_constraints(
+    v_room.template, v_room.current_state, v_state);
+  IF v_constraint_error IS NOT NULL THEN
+    RETURN jsonb_build_object('error', v_constraint_error);
+  END IF;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'force_edit', NULL, p_player_id, NULL,
+    jsonb_build_object('name', v_name, 'values', v_values));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_force_leave_seat: 指定ユーザーを座席から強制離席（タイムアウト・ホスト操作用）
+--   冪等: 既に離席済みなら履歴を残さず成功を返す
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_force_leave_seat(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.rpc_force_leave_seat(
+  p_room_id UUID,
+  p_target_user_id TEXT,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_index INTEGER;
+  v_display_name TEXT;
+  v_msg TEXT;
+BEGIN
+  IF auth.uid() IS NULL AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RETURN public._seat_error('unauthenticated', 'ユーザーが認証されていません');
+  END IF;
+
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  v_index := public._find_seat_index(v_seats, p_target_user_id);
+  IF v_index < 0 THEN
+    RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+  v_display_name := public._seat_display_name(v_seats, v_state, p_target_user_id);
+  v_msg := '強制離席: ' || v_display_name;
+
+  v_seats := jsonb_set(v_seats, ARRAY[v_index::text], 'null'::jsonb);
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'force_leave_seat', NULL, p_target_user_id, NULL,
+    jsonb_build_object('name', v_display_name));
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_import_game_record: 作成直後のルームにゲーム記録を書き込む（ホスト専用）
+--   元のユーザーIDから架空ユーザーへの付け替えはクライアント側で済ませておく
+--   精算行は新しいIDで作成し、元の日時（timestamp, ms）を引き継ぐ
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_import_game_record(UUID, JSONB, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION public.rpc_import_game_record(
+  p_room_id UUID,
+  p_seats JSONB,           -- (SeatInfo | null)[]
+  p_current_state JSONB,   -- GameState
+  p_settlements JSONB,     -- [{type, timestamp, playerResults}, ...]
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_settlement JSONB;
+  v_seat JSONB;
+  v_count INTEGER := 0;
+  v_msg TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'ホストのみがゲーム記録をインポートできます');
+  END IF;
+
+  -- 既存のゲームを上書きしないよう、作成直後のルームに限定
+  IF COALESCE(v_room.current_state, '{}'::jsonb) != '{}'::jsonb
+     OR EXISTS (SELECT 1 FROM public.room_settlements WHERE room_id = p_room_id)
+     OR EXISTS (
+       SELECT 1 FROM jsonb_array_elements(COALESCE(v_room.seats, '[]'::jsonb)) AS seat
+       WHERE seat != 'null'::jsonb
+     ) THEN
+    RETURN jsonb_build_object('error', 'インポートは作成直後のルームにのみ実行できます');
+  END IF;
+
+  IF jsonb_typeof(p_seats) IS DISTINCT FROM 'array'
+     OR jsonb_array_length(p_seats) < 2
+     OR jsonb_array_length(p_seats) > 12 THEN
+    RETURN jsonb_build_object('error', '座席情報が不正です');
+  END IF;
+
+  FOR v_seat IN SELECT * FROM jsonb_array_elements(p_seats)
+  LOOP
+    IF v_seat != 'null'::jsonb
+       AND (jsonb_typeof(v_seat) != 'object'
+            OR jsonb_typeof(v_seat->'userId') IS DISTINCT FROM 'string') THEN
+      RETURN jsonb_build_object('error', '座席情報が不正です');
+    END IF;
+  END LOOP;
+
+  IF jsonb_typeof(p_current_state) IS DISTINCT FROM 'object' THEN
+    RETURN jsonb_build_object('error', 'スコア情報が不正です');
+  END IF;
+
+  IF jsonb_typeof(p_settlements) IS DISTINCT FROM 'array' THEN
+    RETURN jsonb_build_object('error', '精算履歴が不正です');
+  END IF;
+
+  FOR v_settlement IN SELECT * FROM jsonb_array_elements(p_settlements)
+  LOOP
+    IF COALESCE(v_settlement->>'type', '') NOT IN ('settlement', 'adjustment')
+       OR jsonb_typeof(v_settlement->'timestamp') IS DISTINCT FROM 'number'
+       OR jsonb_typeof(v_settlement->'playerResults') IS DISTINCT FROM 'object' THEN
+      RETURN jsonb_build_object('error', '精算履歴が不正です');
+    END IF;
+  END LOOP;
+
+  v_before := public._build_snapshot(COALESCE(v_room.current_state, '{}'::jsonb));
+
+  -- 精算行（元の日時順を維持）
+  FOR v_settlement IN SELECT * FROM jsonb_array_elements(p_settlements)
+  LOOP
+    INSERT INTO public.room_settlements (room_id, type, player_results, created_at)
+    VALUES (
+      p_room_id,
+      v_settlement->>'type',
+      v_settlement->'playerResults',
+      to_timestamp((v_settlement->>'timestamp')::numeric / 1000)
+    );
+    IF v_settlement->>'type' = 'settlement' THEN
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  v_msg := 'ゲーム記録をインポート（精算 ' || v_count || ' 回）';
+  v_state := public._push_recent_log(p_current_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = p_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'import', NULL, NULL, NULL,
+    jsonb_build_object('settlementCount', v_count));
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_join_fake_seat: 架空ユーザー（ゲスト）を作成して着席させる（ホスト専用）
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_join_fake_seat(UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.rpc_join_fake_seat(
+  p_room_id UUID,
+  p_seat_index INTEGER,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_fake_id TEXT;
+  v_display_name TEXT;
+  v_candidate TEXT;
+  v_letter TEXT;
+  v_used TEXT[];
+  v_msg TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN public._seat_error('not_host', 'ホストのみが架空ユーザーを作成できます');
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  IF p_seat_index < 0 OR p_seat_index >= jsonb_array_length(v_seats) THEN
+    RETURN public._seat_error('invalid_seat', '無効な座席インデックスです');
+  END IF;
+
+  IF v_seats->p_seat_index != 'null'::jsonb THEN
+    RETURN public._seat_error('seat_taken', 'この座席は既に使用されています');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+
+  -- 架空ユーザーIDを生成（一意）
+  v_fake_id := 'fake_' || (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::bigint::text
+    || '_' || substr(md5(random()::text), 1, 4);
+
+  -- 使用中の名前（seats + current_state に残っているゲスト）と衝突しない名前を選ぶ
+  SELECT array_agg(name) INTO v_used
+  FROM (
+    SELECT seat->>'displayName' AS name
+    FROM jsonb_array_elements(v_seats) AS seat
+    WHERE seat != 'null'::jsonb
+    UNION
+    SELECT value->>'__displayName__'
+    FROM jsonb_each(v_state)
+    WHERE key LIKE 'fake\_%'
+  ) names
+  WHERE name IS NOT NULL;
+
+  v_display_name := 'プレイヤーA';
+  FOREACH v_letter IN ARRAY ARRAY['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H',
+                                  'I', 'J', 'K', 'L', 'M', 'N', 'O', 'P']
+  LOOP
+    v_candidate := 'プレイヤー' || v_letter;
+    IF v_used IS NULL OR NOT v_candidate = ANY(v_used) THEN
+      v_display_name := v_candidate;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  v_seats := jsonb_set(v_seats, ARRAY[p_seat_index::text], jsonb_build_object(
+    'userId', v_fake_id,
+    'status', 'active',
+    'displayName', v_display_name,
+    'isFake', true
+  ));
+  v_state := jsonb_set(v_state, ARRAY[v_fake_id],
+    public._initial_player_state(v_room.template->'variables')
+      || jsonb_build_object('__displayName__', v_display_name));
+
+  v_msg := 'ゲスト着席: ' || v_display_name;
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'join_fake_seat', NULL, v_fake_id, NULL,
+    jsonb_build_object('name', v_display_name));
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_join_game: 呼び出しユーザーをプレイヤーとして追加（リストモード用）
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_join_game(UUID);
+
+CREATE OR REPLACE FUNCTION public.rpc_join_game(
+  p_room_id UUID,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_uid TEXT;
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+BEGIN
+  v_uid := auth.uid()::text;
+  IF v_uid IS NULL THEN
+    RETURN jsonb_build_object('error', 'ユーザーが認証されていません');
+  END IF;
+
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF v_room.status = 'finished' THEN
+    RETURN jsonb_build_object('error', 'このルームは既に終了しています');
+  END IF;
+
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+  IF v_state ? v_uid THEN
+    RETURN jsonb_build_object('error', '既にゲームに参加しています');
+  END IF;
+
+  v_state := jsonb_set(v_state, ARRAY[v_uid],
+    public._initial_player_state(v_room.template->'variables'));
+
+  UPDATE public.rooms
+  SET current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  UPDATE public.profiles SET current_room_id = p_room_id WHERE id = auth.uid();
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_join_seat: 呼び出しユーザーを指定座席に着席させる
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_join_seat(UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.rpc_join_seat(
+  p_room_id UUID,
+  p_seat_index INTEGER,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_uid TEXT;
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_display_name TEXT;
+  v_msg TEXT;
+BEGIN
+  v_uid := auth.uid()::text;
+  IF v_uid IS NULL THEN
+    RETURN public._seat_error('unauthenticated', 'ユーザーが認証されていません');
+  END IF;
+
+  -- 1. 行ロック取得
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  -- 2. 座席の検証
+  IF p_seat_index < 0 OR p_seat_index >= jsonb_array_length(v_seats) THEN
+    RETURN public._seat_error('invalid_seat', '無効な座席インデックスです');
+  END IF;
+
+  IF public._find_seat_index(v_seats, v_uid) >= 0 THEN
+    RETURN public._seat_error('already_seated', '既に座席に着席しています');
+  END IF;
+
+  IF v_seats->p_seat_index != 'null'::jsonb THEN
+    RETURN public._seat_error('seat_taken', 'この座席は既に使用されています');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+
+  -- 3. 表示名（profiles）を取得して着席
+  SELECT display_name INTO v_display_name
+  FROM public.profiles WHERE id = auth.uid();
+
+  v_seats := jsonb_set(v_seats, ARRAY[p_seat_index::text], jsonb_strip_nulls(
+    jsonb_build_object('userId', v_uid, 'status', 'active', 'displayName', v_display_name)
+  ));
+
+  -- 4. 初回着席ならテンプレート初期値を設定
+  IF NOT v_state ? v_uid THEN
+    v_state := jsonb_set(v_state, ARRAY[v_uid],
+      public._initial_player_state(v_room.template->'variables'));
+  END IF;
+  -- displayName を保存（離席後も名前を表示するため）
+  IF v_display_name IS NOT NULL THEN
+    v_state := jsonb_set(v_state, ARRAY[v_uid, '__displayName__'], to_jsonb(v_display_name));
+  END IF;
+
+  v_msg := '着席: ' || COALESCE(v_display_name, left(v_uid, 8));
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'join_seat', NULL, v_uid, NULL,
+    jsonb_build_object('name', COALESCE(v_display_name, left(v_uid, 8))));
+
+  -- 5. プロファイルの current_room_id を更新
+  UPDATE public.profiles SET current_room_id = p_room_id WHERE id = auth.uid();
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_leave_game: 呼び出しユーザーのプレイヤーデータを current_state から削除
+--   座席は変更しない。参加していなければ何もせず成功を返す（冪等）
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_leave_game(UUID);
+
+CREATE OR REPLACE FUNCTION public.rpc_leave_game(
+  p_room_id UUID,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_uid TEXT;
+  v_room public.rooms%ROWTYPE;
+BEGIN
+  v_uid := auth.uid()::text;
+  IF v_uid IS NULL THEN
+    RETURN jsonb_build_object('error', 'ユーザーが認証されていません');
+  END IF;
+
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF COALESCE(v_room.current_state, '{}'::jsonb) ? v_uid THEN
+    UPDATE public.rooms
+    SET current_state = current_state - v_uid
+    WHERE id = p_room_id;
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_leave_seat: 呼び出しユーザーを座席から離席させる
+--   current_state のスコアは保持する
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_leave_seat(UUID);
+
+CREATE OR REPLACE FUNCTION public.rpc_leave_seat(
+  p_room_id UUID,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_uid TEXT;
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_index INTEGER;
+  v_display_name TEXT;
+  v_msg TEXT;
+BEGIN
+  v_uid := auth.uid()::text;
+  IF v_uid IS NULL THEN
+    RETURN public._seat_error('unauthenticated', 'ユーザーが認証されていません');
+  END IF;
+
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  v_index := public._find_seat_index(v_seats, v_uid);
+  IF v_index < 0 THEN
+    RETURN public._seat_error('not_seated', '座席に着席していません');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+  v_display_name := public._seat_display_name(v_seats, v_state, v_uid);
+  v_msg := '離席: ' || v_display_name;
+
+  v_seats := jsonb_set(v_seats, ARRAY[v_index::text], 'null'::jsonb);
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'leave_seat', NULL, v_uid, NULL,
+    jsonb_build_object('name', v_display_name));
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_redo: 最も古い取り消し済みエントリ（Redo スタックの先頭）をやり直す
+--   取り消し直前の状態を復元し、削除した精算行を戻す
+--   rpc_undo_last と同じくホスト・コホストのみ許可
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_redo(UUID);
+
+CREATE OR REPLACE FUNCTION public.rpc_redo(
+  p_room_id UUID,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_entry RECORD;
+  v_restored JSONB;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+
+  -- Undo は新しい順に取り消すため、やり直しは古い順
+  SELECT * INTO v_entry
+  FROM public.room_history
+  WHERE room_id = p_room_id AND redo_state IS NOT NULL
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'やり直せる操作がありません');
+  END IF;
+
+  v_restored := public._ensure_seated_players(
+    v_entry.redo_state->'snapshot',
+    COALESCE(v_room.seats, '[]'::jsonb),
+    COALESCE(v_room.template->'variables', '[]'::jsonb),
+    v_state
+  );
+
+  IF v_entry.event_type = 'rollback' THEN
+    -- ロールバックをもう一度適用する
+    DELETE FROM public.room_settlements
+    WHERE id IN (
+      SELECT (elem->>'id')::uuid
+      FROM jsonb_array_elements(
+        COALESCE(v_entry.payload->'removedSettlements', '[]'::jsonb)
+      ) AS elem
+    );
+
+    UPDATE public.room_history
+    SET reverted_at = now()
+    WHERE reverted_by = v_entry.id;
+  ELSE
+    INSERT INTO public.room_settlements
+    SELECT * FROM jsonb_populate_recordset(
+      NULL::public.room_settlements,
+      COALESCE(v_entry.redo_state->'settlements', '[]'::jsonb)
+    );
+  END IF;
+
+  UPDATE public.room_history
+  SET reverted_at = NULL, redo_state = NULL
+  WHERE id = v_entry.id;
+
+  -- __recent_log__: やり直した操作メッセージを再追加
+  v_restored := jsonb_set(v_restored, '{__recent_log__}',
+    COALESCE(v_state->'__recent_log__', '[]'::jsonb));
+  v_restored := public._push_recent_log(v_restored, v_entry.message);
+
+  UPDATE public.rooms SET current_state = v_restored WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_remove_fake_player: ゲストを座席と current_state から削除（ホスト専用）
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_remove_fake_player(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.rpc_remove_fake_player(
+  p_room_id UUID,
+  p_fake_user_id TEXT,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_index INTEGER;
+  v_display_name TEXT;
+  v_msg TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN public._seat_error('not_host', 'ホストのみがゲストを操作できます');
+  END IF;
+
+  -- 実ユーザーのスコアを消せないよう fake_ プレフィックスのみ許可
+  IF LEFT(p_fake_user_id, 5) != 'fake_' THEN
+    RETURN public._seat_error('guest_not_found', '指定されたゲストが見つかりません');
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  v_index := public._find_seat_index(v_seats, p_fake_user_id);
+  IF v_index < 0 AND NOT v_state ? p_fake_user_id THEN
+    RETURN public._seat_error('guest_not_found', '指定されたゲストが見つかりません');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+  v_display_name := public._seat_display_name(v_seats, v_state, p_fake_user_id);
+  v_msg := 'ゲスト削除: ' || v_display_name;
+
+  IF v_index >= 0 THEN
+    v_seats := jsonb_set(v_seats, ARRAY[v_index::text], 'null'::jsonb);
+  END IF;
+  v_state := v_state - p_fake_user_id;
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'remove_fake_player', NULL, p_fake_user_id, NULL,
+    jsonb_build_object('name', v_display_name));
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_rename_fake_player: ゲストの表示名を変更（ホスト・コホスト）
+--   seats[i].displayName と current_state[id].__displayName__ を両方更新
+--   存在しないゲストは何もせず成功を返す（冪等）
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_rename_fake_player(UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.rpc_rename_fake_player(
+  p_room_id UUID,
+  p_fake_user_id TEXT,
+  p_new_name TEXT,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_index INTEGER;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'ホストのみがゲストを操作できます');
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  v_index := public._find_seat_index(v_seats, p_fake_user_id);
+  IF v_index >= 0 THEN
+    v_seats := jsonb_set(v_seats, ARRAY[v_index::text, 'displayName'], to_jsonb(p_new_name));
+  END IF;
+
+  IF v_state ? p_fake_user_id THEN
+    v_state := jsonb_set(v_state, ARRAY[p_fake_user_id, '__displayName__'], to_jsonb(p_new_name));
+  END IF;
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_reseat_fake_player: 離席済みゲストを指定座席に再着席（ホスト専用）
+--   current_state は変更しない
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_reseat_fake_player(UUID, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.rpc_reseat_fake_player(
+  p_room_id UUID,
+  p_fake_user_id TEXT,
+  p_seat_index INTEGER,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_display_name TEXT;
+  v_msg TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN public._seat_error('not_host', 'ホストのみがゲストを操作できます');
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  IF p_seat_index < 0 OR p_seat_index >= jsonb_array_length(v_seats) THEN
+    RETURN public._seat_error('invalid_seat', '無効な座席インデックスです');
+  END IF;
+
+  IF v_seats->p_seat_index != 'null'::jsonb THEN
+    RETURN public._seat_error('seat_taken', 'この座席は既に使用されています');
+  END IF;
+
+  IF LEFT(p_fake_user_id, 5) != 'fake_' OR NOT v_state ? p_fake_user_id THEN
+    RETURN public._seat_error('guest_not_found', '指定されたゲストが見つかりません');
+  END IF;
+
+  IF public._find_seat_index(v_seats, p_fake_user_id) >= 0 THEN
+    RETURN public._seat_error('already_seated', 'このゲストは既に着席しています');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+  v_display_name := COALESCE(v_state->p_fake_user_id->>'__displayName__', p_fake_user_id);
+
+  v_seats := jsonb_set(v_seats, ARRAY[p_seat_index::text], jsonb_build_object(
+    'userId', p_fake_user_id,
+    'status', 'active',
+    'displayName', v_display_name,
+    'isFake', true
+  ));
+
+  v_msg := 'ゲスト着席: ' || v_display_name;
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'reseat_fake_player', NULL, p_fake_user_id, NULL,
+    jsonb_build_object('name', v_display_name));
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_reset_round: 起家を指定して東1局 0本場に戻す（edit_counter）
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_reset_round(UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.rpc_reset_round(
+  p_room_id UUID,
+  p_start_seat INTEGER,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_next JSONB;
+  v_start_id TEXT;
+  v_start_name TEXT;
+  v_msg TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'edit_counter') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  IF p_start_seat < 0 OR p_start_seat >= COALESCE(jsonb_array_length(v_room.seats), 0) THEN
+    RETURN jsonb_build_object('error', '無効な座席番号です');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_before := public._build_snapshot(v_state);
+  v_next := public._initial_round(p_start_seat);
+
+  v_start_id := v_room.seats->p_start_seat->>'userId';
+  IF v_start_id IS NOT NULL THEN
+    v_start_name := public._seat_display_name(v_room.seats, v_state, v_start_id);
+  END IF;
+
+  v_msg := '局リセット: ' || public._format_round(v_next)
+    || COALESCE('（起家: ' || v_start_name || '）', '');
+
+  v_state := jsonb_set(v_state, '{__round__}', v_next);
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'round', NULL, v_start_id, NULL,
+    jsonb_strip_nulls(jsonb_build_object('name', v_start_name, 'round', v_next)));
+
+  RETURN jsonb_build_object('success', true, 'round', v_next);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_reset_scores: 全プレイヤーの変数を初期値にリセット（reset_scores）
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_reset_scores(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.rpc_reset_scores(
+  p_room_id UUID,
+  p_variable_keys JSONB,  -- ["score", "riichi"]
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_var_key TEXT;
+  v_initial NUMERIC;
+  v_player_id TEXT;
+  v_labels TEXT := '';
+  v_label TEXT;
+  v_msg TEXT;
+  v_var JSONB;
+  v_reset_keys JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'reset_scores') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_tpl_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+  v_before := public._build_snapshot(v_state);
+
+  -- 各変数キーについて処理
+  FOR v_var_key IN SELECT * FROM jsonb_array_elements_text(p_variable_keys)
+  LOOP
+    -- テンプレートから初期値を取得
+    v_initial := NULL;
+    FOR v_var IN SELECT * FROM jsonb_array_elements(v_tpl_vars)
+    LOOP
+      IF v_var->>'key' = v_var_key THEN
+        v_initial := (v_var->>'initial')::numeric;
+        EXIT;
+      END IF;
+    END LOOP;
+
+    IF v_initial IS NULL THEN CONTINUE; END IF;
+
+    -- 全プレイヤーをリセット
+    FOR v_player_id IN SELECT jsonb_object_keys(v_state)
+    LOOP
+      IF LEFT(v_player_id, 2) != '__' THEN
+        IF v_state->v_player_id ? v_var_key THEN
+          v_state := jsonb_set(v_state, ARRAY[v_player_id, v_var_key], to_jsonb(v_initial));
+        END IF;
+      END IF;
+    END LOOP;
+
+    -- Pot リセット
+    IF v_state ? '__pot__' AND v_state->'__pot__' ? v_var_key THEN
+      v_state := jsonb_set(v_state, ARRAY['__pot__', v_var_key], to_jsonb(0));
+    END IF;
+
+    -- ラベル収集
+    v_label := public._get_variable_label(v_tpl_vars, v_var_key);
+    IF v_labels != '' THEN v_labels := v_labels || ', '; END IF;
+    v_labels := v_labels || v_label;
+    v_reset_keys := v_reset_keys || to_jsonb(v_var_key);
+  END LOOP;
+
+  v_msg := 'リセット: ' || v_labels;
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'reset', NULL, NULL, NULL,
+    jsonb_build_object('variables', v_reset_keys));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_rollback_to: 指定エントリの snapshot を復元し、それ以降を取り消し済みにする
+--   履歴は削除しない。削除した精算行は payload.removedSettlements に保存する
+--   rpc_undo_last と同じくホスト・コホストのみ許可
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_rollback_to(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.rpc_rollback_to(
+  p_room_id UUID,
+  p_history_id UUID,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_entry RECORD;
+  v_restored JSONB;
+  v_before JSONB;
+  v_msg TEXT;
+  v_removed JSONB;
+  v_rollback_id UUID;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+
+  -- 対象エントリ取得（取り消し済みの行には戻せない）
+  SELECT * INTO v_entry
+  FROM public.room_history
+  WHERE id = p_history_id AND room_id = p_room_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', '指定された履歴が見つかりません');
+  END IF;
+
+  IF v_entry.reverted_at IS NOT NULL THEN
+    RETURN jsonb_build_object('error', '取り消し済みの履歴にはロールバックできません');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+
+  -- snapshot を復元
+  v_restored := public._ensure_seated_players(
+    v_entry.snapshot,
+    COALESCE(v_room.seats, '[]'::jsonb),
+    COALESCE(v_room.template->'variables', '[]'::jsonb),
+    v_state
+  );
+
+  v_msg := 'ロールバック (' || to_char(v_entry.created_at AT TIME ZONE 'Asia/Tokyo', 'HH24:MI:SS') || ')';
+
+  -- 対象エントリ以降の精算レコードを削除（ロールバックの取り消し用に保存）
+  SELECT COALESCE(jsonb_agg(to_jsonb(s)), '[]'::jsonb) INTO v_removed
+  FROM public.room_settlements s
+  WHERE room_id = p_room_id AND created_at >= v_entry.created_at;
+
+  DELETE FROM public.room_settlements
+  WHERE room_id = p_room_id AND created_at >= v_entry.created_at;
+
+  -- ロールバック操作自体を履歴に追加
+  v_rollback_id := public._insert_history(p_room_id, v_msg, v_before,
+    'rollback', NULL, NULL, NULL,
+    jsonb_build_object(
+      'targetCreatedAt', v_entry.created_at,
+      'removedSettlements', v_removed
+    ));
+
+  -- 対象エントリ以降の有効な履歴を取り消し済みにする
+  UPDATE public.room_history
+  SET reverted_at = now(), reverted_by = v_rollback_id
+  WHERE room_id = p_room_id
+    AND created_at >= v_entry.created_at
+    AND reverted_at IS NULL
+    AND id != v_rollback_id;
+
+  -- __recent_log__ 更新
+  v_restored := public._push_recent_log(v_restored, v_msg);
+
+  UPDATE public.rooms SET current_state = v_restored WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_run_custom_action: テンプレートのカスタム操作を実行（transfer_score）
+--   p_action_id : customActions[].id
+--   p_actor_id  : 実行者のプレイヤーID
+--   プレイヤー権限では自分が実行者で、他の参加者から支払わせない操作のみ許可
+--   供託から受け取る行がある場合は retrieve_pot も必要
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_run_custom_action(UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.rpc_run_custom_action(
+  p_room_id UUID,
+  p_action_id TEXT,
+  p_actor_id TEXT,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_tpl_vars JSONB;
+  v_action JSONB;
+  v_leg JSONB;
+  v_from TEXT;
+  v_to TEXT;
+  v_var TEXT;
+  v_amount NUMERIC;
+  v_others TEXT[];
+  v_froms TEXT[];
+  v_tos TEXT[];
+  v_id TEXT;
+  v_deltas JSONB := '{}'::jsonb;
+  v_order TEXT[] := ARRAY[]::TEXT[];
+  v_delta_var TEXT;
+  v_delta NUMERIC;
+  v_name TEXT;
+  v_actor_name TEXT;
+  v_part TEXT;
+  v_details TEXT := '';
+  v_payload_deltas JSONB := '[]'::jsonb;
+  v_msg TEXT;
+  v_constraint_error TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'transfer_score') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  SELECT elem INTO v_action
+  FROM jsonb_array_elements(COALESCE(v_room.template->'customActions', '[]'::jsonb)) AS elem
+  WHERE elem->>'id' = p_action_id
+  LIMIT 1;
+
+  IF v_action IS NULL OR jsonb_typeof(v_action->'legs') IS DISTINCT FROM 'array'
+    OR jsonb_array_length(v_action->'legs') = 0 THEN
+    RETURN jsonb_build_object('error', '操作が見つかりません');
+  END IF;
+
+  -- プレイヤー権限では自分が実行者、かつ他の参加者から支払わせない操作のみ
+  IF NOT public._is_room_host(v_room) AND (
+    p_actor_id IS DISTINCT FROM auth.uid()::text
+    OR EXISTS (
+      SELECT 1 FROM jsonb_array_elements(v_action->'legs') AS leg
+      WHERE leg->>'from' = 'others'
+    )
+  ) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_tpl_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+
+  IF p_actor_id IS NULL OR NOT v_state ? p_actor_id OR LEFT(p_actor_id, 2) = '__' THEN
+    RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+
+  -- 実行者以外の参加者
+  v_others := ARRAY(
+    SELECT key FROM jsonb_object_keys(v_state) AS key
+    WHERE LEFT(key, 2) != '__' AND key != p_actor_id
+    ORDER BY key
+  );
+
+  -- 1. 定義を評価して参加者ごとの増減を集計
+  FOR v_leg IN SELECT * FROM jsonb_array_elements(v_action->'legs')
+  LOOP
+    v_from := v_leg->>'from';
+    v_to := v_leg->>'to';
+    v_var := v_leg->>'variable';
+    v_amount := (v_leg->>'amount')::numeric;
+
+    IF v_from NOT IN ('actor', 'others', 'pot', 'bank')
+      OR v_to NOT IN ('actor', 'others', 'pot', 'bank')
+      OR v_from = v_to
+      OR v_var IS NULL OR v_amount IS NULL OR v_amount <= 0 THEN
+      RETURN jsonb_build_object('error', '操作の定義が不正です');
+    END IF;
+
+    IF v_from = 'pot' AND NOT public._has_permission(v_room, 'retrieve_pot') THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+
+    v_froms := CASE v_from
+      WHEN 'actor' THEN ARRAY[p_actor_id]
+      WHEN 'others' THEN v_others
+      WHEN 'pot' THEN ARRAY['__pot__']
+      ELSE ARRAY[]::TEXT[] END;
+    v_tos := CASE v_to
+      WHEN 'actor' THEN ARRAY[p_actor_id]
+      WHEN 'others' THEN v_others
+      WHEN 'pot' THEN ARRAY['__pot__']
+      ELSE ARRAY[]::TEXT[] END;
+
+    -- 「他の全員」は1人ずつ移動する（他の全員 → 実行者 なら実行者は人数分受け取る）
+    FOREACH v_id IN ARRAY v_froms
+    LOOP
+      v_deltas := public._add_delta(v_deltas, v_id, v_var,
+        -v_amount * CASE WHEN v_to = 'others' THEN cardinality(v_tos) ELSE 1 END);
+      IF NOT v_id = ANY(v_order) THEN v_order := v_order || v_id; END IF;
+    END LOOP;
+    FOREACH v_id IN ARRAY v_tos
+    LOOP
+      v_deltas := public._add_delta(v_deltas, v_id, v_var,
+        v_amount * CASE WHEN v_from = 'others' THEN cardinality(v_froms) ELSE 1 END);
+      IF NOT v_id = ANY(v_order) THEN v_order := v_order || v_id; END IF;
+    END LOOP;
+  END LOOP;
+
+  -- 2. 増減を反映し、履歴用の内訳を組み立てる
+  v_actor_name := public._seat_display_name(v_room.seats, v_state, p_actor_id);
+
+  FOREACH v_id IN ARRAY v_order
+  LOOP
+    v_name := CASE WHEN v_id = '__pot__' THEN '供託'
+      ELSE public._seat_display_name(v_room.seats, v_state, v_id) END;
+    v_part := '';
+
+    IF v_id = '__pot__' AND NOT v_state ? '__pot__' THEN
+      v_state := jsonb_set(v_state, '{__pot__}', '{}'::jsonb);
+    END IF;
+
+    FOR v_delta_var, v_delta IN
+      SELECT key, value::numeric FROM jsonb_each_text(v_deltas->v_id)
+    LOOP
+      IF v_delta = 0 THEN CONTINUE; END IF;
+
+      IF v_id = '__pot__' AND COALESCE((v_state->'__pot__'->>v_delta_var)::numeric, 0) + v_delta < 0 THEN
+        RETURN jsonb_build_object('error', '供託金が不足しています');
+      END IF;
+
+      v_state := jsonb_set(v_state, ARRAY[v_id, v_delta_var],
+        to_jsonb(COALESCE((v_state->v_id->>v_delta_var)::numeric, 0) + v_delta));
+
+      IF v_part != '' THEN v_part := v_part || ', '; END IF;
+      v_part := v_part || public._get_variable_label(v_tpl_vars, v_delta_var) || ' '
+        || CASE WHEN v_delta > 0 THEN '+' ELSE '' END || v_delta::text;
+      v_payload_deltas := v_payload_deltas || jsonb_build_array(jsonb_build_object(
+        'id', v_id, 'name', v_name, 'variable', v_delta_var, 'amount', v_delta));
+    END LOOP;
+
+    IF v_part != '' THEN
+      IF v_details != '' THEN v_details := v_details || ' / '; END IF;
+      v_details := v_details || v_name || ' ' || v_part;
+    END IF;
+  END LOOP;
+
+  -- 履歴メッセージ（例: ボーナス（Alice）: Alice 点数 +1000 / Bob 点数 -500 / Carol 点数 -500）
+  v_msg := (v_action->>'label') || '（' || v_actor_name || '）';
+  IF v_details != '' THEN
+    v_msg := v_msg || ': ' || v_details;
+  END IF;
+
+  -- 変数の制約（下限・上限・刻み・負の値）
+  v_constraint_error := public._check_variable_constraints(
+    v_room.template, v_room.current_state, v_state);
+  IF v_constraint_error IS NOT NULL THEN
+    RETURN jsonb_build_object('error', v_constraint_error);
+  END IF;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'custom_action', NULL, p_actor_id, NULL,
+    jsonb_build_object(
+      'actionId', p_action_id,
+      'label', v_action->>'label',
+      'name', v_actor_name,
+      'deltas', v_payload_deltas));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_save_adjustment: 調整行保存（スコア変更なし、finalize_game）
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_save_adjustment(UUID, UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.rpc_save_adjustment(
+  p_room_id UUID,
+  p_settlement_id UUID,
+  p_player_results JSONB,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_msg TEXT;
+  v_summary TEXT := '';
+  v_pr JSONB;
+  v_uid TEXT;
+  v_results JSONB := '{}'::jsonb;
+  v_result NUMERIC;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'finalize_game') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_before := public._build_snapshot(v_state);
+
+  -- 調整サマリメッセージ（result != 0 のみ）
+  FOR v_uid, v_pr IN SELECT * FROM jsonb_each(p_player_results)
+  LOOP
+    v_result := (v_pr->>'result')::numeric;
+    IF v_result != 0 THEN
+      IF v_summary != '' THEN v_summary := v_summary || ', '; END IF;
+      v_summary := v_summary || (v_pr->>'displayName') || ': ';
+      IF v_result >= 0 THEN
+        v_summary := v_summary || '+';
+      END IF;
+      v_summary := v_summary || round(v_result, 1)::text;
+      v_results := v_results || jsonb_build_object(v_uid, jsonb_build_object(
+        'displayName', v_pr->'displayName', 'result', v_result));
+    END IF;
+  END LOOP;
+  v_msg := '調整: ' || v_summary;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  INSERT INTO public.room_settlements (id, room_id, type, player_results)
+  VALUES (p_settlement_id, p_room_id, 'adjustment', p_player_results);
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'adjustment', NULL, NULL, NULL,
+    jsonb_build_object('settlementId', p_settlement_id, 'results', v_results));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_save_settlement: 精算対象が計算変数なら、計算式が参照する変数をリセット
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_save_settlement(UUID, UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.rpc_save_settlement(
+  p_room_id UUID,
+  p_settlement_id UUID,
+  p_player_results JSONB,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_var_key TEXT;
+  v_initial NUMERIC;
+  v_computed JSONB;
+  v_expression TEXT;
+  v_reset JSONB := '{}'::jsonb;
+  v_reset_key TEXT;
+  v_player_id TEXT;
+  v_var JSONB;
+  v_msg TEXT;
+  v_summary TEXT := '';
+  v_pr JSONB;
+  v_uid TEXT;
+  v_results JSONB := '{}'::jsonb;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'finalize_game') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_tpl_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+  v_before := public._build_snapshot(v_state);
+
+  -- 精算対象変数とその初期値を取得（{変数キー: 初期値}）
+  v_var_key := COALESCE(v_room.template->'settlementConfig'->>'variable', 'score');
+  FOR v_var IN SELECT * FROM jsonb_array_elements(v_tpl_vars)
+  LOOP
+    IF v_var->>'key' = v_var_key THEN
+      v_reset := jsonb_build_object(v_var_key, (v_var->>'initial')::numeric);
+      EXIT;
+    END IF;
+  END LOOP;
+
+  -- 計算変数の場合は計算式が参照する変数をリセット対象にする
+  IF v_reset = '{}'::jsonb THEN
+    SELECT elem INTO v_computed
+    FROM jsonb_array_elements(COALESCE(v_room.template->'computedVariables', '[]'::jsonb)) AS elem
+    WHERE elem->>'key' = v_var_key
+    LIMIT 1;
+
+    v_expression := v_computed->>'expression';
+    IF v_expression IS NOT NULL THEN
+      FOR v_var IN SELECT * FROM jsonb_array_elements(v_tpl_vars)
+      LOOP
+        -- 計算式で参照できるのは英数字と「_」のキーのみ
+        IF v_var->>'key' ~ '^[A-Za-z_][A-Za-z0-9_]*$'
+          AND v_expression ~ ('(^|[^A-Za-z0-9_])' || (v_var->>'key') || '([^A-Za-z0-9_]|$)') THEN
+          v_reset := v_reset || jsonb_build_object(v_var->>'key', (v_var->>'initial')::numeric);
+        END IF;
+      END LOOP;
+    END IF;
+  END IF;
+
+  -- 対象変数をリセット（Pot は 0 に）
+  FOR v_reset_key, v_initial IN SELECT key, value::numeric FROM jsonb_each_text(v_reset)
+  LOOP
+    CONTINUE WHEN v_initial IS NULL;
+
+    FOR v_player_id IN SELECT jsonb_object_keys(v_state)
+    LOOP
+      IF LEFT(v_player_id, 2) != '__' THEN
+        IF v_state->v_player_id ? v_reset_key THEN
+          v_state := jsonb_set(v_state, ARRAY[v_player_id, v_reset_key], to_jsonb(v_initial));
+        END IF;
+      END IF;
+    END LOOP;
+
+    IF v_state ? '__pot__' AND v_state->'__pot__' ? v_reset_key THEN
+      v_state := jsonb_set(v_state, ARRAY['__pot__', v_reset_key], to_jsonb(0));
+    END IF;
+  END LOOP;
+
+  -- 局を東1局 0本場に戻す（起家は維持）
+  IF v_state ? '__round__' THEN
+    v_state := jsonb_set(v_state, '{__round__}', public._initial_round(
+      COALESCE((v_state->'__round__'->>'startSeat')::int, 0)));
+  END IF;
+
+  -- 精算サマリメッセージ作成（rankでソート）
+  FOR v_uid, v_pr IN SELECT * FROM jsonb_each(p_player_results) ORDER BY (value->>'rank')::int ASC
+  LOOP
+    IF v_summary != '' THEN v_summary := v_summary || ', '; END IF;
+    v_summary := v_summary || (v_pr->>'displayName') || ': ';
+    IF (v_pr->>'result')::numeric >= 0 THEN
+      v_summary := v_summary || '+';
+    END IF;
+    v_summary := v_summary || (v_pr->>'result')::text;
+    v_results := v_results || jsonb_build_object(v_uid, jsonb_build_object(
+      'displayName', v_pr->'displayName', 'rank', v_pr->'rank', 'result', v_pr->'result'));
+  END LOOP;
+  v_msg := '精算: ' || v_summary;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  -- settlement レコード
+  INSERT INTO public.room_settlements (id, room_id, type, player_results)
+  VALUES (p_settlement_id, p_room_id, 'settlement', p_player_results);
+
+  -- 履歴レコード
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'settlement', NULL, NULL, NULL,
+    jsonb_build_object('settlementId', p_settlement_id, 'results', v_results));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_transfer_multi: 複数のスコア移動を一括反映
+--   p_legs : [{from, to, transfers: [{variable, amount}, ...]}, ...]
+--   権限は移動ごとに rpc_transfer_score と同じ判定
+--     Pot → プレイヤー : retrieve_pot
+--     それ以外         : transfer_score（プレイヤー権限では自分からの移動のみ）
+--   1つでも不正な移動があれば何も反映しない
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_transfer_multi(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.rpc_transfer_multi(
+  p_room_id UUID,
+  p_legs JSONB,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_leg JSONB;
+  v_from TEXT;
+  v_to TEXT;
+  v_transfer JSONB;
+  v_var TEXT;
+  v_amount NUMERIC;
+  v_from_name TEXT;
+  v_to_name TEXT;
+  v_details TEXT;
+  v_leg_transfers JSONB;
+  v_legs JSONB := '[]'::jsonb;
+  v_msg TEXT := '';
+  v_common_from TEXT;
+  v_common_to TEXT;
+  v_first BOOLEAN := TRUE;
+  v_constraint_error TEXT;
+BEGIN
+  -- 1. 行ロック取得
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF jsonb_typeof(p_legs) != 'array' OR jsonb_array_length(p_legs) = 0 THEN
+    RETURN jsonb_build_object('error', '移動がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_tpl_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+
+  -- 2. 操作前スナップショット
+  v_before := public._build_snapshot(v_state);
+
+  -- 3. 移動を順に反映
+  FOR v_leg IN SELECT * FROM jsonb_array_elements(p_legs)
+  LOOP
+    v_from := v_leg->>'from';
+    v_to := v_leg->>'to';
+
+    IF v_from IS NULL OR v_to IS NULL OR v_from = v_to THEN
+      RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+    END IF;
+
+    -- 権限チェック（rpc_transfer_score と同じ）
+    IF v_from = '__pot__' THEN
+      IF NOT public._has_permission(v_room, 'retrieve_pot') THEN
+        RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+      END IF;
+    ELSE
+      IF NOT public._has_permission(v_room, 'transfer_score') THEN
+        RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+      END IF;
+      IF NOT public._is_room_host(v_room) AND v_from IS DISTINCT FROM auth.uid()::text THEN
+        RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+      END IF;
+    END IF;
+
+    IF v_from != '__pot__' AND (NOT v_state ? v_from OR LEFT(v_from, 2) = '__') THEN
+      RETURN jsonb_build_object('error', '送信元プレイヤーが見つかりません');
+    END IF;
+    IF v_to != '__pot__' AND (NOT v_state ? v_to OR LEFT(v_to, 2) = '__') THEN
+      RETURN jsonb_build_object('error', '送信先プレイヤーが見つかりません');
+    END IF;
+
+    IF jsonb_typeof(v_leg->'transfers') != 'array' OR jsonb_array_length(v_leg->'transfers') = 0 THEN
+      RETURN jsonb_build_object('error', '移動量が不正です');
+    END IF;
+
+    -- __pot__ が存在しなければ初期化
+    IF v_to = '__pot__' AND NOT v_state ? '__pot__' THEN
+      v_state := jsonb_set(v_state, '{__pot__}', '{}'::jsonb);
+    END IF;
+
+    v_details := '';
+    v_leg_transfers := '[]'::jsonb;
+    FOR v_transfer IN SELECT * FROM jsonb_array_elements(v_leg->'transfers')
+    LOOP
+      v_var := v_transfer->>'variable';
+      v_amount := (v_transfer->>'amount')::numeric;
+
+      IF v_var IS NULL OR v_amount IS NULL OR v_amount <= 0 THEN
+        RETURN jsonb_build_object('error', '移動量が不正です');
+      END IF;
+      IF v_from = '__pot__' AND COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) < v_amount THEN
+        RETURN jsonb_build_object('error', '供託金が不足しています');
+      END IF;
+
+      v_state := jsonb_set(v_state, ARRAY[v_from, v_var],
+        to_jsonb(COALESCE((v_state->v_from->>v_var)::numeric, 0) - v_amount));
+      v_state := jsonb_set(v_state, ARRAY[v_to, v_var],
+        to_jsonb(COALESCE((v_state->v_to->>v_var)::numeric, 0) + v_amount));
+
+      IF v_details != '' THEN v_details := v_details || ', '; END IF;
+      v_details := v_details || public._get_variable_label(v_tpl_vars, v_var) || ' ' || v_amount::text;
+      v_leg_transfers := v_leg_transfers || jsonb_build_array(
+        jsonb_build_object('variable', v_var, 'amount', v_amount));
+    END LOOP;
+
+    v_from_name := CASE WHEN v_from = '__pot__' THEN '供託回収'
+      ELSE public._seat_display_name(v_room.seats, v_state, v_from) END;
+    v_to_name := CASE WHEN v_to = '__pot__' THEN '供託'
+      ELSE public._seat_display_name(v_room.seats, v_state, v_to) END;
+
+    IF v_msg != '' THEN v_msg := v_msg || ' / '; END IF;
+    v_msg := v_msg || v_from_name || ' → ' || v_to_name || ': ' || v_details;
+
+    v_legs := v_legs || jsonb_build_array(jsonb_build_object(
+      'fromId', v_from, 'fromName', v_from_name,
+      'toId', v_to, 'toName', v_to_name,
+      'transfers', v_leg_transfers));
+
+    -- 全移動で共通の移動元・移動先（履歴の from_id / to_id 用）
+    IF v_first THEN
+      v_common_from := v_from;
+      v_common_to := v_to;
+      v_first := FALSE;
+    ELSE
+      IF v_common_from IS DISTINCT FROM v_from THEN v_common_from := NULL; END IF;
+      IF v_common_to IS DISTINCT FROM v_to THEN v_common_to := NULL; END IF;
+    END IF;
+  END LOOP;
+
+  -- 変数の制約（下限・上限・刻み・負の値）
+  v_constraint_error := public._check_variable_constraints(
+    v_room.template, v_room.current_state, v_state);
+  IF v_constraint_error IS NOT NULL THEN
+    RETURN jsonb_build_object('error', v_constraint_error);
+  END IF;
+
+  -- 4. __recent_log__ 更新
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  -- 5. UPDATE rooms
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  -- 6. INSERT room_history（移動ごとの内訳は payload.legs）
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'multi_transfer', v_common_from, v_common_to, NULL,
+    jsonb_build_object('legs', v_legs));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_transfer_score: スコア移動（Pot対応、残高チェック）
+--   Pot → プレイヤー : retrieve_pot
+--   それ以外         : transfer_score
+--   プレイヤー権限では自分（または Pot）からの移動のみ許可
+--   p_client_op_id: クライアントの操作ID（__recent_log__ のエントリと戻り値に含めて返す）
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_transfer_score(UUID, TEXT, TEXT, JSONB, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.rpc_transfer_score(
+  p_room_id UUID,
+  p_from_id TEXT,
+  p_to_id TEXT,
+  p_transfers JSONB,   -- [{variable, amount}, ...]
+  p_from_name TEXT DEFAULT NULL,
+  p_to_name TEXT DEFAULT NULL,
+  p_client_op_id TEXT DEFAULT NULL,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_template JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_transfer JSONB;
+  v_var TEXT;
+  v_amount NUMERIC;
+  v_from_val NUMERIC;
+  v_to_val NUMERIC;
+  v_display_from TEXT;
+  v_display_to TEXT;
+  v_details TEXT := '';
+  v_label TEXT;
+  v_msg TEXT;
+  v_transfers JSONB := '[]'::jsonb;
+  v_constraint_error TEXT;
+BEGIN
+  -- 1. 行ロック取得
+  SELECT * INTO v_room
+  FROM public.rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  -- 2. 権限チェック
+  IF p_from_id = '__pot__' THEN
+    IF NOT public._has_permission(v_room, 'retrieve_pot') THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+  ELSE
+    IF NOT public._has_permission(v_room, 'transfer_score') THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+    -- プレイヤー権限では他人のスコアを動かせない
+    IF NOT public._is_room_host(v_room) AND p_from_id IS DISTINCT FROM auth.uid()::text THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+  END IF;
+
+  v_state := v_room.current_state;
+  v_template := v_room.template;
+  v_tpl_vars := COALESCE(v_template->'variables', '[]'::jsonb);
+
+  -- 3. 操作前スナップショット
+  v_before := public._build_snapshot(v_state);
+
+  -- 4. transfers を順に処理
+  FOR v_transfer IN SELECT * FROM jsonb_array_elements(p_transfers)
+  LOOP
+    v_var := v_transfer->>'variable';
+    v_amount := (v_transfer->>'amount')::numeric;
+
+    IF p_from_id = '__pot__' THEN
+      -- Pot → プレイヤー
+      IF COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) < v_amount THEN
+        RETURN jsonb_build_object('error', '供託金が不足しています');
+      END IF;
+      v_state := jsonb_set(v_state, ARRAY['__pot__', v_var],
+        to_jsonb(COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) - v_amount));
+      IF NOT v_state ? p_to_id THEN
+        RETURN jsonb_build_object('error', '送信先プレイヤーが見つかりません');
+      END IF;
+      v_state := jsonb_set(v_state, ARRAY[p_to_id, v_var],
+        to_jsonb(COALESCE((v_state->p_to_id->>v_var)::numeric, 0) + v_amount));
+
+    ELSIF p_to_id = '__pot__' THEN
+      -- プレイヤー → Pot
+      IF NOT v_state ? p_from_id THEN
+        RETURN jsonb_build_object('error', '送信元プレイヤーが見つかりません');
+      END IF;
+      v_from_val := COALESCE((v_state->p_from_id->>v_var)::numeric, 0);
+      v_state := jsonb_set(v_state, ARRAY[p_from_id, v_var], to_jsonb(v_from_val - v_amount));
+      -- __pot__ が存在しなければ初期化
+      IF NOT v_state ? '__pot__' THEN
+        v_state := jsonb_set(v_state, '{__pot__}', '{}'::jsonb);
+      END IF;
+      v_state := jsonb_set(v_state, ARRAY['__pot__', v_var],
+        to_jsonb(COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) + v_amount));
+
+    ELSE
+      -- プレイヤー間
+      IF NOT v_state ? p_from_id OR NOT v_state ? p_to_id THEN
+        RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+      END IF;
+      v_from_val := COALESCE((v_state->p_from_id->>v_var)::numeric, 0);
+      v_state := jsonb_set(v_state, ARRAY[p_from_id, v_var], to_jsonb(v_from_val - v_amount));
+      v_state := jsonb_set(v_state, ARRAY[p_to_id, v_var],
+        to_jsonb(COALESCE((v_state->p_to_id->>v_var)::numeric, 0) + v_amount));
+    END IF;
+
+    -- ラベル取得
+    v_label := public._get_variable_label(v_tpl_vars, v_var);
+    IF v_details != '' THEN v_details := v_details || ', '; END IF;
+    v_details := v_details || v_label || ' ' || v_amount::text;
+    v_transfers := v_transfers || jsonb_build_array(
+      jsonb_build_object('variable', v_var, 'amount', v_amount));
+  END LOOP;
+
+  -- 5. 履歴メッセージ
+  v_display_from := COALESCE(p_from_name,
+    CASE WHEN p_from_id = '__pot__' THEN '供託回収' ELSE left(p_from_id, 8) END);
+  v_display_to := COALESCE(p_to_name,
+    CASE WHEN p_to_id = '__pot__' THEN '供託' ELSE left(p_to_id, 8) END);
+  v_msg := v_display_from || ' → ' || v_display_to || ': ' || v_details;
+
+  -- 変数の制約（下限・上限・刻み・負の値）
+  v_constraint_error := public._check_variable_constraints(
+    v_room.template, v_room.current_state, v_state);
+  IF v_constraint_error IS NOT NULL THEN
+    RETURN jsonb_build_object('error', v_constraint_error);
+  END IF;
+
+  -- 6. __recent_log__ 更新
+  v_state := public._push_recent_log(v_state, v_msg, p_client_op_id);
+
+  -- 7. UPDATE rooms
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  -- 8. INSERT room_history（構造化イベント付き）
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'transfer', p_from_id, p_to_id, v_transfers,
+    jsonb_strip_nulls(jsonb_build_object('fromName', p_from_name, 'toName', p_to_name)));
+
+  RETURN jsonb_strip_nulls(jsonb_build_object('success', true, 'clientOpId', p_client_op_id));
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_undo_last: 最新の有効な履歴の snapshot を復元し、取り消し済みにする
+--   削除はせず redo_state に やり直し用データを保存する
+--   ロールバックの取り消しでは、削除した精算行と取り消した履歴を元に戻す
+--   対応する PermissionKey が無いため、UI と同じくホスト・コホストのみ許可
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_undo_last(UUID);
+
+CREATE OR REPLACE FUNCTION public.rpc_undo_last(
+  p_room_id UUID,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_entry RECORD;
+  v_restored JSONB;
+  v_recent_log JSONB;
+  v_settlements JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+
+  -- 最新の有効なエントリ取得
+  SELECT * INTO v_entry
+  FROM public.room_history
+  WHERE room_id = p_room_id AND reverted_at IS NULL
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', '取り消せる操作がありません');
+  END IF;
+
+  -- snapshot を復元（着席プレイヤー・離席者の補完）
+  v_restored := public._ensure_seated_players(
+    v_entry.snapshot,
+    COALESCE(v_room.seats, '[]'::jsonb),
+    COALESCE(v_room.template->'variables', '[]'::jsonb),
+    v_state
+  );
+
+  IF v_entry.event_type = 'rollback' THEN
+    -- ロールバックで削除した精算行を戻し、取り消した履歴を有効に戻す
+    INSERT INTO public.room_settlements
+    SELECT * FROM jsonb_populate_recordset(
+      NULL::public.room_settlements,
+      COALESCE(v_entry.payload->'removedSettlements', '[]'::jsonb)
+    );
+
+    UPDATE public.room_history
+    SET reverted_at = NULL
+    WHERE reverted_by = v_entry.id;
+  ELSE
+    -- 対応する精算レコードを削除（精算操作の undo 時）。やり直し用に保存する
+    SELECT COALESCE(jsonb_agg(to_jsonb(s)), '[]'::jsonb) INTO v_settlements
+    FROM public.room_settlements s
+    WHERE room_id = p_room_id AND created_at = v_entry.created_at;
+
+    DELETE FROM public.room_settlements
+    WHERE room_id = p_room_id AND created_at = v_entry.created_at;
+  END IF;
+
+  -- エントリを取り消し済みにする
+  UPDATE public.room_history
+  SET reverted_at = now(),
+      redo_state = jsonb_build_object(
+        'snapshot', public._build_snapshot(v_state),
+        'settlements', v_settlements
+      )
+  WHERE id = v_entry.id;
+
+  -- __recent_log__: undo した操作メッセージを除去
+  v_recent_log := COALESCE(v_state->'__recent_log__', '[]'::jsonb);
+  v_recent_log := (
+    SELECT COALESCE(jsonb_agg(elem), '[]'::jsonb)
+    FROM jsonb_array_elements(v_recent_log) AS elem
+    WHERE elem->>'message' != v_entry.message
+  );
+  v_restored := jsonb_set(v_restored, '{__recent_log__}', v_recent_log);
+
+  UPDATE public.rooms SET current_state = v_restored WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_update_co_hosts: コホスト一覧を置き換える（ルーム作成者のみ）
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_update_co_hosts(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.rpc_update_co_hosts(
+  p_room_id UUID,
+  p_co_host_ids JSONB,  -- ["uuid", ...]
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF public._caller_role(v_room) NOT IN ('service', 'host') THEN
+    RETURN jsonb_build_object('error', 'ルーム作成者のみがホスト権限を変更できます');
+  END IF;
+
+  IF jsonb_typeof(p_co_host_ids) IS DISTINCT FROM 'array' THEN
+    RETURN jsonb_build_object('error', 'コホスト一覧の形式が不正です');
+  END IF;
+
+  UPDATE public.rooms SET co_host_ids = p_co_host_ids WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_update_counter: カウンター CAS 更新（edit_counter）
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_update_counter(UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.rpc_update_counter(
+  p_room_id UUID,
+  p_expected_value INTEGER,
+  p_new_value INTEGER,
+  p_expected_version BIGINT DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+  v_current INTEGER;
+BEGIN
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'edit_counter') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_current := COALESCE((v_room.current_state->>'__count__')::INTEGER, 0);
+
+  -- CAS チェック: DB の現在値が expected と異なれば競合
+  IF v_current <> p_expected_value THEN
+    RETURN jsonb_build_object('conflict', true, 'current_value', v_current);
+  END IF;
+
+  UPDATE rooms
+  SET current_state = jsonb_set(current_state, '{__count__}', to_jsonb(p_new_value))
+  WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_update_room_name: ルーム名を更新（ホスト・コホスト）
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_update_room_name(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.rpc_update_room_name(
+  p_room_id UUID,
+  p_room_name TEXT,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'ホストのみがルーム名を変更できます');
+  END IF;
+
+  UPDATE public.rooms SET room_name = p_room_name WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_update_room_status: ルームのステータスを更新（ホスト・コホスト）
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_update_room_status(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.rpc_update_room_status(
+  p_room_id UUID,
+  p_status TEXT,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'ホストのみがステータスを変更できます');
+  END IF;
+
+  IF p_status NOT IN ('waiting', 'playing', 'finished') THEN
+    RETURN jsonb_build_object('error', '無効なステータスです');
+  END IF;
+
+  UPDATE public.rooms SET status = p_status WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- -----------------------------------------------
+-- rpc_update_template: テンプレートの部分更新（ホスト・コホスト）
+--   新しい変数は既存プレイヤーに初期値で追加し、
+--   既存変数の initial が変わった場合は差分をスライドする
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_update_template(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.rpc_update_template(
+  p_room_id UUID,
+  p_template_update JSONB,  -- Partial<GameTemplate>
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_old_vars JSONB;
+  v_var JSONB;
+  v_old_var JSONB;
+  v_key TEXT;
+  v_player_id TEXT;
+  v_diff NUMERIC;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'ホストのみがテンプレートを変更できます');
+  END IF;
+
+  IF jsonb_typeof(p_template_update) IS DISTINCT FROM 'object' THEN
+    RETURN jsonb_build_object('error', 'テンプレートの形式が不正です');
+  END IF;
+
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  IF p_template_update ? 'variables' THEN
+    v_old_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+
+    FOR v_player_id IN SELECT jsonb_object_keys(v_state)
+    LOOP
+      IF LEFT(v_player_id, 2) = '__' THEN CONTINUE; END IF;
+
+      FOR v_var IN SELECT * FROM jsonb_array_elements(p_template_update->'variables')
+      LOOP
+        v_key := v_var->>'key';
+
+        IF NOT v_state->v_player_id ? v_key THEN
+          -- 新しい変数: 初期値で追加
+          v_state := jsonb_set(v_state, ARRAY[v_player_id, v_key], v_var->'initial');
+        ELSE
+          -- 既存変数: initial の差分をスライド
+          SELECT elem INTO v_old_var
+          FROM jsonb_array_elements(v_old_vars) AS elem
+          WHERE elem->>'key' = v_key
+          LIMIT 1;
+
+          IF v_old_var IS NOT NULL THEN
+            v_diff := (v_var->>'initial')::numeric - (v_old_var->>'initial')::numeric;
+            IF v_diff != 0 THEN
+              v_state := jsonb_set(v_state, ARRAY[v_player_id, v_key],
+                to_jsonb((v_state->v_player_id->>v_key)::numeric + v_diff));
+            END IF;
+          END IF;
+        END IF;
+      END LOOP;
+    END LOOP;
+  END IF;
+
+  UPDATE public.rooms
+  SET template = COALESCE(v_room.template, '{}'::jsonb) || p_template_update,
+      current_state = v_state
+  WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_advance_round(UUID, TEXT, BOOLEAN, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_apply_draw(UUID, JSONB, TEXT, NUMERIC, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_apply_win(UUID, TEXT, JSONB, TEXT, BOOLEAN, JSONB, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_force_edit_score(UUID, TEXT, JSONB, TEXT, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_force_leave_seat(UUID, TEXT, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_import_game_record(UUID, JSONB, JSONB, JSONB, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_join_fake_seat(UUID, INTEGER, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_join_game(UUID, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_join_seat(UUID, INTEGER, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_leave_game(UUID, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_leave_seat(UUID, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_redo(UUID, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_remove_fake_player(UUID, TEXT, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_rename_fake_player(UUID, TEXT, TEXT, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_reseat_fake_player(UUID, TEXT, INTEGER, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_reset_round(UUID, INTEGER, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_reset_scores(UUID, JSONB, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_rollback_to(UUID, UUID, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_run_custom_action(UUID, TEXT, TEXT, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_save_adjustment(UUID, UUID, JSONB, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_save_settlement(UUID, UUID, JSONB, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_transfer_multi(UUID, JSONB, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_transfer_score(UUID, TEXT, TEXT, JSONB, TEXT, TEXT, TEXT, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_undo_last(UUID, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_update_co_hosts(UUID, JSONB, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_update_counter(UUID, INTEGER, INTEGER, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_update_room_name(UUID, TEXT, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_update_room_status(UUID, TEXT, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_update_template(UUID, JSONB, BIGINT) TO authenticated;
@@ -0,0 +1,170 @@
+-- ============================================
+-- ルーム更新を差分としてブロードキャスト
+-- これまでクライアントは postgres_changes の UPDATE（REPLICA IDENTITY FULL の行全体）か
+-- refetch でルーム行を丸ごと受け取っており、操作のたびにテンプレートや座席も送られていた。
+-- rooms が更新されるたびに、変更点だけを Broadcast（トピック room:<roomId>、イベント room_diff）で送る。
+--   version : 更新後の state_version（クライアントは手元 + 1 でなければ全体を取得し直す）
+--   state   : current_state の変更（プレイヤー・供託などのオブジェクトは変わった変数だけ、
+--             削除されたキーは null）。__recent_log__ は log で送る
+--   log     : 追加された直近ログのエントリ（取り消し等で追記でなくなった場合は state で丸ごと送る）
+--   columns : current_state 以外で変更されたカラム（座席・テンプレート・ステータスなど）
+-- RPC ごとではなくトリガーで送るため、すべての RPC と定期処理が対象になる。
+-- rooms の SELECT は誰でも可能なため、公開（private = false）のトピックで送る。
+-- UPDATE の行全体は不要になったため、REPLICA IDENTITY を既定（主キーのみ）に戻す。
+-- ============================================
+
+
+-- ============================================
+-- ヘルパー関数（内部用）
+-- ============================================
+
+-- 1. _object_diff: オブジェクトの差分（変更・追加されたキーは新しい値、削除されたキーは null）
+CREATE OR REPLACE FUNCTION public._object_diff(p_old JSONB, p_new JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+DECLARE
+  v_diff JSONB := '{}'::jsonb;
+  v_key TEXT;
+BEGIN
+  FOR v_key IN SELECT jsonb_object_keys(p_new)
+  LOOP
+    IF p_old->v_key IS DISTINCT FROM p_new->v_key THEN
+      v_diff := v_diff || jsonb_build_object(v_key, p_new->v_key);
+    END IF;
+  END LOOP;
+
+  FOR v_key IN SELECT jsonb_object_keys(p_old)
+  LOOP
+    IF NOT p_new ? v_key THEN
+      v_diff := v_diff || jsonb_build_object(v_key, NULL);
+    END IF;
+  END LOOP;
+
+  RETURN v_diff;
+END;
+$$;
+
+-- 2. _state_diff: current_state の差分
+--   両方オブジェクトのキー（プレイヤー・__pot__・__round__）は変わった変数だけを送り、
+--   それ以外（追加・数値・型の変化）は新しい値をそのまま送る
+--   __recent_log__ は _recent_log_diff で扱うため含めない
+CREATE OR REPLACE FUNCTION public._state_diff(p_old JSONB, p_new JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+DECLARE
+  v_diff JSONB := '{}'::jsonb;
+  v_key TEXT;
+  v_old JSONB;
+  v_new JSONB;
+BEGIN
+  FOR v_key IN SELECT jsonb_object_keys(p_new)
+  LOOP
+    CONTINUE WHEN v_key = '__recent_log__';
+    v_old := p_old->v_key;
+    v_new := p_new->v_key;
+    CONTINUE WHEN v_old IS NOT DISTINCT FROM v_new;
+
+    IF jsonb_typeof(v_old) = 'object' AND jsonb_typeof(v_new) = 'object' THEN
+      v_diff := v_diff || jsonb_build_object(v_key, public._object_diff(v_old, v_new));
+    ELSE
+      v_diff := v_diff || jsonb_build_object(v_key, v_new);
+    END IF;
+  END LOOP;
+
+  FOR v_key IN SELECT jsonb_object_keys(p_old)
+  LOOP
+    CONTINUE WHEN v_key = '__recent_log__';
+    IF NOT p_new ? v_key THEN
+      v_diff := v_diff || jsonb_build_object(v_key, NULL);
+    END IF;
+  END LOOP;
+
+  RETURN v_diff;
+END;
+$$;
+
+-- 3. _recent_log_diff: 直近ログに追記されたエントリ
+--   追記して最大5件に切り詰めた結果が新しいログと一致しなければ NULL（丸ごと送る）
+CREATE OR REPLACE FUNCTION public._recent_log_diff(p_old JSONB, p_new JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+DECLARE
+  v_old JSONB := COALESCE(p_old, '[]'::jsonb);
+  v_new JSONB := COALESCE(p_new, '[]'::jsonb);
+  v_appended JSONB;
+  v_merged JSONB;
+BEGIN
+  SELECT COALESCE(jsonb_agg(e ORDER BY ord), '[]'::jsonb) INTO v_appended
+  FROM jsonb_array_elements(v_new) WITH ORDINALITY AS t(e, ord)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_old) AS o WHERE o->>'id' = e->>'id'
+  );
+
+  v_merged := v_old || v_appended;
+  SELECT COALESCE(jsonb_agg(e ORDER BY ord), '[]'::jsonb) INTO v_merged
+  FROM jsonb_array_elements(v_merged) WITH ORDINALITY AS t(e, ord)
+  WHERE ord > jsonb_array_length(v_merged) - 5;
+
+  IF v_merged IS DISTINCT FROM v_new THEN
+    RETURN NULL;
+  END IF;
+  RETURN v_appended;
+END;
+$$;
+
+
+-- --------------------------------------------
+-- 1. rooms の更新ごとに差分を送るトリガー
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.broadcast_room_diff()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_payload JSONB;
+  v_state JSONB;
+  v_log JSONB;
+  v_columns JSONB;
+BEGIN
+  v_state := public._state_diff(
+    COALESCE(OLD.current_state, '{}'::jsonb), COALESCE(NEW.current_state, '{}'::jsonb));
+  v_log := public._recent_log_diff(
+    OLD.current_state->'__recent_log__', NEW.current_state->'__recent_log__');
+  IF v_log IS NULL THEN
+    -- 追記でない変更（取り消し・やり直しなど）はログを丸ごと置き換える
+    v_state := v_state || jsonb_build_object('__recent_log__', NEW.current_state->'__recent_log__');
+    v_log := '[]'::jsonb;
+  END IF;
+  v_columns := public._object_diff(
+    to_jsonb(OLD) - 'current_state' - 'state_version',
+    to_jsonb(NEW) - 'current_state' - 'state_version');
+
+  v_payload := jsonb_build_object('version', NEW.state_version);
+  IF v_state != '{}'::jsonb THEN
+    v_payload := v_payload || jsonb_build_object('state', v_state);
+  END IF;
+  IF jsonb_array_length(v_log) > 0 THEN
+    v_payload := v_payload || jsonb_build_object('log', v_log);
+  END IF;
+  IF v_columns != '{}'::jsonb THEN
+    v_payload := v_payload || jsonb_build_object('columns', v_columns);
+  END IF;
+
+  PERFORM realtime.send(v_payload, 'room_diff', 'room:' || NEW.id::text, false);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS rooms_broadcast_diff ON public.rooms;
+CREATE TRIGGER rooms_broadcast_diff
+  AFTER UPDATE ON public.rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.broadcast_room_diff();
+
+
+-- --------------------------------------------
+-- 2. REPLICA IDENTITY を既定に戻す（007 の取り消し）
+--   DELETE の検知（postgres_changes）は主キーだけで足りる
+-- --------------------------------------------
+ALTER TABLE public.rooms REPLICA IDENTITY DEFAULT;
@@ -0,0 +1,235 @@
+-- ============================================
+-- room_settlements の書き込みを RPC に限定し、インポートした精算行を成績から除外
+-- 005 / 008 の INSERT・DELETE ポリシーが WITH CHECK (true) / USING (true) だったため、
+-- 誰でも任意のユーザーIDを含む精算行を追加・削除でき、
+-- 他人の通算成績（019）やグループのシーズン成績（020）を書き換えられた。
+-- 精算行の追加・削除はすべて SECURITY DEFINER の RPC で行っているため、
+-- ポリシーを削除して直接の書き込みを閉じる（015 で rooms の UPDATE を閉じたのと同じ方針）。
+--
+-- また、rpc_import_game_record（018）で取り込んだ精算行は元のルームの精算行の写しのため、
+-- 元のルームと合わせて同じ対局が二重に集計されていた。
+-- room_settlements.imported で取り込んだ行を区別し、成績の集計から除外する。
+-- ============================================
+
+
+-- --------------------------------------------
+-- 1. 直接の INSERT / DELETE を禁止
+-- --------------------------------------------
+DROP POLICY IF EXISTS "Authenticated users can insert room settlements" ON public.room_settlements;
+DROP POLICY IF EXISTS "Authenticated users can delete room settlements" ON public.room_settlements;
+
+
+-- --------------------------------------------
+-- 2. room_settlements.imported
+-- --------------------------------------------
+ALTER TABLE public.room_settlements
+  ADD COLUMN IF NOT EXISTS imported BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.room_settlements.imported IS 'ゲーム記録のインポートで取り込んだ行（成績の集計に含めない）';
+
+-- 既存の取り込み済みの行: インポートの履歴より前に作成された精算行
+-- （取り込んだ行は元の日時を引き継ぐため、インポート以降に精算した行とは日時で区別できる）
+UPDATE public.room_settlements s
+SET imported = true
+WHERE EXISTS (
+  SELECT 1 FROM public.room_history h
+  WHERE h.room_id = s.room_id
+    AND h.event_type = 'import'
+    AND s.created_at < h.created_at
+);
+
+
+-- ============================================
+-- ヘルパー関数（内部用）
+-- ============================================
+
+-- _aggregate_player_stats: 取り込んだ精算行を除外して再定義
+CREATE OR REPLACE FUNCTION public._aggregate_player_stats(
+  p_room_ids UUID[],
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS JSONB
+LANGUAGE sql STABLE
+AS $$
+  WITH results AS (
+    SELECT
+      CASE WHEN e.key LIKE 'fake\_%' THEN 'guest:' || (e.value->>'displayName')
+           ELSE e.key END AS player_key,
+      e.key LIKE 'fake\_%' AS is_guest,
+      e.value->>'displayName' AS display_name,
+      s.type,
+      s.created_at,
+      (e.value->>'rank')::int AS rank,
+      (e.value->>'result')::numeric AS result
+    FROM public.room_settlements s
+    CROSS JOIN LATERAL jsonb_each(s.player_results) AS e
+    WHERE s.room_id = ANY(p_room_ids)
+      AND NOT s.imported
+      AND (p_from IS NULL OR s.created_at >= p_from)
+      AND (p_to IS NULL OR s.created_at < p_to)
+  ),
+  rank_counts AS (
+    SELECT player_key, jsonb_object_agg(rank::text, cnt) AS counts
+    FROM (
+      SELECT player_key, rank, COUNT(*) AS cnt
+      FROM results
+      WHERE type = 'settlement'
+      GROUP BY player_key, rank
+    ) c
+    GROUP BY player_key
+  ),
+  players AS (
+    SELECT
+      r.player_key,
+      bool_and(r.is_guest) AS is_guest,
+      (array_agg(r.display_name ORDER BY r.created_at DESC))[1] AS display_name,
+      COUNT(*) FILTER (WHERE r.type = 'settlement') AS games,
+      COALESCE(SUM(r.result), 0) AS total_result,
+      AVG(r.rank) FILTER (WHERE r.type = 'settlement') AS average_rank,
+      MAX(r.result) FILTER (WHERE r.type = 'settlement') AS best_result,
+      MIN(r.result) FILTER (WHERE r.type = 'settlement') AS worst_result
+    FROM results r
+    GROUP BY r.player_key
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'player_key', p.player_key,
+    'is_guest', p.is_guest,
+    'is_me', p.player_key = auth.uid()::text,
+    'display_name', p.display_name,
+    'games', p.games,
+    'total_result', p.total_result,
+    'average_rank', round(p.average_rank, 2),
+    'rank_counts', COALESCE(rc.counts, '{}'::jsonb),
+    'best_result', p.best_result,
+    'worst_result', p.worst_result
+  ) ORDER BY p.total_result DESC, p.average_rank ASC NULLS LAST), '[]'::jsonb)
+  FROM players p
+  LEFT JOIN rank_counts rc ON rc.player_key = p.player_key;
+$$;
+
+
+-- ============================================
+-- RPC 関数（1個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_import_game_record: 取り込んだ精算行に imported を付けて再定義（引数は 033 と同じ）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_import_game_record(
+  p_room_id UUID,
+  p_seats JSONB,           -- (SeatInfo | null)[]
+  p_current_state JSONB,   -- GameState
+  p_settlements JSONB,     -- [{type, timestamp, playerResults}, ...]
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_settlement JSONB;
+  v_seat JSONB;
+  v_count INTEGER := 0;
+  v_msg TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'ホストのみがゲーム記録をインポートできます');
+  END IF;
+
+  -- 既存のゲームを上書きしないよう、作成直後のルームに限定
+  IF COALESCE(v_room.current_state, '{}'::jsonb) != '{}'::jsonb
+     OR EXISTS (SELECT 1 FROM public.room_settlements WHERE room_id = p_room_id)
+     OR EXISTS (
+       SELECT 1 FROM jsonb_array_elements(COALESCE(v_room.seats, '[]'::jsonb)) AS seat
+       WHERE seat != 'null'::jsonb
+     ) THEN
+    RETURN jsonb_build_object('error', 'インポートは作成直後のルームにのみ実行できます');
+  END IF;
+
+  IF jsonb_typeof(p_seats) IS DISTINCT FROM 'array'
+     OR jsonb_array_length(p_seats) < 2
+     OR jsonb_array_length(p_seats) > 12 THEN
+    RETURN jsonb_build_object('error', '座席情報が不正です');
+  END IF;
+
+  FOR v_seat IN SELECT * FROM jsonb_array_elements(p_seats)
+  LOOP
+    IF v_seat != 'null'::jsonb
+       AND (jsonb_typeof(v_seat) != 'object'
+            OR jsonb_typeof(v_seat->'userId') IS DISTINCT FROM 'string') THEN
+      RETURN jsonb_build_object('error', '座席情報が不正です');
+    END IF;
+  END LOOP;
+
+  IF jsonb_typeof(p_current_state) IS DISTINCT FROM 'object' THEN
+    RETURN jsonb_build_object('error', 'スコア情報が不正です');
+  END IF;
+
+  IF jsonb_typeof(p_settlements) IS DISTINCT FROM 'array' THEN
+    RETURN jsonb_build_object('error', '精算履歴が不正です');
+  END IF;
+
+  FOR v_settlement IN SELECT * FROM jsonb_array_elements(p_settlements)
+  LOOP
+    IF COALESCE(v_settlement->>'type', '') NOT IN ('settlement', 'adjustment')
+       OR jsonb_typeof(v_settlement->'timestamp') IS DISTINCT FROM 'number'
+       OR jsonb_typeof(v_settlement->'playerResults') IS DISTINCT FROM 'object' THEN
+      RETURN jsonb_build_object('error', '精算履歴が不正です');
+    END IF;
+  END LOOP;
+
+  v_before := public._build_snapshot(COALESCE(v_room.current_state, '{}'::jsonb));
+
+  -- 精算行（元の日時順を維持）
+  FOR v_settlement IN SELECT * FROM jsonb_array_elements(p_settlements)
+  LOOP
+    INSERT INTO public.room_settlements (room_id, type, player_results, created_at, imported)
+    VALUES (
+      p_room_id,
+      v_settlement->>'type',
+      v_settlement->'playerResults',
+      to_timestamp((v_settlement->>'timestamp')::numeric / 1000),
+      true
+    );
+    IF v_settlement->>'type' = 'settlement' THEN
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  v_msg := 'ゲーム記録をインポート（精算 ' || v_count || ' 回）';
+  v_state := public._push_recent_log(p_current_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = p_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'import', NULL, NULL, NULL,
+    jsonb_build_object('settlementCount', v_count));
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_import_game_record(UUID, JSONB, JSONB, JSONB, BIGINT) TO authenticated;
@@ -0,0 +1,30 @@
+-- ============================================
+-- グループの閲覧をメンバーに限定
+-- 020 の SELECT ポリシーが USING (true) だったため、未ログインを含む誰でも
+-- すべてのグループの group_code を読み取れた。読み取ったコードで rpc_join_group を呼べば
+-- メンバーになれるため、rpc_get_group_leaderboard のメンバー確認が意味を持たなかった。
+--   groups        : オーナーとメンバーのみ閲覧可能
+--   group_members : 自分の行と、自分が所属するグループの行のみ閲覧可能
+-- 参加は引き続きコードを知っている（メンバーから共有された）ユーザーが rpc_join_group で行う。
+-- _is_group_member は SECURITY DEFINER のため、ポリシー内で使っても RLS は再帰しない。
+-- ============================================
+
+
+-- --------------------------------------------
+-- 1. groups
+-- --------------------------------------------
+DROP POLICY IF EXISTS "Anyone can view groups" ON public.groups;
+
+CREATE POLICY "Members can view their groups"
+  ON public.groups FOR SELECT
+  USING (owner_user_id = auth.uid() OR public._is_group_member(id));
+
+
+-- --------------------------------------------
+-- 2. group_members
+-- --------------------------------------------
+DROP POLICY IF EXISTS "Anyone can view group members" ON public.group_members;
+
+CREATE POLICY "Members can view members of their groups"
+  ON public.group_members FOR SELECT
+  USING (user_id = auth.uid() OR public._is_group_member(group_id));
@@ -0,0 +1,91 @@
+-- ============================================
+-- rpc_force_leave_seat をホスト専用にする
+-- 014 では切断検知が全クライアントで動いていたため、認証済みユーザーなら誰でも
+-- 任意のルームの任意のユーザーを強制離席させられた。
+-- 031 で切断タイムアウトはサーバー側の release_stale_seats に移り、
+-- クライアントからの呼び出しはホストの強制離席操作だけになったため、
+-- ホスト・コホスト（および service_role）以外は拒否する。
+-- ============================================
+
+
+-- ============================================
+-- RPC 関数（1個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_force_leave_seat: 指定ユーザーを座席から強制離席（ホスト・コホスト専用）
+--   冪等: 既に離席済みなら履歴を残さず成功を返す
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_force_leave_seat(
+  p_room_id UUID,
+  p_target_user_id TEXT,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_index INTEGER;
+  v_display_name TEXT;
+  v_msg TEXT;
+BEGIN
+  IF auth.uid() IS NULL AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RETURN public._seat_error('unauthenticated', 'ユーザーが認証されていません');
+  END IF;
+
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN public._seat_error('room_not_found', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  -- 切断タイムアウトは release_stale_seats が行うため、クライアントからはホスト操作のみ
+  -- （_is_room_host は service_role も許可する）
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN public._seat_error('not_host', 'ホストのみが強制離席させられます');
+  END IF;
+
+  v_seats := COALESCE(v_room.seats, '[null, null, null, null]'::jsonb);
+  v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+
+  v_index := public._find_seat_index(v_seats, p_target_user_id);
+  IF v_index < 0 THEN
+    RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+  v_display_name := public._seat_display_name(v_seats, v_state, p_target_user_id);
+  v_msg := '強制離席: ' || v_display_name;
+
+  v_seats := jsonb_set(v_seats, ARRAY[v_index::text], 'null'::jsonb);
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms
+  SET seats = v_seats, current_state = v_state
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'force_leave_seat', NULL, p_target_user_id, NULL,
+    jsonb_build_object('name', v_display_name));
+
+  RETURN jsonb_build_object('success', true, 'room', to_jsonb(v_room));
+END;
+$$;
+
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_force_leave_seat(UUID, TEXT, BIGINT) TO authenticated;
@@ -0,0 +1,221 @@
+-- ============================================
+-- クライアントの操作IDによる重複排除
+-- 032 の p_client_op_id は戻り値と __recent_log__ に含めて返すだけだったため、
+-- 通信エラーで応答を受け取れなかった移動を送り直すと（送信待ちの再送を含む）、
+-- 最初の送信がサーバーに届いていた場合に同じ移動が2回適用された。
+-- rpc_transfer_score は、同じ操作IDが既に適用済みなら何も変更せず成功を返す。
+--   判定 : __recent_log__ のエントリ、または room_history.payload の clientOpId
+--          （直近ログは5件しか残らないため、履歴にも操作IDを記録する）
+--   戻り値: {success: true, clientOpId, version}
+--          version は操作を反映した後の state_version（重複時は現在の値、操作ID指定時のみ）。
+--          クライアントは手元のルームがこのバージョンに達した時点で楽観的な反映を取り除く
+-- ============================================
+
+
+-- ============================================
+-- ヘルパー関数（内部用）
+-- ============================================
+
+-- _client_op_applied: 操作IDがルームに適用済みか
+CREATE OR REPLACE FUNCTION public._client_op_applied(
+  p_room public.rooms,
+  p_client_op_id TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+AS $$
+  SELECT p_client_op_id IS NOT NULL AND (
+    EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(COALESCE(p_room.current_state->'__recent_log__', '[]'::jsonb)) AS entry
+      WHERE entry->>'clientOpId' = p_client_op_id
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.room_history h
+      WHERE h.room_id = p_room.id
+        AND h.event_type = 'transfer'
+        AND h.payload->>'clientOpId' = p_client_op_id
+    )
+  );
+$$;
+
+
+-- ============================================
+-- RPC 関数（1個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_transfer_score: 適用済みの操作IDは重複として扱い、反映後のバージョンを返すよう再定義
+--   引数は 033 と同じ
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_transfer_score(
+  p_room_id UUID,
+  p_from_id TEXT,
+  p_to_id TEXT,
+  p_transfers JSONB,   -- [{variable, amount}, ...]
+  p_from_name TEXT DEFAULT NULL,
+  p_to_name TEXT DEFAULT NULL,
+  p_client_op_id TEXT DEFAULT NULL,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_template JSONB;
+  v_tpl_vars JSONB;
+  v_before JSONB;
+  v_transfer JSONB;
+  v_var TEXT;
+  v_amount NUMERIC;
+  v_from_val NUMERIC;
+  v_to_val NUMERIC;
+  v_display_from TEXT;
+  v_display_to TEXT;
+  v_details TEXT := '';
+  v_label TEXT;
+  v_msg TEXT;
+  v_transfers JSONB := '[]'::jsonb;
+  v_constraint_error TEXT;
+  v_version BIGINT;
+BEGIN
+  -- 1. 行ロック取得
+  SELECT * INTO v_room
+  FROM public.rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 同じ操作IDの再送（応答を受け取れなかった場合の再試行・送信待ちの再送）は適用せず成功を返す
+  IF public._client_op_applied(v_room, p_client_op_id) THEN
+    RETURN jsonb_build_object('success', true, 'clientOpId', p_client_op_id,
+      'version', v_room.state_version, 'duplicate', true);
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  -- 2. 権限チェック
+  IF p_from_id = '__pot__' THEN
+    IF NOT public._has_permission(v_room, 'retrieve_pot') THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+  ELSE
+    IF NOT public._has_permission(v_room, 'transfer_score') THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+    -- プレイヤー権限では他人のスコアを動かせない
+    IF NOT public._is_room_host(v_room) AND p_from_id IS DISTINCT FROM auth.uid()::text THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+  END IF;
+
+  v_state := v_room.current_state;
+  v_template := v_room.template;
+  v_tpl_vars := COALESCE(v_template->'variables', '[]'::jsonb);
+
+  -- 3. 操作前スナップショット
+  v_before := public._build_snapshot(v_state);
+
+  -- 4. transfers を順に処理
+  FOR v_transfer IN SELECT * FROM jsonb_array_elements(p_transfers)
+  LOOP
+    v_var := v_transfer->>'variable';
+    v_amount := (v_transfer->>'amount')::numeric;
+    -- 負の値を渡すと移動の向きが逆になり、相手から自分へ移せてしまうため拒否する
+    IF v_var IS NULL OR v_amount IS NULL OR v_amount <= 0 THEN
+      RETURN jsonb_build_object('error', '移動量が不正です');
+    END IF;
+
+    IF p_from_id = '__pot__' THEN
+      -- Pot → プレイヤー
+      IF COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) < v_amount THEN
+        RETURN jsonb_build_object('error', '供託金が不足しています');
+      END IF;
+      v_state := jsonb_set(v_state, ARRAY['__pot__', v_var],
+        to_jsonb(COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) - v_amount));
+      IF NOT v_state ? p_to_id THEN
+        RETURN jsonb_build_object('error', '送信先プレイヤーが見つかりません');
+      END IF;
+      v_state := jsonb_set(v_state, ARRAY[p_to_id, v_var],
+        to_jsonb(COALESCE((v_state->p_to_id->>v_var)::numeric, 0) + v_amount));
+
+    ELSIF p_to_id = '__pot__' THEN
+      -- プレイヤー → Pot
+      IF NOT v_state ? p_from_id THEN
+        RETURN jsonb_build_object('error', '送信元プレイヤーが見つかりません');
+      END IF;
+      v_from_val := COALESCE((v_state->p_from_id->>v_var)::numeric, 0);
+      v_state := jsonb_set(v_state, ARRAY[p_from_id, v_var], to_jsonb(v_from_val - v_amount));
+      -- __pot__ が存在しなければ初期化
+      IF NOT v_state ? '__pot__' THEN
+        v_state := jsonb_set(v_state, '{__pot__}', '{}'::jsonb);
+      END IF;
+      v_state := jsonb_set(v_state, ARRAY['__pot__', v_var],
+        to_jsonb(COALESCE((v_state->'__pot__'->>v_var)::numeric, 0) + v_amount));
+
+    ELSE
+      -- プレイヤー間
+      IF NOT v_state ? p_from_id OR NOT v_state ? p_to_id THEN
+        RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+      END IF;
+      v_from_val := COALESCE((v_state->p_from_id->>v_var)::numeric, 0);
+      v_state := jsonb_set(v_state, ARRAY[p_from_id, v_var], to_jsonb(v_from_val - v_amount));
+      v_state := jsonb_set(v_state, ARRAY[p_to_id, v_var],
+        to_jsonb(COALESCE((v_state->p_to_id->>v_var)::numeric, 0) + v_amount));
+    END IF;
+
+    -- ラベル取得
+    v_label := public._get_variable_label(v_tpl_vars, v_var);
+    IF v_details != '' THEN v_details := v_details || ', '; END IF;
+    v_details := v_details || v_label || ' ' || v_amount::text;
+    v_transfers := v_transfers || jsonb_build_array(
+      jsonb_build_object('variable', v_var, 'amount', v_amount));
+  END LOOP;
+
+  -- 5. 履歴メッセージ
+  v_display_from := COALESCE(p_from_name,
+    CASE WHEN p_from_id = '__pot__' THEN '供託回収' ELSE left(p_from_id, 8) END);
+  v_display_to := COALESCE(p_to_name,
+    CASE WHEN p_to_id = '__pot__' THEN '供託' ELSE left(p_to_id, 8) END);
+  v_msg := v_display_from || ' → ' || v_display_to || ': ' || v_details;
+
+  -- 変数の制約（下限・上限・刻み・負の値）
+  v_constraint_error := public._check_variable_constraints(
+    v_room.template, v_room.current_state, v_state);
+  IF v_constraint_error IS NOT NULL THEN
+    RETURN jsonb_build_object('error', v_constraint_error);
+  END IF;
+
+  -- 6. __recent_log__ 更新
+  v_state := public._push_recent_log(v_state, v_msg, p_client_op_id);
+
+  -- 7. UPDATE rooms
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id
+  RETURNING state_version INTO v_version;
+
+  -- 8. INSERT room_history（構造化イベント付き）
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'transfer', p_from_id, p_to_id, v_transfers,
+    jsonb_strip_nulls(jsonb_build_object(
+      'fromName', p_from_name, 'toName', p_to_name, 'clientOpId', p_client_op_id)));
+
+  RETURN jsonb_strip_nulls(jsonb_build_object(
+    'success', true, 'clientOpId', p_client_op_id,
+    'version', CASE WHEN p_client_op_id IS NOT NULL THEN v_version END));
+END;
+$$;
+
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_transfer_score(UUID, TEXT, TEXT, JSONB, TEXT, TEXT, TEXT, BIGINT) TO authenticated;
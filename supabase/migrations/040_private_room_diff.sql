@@ -0,0 +1,88 @@
+-- ============================================
+-- ルーム差分を非公開トピックで送る
+-- 034 は room_diff を公開（private = false）のトピック room:<roomId> で送っていたため、
+-- どのクライアントも同じトピックに room_diff を送信でき、受信側は送信元を確かめずに適用していた。
+-- 偽の差分（手元 + 1 のバージョン）を受け取ると本物の差分が古いものとして捨てられ、
+-- 次にバージョンの飛びを検知するまで同期が外れたままになる。
+--   送信   : realtime.send を private = true で呼ぶ（トリガーからのみ送る）
+--   受信   : ルームを閲覧できるユーザーだけが room:<roomId> を購読できる
+--   送信禁止: クライアントからの room:<roomId> への送信（realtime.messages への INSERT）は許可しない
+-- クライアントは差分チャンネルを private: true で開く。
+-- ============================================
+
+
+-- ============================================
+-- 1. 差分を非公開で送る
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.broadcast_room_diff()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_payload JSONB;
+  v_state JSONB;
+  v_log JSONB;
+  v_columns JSONB;
+BEGIN
+  v_state := public._state_diff(
+    COALESCE(OLD.current_state, '{}'::jsonb), COALESCE(NEW.current_state, '{}'::jsonb));
+  v_log := public._recent_log_diff(
+    OLD.current_state->'__recent_log__', NEW.current_state->'__recent_log__');
+  IF v_log IS NULL THEN
+    -- 追記でない変更（取り消し・やり直しなど）はログを丸ごと置き換える
+    v_state := v_state || jsonb_build_object('__recent_log__', NEW.current_state->'__recent_log__');
+    v_log := '[]'::jsonb;
+  END IF;
+  v_columns := public._object_diff(
+    to_jsonb(OLD) - 'current_state' - 'state_version',
+    to_jsonb(NEW) - 'current_state' - 'state_version');
+
+  v_payload := jsonb_build_object('version', NEW.state_version);
+  IF v_state != '{}'::jsonb THEN
+    v_payload := v_payload || jsonb_build_object('state', v_state);
+  END IF;
+  IF jsonb_array_length(v_log) > 0 THEN
+    v_payload := v_payload || jsonb_build_object('log', v_log);
+  END IF;
+  IF v_columns != '{}'::jsonb THEN
+    v_payload := v_payload || jsonb_build_object('columns', v_columns);
+  END IF;
+
+  PERFORM realtime.send(v_payload, 'room_diff', 'room:' || NEW.id::text, true);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+
+-- ============================================
+-- 2. realtime.messages の RLS
+-- ============================================
+
+-- --------------------------------------------
+-- 受信: ルームを閲覧できるユーザーのみ
+--   rooms の SELECT ポリシーがそのまま適用される
+-- --------------------------------------------
+DROP POLICY IF EXISTS "Room viewers can receive room diffs" ON realtime.messages;
+
+CREATE POLICY "Room viewers can receive room diffs"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'broadcast'
+    AND realtime.topic() LIKE 'room:%'
+    AND EXISTS (
+      SELECT 1 FROM public.rooms r
+      WHERE 'room:' || r.id::text = realtime.topic()
+    )
+  );
+
+-- --------------------------------------------
+-- 送信: クライアントからは送らせない
+--   許可する INSERT ポリシーは作らない。ほかのトピック用に INSERT ポリシーが
+--   追加されても room:<roomId> には送れないよう、制限ポリシーでも塞いでおく
+-- --------------------------------------------
+DROP POLICY IF EXISTS "Clients cannot send room diffs" ON realtime.messages;
+
+CREATE POLICY "Clients cannot send room diffs"
+  ON realtime.messages AS RESTRICTIVE FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (realtime.topic() NOT LIKE 'room:%');
@@ -0,0 +1,311 @@
+-- ============================================
+-- 流局の支払いと局進行を1操作にまとめる
+-- これまでクライアントは rpc_apply_draw のあとに rpc_advance_round を別に呼んでいたため、
+-- 支払いが失敗しても局だけ進むことがあり、履歴も2行に分かれて undo 1回では片方しか戻らなかった。
+-- rpc_apply_draw に p_advance_round を追加し、指定時は同じトランザクションで局も進める。
+--   親のテンパイ / ノーテンは座席と __round__.dealerSeat から判定する
+--   履歴は event_type = 'draw' の1行（payload に進行後の round と dealerTenpai を含める）
+-- 局の進め方は rpc_advance_round と共通のヘルパー _next_round にまとめる。
+-- ============================================
+
+
+-- ============================================
+-- ヘルパー関数（内部用）
+-- ============================================
+
+-- _next_round: 局結果から次の局を求める
+--   dealer_win / 親テンパイの流局 : 連荘（本場 +1）
+--   親ノーテンの流局              : 親流れ（本場 +1）
+--   non_dealer_win                : 親流れ（本場 0）
+--   親流れで局が座席数を超えたら次の場風の1局に進む
+CREATE OR REPLACE FUNCTION public._next_round(
+  p_round JSONB,
+  p_seat_count INTEGER,
+  p_result TEXT,
+  p_dealer_tenpai BOOLEAN
+)
+RETURNS JSONB
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+DECLARE
+  v_winds TEXT[] := ARRAY['east', 'south', 'west', 'north'];
+  v_wind_index INTEGER;
+  v_hand INTEGER;
+  v_honba INTEGER;
+  v_dealer INTEGER;
+BEGIN
+  v_wind_index := COALESCE(array_position(v_winds, p_round->>'wind'), 1);
+  v_hand := COALESCE((p_round->>'hand')::int, 1);
+  v_honba := COALESCE((p_round->>'honba')::int, 0);
+  v_dealer := COALESCE((p_round->>'dealerSeat')::int, 0);
+
+  IF p_result = 'dealer_win' OR (p_result = 'draw' AND p_dealer_tenpai) THEN
+    -- 連荘
+    v_honba := v_honba + 1;
+  ELSE
+    -- 親流れ
+    v_honba := CASE WHEN p_result = 'draw' THEN v_honba + 1 ELSE 0 END;
+    v_dealer := (v_dealer + 1) % p_seat_count;
+    v_hand := v_hand + 1;
+    IF v_hand > p_seat_count THEN
+      v_hand := 1;
+      v_wind_index := v_wind_index % 4 + 1;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'wind', v_winds[v_wind_index],
+    'hand', v_hand,
+    'honba', v_honba,
+    'dealerSeat', v_dealer,
+    'startSeat', COALESCE((p_round->>'startSeat')::int, 0)
+  );
+END;
+$$;
+
+
+-- ============================================
+-- RPC 関数（2個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_advance_round: 局を進める（_next_round を使う、動作は変更なし）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_advance_round(
+  p_room_id UUID,
+  p_result TEXT,
+  p_dealer_tenpai BOOLEAN DEFAULT TRUE,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_next JSONB;
+  v_result_label TEXT;
+  v_msg TEXT;
+BEGIN
+  IF p_result NOT IN ('dealer_win', 'draw', 'non_dealer_win') THEN
+    RETURN jsonb_build_object('error', '不正な局結果です');
+  END IF;
+
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'edit_counter') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_before := public._build_snapshot(v_state);
+  v_next := public._next_round(
+    COALESCE(v_state->'__round__', public._initial_round(0)),
+    GREATEST(COALESCE(jsonb_array_length(v_room.seats), 4), 1),
+    p_result, p_dealer_tenpai);
+
+  v_result_label := CASE p_result
+    WHEN 'dealer_win' THEN '親のアガリ'
+    WHEN 'non_dealer_win' THEN '子のアガリ'
+    WHEN 'draw' THEN CASE WHEN p_dealer_tenpai THEN '流局・親テンパイ' ELSE '流局・親ノーテン' END
+  END;
+  v_msg := '局進行: ' || public._format_round(v_next) || '（' || v_result_label || '）';
+
+  v_state := jsonb_set(v_state, '{__round__}', v_next);
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'round', NULL, NULL, NULL,
+    jsonb_strip_nulls(jsonb_build_object(
+      'roundResult', p_result,
+      'dealerTenpai', CASE WHEN p_result = 'draw' THEN to_jsonb(p_dealer_tenpai) END,
+      'round', v_next)));
+
+  RETURN jsonb_build_object('success', true, 'round', v_next);
+END;
+$$;
+
+-- -----------------------------------------------
+-- rpc_apply_draw: 流局のノーテン罰符を反映（transfer_score、ホストのみ）
+--   p_advance_round : true なら同じ操作で局も進める（edit_counter も必要）
+-- -----------------------------------------------
+DROP FUNCTION IF EXISTS public.rpc_apply_draw(UUID, JSONB, TEXT, NUMERIC, BIGINT);
+
+CREATE OR REPLACE FUNCTION public.rpc_apply_draw(
+  p_room_id UUID,
+  p_tenpai_ids JSONB,
+  p_variable TEXT DEFAULT 'score',
+  p_total NUMERIC DEFAULT 3000,
+  p_expected_version BIGINT DEFAULT NULL,
+  p_advance_round BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_seat JSONB;
+  v_player_id TEXT;
+  v_player_ids TEXT[] := ARRAY[]::TEXT[];
+  v_tenpai_id TEXT;
+  v_tenpai_count INTEGER := 0;
+  v_noten_count INTEGER;
+  v_tenpai_amount NUMERIC;
+  v_noten_amount NUMERIC;
+  v_tenpai BOOLEAN;
+  v_amount NUMERIC;
+  v_name TEXT;
+  v_results JSONB := '[]'::jsonb;
+  v_tenpai_names TEXT := '';
+  v_noten_names TEXT := '';
+  v_msg TEXT;
+  v_constraint_error TEXT;
+  v_round JSONB;
+  v_next JSONB;
+  v_dealer_id TEXT;
+  v_dealer_tenpai BOOLEAN;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'transfer_score')
+    OR NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  -- 局も進める場合は局進行（rpc_advance_round）と同じ権限が必要
+  IF p_advance_round AND NOT public._has_permission(v_room, 'edit_counter') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  IF jsonb_typeof(p_tenpai_ids) != 'array' OR p_total IS NULL OR p_total <= 0 THEN
+    RETURN jsonb_build_object('error', '支払いがありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_before := public._build_snapshot(v_state);
+
+  -- 着席中のプレイヤー（座席順）
+  FOR v_seat IN SELECT * FROM jsonb_array_elements(COALESCE(v_room.seats, '[]'::jsonb))
+  LOOP
+    v_player_id := v_seat->>'userId';
+    IF v_player_id IS NOT NULL AND v_state ? v_player_id THEN
+      v_player_ids := v_player_ids || v_player_id;
+    END IF;
+  END LOOP;
+
+  FOR v_tenpai_id IN SELECT jsonb_array_elements_text(p_tenpai_ids)
+  LOOP
+    IF NOT v_tenpai_id = ANY(v_player_ids) THEN
+      RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+    END IF;
+  END LOOP;
+
+  SELECT count(*) INTO v_tenpai_count
+  FROM unnest(v_player_ids) AS id
+  WHERE p_tenpai_ids ? id;
+  v_noten_count := array_length(v_player_ids, 1) - v_tenpai_count;
+
+  -- 全員テンパイ・全員ノーテンは収支なし
+  IF v_tenpai_count = 0 OR COALESCE(v_noten_count, 0) = 0 THEN
+    RETURN jsonb_build_object('error', '支払いがありません');
+  END IF;
+
+  -- 1人あたりの受け取り・支払い（割り切れる場合は小数部を付けない）
+  v_tenpai_amount := trim_scale(p_total / v_tenpai_count);
+  v_noten_amount := trim_scale(p_total / v_noten_count);
+
+  FOREACH v_player_id IN ARRAY v_player_ids
+  LOOP
+    v_tenpai := p_tenpai_ids ? v_player_id;
+    v_amount := CASE WHEN v_tenpai THEN v_tenpai_amount ELSE -v_noten_amount END;
+
+    v_state := jsonb_set(v_state, ARRAY[v_player_id, p_variable],
+      to_jsonb(COALESCE((v_state->v_player_id->>p_variable)::numeric, 0) + v_amount));
+
+    v_name := public._seat_display_name(v_room.seats, v_state, v_player_id);
+    IF v_tenpai THEN
+      IF v_tenpai_names != '' THEN v_tenpai_names := v_tenpai_names || ', '; END IF;
+      v_tenpai_names := v_tenpai_names || v_name;
+    ELSE
+      IF v_noten_names != '' THEN v_noten_names := v_noten_names || ', '; END IF;
+      v_noten_names := v_noten_names || v_name;
+    END IF;
+    v_results := v_results || jsonb_build_array(jsonb_build_object(
+      'playerId', v_player_id, 'name', v_name, 'tenpai', v_tenpai, 'amount', v_amount));
+  END LOOP;
+
+  -- 履歴メッセージ（例: 流局: テンパイ Alice, Bob +1500 / ノーテン Carol, Dave -1500）
+  v_msg := '流局: テンパイ ' || v_tenpai_names || ' +' || v_tenpai_amount::text
+    || ' / ノーテン ' || v_noten_names || ' -' || v_noten_amount::text;
+
+  -- 局も進める（親がテンパイなら連荘、ノーテンなら親流れ）
+  IF p_advance_round THEN
+    v_round := COALESCE(v_state->'__round__', public._initial_round(0));
+    v_dealer_id := v_room.seats->((v_round->>'dealerSeat')::int)->>'userId';
+    v_dealer_tenpai := v_dealer_id IS NOT NULL AND p_tenpai_ids ? v_dealer_id;
+    v_next := public._next_round(
+      v_round,
+      GREATEST(COALESCE(jsonb_array_length(v_room.seats), 4), 1),
+      'draw', v_dealer_tenpai);
+    v_state := jsonb_set(v_state, '{__round__}', v_next);
+    v_msg := v_msg || '（局進行: ' || public._format_round(v_next) || '）';
+  END IF;
+
+  -- 変数の制約（下限・上限・刻み・負の値）
+  v_constraint_error := public._check_variable_constraints(
+    v_room.template, v_room.current_state, v_state);
+  IF v_constraint_error IS NOT NULL THEN
+    RETURN jsonb_build_object('error', v_constraint_error);
+  END IF;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'draw', NULL, NULL, NULL,
+    jsonb_build_object('variable', p_variable, 'drawResults', v_results)
+      || jsonb_strip_nulls(jsonb_build_object(
+        'dealerTenpai', v_dealer_tenpai,
+        'round', v_next)));
+
+  IF p_advance_round THEN
+    RETURN jsonb_build_object('success', true, 'round', v_next);
+  END IF;
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_advance_round(UUID, TEXT, BOOLEAN, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_apply_draw(UUID, JSONB, TEXT, NUMERIC, BIGINT, BOOLEAN) TO authenticated;
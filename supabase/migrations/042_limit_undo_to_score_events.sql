@@ -0,0 +1,186 @@
+-- ============================================
+-- 取り消し・やり直しの対象をスコアを変える操作に限定
+-- 023 の _insert_history はすべての履歴追加で Redo スタックを破棄していたため、
+-- 着席・離席（再接続や release_stale_seats の切断タイムアウトを含む）の記録が入るたびに
+-- ホストの やり直しが消えていた。rpc_undo_last も最新の有効な行を対象にしていたため、
+-- 着席・離席の行を取り消すとスコアは変わらず、取り消しが空振りしていた。
+--   _is_undoable_event : 取り消し・やり直しの対象か（スコア・局を変える操作と 021 以前の行）
+--   _insert_history    : 対象の操作が入ったときだけ Redo スタックを破棄する
+--   rpc_undo_last      : 対象の操作のうち最新の有効な行を取り消す
+-- 着席・離席の行は履歴には残り、ロールバックでは従来どおり取り消し済みになる。
+-- ============================================
+
+
+-- ============================================
+-- ヘルパー関数（内部用）
+-- ============================================
+
+-- 1. _is_undoable_event: 取り消し・やり直しの対象となる操作か
+--   スコア・供託・局を変える操作のみ。ゲスト削除はスコアも消すため対象に含める
+--   021 以前の行（event_type が NULL）はスコア操作のみのため対象
+CREATE OR REPLACE FUNCTION public._is_undoable_event(p_event_type TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT p_event_type IS NULL OR p_event_type IN (
+    'transfer', 'multi_transfer', 'force_edit', 'reset', 'rollback',
+    'settlement', 'adjustment', 'import', 'round', 'win', 'draw',
+    'custom_action', 'remove_fake_player'
+  );
+$$;
+
+-- 2. _insert_history: スコアを変える操作のときだけ Redo スタックを破棄するよう再定義
+CREATE OR REPLACE FUNCTION public._insert_history(
+  p_room_id UUID,
+  p_message TEXT,
+  p_snapshot JSONB,
+  p_event_type TEXT,
+  p_from_id TEXT DEFAULT NULL,
+  p_to_id TEXT DEFAULT NULL,
+  p_transfers JSONB DEFAULT NULL,
+  p_payload JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_state JSONB;
+  v_id UUID;
+BEGIN
+  SELECT current_state INTO v_state
+  FROM public.rooms WHERE id = p_room_id;
+
+  -- 新しい操作が入ったら やり直しはできない（着席・離席などスコアを変えない記録では破棄しない）
+  IF public._is_undoable_event(p_event_type) THEN
+    UPDATE public.room_history
+    SET redo_state = NULL
+    WHERE room_id = p_room_id AND redo_state IS NOT NULL;
+  END IF;
+
+  INSERT INTO public.room_history (
+    room_id, message, snapshot, event_type, actor_id, actor_name,
+    from_id, to_id, transfers, payload
+  )
+  VALUES (
+    p_room_id, p_message, p_snapshot, p_event_type, auth.uid(),
+    public._actor_display_name(COALESCE(v_state, '{}'::jsonb)),
+    p_from_id, p_to_id, p_transfers, p_payload
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+
+-- ============================================
+-- RPC 関数（1個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_undo_last: 着席・離席などの記録を飛ばして取り消す
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_undo_last(
+  p_room_id UUID,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_entry RECORD;
+  v_restored JSONB;
+  v_recent_log JSONB;
+  v_settlements JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._is_room_host(v_room) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+
+  -- 最新の有効なエントリ取得（着席・離席などの記録は飛ばす）
+  SELECT * INTO v_entry
+  FROM public.room_history
+  WHERE room_id = p_room_id AND reverted_at IS NULL
+    AND public._is_undoable_event(event_type)
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', '取り消せる操作がありません');
+  END IF;
+
+  -- snapshot を復元（着席プレイヤー・離席者の補完）
+  v_restored := public._ensure_seated_players(
+    v_entry.snapshot,
+    COALESCE(v_room.seats, '[]'::jsonb),
+    COALESCE(v_room.template->'variables', '[]'::jsonb),
+    v_state
+  );
+
+  IF v_entry.event_type = 'rollback' THEN
+    -- ロールバックで削除した精算行を戻し、取り消した履歴を有効に戻す
+    INSERT INTO public.room_settlements
+    SELECT * FROM jsonb_populate_recordset(
+      NULL::public.room_settlements,
+      COALESCE(v_entry.payload->'removedSettlements', '[]'::jsonb)
+    );
+
+    UPDATE public.room_history
+    SET reverted_at = NULL
+    WHERE reverted_by = v_entry.id;
+  ELSE
+    -- 対応する精算レコードを削除（精算操作の undo 時）。やり直し用に保存する
+    SELECT COALESCE(jsonb_agg(to_jsonb(s)), '[]'::jsonb) INTO v_settlements
+    FROM public.room_settlements s
+    WHERE room_id = p_room_id AND created_at = v_entry.created_at;
+
+    DELETE FROM public.room_settlements
+    WHERE room_id = p_room_id AND created_at = v_entry.created_at;
+  END IF;
+
+  -- エントリを取り消し済みにする
+  UPDATE public.room_history
+  SET reverted_at = now(),
+      redo_state = jsonb_build_object(
+        'snapshot', public._build_snapshot(v_state),
+        'settlements', v_settlements
+      )
+  WHERE id = v_entry.id;
+
+  -- __recent_log__: undo した操作メッセージを除去
+  v_recent_log := COALESCE(v_state->'__recent_log__', '[]'::jsonb);
+  v_recent_log := (
+    SELECT COALESCE(jsonb_agg(elem), '[]'::jsonb)
+    FROM jsonb_array_elements(v_recent_log) AS elem
+    WHERE elem->>'message' != v_entry.message
+  );
+  v_restored := jsonb_set(v_restored, '{__recent_log__}', v_recent_log);
+
+  UPDATE public.rooms SET current_state = v_restored WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_undo_last(UUID, BIGINT) TO authenticated;
@@ -0,0 +1,126 @@
+-- ============================================
+-- 切断タイムアウトの対象ルームを絞る
+-- 031 の release_stale_seats は1分ごとに実ユーザーが着席しているすべてのルーム
+-- （終了したルームを含む）を FOR UPDATE SKIP LOCKED でロックしていた。
+-- 同じ時刻に操作しようとしたホストの RPC がロック待ちになり、終了したルームでも
+-- 離席の履歴が書き込まれていた。
+--   対象   : status が finished でなく、タイムアウトした着席者の応答記録があるルームのみ
+--   計測開始: 応答記録の無い着席者の記録は、ルームをロックせずにまとめて作る
+-- ============================================
+
+
+-- ============================================
+-- 定期実行関数
+-- ============================================
+
+-- -----------------------------------------------
+-- release_stale_seats: 応答が forceLeaveTimeoutSec（既定 600 秒）途絶えた実ユーザーを離席
+--   終了したルームは対象外
+--   戻り値: 解放した座席数
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.release_stale_seats()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_seats JSONB;
+  v_state JSONB;
+  v_before JSONB;
+  v_seat JSONB;
+  v_index INTEGER;
+  v_uid TEXT;
+  v_timeout INTEGER;
+  v_last_seen TIMESTAMP WITH TIME ZONE;
+  v_display_name TEXT;
+  v_msg TEXT;
+  v_changed BOOLEAN;
+  v_released INTEGER := 0;
+BEGIN
+  -- 応答記録の無い着席者は、この時点から計測を始める（ルームはロックしない）
+  INSERT INTO public.room_presence (room_id, user_id)
+  SELECT r.id, s->>'userId'
+  FROM public.rooms r
+  CROSS JOIN LATERAL jsonb_array_elements(COALESCE(r.seats, '[]'::jsonb)) AS s
+  WHERE r.status <> 'finished'
+    AND jsonb_typeof(s) = 'object'
+    AND NOT COALESCE((s->>'isFake')::boolean, false)
+    AND s->>'userId' IS NOT NULL
+  ON CONFLICT (room_id, user_id) DO NOTHING;
+
+  -- タイムアウトした着席者がいるルームだけをロックする
+  FOR v_room IN
+    SELECT * FROM public.rooms r
+    WHERE r.status <> 'finished'
+      AND EXISTS (
+        SELECT 1
+        FROM public.room_presence p
+        CROSS JOIN LATERAL jsonb_array_elements(COALESCE(r.seats, '[]'::jsonb)) AS s
+        WHERE p.room_id = r.id
+          AND jsonb_typeof(s) = 'object'
+          AND NOT COALESCE((s->>'isFake')::boolean, false)
+          AND s->>'userId' = p.user_id
+          AND p.last_seen_at < now() - make_interval(
+            secs => COALESCE((r.template->>'forceLeaveTimeoutSec')::integer, 600))
+      )
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_seats := v_room.seats;
+    v_state := COALESCE(v_room.current_state, '{}'::jsonb);
+    v_timeout := COALESCE((v_room.template->>'forceLeaveTimeoutSec')::integer, 600);
+    v_changed := false;
+
+    FOR v_index IN 0 .. jsonb_array_length(v_seats) - 1
+    LOOP
+      v_seat := v_seats->v_index;
+      CONTINUE WHEN jsonb_typeof(v_seat) IS DISTINCT FROM 'object'
+        OR COALESCE((v_seat->>'isFake')::boolean, false);
+      v_uid := v_seat->>'userId';
+
+      SELECT last_seen_at INTO v_last_seen
+      FROM public.room_presence
+      WHERE room_id = v_room.id AND user_id = v_uid;
+
+      IF v_last_seen IS NULL THEN
+        INSERT INTO public.room_presence (room_id, user_id)
+        VALUES (v_room.id, v_uid)
+        ON CONFLICT (room_id, user_id) DO NOTHING;
+        CONTINUE;
+      END IF;
+
+      CONTINUE WHEN v_last_seen >= now() - make_interval(secs => v_timeout);
+
+      v_before := public._build_snapshot(v_state);
+      v_display_name := public._seat_display_name(v_seats, v_state, v_uid);
+      v_msg := '切断により離席: ' || v_display_name;
+
+      v_seats := jsonb_set(v_seats, ARRAY[v_index::text], 'null'::jsonb);
+      v_state := public._push_recent_log(v_state, v_msg);
+      v_changed := true;
+      v_released := v_released + 1;
+
+      -- 再着席時に古い時刻で即座に解放されないよう記録を消す
+      DELETE FROM public.room_presence
+      WHERE room_id = v_room.id AND user_id = v_uid;
+
+      PERFORM public._insert_history(v_room.id, v_msg, v_before,
+        'force_leave_seat', NULL, v_uid, NULL,
+        jsonb_build_object('name', v_display_name, 'reason', 'timeout'));
+    END LOOP;
+
+    IF v_changed THEN
+      UPDATE public.rooms
+      SET seats = v_seats, current_state = v_state
+      WHERE id = v_room.id;
+    END IF;
+  END LOOP;
+
+  RETURN v_released;
+END;
+$$;
+
+
+-- release_stale_seats はスケジューラ（と service_role）専用
+REVOKE EXECUTE ON FUNCTION public.release_stale_seats() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.release_stale_seats() TO service_role;
@@ -0,0 +1,237 @@
+-- ============================================
+-- カスタム操作の「他の全員」を着席中のプレイヤーに限定する
+-- rpc_run_custom_action は current_state の全プレイヤーを「他の全員」としていたため、
+-- 麻雀レイアウトでは離席したプレイヤーや着席していないプレイヤーからも支払わせていた。
+-- 麻雀レイアウトでは seats の status = 'active' の着席者のみを対象にする。
+-- リストレイアウトは座席を使わないため、従来どおり current_state の全プレイヤー。
+-- ============================================
+
+
+-- ============================================
+-- RPC 関数（1個）
+-- ============================================
+
+-- -----------------------------------------------
+-- rpc_run_custom_action: カスタム操作を実行（transfer_score）
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION public.rpc_run_custom_action(
+  p_room_id UUID,
+  p_action_id TEXT,
+  p_actor_id TEXT,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room public.rooms%ROWTYPE;
+  v_state JSONB;
+  v_before JSONB;
+  v_tpl_vars JSONB;
+  v_action JSONB;
+  v_leg JSONB;
+  v_from TEXT;
+  v_to TEXT;
+  v_var TEXT;
+  v_amount NUMERIC;
+  v_others TEXT[];
+  v_froms TEXT[];
+  v_tos TEXT[];
+  v_id TEXT;
+  v_deltas JSONB := '{}'::jsonb;
+  v_order TEXT[] := ARRAY[]::TEXT[];
+  v_delta_var TEXT;
+  v_delta NUMERIC;
+  v_name TEXT;
+  v_actor_name TEXT;
+  v_part TEXT;
+  v_details TEXT := '';
+  v_payload_deltas JSONB := '[]'::jsonb;
+  v_msg TEXT;
+  v_constraint_error TEXT;
+BEGIN
+  SELECT * INTO v_room
+  FROM public.rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ルームが見つかりません');
+  END IF;
+
+  -- 楽観的排他: 呼び出し元が見ていたバージョンから変わっていれば競合
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_room.state_version THEN
+    RETURN public._state_version_conflict();
+  END IF;
+
+  IF NOT public._has_permission(v_room, 'transfer_score') THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  SELECT elem INTO v_action
+  FROM jsonb_array_elements(COALESCE(v_room.template->'customActions', '[]'::jsonb)) AS elem
+  WHERE elem->>'id' = p_action_id
+  LIMIT 1;
+
+  IF v_action IS NULL OR jsonb_typeof(v_action->'legs') IS DISTINCT FROM 'array'
+    OR jsonb_array_length(v_action->'legs') = 0 THEN
+    RETURN jsonb_build_object('error', '操作が見つかりません');
+  END IF;
+
+  -- プレイヤー権限では自分が実行者、かつ他の参加者から支払わせない操作のみ
+  IF NOT public._is_room_host(v_room) AND (
+    p_actor_id IS DISTINCT FROM auth.uid()::text
+    OR EXISTS (
+      SELECT 1 FROM jsonb_array_elements(v_action->'legs') AS leg
+      WHERE leg->>'from' = 'others'
+    )
+  ) THEN
+    RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+  END IF;
+
+  v_state := v_room.current_state;
+  v_tpl_vars := COALESCE(v_room.template->'variables', '[]'::jsonb);
+
+  IF p_actor_id IS NULL OR NOT v_state ? p_actor_id OR LEFT(p_actor_id, 2) = '__' THEN
+    RETURN jsonb_build_object('error', 'プレイヤーが見つかりません');
+  END IF;
+
+  v_before := public._build_snapshot(v_state);
+
+  -- 実行者以外の参加者
+  -- 麻雀レイアウトでは着席中のプレイヤーのみ（離席・未着席のプレイヤーには支払わせない）
+  IF v_room.template->>'layoutMode' = 'mahjong' THEN
+    v_others := ARRAY(
+      SELECT DISTINCT seat->>'userId'
+      FROM jsonb_array_elements(COALESCE(v_room.seats, '[]'::jsonb)) AS seat
+      WHERE jsonb_typeof(seat) = 'object'
+        AND seat->>'status' = 'active'
+        AND seat->>'userId' IS NOT NULL
+        AND seat->>'userId' != p_actor_id
+        AND v_state ? (seat->>'userId')
+      ORDER BY seat->>'userId'
+    );
+  ELSE
+    v_others := ARRAY(
+      SELECT key FROM jsonb_object_keys(v_state) AS key
+      WHERE LEFT(key, 2) != '__' AND key != p_actor_id
+      ORDER BY key
+    );
+  END IF;
+
+  -- 1. 定義を評価して参加者ごとの増減を集計
+  FOR v_leg IN SELECT * FROM jsonb_array_elements(v_action->'legs')
+  LOOP
+    v_from := v_leg->>'from';
+    v_to := v_leg->>'to';
+    v_var := v_leg->>'variable';
+    v_amount := (v_leg->>'amount')::numeric;
+
+    IF v_from NOT IN ('actor', 'others', 'pot', 'bank')
+      OR v_to NOT IN ('actor', 'others', 'pot', 'bank')
+      OR v_from = v_to
+      OR v_var IS NULL OR v_amount IS NULL OR v_amount <= 0 THEN
+      RETURN jsonb_build_object('error', '操作の定義が不正です');
+    END IF;
+
+    IF v_from = 'pot' AND NOT public._has_permission(v_room, 'retrieve_pot') THEN
+      RETURN jsonb_build_object('error', 'この操作を行う権限がありません');
+    END IF;
+
+    v_froms := CASE v_from
+      WHEN 'actor' THEN ARRAY[p_actor_id]
+      WHEN 'others' THEN v_others
+      WHEN 'pot' THEN ARRAY['__pot__']
+      ELSE ARRAY[]::TEXT[] END;
+    v_tos := CASE v_to
+      WHEN 'actor' THEN ARRAY[p_actor_id]
+      WHEN 'others' THEN v_others
+      WHEN 'pot' THEN ARRAY['__pot__']
+      ELSE ARRAY[]::TEXT[] END;
+
+    -- 「他の全員」は1人ずつ移動する（他の全員 → 実行者 なら実行者は人数分受け取る）
+    FOREACH v_id IN ARRAY v_froms
+    LOOP
+      v_deltas := public._add_delta(v_deltas, v_id, v_var,
+        -v_amount * CASE WHEN v_to = 'others' THEN cardinality(v_tos) ELSE 1 END);
+      IF NOT v_id = ANY(v_order) THEN v_order := v_order || v_id; END IF;
+    END LOOP;
+    FOREACH v_id IN ARRAY v_tos
+    LOOP
+      v_deltas := public._add_delta(v_deltas, v_id, v_var,
+        v_amount * CASE WHEN v_from = 'others' THEN cardinality(v_froms) ELSE 1 END);
+      IF NOT v_id = ANY(v_order) THEN v_order := v_order || v_id; END IF;
+    END LOOP;
+  END LOOP;
+
+  -- 2. 増減を反映し、履歴用の内訳を組み立てる
+  v_actor_name := public._seat_display_name(v_room.seats, v_state, p_actor_id);
+
+  FOREACH v_id IN ARRAY v_order
+  LOOP
+    v_name := CASE WHEN v_id = '__pot__' THEN '供託'
+      ELSE public._seat_display_name(v_room.seats, v_state, v_id) END;
+    v_part := '';
+
+    IF v_id = '__pot__' AND NOT v_state ? '__pot__' THEN
+      v_state := jsonb_set(v_state, '{__pot__}', '{}'::jsonb);
+    END IF;
+
+    FOR v_delta_var, v_delta IN
+      SELECT key, value::numeric FROM jsonb_each_text(v_deltas->v_id)
+    LOOP
+      IF v_delta = 0 THEN CONTINUE; END IF;
+
+      IF v_id = '__pot__' AND COALESCE((v_state->'__pot__'->>v_delta_var)::numeric, 0) + v_delta < 0 THEN
+        RETURN jsonb_build_object('error', '供託金が不足しています');
+      END IF;
+
+      v_state := jsonb_set(v_state, ARRAY[v_id, v_delta_var],
+        to_jsonb(COALESCE((v_state->v_id->>v_delta_var)::numeric, 0) + v_delta));
+
+      IF v_part != '' THEN v_part := v_part || ', '; END IF;
+      v_part := v_part || public._get_variable_label(v_tpl_vars, v_delta_var) || ' '
+        || CASE WHEN v_delta > 0 THEN '+' ELSE '' END || v_delta::text;
+      v_payload_deltas := v_payload_deltas || jsonb_build_array(jsonb_build_object(
+        'id', v_id, 'name', v_name, 'variable', v_delta_var, 'amount', v_delta));
+    END LOOP;
+
+    IF v_part != '' THEN
+      IF v_details != '' THEN v_details := v_details || ' / '; END IF;
+      v_details := v_details || v_name || ' ' || v_part;
+    END IF;
+  END LOOP;
+
+  -- 履歴メッセージ（例: ボーナス（Alice）: Alice 点数 +1000 / Bob 点数 -500 / Carol 点数 -500）
+  v_msg := (v_action->>'label') || '（' || v_actor_name || '）';
+  IF v_details != '' THEN
+    v_msg := v_msg || ': ' || v_details;
+  END IF;
+
+  -- 変数の制約（下限・上限・刻み・負の値）
+  v_constraint_error := public._check_variable_constraints(
+    v_room.template, v_room.current_state, v_state);
+  IF v_constraint_error IS NOT NULL THEN
+    RETURN jsonb_build_object('error', v_constraint_error);
+  END IF;
+
+  v_state := public._push_recent_log(v_state, v_msg);
+
+  UPDATE public.rooms SET current_state = v_state WHERE id = p_room_id;
+
+  PERFORM public._insert_history(p_room_id, v_msg, v_before,
+    'custom_action', NULL, p_actor_id, NULL,
+    jsonb_build_object(
+      'actionId', p_action_id,
+      'label', v_action->>'label',
+      'name', v_actor_name,
+      'deltas', v_payload_deltas));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+
+-- ============================================
+-- GRANT: authenticated ロールに実行権限を付与
+-- ============================================
+GRANT EXECUTE ON FUNCTION public.rpc_run_custom_action(UUID, TEXT, TEXT, BIGINT) TO authenticated;
@@ -0,0 +1,77 @@
+-- ============================================
+-- ゲストの成績をルームとIDで区別する
+-- _aggregate_player_stats はゲスト（fake_ で始まるID）を表示名で名寄せしていたため、
+-- 自動で付く表示名（プレイヤーA〜P）が同じ別ルームのゲストが1人として合算されていた。
+-- ゲストの player_key を 'guest:<ルームID>:<ゲストID>' にし、ルームごとに別のプレイヤーとして集計する。
+-- （ゲストID はミリ秒の時刻から作られ、別ルームで重なりうるためルームIDも含める）
+-- ============================================
+
+
+-- ============================================
+-- ヘルパー関数（内部用）
+-- ============================================
+
+-- _aggregate_player_stats: ゲストをルームとIDで区別して再定義
+CREATE OR REPLACE FUNCTION public._aggregate_player_stats(
+  p_room_ids UUID[],
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS JSONB
+LANGUAGE sql STABLE
+AS $$
+  WITH results AS (
+    SELECT
+      CASE WHEN e.key LIKE 'fake\_%' THEN 'guest:' || s.room_id::text || ':' || e.key
+           ELSE e.key END AS player_key,
+      e.key LIKE 'fake\_%' AS is_guest,
+      e.value->>'displayName' AS display_name,
+      s.type,
+      s.created_at,
+      (e.value->>'rank')::int AS rank,
+      (e.value->>'result')::numeric AS result
+    FROM public.room_settlements s
+    CROSS JOIN LATERAL jsonb_each(s.player_results) AS e
+    WHERE s.room_id = ANY(p_room_ids)
+      AND NOT s.imported
+      AND (p_from IS NULL OR s.created_at >= p_from)
+      AND (p_to IS NULL OR s.created_at < p_to)
+  ),
+  rank_counts AS (
+    SELECT player_key, jsonb_object_agg(rank::text, cnt) AS counts
+    FROM (
+      SELECT player_key, rank, COUNT(*) AS cnt
+      FROM results
+      WHERE type = 'settlement'
+      GROUP BY player_key, rank
+    ) c
+    GROUP BY player_key
+  ),
+  players AS (
+    SELECT
+      r.player_key,
+      bool_and(r.is_guest) AS is_guest,
+      (array_agg(r.display_name ORDER BY r.created_at DESC))[1] AS display_name,
+      COUNT(*) FILTER (WHERE r.type = 'settlement') AS games,
+      COALESCE(SUM(r.result), 0) AS total_result,
+      AVG(r.rank) FILTER (WHERE r.type = 'settlement') AS average_rank,
+      MAX(r.result) FILTER (WHERE r.type = 'settlement') AS best_result,
+      MIN(r.result) FILTER (WHERE r.type = 'settlement') AS worst_result
+    FROM results r
+    GROUP BY r.player_key
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'player_key', p.player_key,
+    'is_guest', p.is_guest,
+    'is_me', p.player_key = auth.uid()::text,
+    'display_name', p.display_name,
+    'games', p.games,
+    'total_result', p.total_result,
+    'average_rank', round(p.average_rank, 2),
+    'rank_counts', COALESCE(rc.counts, '{}'::jsonb),
+    'best_result', p.best_result,
+    'worst_result', p.worst_result
+  ) ORDER BY p.total_result DESC, p.average_rank ASC NULLS LAST), '[]'::jsonb)
+  FROM players p
+  LEFT JOIN rank_counts rc ON rc.player_key = p.player_key;
+$$;
@@ -7,7 +7,7 @@
  *
  * 前提:
  *   - ローカル Supabase が起動済み (supabase start)
- *   - マイグレーション適用済み (001〜008)
+ *   - マイグレーション適用済み (001〜015)
  *   - Anonymous Auth が有効（config.toml デフォルト）
  */
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
@@ -321,16 +321,13 @@ describe("leaveRoom: ルーム退出（RLS 適用下）", () => {
 
     roomIds.push(room!.id);
 
-    // ゲストが current_state から自分を除外して更新
-    const currentState = { ...room!.current_state };
-    delete currentState[guest.userId];
-
-    const { error } = await guest.client
-      .from("rooms")
-      .update({ current_state: currentState })
-      .eq("id", room!.id);
+    // ゲストが rpc_leave_game で current_state から自分を除外
+    const { data, error } = await guest.client.rpc("rpc_leave_game", {
+      p_room_id: room!.id,
+    });
 
     expect(error).toBeNull();
+    expect(data).toEqual({ success: true });
 
     // 確認: ゲストのエントリが消えている
     const { data: updated } = await admin
@@ -504,12 +501,13 @@ describe("room_name: ルーム名の設定・更新（RLS 適用下）", () => {
 
     roomIds.push(room!.id);
 
-    const { error } = await host.client
-      .from("rooms")
-      .update({ room_name: "新名前" })
-      .eq("id", room!.id);
+    const { data, error } = await host.client.rpc("rpc_update_room_name", {
+      p_room_id: room!.id,
+      p_room_name: "新名前",
+    });
 
     expect(error).toBeNull();
+    expect(data).toEqual({ success: true });
 
     const { data: updated } = await admin
       .from("rooms")
@@ -560,3 +558,80 @@ describe("room_name: ルーム名の設定・更新（RLS 適用下）", () => {
     expect(check!.room_name).toBe("ホストの部屋");
   });
 });
+
+// ================================================================
+// rooms の直接 UPDATE 禁止（015 で UPDATE ポリシーを削除）
+// ================================================================
+describe("rooms UPDATE: 直接更新の禁止（RLS 適用下）", () => {
+  it("RLS: ゲストは template / host_user_id / co_host_ids / seats を直接書き換えられない", async () => {
+    const host = await anonUser();
+    const guest = await anonUser();
+
+    const { data: room } = await host.client
+      .from("rooms")
+      .insert({
+        room_code: genCode(),
+        host_user_id: host.userId,
+        status: "waiting",
+        template: DEFAULT_TEMPLATE,
+        current_state: {},
+        seats: [null, null, null, null],
+      })
+      .select("id")
+      .single();
+
+    roomIds.push(room!.id);
+
+    const { data: result } = await guest.client
+      .from("rooms")
+      .update({
+        template: { variables: [] },
+        host_user_id: guest.userId,
+        co_host_ids: [guest.userId],
+        seats: [{ userId: guest.userId, status: "active" }, null, null, null],
+      })
+      .eq("id", room!.id)
+      .select();
+
+    // UPDATE ポリシーが無いため対象行が見つからず、更新0件
+    expect(result).toHaveLength(0);
+
+    const { data: check } = await admin
+      .from("rooms")
+      .select("template, host_user_id, co_host_ids, seats")
+      .eq("id", room!.id)
+      .single();
+
+    expect(check!.host_user_id).toBe(host.userId);
+    expect(check!.co_host_ids).toEqual([]);
+    expect(check!.seats).toEqual([null, null, null, null]);
+    expect(check!.template).toEqual(DEFAULT_TEMPLATE);
+  });
+
+  it("RLS: ホスト自身も直接 UPDATE はできない（RPC 経由のみ）", async () => {
+    const host = await anonUser();
+
+    const { data: room } = await host.client
+      .from("rooms")
+      .insert({
+        room_code: genCode(),
+        host_user_id: host.userId,
+        status: "waiting",
+        template: DEFAULT_TEMPLATE,
+        current_state: {},
+        seats: [null, null, null, null],
+      })
+      .select("id")
+      .single();
+
+    roomIds.push(room!.id);
+
+    const { data: result } = await host.client
+      .from("rooms")
+      .update({ status: "finished" })
+      .eq("id", room!.id)
+      .select();
+
+    expect(result).toHaveLength(0);
+  });
+});
@@ -45,6 +45,7 @@ import {
   updateCoHosts,
   updateRoomName,
   fetchMyPastRooms,
+  fetchAllHistory,
 } from "../../app/lib/roomApi";
 import type { GameTemplate } from "../../app/types";
 
@@ -717,3 +718,52 @@ describe("roomApi シナリオテスト: fetchMyPastRooms", () => {
     expect(rooms).toHaveLength(0);
   });
 });
+
+describe("roomApi シナリオテスト: fetchAllHistory", () => {
+  let admin: SupabaseClient;
+  let host: AnonUser;
+  let roomId: string | null = null;
+
+  beforeEach(async () => {
+    admin = createServiceClient();
+    host = await createAnonUser();
+  });
+
+  afterEach(async () => {
+    if (roomId) await admin.from("rooms").delete().eq("id", roomId);
+    roomId = null;
+    await cleanupAnonUser(admin, host.userId);
+  });
+
+  it("created_at が同じ履歴がページ境界をまたいでも取りこぼさない", async () => {
+    setClient(host.client);
+    const { room } = await createRoom(TEST_TEMPLATE, "履歴ページング");
+    expect(room).toBeDefined();
+    roomId = room.id;
+
+    // 同じ時刻の履歴を5件（ページサイズ2で3ページに分かれる）
+    const createdAt = "2026-01-01T12:00:00.123456+00:00";
+    const { error: insertError } = await admin.from("room_history").insert(
+      [1, 2, 3, 4, 5].map((i) => ({
+        room_id: room.id,
+        message: `操作${i}`,
+        snapshot: {},
+        created_at: createdAt,
+      }))
+    );
+    expect(insertError).toBeNull();
+
+    setClient(host.client);
+    const { entries, error } = await fetchAllHistory(room.id, 2);
+
+    expect(error).toBeNull();
+    expect(entries.map((e) => e.message).sort()).toEqual([
+      "操作1",
+      "操作2",
+      "操作3",
+      "操作4",
+      "操作5",
+    ]);
+    expect(new Set(entries.map((e) => e.id)).size).toBe(5);
+  });
+});
@@ -106,11 +106,12 @@ export async function getSettlements(
     type: string;
     player_results: unknown;
     created_at: string;
+    imported: boolean;
   }>
 > {
   const { data, error } = await supabase
     .from("room_settlements")
-    .select("id, type, player_results, created_at")
+    .select("id, type, player_results, created_at, imported")
     .eq("room_id", roomId)
     .order("created_at", { ascending: false });
   if (error) throw new Error(`getSettlements failed: ${error.message}`);
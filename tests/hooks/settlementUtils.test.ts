@@ -8,8 +8,10 @@ import { describe, it, expect } from "vitest";
 import {
   canExecuteSettlement,
   executeSettlement,
+  getSettlementSeats,
 } from "../../app/utils/settlementUtils";
 import type {
+  ComputedVariable,
   GameState,
   SeatInfo,
   Variable,
@@ -224,3 +226,419 @@ describe("executeSettlement", () => {
     expect(settlement.playerResults["user-4"]).toBeDefined();
   });
 });
+
+// ── 返し・オカ ──
+
+describe("executeSettlement: 返し・オカ", () => {
+  const config: SettlementConfig = {
+    divider: 1000,
+    rankBonuses: {
+      3: [10000, 0, -10000],
+      4: [20000, 10000, -10000, -20000],
+    },
+    returnScore: 30000,
+  };
+
+  it("(素点 - 返し) にウマを加算し、オカ ((返し - 持ち点) × 人数) をトップに加算する", () => {
+    // oka = (30000 - 25000) × 4 = 20000
+    // user-2: 38000 - 30000 + 20000 + 20000 = 48000
+    // user-3: 24000 - 30000 + 10000         =  4000
+    // user-1: 20000 - 30000 - 10000         = -20000
+    // user-4: 18000 - 30000 - 20000         = -32000
+    const currentState: GameState = {
+      "user-1": { score: 20000 },
+      "user-2": { score: 38000 },
+      "user-3": { score: 24000 },
+      "user-4": { score: 18000 },
+    };
+    const seats: (SeatInfo | null)[] = [
+      makeSeat("user-1"),
+      makeSeat("user-2"),
+      makeSeat("user-3"),
+      makeSeat("user-4"),
+    ];
+
+    const settlement = executeSettlement(currentState, seats, config, variables);
+
+    expect(settlement.playerResults["user-2"].rankBonus).toBe(10000);
+    expect(settlement.playerResults["user-2"].result).toBe(48);
+    expect(settlement.playerResults["user-3"].result).toBe(4);
+    expect(settlement.playerResults["user-1"].result).toBe(-20);
+    expect(settlement.playerResults["user-4"].result).toBe(-32);
+  });
+
+  it("returnScore 未指定時は rankBonuses をそのまま加算する（従来の動作）", () => {
+    const currentState: GameState = {
+      "user-1": { score: 30000 },
+      "user-2": { score: 20000 },
+    };
+    const seats: (SeatInfo | null)[] = [makeSeat("user-1"), makeSeat("user-2"), null, null];
+    const legacy: SettlementConfig = {
+      divider: 1000,
+      rankBonuses: { 3: [0, 0, 0], 4: [0, 0, 0, 0] },
+    };
+
+    const settlement = executeSettlement(currentState, seats, legacy, variables);
+
+    expect(settlement.playerResults["user-1"].rankBonus).toBe(0);
+    expect(settlement.playerResults["user-1"].adjustedScore).toBe(30000);
+  });
+});
+
+// ── 同点時の座席順 ──
+
+describe("同点時の扱い: seat_order", () => {
+  const config: SettlementConfig = {
+    divider: 1000,
+    rankBonuses: {
+      3: [15000, 0, -15000],
+      4: [20000, 5000, -5000, -20000],
+    },
+    tieBreak: "seat_order",
+  };
+  const currentState: GameState = {
+    "user-1": { score: 25000 },
+    "user-2": { score: 25000 }, // user-1 と同点
+    "user-3": { score: 30000 },
+    "user-4": { score: 20000 },
+  };
+  const seats: (SeatInfo | null)[] = [
+    makeSeat("user-1"),
+    makeSeat("user-2"),
+    makeSeat("user-3"),
+    makeSeat("user-4"),
+  ];
+
+  it("tieBreak: seat_order なら同点でも canExecute: true", () => {
+    const result = canExecuteSettlement(currentState, seats, variables, config);
+
+    expect(result.canExecute).toBe(true);
+  });
+
+  it("同点は起家（座席0）に近い座席が上位になる", () => {
+    const settlement = executeSettlement(currentState, seats, config, variables);
+
+    expect(settlement.playerResults["user-1"].rank).toBe(2);
+    expect(settlement.playerResults["user-2"].rank).toBe(3);
+  });
+
+  it("起家が座席1の場合は座席1から数えた順で上位になる", () => {
+    const settlement = executeSettlement(currentState, seats, config, variables, 1);
+
+    expect(settlement.playerResults["user-2"].rank).toBe(2);
+    expect(settlement.playerResults["user-1"].rank).toBe(3);
+  });
+});
+
+// ── 端数処理 ──
+
+describe("端数処理", () => {
+  const baseConfig: SettlementConfig = {
+    divider: 1000,
+    rankBonuses: {
+      3: [15000, 0, -15000],
+      4: [20000, 5000, -5000, -20000],
+    },
+  };
+  // 合計 100000 = 25000 × 4
+  const currentState: GameState = {
+    "user-1": { score: 19400 },
+    "user-2": { score: 38500 },
+    "user-3": { score: 24600 },
+    "user-4": { score: 17500 },
+  };
+  const seats: (SeatInfo | null)[] = [
+    makeSeat("user-1"),
+    makeSeat("user-2"),
+    makeSeat("user-3"),
+    makeSeat("user-4"),
+  ];
+
+  it("rounding 未指定時は小数点第一位まで切り捨て（従来の動作）", () => {
+    const settlement = executeSettlement(currentState, seats, baseConfig, variables);
+
+    expect(settlement.playerResults["user-2"].result).toBe(58.5);
+    expect(settlement.playerResults["user-3"].result).toBe(29.6);
+    expect(settlement.playerResults["user-1"].result).toBe(14.4);
+  });
+
+  it("五捨六入: .5 は切り捨て、.6 以上は切り上げ", () => {
+    const settlement = executeSettlement(
+      currentState,
+      seats,
+      { ...baseConfig, rounding: "gosha_rokunyu" },
+      variables
+    );
+
+    expect(settlement.playerResults["user-2"].result).toBe(58); // 38.5 → 38
+    expect(settlement.playerResults["user-3"].result).toBe(30); // 24.6 → 25
+    expect(settlement.playerResults["user-1"].result).toBe(14); // 19.4 → 19
+    expect(settlement.playerResults["user-4"].result).toBe(-102);
+  });
+
+  it("四捨五入: .5 以上は切り上げ", () => {
+    const settlement = executeSettlement(
+      currentState,
+      seats,
+      { ...baseConfig, rounding: "shisha_gonyu" },
+      variables
+    );
+
+    expect(settlement.playerResults["user-2"].result).toBe(59); // 38.5 → 39
+    expect(settlement.playerResults["user-3"].result).toBe(30);
+    expect(settlement.playerResults["user-1"].result).toBe(14);
+    expect(settlement.playerResults["user-4"].result).toBe(-103);
+  });
+
+  it("五捨六入・四捨五入は負の値を絶対値で丸める", () => {
+    const negativeState: GameState = {
+      "user-1": { score: 51500 },
+      "user-2": { score: -1500 },
+    };
+    const twoSeats: (SeatInfo | null)[] = [makeSeat("user-1"), makeSeat("user-2"), null, null];
+    const noBonus: SettlementConfig = {
+      divider: 1000,
+      rankBonuses: { 3: [0, 0, 0], 4: [0, 0, 0, 0] },
+    };
+
+    const gosha = executeSettlement(
+      negativeState,
+      twoSeats,
+      { ...noBonus, rounding: "gosha_rokunyu" },
+      variables
+    );
+    const shisha = executeSettlement(
+      negativeState,
+      twoSeats,
+      { ...noBonus, rounding: "shisha_gonyu" },
+      variables
+    );
+
+    expect(gosha.playerResults["user-2"].divided).toBe(-1);
+    expect(shisha.playerResults["user-2"].divided).toBe(-2);
+  });
+
+  it("none: 丸めずにそのまま割る", () => {
+    const state: GameState = {
+      "user-1": { score: 19400 },
+      "user-2": { score: 38550 },
+      "user-3": { score: 24550 },
+      "user-4": { score: 17500 },
+    };
+
+    const settlement = executeSettlement(
+      state,
+      seats,
+      { ...baseConfig, rounding: "none" },
+      variables
+    );
+
+    expect(settlement.playerResults["user-2"].result).toBeCloseTo(58.55);
+    expect(settlement.playerResults["user-3"].result).toBeCloseTo(29.55);
+    expect(settlement.playerResults["user-4"].result).toBeCloseTo(-102.5);
+  });
+});
+
+// ── 汎用精算（変数選択・ゼロサムなし・2〜8人・レート） ──
+
+describe("汎用精算", () => {
+  const vpVariables: Variable[] = [
+    { key: "vp", label: "勝利点", initial: 0 },
+    { key: "coins", label: "コイン", initial: 10 },
+  ];
+  const boardGameConfig: SettlementConfig = {
+    variable: "vp",
+    divider: 1,
+    rankBonuses: { 5: [10, 5, 0, -5, -10] },
+    zeroSumCheck: false,
+    rounding: "none",
+  };
+  const currentState: GameState = {
+    "user-1": { vp: 12, coins: 3 },
+    "user-2": { vp: 30, coins: 0 },
+    "user-3": { vp: 7, coins: 8 },
+    "user-4": { vp: 21, coins: 1 },
+    "user-5": { vp: 15, coins: 4 },
+  };
+
+  it("score 変数がなくても指定変数で精算できる（合計点チェックなし）", () => {
+    const seats = getSettlementSeats(currentState, [], "list");
+
+    const result = canExecuteSettlement(currentState, seats, vpVariables, boardGameConfig);
+
+    expect(result.canExecute).toBe(true);
+  });
+
+  it("指定変数が未定義なら canExecute: false", () => {
+    const seats = getSettlementSeats(currentState, [], "list");
+
+    const result = canExecuteSettlement(currentState, seats, vpVariables, {
+      ...boardGameConfig,
+      variable: "score",
+    });
+
+    expect(result.canExecute).toBe(false);
+    expect(result.reason).toContain("score");
+  });
+
+  it("5人時の順位点テーブルが適用され、最下位の端数調整は行わない", () => {
+    const seats = getSettlementSeats(currentState, [], "list");
+
+    const settlement = executeSettlement(currentState, seats, boardGameConfig, vpVariables);
+
+    expect(settlement.playerResults["user-2"]).toMatchObject({ rank: 1, result: 40 });
+    expect(settlement.playerResults["user-4"]).toMatchObject({ rank: 2, result: 26 });
+    expect(settlement.playerResults["user-5"]).toMatchObject({ rank: 3, result: 15 });
+    expect(settlement.playerResults["user-1"]).toMatchObject({ rank: 4, result: 7 });
+    expect(settlement.playerResults["user-3"]).toMatchObject({ rank: 5, result: -3 });
+  });
+
+  it("該当人数の順位点テーブルがない場合は順位点 0", () => {
+    const seats = getSettlementSeats(currentState, [], "list");
+
+    const settlement = executeSettlement(
+      currentState,
+      seats,
+      { ...boardGameConfig, rankBonuses: { 4: [1, 0, 0, -1] } },
+      vpVariables
+    );
+
+    expect(settlement.playerResults["user-2"].rankBonus).toBe(0);
+    expect(settlement.playerResults["user-2"].result).toBe(30);
+  });
+
+  it("レート換算: 割った値 × rate が結果となり、ゼロサム時は最下位が端数を吸収する", () => {
+    // divided: user-2: 58.0, user-3: 29.0, user-1: 15.0 → × 10
+    const state: GameState = {
+      "user-1": { score: 20000 },
+      "user-2": { score: 38000 },
+      "user-3": { score: 24000 },
+      "user-4": { score: 18000 },
+    };
+    const seats: (SeatInfo | null)[] = [
+      makeSeat("user-1"),
+      makeSeat("user-2"),
+      makeSeat("user-3"),
+      makeSeat("user-4"),
+    ];
+    const config: SettlementConfig = {
+      divider: 1000,
+      rankBonuses: { 4: [20000, 5000, -5000, -20000] },
+      rate: 10,
+    };
+
+    const settlement = executeSettlement(state, seats, config, variables);
+
+    expect(settlement.playerResults["user-2"].divided).toBe(58);
+    expect(settlement.playerResults["user-2"].result).toBe(580);
+    expect(settlement.playerResults["user-3"].result).toBe(290);
+    expect(settlement.playerResults["user-4"].result).toBe(-1020);
+  });
+
+  it("2人時の順位点テーブルも使用できる", () => {
+    const state: GameState = {
+      "user-1": { score: 30000 },
+      "user-2": { score: 20000 },
+    };
+    const seats: (SeatInfo | null)[] = [makeSeat("user-1"), makeSeat("user-2"), null, null];
+    const config: SettlementConfig = {
+      divider: 1000,
+      rankBonuses: { 2: [-15000, -35000] },
+    };
+
+    const settlement = executeSettlement(state, seats, config, variables);
+
+    expect(settlement.playerResults["user-1"].result).toBe(15);
+    expect(settlement.playerResults["user-2"].result).toBe(-15);
+  });
+});
+
+describe("計算変数で精算", () => {
+  const vpVariables: Variable[] = [
+    { key: "vp", label: "勝利点", initial: 0 },
+    { key: "coins", label: "コイン", initial: 10 },
+  ];
+  const computedVariables: ComputedVariable[] = [
+    { key: "total", label: "合計", expression: "vp + floor(coins / 3)" },
+  ];
+  const config: SettlementConfig = {
+    variable: "total",
+    divider: 1,
+    rankBonuses: {},
+    zeroSumCheck: false,
+    rounding: "none",
+  };
+  const currentState: GameState = {
+    "user-1": { vp: 12, coins: 3 }, // 13
+    "user-2": { vp: 10, coins: 9 }, // 13 → 同点
+    "user-3": { vp: 7, coins: 8 }, // 9
+  };
+
+  it("計算変数の値で順位を決める", () => {
+    const state: GameState = { ...currentState, "user-2": { vp: 10, coins: 12 } }; // 14
+    const seats = getSettlementSeats(state, [], "list");
+
+    const settlement = executeSettlement(state, seats, config, vpVariables, 0, computedVariables);
+
+    expect(settlement.playerResults["user-2"]).toMatchObject({ rank: 1, finalScore: 14 });
+    expect(settlement.playerResults["user-1"]).toMatchObject({ rank: 2, finalScore: 13 });
+    expect(settlement.playerResults["user-3"]).toMatchObject({ rank: 3, finalScore: 9 });
+  });
+
+  it("同点チェック・供託チェックは計算変数とその参照先で行う", () => {
+    const seats = getSettlementSeats(currentState, [], "list");
+
+    expect(
+      canExecuteSettlement(currentState, seats, vpVariables, config, computedVariables).reason
+    ).toContain("同点");
+    expect(
+      canExecuteSettlement(
+        { ...currentState, "user-2": { vp: 10, coins: 12 }, __pot__: { coins: 2 } },
+        seats,
+        vpVariables,
+        config,
+        computedVariables
+      ).reason
+    ).toContain("供託金");
+  });
+
+  it("合計点チェックの期待値は各変数の初期値から計算する", () => {
+    const seats = getSettlementSeats(currentState, [], "list");
+
+    // 初期値: vp 0 + floor(10 / 3) = 3 → 3人で 9
+    const result = canExecuteSettlement(
+      currentState,
+      seats,
+      vpVariables,
+      { ...config, zeroSumCheck: true },
+      computedVariables
+    );
+
+    expect(result.reason).toContain("期待: 9");
+  });
+});
+
+// ── getSettlementSeats ──
+
+describe("getSettlementSeats", () => {
+  const currentState: GameState = {
+    "user-1": { score: 10, __displayName__: "Alice" },
+    "user-2": { score: 5 },
+    __pot__: { score: 0 },
+  };
+
+  it("mahjong モードは座席をそのまま返す", () => {
+    const seats: (SeatInfo | null)[] = [makeSeat("user-1"), null, null, null];
+
+    expect(getSettlementSeats(currentState, seats, "mahjong")).toBe(seats);
+  });
+
+  it("list モードは current_state の全プレイヤーを返す（予約キーは除外）", () => {
+    const seats = getSettlementSeats(currentState, [null, null, null, null], "list");
+
+    expect(seats).toEqual([
+      { userId: "user-1", status: "active", displayName: "Alice" },
+      { userId: "user-2", status: "active", displayName: undefined },
+    ]);
+  });
+});
@@ -16,11 +16,17 @@ const mockReseatFakePlayer = vi.fn();
 const mockForceLeaveSeat = vi.fn();
 const mockLeaveSeat = vi.fn();
 const mockTransferScore = vi.fn();
+const mockTransferMulti = vi.fn();
 const mockRollbackTo = vi.fn();
 const mockUndoLast = vi.fn();
+const mockRedoLast = vi.fn();
 const mockSaveSettlement = vi.fn();
 const mockFetchSettlements = vi.fn();
 const mockJoinGame = vi.fn();
+const mockAdvanceRound = vi.fn();
+const mockApplyWin = vi.fn();
+const mockApplyDraw = vi.fn();
+const mockRunCustomAction = vi.fn();
 
 vi.mock("../../app/lib/roomApi", () => ({
   joinSeat: (...args: any[]) => mockJoinSeat(...args),
@@ -29,11 +35,18 @@ vi.mock("../../app/lib/roomApi", () => ({
   forceLeaveSeat: (...args: any[]) => mockForceLeaveSeat(...args),
   leaveSeat: (...args: any[]) => mockLeaveSeat(...args),
   transferScore: (...args: any[]) => mockTransferScore(...args),
+  NETWORK_ERROR_CODE: "network_error",
+  transferMulti: (...args: any[]) => mockTransferMulti(...args),
   rollbackTo: (...args: any[]) => mockRollbackTo(...args),
   undoLast: (...args: any[]) => mockUndoLast(...args),
+  redoLast: (...args: any[]) => mockRedoLast(...args),
   saveSettlement: (...args: any[]) => mockSaveSettlement(...args),
   fetchSettlements: (...args: any[]) => mockFetchSettlements(...args),
   joinGame: (...args: any[]) => mockJoinGame(...args),
+  advanceRound: (...args: any[]) => mockAdvanceRound(...args),
+  applyWin: (...args: any[]) => mockApplyWin(...args),
+  applyDraw: (...args: any[]) => mockApplyDraw(...args),
+  runCustomAction: (...args: any[]) => mockRunCustomAction(...args),
 }));
 
 vi.mock("../../app/lib/supabase", () => ({
@@ -52,6 +65,7 @@ const mockExecuteSettlement = vi.fn();
 vi.mock("../../app/utils/settlementUtils", () => ({
   canExecuteSettlement: (...args: any[]) => mockCanExecuteSettlement(...args),
   executeSettlement: (...args: any[]) => mockExecuteSettlement(...args),
+  getSettlementSeats: (_state: any, seats: any) => seats,
 }));
 
 // Alert.alert をモック（ボタンの onPress を自動実行するヘルパーも提供）
@@ -261,7 +275,8 @@ describe("useGameActions", () => {
         "user-2",
         [{ variable: "score", amount: 1000 }],
         "Player1",
-        "Player2"
+        "Player2",
+        expect.any(String) // クライアントの操作ID
       );
     });
 
@@ -298,9 +313,235 @@ describe("useGameActions", () => {
         "user-2",
         [{ variable: "score", amount: 1000 }],
         "新プレイヤー", // 旧プレイヤー名ではなく現在の seats から取得
-        "Player2"
+        "Player2",
+        expect.any(String) // クライアントの操作ID
       );
     });
+
+    it("切断中は transferScore を呼ばず送信待ちに追加する", async () => {
+      const enqueueTransfer = vi.fn().mockResolvedValue(undefined);
+      const params = { ...defaultParams(), isOffline: true, enqueueTransfer };
+      const { result } = renderHook(() => useGameActions(params));
+
+      await act(async () => {
+        await result.current.handleTransfer(
+          "user-1",
+          "user-2",
+          [{ variable: "score", amount: 1000 }]
+        );
+      });
+
+      expect(mockTransferScore).not.toHaveBeenCalled();
+      expect(enqueueTransfer).toHaveBeenCalledWith(
+        "user-1",
+        "user-2",
+        [{ variable: "score", amount: 1000 }],
+        "Player1",
+        "Player2",
+        expect.any(String)
+      );
+      expect(mockShowToast).toHaveBeenCalledWith(
+        "success",
+        "オフラインのため送信待ちに追加しました"
+      );
+    });
+
+    it("通信エラーで送れなかった場合も送信待ちに追加する", async () => {
+      mockTransferScore.mockResolvedValue({
+        error: Object.assign(new Error("Failed to fetch"), { code: "network_error" }),
+      });
+      const enqueueTransfer = vi.fn().mockResolvedValue(undefined);
+      const params = { ...defaultParams(), enqueueTransfer };
+      const { result } = renderHook(() => useGameActions(params));
+
+      await act(async () => {
+        await result.current.handleTransfer(
+          "user-1",
+          "user-2",
+          [{ variable: "score", amount: 1000 }]
+        );
+      });
+
+      expect(enqueueTransfer).toHaveBeenCalledTimes(1);
+      // 届いていた場合に再送で二重に適用されないよう、送信時と同じ操作IDで積む
+      expect(enqueueTransfer.mock.calls[0][5]).toBe(mockTransferScore.mock.calls[0][6]);
+      expect(mockShowToast).not.toHaveBeenCalledWith("error", "Failed to fetch");
+    });
+  });
+
+  // ── 2a. 楽観的更新 ──
+  describe("handleTransfer 楽観的更新", () => {
+    const TRANSFER = [{ variable: "score", amount: 1000 }];
+
+    it("応答を待たずに操作IDを付けた移動を optimisticOperations に追加する", async () => {
+      let resolveTransfer!: (v: any) => void;
+      mockTransferScore.mockReturnValue(
+        new Promise((resolve) => {
+          resolveTransfer = resolve;
+        })
+      );
+      const { result } = renderHook(() => useGameActions(defaultParams()));
+
+      let promise: Promise<void>;
+      act(() => {
+        promise = result.current.handleTransfer("user-1", "user-2", TRANSFER);
+      });
+
+      expect(result.current.optimisticOperations).toHaveLength(1);
+      const op = result.current.optimisticOperations[0];
+      expect(op).toMatchObject({ fromId: "user-1", toId: "user-2", transfers: TRANSFER });
+      expect(mockTransferScore.mock.calls[0][6]).toBe(op.id);
+
+      await act(async () => {
+        resolveTransfer({ error: null });
+        await promise!;
+      });
+    });
+
+    it("RPC がエラーなら楽観的な移動を取り消してトーストを出す", async () => {
+      mockTransferScore.mockResolvedValue({ error: new Error("点数を負の値にはできません") });
+      const { result } = renderHook(() => useGameActions(defaultParams()));
+
+      await act(async () => {
+        await result.current.handleTransfer("user-1", "user-2", TRANSFER);
+      });
+
+      expect(result.current.optimisticOperations).toHaveLength(0);
+      expect(mockShowToast).toHaveBeenCalledWith("error", "点数を負の値にはできません");
+    });
+
+    it("操作IDを含む Realtime の更新が届いたら確定として取り除く", async () => {
+      mockTransferScore.mockResolvedValue({ error: null });
+      const { result, rerender } = renderHook(
+        ({ room }) => useGameActions({ ...defaultParams(), room }),
+        { initialProps: { room: makeRoom() } }
+      );
+
+      await act(async () => {
+        await result.current.handleTransfer("user-1", "user-2", TRANSFER);
+      });
+      const { id } = result.current.optimisticOperations[0];
+
+      // 他人の操作の更新では取り除かない
+      rerender({
+        room: makeRoom({
+          current_state: {
+            "user-1": { score: 25000 },
+            "user-2": { score: 25000 },
+            __recent_log__: [{ id: "log-1", timestamp: 1, message: "x", clientOpId: "other" }],
+          },
+        }),
+      });
+      expect(result.current.optimisticOperations).toHaveLength(1);
+
+      rerender({
+        room: makeRoom({
+          current_state: {
+            "user-1": { score: 24000 },
+            "user-2": { score: 26000 },
+            __recent_log__: [{ id: "log-2", timestamp: 2, message: "y", clientOpId: id }],
+          },
+        }),
+      });
+      expect(result.current.optimisticOperations).toHaveLength(0);
+    });
+
+    it("手元のルームが移動を反映したバージョンに達したら確定として取り除く", async () => {
+      mockTransferScore.mockResolvedValue({ version: 6, error: null });
+      const { result, rerender } = renderHook(
+        ({ room }) => useGameActions({ ...defaultParams(), room }),
+        { initialProps: { room: makeRoom({ state_version: 5 }) } }
+      );
+
+      await act(async () => {
+        await result.current.handleTransfer("user-1", "user-2", TRANSFER);
+      });
+      expect(result.current.optimisticOperations).toHaveLength(1);
+
+      // 直近ログから押し出されていても、バージョンで確定できる
+      rerender({ room: makeRoom({ state_version: 6 }) });
+      expect(result.current.optimisticOperations).toHaveLength(0);
+    });
+
+    it("確定しないまま時間が経っても取り除かず、ルームを取得し直す", async () => {
+      vi.useFakeTimers();
+      try {
+        const mockRefetch = vi.fn().mockResolvedValue(undefined);
+        mockTransferScore.mockResolvedValue({ version: 6, error: null });
+        const { result, rerender } = renderHook(
+          ({ room }) => useGameActions({ ...defaultParams(), room, refetch: mockRefetch }),
+          { initialProps: { room: makeRoom({ state_version: 5 }) } }
+        );
+
+        await act(async () => {
+          await result.current.handleTransfer("user-1", "user-2", TRANSFER);
+        });
+        await act(async () => {
+          vi.advanceTimersByTime(5_000);
+        });
+
+        expect(mockRefetch).toHaveBeenCalledTimes(1);
+        expect(result.current.optimisticOperations).toHaveLength(1);
+
+        rerender({ room: makeRoom({ state_version: 6 }) });
+        expect(result.current.optimisticOperations).toHaveLength(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  // ── 2b. handleTransferMulti ──
+  describe("handleTransferMulti", () => {
+    const transfers = [{ variable: "score", amount: 1000 }];
+
+    it("全員分の移動を transferMulti 1回で送り、成功時に toast('success')", async () => {
+      mockTransferMulti.mockResolvedValue({ error: null });
+
+      const { result } = renderHook(() => useGameActions(defaultParams()));
+
+      await act(async () => {
+        await result.current.handleTransferMulti([
+          { from: "user-1", to: "user-2", transfers },
+          { from: "user-3", to: "user-2", transfers },
+        ]);
+      });
+
+      expect(mockTransferMulti).toHaveBeenCalledTimes(1);
+      expect(mockTransferMulti).toHaveBeenCalledWith("room-1", [
+        { from: "user-1", to: "user-2", transfers },
+        { from: "user-3", to: "user-2", transfers },
+      ]);
+      expect(mockTransferScore).not.toHaveBeenCalled();
+      expect(mockShowToast).toHaveBeenCalledWith("success", "支払いが完了しました");
+    });
+
+    it("失敗時に toast('error') が表示される", async () => {
+      mockTransferMulti.mockResolvedValue({ error: new Error("転送エラー") });
+
+      const { result } = renderHook(() => useGameActions(defaultParams()));
+
+      await act(async () => {
+        await result.current.handleTransferMulti([
+          { from: "user-1", to: "user-2", transfers },
+        ]);
+      });
+
+      expect(mockShowToast).toHaveBeenCalledWith("error", "転送エラー");
+      expect(result.current.isProcessing).toBe(false);
+    });
+
+    it("移動元と移動先が同じ移動は除外し、残らなければ呼ばない", async () => {
+      const { result } = renderHook(() => useGameActions(defaultParams()));
+
+      await act(async () => {
+        await result.current.handleTransferMulti([
+          { from: "user-2", to: "user-2", transfers },
+        ]);
+      });
+
+      expect(mockTransferMulti).not.toHaveBeenCalled();
+    });
   });
 
   // ── 3. handleJoinSeat ──
@@ -405,6 +646,47 @@ describe("useGameActions", () => {
         expect.any(Array)
       );
     });
+
+    it("麻雀モードでは __round__ の起家を executeSettlement に渡す", async () => {
+      mockCanExecuteSettlement.mockReturnValue({ canExecute: true });
+      mockExecuteSettlement.mockReturnValue({ id: "s1" });
+      mockSaveSettlement.mockResolvedValue({ error: null });
+      const room = makeRoom({
+        template: {
+          variables: [{ key: "score", label: "点数", initial: 25000 }],
+          hostPermissions: [],
+          playerPermissions: [],
+          layoutMode: "mahjong",
+          settlementConfig: { divider: 1000, rankBonuses: {} },
+        },
+        current_state: {
+          "user-1": { score: 25000 },
+          "user-2": { score: 25000 },
+          __round__: { wind: "south", hand: 2, honba: 0, dealerSeat: 3, startSeat: 2 },
+        } as Room["current_state"],
+      });
+
+      const { result } = renderHook(() =>
+        useGameActions({ ...defaultParams(), room })
+      );
+
+      act(() => {
+        result.current.handleSettlement();
+      });
+      const buttons = mockAlert.mock.calls[0][2];
+      await act(async () => {
+        await buttons[1].onPress();
+      });
+
+      expect(mockExecuteSettlement).toHaveBeenCalledWith(
+        room.current_state,
+        room.seats,
+        room.template.settlementConfig,
+        room.template.variables,
+        2,
+        room.template.computedVariables
+      );
+    });
   });
 
   // ── 5. settlementCount 更新 ──
@@ -492,6 +774,233 @@ describe("useGameActions", () => {
     });
   });
 
+  // ── 7b. handleRedo ──
+  describe("handleRedo", () => {
+    it("redoLast を呼び出し、エラー時はトーストを表示する", async () => {
+      mockRedoLast.mockResolvedValue({ error: new Error("やり直せる操作がありません") });
+
+      const { result } = renderHook(() => useGameActions(defaultParams()));
+
+      await act(async () => {
+        await result.current.handleRedo();
+      });
+
+      expect(mockRedoLast).toHaveBeenCalledWith("room-1");
+      expect(mockShowToast).toHaveBeenCalledWith("error", "やり直せる操作がありません");
+    });
+  });
+
+  // ── 7c. handleApplyWin ──
+  describe("handleApplyWin", () => {
+    const detail = { winType: "tsumo" as const, han: 3, fu: 40, honba: 0, isDealer: false };
+    const payments = [
+      { from: "user-2", amount: 2600 },
+      { from: "user-3", amount: 1300 },
+    ];
+
+    it("applyWin を1回だけ呼び出し、成功時に toast('success')", async () => {
+      mockApplyWin.mockResolvedValue({ error: null });
+
+      const { result } = renderHook(() => useGameActions(defaultParams()));
+
+      await act(async () => {
+        await result.current.handleApplyWin("user-1", payments, detail, true);
+      });
+
+      expect(mockApplyWin).toHaveBeenCalledTimes(1);
+      expect(mockApplyWin).toHaveBeenCalledWith("room-1", "user-1", payments, detail, true, false);
+      expect(mockShowToast).toHaveBeenCalledWith("success", "アガリを記録しました");
+      expect(result.current.isProcessing).toBe(false);
+    });
+
+    it("局も進める場合は同じ呼び出しで指定し、失敗時は false を返す", async () => {
+      mockApplyWin.mockResolvedValue({ error: new Error("この操作を行う権限がありません") });
+
+      const { result } = renderHook(() => useGameActions(defaultParams()));
+
+      let ok: boolean | undefined;
+      await act(async () => {
+        ok = await result.current.handleApplyWin("user-1", payments, detail, true, true);
+      });
+
+      expect(mockApplyWin).toHaveBeenCalledTimes(1);
+      expect(mockApplyWin).toHaveBeenCalledWith("room-1", "user-1", payments, detail, true, true);
+      expect(mockShowToast).toHaveBeenCalledWith("error", "この操作を行う権限がありません");
+      expect(ok).toBe(false);
+    });
+
+    it("支払いが空なら何もしない", async () => {
+      const { result } = renderHook(() => useGameActions(defaultParams()));
+
+      await act(async () => {
+        await result.current.handleApplyWin("user-1", [], detail, true);
+      });
+
+      expect(mockApplyWin).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── 7d. handleApplyDraw ──
+  describe("handleApplyDraw", () => {
+    it("テンパイ者を applyDraw に渡し、成功時に toast('success')", async () => {
+      mockApplyDraw.mockResolvedValue({ error: null });
+
+      const { result } = renderHook(() => useGameActions(defaultParams()));
+
+      let ok: boolean | undefined;
+      await act(async () => {
+        ok = await result.current.handleApplyDraw(["user-1"]);
+      });
+
+      expect(mockApplyDraw).toHaveBeenCalledWith("room-1", ["user-1"], false);
+      expect(mockShowToast).toHaveBeenCalledWith("success", "流局を記録しました");
+      expect(ok).toBe(true);
+    });
+
+    it("局も進める場合は同じ呼び出しで指定する", async () => {
+      mockApplyDraw.mockResolvedValue({ error: null });
+
+      const { result } = renderHook(() => useGameActions(defaultParams()));
+
+      await act(async () => {
+        await result.current.handleApplyDraw(["user-1"], true);
+      });
+
+      expect(mockApplyDraw).toHaveBeenCalledTimes(1);
+      expect(mockApplyDraw).toHaveBeenCalledWith("room-1", ["user-1"], true);
+    });
+
+    it("失敗時に toast('error') が表示される", async () => {
+      mockApplyDraw.mockResolvedValue({ error: new Error("支払いがありません") });
+
+      const { result } = renderHook(() => useGameActions(defaultParams()));
+
+      let ok: boolean | undefined;
+      await act(async () => {
+        ok = await result.current.handleApplyDraw([]);
+      });
+
+      expect(mockShowToast).toHaveBeenCalledWith("error", "支払いがありません");
+      expect(ok).toBe(false);
+      expect(result.current.isProcessing).toBe(false);
+    });
+  });
+
+  // ── 7e. handleRunCustomAction ──
+  describe("handleRunCustomAction", () => {
+    it("操作IDと実行者を runCustomAction に渡し、成功時に操作名で toast('success')", async () => {
+      mockRunCustomAction.mockResolvedValue({ error: null });
+      const room = makeRoom();
+      room.template.customActions = [
+        {
+          id: "bonus",
+          label: "ボーナス",
+          legs: [{ from: "others", to: "actor", variable: "score", amount: 500 }],
+        },
+      ];
+
+      const { result } = renderHook(() =>
+        useGameActions({ ...defaultParams(), room })
+      );
+
+      await act(async () => {
+        await result.current.handleRunCustomAction("bonus", "user-2");
+      });
+
+      expect(mockRunCustomAction).toHaveBeenCalledWith("room-1", "bonus", "user-2");
+      expect(mockShowToast).toHaveBeenCalledWith("success", "ボーナスを実行しました");
+    });
+
+    it("失敗時に toast('error') が表示される", async () => {
+      mockRunCustomAction.mockResolvedValue({ error: new Error("供託金が不足しています") });
+
+      const { result } = renderHook(() => useGameActions(defaultParams()));
+
+      await act(async () => {
+        await result.current.handleRunCustomAction("take", "user-1");
+      });
+
+      expect(mockShowToast).toHaveBeenCalledWith("error", "供託金が不足しています");
+      expect(result.current.isProcessing).toBe(false);
+    });
+  });
+
+  // ── 7f. handleAdvanceRound ──
+  describe("handleAdvanceRound", () => {
+    it("advanceRound に局結果と親のテンパイを渡す", async () => {
+      mockAdvanceRound.mockResolvedValue({ error: null });
+
+      const { result } = renderHook(() => useGameActions(defaultParams()));
+
+      await act(async () => {
+        await result.current.handleAdvanceRound("draw", false);
+      });
+
+      expect(mockAdvanceRound).toHaveBeenCalledWith("room-1", "draw", false);
+      expect(mockShowToast).not.toHaveBeenCalled();
+    });
+
+    it("失敗時に toast('error') が表示される", async () => {
+      mockAdvanceRound.mockResolvedValue({
+        error: new Error("この操作を行う権限がありません"),
+      });
+
+      const { result } = renderHook(() => useGameActions(defaultParams()));
+
+      await act(async () => {
+        await result.current.handleAdvanceRound("dealer_win");
+      });
+
+      expect(mockAdvanceRound).toHaveBeenCalledWith("room-1", "dealer_win", true);
+      expect(mockShowToast).toHaveBeenCalledWith("error", "この操作を行う権限がありません");
+    });
+  });
+
+  // ── 7g. 飛び検出 ──
+  describe("飛び検出", () => {
+    function makeBustRoom(scores: [number, number], endOnBust = true): Room {
+      return makeRoom({
+        template: {
+          variables: [{ key: "score", label: "点数", initial: 25000, allowNegative: "warn" }],
+          hostPermissions: [],
+          playerPermissions: [],
+          endOnBust,
+        },
+        current_state: {
+          "user-1": { score: scores[0] },
+          "user-2": { score: scores[1], __displayName__: "Bob" },
+        },
+      });
+    }
+
+    it("負になったプレイヤーを toast で通知し、endOnBust ならホストに精算を促す", () => {
+      mockCanExecuteSettlement.mockReturnValue({ canExecute: true });
+
+      const { rerender } = renderHook((props) => useGameActions(props), {
+        initialProps: { ...defaultParams(), room: makeBustRoom([25000, 25000]) },
+      });
+      rerender({ ...defaultParams(), room: makeBustRoom([26200, -1200]) });
+
+      expect(mockShowToast).toHaveBeenCalledWith("error", "飛び: Bob（点数 -1,200）");
+      expect(mockAlert).toHaveBeenCalledWith("確認", expect.any(String), expect.any(Array));
+    });
+
+    it("既に負のプレイヤー・ホスト以外・endOnBust 無効では精算を促さない", () => {
+      const { rerender } = renderHook((props) => useGameActions(props), {
+        initialProps: { ...defaultParams(), room: makeBustRoom([25000, -1200]) },
+      });
+      rerender({ ...defaultParams(), room: makeBustRoom([26000, -2200]) });
+      expect(mockShowToast).not.toHaveBeenCalled();
+
+      rerender({ ...defaultParams(), isHost: false, room: makeBustRoom([-100, 25000]) });
+      rerender({ ...defaultParams(), room: makeBustRoom([25000, 25000], false) });
+      rerender({ ...defaultParams(), room: makeBustRoom([25000, -100], false) });
+
+      expect(mockShowToast).toHaveBeenCalledTimes(2);
+      expect(mockAlert).not.toHaveBeenCalled();
+    });
+  });
+
   // ── 8. handleForceLeave ──
   describe("handleForceLeave", () => {
     it("forceLeaveSeat を正しく呼び出す", async () => {
@@ -5,7 +5,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { renderHook, act, waitFor } from "@testing-library/react";
+import { renderHook, act, waitFor, cleanup } from "@testing-library/react";
 
 // ── vi.hoisted でモック変数を宣言（vi.mock ファクトリ内から参照可能にする） ──
 
@@ -18,12 +18,14 @@ const {
   mockSubscribe,
   mockOn,
   mockChannel,
+  mockChannelFn,
   mockRemoveChannel,
   callbacks,
 } = vi.hoisted(() => {
   const callbacks = {
     subscribe: null as ((status: string, err?: any) => void) | null,
-    update: null as ((payload: any) => void) | null,
+    diffStatus: null as ((status: string) => void) | null,
+    diff: null as ((message: { payload: any }) => void) | null,
     delete: null as ((payload: any) => void) | null,
   };
 
@@ -37,18 +39,26 @@ const {
   const mockFrom = vi.fn(() => ({ select: mockSelect }));
 
   const mockChannel: any = {};
+  // 直前に作られたチャンネルのトピック（差分チャンネルは "room:<id>"）
+  let currentTopic = "";
+  const mockChannelFn = vi.fn((topic: string) => {
+    currentTopic = topic;
+    return mockChannel;
+  });
 
   const mockOn = vi.fn((_event: string, _filter: any, cb: any) => {
-    if (_filter.event === "UPDATE") {
-      callbacks.update = cb;
+    if (_event === "broadcast" && _filter.event === "room_diff") {
+      callbacks.diff = cb;
     } else if (_filter.event === "DELETE") {
       callbacks.delete = cb;
     }
     return mockChannel;
   });
 
-  const mockSubscribe = vi.fn((cb: any) => {
-    callbacks.subscribe = cb;
+  const mockSubscribe = vi.fn((cb?: any) => {
+    if (!cb) return mockChannel;
+    if (currentTopic.startsWith("room:")) callbacks.diffStatus = cb;
+    else callbacks.subscribe = cb;
     return mockChannel;
   });
 
@@ -66,6 +76,7 @@ const {
     mockSubscribe,
     mockOn,
     mockChannel,
+    mockChannelFn,
     mockRemoveChannel,
     callbacks,
   };
@@ -74,7 +85,7 @@ const {
 vi.mock("../../app/lib/supabase", () => ({
   supabase: {
     from: (...args: any[]) => mockFrom(...args),
-    channel: vi.fn(() => mockChannel),
+    channel: (...args: any[]) => mockChannelFn(...args),
     removeChannel: (...args: any[]) => mockRemoveChannel(...args),
   },
 }));
@@ -83,6 +94,28 @@ vi.mock("../../app/utils/roomUtils", () => ({
   migrateTemplate: (t: any) => t,
 }));
 
+// オフライン操作キュー用: 再送先の RPC と保存先の AsyncStorage
+const { mockTransferScore } = vi.hoisted(() => ({ mockTransferScore: vi.fn() }));
+
+vi.mock("../../app/lib/roomApi", () => ({
+  NETWORK_ERROR_CODE: "network_error",
+  transferScore: (...args: any[]) => mockTransferScore(...args),
+}));
+
+const memStore: Record<string, string> = {};
+
+vi.mock("@react-native-async-storage/async-storage", () => ({
+  default: {
+    getItem: async (key: string) => memStore[key] ?? null,
+    setItem: async (key: string, value: string) => {
+      memStore[key] = value;
+    },
+    removeItem: async (key: string) => {
+      delete memStore[key];
+    },
+  },
+}));
+
 // ── テスト用データ ──
 
 const ROOM_ID = "test-room-123";
@@ -107,12 +140,15 @@ function makeRoom(overrides?: Partial<any>) {
 
 // テスト対象のインポート（モック設定後）
 import { useRoomRealtime } from "../../app/hooks/useRoomRealtime";
+import { useOperationQueue } from "../../app/hooks/useOperationQueue";
+import AsyncStorage from "@react-native-async-storage/async-storage";
 
 describe("useRoomRealtime", () => {
   beforeEach(() => {
     vi.useFakeTimers({ shouldAdvanceTime: true });
     callbacks.subscribe = null;
-    callbacks.update = null;
+    callbacks.diffStatus = null;
+    callbacks.diff = null;
     callbacks.delete = null;
     vi.clearAllMocks();
 
@@ -121,6 +157,8 @@ describe("useRoomRealtime", () => {
   });
 
   afterEach(() => {
+    // アンマウントして差分チャンネルの購読を解除する（チャンネルはモジュール内で共有されるため）
+    cleanup();
     vi.useRealTimers();
   });
 
@@ -229,26 +267,142 @@ describe("useRoomRealtime", () => {
     });
   });
 
-  // ── 6. Realtime UPDATE でデータ更新 ──
-  it("Realtime UPDATE ペイロードが完全な Room データを含む場合、setRoom が更新される", async () => {
+  // ── 6. 差分（room_diff）でデータ更新 ──
+  it("次のバージョンの差分を適用し、変わった変数と直近ログだけが更新される", async () => {
+    mockSingle.mockResolvedValue({
+      data: makeRoom({
+        state_version: 5,
+        current_state: { player1: { score: 25000, riichi: 1 }, player2: { score: 25000 } },
+      }),
+      error: null,
+    });
+    const { result } = renderHook(() => useRoomRealtime(ROOM_ID));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+    const callCount = mockSingle.mock.calls.length;
+
+    act(() => {
+      callbacks.diff?.({
+        payload: {
+          version: 6,
+          state: { player1: { score: 24000 }, player2: { score: 26000 } },
+          log: [{ id: "log-1", timestamp: 1, message: "player1 → player2: 点数 1000" }],
+        },
+      });
+    });
+
+    expect(result.current.room?.state_version).toBe(6);
+    expect(result.current.room?.current_state).toMatchObject({
+      player1: { score: 24000, riichi: 1 },
+      player2: { score: 26000 },
+    });
+    expect(result.current.room?.current_state.__recent_log__).toHaveLength(1);
+    expect(mockSingle.mock.calls.length).toBe(callCount);
+    // 差分チャンネルは非公開で購読する
+    expect(mockChannelFn).toHaveBeenCalledWith(`room:${ROOM_ID}`, { config: { private: true } });
+  });
+
+  // ── 6b. 順序が入れ替わった差分 ──
+  it("手元と同じか古いバージョンの差分は適用しない", async () => {
+    mockSingle.mockResolvedValue({ data: makeRoom({ state_version: 5 }), error: null });
     const { result } = renderHook(() => useRoomRealtime(ROOM_ID));
 
     await waitFor(() => {
       expect(result.current.loading).toBe(false);
     });
 
-    // UPDATE ペイロードを発火
-    const updatedRoom = makeRoom({
-      current_state: { player1: { score: 30000 } },
+    act(() => {
+      callbacks.diff?.({ payload: { version: 6, state: { player1: { score: 26000 } } } });
+    });
+    act(() => {
+      callbacks.diff?.({ payload: { version: 6, state: { player1: { score: 99999 } } } });
+      callbacks.diff?.({ payload: { version: 4, state: { player1: { score: 0 } } } });
     });
 
+    expect(result.current.room?.state_version).toBe(6);
+    expect(result.current.room?.current_state?.player1?.score).toBe(26000);
+  });
+
+  // ── 6c. バージョンの飛び ──
+  it("バージョンが飛んだ差分は適用せず全体を取得し直す", async () => {
+    mockSingle.mockResolvedValueOnce({ data: makeRoom({ state_version: 5 }), error: null });
+    const { result } = renderHook(() => useRoomRealtime(ROOM_ID));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    mockSingle.mockResolvedValue({
+      data: makeRoom({ state_version: 8, current_state: { player1: { score: 30000 } } }),
+      error: null,
+    });
+    act(() => {
+      callbacks.diff?.({ payload: { version: 8, state: { player1: { score: 30000 } } } });
+    });
     act(() => {
-      callbacks.update?.({ new: updatedRoom });
+      vi.advanceTimersByTime(500);
     });
 
+    await waitFor(() => {
+      expect(result.current.room?.state_version).toBe(8);
+    });
     expect(result.current.room?.current_state?.player1?.score).toBe(30000);
   });
 
+  // ── 6d. 初回取得前に届いた差分 ──
+  it("初回取得の完了前に届いた差分は、取得したバージョンより新しいものだけ適用する", async () => {
+    let resolveFetch: (value: any) => void = () => {};
+    mockSingle.mockReturnValueOnce(new Promise((resolve) => (resolveFetch = resolve)));
+    const { result } = renderHook(() => useRoomRealtime(ROOM_ID));
+
+    act(() => {
+      callbacks.diff?.({ payload: { version: 7, state: { player1: { score: 23000 } } } });
+      callbacks.diff?.({ payload: { version: 5, state: { player1: { score: 0 } } } });
+      callbacks.diff?.({ payload: { version: 6, state: { player1: { score: 24000 } } } });
+    });
+    await act(async () => {
+      resolveFetch({ data: makeRoom({ state_version: 5 }), error: null });
+    });
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+    expect(result.current.room?.state_version).toBe(7);
+    expect(result.current.room?.current_state?.player1?.score).toBe(23000);
+  });
+
+  // ── 6e. 差分チャンネルの再接続 ──
+  it("差分チャンネルが切断後に再購読できたら取得し直す", async () => {
+    const { result } = renderHook(() => useRoomRealtime(ROOM_ID));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    // 初回の購読完了では取得し直さない
+    act(() => {
+      callbacks.diffStatus?.("SUBSCRIBED");
+      vi.advanceTimersByTime(500);
+    });
+    const callCount = mockSingle.mock.calls.length;
+
+    act(() => {
+      callbacks.diffStatus?.("CHANNEL_ERROR");
+    });
+    act(() => {
+      callbacks.diffStatus?.("SUBSCRIBED");
+    });
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+
+    await waitFor(() => {
+      expect(mockSingle.mock.calls.length).toBeGreaterThan(callCount);
+    });
+  });
+
   // ── 7. DELETE でルーム消失 ──
   it("Realtime DELETE でルームが null になりエラーがセットされる", async () => {
     const { result } = renderHook(() => useRoomRealtime(ROOM_ID));
@@ -303,3 +457,216 @@ describe("useRoomRealtime", () => {
     expect(result.current.room).toBeNull();
   });
 });
+
+// ── オフライン操作キュー（useRoomRealtime の接続状態と組み合わせる） ──
+
+describe("useOperationQueue", () => {
+  const OFFLINE_ROOM = {
+    current_state: {
+      alice: { score: 25000 },
+      bob: { score: 25000 },
+      carol: { score: 25000 },
+    },
+  };
+  const TRANSFER = [{ variable: "score", amount: 1000 }];
+  const showToast = vi.fn();
+
+  function renderWithQueue() {
+    return renderHook(() => {
+      const realtime = useRoomRealtime(ROOM_ID);
+      const queue = useOperationQueue({
+        room: realtime.room as any,
+        isOffline: realtime.isRealtimeDisconnected,
+        showToast,
+      });
+      return { ...realtime, ...queue };
+    });
+  }
+
+  // 読み込み → 初回 SUBSCRIBED → CHANNEL_ERROR で切断状態にする
+  async function goOffline(result: { current: ReturnType<typeof renderWithQueue>["result"]["current"] }) {
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+    act(() => {
+      callbacks.subscribe?.("SUBSCRIBED");
+    });
+    act(() => {
+      callbacks.subscribe?.("CHANNEL_ERROR");
+    });
+    expect(result.current.isRealtimeDisconnected).toBe(true);
+  }
+
+  // 再接続 → 再取得（debounce 300ms）で最新の状態を受け取る
+  function reconnect() {
+    act(() => {
+      callbacks.subscribe?.("SUBSCRIBED");
+    });
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    vi.clearAllMocks();
+    for (const key of Object.keys(memStore)) delete memStore[key];
+    // 取得のたびに新しいオブジェクトを返す（実際の REST 応答と同じ）
+    mockSingle.mockImplementation(async () => ({ data: makeRoom(OFFLINE_ROOM), error: null }));
+    mockTransferScore.mockResolvedValue({ error: null });
+  });
+
+  afterEach(() => {
+    // アンマウントして差分チャンネルの購読を解除する（チャンネルはモジュール内で共有されるため）
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  it("切断中は送信せず送信待ちに積み、AsyncStorage に保存する", async () => {
+    const { result } = renderWithQueue();
+    await goOffline(result);
+
+    await act(async () => {
+      await result.current.enqueueTransfer("alice", "bob", TRANSFER, "Alice", "Bob");
+    });
+
+    expect(mockTransferScore).not.toHaveBeenCalled();
+    expect(result.current.pendingOperations).toHaveLength(1);
+    expect(JSON.parse(memStore[`operation_queue:${ROOM_ID}`])).toHaveLength(1);
+  });
+
+  it("再接続すると古い順に送信し、送信待ちを空にする", async () => {
+    const { result } = renderWithQueue();
+    await goOffline(result);
+
+    await act(async () => {
+      await result.current.enqueueTransfer("alice", "bob", TRANSFER, "Alice", "Bob");
+      await result.current.enqueueTransfer("bob", "carol", TRANSFER, "Bob", "Carol");
+    });
+
+    reconnect();
+
+    await waitFor(() => {
+      expect(result.current.pendingOperations).toHaveLength(0);
+    });
+    expect(mockTransferScore.mock.calls.map((c) => [c[1], c[2]])).toEqual([
+      ["alice", "bob"],
+      ["bob", "carol"],
+    ]);
+    expect(memStore[`operation_queue:${ROOM_ID}`]).toBeUndefined();
+  });
+
+  it("端末への保存に失敗したらトーストで知らせる", async () => {
+    vi.spyOn(AsyncStorage, "setItem").mockRejectedValueOnce(new Error("quota exceeded"));
+    const { result } = renderWithQueue();
+    await goOffline(result);
+
+    await act(async () => {
+      await result.current.enqueueTransfer("alice", "bob", TRANSFER, "Alice", "Bob");
+    });
+
+    await waitFor(() => {
+      expect(showToast).toHaveBeenCalledWith(
+        "error",
+        "送信待ちの操作を端末に保存できませんでした"
+      );
+    });
+    expect(result.current.pendingOperations).toHaveLength(1);
+  });
+
+  it("送信を試みた操作は同じ操作IDで再送する（サーバー側で重複を除く）", async () => {
+    const { result } = renderWithQueue();
+    await goOffline(result);
+
+    await act(async () => {
+      await result.current.enqueueTransfer("alice", "bob", TRANSFER, "Alice", "Bob", "op-sent");
+    });
+
+    reconnect();
+
+    await waitFor(() => {
+      expect(result.current.pendingOperations).toHaveLength(0);
+    });
+    expect(mockTransferScore.mock.calls[0][6]).toBe("op-sent");
+  });
+
+  it("再送中に積まれた操作も失わずに送る", async () => {
+    let resolveFirst: (value: { error: null }) => void = () => {};
+    mockTransferScore.mockReturnValueOnce(
+      new Promise((resolve) => (resolveFirst = resolve))
+    );
+    const { result } = renderWithQueue();
+    await goOffline(result);
+
+    await act(async () => {
+      await result.current.enqueueTransfer("alice", "bob", TRANSFER, "Alice", "Bob", "op-1");
+    });
+
+    reconnect();
+    await waitFor(() => {
+      expect(mockTransferScore).toHaveBeenCalledTimes(1);
+    });
+
+    // 1件目の応答待ちの間に積まれた操作
+    await act(async () => {
+      await result.current.enqueueTransfer("bob", "carol", TRANSFER, "Bob", "Carol", "op-2");
+    });
+    await act(async () => {
+      resolveFirst({ error: null });
+    });
+
+    await waitFor(() => {
+      expect(result.current.pendingOperations).toHaveLength(0);
+    });
+    expect(mockTransferScore.mock.calls.map((c) => c[6])).toEqual(["op-1", "op-2"]);
+  });
+
+  it("再送が通信エラーなら残りを保持する", async () => {
+    mockTransferScore.mockResolvedValue({
+      error: Object.assign(new Error("Failed to fetch"), { code: "network_error" }),
+    });
+    const { result } = renderWithQueue();
+    await goOffline(result);
+
+    await act(async () => {
+      await result.current.enqueueTransfer("alice", "bob", TRANSFER, "Alice", "Bob");
+    });
+
+    reconnect();
+
+    await waitFor(() => {
+      expect(mockTransferScore).toHaveBeenCalledTimes(1);
+    });
+    expect(result.current.pendingOperations).toHaveLength(1);
+    expect(showToast).not.toHaveBeenCalled();
+  });
+
+  it("切断中に相手が退出していれば、その操作だけ取り消して残りを送る", async () => {
+    const { result } = renderWithQueue();
+    await goOffline(result);
+
+    await act(async () => {
+      await result.current.enqueueTransfer("alice", "bob", TRANSFER, "Alice", "Bob");
+      await result.current.enqueueTransfer("alice", "carol", TRANSFER, "Alice", "Carol");
+    });
+
+    // 切断中に bob が退出した状態を再接続時の再取得で受け取る
+    mockSingle.mockResolvedValue({
+      data: makeRoom({
+        current_state: { alice: { score: 25000 }, carol: { score: 25000 } },
+      }),
+      error: null,
+    });
+    reconnect();
+
+    await waitFor(() => {
+      expect(result.current.pendingOperations).toHaveLength(0);
+    });
+    expect(showToast).toHaveBeenCalledWith(
+      "error",
+      "送信待ちの操作を取り消しました: Bobが退出しています"
+    );
+    expect(mockTransferScore).toHaveBeenCalledTimes(1);
+    expect(mockTransferScore.mock.calls[0][2]).toBe("carol");
+  });
+});
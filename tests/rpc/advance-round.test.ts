@@ -0,0 +1,162 @@
+/**
+ * rpc_advance_round / rpc_reset_round 仕様テスト
+ *
+ * 対象: supabase/migrations/024_round_state.sql
+ * 概要: 局結果から __round__（場風・局・本場・親）を進める
+ *   - 親のアガリ・流局（親テンパイ）は連荘で本場 +1
+ *   - 子のアガリは親流れで本場 0、流局（親ノーテン）は親流れで本場 +1
+ *   - 座席数を超えたら次の場風へ
+ *   - 精算で起家はそのままに東1局 0本場へ戻る
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createServiceClient,
+  createTestUser,
+  createTestRoomWithSeats,
+  deleteTestRoom,
+  deleteTestUser,
+  getRoomState,
+  makePlayerState,
+} from "../helpers/supabase";
+
+let supabase: SupabaseClient;
+let hostUserId: string;
+let roomId: string;
+
+const PLAYERS = [
+  "player-aaa-1234-5678-abcdefabcdef",
+  "player-bbb-1234-5678-abcdefabcdef",
+  "player-ccc-1234-5678-abcdefabcdef",
+  "player-ddd-1234-5678-abcdefabcdef",
+];
+
+beforeEach(async () => {
+  supabase = createServiceClient();
+  hostUserId = await createTestUser(supabase);
+  roomId = await createTestRoomWithSeats(supabase, hostUserId, {
+    currentState: makePlayerState(PLAYERS.map((id) => ({ id, score: 25000 }))),
+    seats: PLAYERS.map((userId, i) => ({
+      userId,
+      status: "active",
+      displayName: `P${i + 1}`,
+    })),
+  });
+});
+
+afterEach(async () => {
+  if (roomId) await deleteTestRoom(supabase, roomId);
+  if (hostUserId) await deleteTestUser(supabase, hostUserId);
+});
+
+function advance(result: string, dealerTenpai = true) {
+  return supabase.rpc("rpc_advance_round", {
+    p_room_id: roomId,
+    p_result: result,
+    p_dealer_tenpai: dealerTenpai,
+  });
+}
+
+async function getRound() {
+  const state = await getRoomState(supabase, roomId);
+  return state.__round__ as Record<string, unknown>;
+}
+
+describe("rpc_advance_round", () => {
+  it("親のアガリは連荘で本場 +1", async () => {
+    const { data } = await advance("dealer_win");
+
+    expect(data.success).toBe(true);
+    expect(await getRound()).toEqual({
+      wind: "east",
+      hand: 1,
+      honba: 1,
+      dealerSeat: 0,
+      startSeat: 0,
+    });
+  });
+
+  it("子のアガリは親流れで本場が 0 に戻る", async () => {
+    await advance("dealer_win");
+    await advance("non_dealer_win");
+
+    expect(await getRound()).toMatchObject({ hand: 2, honba: 0, dealerSeat: 1 });
+  });
+
+  it("流局は本場 +1、親ノーテンなら親流れ", async () => {
+    await advance("draw", true);
+    expect(await getRound()).toMatchObject({ hand: 1, honba: 1, dealerSeat: 0 });
+
+    await advance("draw", false);
+    expect(await getRound()).toMatchObject({ hand: 2, honba: 2, dealerSeat: 1 });
+  });
+
+  it("4局の次は南1局", async () => {
+    for (let i = 0; i < 4; i++) await advance("non_dealer_win");
+
+    expect(await getRound()).toMatchObject({ wind: "south", hand: 1, dealerSeat: 0 });
+  });
+
+  it("不正な局結果はエラー", async () => {
+    const { data } = await advance("tobi");
+
+    expect(data.error).toBe("不正な局結果です");
+    expect(await getRound()).toBeUndefined();
+  });
+
+  it("履歴に event_type = round で記録され undo で戻る", async () => {
+    await advance("non_dealer_win");
+
+    const { data: history } = await supabase
+      .from("room_history")
+      .select("event_type, payload")
+      .eq("room_id", roomId);
+    expect(history![0].event_type).toBe("round");
+    expect(history![0].payload.roundResult).toBe("non_dealer_win");
+
+    await supabase.rpc("rpc_undo_last", { p_room_id: roomId });
+    expect(await getRound()).toBeUndefined();
+  });
+});
+
+describe("rpc_reset_round", () => {
+  it("起家を指定して東1局 0本場に戻す", async () => {
+    await advance("non_dealer_win");
+
+    const { data } = await supabase.rpc("rpc_reset_round", {
+      p_room_id: roomId,
+      p_start_seat: 2,
+    });
+
+    expect(data.success).toBe(true);
+    expect(await getRound()).toEqual({
+      wind: "east",
+      hand: 1,
+      honba: 0,
+      dealerSeat: 2,
+      startSeat: 2,
+    });
+  });
+
+  it("精算で起家を維持したまま東1局 0本場に戻る", async () => {
+    await supabase.rpc("rpc_reset_round", { p_room_id: roomId, p_start_seat: 1 });
+    await advance("non_dealer_win");
+    await advance("dealer_win");
+
+    await supabase.rpc("rpc_save_settlement", {
+      p_room_id: roomId,
+      p_settlement_id: crypto.randomUUID(),
+      p_player_results: Object.fromEntries(
+        PLAYERS.map((id, i) => [id, { displayName: `P${i + 1}`, rank: i + 1, result: 0 }])
+      ),
+    });
+
+    expect(await getRound()).toEqual({
+      wind: "east",
+      hand: 1,
+      honba: 0,
+      dealerSeat: 1,
+      startSeat: 1,
+    });
+  });
+});
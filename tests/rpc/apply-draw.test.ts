@@ -0,0 +1,153 @@
+/**
+ * rpc_apply_draw 仕様テスト
+ *
+ * 対象: supabase/migrations/027_draw_payment.sql, 041_draw_advances_round.sql — rpc_apply_draw
+ * 概要: 流局のノーテン罰符（3000 点）をテンパイ人数に応じて1操作で反映する
+ *   - 履歴は event_type = 'draw' の1行、undo 1回で全員分が戻る
+ *   - 全員テンパイ・全員ノーテンは支払いなし
+ *   - p_advance_round 指定時は同じ操作で局も進める（親テンパイで連荘、ノーテンで親流れ）
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createServiceClient,
+  createTestUser,
+  createTestRoomWithSeats,
+  deleteTestRoom,
+  deleteTestUser,
+  getRoomState,
+  makePlayerState,
+} from "../helpers/supabase";
+
+let supabase: SupabaseClient;
+let hostUserId: string;
+let roomId: string;
+
+const PLAYER_A = "player-aaa-1234-5678-abcdefabcdef";
+const PLAYER_B = "player-bbb-1234-5678-abcdefabcdef";
+const PLAYER_C = "player-ccc-1234-5678-abcdefabcdef";
+const PLAYER_D = "player-ddd-1234-5678-abcdefabcdef";
+const PLAYERS = [PLAYER_A, PLAYER_B, PLAYER_C, PLAYER_D];
+
+beforeEach(async () => {
+  supabase = createServiceClient();
+  hostUserId = await createTestUser(supabase);
+  roomId = await createTestRoomWithSeats(supabase, hostUserId, {
+    currentState: makePlayerState(PLAYERS.map((id) => ({ id, score: 25000 }))),
+    seats: PLAYERS.map((userId, i) => ({
+      userId,
+      status: "active",
+      displayName: ["Alice", "Bob", "Carol", "Dave"][i],
+    })),
+  });
+});
+
+afterEach(async () => {
+  if (roomId) await deleteTestRoom(supabase, roomId);
+  if (hostUserId) await deleteTestUser(supabase, hostUserId);
+});
+
+function applyDraw(tenpaiIds: string[], advanceRound?: boolean) {
+  return supabase.rpc("rpc_apply_draw", {
+    p_room_id: roomId,
+    p_tenpai_ids: tenpaiIds,
+    p_advance_round: advanceRound,
+  });
+}
+
+async function getScores() {
+  const state = await getRoomState(supabase, roomId);
+  return PLAYERS.map((id) => (state[id] as Record<string, number>).score);
+}
+
+describe("rpc_apply_draw", () => {
+  it("1人テンパイ: +3000 / ノーテン各 -1000", async () => {
+    const { data } = await applyDraw([PLAYER_A]);
+
+    expect(data.success).toBe(true);
+    expect(await getScores()).toEqual([28000, 24000, 24000, 24000]);
+  });
+
+  it("2人テンパイ: 各 ±1500、履歴は1行", async () => {
+    await applyDraw([PLAYER_A, PLAYER_C]);
+
+    expect(await getScores()).toEqual([26500, 23500, 26500, 23500]);
+
+    const { data: history } = await supabase
+      .from("room_history")
+      .select("event_type, payload, message")
+      .eq("room_id", roomId);
+    expect(history).toHaveLength(1);
+    expect(history![0].event_type).toBe("draw");
+    expect(history![0].payload.drawResults).toHaveLength(4);
+    expect(history![0].message).toBe(
+      "流局: テンパイ Alice, Carol +1500 / ノーテン Bob, Dave -1500"
+    );
+  });
+
+  it("3人テンパイ: 各 +1000 / ノーテン -3000、undo 1回で戻る", async () => {
+    await applyDraw([PLAYER_B, PLAYER_C, PLAYER_D]);
+
+    expect(await getScores()).toEqual([22000, 26000, 26000, 26000]);
+
+    await supabase.rpc("rpc_undo_last", { p_room_id: roomId });
+
+    expect(await getScores()).toEqual([25000, 25000, 25000, 25000]);
+  });
+
+  it("全員ノーテン・全員テンパイは支払いなし", async () => {
+    const { data: none } = await applyDraw([]);
+    const { data: all } = await applyDraw(PLAYERS);
+
+    expect(none.error).toBe("支払いがありません");
+    expect(all.error).toBe("支払いがありません");
+    expect(await getScores()).toEqual([25000, 25000, 25000, 25000]);
+  });
+
+  it("着席していないプレイヤーはエラー", async () => {
+    const { data } = await applyDraw(["unknown-player"]);
+
+    expect(data.error).toBe("プレイヤーが見つかりません");
+  });
+
+  describe("局も進める", () => {
+    it("親（起家 Alice）がテンパイなら連荘、履歴は1行", async () => {
+      const { data } = await applyDraw([PLAYER_A], true);
+
+      expect(data.round).toMatchObject({ wind: "east", hand: 1, honba: 1, dealerSeat: 0 });
+      expect(await getScores()).toEqual([28000, 24000, 24000, 24000]);
+
+      const { data: history } = await supabase
+        .from("room_history")
+        .select("event_type, payload, message")
+        .eq("room_id", roomId);
+      expect(history).toHaveLength(1);
+      expect(history![0].event_type).toBe("draw");
+      expect(history![0].payload.dealerTenpai).toBe(true);
+      expect(history![0].payload.round).toMatchObject({ hand: 1, honba: 1 });
+      expect(history![0].message).toBe(
+        "流局: テンパイ Alice +3000 / ノーテン Bob, Carol, Dave -1000（局進行: 東1局 1本場）"
+      );
+    });
+
+    it("親がノーテンなら親流れ、undo 1回で支払いと局の両方が戻る", async () => {
+      const { data } = await applyDraw([PLAYER_B], true);
+
+      expect(data.round).toMatchObject({ wind: "east", hand: 2, honba: 1, dealerSeat: 1 });
+
+      await supabase.rpc("rpc_undo_last", { p_room_id: roomId });
+
+      const state = await getRoomState(supabase, roomId);
+      expect(await getScores()).toEqual([25000, 25000, 25000, 25000]);
+      expect(state.__round__ ?? null).toBeNull();
+    });
+
+    it("支払いが不正なら局も進まない", async () => {
+      const { data } = await applyDraw(["unknown-player"], true);
+
+      const state = await getRoomState(supabase, roomId);
+      expect(data.error).toBe("プレイヤーが見つかりません");
+      expect(state.__round__ ?? null).toBeNull();
+    });
+  });
+});
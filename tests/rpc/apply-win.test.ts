@@ -0,0 +1,230 @@
+/**
+ * rpc_apply_win 仕様テスト
+ *
+ * 対象: supabase/migrations/025_win_payment.sql, 044_win_advances_round.sql — rpc_apply_win
+ * 概要: 和了の支払い（全員分）と供託の回収を1操作で反映する
+ *   - 履歴は event_type = 'win' の1行、undo 1回で全員分が戻る
+ *   - 1人でも不正な支払いがあれば何も反映しない
+ *   - p_advance_round 指定時は同じ操作で局も進める（親のアガリで連荘、子のアガリで親流れ）
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createServiceClient,
+  createTestUser,
+  createTestRoomWithSeats,
+  deleteTestRoom,
+  deleteTestUser,
+  getRoomState,
+  makePlayerState,
+} from "../helpers/supabase";
+
+let supabase: SupabaseClient;
+let hostUserId: string;
+let roomId: string;
+
+const PLAYER_A = "player-aaa-1234-5678-abcdefabcdef";
+const PLAYER_B = "player-bbb-1234-5678-abcdefabcdef";
+const PLAYER_C = "player-ccc-1234-5678-abcdefabcdef";
+const PLAYER_D = "player-ddd-1234-5678-abcdefabcdef";
+const PLAYERS = [PLAYER_A, PLAYER_B, PLAYER_C, PLAYER_D];
+
+beforeEach(async () => {
+  supabase = createServiceClient();
+  hostUserId = await createTestUser(supabase);
+  roomId = await createTestRoomWithSeats(supabase, hostUserId, {
+    currentState: {
+      ...makePlayerState(PLAYERS.map((id) => ({ id, score: 25000 }))),
+      __pot__: { score: 2000 },
+    },
+    seats: PLAYERS.map((userId, i) => ({
+      userId,
+      status: "active",
+      displayName: ["Alice", "Bob", "Carol", "Dave"][i],
+    })),
+  });
+});
+
+afterEach(async () => {
+  if (roomId) await deleteTestRoom(supabase, roomId);
+  if (hostUserId) await deleteTestUser(supabase, hostUserId);
+});
+
+function applyWin(params: {
+  winnerId: string;
+  payments: { from: string; amount: number }[];
+  collectPot?: boolean;
+  detail?: Record<string, unknown>;
+  advanceRound?: boolean;
+}) {
+  return supabase.rpc("rpc_apply_win", {
+    p_room_id: roomId,
+    p_winner_id: params.winnerId,
+    p_payments: params.payments,
+    p_collect_pot: params.collectPot ?? true,
+    p_detail: params.detail ?? {},
+    p_advance_round: params.advanceRound,
+  });
+}
+
+async function getScores() {
+  const state = await getRoomState(supabase, roomId);
+  return {
+    scores: PLAYERS.map((id) => (state[id] as Record<string, number>).score),
+    pot: (state.__pot__ as Record<string, number>).score,
+  };
+}
+
+describe("rpc_apply_win", () => {
+  it("ツモの全員分の支払いと供託を和了者に反映する", async () => {
+    const { data } = await applyWin({
+      winnerId: PLAYER_B,
+      payments: [
+        { from: PLAYER_A, amount: 2600 },
+        { from: PLAYER_C, amount: 1300 },
+        { from: PLAYER_D, amount: 1300 },
+      ],
+      detail: { winType: "tsumo", han: 3, fu: 40, honba: 0, isDealer: false },
+    });
+
+    expect(data.success).toBe(true);
+    expect(await getScores()).toEqual({
+      scores: [22400, 25000 + 5200 + 2000, 23700, 23700],
+      pot: 0,
+    });
+  });
+
+  it("履歴は1行にまとまり、undo 1回で全員分が戻る", async () => {
+    await applyWin({
+      winnerId: PLAYER_B,
+      payments: [
+        { from: PLAYER_A, amount: 2600 },
+        { from: PLAYER_C, amount: 1300 },
+        { from: PLAYER_D, amount: 1300 },
+      ],
+      detail: { winType: "tsumo", han: 3, fu: 40, honba: 0, isDealer: false },
+    });
+
+    const { data: history } = await supabase
+      .from("room_history")
+      .select("event_type, to_id, transfers, payload, message")
+      .eq("room_id", roomId);
+    expect(history).toHaveLength(1);
+    expect(history![0].event_type).toBe("win");
+    expect(history![0].to_id).toBe(PLAYER_B);
+    expect(history![0].transfers).toEqual([{ variable: "score", amount: 7200 }]);
+    expect(history![0].payload.payments).toHaveLength(3);
+    expect(history![0].payload.pot).toEqual({ score: 2000 });
+    expect(history![0].message).toBe(
+      "アガリ: Bob ← Alice 2600, Carol 1300, Dave 1300, 供託 点数 2000（ツモ 3翻40符）"
+    );
+
+    await supabase.rpc("rpc_undo_last", { p_room_id: roomId });
+
+    expect(await getScores()).toEqual({
+      scores: [25000, 25000, 25000, 25000],
+      pot: 2000,
+    });
+  });
+
+  it("ロンは放銃者を from_id に記録し、供託を受け取らない指定もできる", async () => {
+    await applyWin({
+      winnerId: PLAYER_A,
+      payments: [{ from: PLAYER_C, amount: 12000 }],
+      collectPot: false,
+      detail: { winType: "ron", han: 5, fu: 30, honba: 0, isDealer: true },
+    });
+
+    expect(await getScores()).toEqual({
+      scores: [37000, 25000, 13000, 25000],
+      pot: 2000,
+    });
+
+    const { data: history } = await supabase
+      .from("room_history")
+      .select("from_id, message")
+      .eq("room_id", roomId);
+    expect(history![0].from_id).toBe(PLAYER_C);
+    expect(history![0].message).toBe("アガリ: Alice ← Carol 12000（ロン 満貫）");
+  });
+
+  it("支払い者が見つからなければ何も反映しない", async () => {
+    const { data } = await applyWin({
+      winnerId: PLAYER_B,
+      payments: [
+        { from: PLAYER_A, amount: 2600 },
+        { from: "unknown-player", amount: 1300 },
+      ],
+    });
+
+    expect(data.error).toBe("支払い者が見つかりません");
+    expect(await getScores()).toEqual({
+      scores: [25000, 25000, 25000, 25000],
+      pot: 2000,
+    });
+  });
+
+  it("和了者自身は支払い者にできない", async () => {
+    const { data } = await applyWin({
+      winnerId: PLAYER_B,
+      payments: [{ from: PLAYER_B, amount: 1000 }],
+    });
+
+    expect(data.error).toBe("支払い者が見つかりません");
+  });
+
+  it("支払いが空ならエラー", async () => {
+    const { data } = await applyWin({ winnerId: PLAYER_B, payments: [] });
+
+    expect(data.error).toBe("支払いがありません");
+  });
+
+  describe("局も進める", () => {
+    it("親（起家 Alice）のアガリは連荘、履歴は1行", async () => {
+      const { data } = await applyWin({
+        winnerId: PLAYER_A,
+        payments: [{ from: PLAYER_B, amount: 12000 }],
+        advanceRound: true,
+      });
+
+      expect(data.round).toMatchObject({ wind: "east", hand: 1, honba: 1, dealerSeat: 0 });
+
+      const { data: history } = await supabase
+        .from("room_history")
+        .select("event_type, payload")
+        .eq("room_id", roomId);
+      expect(history).toHaveLength(1);
+      expect(history![0].event_type).toBe("win");
+      expect(history![0].payload.roundResult).toBe("dealer_win");
+      expect(history![0].payload.round).toMatchObject({ hand: 1, honba: 1 });
+    });
+
+    it("子のアガリは親流れ、undo 1回で支払いと局の両方が戻る", async () => {
+      const { data } = await applyWin({
+        winnerId: PLAYER_C,
+        payments: [{ from: PLAYER_B, amount: 8000 }],
+        advanceRound: true,
+      });
+
+      expect(data.round).toMatchObject({ wind: "east", hand: 2, honba: 0, dealerSeat: 1 });
+
+      await supabase.rpc("rpc_undo_last", { p_room_id: roomId });
+
+      const state = await getRoomState(supabase, roomId);
+      expect((await getScores()).scores).toEqual([25000, 25000, 25000, 25000]);
+      expect(state.__round__ ?? null).toBeNull();
+    });
+
+    it("支払いが不正なら局も進まない", async () => {
+      const { data } = await applyWin({
+        winnerId: PLAYER_C,
+        payments: [{ from: "unknown-player", amount: 8000 }],
+        advanceRound: true,
+      });
+
+      const state = await getRoomState(supabase, roomId);
+      expect(data.error).toBe("支払い者が見つかりません");
+      expect(state.__round__ ?? null).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * クライアント操作ID 仕様テスト
+ *
+ * 対象: supabase/migrations/032_client_op_id.sql, 039_dedupe_client_op_id.sql
+ * 概要: rpc_transfer_score が p_client_op_id を受け取り、戻り値と __recent_log__ に含めて返す
+ *   - 戻り値には反映後の state_version（version）を含める
+ *   - 適用済みの操作IDを再送しても二重には適用しない
+ *   - 省略時は従来どおり（clientOpId・version を含まない）
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createServiceClient,
+  createTestUser,
+  createTestRoomWithSeats,
+  deleteTestRoom,
+  deleteTestUser,
+  getRoomState,
+  makePlayerState,
+} from "../helpers/supabase";
+
+let supabase: SupabaseClient;
+let hostUserId: string;
+let roomId: string;
+
+const PLAYER_A = "player-aaa-1234-5678-abcdefabcdef";
+const PLAYER_B = "player-bbb-1234-5678-abcdefabcdef";
+
+beforeEach(async () => {
+  supabase = createServiceClient();
+  hostUserId = await createTestUser(supabase);
+  roomId = await createTestRoomWithSeats(supabase, hostUserId, {
+    currentState: makePlayerState([
+      { id: PLAYER_A, score: 25000 },
+      { id: PLAYER_B, score: 25000 },
+    ]),
+    seats: [
+      { userId: PLAYER_A, status: "active", displayName: "Alice" },
+      { userId: PLAYER_B, status: "active", displayName: "Bob" },
+      null,
+      null,
+    ],
+  });
+});
+
+afterEach(async () => {
+  if (roomId) await deleteTestRoom(supabase, roomId);
+  if (hostUserId) await deleteTestUser(supabase, hostUserId);
+});
+
+function transfer(clientOpId?: string) {
+  return supabase.rpc("rpc_transfer_score", {
+    p_room_id: roomId,
+    p_from_id: PLAYER_A,
+    p_to_id: PLAYER_B,
+    p_transfers: [{ variable: "score", amount: 1000 }],
+    ...(clientOpId ? { p_client_op_id: clientOpId } : {}),
+  });
+}
+
+describe("rpc_transfer_score の p_client_op_id", () => {
+  it("戻り値と直近ログのエントリに操作IDを含める", async () => {
+    const { data } = await transfer("op-123");
+
+    const { data: room } = await supabase
+      .from("rooms")
+      .select("state_version")
+      .eq("id", roomId)
+      .single();
+    expect(data).toEqual({
+      success: true,
+      clientOpId: "op-123",
+      version: Number(room!.state_version),
+    });
+    const state = await getRoomState(supabase, roomId);
+    const log = state.__recent_log__ as { clientOpId?: string }[];
+    expect(log[log.length - 1].clientOpId).toBe("op-123");
+  });
+
+  it("省略時は操作IDを含めない（既存の呼び出しはそのまま動く）", async () => {
+    const { data } = await transfer();
+
+    expect(data).toEqual({ success: true });
+    const state = await getRoomState(supabase, roomId);
+    const log = state.__recent_log__ as { clientOpId?: string }[];
+    expect(log[log.length - 1]).not.toHaveProperty("clientOpId");
+  });
+
+  it("適用済みの操作IDの再送は適用せず成功を返す", async () => {
+    const first = await transfer("op-retry");
+    const retry = await transfer("op-retry");
+
+    expect(retry.data).toMatchObject({
+      success: true,
+      clientOpId: "op-retry",
+      version: first.data.version,
+      duplicate: true,
+    });
+    const state = await getRoomState(supabase, roomId);
+    expect((state[PLAYER_A] as Record<string, number>).score).toBe(24000);
+    expect((state[PLAYER_B] as Record<string, number>).score).toBe(26000);
+  });
+
+  it("直近ログから押し出された操作IDも履歴から判定する", async () => {
+    await transfer("op-old");
+    for (let i = 0; i < 5; i++) await transfer();
+    const retry = await transfer("op-old");
+
+    expect(retry.data).toMatchObject({ success: true, duplicate: true });
+    const state = await getRoomState(supabase, roomId);
+    expect((state[PLAYER_A] as Record<string, number>).score).toBe(19000);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * rpc_run_custom_action 仕様テスト
+ *
+ * 対象: supabase/migrations/028_custom_actions.sql — rpc_run_custom_action
+ * 概要: テンプレートの customActions をサーバー側で評価し、1操作で反映する
+ *   - 「他の全員」は1人ずつ移動、「場」はゲーム外との増減
+ *   - 履歴は event_type = 'custom_action' の1行、undo 1回で全員分が戻る
+ *   - 麻雀レイアウトの「他の全員」は着席中のプレイヤーのみ（045）
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createServiceClient,
+  createTestUser,
+  createTestRoomWithSeats,
+  deleteTestRoom,
+  deleteTestUser,
+  getRoomState,
+  makePlayerState,
+  DEFAULT_TEMPLATE,
+} from "../helpers/supabase";
+
+let supabase: SupabaseClient;
+let hostUserId: string;
+let roomId: string;
+
+const PLAYER_A = "player-aaa-1234-5678-abcdefabcdef";
+const PLAYER_B = "player-bbb-1234-5678-abcdefabcdef";
+const PLAYER_C = "player-ccc-1234-5678-abcdefabcdef";
+const PLAYERS = [PLAYER_A, PLAYER_B, PLAYER_C];
+
+const TEMPLATE = {
+  ...DEFAULT_TEMPLATE,
+  customActions: [
+    {
+      id: "bonus",
+      label: "ボーナス",
+      legs: [{ from: "others", to: "actor", variable: "score", amount: 500 }],
+    },
+    {
+      id: "riichi",
+      label: "リーチ",
+      legs: [
+        { from: "actor", to: "pot", variable: "score", amount: 1000 },
+        { from: "bank", to: "actor", variable: "riichi", amount: 1 },
+      ],
+    },
+    {
+      id: "take",
+      label: "供託回収",
+      legs: [{ from: "pot", to: "actor", variable: "score", amount: 2000 }],
+    },
+  ],
+};
+
+beforeEach(async () => {
+  supabase = createServiceClient();
+  hostUserId = await createTestUser(supabase);
+  roomId = await createTestRoomWithSeats(supabase, hostUserId, {
+    currentState: makePlayerState(PLAYERS.map((id) => ({ id, score: 25000 }))),
+    seats: PLAYERS.map((userId, i) => ({
+      userId,
+      status: "active",
+      displayName: ["Alice", "Bob", "Carol"][i],
+    })),
+    template: TEMPLATE,
+  });
+});
+
+afterEach(async () => {
+  if (roomId) await deleteTestRoom(supabase, roomId);
+  if (hostUserId) await deleteTestUser(supabase, hostUserId);
+});
+
+function runAction(actionId: string, actorId: string) {
+  return supabase.rpc("rpc_run_custom_action", {
+    p_room_id: roomId,
+    p_action_id: actionId,
+    p_actor_id: actorId,
+  });
+}
+
+async function getScores() {
+  const state = await getRoomState(supabase, roomId);
+  return PLAYERS.map((id) => (state[id] as Record<string, number>).score);
+}
+
+describe("rpc_run_custom_action", () => {
+  it("他の全員 → 実行者: 各 -500 / 実行者 +1000、履歴は1行", async () => {
+    const { data } = await runAction("bonus", PLAYER_A);
+
+    expect(data.success).toBe(true);
+    expect(await getScores()).toEqual([26000, 24500, 24500]);
+
+    const { data: history } = await supabase
+      .from("room_history")
+      .select("event_type, to_id, payload, message")
+      .eq("room_id", roomId);
+    expect(history).toHaveLength(1);
+    expect(history![0].event_type).toBe("custom_action");
+    expect(history![0].to_id).toBe(PLAYER_A);
+    expect(history![0].payload.deltas).toHaveLength(3);
+    expect(history![0].message).toBe(
+      "ボーナス（Alice）: Bob 点数 -500 / Carol 点数 -500 / Alice 点数 +1000"
+    );
+  });
+
+  it("供託と場: 実行者が供託し、場からリーチ棒を得る。undo 1回で戻る", async () => {
+    await runAction("riichi", PLAYER_B);
+
+    const state = await getRoomState(supabase, roomId);
+    expect((state[PLAYER_B] as Record<string, number>).score).toBe(24000);
+    expect((state[PLAYER_B] as Record<string, number>).riichi).toBe(1);
+    expect((state.__pot__ as Record<string, number>).score).toBe(1000);
+
+    await supabase.rpc("rpc_undo_last", { p_room_id: roomId });
+
+    const reverted = await getRoomState(supabase, roomId);
+    expect((reverted[PLAYER_B] as Record<string, number>).riichi).toBe(0);
+    expect(await getScores()).toEqual([25000, 25000, 25000]);
+  });
+
+  it("供託が足りなければエラーで何も変わらない", async () => {
+    const { data } = await runAction("take", PLAYER_A);
+
+    expect(data.error).toBe("供託金が不足しています");
+    expect(await getScores()).toEqual([25000, 25000, 25000]);
+  });
+
+  it("未定義の操作・参加していない実行者はエラー", async () => {
+    const { data: noAction } = await runAction("unknown", PLAYER_A);
+    const { data: noActor } = await runAction("bonus", "unknown-player");
+
+    expect(noAction.error).toBe("操作が見つかりません");
+    expect(noActor.error).toBe("プレイヤーが見つかりません");
+  });
+
+  it("麻雀レイアウトでは着席していないプレイヤーから支払わせない", async () => {
+    const PLAYER_D = "player-ddd-1234-5678-abcdefabcdef";
+    await deleteTestRoom(supabase, roomId);
+    roomId = await createTestRoomWithSeats(supabase, hostUserId, {
+      currentState: makePlayerState(
+        [...PLAYERS, PLAYER_D].map((id) => ({ id, score: 25000 }))
+      ),
+      // Carol は離席済み（座席は null）、Dave は一度も着席していない
+      seats: [
+        { userId: PLAYER_A, status: "active", displayName: "Alice" },
+        { userId: PLAYER_B, status: "active", displayName: "Bob" },
+        null,
+        null,
+      ],
+      template: { ...TEMPLATE, layoutMode: "mahjong" },
+    });
+
+    const { data } = await runAction("bonus", PLAYER_A);
+
+    expect(data.success).toBe(true);
+    expect(await getScores()).toEqual([25500, 24500, 25000]);
+    const state = await getRoomState(supabase, roomId);
+    expect((state[PLAYER_D] as Record<string, number>).score).toBe(25000);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * 架空ユーザー（ゲスト）座席 RPC 仕様テスト
+ *
+ * 対象: supabase/migrations/014_seat_rpc_functions.sql
+ *       — rpc_join_fake_seat, rpc_reseat_fake_player, rpc_remove_fake_player
+ * 概要: ホスト・コホストのみがゲストを作成・再着席・削除できる。
+ *       座席の競合は seat_taken、権限不足は not_host を返す
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createServiceClient,
+  createAnonUser,
+  cleanupAnonUser,
+  createTestRoomWithSeats,
+  getRoomState,
+  getRoomHistory,
+  type AnonUser,
+} from "../helpers/supabase";
+
+const FAKE_ID = "fake_1700000000000_abcd";
+
+let admin: SupabaseClient;
+let host: AnonUser;
+let guest: AnonUser;
+let roomId: string | undefined;
+
+beforeEach(async () => {
+  admin = createServiceClient();
+  host = await createAnonUser();
+  guest = await createAnonUser();
+});
+
+afterEach(async () => {
+  if (roomId) {
+    await admin.from("rooms").delete().eq("id", roomId);
+    roomId = undefined;
+  }
+  for (const u of [host, guest]) {
+    if (u) await cleanupAnonUser(admin, u.userId);
+  }
+});
+
+async function setupRoom(opts?: {
+  seats?: unknown[];
+  currentState?: Record<string, unknown>;
+}) {
+  roomId = await createTestRoomWithSeats(admin, host.userId, {
+    currentState: opts?.currentState ?? {},
+    seats: opts?.seats ?? [null, null, null, null],
+  });
+  return roomId;
+}
+
+describe("rpc_join_fake_seat", () => {
+  it("正常系: ゲストが作成され、名前は使用中の名前と衝突しない", async () => {
+    const id = await setupRoom({
+      currentState: {
+        fake_1_aaaa: { score: 25000, riichi: 0, __displayName__: "プレイヤーA" },
+      },
+    });
+
+    const { data } = await host.client.rpc("rpc_join_fake_seat", {
+      p_room_id: id,
+      p_seat_index: 0,
+    });
+
+    expect(data.success).toBe(true);
+    const seat = data.room.seats[0];
+    expect(seat.userId).toMatch(/^fake_/);
+    expect(seat.isFake).toBe(true);
+    expect(seat.displayName).toBe("プレイヤーB");
+
+    const state = await getRoomState(admin, id);
+    expect(state[seat.userId]).toMatchObject({
+      score: 25000,
+      __displayName__: "プレイヤーB",
+    });
+    expect((await getRoomHistory(admin, id))[0].message).toBe(
+      "ゲスト着席: プレイヤーB"
+    );
+  });
+
+  it("異常系: ホスト以外は not_host", async () => {
+    const id = await setupRoom();
+
+    const { data } = await guest.client.rpc("rpc_join_fake_seat", {
+      p_room_id: id,
+      p_seat_index: 0,
+    });
+
+    expect(data).toEqual({
+      error: "ホストのみが架空ユーザーを作成できます",
+      code: "not_host",
+    });
+  });
+
+  it("異常系: 使用中の座席は seat_taken", async () => {
+    const id = await setupRoom({
+      seats: [{ userId: guest.userId, status: "active" }, null, null, null],
+    });
+
+    const { data } = await host.client.rpc("rpc_join_fake_seat", {
+      p_room_id: id,
+      p_seat_index: 0,
+    });
+
+    expect(data.code).toBe("seat_taken");
+  });
+});
+
+describe("rpc_reseat_fake_player", () => {
+  it("正常系: 離席済みゲストが保存済みの名前で再着席する", async () => {
+    const id = await setupRoom({
+      currentState: {
+        [FAKE_ID]: { score: 18000, riichi: 0, __displayName__: "プレイヤーC" },
+      },
+    });
+
+    const { data } = await host.client.rpc("rpc_reseat_fake_player", {
+      p_room_id: id,
+      p_fake_user_id: FAKE_ID,
+      p_seat_index: 3,
+    });
+
+    expect(data.success).toBe(true);
+    expect(data.room.seats[3]).toMatchObject({
+      userId: FAKE_ID,
+      displayName: "プレイヤーC",
+      isFake: true,
+    });
+    const state = await getRoomState(admin, id);
+    expect((state[FAKE_ID] as Record<string, number>).score).toBe(18000);
+  });
+
+  it("異常系: current_state に存在しないゲストは guest_not_found", async () => {
+    const id = await setupRoom();
+
+    const { data } = await host.client.rpc("rpc_reseat_fake_player", {
+      p_room_id: id,
+      p_fake_user_id: FAKE_ID,
+      p_seat_index: 0,
+    });
+
+    expect(data.code).toBe("guest_not_found");
+  });
+});
+
+describe("rpc_remove_fake_player", () => {
+  it("正常系: 座席と current_state の両方から削除される", async () => {
+    const id = await setupRoom({
+      seats: [
+        null,
+        { userId: FAKE_ID, status: "active", displayName: "プレイヤーA", isFake: true },
+        null,
+        null,
+      ],
+      currentState: {
+        [FAKE_ID]: { score: 25000, riichi: 0, __displayName__: "プレイヤーA" },
+      },
+    });
+
+    const { data } = await host.client.rpc("rpc_remove_fake_player", {
+      p_room_id: id,
+      p_fake_user_id: FAKE_ID,
+    });
+
+    expect(data.success).toBe(true);
+    expect(data.room.seats[1]).toBeNull();
+    const state = await getRoomState(admin, id);
+    expect(state[FAKE_ID]).toBeUndefined();
+    expect((await getRoomHistory(admin, id))[0].message).toBe(
+      "ゲスト削除: プレイヤーA"
+    );
+  });
+
+  it("異常系: 実ユーザーIDは削除できない", async () => {
+    const id = await setupRoom({
+      currentState: { [guest.userId]: { score: 25000, riichi: 0 } },
+    });
+
+    const { data } = await host.client.rpc("rpc_remove_fake_player", {
+      p_room_id: id,
+      p_fake_user_id: guest.userId,
+    });
+
+    expect(data.code).toBe("guest_not_found");
+    const state = await getRoomState(admin, id);
+    expect(state[guest.userId]).toBeDefined();
+  });
+});
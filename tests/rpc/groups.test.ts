@@ -0,0 +1,216 @@
+/**
+ * グループ RPC 仕様テスト
+ *
+ * 対象: supabase/migrations/020_create_groups.sql, 037_restrict_group_visibility.sql
+ *       — rpc_create_group, rpc_join_group, rpc_leave_group,
+ *         rpc_set_group_default_template, rpc_get_group_leaderboard
+ * 概要: グループの作成者はオーナー兼メンバーになり、参加コードで他のユーザーが参加できる。
+ *       ルームの group_id はメンバーのみ指定でき、成績はグループ内ルームで集計する。
+ *       グループ（参加コード）はオーナーとメンバーのみ閲覧できる
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createServiceClient,
+  createAnonUser,
+  cleanupAnonUser,
+  createTestRoom,
+  DEFAULT_TEMPLATE,
+  type AnonUser,
+} from "../helpers/supabase";
+
+let admin: SupabaseClient;
+let owner: AnonUser;
+let member: AnonUser;
+let groupIds: string[] = [];
+let roomIds: string[] = [];
+
+beforeEach(async () => {
+  admin = createServiceClient();
+  owner = await createAnonUser();
+  member = await createAnonUser();
+});
+
+afterEach(async () => {
+  for (const id of roomIds) {
+    await admin.from("rooms").delete().eq("id", id);
+  }
+  for (const id of groupIds) {
+    await admin.from("groups").delete().eq("id", id);
+  }
+  roomIds = [];
+  groupIds = [];
+  for (const u of [owner, member]) {
+    if (u) await cleanupAnonUser(admin, u.userId);
+  }
+});
+
+async function createGroup(name = "金曜リーグ") {
+  const { data } = await owner.client.rpc("rpc_create_group", { p_name: name });
+  if (data?.group) groupIds.push(data.group.id);
+  return data;
+}
+
+async function getMembers(groupId: string) {
+  const { data } = await admin
+    .from("group_members")
+    .select("user_id")
+    .eq("group_id", groupId);
+  return (data ?? []).map((m) => m.user_id);
+}
+
+describe("rpc_create_group", () => {
+  it("正常系: 6文字の参加コードが発行され、作成者がメンバーになる", async () => {
+    const data = await createGroup();
+
+    expect(data.success).toBe(true);
+    expect(data.group.name).toBe("金曜リーグ");
+    expect(data.group.group_code).toMatch(/^[A-Z2-9]{6}$/);
+    expect(data.group.owner_user_id).toBe(owner.userId);
+    expect(await getMembers(data.group.id)).toEqual([owner.userId]);
+  });
+
+  it("空のグループ名はエラー", async () => {
+    const data = await createGroup("   ");
+
+    expect(data.error).toBe("グループ名は1〜30文字で入力してください");
+  });
+});
+
+describe("rpc_join_group / rpc_leave_group", () => {
+  it("参加コードで参加し、重複参加しても1件のまま", async () => {
+    const { group } = await createGroup();
+
+    const first = await member.client.rpc("rpc_join_group", {
+      p_group_code: group.group_code.toLowerCase(),
+    });
+    await member.client.rpc("rpc_join_group", { p_group_code: group.group_code });
+
+    expect(first.data.group.id).toBe(group.id);
+    const members = await getMembers(group.id);
+    expect(members).toHaveLength(2);
+    expect(members).toContain(member.userId);
+  });
+
+  it("存在しないコードはエラー", async () => {
+    const { data } = await member.client.rpc("rpc_join_group", {
+      p_group_code: "ZZZZZZ",
+    });
+
+    expect(data.error).toBe("グループが見つかりません");
+  });
+
+  it("メンバーは退出でき、オーナーは退出できない", async () => {
+    const { group } = await createGroup();
+    await member.client.rpc("rpc_join_group", { p_group_code: group.group_code });
+
+    const left = await member.client.rpc("rpc_leave_group", { p_group_id: group.id });
+    const ownerLeft = await owner.client.rpc("rpc_leave_group", { p_group_id: group.id });
+
+    expect(left.data.success).toBe(true);
+    expect(ownerLeft.data.error).toBe("オーナーはグループから退出できません");
+    expect(await getMembers(group.id)).toEqual([owner.userId]);
+  });
+});
+
+describe("groups の閲覧", () => {
+  it("メンバー以外はグループと参加コードを読み取れない", async () => {
+    const { group } = await createGroup();
+
+    const before = await member.client.from("groups").select("group_code").eq("id", group.id);
+    const members = await member.client.from("group_members").select("user_id").eq("group_id", group.id);
+    await member.client.rpc("rpc_join_group", { p_group_code: group.group_code });
+    const after = await member.client.from("groups").select("group_code").eq("id", group.id);
+
+    expect(before.data).toEqual([]);
+    expect(members.data).toEqual([]);
+    expect(after.data).toEqual([{ group_code: group.group_code }]);
+  });
+});
+
+describe("rpc_set_group_default_template", () => {
+  it("オーナーのみ既定テンプレートを設定できる", async () => {
+    const { group } = await createGroup();
+    await member.client.rpc("rpc_join_group", { p_group_code: group.group_code });
+
+    const denied = await member.client.rpc("rpc_set_group_default_template", {
+      p_group_id: group.id,
+      p_template: DEFAULT_TEMPLATE,
+    });
+    const ok = await owner.client.rpc("rpc_set_group_default_template", {
+      p_group_id: group.id,
+      p_template: DEFAULT_TEMPLATE,
+    });
+
+    expect(denied.data.error).toBe("オーナーのみが既定テンプレートを変更できます");
+    expect(ok.data.success).toBe(true);
+    const { data } = await admin
+      .from("groups")
+      .select("default_template")
+      .eq("id", group.id)
+      .single();
+    expect(data!.default_template).toEqual(DEFAULT_TEMPLATE);
+  });
+});
+
+describe("rooms.group_id", () => {
+  it("メンバー以外はグループ指定でルームを作成できない", async () => {
+    const { group } = await createGroup();
+
+    const { error } = await member.client.from("rooms").insert({
+      host_user_id: member.userId,
+      room_code: "GRP1",
+      status: "waiting",
+      template: DEFAULT_TEMPLATE,
+      current_state: {},
+      group_id: group.id,
+    });
+
+    expect(error).not.toBeNull();
+  });
+});
+
+describe("rpc_get_group_leaderboard", () => {
+  it("グループ内ルームの精算行のみを集計する", async () => {
+    const { group } = await createGroup();
+    const groupRoom = await createTestRoom(admin, owner.userId, { currentState: {} });
+    const otherRoom = await createTestRoom(admin, owner.userId, { currentState: {} });
+    roomIds.push(groupRoom, otherRoom);
+    await admin.from("rooms").update({ group_id: group.id }).eq("id", groupRoom);
+
+    await admin.from("room_settlements").insert([
+      {
+        room_id: groupRoom,
+        type: "settlement",
+        player_results: { [owner.userId]: { displayName: "Owner", rank: 1, result: 20 } },
+      },
+      {
+        room_id: otherRoom,
+        type: "settlement",
+        player_results: { [owner.userId]: { displayName: "Owner", rank: 1, result: 100 } },
+      },
+    ]);
+
+    const { data } = await owner.client.rpc("rpc_get_group_leaderboard", {
+      p_group_id: group.id,
+    });
+
+    expect(data.success).toBe(true);
+    expect(data.players).toHaveLength(1);
+    expect(data.players[0]).toMatchObject({
+      player_key: owner.userId,
+      games: 1,
+      total_result: 20,
+    });
+  });
+
+  it("メンバー以外は閲覧できない", async () => {
+    const { group } = await createGroup();
+
+    const { data } = await member.client.rpc("rpc_get_group_leaderboard", {
+      p_group_id: group.id,
+    });
+
+    expect(data.error).toBe("グループのメンバーのみが閲覧できます");
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * rpc_import_game_record 仕様テスト
+ *
+ * 対象: supabase/migrations/018_import_game_record.sql
+ * 概要: 作成直後の空のルームにのみ、ホストが座席・スコア・精算行を書き込める。
+ *       精算行は新しいIDで作成され、元の日時を引き継ぐ
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createServiceClient,
+  createAnonUser,
+  cleanupAnonUser,
+  createTestRoomWithSeats,
+  getRoomState,
+  getRoomHistory,
+  getSettlements,
+  makePlayerState,
+  type AnonUser,
+} from "../helpers/supabase";
+
+const FAKE_A = "fake_1700000000000_aaaa";
+const FAKE_B = "fake_1700000000000_bbbb";
+
+const SETTLEMENTS = [
+  {
+    type: "settlement",
+    timestamp: Date.UTC(2026, 0, 1, 12, 0, 0),
+    playerResults: {
+      [FAKE_A]: { displayName: "Alice", rank: 1, result: 15 },
+      [FAKE_B]: { displayName: "Bob", rank: 2, result: -15 },
+    },
+  },
+  {
+    type: "adjustment",
+    timestamp: Date.UTC(2026, 0, 1, 13, 0, 0),
+    playerResults: {
+      [FAKE_A]: { displayName: "Alice", rank: 0, result: -2 },
+    },
+  },
+];
+
+let admin: SupabaseClient;
+let host: AnonUser;
+let guest: AnonUser;
+let roomId: string | undefined;
+
+beforeEach(async () => {
+  admin = createServiceClient();
+  host = await createAnonUser();
+  guest = await createAnonUser();
+});
+
+afterEach(async () => {
+  if (roomId) {
+    await admin.from("rooms").delete().eq("id", roomId);
+    roomId = undefined;
+  }
+  for (const u of [host, guest]) {
+    if (u) await cleanupAnonUser(admin, u.userId);
+  }
+});
+
+async function setupEmptyRoom(opts?: {
+  seats?: unknown[];
+  currentState?: Record<string, unknown>;
+}) {
+  roomId = await createTestRoomWithSeats(admin, host.userId, {
+    currentState: opts?.currentState ?? {},
+    seats: opts?.seats ?? [null, null, null, null],
+  });
+  return roomId;
+}
+
+function importParams(id: string) {
+  return {
+    p_room_id: id,
+    p_seats: [
+      { userId: FAKE_A, status: "active", displayName: "Alice", isFake: true },
+      { userId: FAKE_B, status: "active", displayName: "Bob", isFake: true },
+      null,
+      null,
+    ],
+    p_current_state: makePlayerState([
+      { id: FAKE_A, score: 31000, displayName: "Alice" },
+      { id: FAKE_B, score: 19000, displayName: "Bob" },
+    ]),
+    p_settlements: SETTLEMENTS,
+  };
+}
+
+describe("rpc_import_game_record", () => {
+  it("正常系: 座席・スコア・精算行が書き込まれ、履歴が1件追加される", async () => {
+    const id = await setupEmptyRoom();
+
+    const { data } = await host.client.rpc("rpc_import_game_record", importParams(id));
+
+    expect(data.success).toBe(true);
+    expect(data.room.seats[0]).toMatchObject({ userId: FAKE_A, isFake: true });
+    expect(data.room.seats[1]).toMatchObject({ userId: FAKE_B, isFake: true });
+
+    const state = await getRoomState(admin, id);
+    expect(state[FAKE_A]).toMatchObject({ score: 31000, __displayName__: "Alice" });
+    expect(state[FAKE_B]).toMatchObject({ score: 19000, __displayName__: "Bob" });
+
+    const history = await getRoomHistory(admin, id);
+    expect(history).toHaveLength(1);
+    expect(history[0].message).toBe("ゲーム記録をインポート（精算 1 回）");
+  });
+
+  it("精算行は元の日時順で作成される", async () => {
+    const id = await setupEmptyRoom();
+
+    await host.client.rpc("rpc_import_game_record", importParams(id));
+
+    // getSettlements は新しい順
+    const settlements = await getSettlements(admin, id);
+    expect(settlements.map((s) => s.type)).toEqual(["adjustment", "settlement"]);
+    expect(new Date(settlements[1].created_at).getTime()).toBe(
+      SETTLEMENTS[0].timestamp
+    );
+    expect(settlements[1].player_results).toMatchObject({
+      [FAKE_A]: { result: 15 },
+      [FAKE_B]: { result: -15 },
+    });
+  });
+
+  it("取り込んだ精算行は imported として作成される（通算成績に含めない）", async () => {
+    const id = await setupEmptyRoom();
+
+    await host.client.rpc("rpc_import_game_record", importParams(id));
+
+    const settlements = await getSettlements(admin, id);
+    expect(settlements.every((s) => s.imported === true)).toBe(true);
+  });
+
+  it("ホスト以外はインポートできない", async () => {
+    const id = await setupEmptyRoom();
+
+    const { data } = await guest.client.rpc("rpc_import_game_record", importParams(id));
+
+    expect(data.error).toBe("ホストのみがゲーム記録をインポートできます");
+    expect(await getSettlements(admin, id)).toHaveLength(0);
+  });
+
+  it("既にプレイ中のルームには書き込めない", async () => {
+    const id = await setupEmptyRoom({
+      currentState: makePlayerState([{ id: host.userId }]),
+      seats: [{ userId: host.userId, status: "active" }, null, null, null],
+    });
+
+    const { data } = await host.client.rpc("rpc_import_game_record", importParams(id));
+
+    expect(data.error).toBe("インポートは作成直後のルームにのみ実行できます");
+    const state = await getRoomState(admin, id);
+    expect(state[FAKE_A]).toBeUndefined();
+  });
+
+  it("不正な精算行を含む場合は何も書き込まない", async () => {
+    const id = await setupEmptyRoom();
+
+    const { data } = await host.client.rpc("rpc_import_game_record", {
+      ...importParams(id),
+      p_settlements: [...SETTLEMENTS, { type: "bonus", timestamp: 0, playerResults: {} }],
+    });
+
+    expect(data.error).toBe("精算履歴が不正です");
+    expect(await getSettlements(admin, id)).toHaveLength(0);
+    expect(await getRoomState(admin, id)).toEqual({});
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * rpc_join_seat 仕様テスト
+ *
+ * 対象: supabase/migrations/014_seat_rpc_functions.sql — rpc_join_seat
+ *       （座席数は rooms.seats の長さに従う: 017_support_larger_seat_counts.sql）
+ * 概要: 呼び出しユーザーを FOR UPDATE 行ロック下で指定座席に着席させる。
+ *       同じ空席への同時着席は一方のみ成功し、もう一方は seat_taken になる
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createServiceClient,
+  createAnonUser,
+  cleanupAnonUser,
+  createTestRoomWithSeats,
+  getRoomState,
+  getRoomHistory,
+  type AnonUser,
+} from "../helpers/supabase";
+
+let admin: SupabaseClient;
+let host: AnonUser;
+let alice: AnonUser;
+let bob: AnonUser;
+let roomId: string | undefined;
+
+beforeEach(async () => {
+  admin = createServiceClient();
+  host = await createAnonUser();
+  alice = await createAnonUser();
+  bob = await createAnonUser();
+});
+
+afterEach(async () => {
+  if (roomId) {
+    await admin.from("rooms").delete().eq("id", roomId);
+    roomId = undefined;
+  }
+  for (const u of [host, alice, bob]) {
+    if (u) await cleanupAnonUser(admin, u.userId);
+  }
+});
+
+async function setupRoom(seats: unknown[] = [null, null, null, null]) {
+  roomId = await createTestRoomWithSeats(admin, host.userId, {
+    currentState: {},
+    seats,
+  });
+  return roomId;
+}
+
+function callJoinSeat(user: AnonUser, id: string, seatIndex: number) {
+  return user.client.rpc("rpc_join_seat", {
+    p_room_id: id,
+    p_seat_index: seatIndex,
+  });
+}
+
+async function getSeats(id: string) {
+  const { data } = await admin.from("rooms").select("seats").eq("id", id).single();
+  return data!.seats as Array<Record<string, unknown> | null>;
+}
+
+describe("rpc_join_seat", () => {
+  describe("正常系", () => {
+    it("空席に着席し、テンプレート初期値で current_state が作成される", async () => {
+      const id = await setupRoom();
+
+      const { data } = await callJoinSeat(alice, id, 2);
+
+      expect(data.success).toBe(true);
+      expect(data.room.seats[2]).toMatchObject({
+        userId: alice.userId,
+        status: "active",
+      });
+
+      const state = await getRoomState(admin, id);
+      expect(state[alice.userId]).toMatchObject({ score: 25000, riichi: 0 });
+    });
+
+    it("着席が room_history に記録される", async () => {
+      const id = await setupRoom();
+
+      await callJoinSeat(alice, id, 0);
+
+      const history = await getRoomHistory(admin, id);
+      expect(history).toHaveLength(1);
+      expect(history[0].message).toMatch(/^着席: /);
+    });
+
+    it("離席後の再着席では既存スコアが保持される", async () => {
+      roomId = await createTestRoomWithSeats(admin, host.userId, {
+        currentState: { [alice.userId]: { score: 31000, riichi: 0 } },
+        seats: [null, null, null, null],
+      });
+
+      await callJoinSeat(alice, roomId, 1);
+
+      const state = await getRoomState(admin, roomId);
+      expect((state[alice.userId] as Record<string, number>).score).toBe(31000);
+    });
+
+    it("12席のルームでは 5 席目以降にも着席できる", async () => {
+      const id = await setupRoom(Array.from({ length: 12 }, () => null));
+
+      const { data } = await callJoinSeat(alice, id, 11);
+
+      expect(data.success).toBe(true);
+      const seats = await getSeats(id);
+      expect(seats).toHaveLength(12);
+      expect(seats[11]).toMatchObject({ userId: alice.userId });
+    });
+  });
+
+  describe("異常系", () => {
+    it("使用中の座席には着席できない（seat_taken）", async () => {
+      const id = await setupRoom([
+        { userId: bob.userId, status: "active" },
+        null,
+        null,
+        null,
+      ]);
+
+      const { data } = await callJoinSeat(alice, id, 0);
+
+      expect(data).toEqual({
+        error: "この座席は既に使用されています",
+        code: "seat_taken",
+      });
+    });
+
+    it("既に着席中なら別の座席に着席できない（already_seated）", async () => {
+      const id = await setupRoom([
+        { userId: alice.userId, status: "active" },
+        null,
+        null,
+        null,
+      ]);
+
+      const { data } = await callJoinSeat(alice, id, 1);
+
+      expect(data.code).toBe("already_seated");
+    });
+
+    it("範囲外の座席インデックスは invalid_seat", async () => {
+      const id = await setupRoom();
+
+      const { data } = await callJoinSeat(alice, id, 4);
+
+      expect(data.code).toBe("invalid_seat");
+    });
+
+    it("存在しないルームは room_not_found", async () => {
+      const { data } = await callJoinSeat(
+        alice,
+        "00000000-0000-0000-0000-000000000000",
+        0
+      );
+
+      expect(data.code).toBe("room_not_found");
+    });
+  });
+
+  describe("同時実行", () => {
+    it("同じ空席に 2 人が同時に着席すると一方だけが成功する", async () => {
+      const id = await setupRoom();
+
+      const [a, b] = await Promise.all([
+        callJoinSeat(alice, id, 0),
+        callJoinSeat(bob, id, 0),
+      ]);
+
+      const results = [a.data, b.data];
+      expect(results.filter((r) => r.success)).toHaveLength(1);
+      expect(results.filter((r) => r.code === "seat_taken")).toHaveLength(1);
+
+      const seats = await getSeats(id);
+      expect([alice.userId, bob.userId]).toContain(seats[0]!.userId);
+      expect(await getRoomHistory(admin, id)).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * rpc_leave_seat / rpc_force_leave_seat 仕様テスト
+ *
+ * 対象: supabase/migrations/014_seat_rpc_functions.sql — rpc_leave_seat, rpc_force_leave_seat
+ *       038_restrict_force_leave_seat.sql — rpc_force_leave_seat のホスト限定
+ * 概要: 座席を空け、current_state のスコアは保持したまま room_history に記録する。
+ *       強制離席はホスト・コホストのみで、冪等（離席済みなら履歴を残さず成功）
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createServiceClient,
+  createAnonUser,
+  cleanupAnonUser,
+  createTestRoomWithSeats,
+  getRoomState,
+  getRoomHistory,
+  makePlayerState,
+  type AnonUser,
+} from "../helpers/supabase";
+
+let admin: SupabaseClient;
+let host: AnonUser;
+let alice: AnonUser;
+let roomId: string | undefined;
+
+beforeEach(async () => {
+  admin = createServiceClient();
+  host = await createAnonUser();
+  alice = await createAnonUser();
+});
+
+afterEach(async () => {
+  if (roomId) {
+    await admin.from("rooms").delete().eq("id", roomId);
+    roomId = undefined;
+  }
+  for (const u of [host, alice]) {
+    if (u) await cleanupAnonUser(admin, u.userId);
+  }
+});
+
+async function setupSeatedRoom() {
+  roomId = await createTestRoomWithSeats(admin, host.userId, {
+    currentState: makePlayerState([
+      { id: alice.userId, score: 30000, displayName: "Alice" },
+    ]),
+    seats: [
+      null,
+      { userId: alice.userId, status: "active", displayName: "Alice" },
+      null,
+      null,
+    ],
+  });
+  return roomId;
+}
+
+describe("rpc_leave_seat", () => {
+  it("正常系: 座席が空き、スコアは保持される", async () => {
+    const id = await setupSeatedRoom();
+
+    const { data } = await alice.client.rpc("rpc_leave_seat", { p_room_id: id });
+
+    expect(data.success).toBe(true);
+    expect(data.room.seats[1]).toBeNull();
+    const state = await getRoomState(admin, id);
+    expect((state[alice.userId] as Record<string, number>).score).toBe(30000);
+
+    const history = await getRoomHistory(admin, id);
+    expect(history[0].message).toBe("離席: Alice");
+  });
+
+  it("異常系: 着席していないユーザーは not_seated", async () => {
+    const id = await setupSeatedRoom();
+
+    const { data } = await host.client.rpc("rpc_leave_seat", { p_room_id: id });
+
+    expect(data).toEqual({ error: "座席に着席していません", code: "not_seated" });
+  });
+});
+
+describe("rpc_force_leave_seat", () => {
+  it("正常系: 他ユーザーを強制離席させ、履歴に記録する", async () => {
+    const id = await setupSeatedRoom();
+
+    const { data } = await host.client.rpc("rpc_force_leave_seat", {
+      p_room_id: id,
+      p_target_user_id: alice.userId,
+    });
+
+    expect(data.success).toBe(true);
+    expect(data.room.seats[1]).toBeNull();
+    const history = await getRoomHistory(admin, id);
+    expect(history).toHaveLength(1);
+    expect(history[0].message).toBe("強制離席: Alice");
+  });
+
+  it("異常系: ホスト以外は他ユーザーを強制離席させられない", async () => {
+    const id = await setupSeatedRoom();
+    const bob = await createAnonUser();
+
+    try {
+      const { data } = await bob.client.rpc("rpc_force_leave_seat", {
+        p_room_id: id,
+        p_target_user_id: alice.userId,
+      });
+
+      expect(data).toEqual({
+        error: "ホストのみが強制離席させられます",
+        code: "not_host",
+      });
+      const { data: room } = await admin.from("rooms").select("seats").eq("id", id).single();
+      expect(room!.seats[1]).toMatchObject({ userId: alice.userId });
+      expect(await getRoomHistory(admin, id)).toHaveLength(0);
+    } finally {
+      await cleanupAnonUser(admin, bob.userId);
+    }
+  });
+
+  it("冪等: 同時に 2 回呼ばれても履歴は 1 件だけ", async () => {
+    const id = await setupSeatedRoom();
+
+    const results = await Promise.all([
+      host.client.rpc("rpc_force_leave_seat", {
+        p_room_id: id,
+        p_target_user_id: alice.userId,
+      }),
+      host.client.rpc("rpc_force_leave_seat", {
+        p_room_id: id,
+        p_target_user_id: alice.userId,
+      }),
+    ]);
+
+    expect(results.every((r) => r.data.success)).toBe(true);
+    expect(await getRoomHistory(admin, id)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * RPC 権限チェック仕様テスト
+ *
+ * 対象: supabase/migrations/013_enforce_rpc_permissions.sql
+ *       — _caller_role, _has_permission と各スコア系 RPC
+ * 概要: 認証済み（匿名）クライアントから RPC を直接呼び出し、
+ *       template.hostPermissions / playerPermissions・co_host_ids に基づいて
+ *       サーバー側で操作が拒否されることを検証する
+ *
+ * 前提:
+ *   - ローカル Supabase が起動済み (supabase start)
+ *   - マイグレーション適用済み (001〜013)
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createServiceClient,
+  createAnonUser,
+  cleanupAnonUser,
+  createTestRoomWithSeats,
+  getRoomState,
+  getRoomHistory,
+  getSettlements,
+  makePlayerState,
+  type AnonUser,
+} from "../helpers/supabase";
+
+const FORBIDDEN = "この操作を行う権限がありません";
+
+let admin: SupabaseClient;
+let host: AnonUser;
+let player: AnonUser;
+let spectator: AnonUser;
+let roomId: string | undefined;
+
+/** 権限付きテンプレート（テスト用） */
+function makeTemplate(opts: {
+  hostPermissions?: string[];
+  playerPermissions?: string[];
+}) {
+  return {
+    variables: [
+      { key: "score", label: "点数", initial: 25000 },
+      { key: "riichi", label: "リーチ棒", initial: 0 },
+    ],
+    potEnabled: true,
+    potActions: [],
+    hostPermissions: opts.hostPermissions ?? [
+      "transfer_score",
+      "retrieve_pot",
+      "finalize_game",
+      "force_edit",
+      "reset_scores",
+      "edit_template",
+      "edit_counter",
+    ],
+    playerPermissions: opts.playerPermissions ?? [
+      "transfer_score",
+      "retrieve_pot",
+    ],
+  };
+}
+
+/** host・player が着席したルームを作成 */
+async function setupRoom(
+  template: Record<string, unknown> = makeTemplate({}),
+  pot?: { score?: number; riichi?: number }
+): Promise<string> {
+  const id = await createTestRoomWithSeats(admin, host.userId, {
+    currentState: makePlayerState(
+      [
+        { id: host.userId, displayName: "Host" },
+        { id: player.userId, displayName: "Player" },
+      ],
+      pot
+    ),
+    seats: [
+      { userId: host.userId, status: "active", displayName: "Host" },
+      { userId: player.userId, status: "active", displayName: "Player" },
+      null,
+      null,
+    ],
+    template,
+  });
+  roomId = id;
+  return id;
+}
+
+beforeEach(async () => {
+  admin = createServiceClient();
+  host = await createAnonUser();
+  player = await createAnonUser();
+  spectator = await createAnonUser();
+});
+
+afterEach(async () => {
+  if (roomId) {
+    await admin.from("rooms").delete().eq("id", roomId);
+    roomId = undefined;
+  }
+  for (const u of [host, player, spectator]) {
+    if (u) await cleanupAnonUser(admin, u.userId);
+  }
+});
+
+describe("rpc_transfer_score: 権限チェック", () => {
+  it("正常系: プレイヤーが自分のスコアを移動できる", async () => {
+    const id = await setupRoom();
+
+    const { data } = await player.client.rpc("rpc_transfer_score", {
+      p_room_id: id,
+      p_from_id: player.userId,
+      p_to_id: host.userId,
+      p_transfers: [{ variable: "score", amount: 1000 }],
+    });
+
+    expect(data).toEqual({ success: true });
+    const state = await getRoomState(admin, id);
+    expect((state[player.userId] as Record<string, number>).score).toBe(24000);
+  });
+
+  it("異常系: プレイヤーが他人のスコアを移動しようとすると拒否される", async () => {
+    const id = await setupRoom();
+
+    const { data } = await player.client.rpc("rpc_transfer_score", {
+      p_room_id: id,
+      p_from_id: host.userId,
+      p_to_id: player.userId,
+      p_transfers: [{ variable: "score", amount: 1000 }],
+    });
+
+    expect(data).toEqual({ error: FORBIDDEN });
+    const state = await getRoomState(admin, id);
+    expect((state[host.userId] as Record<string, number>).score).toBe(25000);
+    expect(await getRoomHistory(admin, id)).toHaveLength(0);
+  });
+
+  it("異常系: playerPermissions に transfer_score が無いと拒否される", async () => {
+    const id = await setupRoom(makeTemplate({ playerPermissions: [] }));
+
+    const { data } = await player.client.rpc("rpc_transfer_score", {
+      p_room_id: id,
+      p_from_id: player.userId,
+      p_to_id: host.userId,
+      p_transfers: [{ variable: "score", amount: 1000 }],
+    });
+
+    expect(data).toEqual({ error: FORBIDDEN });
+  });
+
+  it("異常系: playerPermissions に retrieve_pot が無いと供託回収が拒否される", async () => {
+    const id = await setupRoom(
+      makeTemplate({ playerPermissions: ["transfer_score"] }),
+      { score: 2000 }
+    );
+
+    const { data } = await player.client.rpc("rpc_transfer_score", {
+      p_room_id: id,
+      p_from_id: "__pot__",
+      p_to_id: player.userId,
+      p_transfers: [{ variable: "score", amount: 2000 }],
+    });
+
+    expect(data).toEqual({ error: FORBIDDEN });
+    const state = await getRoomState(admin, id);
+    expect((state.__pot__ as Record<string, number>).score).toBe(2000);
+  });
+
+  it("異常系: 観戦者（未着席）は移動できない", async () => {
+    const id = await setupRoom();
+
+    const { data } = await spectator.client.rpc("rpc_transfer_score", {
+      p_room_id: id,
+      p_from_id: player.userId,
+      p_to_id: host.userId,
+      p_transfers: [{ variable: "score", amount: 1000 }],
+    });
+
+    expect(data).toEqual({ error: FORBIDDEN });
+  });
+
+  it("異常系: 負の移動量で相手から自分へ移すことはできない", async () => {
+    const id = await setupRoom();
+
+    const { data } = await player.client.rpc("rpc_transfer_score", {
+      p_room_id: id,
+      p_from_id: player.userId,
+      p_to_id: host.userId,
+      p_transfers: [{ variable: "score", amount: -1000 }],
+    });
+
+    expect(data).toEqual({ error: "移動量が不正です" });
+    const state = await getRoomState(admin, id);
+    expect((state[host.userId] as Record<string, number>).score).toBe(25000);
+    expect((state[player.userId] as Record<string, number>).score).toBe(25000);
+    expect(await getRoomHistory(admin, id)).toHaveLength(0);
+  });
+
+  it("異常系: 負の移動量の供託回収で相手の点数を供託へ移すことはできない", async () => {
+    const id = await setupRoom(makeTemplate({}), { score: 1000 });
+
+    const { data } = await player.client.rpc("rpc_transfer_score", {
+      p_room_id: id,
+      p_from_id: "__pot__",
+      p_to_id: host.userId,
+      p_transfers: [{ variable: "score", amount: -1000 }],
+    });
+
+    expect(data).toEqual({ error: "移動量が不正です" });
+    const state = await getRoomState(admin, id);
+    expect((state[host.userId] as Record<string, number>).score).toBe(25000);
+    expect((state.__pot__ as Record<string, number>).score).toBe(1000);
+  });
+
+  it("正常系: ホストは他プレイヤーのスコアを移動できる", async () => {
+    const id = await setupRoom();
+
+    const { data } = await host.client.rpc("rpc_transfer_score", {
+      p_room_id: id,
+      p_from_id: player.userId,
+      p_to_id: host.userId,
+      p_transfers: [{ variable: "score", amount: 1000 }],
+    });
+
+    expect(data).toEqual({ success: true });
+  });
+});
+
+describe("rpc_force_edit_score: 権限チェック", () => {
+  it("異常系: プレイヤーは強制編集できない", async () => {
+    const id = await setupRoom();
+
+    const { data } = await player.client.rpc("rpc_force_edit_score", {
+      p_room_id: id,
+      p_player_id: player.userId,
+      p_updates: { score: 99999 },
+    });
+
+    expect(data).toEqual({ error: FORBIDDEN });
+    const state = await getRoomState(admin, id);
+    expect((state[player.userId] as Record<string, number>).score).toBe(25000);
+  });
+
+  it("異常系: hostPermissions に force_edit が無いとホストも拒否される", async () => {
+    const id = await setupRoom(
+      makeTemplate({ hostPermissions: ["transfer_score"] })
+    );
+
+    const { data } = await host.client.rpc("rpc_force_edit_score", {
+      p_room_id: id,
+      p_player_id: player.userId,
+      p_updates: { score: 99999 },
+    });
+
+    expect(data).toEqual({ error: FORBIDDEN });
+  });
+
+  it("正常系: コホストは hostPermissions に従って強制編集できる", async () => {
+    const id = await setupRoom();
+    await admin
+      .from("rooms")
+      .update({ co_host_ids: [player.userId] })
+      .eq("id", id);
+
+    const { data } = await player.client.rpc("rpc_force_edit_score", {
+      p_room_id: id,
+      p_player_id: host.userId,
+      p_updates: { score: 30000 },
+    });
+
+    expect(data).toEqual({ success: true });
+  });
+});
+
+describe("rpc_reset_scores: 権限チェック", () => {
+  it("異常系: プレイヤーはスコアをリセットできない", async () => {
+    const id = await setupRoom();
+
+    const { data } = await player.client.rpc("rpc_reset_scores", {
+      p_room_id: id,
+      p_variable_keys: ["score"],
+    });
+
+    expect(data).toEqual({ error: FORBIDDEN });
+    expect(await getRoomHistory(admin, id)).toHaveLength(0);
+  });
+
+  it("異常系: 観戦者はスコアをリセットできない", async () => {
+    const id = await setupRoom();
+
+    const { data } = await spectator.client.rpc("rpc_reset_scores", {
+      p_room_id: id,
+      p_variable_keys: ["score"],
+    });
+
+    expect(data).toEqual({ error: FORBIDDEN });
+  });
+});
+
+describe("rpc_undo_last / rpc_rollback_to: 権限チェック", () => {
+  it("異常系: プレイヤーは undo できない", async () => {
+    const id = await setupRoom();
+    await host.client.rpc("rpc_transfer_score", {
+      p_room_id: id,
+      p_from_id: host.userId,
+      p_to_id: player.userId,
+      p_transfers: [{ variable: "score", amount: 1000 }],
+    });
+
+    const { data } = await player.client.rpc("rpc_undo_last", {
+      p_room_id: id,
+    });
+
+    expect(data).toEqual({ error: FORBIDDEN });
+    expect(await getRoomHistory(admin, id)).toHaveLength(1);
+  });
+
+  it("異常系: プレイヤーはロールバックできない", async () => {
+    const id = await setupRoom();
+    await host.client.rpc("rpc_transfer_score", {
+      p_room_id: id,
+      p_from_id: host.userId,
+      p_to_id: player.userId,
+      p_transfers: [{ variable: "score", amount: 1000 }],
+    });
+    const [entry] = await getRoomHistory(admin, id);
+
+    const { data } = await player.client.rpc("rpc_rollback_to", {
+      p_room_id: id,
+      p_history_id: entry.id,
+    });
+
+    expect(data).toEqual({ error: FORBIDDEN });
+    const state = await getRoomState(admin, id);
+    expect((state[player.userId] as Record<string, number>).score).toBe(26000);
+  });
+
+  it("正常系: ホストは undo できる", async () => {
+    const id = await setupRoom();
+    await host.client.rpc("rpc_transfer_score", {
+      p_room_id: id,
+      p_from_id: host.userId,
+      p_to_id: player.userId,
+      p_transfers: [{ variable: "score", amount: 1000 }],
+    });
+
+    const { data } = await host.client.rpc("rpc_undo_last", {
+      p_room_id: id,
+    });
+
+    expect(data).toEqual({ success: true });
+  });
+});
+
+describe("rpc_save_settlement / rpc_save_adjustment: 権限チェック", () => {
+  const results = (hostId: string, playerId: string) => ({
+    [hostId]: { displayName: "Host", finalScore: 25000, rank: 1, result: 10 },
+    [playerId]: {
+      displayName: "Player",
+      finalScore: 25000,
+      rank: 2,
+      result: -10,
+    },
+  });
+
+  it("異常系: プレイヤーは精算を保存できない", async () => {
+    const id = await setupRoom();
+
+    const { data } = await player.client.rpc("rpc_save_settlement", {
+      p_room_id: id,
+      p_settlement_id: crypto.randomUUID(),
+      p_player_results: results(host.userId, player.userId),
+    });
+
+    expect(data).toEqual({ error: FORBIDDEN });
+    expect(await getSettlements(admin, id)).toHaveLength(0);
+  });
+
+  it("異常系: hostPermissions に finalize_game が無いとホストも調整行を保存できない", async () => {
+    const id = await setupRoom(
+      makeTemplate({ hostPermissions: ["transfer_score"] })
+    );
+
+    const { data } = await host.client.rpc("rpc_save_adjustment", {
+      p_room_id: id,
+      p_settlement_id: crypto.randomUUID(),
+      p_player_results: results(host.userId, player.userId),
+    });
+
+    expect(data).toEqual({ error: FORBIDDEN });
+    expect(await getSettlements(admin, id)).toHaveLength(0);
+  });
+});
+
+describe("rpc_update_counter: 権限チェック", () => {
+  it("異常系: playerPermissions に edit_counter が無いとプレイヤーは更新できない", async () => {
+    const id = await setupRoom();
+
+    const { data } = await player.client.rpc("rpc_update_counter", {
+      p_room_id: id,
+      p_expected_value: 0,
+      p_new_value: 1,
+    });
+
+    expect(data).toEqual({ error: FORBIDDEN });
+  });
+});
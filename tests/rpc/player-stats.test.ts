@@ -0,0 +1,215 @@
+/**
+ * rpc_get_player_stats 仕様テスト
+ *
+ * 対象: supabase/migrations/019_player_stats.sql, 036_lock_down_settlements.sql,
+ *       046_guest_stats_by_id.sql
+ * 概要: 自分がホスト、または精算結果に含まれるルームの精算行をプレイヤー別に集計する。
+ *       調整行は合計にのみ加算し、ゲストはルームとIDで区別する
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createServiceClient,
+  createAnonUser,
+  cleanupAnonUser,
+  createTestRoom,
+  DEFAULT_TEMPLATE,
+  type AnonUser,
+} from "../helpers/supabase";
+
+const MAHJONG_TEMPLATE = { ...DEFAULT_TEMPLATE, layoutMode: "mahjong" };
+
+let admin: SupabaseClient;
+let me: AnonUser;
+let other: AnonUser;
+let roomIds: string[] = [];
+
+beforeEach(async () => {
+  admin = createServiceClient();
+  me = await createAnonUser();
+  other = await createAnonUser();
+});
+
+afterEach(async () => {
+  for (const id of roomIds) {
+    await admin.from("rooms").delete().eq("id", id);
+  }
+  roomIds = [];
+  for (const u of [me, other]) {
+    if (u) await cleanupAnonUser(admin, u.userId);
+  }
+});
+
+async function setupRoom(hostUserId: string, template: Record<string, unknown>) {
+  const id = await createTestRoom(admin, hostUserId, { currentState: {}, template });
+  roomIds.push(id);
+  return id;
+}
+
+async function insertSettlement(
+  roomId: string,
+  type: "settlement" | "adjustment",
+  results: Record<string, { displayName: string; rank: number; result: number }>,
+  createdAt: string,
+  imported = false
+) {
+  const { error } = await admin.from("room_settlements").insert({
+    room_id: roomId,
+    type,
+    player_results: results,
+    created_at: createdAt,
+    imported,
+  });
+  if (error) throw new Error(`insert settlement failed: ${error.message}`);
+}
+
+function findPlayer(players: any[], key: string) {
+  return players.find((p) => p.player_key === key);
+}
+
+describe("rpc_get_player_stats", () => {
+  it("正常系: 複数ルームの精算行をプレイヤー別に集計する", async () => {
+    const roomA = await setupRoom(me.userId, MAHJONG_TEMPLATE);
+    const roomB = await setupRoom(other.userId, MAHJONG_TEMPLATE);
+
+    await insertSettlement(roomA, "settlement", {
+      [me.userId]: { displayName: "Me", rank: 1, result: 30 },
+      [other.userId]: { displayName: "Other", rank: 2, result: -30 },
+    }, "2026-01-01T10:00:00Z");
+    await insertSettlement(roomA, "adjustment", {
+      [me.userId]: { displayName: "Me", rank: 0, result: -5 },
+    }, "2026-01-01T11:00:00Z");
+    // 他人がホストでも、精算結果に自分が含まれていれば対象
+    await insertSettlement(roomB, "settlement", {
+      [me.userId]: { displayName: "Me", rank: 2, result: -10 },
+      [other.userId]: { displayName: "Other", rank: 1, result: 10 },
+    }, "2026-01-08T10:00:00Z");
+
+    const { data } = await me.client.rpc("rpc_get_player_stats", {});
+
+    expect(data.success).toBe(true);
+    const mine = findPlayer(data.players, me.userId);
+    expect(mine).toMatchObject({
+      is_me: true,
+      is_guest: false,
+      display_name: "Me",
+      games: 2,
+      total_result: 15,
+      best_result: 30,
+      worst_result: -10,
+      rank_counts: { "1": 1, "2": 1 },
+    });
+    expect(Number(mine.average_rank)).toBe(1.5);
+
+    const theirs = findPlayer(data.players, other.userId);
+    expect(theirs).toMatchObject({ games: 2, total_result: -20, is_me: false });
+
+    // 合計の降順
+    expect(data.players[0].player_key).toBe(me.userId);
+  });
+
+  it("参加していないルームは集計しない", async () => {
+    const roomA = await setupRoom(other.userId, MAHJONG_TEMPLATE);
+    await insertSettlement(roomA, "settlement", {
+      [other.userId]: { displayName: "Other", rank: 1, result: 10 },
+    }, "2026-01-01T10:00:00Z");
+
+    const { data } = await me.client.rpc("rpc_get_player_stats", {});
+
+    expect(data.players).toEqual([]);
+  });
+
+  it("ゲストは表示名が同じでも別ルームなら別プレイヤーとして集計する", async () => {
+    const roomA = await setupRoom(me.userId, MAHJONG_TEMPLATE);
+    const roomB = await setupRoom(me.userId, MAHJONG_TEMPLATE);
+    await insertSettlement(roomA, "settlement", {
+      fake_1_aaaa: { displayName: "プレイヤーA", rank: 1, result: 20 },
+    }, "2026-01-01T10:00:00Z");
+    await insertSettlement(roomA, "settlement", {
+      fake_1_aaaa: { displayName: "プレイヤーA", rank: 2, result: 5 },
+    }, "2026-01-01T11:00:00Z");
+    // 別ルームで同じゲストIDが振られても合算しない
+    await insertSettlement(roomB, "settlement", {
+      fake_1_aaaa: { displayName: "プレイヤーA", rank: 3, result: -5 },
+    }, "2026-01-02T10:00:00Z");
+
+    const { data } = await me.client.rpc("rpc_get_player_stats", {});
+
+    expect(data.players).toHaveLength(2);
+    expect(findPlayer(data.players, `guest:${roomA}:fake_1_aaaa`)).toMatchObject({
+      is_guest: true,
+      display_name: "プレイヤーA",
+      games: 2,
+      total_result: 25,
+    });
+    expect(findPlayer(data.players, `guest:${roomB}:fake_1_aaaa`)).toMatchObject({
+      is_guest: true,
+      games: 1,
+      total_result: -5,
+    });
+  });
+
+  it("期間・レイアウトで絞り込める", async () => {
+    const mahjongRoom = await setupRoom(me.userId, MAHJONG_TEMPLATE);
+    const listRoom = await setupRoom(me.userId, { ...DEFAULT_TEMPLATE, layoutMode: "list" });
+    await insertSettlement(mahjongRoom, "settlement", {
+      [me.userId]: { displayName: "Me", rank: 1, result: 10 },
+    }, "2026-01-01T10:00:00Z");
+    await insertSettlement(mahjongRoom, "settlement", {
+      [me.userId]: { displayName: "Me", rank: 1, result: 20 },
+    }, "2026-02-01T10:00:00Z");
+    await insertSettlement(listRoom, "settlement", {
+      [me.userId]: { displayName: "Me", rank: 1, result: 100 },
+    }, "2026-02-01T10:00:00Z");
+
+    const byLayout = await me.client.rpc("rpc_get_player_stats", {
+      p_layout_mode: "mahjong",
+    });
+    expect(findPlayer(byLayout.data.players, me.userId).total_result).toBe(30);
+
+    const byPeriod = await me.client.rpc("rpc_get_player_stats", {
+      p_from: "2026-01-15T00:00:00Z",
+      p_to: "2026-03-01T00:00:00Z",
+    });
+    expect(findPlayer(byPeriod.data.players, me.userId).total_result).toBe(120);
+  });
+
+  it("インポートで取り込んだ精算行は集計しない（元のルームと二重に数えない）", async () => {
+    const original = await setupRoom(me.userId, MAHJONG_TEMPLATE);
+    const copy = await setupRoom(me.userId, MAHJONG_TEMPLATE);
+    const results = { [me.userId]: { displayName: "Me", rank: 1, result: 30 } };
+    await insertSettlement(original, "settlement", results, "2026-01-01T10:00:00Z");
+    await insertSettlement(copy, "settlement", results, "2026-01-01T10:00:00Z", true);
+
+    const { data } = await me.client.rpc("rpc_get_player_stats", {});
+
+    expect(findPlayer(data.players, me.userId)).toMatchObject({ games: 1, total_result: 30 });
+  });
+
+  it("精算行はクライアントから直接追加・削除できない", async () => {
+    const roomA = await setupRoom(me.userId, MAHJONG_TEMPLATE);
+    await insertSettlement(roomA, "settlement", {
+      [other.userId]: { displayName: "Other", rank: 1, result: 10 },
+    }, "2026-01-01T10:00:00Z");
+
+    const inserted = await other.client.from("room_settlements").insert({
+      room_id: roomA,
+      type: "settlement",
+      player_results: { [me.userId]: { displayName: "Me", rank: 4, result: -999 } },
+    });
+    await other.client.from("room_settlements").delete().eq("room_id", roomA);
+
+    expect(inserted.error).not.toBeNull();
+    const { data } = await me.client.rpc("rpc_get_player_stats", {});
+    expect(findPlayer(data.players, other.userId)).toMatchObject({ games: 1, total_result: 10 });
+    expect(findPlayer(data.players, me.userId)).toBeUndefined();
+  });
+
+  it("無効なレイアウトはエラー", async () => {
+    const { data } = await me.client.rpc("rpc_get_player_stats", {
+      p_layout_mode: "board",
+    });
+
+    expect(data.error).toBe("無効なレイアウトです");
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * rpc_redo 仕様テスト
+ *
+ * 対象: supabase/migrations/023_undo_redo_history.sql, 042_limit_undo_to_score_events.sql — rpc_redo
+ * 概要: rpc_undo_last で取り消した操作を古い順にやり直す。
+ *       新しい操作が入ると やり直しはできなくなる（着席・離席の記録では消えない）
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createServiceClient,
+  createTestUser,
+  createTestRoom,
+  deleteTestRoom,
+  deleteTestUser,
+  getRoomState,
+  getSettlements,
+  makePlayerState,
+} from "../helpers/supabase";
+
+let supabase: SupabaseClient;
+let hostUserId: string;
+let roomId: string;
+
+const PLAYER_A = "player-aaa-1234-5678-abcdefabcdef";
+const PLAYER_B = "player-bbb-1234-5678-abcdefabcdef";
+
+beforeEach(async () => {
+  supabase = createServiceClient();
+  hostUserId = await createTestUser(supabase);
+  roomId = await createTestRoom(supabase, hostUserId, {
+    currentState: makePlayerState([
+      { id: PLAYER_A, score: 25000 },
+      { id: PLAYER_B, score: 25000 },
+    ]),
+  });
+});
+
+afterEach(async () => {
+  if (roomId) await deleteTestRoom(supabase, roomId);
+  if (hostUserId) await deleteTestUser(supabase, hostUserId);
+});
+
+function doTransfer(amount: number) {
+  return supabase.rpc("rpc_transfer_score", {
+    p_room_id: roomId,
+    p_from_id: PLAYER_A,
+    p_to_id: PLAYER_B,
+    p_transfers: [{ variable: "score", amount }],
+  });
+}
+
+function callUndo() {
+  return supabase.rpc("rpc_undo_last", { p_room_id: roomId });
+}
+
+function callRedo() {
+  return supabase.rpc("rpc_redo", { p_room_id: roomId });
+}
+
+async function getScoreA() {
+  const state = await getRoomState(supabase, roomId);
+  return (state[PLAYER_A] as Record<string, number>).score;
+}
+
+describe("rpc_redo", () => {
+  it("2回 undo した操作を古い順にやり直す", async () => {
+    await doTransfer(1000);
+    await doTransfer(2000);
+    await callUndo();
+    await callUndo();
+    expect(await getScoreA()).toBe(25000);
+
+    const first = await callRedo();
+    expect(first.data.success).toBe(true);
+    expect(await getScoreA()).toBe(24000);
+
+    await callRedo();
+    expect(await getScoreA()).toBe(22000);
+
+    const { data: reverted } = await supabase
+      .from("room_history")
+      .select("id")
+      .eq("room_id", roomId)
+      .not("reverted_at", "is", null);
+    expect(reverted).toHaveLength(0);
+  });
+
+  it("精算の undo で削除した精算レコードを redo で戻す", async () => {
+    const settlementId = crypto.randomUUID();
+    await supabase.rpc("rpc_save_settlement", {
+      p_room_id: roomId,
+      p_settlement_id: settlementId,
+      p_player_results: {
+        [PLAYER_A]: { displayName: "A", rank: 1, result: 10 },
+        [PLAYER_B]: { displayName: "B", rank: 2, result: -10 },
+      },
+    });
+    await callUndo();
+    expect(await getSettlements(supabase, roomId)).toHaveLength(0);
+
+    await callRedo();
+
+    const settlements = await getSettlements(supabase, roomId);
+    expect(settlements).toHaveLength(1);
+    expect(settlements[0].id).toBe(settlementId);
+  });
+
+  it("undo 後に新しい操作をすると やり直しできない", async () => {
+    await doTransfer(1000);
+    await callUndo();
+    await doTransfer(500);
+
+    const { data } = await callRedo();
+
+    expect(data.error).toBe("やり直せる操作がありません");
+    expect(await getScoreA()).toBe(24500);
+  });
+
+  it("undo 後に着席・離席の記録が入っても やり直しできる", async () => {
+    await doTransfer(1000);
+    await callUndo();
+    await supabase.rpc("rpc_join_fake_seat", { p_room_id: roomId, p_seat_index: 0 });
+
+    const { data } = await callRedo();
+
+    expect(data.success).toBe(true);
+    expect(await getScoreA()).toBe(24000);
+  });
+
+  it("undo は着席・離席の記録を飛ばしてスコア操作を取り消す", async () => {
+    await doTransfer(1000);
+    await supabase.rpc("rpc_join_fake_seat", { p_room_id: roomId, p_seat_index: 0 });
+
+    const { data } = await callUndo();
+
+    expect(data.success).toBe(true);
+    expect(await getScoreA()).toBe(25000);
+    const { data: history } = await supabase
+      .from("room_history")
+      .select("event_type, reverted_at")
+      .eq("room_id", roomId);
+    expect(history!.find((h) => h.event_type === "join_fake_seat")!.reverted_at).toBeNull();
+    expect(history!.find((h) => h.event_type === "transfer")!.reverted_at).not.toBeNull();
+  });
+
+  it("ロールバックを undo すると取り消した履歴が有効に戻り、redo で再適用される", async () => {
+    await doTransfer(1000);
+    await doTransfer(2000);
+    const { data: history } = await supabase
+      .from("room_history")
+      .select("id")
+      .eq("room_id", roomId)
+      .order("created_at", { ascending: true });
+    await supabase.rpc("rpc_rollback_to", {
+      p_room_id: roomId,
+      p_history_id: history![1].id,
+    });
+    expect(await getScoreA()).toBe(24000);
+
+    await callUndo();
+    expect(await getScoreA()).toBe(22000);
+    const { data: active } = await supabase
+      .from("room_history")
+      .select("id")
+      .eq("room_id", roomId)
+      .is("reverted_at", null);
+    expect(active).toHaveLength(2);
+
+    await callRedo();
+    expect(await getScoreA()).toBe(24000);
+  });
+});
@@ -2,8 +2,9 @@
  * rpc_rollback_to 仕様テスト
  *
  * 対象: supabase/migrations/006_create_rpc_functions.sql — rpc_rollback_to
+ *       （履歴の保持: 023_undo_redo_history.sql）
  * 概要: 指定した履歴エントリの snapshot まで状態を巻き戻し、
- *       それ以降の履歴・精算レコードを削除する
+ *       それ以降の履歴を取り消し済みにして精算レコードを削除する
  */
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import type { SupabaseClient } from "@supabase/supabase-js";
@@ -93,7 +94,7 @@ describe("rpc_rollback_to", () => {
   });
 
   describe("正常系: 履歴の整理", () => {
-    it("ロールバック対象以降の履歴が削除され、ロールバック操作自体が新しい履歴として追加される", async () => {
+    it("ロールバック対象以降の履歴が取り消し済みになり、ロールバック操作自体が新しい履歴として追加される", async () => {
       roomId = await createTestRoom(supabase, hostUserId, {
         currentState: makePlayerState([
           { id: PLAYER_A, score: 25000 },
@@ -110,10 +111,18 @@ describe("rpc_rollback_to", () => {
 
       await callRollbackTo(roomId, oldestEntry.id);
 
-      // 元の3件は削除され、ロールバック操作の1件だけ残る
+      // 元の3件は取り消し済みとして残り、ロールバック操作の1件が有効
       const historyAfter = await getRoomHistory(supabase, roomId);
-      expect(historyAfter).toHaveLength(1);
+      expect(historyAfter).toHaveLength(4);
       expect(historyAfter[0].message).toContain("ロールバック");
+
+      const { data: reverted } = await supabase
+        .from("room_history")
+        .select("id, reverted_by")
+        .eq("room_id", roomId)
+        .not("reverted_at", "is", null);
+      expect(reverted).toHaveLength(3);
+      expect(reverted!.every((h) => h.reverted_by === historyAfter[0].id)).toBe(true);
     });
   });
 
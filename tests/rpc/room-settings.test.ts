@@ -0,0 +1,195 @@
+/**
+ * ルーム設定 RPC 仕様テスト
+ *
+ * 対象: supabase/migrations/015_lock_down_room_updates.sql
+ *       — rpc_update_template, rpc_update_co_hosts, rpc_update_room_status
+ * 概要: テンプレート・ステータスはホスト・コホストのみ、
+ *       コホスト一覧はルーム作成者のみが変更できることを検証する
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createServiceClient,
+  createAnonUser,
+  cleanupAnonUser,
+  createTestRoomWithSeats,
+  getRoomState,
+  makePlayerState,
+  DEFAULT_TEMPLATE,
+  type AnonUser,
+} from "../helpers/supabase";
+
+let admin: SupabaseClient;
+let host: AnonUser;
+let coHost: AnonUser;
+let guest: AnonUser;
+let roomId: string | undefined;
+
+beforeEach(async () => {
+  admin = createServiceClient();
+  host = await createAnonUser();
+  coHost = await createAnonUser();
+  guest = await createAnonUser();
+});
+
+afterEach(async () => {
+  if (roomId) {
+    await admin.from("rooms").delete().eq("id", roomId);
+    roomId = undefined;
+  }
+  for (const u of [host, coHost, guest]) {
+    if (u) await cleanupAnonUser(admin, u.userId);
+  }
+});
+
+async function setupRoom() {
+  roomId = await createTestRoomWithSeats(admin, host.userId, {
+    currentState: makePlayerState([
+      { id: host.userId, score: 25000 },
+      { id: guest.userId, score: 30000 },
+    ]),
+    seats: [
+      { userId: host.userId, status: "active" },
+      { userId: guest.userId, status: "active" },
+      null,
+      null,
+    ],
+  });
+  await admin
+    .from("rooms")
+    .update({ co_host_ids: [coHost.userId] })
+    .eq("id", roomId);
+  return roomId;
+}
+
+async function getRoom(id: string) {
+  const { data } = await admin.from("rooms").select("*").eq("id", id).single();
+  return data!;
+}
+
+describe("rpc_update_template", () => {
+  it("正常系: 新しい変数が既存プレイヤーに初期値で追加される", async () => {
+    const id = await setupRoom();
+
+    const { data } = await host.client.rpc("rpc_update_template", {
+      p_room_id: id,
+      p_template_update: {
+        variables: [
+          ...DEFAULT_TEMPLATE.variables,
+          { key: "chip", label: "チップ", initial: 10 },
+        ],
+      },
+    });
+
+    expect(data).toEqual({ success: true });
+    const state = await getRoomState(admin, id);
+    expect((state[guest.userId] as Record<string, number>).chip).toBe(10);
+  });
+
+  it("正常系: initial の変更は差分としてスライドされる", async () => {
+    const id = await setupRoom();
+
+    await coHost.client.rpc("rpc_update_template", {
+      p_room_id: id,
+      p_template_update: {
+        variables: [
+          { key: "score", label: "点数", initial: 30000 },
+          { key: "riichi", label: "リーチ棒", initial: 0 },
+        ],
+      },
+    });
+
+    const state = await getRoomState(admin, id);
+    expect((state[host.userId] as Record<string, number>).score).toBe(30000);
+    expect((state[guest.userId] as Record<string, number>).score).toBe(35000);
+  });
+
+  it("異常系: ゲストはテンプレートを変更できない", async () => {
+    const id = await setupRoom();
+
+    const { data } = await guest.client.rpc("rpc_update_template", {
+      p_room_id: id,
+      p_template_update: { hostPermissions: [], playerPermissions: ["force_edit"] },
+    });
+
+    expect(data).toEqual({ error: "ホストのみがテンプレートを変更できます" });
+    expect((await getRoom(id)).template).toEqual(DEFAULT_TEMPLATE);
+  });
+});
+
+describe("rpc_update_co_hosts", () => {
+  it("正常系: ルーム作成者はコホストを変更できる", async () => {
+    const id = await setupRoom();
+
+    const { data } = await host.client.rpc("rpc_update_co_hosts", {
+      p_room_id: id,
+      p_co_host_ids: [guest.userId],
+    });
+
+    expect(data).toEqual({ success: true });
+    expect((await getRoom(id)).co_host_ids).toEqual([guest.userId]);
+  });
+
+  it("異常系: コホストはコホスト一覧を変更できない", async () => {
+    const id = await setupRoom();
+
+    const { data } = await coHost.client.rpc("rpc_update_co_hosts", {
+      p_room_id: id,
+      p_co_host_ids: [coHost.userId, guest.userId],
+    });
+
+    expect(data).toEqual({
+      error: "ルーム作成者のみがホスト権限を変更できます",
+    });
+    expect((await getRoom(id)).co_host_ids).toEqual([coHost.userId]);
+  });
+
+  it("異常系: ゲストは自分をコホストに追加できない", async () => {
+    const id = await setupRoom();
+
+    const { data } = await guest.client.rpc("rpc_update_co_hosts", {
+      p_room_id: id,
+      p_co_host_ids: [guest.userId],
+    });
+
+    expect(data.error).toBeDefined();
+    expect((await getRoom(id)).co_host_ids).toEqual([coHost.userId]);
+  });
+});
+
+describe("rpc_update_room_status", () => {
+  it("正常系: コホストはステータスを変更できる", async () => {
+    const id = await setupRoom();
+
+    const { data } = await coHost.client.rpc("rpc_update_room_status", {
+      p_room_id: id,
+      p_status: "finished",
+    });
+
+    expect(data).toEqual({ success: true });
+    expect((await getRoom(id)).status).toBe("finished");
+  });
+
+  it("異常系: ゲストはステータスを変更できない", async () => {
+    const id = await setupRoom();
+
+    const { data } = await guest.client.rpc("rpc_update_room_status", {
+      p_room_id: id,
+      p_status: "finished",
+    });
+
+    expect(data).toEqual({ error: "ホストのみがステータスを変更できます" });
+    expect((await getRoom(id)).status).toBe("playing");
+  });
+
+  it("異常系: 無効なステータスは拒否される", async () => {
+    const id = await setupRoom();
+
+    const { data } = await host.client.rpc("rpc_update_room_status", {
+      p_room_id: id,
+      p_status: "archived",
+    });
+
+    expect(data).toEqual({ error: "無効なステータスです" });
+  });
+});
@@ -2,7 +2,9 @@
  * rpc_save_settlement / rpc_save_adjustment 仕様テスト
  *
  * 対象: supabase/migrations/006_create_rpc_functions.sql
- *       — rpc_save_settlement: 精算保存 + score リセット
+ *       supabase/migrations/016_generalize_settlement_variable.sql
+ *       supabase/migrations/029_computed_variables.sql
+ *       — rpc_save_settlement: 精算保存 + 精算対象変数（デフォルト score）のリセット
  *       — rpc_save_adjustment: 調整行保存（スコア変更なし）
  */
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
@@ -136,6 +138,92 @@ describe("rpc_save_settlement", () => {
       const pot = state.__pot__ as Record<string, number>;
       expect(pot.score).toBe(0);
     });
+
+    it("settlementConfig.variable 指定時はその変数だけがリセットされる", async () => {
+      roomId = await createTestRoom(supabase, hostUserId, {
+        currentState: {
+          [PLAYER_A]: { vp: 12, coins: 40 },
+          [PLAYER_B]: { vp: 8, coins: 15 },
+        },
+        template: {
+          layoutMode: "list",
+          variables: [
+            { key: "vp", label: "勝利点", initial: 0 },
+            { key: "coins", label: "コイン", initial: 10 },
+          ],
+          hostPermissions: ["finalize_game"],
+          playerPermissions: [],
+          settlementConfig: {
+            variable: "vp",
+            divider: 1,
+            rankBonuses: {},
+            zeroSumCheck: false,
+          },
+        },
+      });
+
+      await callSaveSettlement({
+        roomId,
+        settlementId: crypto.randomUUID(),
+        playerResults: {
+          [PLAYER_A]: { displayName: "Alice", rank: 1, result: 12 },
+          [PLAYER_B]: { displayName: "Bob", rank: 2, result: 8 },
+        },
+      });
+
+      const state = await getRoomState(supabase, roomId);
+      const a = state[PLAYER_A] as Record<string, number>;
+      expect(a.vp).toBe(0); // リセット
+      expect(a.coins).toBe(40); // 変更なし
+      expect(await getSettlements(supabase, roomId)).toHaveLength(1);
+    });
+  });
+
+  describe("正常系: 計算変数で精算", () => {
+    it("計算式が参照する変数だけがリセットされる", async () => {
+      roomId = await createTestRoom(supabase, hostUserId, {
+        currentState: {
+          [PLAYER_A]: { vp: 12, bonus: 3, coins: 40 },
+          [PLAYER_B]: { vp: 8, bonus: 1, coins: 15 },
+          __pot__: { bonus: 2 },
+        },
+        template: {
+          layoutMode: "list",
+          variables: [
+            { key: "vp", label: "勝利点", initial: 0 },
+            { key: "bonus", label: "ボーナス", initial: 0 },
+            { key: "coins", label: "コイン", initial: 10 },
+          ],
+          computedVariables: [
+            { key: "total", label: "合計", expression: "vp + bonus * 10" },
+          ],
+          hostPermissions: ["finalize_game"],
+          playerPermissions: [],
+          settlementConfig: {
+            variable: "total",
+            divider: 1,
+            rankBonuses: {},
+            zeroSumCheck: false,
+          },
+        },
+      });
+
+      await callSaveSettlement({
+        roomId,
+        settlementId: crypto.randomUUID(),
+        playerResults: {
+          [PLAYER_A]: { displayName: "Alice", rank: 1, result: 42 },
+          [PLAYER_B]: { displayName: "Bob", rank: 2, result: 18 },
+        },
+      });
+
+      const state = await getRoomState(supabase, roomId);
+      const a = state[PLAYER_A] as Record<string, number>;
+      expect(a.vp).toBe(0);
+      expect(a.bonus).toBe(0);
+      expect(a.coins).toBe(40); // 計算式で参照されない
+      expect((state.__pot__ as Record<string, number>).bonus).toBe(0);
+    });
   });
 
   describe("正常系: レコード作成", () => {
@@ -0,0 +1,159 @@
+/**
+ * rpc_heartbeat / release_stale_seats 仕様テスト
+ *
+ * 対象: supabase/migrations/031_server_presence.sql, 043_narrow_stale_seat_release.sql
+ * 概要: クライアントは応答時刻を送るだけで、強制離席はサーバーの定期処理が行う
+ *   - forceLeaveTimeoutSec を超えて応答の無い実ユーザーの座席を1回だけ解放
+ *   - 履歴は event_type = 'force_leave_seat'（payload.reason = 'timeout'）
+ *   - ゲスト（isFake）・終了したルームは対象外、スコアは保持
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createServiceClient,
+  createAnonUser,
+  cleanupAnonUser,
+  createTestRoomWithSeats,
+  getRoomState,
+  makePlayerState,
+  type AnonUser,
+} from "../helpers/supabase";
+
+let admin: SupabaseClient;
+let host: AnonUser;
+let alice: AnonUser;
+let roomId: string | undefined;
+
+const GUEST_ID = "fake_guest-1";
+
+beforeEach(async () => {
+  admin = createServiceClient();
+  host = await createAnonUser();
+  alice = await createAnonUser();
+  roomId = await createTestRoomWithSeats(admin, host.userId, {
+    currentState: makePlayerState([
+      { id: alice.userId, score: 30000, displayName: "Alice" },
+      { id: GUEST_ID, score: 20000, displayName: "ゲスト1" },
+    ]),
+    seats: [
+      { userId: alice.userId, status: "active", displayName: "Alice" },
+      { userId: GUEST_ID, status: "active", displayName: "ゲスト1", isFake: true },
+      null,
+      null,
+    ],
+    template: {
+      variables: [{ key: "score", label: "点数", initial: 25000 }],
+      forceLeaveTimeoutSec: 120,
+    },
+  });
+});
+
+afterEach(async () => {
+  if (roomId) {
+    await admin.from("rooms").delete().eq("id", roomId);
+    roomId = undefined;
+  }
+  for (const u of [host, alice]) {
+    if (u) await cleanupAnonUser(admin, u.userId);
+  }
+});
+
+async function setLastSeen(userId: string, secondsAgo: number) {
+  await admin
+    .from("room_presence")
+    .upsert({
+      room_id: roomId,
+      user_id: userId,
+      last_seen_at: new Date(Date.now() - secondsAgo * 1000).toISOString(),
+    });
+}
+
+async function getSeats() {
+  const { data } = await admin.from("rooms").select("seats").eq("id", roomId!).single();
+  return data!.seats as ({ userId: string } | null)[];
+}
+
+async function getTimeoutHistory() {
+  const { data } = await admin
+    .from("room_history")
+    .select("event_type, to_id, payload, message")
+    .eq("room_id", roomId!)
+    .eq("event_type", "force_leave_seat");
+  return data ?? [];
+}
+
+describe("rpc_heartbeat", () => {
+  it("自分の最終応答時刻を記録・更新する", async () => {
+    const { data } = await alice.client.rpc("rpc_heartbeat", { p_room_id: roomId });
+
+    expect(data.success).toBe(true);
+    const { data: rows } = await admin
+      .from("room_presence")
+      .select("user_id, last_seen_at")
+      .eq("room_id", roomId!);
+    expect(rows).toHaveLength(1);
+    expect(rows![0].user_id).toBe(alice.userId);
+  });
+
+  it("存在しないルームはエラー", async () => {
+    const { data } = await alice.client.rpc("rpc_heartbeat", {
+      p_room_id: "00000000-0000-0000-0000-000000000000",
+    });
+
+    expect(data.error).toBe("ルームが見つかりません");
+  });
+});
+
+describe("release_stale_seats", () => {
+  it("タイムアウトを超えた実ユーザーの座席を1回だけ解放し、スコアは保持する", async () => {
+    await setLastSeen(alice.userId, 600);
+
+    await admin.rpc("release_stale_seats");
+    await admin.rpc("release_stale_seats");
+
+    const seats = await getSeats();
+    expect(seats[0]).toBeNull();
+    expect(seats[1]?.userId).toBe(GUEST_ID);
+
+    const state = await getRoomState(admin, roomId!);
+    expect((state[alice.userId] as Record<string, number>).score).toBe(30000);
+
+    const history = await getTimeoutHistory();
+    expect(history).toHaveLength(1);
+    expect(history[0].to_id).toBe(alice.userId);
+    expect(history[0].payload).toEqual({ name: "Alice", reason: "timeout" });
+    expect(history[0].message).toBe("切断により離席: Alice");
+  });
+
+  it("タイムアウト前・応答記録の無い着席者は解放しない（記録の無い場合は計測を開始）", async () => {
+    await admin.rpc("release_stale_seats");
+
+    const { data: started } = await admin
+      .from("room_presence")
+      .select("user_id")
+      .eq("room_id", roomId!);
+    expect(started!.map((r) => r.user_id)).toEqual([alice.userId]);
+
+    await setLastSeen(alice.userId, 60);
+    await admin.rpc("release_stale_seats");
+
+    expect((await getSeats())[0]?.userId).toBe(alice.userId);
+    expect(await getTimeoutHistory()).toHaveLength(0);
+  });
+
+  it("終了したルームの座席は解放しない", async () => {
+    await admin.from("rooms").update({ status: "finished" }).eq("id", roomId!);
+    await setLastSeen(alice.userId, 600);
+
+    await admin.rpc("release_stale_seats");
+
+    expect((await getSeats())[0]?.userId).toBe(alice.userId);
+    expect(await getTimeoutHistory()).toHaveLength(0);
+  });
+
+  it("authenticated ロールからは実行できない", async () => {
+    const { error } = await alice.client.rpc("release_stale_seats");
+
+    expect(error).not.toBeNull();
+  });
+});
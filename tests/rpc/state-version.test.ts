@@ -0,0 +1,120 @@
+/**
+ * state_version / p_expected_version 仕様テスト
+ *
+ * 対象: supabase/migrations/033_state_version.sql
+ * 概要: rooms.state_version はルームの更新ごとに 1 ずつ増え、
+ *       ルームを更新する RPC は p_expected_version が現在の値と異なれば何も変更しない
+ *   - 競合時は {error, code: 'state_version_conflict'}
+ *   - 省略時は従来どおり
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createServiceClient,
+  createTestUser,
+  createTestRoomWithSeats,
+  deleteTestRoom,
+  deleteTestUser,
+  getRoomState,
+  makePlayerState,
+} from "../helpers/supabase";
+
+let supabase: SupabaseClient;
+let hostUserId: string;
+let roomId: string;
+
+const PLAYER_A = "player-aaa-1234-5678-abcdefabcdef";
+const PLAYER_B = "player-bbb-1234-5678-abcdefabcdef";
+
+beforeEach(async () => {
+  supabase = createServiceClient();
+  hostUserId = await createTestUser(supabase);
+  roomId = await createTestRoomWithSeats(supabase, hostUserId, {
+    currentState: makePlayerState([
+      { id: PLAYER_A, score: 25000 },
+      { id: PLAYER_B, score: 25000 },
+    ]),
+    seats: [
+      { userId: PLAYER_A, status: "active", displayName: "Alice" },
+      { userId: PLAYER_B, status: "active", displayName: "Bob" },
+      null,
+      null,
+    ],
+  });
+});
+
+afterEach(async () => {
+  if (roomId) await deleteTestRoom(supabase, roomId);
+  if (hostUserId) await deleteTestUser(supabase, hostUserId);
+});
+
+async function getVersion(): Promise<number> {
+  const { data } = await supabase
+    .from("rooms")
+    .select("state_version")
+    .eq("id", roomId)
+    .single();
+  return Number(data!.state_version);
+}
+
+function transfer(expectedVersion?: number) {
+  return supabase.rpc("rpc_transfer_score", {
+    p_room_id: roomId,
+    p_from_id: PLAYER_A,
+    p_to_id: PLAYER_B,
+    p_transfers: [{ variable: "score", amount: 1000 }],
+    ...(expectedVersion !== undefined ? { p_expected_version: expectedVersion } : {}),
+  });
+}
+
+describe("state_version", () => {
+  it("ルームを更新するたびに 1 ずつ増える（座席操作・カウンターも含む）", async () => {
+    const v0 = await getVersion();
+
+    await transfer();
+    await supabase.rpc("rpc_update_counter", {
+      p_room_id: roomId,
+      p_expected_value: 0,
+      p_new_value: 1,
+    });
+    await supabase.rpc("rpc_update_room_name", { p_room_id: roomId, p_room_name: "卓" });
+
+    expect(await getVersion()).toBe(v0 + 3);
+  });
+
+  it("期待するバージョンが一致すれば更新する", async () => {
+    const { data } = await transfer(await getVersion());
+
+    expect(data.success).toBe(true);
+  });
+
+  it("期待するバージョンが古ければ競合として何も変更しない", async () => {
+    const v0 = await getVersion();
+    await transfer();
+
+    const { data } = await transfer(v0);
+
+    expect(data.code).toBe("state_version_conflict");
+    expect(data.error).toBe("他の操作で状態が更新されました。最新の状態でやり直してください");
+    const state = await getRoomState(supabase, roomId);
+    expect((state[PLAYER_A] as Record<string, number>).score).toBe(24000);
+    expect(await getVersion()).toBe(v0 + 1);
+  });
+
+  it("強制編集・座席系 RPC も p_expected_version を受け付ける", async () => {
+    const { data: edit } = await supabase.rpc("rpc_force_edit_score", {
+      p_room_id: roomId,
+      p_player_id: PLAYER_A,
+      p_updates: { score: 30000 },
+      p_expected_version: -1,
+    });
+    const { data: seat } = await supabase.rpc("rpc_force_leave_seat", {
+      p_room_id: roomId,
+      p_target_user_id: PLAYER_B,
+      p_expected_version: -1,
+    });
+
+    expect(edit.code).toBe("state_version_conflict");
+    expect(seat.code).toBe("state_version_conflict");
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * 構造化履歴 仕様テスト
+ *
+ * 対象: supabase/migrations/021_structured_history.sql
+ *       （操作者の表示名: 022_history_actor_name.sql）
+ * 概要: 履歴を書き込む RPC は message に加えて event_type / actor_id /
+ *       from_id / to_id / transfers / payload を記録する。
+ *       actor_name と __recent_log__ の actorId / actorName には操作者を記録する
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createServiceClient,
+  createAnonUser,
+  cleanupAnonUser,
+  createTestRoomWithSeats,
+  makePlayerState,
+  getRoomState,
+  DEFAULT_TEMPLATE,
+  type AnonUser,
+} from "../helpers/supabase";
+
+let admin: SupabaseClient;
+let host: AnonUser;
+let roomId: string | undefined;
+
+const PLAYER_A = "player-aaa-1234-5678-abcdefabcdef";
+
+const TEMPLATE = {
+  ...DEFAULT_TEMPLATE,
+  hostPermissions: ["transfer_score", "retrieve_pot", "finalize_game", "force_edit", "reset_scores"],
+  playerPermissions: ["transfer_score"],
+};
+
+beforeEach(async () => {
+  admin = createServiceClient();
+  host = await createAnonUser();
+});
+
+afterEach(async () => {
+  if (roomId) {
+    await admin.from("rooms").delete().eq("id", roomId);
+    roomId = undefined;
+  }
+  if (host) await cleanupAnonUser(admin, host.userId);
+});
+
+async function setupRoom() {
+  roomId = await createTestRoomWithSeats(admin, host.userId, {
+    template: TEMPLATE,
+    currentState: makePlayerState([
+      { id: host.userId, score: 25000, displayName: "Host" },
+      { id: PLAYER_A, score: 25000 },
+    ]),
+    seats: [
+      { userId: host.userId, status: "active", displayName: "Host" },
+      { userId: PLAYER_A, status: "active", displayName: "Alice" },
+      null,
+      null,
+    ],
+  });
+  return roomId;
+}
+
+async function getLatestHistory(id: string) {
+  const { data, error } = await admin
+    .from("room_history")
+    .select("*")
+    .eq("room_id", id)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .single();
+  if (error) throw new Error(`getLatestHistory failed: ${error.message}`);
+  return data;
+}
+
+describe("構造化履歴", () => {
+  it("rpc_transfer_score: 移動元・移動先・移動量・操作者を記録する", async () => {
+    const id = await setupRoom();
+
+    await host.client.rpc("rpc_transfer_score", {
+      p_room_id: id,
+      p_from_id: host.userId,
+      p_to_id: PLAYER_A,
+      p_transfers: [{ variable: "score", amount: 8000 }],
+      p_from_name: "Host",
+      p_to_name: "Alice",
+    });
+
+    const entry = await getLatestHistory(id);
+    expect(entry).toMatchObject({
+      event_type: "transfer",
+      actor_id: host.userId,
+      from_id: host.userId,
+      to_id: PLAYER_A,
+      transfers: [{ variable: "score", amount: 8000 }],
+      payload: { fromName: "Host", toName: "Alice" },
+    });
+    // 既存クライアント向けの message も引き続き保存する
+    expect(entry.message).toContain("Alice");
+  });
+
+  it("rpc_force_edit_score: 対象プレイヤーと上書き後の値を記録する", async () => {
+    const id = await setupRoom();
+
+    await host.client.rpc("rpc_force_edit_score", {
+      p_room_id: id,
+      p_player_id: PLAYER_A,
+      p_updates: { score: 30000 },
+      p_display_name: "Alice",
+    });
+
+    const entry = await getLatestHistory(id);
+    expect(entry).toMatchObject({
+      event_type: "force_edit",
+      from_id: null,
+      to_id: PLAYER_A,
+      transfers: null,
+      payload: { name: "Alice", values: { score: 30000 } },
+    });
+  });
+
+  it("rpc_leave_seat: 対象プレイヤーと表示名を記録する", async () => {
+    const id = await setupRoom();
+
+    await host.client.rpc("rpc_leave_seat", { p_room_id: id });
+
+    const entry = await getLatestHistory(id);
+    expect(entry).toMatchObject({
+      event_type: "leave_seat",
+      actor_id: host.userId,
+      to_id: host.userId,
+      payload: { name: "Host" },
+    });
+  });
+
+  it("rpc_save_adjustment: 0 以外の結果のみ payload に記録する", async () => {
+    const id = await setupRoom();
+    const settlementId = crypto.randomUUID();
+
+    await host.client.rpc("rpc_save_adjustment", {
+      p_room_id: id,
+      p_settlement_id: settlementId,
+      p_player_results: {
+        [host.userId]: { displayName: "Host", rank: 0, result: 5 },
+        [PLAYER_A]: { displayName: "Alice", rank: 0, result: 0 },
+      },
+    });
+
+    const entry = await getLatestHistory(id);
+    expect(entry.event_type).toBe("adjustment");
+    expect(entry.payload).toEqual({
+      settlementId,
+      results: { [host.userId]: { displayName: "Host", result: 5 } },
+    });
+  });
+});
+
+describe("操作者の表示名", () => {
+  it("ルーム内の表示名を actor_name と __recent_log__ に記録する", async () => {
+    const id = await setupRoom();
+
+    await host.client.rpc("rpc_transfer_score", {
+      p_room_id: id,
+      p_from_id: host.userId,
+      p_to_id: PLAYER_A,
+      p_transfers: [{ variable: "score", amount: 1000 }],
+    });
+
+    const entry = await getLatestHistory(id);
+    expect(entry.actor_name).toBe("Host");
+
+    const state = await getRoomState(admin, id);
+    const recentLog = state.__recent_log__ as Array<Record<string, unknown>>;
+    expect(recentLog[recentLog.length - 1]).toMatchObject({
+      actorId: host.userId,
+      actorName: "Host",
+    });
+  });
+
+  it("service_role からの操作は操作者なし", async () => {
+    const id = await setupRoom();
+
+    await admin.rpc("rpc_transfer_score", {
+      p_room_id: id,
+      p_from_id: host.userId,
+      p_to_id: PLAYER_A,
+      p_transfers: [{ variable: "score", amount: 1000 }],
+    });
+
+    const entry = await getLatestHistory(id);
+    expect(entry.actor_id).toBeNull();
+    expect(entry.actor_name).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * rpc_transfer_multi 仕様テスト
+ *
+ * 対象: supabase/migrations/026_multi_transfer.sql — rpc_transfer_multi
+ * 概要: 複数の {from, to, transfers} を1操作で反映する
+ *   - 履歴は event_type = 'multi_transfer' の1行、undo 1回で全移動が戻る
+ *   - 1件でも不正な移動があれば何も反映しない
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createServiceClient,
+  createTestUser,
+  createTestRoomWithSeats,
+  deleteTestRoom,
+  deleteTestUser,
+  getRoomState,
+  makePlayerState,
+} from "../helpers/supabase";
+
+let supabase: SupabaseClient;
+let hostUserId: string;
+let roomId: string;
+
+const PLAYER_A = "player-aaa-1234-5678-abcdefabcdef";
+const PLAYER_B = "player-bbb-1234-5678-abcdefabcdef";
+const PLAYER_C = "player-ccc-1234-5678-abcdefabcdef";
+const PLAYERS = [PLAYER_A, PLAYER_B, PLAYER_C];
+
+beforeEach(async () => {
+  supabase = createServiceClient();
+  hostUserId = await createTestUser(supabase);
+  roomId = await createTestRoomWithSeats(supabase, hostUserId, {
+    currentState: {
+      ...makePlayerState(PLAYERS.map((id) => ({ id, score: 25000, riichi: 1 }))),
+      __pot__: { score: 0, riichi: 0 },
+    },
+    seats: PLAYERS.map((userId, i) => ({
+      userId,
+      status: "active",
+      displayName: ["Alice", "Bob", "Carol"][i],
+    })),
+  });
+});
+
+afterEach(async () => {
+  if (roomId) await deleteTestRoom(supabase, roomId);
+  if (hostUserId) await deleteTestUser(supabase, hostUserId);
+});
+
+function transferMulti(legs: unknown) {
+  return supabase.rpc("rpc_transfer_multi", {
+    p_room_id: roomId,
+    p_legs: legs,
+  });
+}
+
+async function getScores() {
+  const state = await getRoomState(supabase, roomId);
+  return PLAYERS.map((id) => (state[id] as Record<string, number>).score);
+}
+
+describe("rpc_transfer_multi", () => {
+  it("複数人からの支払いを1操作で反映し、履歴は1行にまとまる", async () => {
+    const { data } = await transferMulti([
+      { from: PLAYER_A, to: PLAYER_B, transfers: [{ variable: "score", amount: 2600 }] },
+      { from: PLAYER_C, to: PLAYER_B, transfers: [{ variable: "score", amount: 1300 }] },
+    ]);
+
+    expect(data.success).toBe(true);
+    expect(await getScores()).toEqual([22400, 28900, 23700]);
+
+    const { data: history } = await supabase
+      .from("room_history")
+      .select("event_type, from_id, to_id, payload, message")
+      .eq("room_id", roomId);
+    expect(history).toHaveLength(1);
+    expect(history![0].event_type).toBe("multi_transfer");
+    expect(history![0].from_id).toBeNull();
+    expect(history![0].to_id).toBe(PLAYER_B);
+    expect(history![0].payload.legs).toHaveLength(2);
+    expect(history![0].message).toBe(
+      "Alice → Bob: 点数 2600 / Carol → Bob: 点数 1300"
+    );
+  });
+
+  it("undo 1回で全移動が戻る", async () => {
+    await transferMulti([
+      { from: PLAYER_A, to: PLAYER_B, transfers: [{ variable: "score", amount: 2600 }] },
+      { from: PLAYER_C, to: PLAYER_B, transfers: [{ variable: "score", amount: 1300 }] },
+    ]);
+
+    await supabase.rpc("rpc_undo_last", { p_room_id: roomId });
+
+    expect(await getScores()).toEqual([25000, 25000, 25000]);
+  });
+
+  it("Pot への移動も含められる", async () => {
+    await transferMulti([
+      { from: PLAYER_A, to: "__pot__", transfers: [{ variable: "riichi", amount: 1 }] },
+      { from: PLAYER_C, to: "__pot__", transfers: [{ variable: "riichi", amount: 1 }] },
+    ]);
+
+    const state = await getRoomState(supabase, roomId);
+    expect((state.__pot__ as Record<string, number>).riichi).toBe(2);
+    expect((state[PLAYER_A] as Record<string, number>).riichi).toBe(0);
+  });
+
+  it("1件でも不正な移動があれば何も反映しない", async () => {
+    const { data } = await transferMulti([
+      { from: PLAYER_A, to: PLAYER_B, transfers: [{ variable: "score", amount: 2600 }] },
+      { from: "unknown-player", to: PLAYER_B, transfers: [{ variable: "score", amount: 1300 }] },
+    ]);
+
+    expect(data.error).toBe("送信元プレイヤーが見つかりません");
+    expect(await getScores()).toEqual([25000, 25000, 25000]);
+  });
+
+  it("供託金が足りなければエラー", async () => {
+    const { data } = await transferMulti([
+      { from: "__pot__", to: PLAYER_A, transfers: [{ variable: "riichi", amount: 1 }] },
+    ]);
+
+    expect(data.error).toBe("供託金が不足しています");
+  });
+
+  it("移動が空ならエラー", async () => {
+    const { data } = await transferMulti([]);
+
+    expect(data.error).toBe("移動がありません");
+  });
+});
@@ -2,7 +2,8 @@
  * rpc_undo_last 仕様テスト
  *
  * 対象: supabase/migrations/006_create_rpc_functions.sql — rpc_undo_last
- * 概要: 最新の操作履歴エントリの snapshot を復元し、そのエントリを削除する
+ *       （取り消し済みとして保持: 023_undo_redo_history.sql）
+ * 概要: 最新の有効な操作履歴エントリの snapshot を復元し、そのエントリを取り消し済みにする
  */
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import type { SupabaseClient } from "@supabase/supabase-js";
@@ -84,7 +85,7 @@ describe("rpc_undo_last", () => {
       expect(b.score).toBe(25000);
     });
 
-    it("取り消された操作の履歴エントリが削除される", async () => {
+    it("取り消された操作の履歴エントリは削除されず取り消し済みになる", async () => {
       roomId = await createTestRoom(supabase, hostUserId, {
         currentState: makePlayerState([
           { id: PLAYER_A, score: 25000 },
@@ -98,8 +99,14 @@ describe("rpc_undo_last", () => {
 
       await callUndoLast(roomId);
 
-      const historyAfter = await getRoomHistory(supabase, roomId);
-      expect(historyAfter).toHaveLength(0);
+      const { data: historyAfter } = await supabase
+        .from("room_history")
+        .select("id, reverted_at, redo_state")
+        .eq("room_id", roomId);
+      expect(historyAfter).toHaveLength(1);
+      expect(historyAfter![0].id).toBe(historyBefore[0].id);
+      expect(historyAfter![0].reverted_at).not.toBeNull();
+      expect(historyAfter![0].redo_state).not.toBeNull();
     });
   });
 
@@ -0,0 +1,145 @@
+/**
+ * 変数の制約 仕様テスト
+ *
+ * 対象: supabase/migrations/030_variable_constraints.sql — _check_variable_constraints
+ * 概要: variables[] の min / max / step / allowNegative を全てのスコア操作 RPC で検査する
+ *   - 違反すればエラーを返し、状態・履歴は変わらない
+ *   - 検査するのは操作で値が変わったプレイヤーの変数のみ
+ *   - allowNegative: "warn" はサーバーでは許可（通知はクライアント）
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createServiceClient,
+  createTestUser,
+  createTestRoomWithSeats,
+  deleteTestRoom,
+  deleteTestUser,
+  getRoomState,
+  makePlayerState,
+} from "../helpers/supabase";
+
+let supabase: SupabaseClient;
+let hostUserId: string;
+let roomId: string;
+
+const PLAYER_A = "player-aaa-1234-5678-abcdefabcdef";
+const PLAYER_B = "player-bbb-1234-5678-abcdefabcdef";
+const PLAYER_C = "player-ccc-1234-5678-abcdefabcdef";
+const PLAYERS = [PLAYER_A, PLAYER_B, PLAYER_C];
+
+const TEMPLATE = {
+  variables: [
+    { key: "score", label: "点数", initial: 25000, step: 100, allowNegative: "warn" },
+    { key: "riichi", label: "リーチ棒", initial: 0, max: 3, allowNegative: "forbid" },
+  ],
+  customActions: [
+    {
+      id: "bonus",
+      label: "ボーナス",
+      legs: [{ from: "others", to: "actor", variable: "riichi", amount: 1 }],
+    },
+  ],
+};
+
+beforeEach(async () => {
+  supabase = createServiceClient();
+  hostUserId = await createTestUser(supabase);
+  roomId = await createTestRoomWithSeats(supabase, hostUserId, {
+    currentState: makePlayerState([
+      { id: PLAYER_A, score: 1000, riichi: 1 },
+      { id: PLAYER_B, score: 25000, riichi: 0 },
+      { id: PLAYER_C, score: 25050, riichi: 3 },
+    ]),
+    seats: PLAYERS.map((userId, i) => ({
+      userId,
+      status: "active",
+      displayName: ["Alice", "Bob", "Carol"][i],
+    })),
+    template: TEMPLATE,
+  });
+});
+
+afterEach(async () => {
+  if (roomId) await deleteTestRoom(supabase, roomId);
+  if (hostUserId) await deleteTestUser(supabase, hostUserId);
+});
+
+function transfer(fromId: string, toId: string, variable: string, amount: number) {
+  return supabase.rpc("rpc_transfer_score", {
+    p_room_id: roomId,
+    p_from_id: fromId,
+    p_to_id: toId,
+    p_transfers: [{ variable, amount }],
+  });
+}
+
+async function getValues(variable: string) {
+  const state = await getRoomState(supabase, roomId);
+  return PLAYERS.map((id) => (state[id] as Record<string, number>)[variable]);
+}
+
+async function getHistoryCount() {
+  const { count } = await supabase
+    .from("room_history")
+    .select("id", { count: "exact", head: true })
+    .eq("room_id", roomId);
+  return count;
+}
+
+describe("変数の制約", () => {
+  it("warn の変数は負になっても許可される", async () => {
+    const { data } = await transfer(PLAYER_A, PLAYER_B, "score", 2000);
+
+    expect(data.success).toBe(true);
+    expect(await getValues("score")).toEqual([-1000, 27000, 25050]);
+  });
+
+  it("forbid の変数が負になる移動はエラーで何も変わらない", async () => {
+    const { data } = await transfer(PLAYER_B, PLAYER_A, "riichi", 1);
+
+    expect(data.error).toBe("リーチ棒を負の値にはできません");
+    expect(await getValues("riichi")).toEqual([1, 0, 3]);
+    expect(await getHistoryCount()).toBe(0);
+  });
+
+  it("上限・刻みに違反する移動はエラー", async () => {
+    const { data: overMax } = await transfer(PLAYER_A, PLAYER_C, "riichi", 1);
+    const { data: badStep } = await transfer(PLAYER_A, PLAYER_B, "score", 50);
+
+    expect(overMax.error).toBe("リーチ棒が上限（3）を超えます");
+    expect(badStep.error).toBe("点数は100単位で指定してください");
+  });
+
+  it("値が変わらないプレイヤーは検査しない（刻みに合わない Carol がいても移動できる）", async () => {
+    const { data } = await transfer(PLAYER_B, PLAYER_A, "score", 100);
+
+    expect(data.success).toBe(true);
+  });
+
+  it("強制編集・一括移動・カスタム操作でも検査する", async () => {
+    const { data: edit } = await supabase.rpc("rpc_force_edit_score", {
+      p_room_id: roomId,
+      p_player_id: PLAYER_B,
+      p_updates: { riichi: 4 },
+    });
+    const { data: multi } = await supabase.rpc("rpc_transfer_multi", {
+      p_room_id: roomId,
+      p_legs: [
+        { from: PLAYER_A, to: PLAYER_C, transfers: [{ variable: "score", amount: 100 }] },
+        { from: PLAYER_B, to: PLAYER_C, transfers: [{ variable: "riichi", amount: 1 }] },
+      ],
+    });
+    const { data: action } = await supabase.rpc("rpc_run_custom_action", {
+      p_room_id: roomId,
+      p_action_id: "bonus",
+      p_actor_id: PLAYER_A,
+    });
+
+    expect(edit.error).toBe("リーチ棒が上限（3）を超えます");
+    expect(multi.error).toBe("リーチ棒を負の値にはできません");
+    expect(action.error).toBe("リーチ棒を負の値にはできません");
+    expect(await getValues("score")).toEqual([1000, 25000, 25050]);
+    expect(await getHistoryCount()).toBe(0);
+  });
+});
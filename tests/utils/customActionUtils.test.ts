@@ -0,0 +1,107 @@
+/**
+ * customActionUtils.ts ユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import {
+  calculateCustomActionDeltas,
+  canPlayerRunCustomAction,
+  formatCustomActionLeg,
+  validateCustomActionLeg,
+} from "../../app/utils/customActionUtils";
+import type { CustomAction, Variable } from "../../app/types";
+
+const VARIABLES: Variable[] = [
+  { key: "score", label: "点数", initial: 0 },
+  { key: "token", label: "トークン", initial: 3 },
+];
+
+const PLAYERS = ["a", "b", "c", "d"];
+
+function makeAction(legs: CustomAction["legs"]): CustomAction {
+  return { id: "act", label: "操作", legs };
+}
+
+describe("calculateCustomActionDeltas", () => {
+  it("他の全員 → 実行者: 実行者は人数分受け取る", () => {
+    const action = makeAction([{ from: "others", to: "actor", variable: "score", amount: 500 }]);
+
+    expect(calculateCustomActionDeltas(action, "a", PLAYERS)).toEqual([
+      { id: "b", variable: "score", amount: -500 },
+      { id: "c", variable: "score", amount: -500 },
+      { id: "d", variable: "score", amount: -500 },
+      { id: "a", variable: "score", amount: 1500 },
+    ]);
+  });
+
+  it("実行者 → 他の全員: 実行者は人数分支払う", () => {
+    const action = makeAction([{ from: "actor", to: "others", variable: "score", amount: 100 }]);
+
+    expect(calculateCustomActionDeltas(action, "b", PLAYERS)).toEqual([
+      { id: "b", variable: "score", amount: -300 },
+      { id: "a", variable: "score", amount: 100 },
+      { id: "c", variable: "score", amount: 100 },
+      { id: "d", variable: "score", amount: 100 },
+    ]);
+  });
+
+  it("供託と場: 場との増減は含めず、同じ変数はまとめる", () => {
+    const action = makeAction([
+      { from: "actor", to: "pot", variable: "token", amount: 1 },
+      { from: "bank", to: "actor", variable: "score", amount: 2 },
+      { from: "actor", to: "bank", variable: "token", amount: 1 },
+    ]);
+
+    expect(calculateCustomActionDeltas(action, "a", PLAYERS)).toEqual([
+      { id: "a", variable: "token", amount: -2 },
+      { id: "__pot__", variable: "token", amount: 1 },
+      { id: "a", variable: "score", amount: 2 },
+    ]);
+  });
+
+  it("相殺して 0 になった増減は除く", () => {
+    const action = makeAction([
+      { from: "actor", to: "bank", variable: "score", amount: 300 },
+      { from: "bank", to: "actor", variable: "score", amount: 300 },
+    ]);
+
+    expect(calculateCustomActionDeltas(action, "a", PLAYERS)).toEqual([]);
+  });
+});
+
+describe("canPlayerRunCustomAction", () => {
+  it("他の全員から支払わせる操作はホストのみ", () => {
+    expect(
+      canPlayerRunCustomAction(
+        makeAction([{ from: "others", to: "actor", variable: "score", amount: 500 }])
+      )
+    ).toBe(false);
+    expect(
+      canPlayerRunCustomAction(
+        makeAction([{ from: "actor", to: "others", variable: "score", amount: 500 }])
+      )
+    ).toBe(true);
+  });
+});
+
+describe("validateCustomActionLeg / formatCustomActionLeg", () => {
+  it("移動元と移動先が同じ・量が0・未定義の変数はエラー", () => {
+    expect(
+      validateCustomActionLeg({ from: "pot", to: "pot", variable: "score", amount: 1 }, VARIABLES)
+    ).toBe("移動元と移動先が同じです。");
+    expect(
+      validateCustomActionLeg({ from: "actor", to: "pot", variable: "score", amount: 0 }, VARIABLES)
+    ).toBe("量は1以上を入力してください。");
+    expect(
+      validateCustomActionLeg({ from: "actor", to: "pot", variable: "chip", amount: 1 }, VARIABLES)
+    ).toBe("無効な変数が選択されています。");
+    expect(
+      validateCustomActionLeg({ from: "actor", to: "pot", variable: "token", amount: 1 }, VARIABLES)
+    ).toBeNull();
+  });
+
+  it("役割名と変数ラベルで表示する", () => {
+    expect(
+      formatCustomActionLeg({ from: "others", to: "actor", variable: "score", amount: 500 }, VARIABLES)
+    ).toBe("他の全員 → 実行者: 点数 500");
+  });
+});
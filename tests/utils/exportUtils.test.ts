@@ -0,0 +1,186 @@
+/**
+ * exportUtils.ts ユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import {
+  buildGameRecord,
+  settlementsToCsv,
+  exportFileName,
+  EXPORT_FORMAT,
+  EXPORT_FORMAT_VERSION,
+} from "../../app/utils/exportUtils";
+import type { Room, Settlement } from "../../app/types";
+
+function makeRoom(overrides: Partial<Room> = {}): Room {
+  return {
+    id: "room-1",
+    room_code: "1234",
+    room_name: "金曜麻雀",
+    host_user_id: "host-uid",
+    co_host_ids: [],
+    status: "playing",
+    template: {
+      variables: [{ key: "score", label: "点数", initial: 25000 }],
+      hostPermissions: [],
+      playerPermissions: [],
+    },
+    current_state: { "user-1": { score: 25000 } },
+    seats: [{ userId: "user-1", status: "active", displayName: "Alice" }, null],
+    created_at: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+function makeSettlement(
+  id: string,
+  type: Settlement["type"],
+  results: Record<string, number>
+): Settlement {
+  return {
+    id,
+    timestamp: Date.UTC(2026, 0, 1, 12, 0, 0),
+    type,
+    playerResults: Object.fromEntries(
+      Object.entries(results).map(([userId, result], i) => [
+        userId,
+        {
+          displayName: userId,
+          finalScore: 0,
+          rank: i + 1,
+          rankBonus: 0,
+          adjustedScore: 0,
+          divided: result,
+          result,
+        },
+      ])
+    ),
+  };
+}
+
+describe("buildGameRecord", () => {
+  it("format・version とテンプレート・最終状態・履歴・精算を含む", () => {
+    const room = makeRoom();
+    const history = [
+      {
+        id: "h1",
+        room_id: "room-1",
+        message: "着席: Alice",
+        snapshot: {},
+        created_at: "2026-01-01T00:01:00Z",
+        event_type: "join_seat" as const,
+        actor_id: "user-1",
+        actor_name: "Alice",
+        from_id: null,
+        to_id: "user-1",
+        transfers: null,
+        payload: { name: "Alice" },
+        reverted_at: null,
+        reverted_by: null,
+      },
+    ];
+    const settlements = [makeSettlement("s1", "settlement", { "user-1": 10 })];
+
+    const record = buildGameRecord(
+      room,
+      history,
+      settlements,
+      new Date("2026-01-02T00:00:00Z")
+    );
+
+    expect(record.format).toBe(EXPORT_FORMAT);
+    expect(record.version).toBe(EXPORT_FORMAT_VERSION);
+    expect(record.exportedAt).toBe("2026-01-02T00:00:00.000Z");
+    expect(record.room).toEqual({
+      id: "room-1",
+      room_code: "1234",
+      room_name: "金曜麻雀",
+      status: "playing",
+      host_user_id: "host-uid",
+      created_at: "2026-01-01T00:00:00Z",
+    });
+    expect(record.template).toBe(room.template);
+    expect(record.currentState).toBe(room.current_state);
+    expect(record.history).toEqual([
+      {
+        id: "h1",
+        message: "着席: Alice",
+        snapshot: {},
+        created_at: "2026-01-01T00:01:00Z",
+        event_type: "join_seat",
+        actor_id: "user-1",
+        actor_name: "Alice",
+        from_id: null,
+        to_id: "user-1",
+        transfers: null,
+        payload: { name: "Alice" },
+        reverted_at: null,
+      },
+    ]);
+    expect(record.settlements).toBe(settlements);
+  });
+
+  it("JSON 文字列化して復元しても同じ内容になる", () => {
+    const record = buildGameRecord(makeRoom(), [], []);
+
+    expect(JSON.parse(JSON.stringify(record))).toEqual(record);
+  });
+});
+
+describe("settlementsToCsv", () => {
+  const columns = [
+    { userId: "user-1", displayName: "Alice" },
+    { userId: "user-2", displayName: "Bob, Jr." },
+  ];
+
+  it("ヘッダー・精算行・調整行・合計行を出力する", () => {
+    const settlements = [
+      makeSettlement("s1", "settlement", { "user-1": 15.5, "user-2": -15.5 }),
+      makeSettlement("s2", "adjustment", { "user-1": -2 }),
+      makeSettlement("s3", "settlement", { "user-1": -5, "user-2": 5 }),
+    ];
+
+    const lines = settlementsToCsv(settlements, columns).trimEnd().split("\r\n");
+
+    expect(lines[0]).toBe('回,種別,日時,Alice,"Bob, Jr."');
+    expect(lines[1]).toBe("1,精算,2026-01-01T12:00:00.000Z,15.5,-15.5");
+    expect(lines[2]).toBe(",調整,2026-01-01T12:00:00.000Z,-2,");
+    expect(lines[3]).toBe("2,精算,2026-01-01T12:00:00.000Z,-5,5");
+    expect(lines[4]).toBe("合計,,,8.5,-10.5");
+  });
+
+  it("ダブルクォートはエスケープされる", () => {
+    const csv = settlementsToCsv([], [{ userId: "u", displayName: 'A"B' }]);
+
+    expect(csv.split("\r\n")[0]).toBe('回,種別,日時,"A""B"');
+  });
+
+  it("数式として評価される表示名は先頭に ' を付ける（数値はそのまま）", () => {
+    const injected = [
+      { userId: "u1", displayName: "=HYPERLINK(\"http://x\")" },
+      { userId: "u2", displayName: "+1" },
+      { userId: "u3", displayName: "-SUM(A1)" },
+      { userId: "u4", displayName: "@cmd" },
+    ];
+    const settlements = [
+      makeSettlement("s1", "settlement", { u1: -10, u2: 10, u3: 0, u4: 0 }),
+    ];
+
+    const lines = settlementsToCsv(settlements, injected).trimEnd().split("\r\n");
+
+    expect(lines[0]).toBe(`回,種別,日時,"'=HYPERLINK(""http://x"")",'+1,'-SUM(A1),'@cmd`);
+    expect(lines[1]).toBe("1,精算,2026-01-01T12:00:00.000Z,-10,10,0,0");
+  });
+});
+
+describe("exportFileName", () => {
+  it("ルームコードと日付を含む", () => {
+    const now = new Date(2026, 2, 5);
+
+    expect(exportFileName({ room_code: "1234" }, "json", now)).toBe(
+      "room-1234-20260305.json"
+    );
+    expect(exportFileName({ room_code: "1234" }, "csv", now)).toBe(
+      "room-1234-20260305.csv"
+    );
+  });
+});
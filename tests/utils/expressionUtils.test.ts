@@ -0,0 +1,107 @@
+/**
+ * expressionUtils.ts ユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import {
+  computeInitialValue,
+  computeVariableValue,
+  evaluateExpression,
+  ExpressionError,
+  getExpressionVariables,
+  parseExpression,
+  validateExpression,
+} from "../../app/utils/expressionUtils";
+import type { ComputedVariable, Variable } from "../../app/types";
+
+function evaluate(expression: string, values: Record<string, unknown> = {}): number {
+  return evaluateExpression(parseExpression(expression), values);
+}
+
+describe("parseExpression / evaluateExpression", () => {
+  it("演算子の優先順位・括弧・単項マイナス", () => {
+    expect(evaluate("1 + 2 * 3")).toBe(7);
+    expect(evaluate("(1 + 2) * 3")).toBe(9);
+    expect(evaluate("10 - 4 - 3")).toBe(3);
+    expect(evaluate("12 / 4 / 3")).toBe(1);
+    expect(evaluate("-2 * -(3 + 1)")).toBe(8);
+    expect(evaluate("1.5 * 2 + .5")).toBe(3.5);
+  });
+
+  it("変数を参照し、値の無い変数・数値でない値は 0", () => {
+    const values = { score: 25000, bonus: 3, __displayName__: "Alice" };
+
+    expect(evaluate("score + bonus * 10", values)).toBe(25030);
+    expect(evaluate("missing + 1", values)).toBe(1);
+    expect(evaluate("__displayName__ + 1", values)).toBe(1);
+  });
+
+  it("Object のプロトタイプは参照しない", () => {
+    expect(evaluate("constructor + toString + 1")).toBe(1);
+  });
+
+  it("min / max / abs / floor / ceil / round", () => {
+    expect(evaluate("min(3, 1, 2)")).toBe(1);
+    expect(evaluate("max(score, 0)", { score: -500 })).toBe(0);
+    expect(evaluate("abs(-4)")).toBe(4);
+    expect(evaluate("floor(7 / 2) + ceil(7 / 2)")).toBe(7);
+    expect(evaluate("round(2.5)")).toBe(3);
+  });
+
+  it("構文エラーは ExpressionError", () => {
+    for (const expression of [
+      "",
+      "1 +",
+      "(1 + 2",
+      "1 2",
+      "score; 1",
+      "alert(1)",
+      "abs(1, 2)",
+      "1..2",
+      "a[0]",
+      "x => 1",
+    ]) {
+      expect(() => parseExpression(expression), expression).toThrow(ExpressionError);
+    }
+  });
+
+  it("長すぎる・深すぎる式は ExpressionError", () => {
+    expect(() => parseExpression("1+".repeat(150) + "1")).toThrow(ExpressionError);
+    expect(() => parseExpression("(".repeat(40) + "1" + ")".repeat(40))).toThrow(
+      "計算式が複雑すぎます"
+    );
+  });
+
+  it("0 で割ると ExpressionError", () => {
+    expect(() => evaluate("score / bonus", { score: 1 })).toThrow("0 で割ることはできません");
+  });
+});
+
+describe("getExpressionVariables / validateExpression", () => {
+  it("参照する変数を出現順に重複なしで返す", () => {
+    expect(getExpressionVariables(parseExpression("b + a * max(b, c)"))).toEqual(["b", "a", "c"]);
+  });
+
+  it("未定義の変数・構文エラーはメッセージ、問題なければ null", () => {
+    expect(validateExpression("score + bonus", ["score"])).toBe("定義されていない変数です: bonus");
+    expect(validateExpression("score +", ["score"])).toBe("計算式が途中で終わっています");
+    expect(validateExpression("score * 2", ["score"])).toBeNull();
+  });
+});
+
+describe("computeVariableValue / computeInitialValue", () => {
+  const total: ComputedVariable = { key: "total", label: "合計", expression: "score + bonus * 10" };
+  const variables: Variable[] = [
+    { key: "score", label: "点数", initial: 100 },
+    { key: "bonus", label: "ボーナス", initial: 2 },
+  ];
+
+  it("プレイヤーの値・初期値から計算する", () => {
+    expect(computeVariableValue(total, { score: 50, bonus: 1 })).toBe(60);
+    expect(computeInitialValue(total, variables)).toBe(120);
+  });
+
+  it("計算できない場合は null", () => {
+    expect(computeVariableValue({ ...total, expression: "score /" }, { score: 1 })).toBeNull();
+    expect(computeVariableValue({ ...total, expression: "score / bonus" }, { score: 1 })).toBeNull();
+  });
+});
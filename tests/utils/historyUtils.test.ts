@@ -0,0 +1,344 @@
+/**
+ * historyUtils.ts ユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import {
+  formatHistoryEvent,
+  formatActor,
+  getHistoryActors,
+  type HistoryEventFields,
+} from "../../app/utils/historyUtils";
+import type { GameState, Variable } from "../../app/types";
+
+const VARIABLES: Variable[] = [
+  { key: "score", label: "点数", initial: 25000 },
+  { key: "riichi", label: "リーチ棒", initial: 0 },
+];
+
+function makeEntry(fields: Partial<HistoryEventFields>): HistoryEventFields {
+  return {
+    message: "保存済みメッセージ",
+    event_type: null,
+    from_id: null,
+    to_id: null,
+    transfers: null,
+    payload: null,
+    ...fields,
+  };
+}
+
+describe("formatHistoryEvent", () => {
+  it("event_type の無い古い行は message をそのまま返す", () => {
+    expect(formatHistoryEvent(makeEntry({}), VARIABLES)).toBe("保存済みメッセージ");
+  });
+
+  it("transfer: 変数ラベルと桁区切りの金額で表示する", () => {
+    const text = formatHistoryEvent(
+      makeEntry({
+        event_type: "transfer",
+        from_id: "user-a",
+        to_id: "user-b",
+        transfers: [
+          { variable: "score", amount: 8000 },
+          { variable: "riichi", amount: 1 },
+        ],
+        payload: { fromName: "Alice", toName: "Bob" },
+      }),
+      VARIABLES
+    );
+
+    expect(text).toBe("Alice → Bob: 点数 8,000, リーチ棒 1");
+  });
+
+  it("transfer: 名前が無ければ Pot は「供託」、プレイヤーはID先頭8文字", () => {
+    const toPot = formatHistoryEvent(
+      makeEntry({
+        event_type: "transfer",
+        from_id: "abcdefghijkl",
+        to_id: "__pot__",
+        transfers: [{ variable: "unknown", amount: 1000 }],
+      }),
+      VARIABLES
+    );
+    const fromPot = formatHistoryEvent(
+      makeEntry({
+        event_type: "transfer",
+        from_id: "__pot__",
+        to_id: "abcdefghijkl",
+        transfers: [{ variable: "score", amount: 1000 }],
+      }),
+      VARIABLES
+    );
+
+    expect(toPot).toBe("abcdefgh → 供託: unknown 1,000");
+    expect(fromPot).toBe("供託回収 → abcdefgh: 点数 1,000");
+  });
+
+  it("force_leave_seat: サーバーの切断タイムアウトによる離席は区別して表示する", () => {
+    const byHost = formatHistoryEvent(
+      makeEntry({ event_type: "force_leave_seat", to_id: "user-a", payload: { name: "Alice" } }),
+      VARIABLES
+    );
+    const byTimeout = formatHistoryEvent(
+      makeEntry({
+        event_type: "force_leave_seat",
+        to_id: "user-a",
+        payload: { name: "Alice", reason: "timeout" },
+      }),
+      VARIABLES
+    );
+
+    expect(byHost).toBe("強制離席: Alice");
+    expect(byTimeout).toBe("切断により離席: Alice");
+  });
+
+  it("multi_transfer: 移動ごとの内訳を「 / 」区切りで表示する", () => {
+    const text = formatHistoryEvent(
+      makeEntry({
+        event_type: "multi_transfer",
+        to_id: "user-b",
+        payload: {
+          legs: [
+            {
+              fromId: "user-a",
+              fromName: "Alice",
+              toId: "user-b",
+              toName: "Bob",
+              transfers: [{ variable: "score", amount: 2600 }],
+            },
+            {
+              fromId: "user-c",
+              fromName: "Carol",
+              toId: "user-b",
+              toName: "Bob",
+              transfers: [{ variable: "score", amount: 1300 }],
+            },
+          ],
+        },
+      }),
+      VARIABLES
+    );
+
+    expect(text).toBe("Alice → Bob: 点数 2,600 / Carol → Bob: 点数 1,300");
+  });
+
+  it("settlement: 順位順に符号付きで表示する", () => {
+    const text = formatHistoryEvent(
+      makeEntry({
+        event_type: "settlement",
+        payload: {
+          settlementId: "s1",
+          results: {
+            b: { displayName: "Bob", rank: 2, result: -12.5 },
+            a: { displayName: "Alice", rank: 1, result: 12.5 },
+          },
+        },
+      }),
+      VARIABLES
+    );
+
+    expect(text).toBe("精算: Alice: +12.5, Bob: -12.5");
+  });
+
+  it("force_edit / reset / 座席操作 / import", () => {
+    expect(
+      formatHistoryEvent(
+        makeEntry({
+          event_type: "force_edit",
+          to_id: "user-a",
+          payload: { name: "Alice", values: { score: 30000 } },
+        }),
+        VARIABLES
+      )
+    ).toBe("強制編集: Alice - 点数: 30,000");
+    expect(
+      formatHistoryEvent(
+        makeEntry({ event_type: "reset", payload: { variables: ["score", "riichi"] } }),
+        VARIABLES
+      )
+    ).toBe("リセット: 点数, リーチ棒");
+    expect(
+      formatHistoryEvent(
+        makeEntry({ event_type: "join_fake_seat", to_id: "fake_1", payload: { name: "プレイヤーA" } }),
+        VARIABLES
+      )
+    ).toBe("ゲスト着席: プレイヤーA");
+    expect(
+      formatHistoryEvent(
+        makeEntry({ event_type: "import", payload: { settlementCount: 3 } }),
+        VARIABLES
+      )
+    ).toBe("ゲーム記録をインポート（精算 3 回）");
+  });
+
+  it("win: 支払い者ごとの支払いと供託・翻符を表示", () => {
+    expect(
+      formatHistoryEvent(
+        makeEntry({
+          event_type: "win",
+          to_id: "user-a",
+          payload: {
+            toName: "Alice",
+            payments: [
+              { fromId: "user-b", fromName: "Bob", amount: 2600 },
+              { fromId: "user-c", fromName: "Carol", amount: 1300 },
+            ],
+            pot: { score: 1000 },
+            winType: "tsumo",
+            han: 3,
+            fu: 40,
+          },
+        }),
+        VARIABLES
+      )
+    ).toBe("アガリ: Alice ← Bob 2,600, Carol 1,300, 供託 点数 1,000（ツモ 3翻40符）");
+    expect(
+      formatHistoryEvent(
+        makeEntry({
+          event_type: "win",
+          to_id: "user-a",
+          payload: {
+            toName: "Alice",
+            payments: [{ fromId: "user-b", fromName: "Bob", amount: 12000 }],
+            winType: "ron",
+            han: 6,
+            fu: 30,
+          },
+        }),
+        VARIABLES
+      )
+    ).toBe("アガリ: Alice ← Bob 12,000（ロン 跳満）");
+  });
+
+  it("win: 局も進めた場合は進行後の局を添える", () => {
+    const text = formatHistoryEvent(
+      makeEntry({
+        event_type: "win",
+        to_id: "user-a",
+        payload: {
+          toName: "Alice",
+          payments: [{ fromId: "user-b", fromName: "Bob", amount: 8000 }],
+          winType: "ron",
+          han: 5,
+          fu: 30,
+          roundResult: "non_dealer_win",
+          round: { wind: "east", hand: 3, honba: 0, dealerSeat: 2, startSeat: 0 },
+        },
+      }),
+      VARIABLES
+    );
+
+    expect(text).toBe("アガリ: Alice ← Bob 8,000（ロン 満貫）（局進行: 東3局 0本場）");
+  });
+
+  it("draw: テンパイ・ノーテンそれぞれの名前と収支を表示", () => {
+    const text = formatHistoryEvent(
+      makeEntry({
+        event_type: "draw",
+        payload: {
+          variable: "score",
+          drawResults: [
+            { playerId: "a", name: "Alice", tenpai: true, amount: 1500 },
+            { playerId: "b", name: "Bob", tenpai: false, amount: -1500 },
+            { playerId: "c", name: "Carol", tenpai: true, amount: 1500 },
+            { playerId: "d", name: "Dave", tenpai: false, amount: -1500 },
+          ],
+        },
+      }),
+      VARIABLES
+    );
+
+    expect(text).toBe("流局: テンパイ Alice, Carol +1,500 / ノーテン Bob, Dave -1,500");
+  });
+
+  it("draw: 局も進めた場合は進行後の局を添える", () => {
+    const text = formatHistoryEvent(
+      makeEntry({
+        event_type: "draw",
+        payload: {
+          variable: "score",
+          drawResults: [
+            { playerId: "a", name: "Alice", tenpai: false, amount: -3000 },
+            { playerId: "b", name: "Bob", tenpai: true, amount: 3000 },
+          ],
+          dealerTenpai: false,
+          round: { wind: "east", hand: 2, honba: 1, dealerSeat: 1, startSeat: 0 },
+        },
+      }),
+      VARIABLES
+    );
+
+    expect(text).toBe("流局: テンパイ Bob +3,000 / ノーテン Alice -3,000（局進行: 東2局 1本場）");
+  });
+
+  it("custom_action: 操作名・実行者と参加者ごとの増減を表示", () => {
+    const text = formatHistoryEvent(
+      makeEntry({
+        event_type: "custom_action",
+        to_id: "a",
+        payload: {
+          actionId: "riichi",
+          label: "リーチ",
+          name: "Alice",
+          deltas: [
+            { id: "a", name: "Alice", variable: "score", amount: -1000 },
+            { id: "a", name: "Alice", variable: "riichi", amount: 1 },
+            { id: "__pot__", name: "供託", variable: "score", amount: 1000 },
+          ],
+        },
+      }),
+      VARIABLES
+    );
+
+    expect(text).toBe("リーチ（Alice）: Alice 点数 -1,000, リーチ棒 +1 / 供託 点数 +1,000");
+  });
+
+  it("round: 局進行と局リセット", () => {
+    const round = { wind: "south" as const, hand: 2, honba: 1, dealerSeat: 1, startSeat: 0 };
+    expect(
+      formatHistoryEvent(
+        makeEntry({ event_type: "round", payload: { roundResult: "draw", dealerTenpai: false, round } }),
+        VARIABLES
+      )
+    ).toBe("局進行: 南2局 1本場（流局・親ノーテン）");
+    expect(
+      formatHistoryEvent(
+        makeEntry({ event_type: "round", payload: { roundResult: "non_dealer_win", round } }),
+        VARIABLES
+      )
+    ).toBe("局進行: 南2局 1本場（子のアガリ）");
+    expect(
+      formatHistoryEvent(
+        makeEntry({
+          event_type: "round",
+          payload: { name: "Alice", round: { ...round, wind: "east", hand: 1, honba: 0 } },
+        }),
+        VARIABLES
+      )
+    ).toBe("局リセット: 東1局 0本場（起家: Alice）");
+  });
+});
+
+describe("formatActor", () => {
+  it("表示名があれば「by X」、無ければ null", () => {
+    expect(formatActor("Alice")).toBe("by Alice");
+    expect(formatActor(null)).toBeNull();
+    expect(formatActor(undefined)).toBeNull();
+  });
+});
+
+describe("getHistoryActors", () => {
+  it("予約キーとゲストを除き、表示名が無ければID先頭8文字", () => {
+    const state = {
+      __pot__: { score: 1000 },
+      "user-aaa": { score: 25000, __displayName__: "Alice" },
+      "user-bbb-cccc-dddd": { score: 25000 },
+      fake_1_abcd: { score: 25000, __displayName__: "プレイヤーA" },
+    } as unknown as GameState;
+
+    expect(getHistoryActors(state)).toEqual([
+      { userId: "user-aaa", displayName: "Alice" },
+      { userId: "user-bbb-cccc-dddd", displayName: "user-bbb" },
+    ]);
+  });
+});
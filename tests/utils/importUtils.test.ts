@@ -0,0 +1,185 @@
+/**
+ * importUtils.ts ユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import { parseGameRecord, buildImportData } from "../../app/utils/importUtils";
+import { buildGameRecord, EXPORT_FORMAT_VERSION } from "../../app/utils/exportUtils";
+import type { GameRecordExport, Room } from "../../app/types";
+
+const HOST = "host-uid";
+const ALICE = "alice-uid";
+const GUEST = "fake_1700000000000_abcd";
+
+function makeRecord(): GameRecordExport {
+  const room: Room = {
+    id: "room-1",
+    room_code: "1234",
+    room_name: "金曜麻雀",
+    host_user_id: HOST,
+    co_host_ids: [],
+    status: "playing",
+    template: {
+      variables: [{ key: "score", label: "点数", initial: 25000 }],
+      hostPermissions: ["transfer_score"],
+      playerPermissions: ["transfer_score"],
+      layoutMode: "mahjong",
+      maxPlayers: 4,
+    },
+    current_state: {
+      [HOST]: { score: 30000 },
+      [ALICE]: { score: 20000 },
+      [GUEST]: { score: 25000, __displayName__: "プレイヤーA" },
+      __pot__: { score: 0 },
+    },
+    seats: [
+      { userId: HOST, status: "active", displayName: "Host" },
+      { userId: ALICE, status: "active", displayName: "Alice" },
+      { userId: GUEST, status: "active", displayName: "プレイヤーA", isFake: true },
+      null,
+    ],
+    created_at: "2026-01-01T00:00:00Z",
+  };
+  const settlement = {
+    id: "s1",
+    timestamp: 1767225600000,
+    type: "settlement" as const,
+    playerResults: {
+      [HOST]: { displayName: "Host", finalScore: 40000, rank: 1, rankBonus: 0, adjustedScore: 40000, divided: 15, result: 15 },
+      [ALICE]: { displayName: "Alice", finalScore: 10000, rank: 2, rankBonus: 0, adjustedScore: 10000, divided: -15, result: -15 },
+    },
+  };
+  return buildGameRecord(room, [], [settlement]);
+}
+
+describe("parseGameRecord", () => {
+  it("エクスポートした JSON をそのまま読み込める", () => {
+    const record = makeRecord();
+
+    const result = parseGameRecord(JSON.stringify(record));
+
+    expect(result.error).toBeNull();
+    expect(result.record).toEqual(record);
+  });
+
+  it("JSON でない文字列はエラー", () => {
+    expect(parseGameRecord("{not json").error).toBe("JSON として読み込めません");
+  });
+
+  it("format が異なる場合はエラー", () => {
+    const data = { ...makeRecord(), format: "other" };
+
+    expect(parseGameRecord(JSON.stringify(data)).error).toBe(
+      "ゲーム記録のファイルではありません"
+    );
+  });
+
+  it("未対応の version はエラー", () => {
+    const data = { ...makeRecord(), version: 99 };
+
+    expect(parseGameRecord(JSON.stringify(data)).error).toContain(
+      "対応していないバージョンです"
+    );
+  });
+
+  it("version 1 の記録は現在の形式に変換して読み込む", () => {
+    const data = {
+      ...makeRecord(),
+      version: 1,
+      history: [{ id: "h1", message: "Host → Alice: 点数 1000", snapshot: {}, created_at: "2026-01-01T00:00:00Z" }],
+    };
+
+    const { record, error } = parseGameRecord(JSON.stringify(data));
+
+    expect(error).toBeNull();
+    expect(record?.version).toBe(EXPORT_FORMAT_VERSION);
+    expect(record?.history[0]).toMatchObject({
+      id: "h1",
+      message: "Host → Alice: 点数 1000",
+      event_type: null,
+      actor_name: null,
+      reverted_at: null,
+    });
+  });
+
+  it("必須フィールドの欠落・型違いはエラー", () => {
+    const record = makeRecord();
+    const cases: [Record<string, unknown>, string][] = [
+      [{ template: { ...record.template, variables: [{ key: "score" }] } }, "テンプレートの変数定義が不正です"],
+      [{ seats: [null] }, "座席情報が不正です"],
+      [{ seats: [{ userId: 1, status: "active" }, null] }, "座席情報が不正です"],
+      [{ currentState: { [HOST]: { score: "30000" } } }, "スコア情報が不正です"],
+      [{ currentState: { __pot__: { score: "x" } } }, "供託金の情報が不正です"],
+      [{ settlements: [{ type: "unknown", timestamp: 0, playerResults: {} }] }, "精算履歴が不正です"],
+      [{ settlements: undefined }, "精算履歴が不正です"],
+    ];
+
+    for (const [override, message] of cases) {
+      const text = JSON.stringify({ ...record, ...override });
+      expect(parseGameRecord(text)).toEqual({ record: null, error: message });
+    }
+  });
+});
+
+describe("buildImportData", () => {
+  let counter = 0;
+  const createFakeId = () => `fake_new_${++counter}`;
+
+  it("取り込むユーザー本人と架空ユーザーはIDを維持し、他の実ユーザーはゲストに付け替える", () => {
+    counter = 0;
+
+    const data = buildImportData(makeRecord(), HOST, createFakeId);
+
+    expect(data.seats).toEqual([
+      { userId: HOST, status: "active", displayName: "Host" },
+      { userId: "fake_new_1", status: "active", displayName: "Alice", isFake: true },
+      { userId: GUEST, status: "active", displayName: "プレイヤーA", isFake: true },
+      null,
+    ]);
+    expect(data.currentState).toEqual({
+      [HOST]: { score: 30000 },
+      fake_new_1: { score: 20000, __displayName__: "Alice" },
+      [GUEST]: { score: 25000, __displayName__: "プレイヤーA" },
+      __pot__: { score: 0 },
+    });
+  });
+
+  it("精算行のプレイヤーIDも同じ対応で付け替える", () => {
+    counter = 0;
+
+    const data = buildImportData(makeRecord(), HOST, createFakeId);
+
+    expect(data.settlements).toHaveLength(1);
+    expect(data.settlements[0].type).toBe("settlement");
+    expect(data.settlements[0].timestamp).toBe(1767225600000);
+    expect(Object.keys(data.settlements[0].playerResults)).toEqual([HOST, "fake_new_1"]);
+    expect(data.settlements[0].playerResults.fake_new_1.result).toBe(-15);
+  });
+
+  it("別のユーザーが取り込むと元のホストもゲストになる", () => {
+    counter = 0;
+
+    const data = buildImportData(makeRecord(), "someone-else", createFakeId);
+
+    expect(data.seats[0]).toEqual({
+      userId: "fake_new_1",
+      status: "active",
+      displayName: "Host",
+      isFake: true,
+    });
+    expect(data.seats[1]?.userId).toBe("fake_new_2");
+    expect(data.currentState.fake_new_1).toEqual({ score: 30000, __displayName__: "Host" });
+  });
+
+  it("座席にいないプレイヤーの表示名は精算行から引き継ぐ", () => {
+    counter = 0;
+    const record = makeRecord();
+    record.seats = [null, null, null, null];
+
+    const data = buildImportData(record, HOST, createFakeId);
+
+    expect(data.currentState.fake_new_1).toEqual({
+      score: 20000,
+      __displayName__: "Alice",
+    });
+  });
+});
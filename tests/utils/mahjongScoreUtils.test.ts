@@ -0,0 +1,227 @@
+/**
+ * mahjongScoreUtils.ts ユニットテスト
+ * 点数表（子・親、ロン・ツモ）と満貫以上の切り替わり、本場の加算を検証
+ */
+import { describe, it, expect } from "vitest";
+import {
+  ceilTo100,
+  getBasePoints,
+  getLimitName,
+  formatHand,
+  calculateWinPayments,
+  sumWinPayments,
+  calculateDrawPayments,
+  WinPayer,
+} from "../../app/utils/mahjongScoreUtils";
+
+// 和了者以外の3人（A が親）
+const PAYERS: WinPayer[] = [
+  { playerId: "A", isDealer: true },
+  { playerId: "B", isDealer: false },
+  { playerId: "C", isDealer: false },
+];
+// 和了者が親のときの支払い者（全員子）
+const PAYERS_NO_DEALER: WinPayer[] = PAYERS.map((p) => ({ ...p, isDealer: false }));
+
+function ron(han: number, fu: number, isDealer: boolean, honba = 0): number {
+  const payers = isDealer ? PAYERS_NO_DEALER : PAYERS;
+  return calculateWinPayments({
+    han,
+    fu,
+    isDealer,
+    winType: "ron",
+    honba,
+    payers,
+    loserId: "B",
+  })[0].amount;
+}
+
+function tsumo(han: number, fu: number, isDealer: boolean, honba = 0): number[] {
+  const payers = isDealer ? PAYERS_NO_DEALER : PAYERS;
+  return calculateWinPayments({ han, fu, isDealer, winType: "tsumo", honba, payers }).map(
+    (leg) => leg.amount
+  );
+}
+
+// -------------------------------------------------------------------
+describe("ceilTo100", () => {
+  it("100 点単位に切り上げる", () => {
+    expect(ceilTo100(1280)).toBe(1300);
+    expect(ceilTo100(3840)).toBe(3900);
+    expect(ceilTo100(2000)).toBe(2000);
+  });
+});
+
+// -------------------------------------------------------------------
+describe("getBasePoints", () => {
+  it("符 × 2^(翻 + 2)", () => {
+    expect(getBasePoints(1, 30)).toBe(240);
+    expect(getBasePoints(3, 40)).toBe(1280);
+  });
+
+  it("5翻未満でも 2000 を超えたら満貫", () => {
+    expect(getBasePoints(4, 40)).toBe(2000);
+    expect(getBasePoints(3, 70)).toBe(2000);
+  });
+
+  it("4翻30符は満貫にしない（切り上げ満貫なし）", () => {
+    expect(getBasePoints(4, 30)).toBe(1920);
+  });
+
+  it("翻数による満貫以上の基本点", () => {
+    expect(getBasePoints(5, 30)).toBe(2000);
+    expect(getBasePoints(6, 30)).toBe(3000);
+    expect(getBasePoints(7, 30)).toBe(3000);
+    expect(getBasePoints(8, 30)).toBe(4000);
+    expect(getBasePoints(10, 30)).toBe(4000);
+    expect(getBasePoints(11, 30)).toBe(6000);
+    expect(getBasePoints(12, 30)).toBe(6000);
+    expect(getBasePoints(13, 30)).toBe(8000);
+  });
+});
+
+// -------------------------------------------------------------------
+describe("getLimitName / formatHand", () => {
+  it("満貫未満は翻・符で表示", () => {
+    expect(getLimitName(3, 40)).toBeNull();
+    expect(formatHand(3, 40)).toBe("3翻40符");
+  });
+
+  it("満貫以上は名称で表示", () => {
+    expect(formatHand(4, 40)).toBe("満貫");
+    expect(formatHand(5, 20)).toBe("満貫");
+    expect(formatHand(6, 30)).toBe("跳満");
+    expect(formatHand(8, 30)).toBe("倍満");
+    expect(formatHand(11, 30)).toBe("三倍満");
+    expect(formatHand(13, 30)).toBe("役満");
+  });
+});
+
+// -------------------------------------------------------------------
+describe("calculateWinPayments: 子のロン", () => {
+  it.each([
+    [1, 30, 1000],
+    [1, 40, 1300],
+    [2, 25, 1600],
+    [2, 30, 2000],
+    [3, 30, 3900],
+    [3, 40, 5200],
+    [4, 30, 7700],
+    [4, 40, 8000],
+    [6, 30, 12000],
+    [8, 30, 16000],
+    [11, 30, 24000],
+    [13, 30, 32000],
+  ])("%i翻%i符 → %i", (han, fu, expected) => {
+    expect(ron(han, fu, false)).toBe(expected);
+  });
+});
+
+describe("calculateWinPayments: 親のロン", () => {
+  it.each([
+    [1, 30, 1500],
+    [2, 25, 2400],
+    [3, 30, 5800],
+    [4, 30, 11600],
+    [5, 30, 12000],
+    [6, 30, 18000],
+    [13, 30, 48000],
+  ])("%i翻%i符 → %i", (han, fu, expected) => {
+    expect(ron(han, fu, true)).toBe(expected);
+  });
+});
+
+describe("calculateWinPayments: 子のツモ（親 / 子 / 子）", () => {
+  it.each([
+    [1, 30, [500, 300, 300]],
+    [2, 20, [700, 400, 400]],
+    [3, 40, [2600, 1300, 1300]],
+    [4, 30, [3900, 2000, 2000]],
+    [5, 30, [4000, 2000, 2000]],
+    [13, 30, [16000, 8000, 8000]],
+  ])("%i翻%i符 → %j", (han, fu, expected) => {
+    expect(tsumo(han, fu, false)).toEqual(expected);
+  });
+});
+
+describe("calculateWinPayments: 親のツモ（オール）", () => {
+  it.each([
+    [1, 30, 500],
+    [2, 20, 700],
+    [3, 40, 2600],
+    [4, 30, 3900],
+    [6, 30, 6000],
+  ])("%i翻%i符 → %i オール", (han, fu, expected) => {
+    expect(tsumo(han, fu, true)).toEqual([expected, expected, expected]);
+  });
+});
+
+describe("calculateWinPayments: 本場・その他", () => {
+  it("ロンは1本場あたり 300 を放銃者が支払う", () => {
+    expect(ron(3, 30, false, 2)).toBe(3900 + 600);
+  });
+
+  it("ツモは1本場あたり 100 を各自が支払う", () => {
+    expect(tsumo(3, 40, false, 1)).toEqual([2700, 1400, 1400]);
+  });
+
+  it("ロンで放銃者が支払い者にいなければ空", () => {
+    expect(
+      calculateWinPayments({
+        han: 1,
+        fu: 30,
+        isDealer: false,
+        winType: "ron",
+        honba: 0,
+        payers: PAYERS,
+        loserId: "X",
+      })
+    ).toEqual([]);
+  });
+
+  it("三人麻雀のツモは支払い者が2人（ツモ損）", () => {
+    const legs = calculateWinPayments({
+      han: 3,
+      fu: 40,
+      isDealer: false,
+      winType: "tsumo",
+      honba: 0,
+      payers: PAYERS.slice(0, 2),
+    });
+    expect(legs).toEqual([
+      { from: "A", amount: 2600 },
+      { from: "B", amount: 1300 },
+    ]);
+    expect(sumWinPayments(legs)).toBe(3900);
+  });
+});
+
+// -------------------------------------------------------------------
+describe("calculateDrawPayments", () => {
+  const PLAYERS = ["A", "B", "C", "D"];
+  const amounts = (tenpaiIds: string[]) =>
+    calculateDrawPayments(PLAYERS, tenpaiIds).map((r) => r.amount);
+
+  it("1人テンパイ: +3000 / 各 -1000", () => {
+    expect(amounts(["A"])).toEqual([3000, -1000, -1000, -1000]);
+  });
+
+  it("2人テンパイ: 各 +1500 / 各 -1500", () => {
+    expect(amounts(["A", "C"])).toEqual([1500, -1500, 1500, -1500]);
+  });
+
+  it("3人テンパイ: 各 +1000 / -3000", () => {
+    expect(amounts(["B", "C", "D"])).toEqual([-3000, 1000, 1000, 1000]);
+  });
+
+  it("全員テンパイ・全員ノーテンは空", () => {
+    expect(calculateDrawPayments(PLAYERS, [])).toEqual([]);
+    expect(calculateDrawPayments(PLAYERS, PLAYERS)).toEqual([]);
+  });
+
+  it("着席者以外のIDは無視し、収支の合計は 0", () => {
+    const results = calculateDrawPayments(PLAYERS, ["A", "X"]);
+    expect(results.filter((r) => r.tenpai).map((r) => r.playerId)).toEqual(["A"]);
+    expect(results.reduce((sum, r) => sum + r.amount, 0)).toBe(0);
+  });
+});
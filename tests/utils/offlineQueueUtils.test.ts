@@ -0,0 +1,150 @@
+/**
+ * offlineQueueUtils ユニットテスト
+ *
+ * 対象: app/utils/offlineQueueUtils.ts
+ * 概要: 送信待ち操作の楽観的反映と、再送前の競合判定を検証する
+ */
+import { describe, it, expect } from "vitest";
+import {
+  hashGameState,
+  applyQueuedOperation,
+  applyQueuedOperations,
+  validateQueuedOperation,
+} from "../../app/utils/offlineQueueUtils";
+import type { GameState, QueuedOperation, Room } from "../../app/types";
+
+// ---- ヘルパー ----
+
+function makeState(): GameState {
+  return {
+    alice: { score: 25000 },
+    bob: { score: 25000 },
+    __pot__: { score: 1000 },
+  } as GameState;
+}
+
+function makeRoom(state: GameState, overrides: Partial<Room> = {}): Room {
+  return {
+    id: "room-1",
+    room_code: "ABCD",
+    host_user_id: "host-1",
+    status: "playing",
+    template: {
+      variables: [{ key: "score", label: "点数", initial: 25000, allowNegative: "forbid" }],
+      hostPermissions: [],
+      playerPermissions: [],
+    },
+    current_state: state,
+    seats: [
+      { userId: "alice", status: "active", displayName: "Alice" },
+      { userId: "bob", status: "active", displayName: "Bob" },
+      null,
+      null,
+    ],
+    created_at: "2025-01-01T00:00:00Z",
+    ...overrides,
+  } as Room;
+}
+
+function makeOp(overrides: Partial<QueuedOperation> = {}): QueuedOperation {
+  return {
+    id: "op-1",
+    type: "transfer",
+    fromId: "alice",
+    toId: "bob",
+    transfers: [{ variable: "score", amount: 1000 }],
+    fromName: "Alice",
+    toName: "Bob",
+    baseHash: hashGameState(makeState()),
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+// ---- テスト ----
+
+describe("hashGameState", () => {
+  it("スコアが同じならキー順や直近ログに関係なく同じ値になる", () => {
+    const a = makeState();
+    const b = {
+      __recent_log__: [{ id: "1", timestamp: 0, message: "x" }],
+      bob: { score: 25000 },
+      __pot__: { score: 1000 },
+      alice: { score: 25000 },
+    } as GameState;
+
+    expect(hashGameState(a)).toBe(hashGameState(b));
+  });
+
+  it("スコアや供託が変われば値が変わる", () => {
+    const moved = { ...makeState(), bob: { score: 24000 } } as GameState;
+    const pot = { ...makeState(), __pot__: { score: 0 } } as GameState;
+
+    expect(hashGameState(moved)).not.toBe(hashGameState(makeState()));
+    expect(hashGameState(pot)).not.toBe(hashGameState(makeState()));
+  });
+});
+
+describe("applyQueuedOperation(s)", () => {
+  it("支払い元から引き、受け取り側に足す（供託も対象）", () => {
+    const state = applyQueuedOperations(makeState(), [
+      makeOp(),
+      makeOp({ id: "op-2", fromId: "__pot__", toId: "alice", fromName: undefined }),
+    ]);
+
+    expect((state.alice as any).score).toBe(25000);
+    expect((state.bob as any).score).toBe(26000);
+    expect((state.__pot__ as any).score).toBe(0);
+  });
+
+  it("元の状態は変更しない", () => {
+    const state = makeState();
+    applyQueuedOperation(state, makeOp());
+
+    expect((state.alice as any).score).toBe(25000);
+  });
+});
+
+describe("validateQueuedOperation", () => {
+  it("操作時点から状態が変わっていなければ null", () => {
+    expect(validateQueuedOperation(makeOp(), makeRoom(makeState()))).toBeNull();
+  });
+
+  it("相手がルームから退出していれば取り消す", () => {
+    const { bob: _bob, ...rest } = makeState();
+
+    expect(validateQueuedOperation(makeOp(), makeRoom(rest as GameState))).toBe(
+      "Bobが退出しています"
+    );
+  });
+
+  it("麻雀モードで相手が離席していれば取り消す", () => {
+    const room = makeRoom(makeState(), {
+      seats: [{ userId: "alice", status: "active", displayName: "Alice" }, null, null, null],
+    });
+    room.template.layoutMode = "mahjong";
+
+    expect(validateQueuedOperation(makeOp(), room)).toBe("Bobが退出しています");
+  });
+
+  it("状態が動いて変数の制約に違反するようになった操作は取り消す", () => {
+    const state = { ...makeState(), alice: { score: 500 } } as GameState;
+
+    expect(validateQueuedOperation(makeOp(), makeRoom(state))).toBe(
+      "点数を負の値にはできません"
+    );
+  });
+
+  it("状態が動いて供託が足りなくなった操作は取り消す", () => {
+    const state = { ...makeState(), __pot__: { score: 0 } } as GameState;
+    const op = makeOp({ fromId: "__pot__", fromName: undefined });
+
+    expect(validateQueuedOperation(op, makeRoom(state))).toBe("供託金が不足しています");
+  });
+
+  it("状態が動いても制約を満たすなら送ってよい", () => {
+    const state = { ...makeState(), bob: { score: 30000 } } as GameState;
+
+    expect(validateQueuedOperation(makeOp(), makeRoom(state))).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * roomDiffUtils ユニットテスト
+ *
+ * 対象: app/utils/roomDiffUtils.ts
+ * 概要: Broadcast で届いたルーム差分の適用可否の判定と、手元のルームへの適用を検証する
+ */
+import { describe, it, expect } from "vitest";
+import { applyRoomDiff, getRoomDiffStatus } from "../../app/utils/roomDiffUtils";
+import type { GameState, RecentLogEntry, Room } from "../../app/types";
+
+// ---- ヘルパー ----
+
+function makeRoom(overrides: Partial<Room> = {}): Room {
+  return {
+    id: "room-1",
+    room_code: "ABCD",
+    host_user_id: "host-1",
+    status: "playing",
+    template: { variables: [], hostPermissions: [], playerPermissions: [] },
+    current_state: {
+      alice: { score: 25000, riichi: 1 },
+      bob: { score: 25000 },
+      __pot__: { score: 1000 },
+    } as GameState,
+    state_version: 5,
+    created_at: "2025-01-01T00:00:00Z",
+    ...overrides,
+  } as Room;
+}
+
+function makeLog(id: string): RecentLogEntry {
+  return { id, timestamp: 0, message: id };
+}
+
+// ---- テスト ----
+
+describe("getRoomDiffStatus", () => {
+  it("手元の次のバージョンなら適用する", () => {
+    expect(getRoomDiffStatus(makeRoom(), { version: 6 })).toBe("apply");
+  });
+
+  it("手元と同じか古いバージョンは反映済みとして無視する", () => {
+    expect(getRoomDiffStatus(makeRoom(), { version: 5 })).toBe("stale");
+    expect(getRoomDiffStatus(makeRoom(), { version: 3 })).toBe("stale");
+  });
+
+  it("バージョンが飛んでいるか手元のバージョンが不明なら取得し直す", () => {
+    expect(getRoomDiffStatus(makeRoom(), { version: 8 })).toBe("gap");
+    expect(getRoomDiffStatus(makeRoom({ state_version: undefined }), { version: 6 })).toBe("gap");
+    expect(getRoomDiffStatus(null, { version: 6 })).toBe("gap");
+  });
+});
+
+describe("applyRoomDiff", () => {
+  it("変わった変数だけを重ね、null のキーは削除する", () => {
+    const next = applyRoomDiff(makeRoom(), {
+      version: 6,
+      state: { alice: { score: 24000, riichi: null }, __pot__: null },
+    });
+
+    expect(next.current_state).toEqual({
+      alice: { score: 24000 },
+      bob: { score: 25000 },
+    });
+    expect(next.state_version).toBe(6);
+  });
+
+  it("直近ログは追記し、最大件数を超えた古いものから捨てる", () => {
+    const room = makeRoom();
+    room.current_state.__recent_log__ = ["1", "2", "3", "4"].map(makeLog);
+
+    const next = applyRoomDiff(room, { version: 6, log: [makeLog("5"), makeLog("6")] });
+
+    expect(next.current_state.__recent_log__?.map((e) => e.id)).toEqual([
+      "2",
+      "3",
+      "4",
+      "5",
+      "6",
+    ]);
+  });
+
+  it("current_state 以外の変わった列を反映し、元のルームは変更しない", () => {
+    const room = makeRoom();
+    const next = applyRoomDiff(room, { version: 6, columns: { status: "finished" } });
+
+    expect(next.status).toBe("finished");
+    expect(room.status).toBe("playing");
+    expect(room.state_version).toBe(5);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * roundUtils.ts ユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import {
+  getRoundState,
+  formatRound,
+  getHonbaBonus,
+  applyHonbaBonus,
+} from "../../app/utils/roundUtils";
+import type { GameState, RoundState } from "../../app/types";
+
+function makeRound(overrides: Partial<RoundState> = {}): RoundState {
+  return { wind: "east", hand: 1, honba: 0, dealerSeat: 0, startSeat: 0, ...overrides };
+}
+
+// -------------------------------------------------------------------
+describe("getRoundState", () => {
+  it("__round__ が未設定なら東1局 0本場・起家は座席0", () => {
+    expect(getRoundState({} as GameState)).toEqual(makeRound());
+  });
+
+  it("__round__ があればそのまま返す", () => {
+    const round = makeRound({ wind: "south", hand: 3, honba: 2, dealerSeat: 3, startSeat: 1 });
+    expect(getRoundState({ __round__: round } as GameState)).toEqual(round);
+  });
+});
+
+// -------------------------------------------------------------------
+describe("formatRound", () => {
+  it("場風と局を表示する", () => {
+    expect(formatRound(makeRound({ wind: "south", hand: 4 }))).toBe("南4局");
+  });
+
+  it("本場は含めない", () => {
+    expect(formatRound(makeRound({ honba: 3 }))).toBe("東1局");
+  });
+});
+
+// -------------------------------------------------------------------
+describe("getHonbaBonus", () => {
+  it("ロンは1本場あたり300点", () => {
+    expect(getHonbaBonus(2, "ron")).toBe(600);
+  });
+
+  it("ツモは1本場あたり100点（1人分）", () => {
+    expect(getHonbaBonus(2, "tsumo")).toBe(200);
+  });
+
+  it("0本場なら 0", () => {
+    expect(getHonbaBonus(0, "ron")).toBe(0);
+  });
+});
+
+// -------------------------------------------------------------------
+describe("applyHonbaBonus", () => {
+  it("score の支払いに加算する", () => {
+    const result = applyHonbaBonus(
+      [
+        { variable: "score", amount: 8000 },
+        { variable: "chip", amount: 2 },
+      ],
+      600
+    );
+    expect(result).toEqual([
+      { variable: "score", amount: 8600 },
+      { variable: "chip", amount: 2 },
+    ]);
+  });
+
+  it("score の支払いが無ければ変更しない", () => {
+    const transfers = [{ variable: "chip", amount: 2 }];
+    expect(applyHonbaBonus(transfers, 600)).toEqual(transfers);
+  });
+
+  it("加算額が 0 なら変更しない", () => {
+    const transfers = [{ variable: "score", amount: 8000 }];
+    expect(applyHonbaBonus(transfers, 0)).toEqual(transfers);
+  });
+
+  it("対象の変数キーを指定できる", () => {
+    expect(
+      applyHonbaBonus([{ variable: "points", amount: 1000 }], 300, "points")
+    ).toEqual([{ variable: "points", amount: 1300 }]);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * seatUtils.ts ユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import {
+  getSeatCount,
+  createEmptySeats,
+  createSeatMapFromSeats,
+  DEFAULT_SEAT_COUNT,
+  MAX_SEAT_COUNT,
+} from "../../app/utils/seatUtils";
+import type { SeatInfo } from "../../app/types";
+
+function makeSeat(userId: string): SeatInfo {
+  return { userId, status: "active" };
+}
+
+describe("getSeatCount", () => {
+  it("maxPlayers 未指定なら 4 席", () => {
+    expect(getSeatCount()).toBe(DEFAULT_SEAT_COUNT);
+    expect(getSeatCount(undefined)).toBe(4);
+  });
+
+  it("maxPlayers をそのまま座席数にする", () => {
+    expect(getSeatCount(6)).toBe(6);
+    expect(getSeatCount(12)).toBe(12);
+  });
+
+  it("上限・下限に収める", () => {
+    expect(getSeatCount(1)).toBe(2);
+    expect(getSeatCount(99)).toBe(MAX_SEAT_COUNT);
+  });
+});
+
+describe("createEmptySeats", () => {
+  it("maxPlayers 分の null 配列を返す", () => {
+    expect(createEmptySeats(10)).toEqual(Array(10).fill(null));
+  });
+
+  it("未指定なら従来通り 4 席", () => {
+    expect(createEmptySeats()).toEqual([null, null, null, null]);
+  });
+});
+
+describe("createSeatMapFromSeats", () => {
+  it("4席: 自分が bottom になるよう回転する", () => {
+    const seats = [makeSeat("a"), makeSeat("b"), makeSeat("c"), makeSeat("d")];
+
+    expect(createSeatMapFromSeats(seats, "c")).toEqual({
+      c: "bottom",
+      d: "right",
+      a: "top",
+      b: "left",
+    });
+  });
+
+  it("5席以上: 座席数で回転し、位置を持たない座席はマップに含めない", () => {
+    const seats: (SeatInfo | null)[] = [
+      makeSeat("a"),
+      null,
+      null,
+      null,
+      null,
+      makeSeat("f"),
+    ];
+
+    // f を基準に回転: f=0(bottom), a=1(right)
+    expect(createSeatMapFromSeats(seats, "f")).toEqual({
+      f: "bottom",
+      a: "right",
+    });
+    // a を基準に回転: f は回転後 5 番目のため位置なし
+    expect(createSeatMapFromSeats(seats, "a")).toEqual({ a: "bottom" });
+  });
+});
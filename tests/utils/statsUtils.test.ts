@@ -0,0 +1,58 @@
+/**
+ * statsUtils.ts ユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import {
+  getStatsDateRange,
+  formatRankDistribution,
+  getTopRate,
+} from "../../app/utils/statsUtils";
+
+describe("getStatsDateRange", () => {
+  const now = new Date("2026-06-15T12:00:00Z");
+
+  it("全期間は範囲を指定しない", () => {
+    expect(getStatsDateRange("all", now)).toEqual({});
+  });
+
+  it("30日・90日は基準日時から遡る", () => {
+    expect(getStatsDateRange("30d", now)).toEqual({
+      from: "2026-05-16T12:00:00.000Z",
+    });
+    expect(getStatsDateRange("90d", now)).toEqual({
+      from: "2026-03-17T12:00:00.000Z",
+    });
+  });
+
+  it("今年はローカル時刻の1月1日から", () => {
+    expect(getStatsDateRange("year", now)).toEqual({
+      from: new Date(2026, 0, 1).toISOString(),
+    });
+  });
+});
+
+describe("formatRankDistribution", () => {
+  it("順位の昇順に並べる", () => {
+    expect(formatRankDistribution({ 4: 2, 1: 3, 2: 1 })).toBe(
+      "1位 3 / 2位 1 / 4位 2"
+    );
+  });
+
+  it("空の場合は空文字", () => {
+    expect(formatRankDistribution({})).toBe("");
+  });
+});
+
+describe("getTopRate", () => {
+  it("1位回数 / 対局数 を % で返す", () => {
+    expect(getTopRate({ games: 3, rankCounts: { 1: 1, 2: 2 } })).toBe(33.3);
+  });
+
+  it("1位がなければ 0", () => {
+    expect(getTopRate({ games: 2, rankCounts: { 3: 2 } })).toBe(0);
+  });
+
+  it("対局がなければ null", () => {
+    expect(getTopRate({ games: 0, rankCounts: {} })).toBeNull();
+  });
+});
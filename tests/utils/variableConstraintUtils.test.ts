@@ -0,0 +1,93 @@
+/**
+ * variableConstraintUtils.ts ユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import {
+  applyTransfers,
+  detectBusts,
+  formatBust,
+  validateStateChange,
+  validateVariableValue,
+} from "../../app/utils/variableConstraintUtils";
+import type { GameState, Variable } from "../../app/types";
+
+const score: Variable = {
+  key: "score",
+  label: "点数",
+  initial: 25000,
+  step: 100,
+  allowNegative: "warn",
+};
+const chips: Variable = {
+  key: "chips",
+  label: "チップ",
+  initial: 0,
+  min: -10,
+  max: 10,
+  allowNegative: "forbid",
+};
+
+describe("validateVariableValue", () => {
+  it("下限・上限・負の値・刻みの違反はメッセージ、問題なければ null", () => {
+    expect(validateVariableValue({ ...chips, allowNegative: "allow" }, -11)).toBe(
+      "チップが下限（-10）を下回ります"
+    );
+    expect(validateVariableValue(chips, 11)).toBe("チップが上限（10）を超えます");
+    expect(validateVariableValue(chips, -1)).toBe("チップを負の値にはできません");
+    expect(validateVariableValue(score, 25050)).toBe("点数は100単位で指定してください");
+    expect(validateVariableValue(score, -1200)).toBeNull();
+    expect(validateVariableValue(chips, 10)).toBeNull();
+  });
+});
+
+describe("validateStateChange / applyTransfers", () => {
+  const state: GameState = {
+    __pot__: { score: 1000 },
+    "user-a": { score: 25000, chips: 0 },
+    "user-b": { score: 25000, chips: 0 },
+    "user-c": { score: 25050, chips: 0 },
+  };
+
+  it("支払いを反映し、値が変わったプレイヤーだけを検査する", () => {
+    const after = applyTransfers(state, ["user-a"], "user-b", [{ variable: "score", amount: 1000 }]);
+
+    expect((after["user-a"] as Record<string, number>).score).toBe(24000);
+    expect((after["user-b"] as Record<string, number>).score).toBe(26000);
+    // user-c は刻みに合っていないが変わっていないので対象外
+    expect(validateStateChange([score, chips], state, after)).toBeNull();
+  });
+
+  it("一括移動（複数の支払い者）で制約に違反すればメッセージ", () => {
+    const after = applyTransfers(state, ["user-a", "user-c"], "user-b", [
+      { variable: "chips", amount: 1 },
+    ]);
+
+    expect((after["user-b"] as Record<string, number>).chips).toBe(2);
+    expect(validateStateChange([score, chips], state, after)).toBe("チップを負の値にはできません");
+  });
+
+  it("供託への移動は供託を変えない", () => {
+    const after = applyTransfers(state, ["user-a"], "__pot__", [{ variable: "score", amount: 1000 }]);
+
+    expect(after.__pot__).toEqual({ score: 1000 });
+  });
+});
+
+describe("detectBusts / formatBust", () => {
+  it("warn の変数が 0 以上から負になったプレイヤーのみ検出する", () => {
+    const before: GameState = {
+      "user-a": { score: 500, chips: 0, __displayName__: "Alice" },
+      "user-b": { score: -100, chips: 0 },
+    };
+    const after: GameState = {
+      "user-a": { score: -1200, chips: -1, __displayName__: "Alice" },
+      "user-b": { score: -300, chips: 0 },
+    };
+
+    const busts = detectBusts(before, after, [score, chips]);
+
+    expect(busts).toHaveLength(1);
+    expect(busts[0].playerId).toBe("user-a");
+    expect(formatBust(busts[0])).toBe("Alice（点数 -1,200）");
+  });
+});